@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useClearCliHistory, useCliHistory, useExecuteCommand } from "@/lib/api/hooks/redis"
+import { useMe } from "@/lib/api"
+import type { CliHistoryResponseDto, CliReply, ExecuteCommandResponseDto, MeResponseDto } from "@/types"
+import { useParams, useSearchParams } from "next/navigation"
+
+import { Button } from "@/components/ui/button"
+import { ClockCounterClockwise, Eraser } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+// Older entries scroll out of the console
+const MAX_ENTRIES = 200
+
+const roleHints: Record<string, string> = {
+    viewer: "Viewers can run read-only commands.",
+    editor: "Editors can run read-only and data commands, scripts and server administration are for admins.",
+    admin: "Admins can run every command.",
+}
+
+interface ConsoleEntry {
+    id: number
+    db: number
+    command: string
+    reply?: CliReply
+    durationMs?: number
+    error?: string
+}
+
+// Binary bytes already arrive escaped as \xNN
+function quote(value: string) {
+    return `"${value.replace(/"/g, '\\"').replace(/\n/g, "\\n").replace(/\r/g, "\\r").replace(/\t/g, "\\t")}"`
+}
+
+/**
+ * Lines of a reply the way redis-cli prints them, nested arrays indented under their index
+ */
+function formatReply(reply: CliReply): string[] {
+    switch (reply.type) {
+        case "string":
+            return [quote(reply.value)]
+        case "integer":
+            return [`(integer) ${reply.value}`]
+        case "nil":
+            return ["(nil)"]
+        case "error":
+            return [`(error) ${reply.value}`]
+        case "array": {
+            if (reply.items.length === 0) {
+                return ["(empty array)"]
+            }
+
+            const width = String(reply.items.length).length
+            return reply.items.flatMap((item, index) => {
+                const prefix = `${String(index + 1).padStart(width)}) `
+                const [first, ...rest] = formatReply(item)
+                return [`${prefix}${first}`, ...rest.map((line) => `${" ".repeat(prefix.length)}${line}`)]
+            })
+        }
+    }
+}
+
+export default function CliPage() {
+    const routeParams = useParams()
+    const connectionId = Array.isArray(routeParams.connectionId)
+        ? routeParams.connectionId[0]
+        : routeParams.connectionId
+    const searchParams = useSearchParams()
+    const dbParam = searchParams.get("db")
+    const activeDb = dbParam ? Number(dbParam) : 0
+
+    const [input, setInput] = useState("")
+    const [entries, setEntries] = useState<ConsoleEntry[]>([])
+    const [historyIndex, setHistoryIndex] = useState<number | null>(null)
+    const endRef = useRef<HTMLDivElement>(null)
+
+    const { data: meData } = useMe()
+    const me = meData?.data ?? (meData as unknown as MeResponseDto | undefined)
+
+    const { data: historyData } = useCliHistory(connectionId || "")
+    const history = (historyData?.data ?? (historyData as CliHistoryResponseDto | undefined))?.history ?? []
+    const { mutate: executeCommand, isPending } = useExecuteCommand(connectionId || "")
+    const { mutate: clearHistory, isPending: isClearing } = useClearCliHistory(connectionId || "")
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: "end" })
+    }, [entries])
+
+    const addEntry = (entry: Omit<ConsoleEntry, "id">) => {
+        setEntries((current) => [...current.slice(-(MAX_ENTRIES - 1)), { id: Date.now() + Math.random(), ...entry }])
+    }
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        const command = input.trim()
+        if (!command || isPending) {
+            return
+        }
+
+        setInput("")
+        setHistoryIndex(null)
+        executeCommand(
+            { command, db: activeDb },
+            {
+                onSuccess: (response) => {
+                    const payload = response?.data ?? (response as ExecuteCommandResponseDto | undefined)
+                    addEntry({ db: activeDb, command, reply: payload?.reply, durationMs: payload?.durationMs })
+                },
+                onError: (error: unknown) => {
+                    addEntry({
+                        db: activeDb,
+                        command,
+                        error: error instanceof Error ? error.message : "Failed to execute command",
+                    })
+                },
+            }
+        )
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (history.length === 0 || (e.key !== "ArrowUp" && e.key !== "ArrowDown")) {
+            return
+        }
+        e.preventDefault()
+
+        if (e.key === "ArrowUp") {
+            const index = historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1)
+            setHistoryIndex(index)
+            setInput(history[index])
+        } else if (historyIndex !== null) {
+            const index = historyIndex + 1
+            setHistoryIndex(index < history.length ? index : null)
+            setInput(index < history.length ? history[index] : "")
+        }
+    }
+
+    const handleClearHistory = () => {
+        clearHistory(undefined, {
+            onSuccess: () => {
+                setHistoryIndex(null)
+                toast.success("Command history cleared")
+            },
+            onError: (error: unknown) => {
+                toast.fail(error instanceof Error ? error.message : "Failed to clear command history")
+            },
+        })
+    }
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex items-start gap-2">
+                <div>
+                    <h2 className="text-base font-semibold">Console</h2>
+                    <p className="text-xs text-muted-foreground">
+                        Run raw commands against DB{activeDb}, every command is written to the audit log.
+                        {me?.user && ` ${roleHints[me.user.role] ?? ""}`}
+                    </p>
+                </div>
+                <div className="ml-auto flex items-center gap-1">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8"
+                        onClick={() => setEntries([])}
+                        disabled={entries.length === 0}
+                    >
+                        <Eraser className="h-4 w-4 mr-1" />
+                        Clear Screen
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8"
+                        onClick={handleClearHistory}
+                        disabled={isClearing || history.length === 0}
+                        title={`${history.length} commands in your history`}
+                    >
+                        <ClockCounterClockwise className="h-4 w-4 mr-1" />
+                        Clear History
+                    </Button>
+                </div>
+            </div>
+
+            <div className="flex h-[560px] flex-col rounded-sm border bg-muted/20 font-mono text-xs">
+                <div className="flex-1 overflow-y-auto p-3">
+                    {entries.length === 0 ? (
+                        <p className="text-muted-foreground">
+                            Type a command, e.g. GET user:1 or HGETALL session:42. Use the arrow keys to browse your history.
+                        </p>
+                    ) : (
+                        entries.map((entry) => (
+                            <div key={entry.id} className="mb-2">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-secondary">DB{entry.db}&gt;</span>
+                                    <span className="break-all">{entry.command}</span>
+                                    {entry.durationMs !== undefined && (
+                                        <span className="ml-auto text-[10px] text-muted-foreground">{entry.durationMs} ms</span>
+                                    )}
+                                </div>
+                                {entry.error ? (
+                                    <pre className="whitespace-pre-wrap break-all text-destructive">(error) {entry.error}</pre>
+                                ) : entry.reply ? (
+                                    <pre
+                                        className={cn(
+                                            "whitespace-pre-wrap break-all",
+                                            entry.reply.type === "error" && "text-destructive"
+                                        )}
+                                    >
+                                        {formatReply(entry.reply).join("\n")}
+                                    </pre>
+                                ) : null}
+                            </div>
+                        ))
+                    )}
+                    <div ref={endRef} />
+                </div>
+                <form onSubmit={handleSubmit} className="flex items-center gap-2 border-t px-3 py-2">
+                    <span className="text-secondary">DB{activeDb}&gt;</span>
+                    <input
+                        value={input}
+                        onChange={(e) => {
+                            setInput(e.target.value)
+                            setHistoryIndex(null)
+                        }}
+                        onKeyDown={handleKeyDown}
+                        placeholder={isPending ? "Running..." : "Enter a command"}
+                        className="flex-1 bg-transparent outline-none placeholder:text-muted-foreground"
+                        autoComplete="off"
+                        spellCheck={false}
+                        autoFocus
+                    />
+                </form>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,402 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useCompareKeyspaces } from "@/lib/api/hooks/redis"
+import { useConnections } from "@/lib/api/hooks/connections"
+import { useMe } from "@/lib/api"
+import type {
+    CompareKeyspacesRequestDto,
+    CompareKeyspacesResponseDto,
+    KeyspaceDifference,
+    KeyspaceDifferenceKind,
+    KeyspaceSyncDirection,
+    ListConnectionsResponseDto,
+    MeResponseDto,
+} from "@/types"
+import { useParams, useSearchParams } from "next/navigation"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { KeyDiffDialog } from "@/components/features/compare/key-diff-dialog"
+import { SyncKeysDialog } from "@/components/features/compare/sync-keys-dialog"
+import { ArrowClockwise, ArrowLeft, ArrowRight, GitDiff } from "@phosphor-icons/react"
+import { cn } from "@/lib/utils"
+
+const databases = Array.from({ length: 16 }, (_, index) => index)
+
+const kindLabels: Record<KeyspaceDifferenceKind, string> = {
+    left_only: "Only left",
+    right_only: "Only right",
+    type_mismatch: "Type differs",
+    value_mismatch: "Value differs",
+}
+
+const kindClasses: Record<KeyspaceDifferenceKind, string> = {
+    left_only: "border-destructive/40 bg-destructive/10 text-destructive",
+    right_only: "border-success/40 bg-success/10 text-success",
+    type_mismatch: "border-warning/40 bg-warning/10 text-warning",
+    value_mismatch: "border-secondary/40 bg-secondary/10 text-secondary",
+}
+
+// Binary keys are addressed by hex, so their display names may collide
+function differenceId(difference: KeyspaceDifference) {
+    return difference.keyHex ?? difference.key
+}
+
+export default function ComparePage() {
+    const routeParams = useParams()
+    const connectionId = Array.isArray(routeParams.connectionId)
+        ? routeParams.connectionId[0]
+        : routeParams.connectionId
+    const searchParams = useSearchParams()
+    const dbParam = searchParams.get("db")
+    const activeDb = dbParam ? Number(dbParam) : 0
+
+    const [leftDb, setLeftDb] = useState(activeDb)
+    const [targetConnectionId, setTargetConnectionId] = useState(connectionId || "")
+    const [targetDb, setTargetDb] = useState(activeDb)
+    const [pattern, setPattern] = useState("*")
+    const [compareParams, setCompareParams] = useState<CompareKeyspacesRequestDto | null>(null)
+    const [kindFilter, setKindFilter] = useState<KeyspaceDifferenceKind | "all">("all")
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+    const [diffTarget, setDiffTarget] = useState<KeyspaceDifference | null>(null)
+    const [syncDirection, setSyncDirection] = useState<KeyspaceSyncDirection | null>(null)
+
+    const { data: meData } = useMe()
+    const me = meData?.data ?? (meData as unknown as MeResponseDto | undefined)
+    const canSync = !!me?.user && me.user.role !== "viewer"
+
+    const { data: connectionsData } = useConnections()
+    const connectionsGroup = (connectionsData?.data ?? (connectionsData as ListConnectionsResponseDto | undefined))?.connections
+    const connections = connectionsGroup ? [...(connectionsGroup.my || []), ...(connectionsGroup.shared || [])] : []
+    const connectionName = (id?: string) => connections.find((connection) => connection.id === id)?.name ?? "Connection"
+
+    const { data, isFetching, error, refetch } = useCompareKeyspaces(connectionId || "", compareParams)
+    const result = data?.data ?? (data as CompareKeyspacesResponseDto | undefined)
+    const differences = useMemo(() => result?.differences ?? [], [result])
+    const visibleDifferences = kindFilter === "all"
+        ? differences
+        : differences.filter((difference) => difference.kind === kindFilter)
+    const selectedDifferences = differences.filter((difference) => selectedIds.has(differenceId(difference)))
+    const allSelected = visibleDifferences.length > 0 && visibleDifferences.every((difference) => selectedIds.has(differenceId(difference)))
+
+    const comparedDb = compareParams?.db ?? 0
+    const comparedTargetDb = compareParams?.targetDb ?? comparedDb
+    const leftLabel = `${connectionName(connectionId)} DB${comparedDb}`
+    const rightLabel = `${connectionName(compareParams?.targetConnectionId ?? connectionId)} DB${comparedTargetDb}`
+    const isSameSide = targetConnectionId === connectionId && targetDb === leftDb
+
+    const counts = useMemo(() => {
+        const byKind: Record<KeyspaceDifferenceKind, number> = {
+            left_only: 0,
+            right_only: 0,
+            type_mismatch: 0,
+            value_mismatch: 0,
+        }
+        for (const difference of differences) {
+            byKind[difference.kind]++
+        }
+        return byKind
+    }, [differences])
+
+    const handleCompare = (e: React.FormEvent) => {
+        e.preventDefault()
+        setSelectedIds(new Set())
+        const next: CompareKeyspacesRequestDto = {
+            db: leftDb,
+            targetConnectionId: targetConnectionId !== connectionId ? targetConnectionId : undefined,
+            targetDb,
+            pattern: pattern.trim() || "*",
+        }
+        // Results are kept until asked for, the same comparison again means scan again
+        if (JSON.stringify(next) === JSON.stringify(compareParams)) {
+            refetch()
+            return
+        }
+        setCompareParams(next)
+    }
+
+    const toggleSelected = (difference: KeyspaceDifference, checked: boolean) => {
+        setSelectedIds((current) => {
+            const next = new Set(current)
+            if (checked) {
+                next.add(differenceId(difference))
+            } else {
+                next.delete(differenceId(difference))
+            }
+            return next
+        })
+    }
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div>
+                <h2 className="text-base font-semibold">Compare</h2>
+                <p className="text-xs text-muted-foreground">
+                    Diff the keys matching a pattern against another database or connection and sync selected differences.
+                </p>
+            </div>
+
+            <form onSubmit={handleCompare} className="flex flex-wrap items-end gap-3 rounded-sm border bg-card p-3">
+                <div className="grid gap-1.5">
+                    <Label className="text-xs">Left</Label>
+                    <div className="flex items-center gap-2">
+                        <span className="max-w-[160px] truncate text-sm font-semibold">{connectionName(connectionId)}</span>
+                        <Select value={leftDb.toString()} onValueChange={(value) => setLeftDb(Number(value))}>
+                            <SelectTrigger size="sm" className="w-[80px] h-8 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {databases.map((db) => (
+                                    <SelectItem key={db} value={db.toString()} className="text-xs">
+                                        DB{db}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+                <div className="grid gap-1.5">
+                    <Label className="text-xs">Right</Label>
+                    <div className="flex items-center gap-2">
+                        <Select value={targetConnectionId} onValueChange={setTargetConnectionId}>
+                            <SelectTrigger size="sm" className="w-[180px] h-8 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {connections.map((connection) => (
+                                    <SelectItem key={connection.id} value={connection.id} className="text-xs">
+                                        {connection.name}
+                                        {connection.id === connectionId ? " (this connection)" : ""}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={targetDb.toString()} onValueChange={(value) => setTargetDb(Number(value))}>
+                            <SelectTrigger size="sm" className="w-[80px] h-8 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {databases.map((db) => (
+                                    <SelectItem key={db} value={db.toString()} className="text-xs">
+                                        DB{db}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+                <div className="grid gap-1.5">
+                    <Label htmlFor="comparePattern" className="text-xs">Key Pattern</Label>
+                    <Input
+                        id="comparePattern"
+                        value={pattern}
+                        onChange={(e) => setPattern(e.target.value)}
+                        placeholder="*"
+                        className="w-[200px] h-8 text-sm font-mono"
+                    />
+                </div>
+                <div className="ml-auto flex items-center gap-2">
+                    <Button type="submit" size="sm" className="h-8" disabled={isSameSide || isFetching}>
+                        <GitDiff className="h-4 w-4 mr-1" />
+                        Compare
+                    </Button>
+                    {compareParams && (
+                        <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="h-8 px-2"
+                            onClick={() => refetch()}
+                            disabled={isFetching}
+                        >
+                            <ArrowClockwise className={cn("h-4 w-4", isFetching && "animate-spin")} />
+                        </Button>
+                    )}
+                </div>
+            </form>
+
+            {isSameSide && (
+                <p className="text-xs text-muted-foreground">Pick another database or connection for the right side.</p>
+            )}
+
+            {!compareParams ? null : error ? (
+                <div className="border rounded-sm bg-card p-6 text-center text-sm text-muted-foreground">
+                    {error instanceof Error ? error.message : "Failed to compare keyspaces"}
+                </div>
+            ) : isFetching && !result ? (
+                <Skeleton className="h-40 w-full" />
+            ) : result ? (
+                <>
+                    <div className="grid grid-cols-2 gap-2 text-xs sm:grid-cols-4">
+                        <div className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+                            <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{leftLabel}</div>
+                            <div className="font-semibold">{(result.leftScanned ?? 0).toLocaleString()} keys</div>
+                        </div>
+                        <div className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+                            <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{rightLabel}</div>
+                            <div className="font-semibold">{(result.rightScanned ?? 0).toLocaleString()} keys</div>
+                        </div>
+                        <div className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+                            <div className="text-[10px] uppercase tracking-wide text-muted-foreground">Identical</div>
+                            <div className="font-semibold">{(result.identical ?? 0).toLocaleString()}</div>
+                        </div>
+                        <div className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+                            <div className="text-[10px] uppercase tracking-wide text-muted-foreground">Different</div>
+                            <div className="font-semibold">{differences.length.toLocaleString()}</div>
+                        </div>
+                    </div>
+
+                    {result.truncated && (
+                        <p className="text-xs text-warning">
+                            More keys match than a single comparison scans, narrow the pattern to compare the rest.
+                        </p>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-1">
+                        {(["all", "left_only", "right_only", "type_mismatch", "value_mismatch"] as const).map((kind) => (
+                            <Button
+                                key={kind}
+                                size="sm"
+                                variant={kindFilter === kind ? "secondary" : "ghost"}
+                                className="h-7 px-2 text-xs"
+                                onClick={() => setKindFilter(kind)}
+                            >
+                                {kind === "all" ? "All" : kindLabels[kind]}
+                                <span className="ml-1 text-muted-foreground">
+                                    {kind === "all" ? differences.length : counts[kind]}
+                                </span>
+                            </Button>
+                        ))}
+                    </div>
+
+                    {canSync && selectedDifferences.length > 0 && (
+                        <div className="flex items-center justify-between rounded-sm border bg-muted/30 px-3 py-1.5 text-xs">
+                            <span>{selectedDifferences.length} selected</span>
+                            <div className="flex items-center gap-2">
+                                <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => setSyncDirection("left_to_right")}>
+                                    <ArrowRight className="h-3.5 w-3.5 mr-1" />
+                                    Sync to right
+                                </Button>
+                                <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => setSyncDirection("right_to_left")}>
+                                    <ArrowLeft className="h-3.5 w-3.5 mr-1" />
+                                    Sync to left
+                                </Button>
+                                <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setSelectedIds(new Set())}>
+                                    Clear
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="border rounded-sm bg-card">
+                        {visibleDifferences.length === 0 ? (
+                            <div className="p-6 text-center text-muted-foreground text-sm">
+                                {differences.length === 0 ? "Both sides match for this pattern." : "No differences of this kind."}
+                            </div>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="hover:bg-transparent">
+                                        {canSync && (
+                                            <TableHead className="h-8 w-8">
+                                                <Checkbox
+                                                    checked={allSelected}
+                                                    onCheckedChange={(checked) =>
+                                                        setSelectedIds(checked === true ? new Set(visibleDifferences.map(differenceId)) : new Set())
+                                                    }
+                                                    aria-label="Select all differences"
+                                                />
+                                            </TableHead>
+                                        )}
+                                        <TableHead className="text-xs font-semibold h-8">Key</TableHead>
+                                        <TableHead className="text-xs font-semibold h-8 w-28">Difference</TableHead>
+                                        <TableHead className="text-xs font-semibold h-8 w-24">Left</TableHead>
+                                        <TableHead className="text-xs font-semibold h-8 w-24">Right</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {visibleDifferences.map((difference) => (
+                                        <TableRow
+                                            key={differenceId(difference)}
+                                            className="cursor-pointer hover:bg-muted/50"
+                                            onClick={() => setDiffTarget(difference)}
+                                        >
+                                            {canSync && (
+                                                <TableCell className="py-1.5" onClick={(e) => e.stopPropagation()}>
+                                                    <Checkbox
+                                                        checked={selectedIds.has(differenceId(difference))}
+                                                        onCheckedChange={(checked) => toggleSelected(difference, checked === true)}
+                                                        aria-label={`Select ${difference.key}`}
+                                                    />
+                                                </TableCell>
+                                            )}
+                                            <TableCell className="font-mono text-xs py-1.5">{difference.key}</TableCell>
+                                            <TableCell className="py-1.5">
+                                                <span className={cn("rounded-sm border px-1.5 py-0.5 text-[10px] font-semibold", kindClasses[difference.kind])}>
+                                                    {kindLabels[difference.kind]}
+                                                </span>
+                                                {difference.tooLarge && (
+                                                    <span className="ml-2 text-[10px] text-muted-foreground">too large to diff</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-xs py-1.5 text-muted-foreground">{difference.leftType ?? "—"}</TableCell>
+                                            <TableCell className="text-xs py-1.5 text-muted-foreground">{difference.rightType ?? "—"}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </div>
+                </>
+            ) : null}
+
+            {compareParams && (
+                <>
+                    <KeyDiffDialog
+                        connectionId={connectionId || ""}
+                        difference={diffTarget}
+                        params={{
+                            db: comparedDb,
+                            targetConnectionId: compareParams.targetConnectionId,
+                            targetDb: comparedTargetDb,
+                        }}
+                        leftLabel={leftLabel}
+                        rightLabel={rightLabel}
+                        onOpenChange={(open) => !open && setDiffTarget(null)}
+                    />
+                    <SyncKeysDialog
+                        connectionId={connectionId || ""}
+                        differences={selectedDifferences}
+                        direction={syncDirection}
+                        db={comparedDb}
+                        targetConnectionId={compareParams.targetConnectionId}
+                        targetDb={comparedTargetDb}
+                        leftLabel={leftLabel}
+                        rightLabel={rightLabel}
+                        onOpenChange={(open) => !open && setSyncDirection(null)}
+                        onSynced={() => setSelectedIds(new Set())}
+                    />
+                </>
+            )}
+        </div>
+    )
+}
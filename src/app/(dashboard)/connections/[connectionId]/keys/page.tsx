@@ -1,8 +1,9 @@
 "use client"
 
 import { useMemo, useState } from "react"
-import { useRedisKeys } from "@/lib/api/hooks/redis"
-import type { RedisDataType, RedisKey, ListKeysResponseDto } from "@/types"
+import { useRedisKeyPages } from "@/lib/api/hooks/redis"
+import { useConnection } from "@/lib/api/hooks/connections"
+import type { ChangeSetOperation, KeyEncoding, RedisDataType, RedisKey, ListKeysResponseDto, GetConnectionResponseDto } from "@/types"
 import { useParams, useSearchParams } from "next/navigation"
 import Link from "next/link"
 
@@ -29,7 +30,14 @@ import { CreateKeyDialog } from "@/components/features/keys/create-key-dialog"
 import { RenameKeyDialog } from "@/components/features/keys/rename-key-dialog"
 import { DeleteKeyDialog } from "@/components/features/keys/delete-key-dialog"
 import { SetTtlDialog } from "@/components/features/keys/set-ttl-dialog"
-import { ArrowClockwise, DotsThree, Pencil, Trash, Clock } from "@phosphor-icons/react"
+import { CopyKeysDialog } from "@/components/features/keys/copy-keys-dialog"
+import { MigrateKeysDialog, MigrationStatusBar } from "@/components/features/keys/migrate-keys-dialog"
+import { BulkJobStatusBar, PatternBulkDialog } from "@/components/features/keys/pattern-bulk-dialog"
+import { ChangeSetDrawer } from "@/components/features/keys/change-set-drawer"
+import { LoadMoreSentinel } from "@/components/features/keys/editors/collection-pager"
+import { NamespaceTree } from "@/components/features/keys/namespace-tree"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ArrowClockwise, ArrowsLeftRight, Broom, DotsThree, ListChecks, Pencil, Trash, Clock, Copy, Rows, TreeStructure } from "@phosphor-icons/react"
 import { cn } from "@/lib/utils"
 import {
     DropdownMenu,
@@ -46,6 +54,13 @@ const keyTypes: Array<RedisDataType | "all"> = [
     "set",
     "zset",
     "stream",
+    "json",
+    "timeseries",
+    "hyperloglog",
+    "bloom",
+    "cuckoo",
+    "cms",
+    "topk",
 ]
 
 const databases = Array.from({ length: 16 }, (_, index) => index)
@@ -58,6 +73,13 @@ const typeColors: Record<string, { bg: string; text: string; border: string }> =
     set: { bg: "bg-[#c084fc]/10", text: "text-[#c084fc]", border: "border-[#c084fc]/40" },
     zset: { bg: "bg-[#fb923c]/10", text: "text-[#fb923c]", border: "border-[#fb923c]/40" },
     stream: { bg: "bg-[#22d3ee]/10", text: "text-[#22d3ee]", border: "border-[#22d3ee]/40" },
+    json: { bg: "bg-[#f472b6]/10", text: "text-[#f472b6]", border: "border-[#f472b6]/40" },
+    timeseries: { bg: "bg-[#a3e635]/10", text: "text-[#a3e635]", border: "border-[#a3e635]/40" },
+    hyperloglog: { bg: "bg-[#94a3b8]/10", text: "text-[#94a3b8]", border: "border-[#94a3b8]/40" },
+    bloom: { bg: "bg-[#94a3b8]/10", text: "text-[#94a3b8]", border: "border-[#94a3b8]/40" },
+    cuckoo: { bg: "bg-[#94a3b8]/10", text: "text-[#94a3b8]", border: "border-[#94a3b8]/40" },
+    cms: { bg: "bg-[#94a3b8]/10", text: "text-[#94a3b8]", border: "border-[#94a3b8]/40" },
+    topk: { bg: "bg-[#94a3b8]/10", text: "text-[#94a3b8]", border: "border-[#94a3b8]/40" },
 }
 
 function getTypeBadgeClass(type: string) {
@@ -107,12 +129,18 @@ function formatBytes(bytes?: number) {
     return `${mb.toFixed(1)} MB`
 }
 
+// Binary keys are addressed by hex, so their display names may collide
+function keyId(key: RedisKey) {
+    return key.keyHex ?? key.key
+}
+
 // Skeleton rows for loading state
 function TableSkeleton() {
     return (
         <>
             {[...Array(5)].map((_, i) => (
                 <TableRow key={i}>
+                    <TableCell><Skeleton className="h-3 w-3" /></TableCell>
                     <TableCell><Skeleton className="h-3 w-32" /></TableCell>
                     <TableCell><Skeleton className="h-3 w-16" /></TableCell>
                     <TableCell><Skeleton className="h-3 w-12" /></TableCell>
@@ -134,6 +162,7 @@ export default function KeyBrowserPage() {
     const dbParam = searchParams.get("db")
     const activeDb = dbParam ? Number(dbParam) : 0
 
+    const [viewMode, setViewMode] = useState<"table" | "tree">("table")
     const [search, setSearch] = useState("")
     const [selectedType, setSelectedType] = useState<RedisDataType | "all">("all")
     const [selectedKey, setSelectedKey] = useState<RedisKey | null>(null)
@@ -141,6 +170,24 @@ export default function KeyBrowserPage() {
     const [renameOpen, setRenameOpen] = useState(false)
     const [deleteOpen, setDeleteOpen] = useState(false)
     const [ttlOpen, setTtlOpen] = useState(false)
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+    const [copyTargets, setCopyTargets] = useState<RedisKey[]>([])
+    const [copyOpen, setCopyOpen] = useState(false)
+    const [migratePattern, setMigratePattern] = useState<string | null>(null)
+    const [migrationJob, setMigrationJob] = useState<{ id: string; pattern: string } | null>(null)
+    const [bulkPattern, setBulkPattern] = useState<string | null>(null)
+    const [bulkJob, setBulkJob] = useState<{ id: string; label: string } | null>(null)
+    // Staged changes per database, kept while the drawer is closed
+    const [changeSets, setChangeSets] = useState<Record<number, ChangeSetOperation[]>>({})
+    const [changeSetOpen, setChangeSetOpen] = useState(false)
+    const [changeSetKey, setChangeSetKey] = useState("")
+    const [changeSetKeyEncoding, setChangeSetKeyEncoding] = useState<KeyEncoding>("utf8")
+    const stagedOperations = changeSets[activeDb] ?? []
+    const { data: connectionData } = useConnection(connectionId || "")
+    const connection =
+        connectionData?.data?.connection || (connectionData as GetConnectionResponseDto | undefined)?.connection
+    const delimiter = connection?.keyDelimiter || ":"
+
     const pattern = useMemo(() => {
         if (!search.trim()) {
             return "*"
@@ -153,17 +200,73 @@ export default function KeyBrowserPage() {
         () => ({
             pattern,
             type: selectedType === "all" ? undefined : [selectedType],
-            page: 1,
             limit: 50,
             db: activeDb,
         }),
         [pattern, selectedType, activeDb]
     )
 
-    const { data, isLoading, isFetching, refetch } = useRedisKeys(connectionId || "", queryParams)
-    const keysResponse: ListKeysResponseDto | undefined =
-        data?.data ?? (data as ListKeysResponseDto | undefined)
-    const keys: RedisKey[] = keysResponse?.keys || []
+    const {
+        data,
+        isLoading,
+        isFetching,
+        isFetchingNextPage,
+        hasNextPage,
+        fetchNextPage,
+        refetch,
+    } = useRedisKeyPages(connectionId || "", queryParams)
+    const keyPages: ListKeysResponseDto[] = useMemo(
+        () => (data?.pages ?? []).map((page) => page?.data ?? (page as unknown as ListKeysResponseDto)),
+        [data]
+    )
+    const total = keyPages[0]?.total
+    const isFiltered = pattern !== "*" || selectedType !== "all"
+
+    // SCAN may return a key more than once across pages
+    const keys: RedisKey[] = useMemo(() => {
+        const seen = new Set<string>()
+        return keyPages
+            .flatMap((page) => page?.keys ?? [])
+            .filter((key) => {
+                if (seen.has(key.key)) {
+                    return false
+                }
+                seen.add(key.key)
+                return true
+            })
+    }, [keyPages])
+
+    // Only keys still loaded for the current database and filters count as selected
+    const selectedKeys = useMemo(() => keys.filter((key) => selectedIds.has(keyId(key))), [keys, selectedIds])
+    const allSelected = keys.length > 0 && selectedKeys.length === keys.length
+
+    const toggleSelected = (key: RedisKey, checked: boolean) => {
+        setSelectedIds((current) => {
+            const next = new Set(current)
+            if (checked) {
+                next.add(keyId(key))
+            } else {
+                next.delete(keyId(key))
+            }
+            return next
+        })
+    }
+
+    const handleOpenCopy = (targets: RedisKey[]) => {
+        setCopyTargets(targets)
+        setCopyOpen(true)
+    }
+
+    const handleOpenMigrate = (prefix?: string) => {
+        // Prefixes from the tree are literal, escape glob characters before appending the wildcard
+        setMigratePattern(prefix !== undefined ? `${prefix.replace(/[*?[\]\\]/g, "\\$&")}*` : pattern)
+    }
+
+    const handleShowInTable = (prefix: string) => {
+        setSearch(`${prefix}*`)
+        setSelectedType("all")
+        setViewMode("table")
+    }
 
     const handleOpenEditor = (key: RedisKey) => {
         setSelectedKey(key)
@@ -185,6 +288,12 @@ export default function KeyBrowserPage() {
         setTtlOpen(true)
     }
 
+    const handleOpenChangeSet = (key?: RedisKey) => {
+        setChangeSetKey(key ? keyId(key) : "")
+        setChangeSetKeyEncoding(key?.keyHex ? "hex" : "utf8")
+        setChangeSetOpen(true)
+    }
+
     return (
         <div className="flex flex-col gap-3">
             {/* Compact header */}
@@ -192,12 +301,48 @@ export default function KeyBrowserPage() {
                 <div>
                     <h2 className="text-base font-semibold">Database {activeDb}</h2>
                     <p className="text-xs text-muted-foreground">
-                        {keys.length} keys
+                        {viewMode === "tree"
+                            ? `Grouped by "${delimiter}"${total !== undefined ? ` · ~${total} keys` : ""}`
+                            : isFiltered
+                            ? `${keys.length} matching keys loaded${total !== undefined ? ` · ~${total} in database` : ""}`
+                            : `${keys.length} of ~${total ?? keys.length} keys`}
                     </p>
                 </div>
                 <div className="flex items-center gap-2">
                     <CreateKeyDialog connectionId={connectionId || ""} database={activeDb} />
-                    <div className="relative">
+                    <Button size="sm" variant="outline" className="h-8 px-2" onClick={() => handleOpenMigrate()} title="Migrate matching keys">
+                        <ArrowsLeftRight className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-8 px-2" onClick={() => setBulkPattern(pattern)} title="Delete or expire matching keys">
+                        <Broom className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-8 px-2" onClick={() => handleOpenChangeSet()} title="Pending changes">
+                        <ListChecks className="h-4 w-4" />
+                        {stagedOperations.length > 0 && (
+                            <span className="text-xs tabular-nums">{stagedOperations.length}</span>
+                        )}
+                    </Button>
+                    <div className="flex items-center rounded-sm border p-0.5">
+                        <Button
+                            size="sm"
+                            variant={viewMode === "table" ? "secondary" : "ghost"}
+                            className="h-7 px-2"
+                            onClick={() => setViewMode("table")}
+                            title="Table view"
+                        >
+                            <Rows className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant={viewMode === "tree" ? "secondary" : "ghost"}
+                            className="h-7 px-2"
+                            onClick={() => setViewMode("tree")}
+                            title="Tree view"
+                        >
+                            <TreeStructure className="h-4 w-4" />
+                        </Button>
+                    </div>
+                    <div className={cn("relative", viewMode === "tree" && "hidden")}>
                         <Input
                             placeholder="Search pattern..."
                             value={search}
@@ -209,7 +354,7 @@ export default function KeyBrowserPage() {
                         value={selectedType}
                         onValueChange={(value) => setSelectedType(value as RedisDataType | "all")}
                     >
-                        <SelectTrigger size="sm" className="w-[120px] h-8 text-xs">
+                        <SelectTrigger size="sm" className={cn("w-[120px] h-8 text-xs", viewMode === "tree" && "hidden")}>
                             <SelectValue placeholder="All types" />
                         </SelectTrigger>
                         <SelectContent>
@@ -245,102 +390,198 @@ export default function KeyBrowserPage() {
                 ))}
             </div>
 
-            {/* Keys table - compact */}
-            <div className="border rounded-sm bg-card">
-                {keys.length === 0 && !isLoading ? (
-                    <div className="p-6 text-center text-muted-foreground text-sm">
-                        No keys found for this pattern.
+            {migrationJob && (
+                <MigrationStatusBar
+                    key={migrationJob.id}
+                    migrationId={migrationJob.id}
+                    pattern={migrationJob.pattern}
+                    onDismiss={() => setMigrationJob(null)}
+                />
+            )}
+
+            {bulkJob && (
+                <BulkJobStatusBar
+                    key={bulkJob.id}
+                    connectionId={connectionId || ""}
+                    jobId={bulkJob.id}
+                    label={bulkJob.label}
+                    onDismiss={() => setBulkJob(null)}
+                />
+            )}
+
+            {viewMode === "table" && selectedKeys.length > 0 && (
+                <div className="flex items-center justify-between rounded-sm border bg-muted/30 px-3 py-1.5 text-xs">
+                    <span>{selectedKeys.length} selected</span>
+                    <div className="flex items-center gap-2">
+                        <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => handleOpenCopy(selectedKeys)}>
+                            <Copy className="h-3.5 w-3.5 mr-1" />
+                            Copy / Move
+                        </Button>
+                        <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setSelectedIds(new Set())}>
+                            Clear
+                        </Button>
                     </div>
-                ) : (
-                    <Table>
-                        <TableHeader>
-                            <TableRow className="hover:bg-transparent">
-                                <TableHead className="text-xs font-semibold h-8">Key</TableHead>
-                                <TableHead className="text-xs font-semibold h-8 w-20">Type</TableHead>
-                                <TableHead className="text-xs font-semibold h-8 w-16">TTL</TableHead>
-                                <TableHead className="text-xs font-semibold h-8 w-16">Size</TableHead>
-                                <TableHead className="text-xs font-semibold h-8 w-14">Len</TableHead>
-                                <TableHead className="text-xs font-semibold h-8 text-right w-20">Actions</TableHead>
-                            </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                            {isLoading || isFetching ? (
-                                <TableSkeleton />
-                            ) : (
-                                keys.map((key: RedisKey, index: number) => (
-                                    <TableRow 
-                                        key={`${key.key}-${index}`}
-                                        className="group cursor-pointer transition-all duration-150 hover:bg-muted/50 hover:translate-x-0.5"
-                                        onClick={() => handleOpenEditor(key)}
-                                    >
-                                        <TableCell className="font-mono text-xs py-1.5">{key.key}</TableCell>
-                                        <TableCell className="py-1.5">
-                                            <span className={getTypeBadgeClass(key.type)}>
-                                                {key.type}
-                                            </span>
-                                        </TableCell>
-                                        <TableCell className="text-xs py-1.5 tabular-nums">{formatTtl(key.ttl)}</TableCell>
-                                        <TableCell className="text-xs py-1.5 tabular-nums">{formatBytes(key.size)}</TableCell>
-                                        <TableCell className="text-xs py-1.5 tabular-nums">{key.length ?? "—"}</TableCell>
-                                        <TableCell className="text-right py-1.5">
-                                            <DropdownMenu>
-                                                <DropdownMenuTrigger asChild>
-                                                    <Button
-                                                        size="sm"
-                                                        variant="ghost"
-                                                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                                                        onClick={(e) => e.stopPropagation()}
+                </div>
+            )}
+
+            {/* Keys table - compact, or namespace tree */}
+            {viewMode === "tree" ? (
+                <NamespaceTree
+                    key={`${activeDb}-${delimiter}`}
+                    connectionId={connectionId || ""}
+                    database={activeDb}
+                    delimiter={delimiter}
+                    onOpenKey={handleOpenEditor}
+                    onShowInTable={handleShowInTable}
+                    onMigrate={handleOpenMigrate}
+                />
+            ) : (
+                <div className="border rounded-sm bg-card">
+                    {keys.length === 0 && !isLoading ? (
+                        <div className="p-6 text-center text-muted-foreground text-sm">
+                            {hasNextPage
+                                ? "No matching keys in the scanned range yet."
+                                : "No keys found for this pattern."}
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow className="hover:bg-transparent">
+                                    <TableHead className="h-8 w-8">
+                                        <Checkbox
+                                            checked={allSelected ? true : selectedKeys.length > 0 ? "indeterminate" : false}
+                                            onCheckedChange={(checked) =>
+                                                setSelectedIds(checked === true ? new Set(keys.map(keyId)) : new Set())
+                                            }
+                                            aria-label="Select all loaded keys"
+                                        />
+                                    </TableHead>
+                                    <TableHead className="text-xs font-semibold h-8">Key</TableHead>
+                                    <TableHead className="text-xs font-semibold h-8 w-20">Type</TableHead>
+                                    <TableHead className="text-xs font-semibold h-8 w-16">TTL</TableHead>
+                                    <TableHead className="text-xs font-semibold h-8 w-16">Size</TableHead>
+                                    <TableHead className="text-xs font-semibold h-8 w-14">Len</TableHead>
+                                    <TableHead className="text-xs font-semibold h-8 text-right w-20">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {isLoading || (isFetching && !isFetchingNextPage) ? (
+                                    <TableSkeleton />
+                                ) : (
+                                    keys.map((key: RedisKey, index: number) => (
+                                        <TableRow 
+                                            key={`${key.key}-${index}`}
+                                            className="group cursor-pointer transition-all duration-150 hover:bg-muted/50 hover:translate-x-0.5"
+                                            onClick={() => handleOpenEditor(key)}
+                                        >
+                                            <TableCell className="py-1.5" onClick={(e) => e.stopPropagation()}>
+                                                <Checkbox
+                                                    checked={selectedIds.has(keyId(key))}
+                                                    onCheckedChange={(checked) => toggleSelected(key, checked === true)}
+                                                    aria-label={`Select ${key.key}`}
+                                                />
+                                            </TableCell>
+                                            <TableCell className="font-mono text-xs py-1.5">
+                                                {key.key}
+                                                {key.keyHex && (
+                                                    <span
+                                                        className="ml-2 rounded-sm border px-1 py-0.5 text-[10px] uppercase text-muted-foreground"
+                                                        title="Key name is not valid UTF-8, shown with \xNN escapes"
                                                     >
-                                                        <DotsThree className="h-4 w-4" />
-                                                    </Button>
-                                                </DropdownMenuTrigger>
-                                                <DropdownMenuContent align="end">
-                                                    <DropdownMenuItem onClick={(e) => {
-                                                        e.stopPropagation()
-                                                        handleOpenEditor(key)
-                                                    }}>
-                                                        <Pencil className="h-4 w-4 mr-2" />
-                                                        Edit
-                                                    </DropdownMenuItem>
-                                                    <DropdownMenuItem onClick={(e) => {
-                                                        e.stopPropagation()
-                                                        handleOpenRename(key)
-                                                    }}>
-                                                        Rename
-                                                    </DropdownMenuItem>
-                                                    <DropdownMenuItem onClick={(e) => {
-                                                        e.stopPropagation()
-                                                        handleOpenTtl(key)
-                                                    }}>
-                                                        <Clock className="h-4 w-4 mr-2" />
-                                                        Set TTL
-                                                    </DropdownMenuItem>
-                                                    <DropdownMenuItem 
-                                                        className="text-destructive focus:text-destructive"
-                                                        onClick={(e) => {
+                                                        binary
+                                                    </span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="py-1.5">
+                                                <span className={getTypeBadgeClass(key.type)}>
+                                                    {key.type}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell className="text-xs py-1.5 tabular-nums">{formatTtl(key.ttl)}</TableCell>
+                                            <TableCell className="text-xs py-1.5 tabular-nums">{formatBytes(key.size)}</TableCell>
+                                            <TableCell className="text-xs py-1.5 tabular-nums">{key.length ?? "—"}</TableCell>
+                                            <TableCell className="text-right py-1.5">
+                                                <DropdownMenu>
+                                                    <DropdownMenuTrigger asChild>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                            onClick={(e) => e.stopPropagation()}
+                                                        >
+                                                            <DotsThree className="h-4 w-4" />
+                                                        </Button>
+                                                    </DropdownMenuTrigger>
+                                                    <DropdownMenuContent align="end">
+                                                        <DropdownMenuItem onClick={(e) => {
                                                             e.stopPropagation()
-                                                            handleOpenDelete(key)
-                                                        }}
-                                                    >
-                                                        <Trash className="h-4 w-4 mr-2" />
-                                                        Delete
-                                                    </DropdownMenuItem>
-                                                </DropdownMenuContent>
-                                            </DropdownMenu>
-                                        </TableCell>
-                                    </TableRow>
-                                ))
-                            )}
-                        </TableBody>
-                    </Table>
-                )}
-            </div>
+                                                            handleOpenEditor(key)
+                                                        }}>
+                                                            <Pencil className="h-4 w-4 mr-2" />
+                                                            Edit
+                                                        </DropdownMenuItem>
+                                                        <DropdownMenuItem onClick={(e) => {
+                                                            e.stopPropagation()
+                                                            handleOpenRename(key)
+                                                        }}>
+                                                            Rename
+                                                        </DropdownMenuItem>
+                                                        <DropdownMenuItem onClick={(e) => {
+                                                            e.stopPropagation()
+                                                            handleOpenCopy([key])
+                                                        }}>
+                                                            <Copy className="h-4 w-4 mr-2" />
+                                                            Copy / Move
+                                                        </DropdownMenuItem>
+                                                        <DropdownMenuItem onClick={(e) => {
+                                                            e.stopPropagation()
+                                                            handleOpenTtl(key)
+                                                        }}>
+                                                            <Clock className="h-4 w-4 mr-2" />
+                                                            Set TTL
+                                                        </DropdownMenuItem>
+                                                        <DropdownMenuItem
+                                                            onClick={(e) => {
+                                                                e.stopPropagation()
+                                                                handleOpenChangeSet(key)
+                                                            }}
+                                                        >
+                                                            <ListChecks className="h-4 w-4 mr-2" />
+                                                            Stage Change
+                                                        </DropdownMenuItem>
+                                                        <DropdownMenuItem 
+                                                            className="text-destructive focus:text-destructive"
+                                                            onClick={(e) => {
+                                                                e.stopPropagation()
+                                                                handleOpenDelete(key)
+                                                            }}
+                                                        >
+                                                            <Trash className="h-4 w-4 mr-2" />
+                                                            Delete
+                                                        </DropdownMenuItem>
+                                                    </DropdownMenuContent>
+                                                </DropdownMenu>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))
+                                )}
+                            </TableBody>
+                        </Table>
+                    )}
+                    <LoadMoreSentinel
+                        hasMore={!!hasNextPage}
+                        isFetching={isFetchingNextPage}
+                        onLoadMore={fetchNextPage}
+                    />
+                </div>
+            )}
 
             <KeyEditorSheet
                 key={`${selectedKey?.key ?? "none"}-${activeDb}`}
                 connectionId={connectionId || ""}
                 database={activeDb}
                 keyName={selectedKey?.key || null}
+                keyHex={selectedKey?.keyHex}
                 open={editorOpen}
                 onOpenChange={(nextOpen) => {
                     setEditorOpen(nextOpen)
@@ -353,6 +594,7 @@ export default function KeyBrowserPage() {
             <RenameKeyDialog
                 connectionId={connectionId || ""}
                 keyName={selectedKey?.key || ""}
+                keyHex={selectedKey?.keyHex}
                 open={renameOpen}
                 onOpenChange={setRenameOpen}
                 database={activeDb}
@@ -361,14 +603,69 @@ export default function KeyBrowserPage() {
             <DeleteKeyDialog
                 connectionId={connectionId || ""}
                 keyName={selectedKey?.key || ""}
+                keyHex={selectedKey?.keyHex}
                 open={deleteOpen}
                 onOpenChange={setDeleteOpen}
                 database={activeDb}
             />
 
+            <CopyKeysDialog
+                key={`${activeDb}-${copyTargets.length === 1 ? keyId(copyTargets[0]) : copyTargets.length}`}
+                connectionId={connectionId || ""}
+                keys={copyTargets}
+                open={copyOpen}
+                onOpenChange={setCopyOpen}
+                database={activeDb}
+                onCopied={() => setSelectedIds(new Set())}
+            />
+
+            {migratePattern !== null && (
+                <MigrateKeysDialog
+                    connectionId={connectionId || ""}
+                    database={activeDb}
+                    pattern={migratePattern}
+                    open
+                    onOpenChange={(nextOpen) => {
+                        if (!nextOpen) {
+                            setMigratePattern(null)
+                        }
+                    }}
+                    onStarted={(id, startedPattern) => setMigrationJob({ id, pattern: startedPattern })}
+                />
+            )}
+
+            {bulkPattern !== null && (
+                <PatternBulkDialog
+                    connectionId={connectionId || ""}
+                    database={activeDb}
+                    pattern={bulkPattern}
+                    open
+                    onOpenChange={(nextOpen) => {
+                        if (!nextOpen) {
+                            setBulkPattern(null)
+                        }
+                    }}
+                    onStarted={(id, label) => setBulkJob({ id, label })}
+                />
+            )}
+
+            <ChangeSetDrawer
+                connectionId={connectionId || ""}
+                database={activeDb}
+                operations={stagedOperations}
+                onOperationsChange={(operations) =>
+                    setChangeSets((current) => ({ ...current, [activeDb]: operations }))
+                }
+                initialKey={changeSetKey}
+                initialKeyEncoding={changeSetKeyEncoding}
+                open={changeSetOpen}
+                onOpenChange={setChangeSetOpen}
+            />
+
             <SetTtlDialog
                 connectionId={connectionId || ""}
                 keyName={selectedKey?.key || ""}
+                keyHex={selectedKey?.keyHex}
                 currentTtl={selectedKey?.ttl}
                 open={ttlOpen}
                 onOpenChange={setTtlOpen}
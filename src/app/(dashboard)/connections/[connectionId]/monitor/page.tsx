@@ -0,0 +1,309 @@
+"use client"
+
+import { useState } from "react"
+import { useMonitor } from "@/lib/api/hooks/redis"
+import { useMe } from "@/lib/api"
+import type { MeResponseDto, MonitorCommand, MonitorQueryDto } from "@/types"
+import { useParams, useSearchParams } from "next/navigation"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { DownloadSimple, Play, Stop, Trash } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+const DURATIONS = [30, 60, 120, 300, 600]
+
+const statusLabels = {
+    idle: "Not running",
+    connecting: "Starting MONITOR...",
+    open: "Live",
+    reconnecting: "Reconnecting...",
+    ended: "Ended",
+    closed: "MONITOR failed",
+}
+
+function quoteArg(value: string) {
+    return `"${value.replace(/"/g, '\\"')}"`
+}
+
+/**
+ * One command the way redis-cli MONITOR prints it
+ */
+function formatCommand(command: MonitorCommand) {
+    const seconds = (new Date(command.time).getTime() / 1000).toFixed(6)
+    return `${seconds} [${command.db} ${command.client}] ${[command.command, ...command.args].map(quoteArg).join(" ")}`
+}
+
+export default function MonitorPage() {
+    const routeParams = useParams()
+    const connectionId = Array.isArray(routeParams.connectionId)
+        ? routeParams.connectionId[0]
+        : routeParams.connectionId
+    const searchParams = useSearchParams()
+    const dbParam = searchParams.get("db")
+    const activeDb = dbParam ? Number(dbParam) : 0
+
+    const [duration, setDuration] = useState("60")
+    const [samplePercent, setSamplePercent] = useState("100")
+    const [commandsInput, setCommandsInput] = useState("")
+    const [pattern, setPattern] = useState("")
+    const [client, setClient] = useState("")
+    const [onlyActiveDb, setOnlyActiveDb] = useState(false)
+    const [params, setParams] = useState<MonitorQueryDto | null>(null)
+
+    const { data: meData } = useMe()
+    const me = meData?.data ?? (meData as unknown as MeResponseDto | undefined)
+    const isAdmin = me?.user?.role === "admin"
+
+    const { commands, summary, started, ended, status, clear } = useMonitor(connectionId || "", isAdmin ? params : null)
+    const isRunning = status === "connecting" || status === "open" || status === "reconnecting"
+    const sample = Number(samplePercent)
+    const isSampleValid = Number.isFinite(sample) && sample > 0 && sample <= 100
+    const topCount = summary?.commands[0]?.count ?? 0
+
+    const handleStart = (e: React.FormEvent) => {
+        e.preventDefault()
+
+        const names = [...new Set(commandsInput.split(/[\s,]+/).filter(Boolean))]
+        setParams({
+            duration: Number(duration),
+            sample: sample / 100,
+            ...(names.length > 0 && { commands: names }),
+            ...(pattern.trim() && { pattern: pattern.trim() }),
+            ...(client.trim() && { client: client.trim() }),
+            ...(onlyActiveDb && { db: activeDb }),
+        })
+    }
+
+    const handleDownload = () => {
+        const blob = new Blob([commands.map(formatCommand).join("\n") + "\n"], { type: "text/plain" })
+        const url = window.URL.createObjectURL(blob)
+        const a = document.createElement("a")
+        a.href = url
+        a.download = `monitor-${connectionId}-${(started?.startedAt ?? new Date().toISOString()).replace(/[:.]/g, "-")}.log`
+        document.body.appendChild(a)
+        a.click()
+        window.URL.revokeObjectURL(url)
+        document.body.removeChild(a)
+        toast.success(`Downloaded ${commands.length} commands`)
+    }
+
+    if (me?.user && !isAdmin) {
+        return (
+            <div className="flex flex-col gap-3">
+                <h2 className="text-base font-semibold">Monitor</h2>
+                <div className="rounded-sm border bg-card p-4 text-center text-xs text-muted-foreground">
+                    MONITOR shows every command the server runs and is available to admins only.
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div>
+                <h2 className="text-base font-semibold">Monitor</h2>
+                <p className="text-xs text-muted-foreground">
+                    Every command the server runs, across all databases. MONITOR slows the server down,
+                    so each session stops by itself after its time limit.
+                </p>
+            </div>
+
+            <form onSubmit={handleStart} className="flex flex-col gap-3 rounded-sm border bg-card p-3">
+                <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+                    <div className="grid gap-1.5">
+                        <Label className="text-xs">Time limit</Label>
+                        <Select value={duration} onValueChange={setDuration} disabled={isRunning}>
+                            <SelectTrigger size="sm" className="h-8 w-full">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {DURATIONS.map((seconds) => (
+                                    <SelectItem key={seconds} value={String(seconds)}>
+                                        {seconds < 60 ? `${seconds} seconds` : `${seconds / 60} min`}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="monitorSample" className="text-xs">Sampling (%)</Label>
+                        <Input
+                            id="monitorSample"
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={samplePercent}
+                            onChange={(e) => setSamplePercent(e.target.value)}
+                            disabled={isRunning}
+                            className="h-8 text-xs"
+                        />
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="monitorCommands" className="text-xs">Commands</Label>
+                        <Input
+                            id="monitorCommands"
+                            value={commandsInput}
+                            onChange={(e) => setCommandsInput(e.target.value)}
+                            placeholder="GET, HSET (default: all)"
+                            disabled={isRunning}
+                            className="h-8 text-xs font-mono"
+                        />
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="monitorPattern" className="text-xs">Key pattern</Label>
+                        <Input
+                            id="monitorPattern"
+                            value={pattern}
+                            onChange={(e) => setPattern(e.target.value)}
+                            placeholder="session:*"
+                            disabled={isRunning}
+                            className="h-8 text-xs font-mono"
+                        />
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="monitorClient" className="text-xs">Client address</Label>
+                        <Input
+                            id="monitorClient"
+                            value={client}
+                            onChange={(e) => setClient(e.target.value)}
+                            placeholder="10.0.0.5"
+                            disabled={isRunning}
+                            className="h-8 text-xs font-mono"
+                        />
+                    </div>
+                </div>
+                <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-xs">
+                        <Switch checked={onlyActiveDb} onCheckedChange={setOnlyActiveDb} disabled={isRunning} />
+                        Only DB{activeDb}
+                    </label>
+                    <div className="ml-auto flex items-center gap-2">
+                        {isRunning ? (
+                            <Button type="button" size="sm" variant="outline" className="h-8" onClick={() => setParams(null)}>
+                                <Stop className="h-4 w-4 mr-1" />
+                                Stop
+                            </Button>
+                        ) : (
+                            <Button type="submit" size="sm" className="h-8" disabled={!isSampleValid}>
+                                <Play className="h-4 w-4 mr-1" />
+                                Start
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            </form>
+
+            <div className="grid gap-3 lg:grid-cols-[minmax(0,1fr)_minmax(0,3fr)]">
+                <div className="flex flex-col gap-2 rounded-sm border bg-card p-3">
+                    <p className="text-sm font-medium">Command frequency</p>
+                    <div className="grid grid-cols-3 gap-2 text-xs">
+                        <div>
+                            <p className="text-muted-foreground">Seen</p>
+                            <p className="font-semibold tabular-nums">{(summary?.seen ?? 0).toLocaleString()}</p>
+                        </div>
+                        <div>
+                            <p className="text-muted-foreground">Matched</p>
+                            <p className="font-semibold tabular-nums">{(summary?.matched ?? 0).toLocaleString()}</p>
+                        </div>
+                        <div>
+                            <p className="text-muted-foreground">Sampled</p>
+                            <p className="font-semibold tabular-nums">{(summary?.sent ?? 0).toLocaleString()}</p>
+                        </div>
+                    </div>
+                    {!summary || summary.commands.length === 0 ? (
+                        <div className="p-4 text-center text-xs text-muted-foreground">No matching commands yet.</div>
+                    ) : (
+                        <div className="flex flex-col gap-1">
+                            {summary.commands.map((entry) => (
+                                <div key={entry.command} className="relative overflow-hidden rounded-sm px-2 py-1 text-xs">
+                                    <div
+                                        className="absolute inset-y-0 left-0 bg-secondary/10"
+                                        style={{ width: `${topCount ? (entry.count / topCount) * 100 : 0}%` }}
+                                    />
+                                    <div className="relative flex items-center justify-between font-mono">
+                                        <span>{entry.command}</span>
+                                        <span className="tabular-nums">{entry.count.toLocaleString()}</span>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex flex-col gap-2 rounded-sm border bg-card p-3">
+                    <div className="flex items-center gap-2 text-xs">
+                        <span
+                            className={cn(
+                                "h-2 w-2 rounded-full",
+                                status === "open" ? "bg-success" : status === "closed" ? "bg-destructive" : "bg-muted-foreground"
+                            )}
+                        />
+                        <span className="text-muted-foreground">
+                            {status === "ended" && ended ? `Ended: ${ended}` : statusLabels[status]}
+                        </span>
+                        {status === "open" && started && (
+                            <span className="text-muted-foreground">
+                                · stops at {new Date(started.endsAt).toLocaleTimeString()}
+                            </span>
+                        )}
+                        <span className="text-muted-foreground">· {commands.length} captured</span>
+                        <div className="ml-auto flex items-center gap-1">
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 px-2 text-xs"
+                                onClick={handleDownload}
+                                disabled={commands.length === 0}
+                            >
+                                <DownloadSimple className="h-3.5 w-3.5 mr-1" />
+                                Download
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 px-2 text-xs"
+                                onClick={clear}
+                                disabled={commands.length === 0}
+                            >
+                                <Trash className="h-3.5 w-3.5 mr-1" />
+                                Clear
+                            </Button>
+                        </div>
+                    </div>
+                    <div className="h-[480px] overflow-y-auto rounded-sm border bg-muted/20 font-mono text-xs">
+                        {commands.length === 0 ? (
+                            <div className="p-4 text-center text-muted-foreground">
+                                {isRunning ? "Waiting for commands..." : "Start MONITOR to capture commands as the server runs them."}
+                            </div>
+                        ) : (
+                            [...commands].reverse().map((command, index) => (
+                                <div key={`${command.time}-${index}`} className="flex gap-2 border-b px-2 py-1 last:border-b-0">
+                                    <span className="shrink-0 text-[10px] text-muted-foreground">
+                                        {new Date(command.time).toLocaleTimeString()}
+                                    </span>
+                                    <span className="shrink-0 text-muted-foreground">DB{command.db}</span>
+                                    <span className="shrink-0 text-muted-foreground">{command.client}</span>
+                                    <span className="break-all">
+                                        <span className="text-secondary">{command.command}</span>
+                                        {command.args.length > 0 && ` ${command.args.map(quoteArg).join(" ")}`}
+                                    </span>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
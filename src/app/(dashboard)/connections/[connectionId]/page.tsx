@@ -1,8 +1,9 @@
 "use client"
 
 import { useMemo } from "react"
-import { useParams } from "next/navigation"
+import { useParams, useSearchParams } from "next/navigation"
 import { useRedisDatabases, useRedisInfo } from "@/lib/api/hooks/redis"
+import { KeyspaceFeed } from "@/components/features/dashboard/keyspace-feed"
 import { ConnectionHealthSkeleton } from "@/components/skeletons/connection-health-skeleton"
 import { ConnectionKpiSkeleton } from "@/components/skeletons/connection-kpi-skeleton"
 import { ConnectionDbSkeleton } from "@/components/skeletons/connection-db-skeleton"
@@ -44,6 +45,9 @@ export default function ConnectionOverviewPage() {
     const connectionId = Array.isArray(params.connectionId)
         ? params.connectionId[0]
         : params.connectionId
+    const searchParams = useSearchParams()
+    const dbParam = searchParams.get("db")
+    const activeDb = dbParam ? Number(dbParam) : 0
     const { data, isLoading } = useRedisDatabases(connectionId || "")
     const { data: infoResponse, isLoading: isInfoLoading } = useRedisInfo(connectionId || "")
     const databasesResponse = data?.data ?? (data as ListDatabasesResponseDto | undefined)
@@ -242,6 +246,8 @@ export default function ConnectionOverviewPage() {
                     </div>
                 )}
             </div>
+
+            <KeyspaceFeed connectionId={connectionId || ""} db={activeDb} />
         </div>
     );
 }
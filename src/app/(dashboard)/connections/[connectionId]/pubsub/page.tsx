@@ -0,0 +1,270 @@
+"use client"
+
+import { useState } from "react"
+import { usePubSubChannels, usePubSubSubscription, usePublishMessage } from "@/lib/api/hooks/redis"
+import { useMe } from "@/lib/api"
+import type {
+    ListPubSubChannelsResponseDto,
+    MeResponseDto,
+    PubSubSubscribeQueryDto,
+    PublishMessageResponseDto,
+} from "@/types"
+import { useParams } from "next/navigation"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+import { ArrowClockwise, Broadcast, PaperPlaneTilt, Trash } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+const statusLabels = {
+    idle: "Not subscribed",
+    connecting: "Connecting...",
+    open: "Live",
+    reconnecting: "Reconnecting...",
+    closed: "Subscription failed",
+}
+
+/**
+ * Split the subscribe input, names with glob characters subscribe as patterns
+ */
+function parseSubscription(input: string): PubSubSubscribeQueryDto | null {
+    const names = [...new Set(input.split(/[\s,]+/).filter(Boolean))]
+    if (names.length === 0) {
+        return null
+    }
+
+    const isPattern = (name: string) => /[*?[]/.test(name)
+    return {
+        channels: names.filter((name) => !isPattern(name)),
+        patterns: names.filter(isPattern),
+    }
+}
+
+export default function PubSubPage() {
+    const routeParams = useParams()
+    const connectionId = Array.isArray(routeParams.connectionId)
+        ? routeParams.connectionId[0]
+        : routeParams.connectionId
+
+    const [channelFilter, setChannelFilter] = useState("")
+    const [subscribeInput, setSubscribeInput] = useState("")
+    const [subscription, setSubscription] = useState<PubSubSubscribeQueryDto | null>(null)
+    const [publishChannel, setPublishChannel] = useState("")
+    const [publishText, setPublishText] = useState("")
+
+    const { data: meData } = useMe()
+    const me = meData?.data ?? (meData as unknown as MeResponseDto | undefined)
+    const canPublish = !!me?.user && me.user.role !== "viewer"
+
+    const { data, isLoading, isFetching, error, refetch } = usePubSubChannels(connectionId || "", {
+        pattern: channelFilter.trim() || undefined,
+    })
+    const result = data?.data ?? (data as ListPubSubChannelsResponseDto | undefined)
+    const channels = result?.channels ?? []
+
+    const { messages, status, clear } = usePubSubSubscription(connectionId || "", subscription)
+    const { mutate: publishMessage, isPending: isPublishing } = usePublishMessage(connectionId || "")
+
+    const handleSubscribe = (e: React.FormEvent) => {
+        e.preventDefault()
+        setSubscription(parseSubscription(subscribeInput))
+    }
+
+    const handleAddChannel = (channel: string) => {
+        const names = subscribeInput.split(/[\s,]+/).filter(Boolean)
+        if (!names.includes(channel)) {
+            setSubscribeInput([...names, channel].join(", "))
+        }
+    }
+
+    const handlePublish = (e: React.FormEvent) => {
+        e.preventDefault()
+
+        publishMessage(
+            { channel: publishChannel.trim(), message: publishText },
+            {
+                onSuccess: (response) => {
+                    const payload = response?.data ?? (response as PublishMessageResponseDto | undefined)
+                    toast.success(payload?.message ?? "Message published")
+                    setPublishText("")
+                },
+                onError: (error: unknown) => {
+                    toast.fail(error instanceof Error ? error.message : "Failed to publish message")
+                },
+            }
+        )
+    }
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div>
+                <h2 className="text-base font-semibold">Pub/Sub</h2>
+                <p className="text-xs text-muted-foreground">
+                    Active channels of this server, live messages of your subscriptions and publishing.
+                    Channels are shared by all databases.
+                </p>
+            </div>
+
+            <div className="grid gap-3 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+                <div className="flex flex-col gap-2 rounded-sm border bg-card p-3">
+                    <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium">Channels</p>
+                        <span className="text-xs text-muted-foreground">
+                            {result?.patternSubscriptions ?? 0} pattern subscriptions
+                        </span>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="ml-auto h-7 px-2"
+                            onClick={() => refetch()}
+                            disabled={isFetching}
+                        >
+                            <ArrowClockwise className={cn("h-3.5 w-3.5", isFetching && "animate-spin")} />
+                        </Button>
+                    </div>
+                    <Input
+                        value={channelFilter}
+                        onChange={(e) => setChannelFilter(e.target.value)}
+                        placeholder="Filter, e.g. orders:*"
+                        className="h-8 text-xs font-mono"
+                    />
+                    {isLoading ? (
+                        <Skeleton className="h-32 w-full" />
+                    ) : error ? (
+                        <div className="p-4 text-center text-xs text-muted-foreground">
+                            {error instanceof Error ? error.message : "Failed to load channels"}
+                        </div>
+                    ) : channels.length === 0 ? (
+                        <div className="p-4 text-center text-xs text-muted-foreground">
+                            No channels with subscribers.
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow className="hover:bg-transparent">
+                                    <TableHead className="text-xs font-semibold h-8">Channel</TableHead>
+                                    <TableHead className="text-xs font-semibold h-8 w-24 text-right">Subscribers</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {channels.map((channel) => (
+                                    <TableRow
+                                        key={channel.channel}
+                                        className="cursor-pointer"
+                                        onClick={() => handleAddChannel(channel.channel)}
+                                        title="Add to subscription"
+                                    >
+                                        <TableCell className="font-mono text-xs py-1.5">{channel.channel}</TableCell>
+                                        <TableCell className="text-xs py-1.5 text-right tabular-nums">{channel.subscribers}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </div>
+
+                <div className="flex flex-col gap-3">
+                    <div className="flex flex-col gap-2 rounded-sm border bg-card p-3">
+                        <form onSubmit={handleSubscribe} className="flex items-center gap-2">
+                            <Input
+                                value={subscribeInput}
+                                onChange={(e) => setSubscribeInput(e.target.value)}
+                                placeholder="orders, events:* (globs subscribe as patterns)"
+                                className="h-8 text-xs font-mono"
+                            />
+                            <Button type="submit" size="sm" className="h-8" disabled={!subscribeInput.trim()}>
+                                <Broadcast className="h-4 w-4 mr-1" />
+                                Subscribe
+                            </Button>
+                            {subscription && (
+                                <Button type="button" size="sm" variant="outline" className="h-8" onClick={() => setSubscription(null)}>
+                                    Stop
+                                </Button>
+                            )}
+                        </form>
+                        <div className="flex items-center gap-2 text-xs">
+                            <span
+                                className={cn(
+                                    "h-2 w-2 rounded-full",
+                                    status === "open" ? "bg-success" : status === "closed" ? "bg-destructive" : "bg-muted-foreground"
+                                )}
+                            />
+                            <span className="text-muted-foreground">{statusLabels[status]}</span>
+                            <span className="text-muted-foreground">· {messages.length} messages</span>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="ml-auto h-7 px-2 text-xs"
+                                onClick={clear}
+                                disabled={messages.length === 0}
+                            >
+                                <Trash className="h-3.5 w-3.5 mr-1" />
+                                Clear
+                            </Button>
+                        </div>
+                        <div className="h-[360px] overflow-y-auto rounded-sm border bg-muted/20 font-mono text-xs">
+                            {messages.length === 0 ? (
+                                <div className="p-4 text-center text-muted-foreground">
+                                    {subscription ? "Waiting for messages..." : "Subscribe to see messages as they arrive."}
+                                </div>
+                            ) : (
+                                [...messages].reverse().map((message, index) => (
+                                    <div key={`${message.receivedAt}-${index}`} className="border-b px-2 py-1 last:border-b-0">
+                                        <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                                            <span>{new Date(message.receivedAt).toLocaleTimeString()}</span>
+                                            <span className="text-secondary">{message.channel}</span>
+                                            {message.pattern && <span>via {message.pattern}</span>}
+                                        </div>
+                                        <div className="break-all whitespace-pre-wrap">{message.message}</div>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </div>
+
+                    {canPublish && (
+                        <form onSubmit={handlePublish} className="flex flex-col gap-2 rounded-sm border bg-card p-3">
+                            <p className="text-sm font-medium">Publish</p>
+                            <div className="grid gap-1.5">
+                                <Label htmlFor="publishChannel" className="text-xs">Channel</Label>
+                                <Input
+                                    id="publishChannel"
+                                    value={publishChannel}
+                                    onChange={(e) => setPublishChannel(e.target.value)}
+                                    className="h-8 text-xs font-mono"
+                                />
+                            </div>
+                            <div className="grid gap-1.5">
+                                <Label htmlFor="publishMessage" className="text-xs">Message</Label>
+                                <Textarea
+                                    id="publishMessage"
+                                    value={publishText}
+                                    onChange={(e) => setPublishText(e.target.value)}
+                                    className="min-h-[80px] text-xs font-mono"
+                                />
+                            </div>
+                            <div className="flex justify-end">
+                                <Button type="submit" size="sm" disabled={isPublishing || !publishChannel.trim()}>
+                                    <PaperPlaneTilt className="h-4 w-4 mr-1" />
+                                    {isPublishing ? "Publishing..." : "Publish"}
+                                </Button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
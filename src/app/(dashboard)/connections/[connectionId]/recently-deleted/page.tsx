@@ -0,0 +1,297 @@
+"use client"
+
+import { useState } from "react"
+import { useDeletedKeys, usePurgeDeletedKeys } from "@/lib/api/hooks/redis"
+import { useMe } from "@/lib/api"
+import type {
+    DeletedKeyEntry,
+    DeletedKeySource,
+    ListDeletedKeysResponseDto,
+    MeResponseDto,
+    PurgeDeletedKeysResponseDto,
+} from "@/types"
+import { useParams } from "next/navigation"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { RestoreKeyDialog } from "@/components/features/recycle-bin/restore-key-dialog"
+import { ArrowClockwise, ArrowCounterClockwise, ArrowLeft, ArrowRight, Trash } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+const PAGE_SIZE = 50
+
+const databases = Array.from({ length: 16 }, (_, index) => index)
+
+const sourceLabels: Record<DeletedKeySource, string> = {
+    key: "Key",
+    bulk: "Selection",
+    prefix: "Prefix",
+    pattern: "Pattern job",
+}
+
+function formatSize(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function formatTtl(pttl: number) {
+    if (pttl < 0) return "No expiry"
+    const seconds = Math.ceil(pttl / 1000)
+    if (seconds < 60) return `${seconds}s`
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+}
+
+export default function RecentlyDeletedPage() {
+    const routeParams = useParams()
+    const connectionId = Array.isArray(routeParams.connectionId)
+        ? routeParams.connectionId[0]
+        : routeParams.connectionId
+
+    const [dbFilter, setDbFilter] = useState<string>("all")
+    const [search, setSearch] = useState("")
+    const [page, setPage] = useState(1)
+    const [restoreTarget, setRestoreTarget] = useState<DeletedKeyEntry | null>(null)
+    const [isEmptyOpen, setIsEmptyOpen] = useState(false)
+
+    const { data: meData } = useMe()
+    const me = meData?.data ?? (meData as unknown as MeResponseDto | undefined)
+    const canEdit = !!me?.user && me.user.role !== "viewer"
+
+    const { data, isLoading, isFetching, error, refetch } = useDeletedKeys(connectionId || "", {
+        db: dbFilter === "all" ? undefined : Number(dbFilter),
+        search: search.trim() || undefined,
+        page,
+        limit: PAGE_SIZE,
+    })
+    const result = data?.data ?? (data as ListDeletedKeysResponseDto | undefined)
+    const entries = result?.entries ?? []
+    const total = result?.total ?? 0
+    const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+    const { mutate: purgeDeletedKeys, isPending: isPurging } = usePurgeDeletedKeys(connectionId || "")
+
+    const handlePurge = (id?: string) => {
+        purgeDeletedKeys(id, {
+            onSuccess: (response) => {
+                const payload = response?.data ?? (response as PurgeDeletedKeysResponseDto | undefined)
+                toast.success(payload?.message ?? "Recycle bin purged")
+                setIsEmptyOpen(false)
+            },
+            onError: (error: unknown) => {
+                toast.fail(error instanceof Error ? error.message : "Failed to purge deleted keys")
+            },
+        })
+    }
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex items-start justify-between gap-3">
+                <div>
+                    <h2 className="text-base font-semibold">Recently Deleted</h2>
+                    <p className="text-xs text-muted-foreground">
+                        Keys deleted from this connection are kept for a while and can be restored to their original or a new name.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8 px-2"
+                        onClick={() => refetch()}
+                        disabled={isFetching}
+                    >
+                        <ArrowClockwise className={cn("h-4 w-4", isFetching && "animate-spin")} />
+                    </Button>
+                    {canEdit && (
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-8"
+                            onClick={() => setIsEmptyOpen(true)}
+                            disabled={total === 0}
+                        >
+                            <Trash className="h-4 w-4 mr-1" />
+                            Empty
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <Input
+                    value={search}
+                    onChange={(e) => {
+                        setSearch(e.target.value)
+                        setPage(1)
+                    }}
+                    placeholder="Search key names"
+                    className="w-[240px] h-8 text-sm font-mono"
+                />
+                <Select
+                    value={dbFilter}
+                    onValueChange={(value) => {
+                        setDbFilter(value)
+                        setPage(1)
+                    }}
+                >
+                    <SelectTrigger size="sm" className="w-[110px] h-8 text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all" className="text-xs">All DBs</SelectItem>
+                        {databases.map((db) => (
+                            <SelectItem key={db} value={db.toString()} className="text-xs">
+                                DB{db}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <div className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+                    <span>{total.toLocaleString()} {total === 1 ? "key" : "keys"}</span>
+                    <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                        disabled={page <= 1}
+                    >
+                        <ArrowLeft className="h-3.5 w-3.5" />
+                    </Button>
+                    <span>{Math.min(page, totalPages)} / {totalPages}</span>
+                    <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+                        disabled={page >= totalPages}
+                    >
+                        <ArrowRight className="h-3.5 w-3.5" />
+                    </Button>
+                </div>
+            </div>
+
+            <div className="border rounded-sm bg-card">
+                {isLoading ? (
+                    <Skeleton className="h-40 w-full" />
+                ) : error ? (
+                    <div className="p-6 text-center text-sm text-muted-foreground">
+                        {error instanceof Error ? error.message : "Failed to load deleted keys"}
+                    </div>
+                ) : entries.length === 0 ? (
+                    <div className="p-6 text-center text-muted-foreground text-sm">
+                        {search.trim() || dbFilter !== "all" ? "No deleted keys match." : "The recycle bin is empty."}
+                    </div>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow className="hover:bg-transparent">
+                                <TableHead className="text-xs font-semibold h-8">Key</TableHead>
+                                <TableHead className="text-xs font-semibold h-8 w-14">DB</TableHead>
+                                <TableHead className="text-xs font-semibold h-8 w-20">Type</TableHead>
+                                <TableHead className="text-xs font-semibold h-8 w-20">Size</TableHead>
+                                <TableHead className="text-xs font-semibold h-8 w-24">TTL</TableHead>
+                                <TableHead className="text-xs font-semibold h-8 w-24">Deleted By</TableHead>
+                                <TableHead className="text-xs font-semibold h-8 w-40">Deleted</TableHead>
+                                {canEdit && <TableHead className="h-8 w-24" />}
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {entries.map((entry) => (
+                                <TableRow key={entry.id}>
+                                    <TableCell className="font-mono text-xs py-1.5">{entry.key}</TableCell>
+                                    <TableCell className="text-xs py-1.5">DB{entry.database}</TableCell>
+                                    <TableCell className="text-xs py-1.5 text-muted-foreground">{entry.type}</TableCell>
+                                    <TableCell className="text-xs py-1.5 text-muted-foreground">{formatSize(entry.size)}</TableCell>
+                                    <TableCell className="text-xs py-1.5 text-muted-foreground">{formatTtl(entry.pttl)}</TableCell>
+                                    <TableCell className="text-xs py-1.5 text-muted-foreground">{entry.deletedBy ?? "—"}</TableCell>
+                                    <TableCell className="text-xs py-1.5 text-muted-foreground">
+                                        <div>{new Date(entry.deletedAt).toLocaleString()}</div>
+                                        <div className="text-[10px]">{sourceLabels[entry.source]}</div>
+                                    </TableCell>
+                                    {canEdit && (
+                                        <TableCell className="py-1.5">
+                                            <div className="flex items-center justify-end gap-1">
+                                                <Button
+                                                    size="sm"
+                                                    variant="ghost"
+                                                    className="h-7 px-2 text-xs"
+                                                    onClick={() => setRestoreTarget(entry)}
+                                                    title="Restore"
+                                                >
+                                                    <ArrowCounterClockwise className="h-3.5 w-3.5" />
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    variant="ghost"
+                                                    className="h-7 px-2 text-xs text-destructive"
+                                                    onClick={() => handlePurge(entry.id)}
+                                                    disabled={isPurging}
+                                                    title="Delete permanently"
+                                                >
+                                                    <Trash className="h-3.5 w-3.5" />
+                                                </Button>
+                                            </div>
+                                        </TableCell>
+                                    )}
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </div>
+
+            {restoreTarget && (
+                <RestoreKeyDialog
+                    key={restoreTarget.id}
+                    connectionId={connectionId || ""}
+                    entry={restoreTarget}
+                    onOpenChange={(open) => !open && setRestoreTarget(null)}
+                />
+            )}
+
+            <Dialog open={isEmptyOpen} onOpenChange={setIsEmptyOpen}>
+                <DialogContent className="sm:max-w-[420px]">
+                    <DialogHeader>
+                        <DialogTitle>Empty Recycle Bin</DialogTitle>
+                        <DialogDescription>
+                            Permanently remove all {total.toLocaleString()} deleted keys of this connection. They can no longer be restored.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsEmptyOpen(false)} disabled={isPurging}>
+                            Cancel
+                        </Button>
+                        <Button variant="destructive" onClick={() => handlePurge()} disabled={isPurging}>
+                            {isPurging ? "Emptying..." : "Empty Recycle Bin"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -0,0 +1,162 @@
+"use client"
+
+import { useState } from "react"
+import { useSearchIndex, useSearchIndexes } from "@/lib/api/hooks/redis"
+import { useMe } from "@/lib/api"
+import type { GetSearchIndexResponseDto, ListSearchIndexesResponseDto, MeResponseDto } from "@/types"
+import { useParams, useSearchParams } from "next/navigation"
+
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { KeyEditorSheet } from "@/components/features/keys/key-editor-sheet"
+import { CreateSearchIndexDialog, DropSearchIndexDialog } from "@/components/features/search/index-dialogs"
+import { IndexDetails } from "@/components/features/search/index-details"
+import { SearchConsole } from "@/components/features/search/search-console"
+import { ArrowClockwise, MagnifyingGlass, Trash } from "@phosphor-icons/react"
+import { cn } from "@/lib/utils"
+
+export default function SearchPage() {
+    const routeParams = useParams()
+    const connectionId = Array.isArray(routeParams.connectionId)
+        ? routeParams.connectionId[0]
+        : routeParams.connectionId
+    const searchParams = useSearchParams()
+    const dbParam = searchParams.get("db")
+    const activeDb = dbParam ? Number(dbParam) : 0
+
+    const [selectedIndex, setSelectedIndex] = useState<string | null>(null)
+    const [dropTarget, setDropTarget] = useState<string | null>(null)
+    const [documentKey, setDocumentKey] = useState<string | null>(null)
+    const [editorOpen, setEditorOpen] = useState(false)
+
+    const { data: meData } = useMe()
+    const me = meData?.data ?? (meData as unknown as MeResponseDto | undefined)
+    const isAdmin = me?.user?.role === "admin"
+
+    const { data: indexesData, isLoading, isFetching, error, refetch } = useSearchIndexes(connectionId || "")
+    const indexes = (indexesData?.data ?? (indexesData as ListSearchIndexesResponseDto | undefined))?.indexes ?? []
+    const currentIndex = selectedIndex && indexes.includes(selectedIndex) ? selectedIndex : indexes[0] ?? ""
+
+    const { data: indexData, isLoading: isIndexLoading } = useSearchIndex(connectionId || "", currentIndex)
+    const index = (indexData?.data ?? (indexData as GetSearchIndexResponseDto | undefined))?.index
+
+    const handleOpenDocument = (key: string) => {
+        setDocumentKey(key)
+        setEditorOpen(true)
+    }
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h2 className="text-base font-semibold">Search</h2>
+                    <p className="text-xs text-muted-foreground">
+                        {indexes.length} {indexes.length === 1 ? "index" : "indexes"} · documents open in Database {activeDb}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    {isAdmin && (
+                        <CreateSearchIndexDialog
+                            connectionId={connectionId || ""}
+                            database={activeDb}
+                            onCreated={setSelectedIndex}
+                        />
+                    )}
+                    <Button size="sm" variant="outline" className="h-8 px-2" onClick={() => refetch()} disabled={isFetching}>
+                        <ArrowClockwise className={cn("h-4 w-4", isFetching && "animate-spin")} />
+                    </Button>
+                </div>
+            </div>
+
+            {error ? (
+                <div className="border rounded-sm bg-card p-6 text-center text-sm text-muted-foreground">
+                    {error instanceof Error ? error.message : "Failed to list search indexes"}
+                </div>
+            ) : (
+                <div className="grid gap-3 lg:grid-cols-[220px_1fr]">
+                    <div className="flex flex-col gap-1 border rounded-sm bg-card p-2 self-start">
+                        {isLoading ? (
+                            [...Array(3)].map((_, i) => <Skeleton key={i} className="h-8 w-full" />)
+                        ) : indexes.length === 0 ? (
+                            <div className="p-4 text-center text-xs text-muted-foreground">No search indexes.</div>
+                        ) : (
+                            indexes.map((name) => (
+                                <button
+                                    key={name}
+                                    type="button"
+                                    onClick={() => setSelectedIndex(name)}
+                                    className={cn(
+                                        "flex items-center gap-2 rounded-sm px-2 py-1.5 text-left text-xs font-mono transition-colors",
+                                        name === currentIndex
+                                            ? "bg-secondary/10 text-secondary"
+                                            : "text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                                    )}
+                                >
+                                    <MagnifyingGlass className="h-3.5 w-3.5 shrink-0" />
+                                    <span className="truncate">{name}</span>
+                                </button>
+                            ))
+                        )}
+                    </div>
+
+                    <div className="flex flex-col gap-4 min-w-0">
+                        {isIndexLoading ? (
+                            <Skeleton className="h-40 w-full" />
+                        ) : index ? (
+                            <>
+                                <div className="flex items-center justify-between">
+                                    <h3 className="text-sm font-semibold font-mono">{index.name}</h3>
+                                    {isAdmin && (
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            className="h-7 px-2 text-xs text-destructive"
+                                            onClick={() => setDropTarget(index.name)}
+                                        >
+                                            <Trash className="h-3.5 w-3.5 mr-1" />
+                                            Drop
+                                        </Button>
+                                    )}
+                                </div>
+                                <IndexDetails index={index} />
+                                <SearchConsole
+                                    key={index.name}
+                                    connectionId={connectionId || ""}
+                                    database={activeDb}
+                                    index={index}
+                                    onOpenDocument={handleOpenDocument}
+                                />
+                            </>
+                        ) : null}
+                    </div>
+                </div>
+            )}
+
+            <DropSearchIndexDialog
+                connectionId={connectionId || ""}
+                database={activeDb}
+                index={dropTarget}
+                onOpenChange={(open) => {
+                    if (!open) {
+                        setDropTarget(null)
+                    }
+                }}
+                onDropped={() => setSelectedIndex(null)}
+            />
+
+            <KeyEditorSheet
+                key={`${documentKey ?? "none"}-${activeDb}`}
+                connectionId={connectionId || ""}
+                database={activeDb}
+                keyName={documentKey}
+                open={editorOpen}
+                onOpenChange={(nextOpen) => {
+                    setEditorOpen(nextOpen)
+                    if (!nextOpen) {
+                        setDocumentKey(null)
+                    }
+                }}
+            />
+        </div>
+    )
+}
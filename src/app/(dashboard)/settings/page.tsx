@@ -160,6 +160,56 @@ function SystemSettings() {
                         onCheckedChange={(checked) => handleUpdate("allowRegistration", checked === true)}
                     />
                 </div>
+
+                <div className="flex flex-col gap-3 rounded-sm border border-secondary/20 bg-secondary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="space-y-0.5">
+                        <Label>Recycle Bin</Label>
+                        <p className="text-sm text-muted-foreground">Keep deleted keys so they can be restored</p>
+                    </div>
+                    <Switch
+                        checked={settings["recycleBin.enabled"] !== false}
+                        onCheckedChange={(checked) => handleUpdate("recycleBin.enabled", checked === true)}
+                    />
+                </div>
+
+                <div className="flex flex-col gap-3 rounded-sm border border-secondary/20 bg-secondary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="space-y-0.5">
+                        <Label>Recycle Bin Retention (days)</Label>
+                        <p className="text-sm text-muted-foreground">How long deleted keys stay restorable</p>
+                    </div>
+                    <Input
+                        type="number"
+                        className="w-24 bg-background"
+                        value={getNumberSetting(settings["recycleBin.retentionDays"], 7)}
+                        onChange={(e) => handleUpdate("recycleBin.retentionDays", parseInt(e.target.value))}
+                    />
+                </div>
+
+                <div className="flex flex-col gap-3 rounded-sm border border-secondary/20 bg-secondary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="space-y-0.5">
+                        <Label>Recycle Bin Max Key Size (MB)</Label>
+                        <p className="text-sm text-muted-foreground">Larger keys are deleted without a copy</p>
+                    </div>
+                    <Input
+                        type="number"
+                        className="w-24 bg-background"
+                        value={getNumberSetting(settings["recycleBin.maxEntrySizeMb"], 10)}
+                        onChange={(e) => handleUpdate("recycleBin.maxEntrySizeMb", parseInt(e.target.value))}
+                    />
+                </div>
+
+                <div className="flex flex-col gap-3 rounded-sm border border-secondary/20 bg-secondary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="space-y-0.5">
+                        <Label>Recycle Bin Max Total Size (MB)</Label>
+                        <p className="text-sm text-muted-foreground">Oldest entries are dropped beyond this size</p>
+                    </div>
+                    <Input
+                        type="number"
+                        className="w-24 bg-background"
+                        value={getNumberSetting(settings["recycleBin.maxTotalSizeMb"], 500)}
+                        onChange={(e) => handleUpdate("recycleBin.maxTotalSizeMb", parseInt(e.target.value))}
+                    />
+                </div>
             </div>
         </div>
     )
@@ -279,6 +329,26 @@ function UserPreferences() {
                     />
                 </div>
 
+                <div className="flex flex-col gap-3 rounded-sm border border-primary/20 bg-primary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="space-y-0.5">
+                        <Label>Value Display</Label>
+                        <p className="text-sm text-muted-foreground">How string and hash values open in the key editor</p>
+                    </div>
+                    <Select
+                        value={typeof preferences.keyValueDisplay === "string" ? preferences.keyValueDisplay : "formatted"}
+                        onValueChange={(value) => handleUpdate("keyValueDisplay", value)}
+                    >
+                        <SelectTrigger className="w-[150px]">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="formatted">Decoded</SelectItem>
+                            <SelectItem value="raw">Raw</SelectItem>
+                            <SelectItem value="hex">Hex</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+
                 <div className="flex flex-col gap-3 rounded-sm border border-primary/20 bg-primary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
                     <div className="space-y-0.5">
                         <Label>Auto-refresh Keys</Label>
@@ -0,0 +1,142 @@
+"use client"
+
+import { useKeyDiff } from "@/lib/api/hooks/redis"
+import type { KeyDiffQueryDto, KeyDiffResponseDto, KeyspaceDifference } from "@/types"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Skeleton } from "@/components/ui/skeleton"
+import { cn } from "@/lib/utils"
+
+interface KeyDiffDialogProps {
+  connectionId: string
+  difference: KeyspaceDifference | null
+  params: Omit<KeyDiffQueryDto, "keyEncoding">
+  leftLabel: string
+  rightLabel: string
+  onOpenChange: (open: boolean) => void
+}
+
+function formatTtl(ttl?: number) {
+  if (ttl === undefined || ttl === -2) {
+    return "—"
+  }
+  return ttl === -1 ? "No expiry" : `${ttl}s`
+}
+
+function DiffValue({ value, side }: { value?: string; side: "left" | "right" }) {
+  if (value === undefined) {
+    return <span className="italic text-muted-foreground">missing</span>
+  }
+
+  return (
+    <span
+      className={cn(
+        "whitespace-pre-wrap break-all",
+        side === "left" ? "text-destructive" : "text-success"
+      )}
+    >
+      {value}
+    </span>
+  )
+}
+
+export function KeyDiffDialog({
+  connectionId,
+  difference,
+  params,
+  leftLabel,
+  rightLabel,
+  onOpenChange,
+}: KeyDiffDialogProps) {
+  const { data, isLoading, error } = useKeyDiff(connectionId, difference?.keyHex ?? difference?.key ?? "", {
+    ...params,
+    keyEncoding: difference?.keyHex ? "hex" : undefined,
+  })
+  const diff = data?.data ?? (data as KeyDiffResponseDto | undefined)
+  const changes = diff?.changes ?? []
+
+  return (
+    <Dialog open={!!difference} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle className="font-mono truncate">{difference?.key}</DialogTitle>
+          <DialogDescription>
+            Differences between {leftLabel} and {rightLabel}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-xs text-destructive">
+            {error instanceof Error ? error.message : "Failed to diff key"}
+          </p>
+        ) : isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              {[
+                { label: leftLabel, type: diff?.leftType, ttl: diff?.leftTtl },
+                { label: rightLabel, type: diff?.rightType, ttl: diff?.rightTtl },
+              ].map((side) => (
+                <div key={side.label} className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+                  <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{side.label}</div>
+                  <div className="font-semibold">
+                    {side.type ?? "missing"}
+                    {side.type && <span className="ml-2 font-normal text-muted-foreground">{formatTtl(side.ttl)}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {diff && !diff.comparable ? (
+              <p className="text-xs text-muted-foreground">
+                {diff.leftType && diff.rightType && diff.leftType !== diff.rightType
+                  ? "The key holds a different type on each side."
+                  : diff.tooLarge
+                    ? "The value is too large to diff, element differences are not available."
+                    : "This type is compared by its DUMP payload only, element differences are not available."}
+              </p>
+            ) : changes.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                The values are equal{diff?.leftTtl !== diff?.rightTtl ? ", only the TTL differs" : ""}.
+              </p>
+            ) : (
+              <div className="max-h-[50vh] overflow-y-auto rounded-sm border">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-card">
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="px-3 py-1.5 font-semibold w-1/4">Element</th>
+                      <th className="px-3 py-1.5 font-semibold">{leftLabel}</th>
+                      <th className="px-3 py-1.5 font-semibold">{rightLabel}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono">
+                    {changes.map((change) => (
+                      <tr key={change.element} className="border-b last:border-0 align-top">
+                        <td className="px-3 py-1.5 break-all text-muted-foreground">
+                          {change.element || <span className="italic">value</span>}
+                        </td>
+                        <td className="px-3 py-1.5"><DiffValue value={change.left} side="left" /></td>
+                        <td className="px-3 py-1.5"><DiffValue value={change.right} side="right" /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {diff?.truncated && (
+              <p className="text-xs text-muted-foreground">Showing the first {changes.length} differences.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useSyncKeys } from "@/lib/api/hooks/redis"
+import type { KeyspaceDifference, KeyspaceSyncDirection, SyncKeysResponseDto } from "@/types"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/lib/toast"
+
+interface SyncKeysDialogProps {
+  connectionId: string
+  differences: KeyspaceDifference[]
+  direction: KeyspaceSyncDirection | null
+  db: number
+  targetConnectionId?: string
+  targetDb: number
+  leftLabel: string
+  rightLabel: string
+  onOpenChange: (open: boolean) => void
+  onSynced?: () => void
+}
+
+export function SyncKeysDialog({
+  connectionId,
+  differences,
+  direction,
+  db,
+  targetConnectionId,
+  targetDb,
+  leftLabel,
+  rightLabel,
+  onOpenChange,
+  onSynced,
+}: SyncKeysDialogProps) {
+  const { mutate: syncKeys, isPending } = useSyncKeys(connectionId)
+
+  const toRight = direction === "left_to_right"
+  const [sourceLabel, destinationLabel] = toRight ? [leftLabel, rightLabel] : [rightLabel, leftLabel]
+  // Keys the source side does not hold are removed from the destination
+  const deletions = differences.filter((difference) =>
+    difference.kind === (toRight ? "right_only" : "left_only")
+  ).length
+
+  const handleSync = () => {
+    if (!direction) {
+      return
+    }
+
+    syncKeys(
+      {
+        keys: differences.filter((difference) => !difference.keyHex).map((difference) => difference.key),
+        hexKeys: differences.filter((difference) => difference.keyHex).map((difference) => difference.keyHex!),
+        db,
+        targetConnectionId,
+        targetDb,
+        direction,
+      },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as SyncKeysResponseDto | undefined)
+          toast.success(payload?.message ?? "Keys synced")
+          onOpenChange(false)
+          onSynced?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to sync keys")
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={!!direction} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Sync {differences.length} {differences.length === 1 ? "Key" : "Keys"}</DialogTitle>
+          <DialogDescription>
+            Overwrite the selected keys in {destinationLabel} with their values from {sourceLabel}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2 text-xs text-muted-foreground">
+          <p>Values are transferred with DUMP and RESTORE, keeping their TTL.</p>
+          {deletions > 0 && (
+            <p className="text-destructive">
+              {deletions} {deletions === 1 ? "key does" : "keys do"} not exist in {sourceLabel} and will be deleted from {destinationLabel}.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSync} disabled={isPending || differences.length === 0}>
+            {isPending ? "Syncing..." : "Sync"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,222 @@
+"use client"
+
+import { useState } from "react"
+import { useKeyspaceEvents, useKeyspaceNotifications, useUpdateKeyspaceNotifications } from "@/lib/api/hooks/redis"
+import { useMe } from "@/lib/api"
+import type { KeyspaceEvent, KeyspaceNotificationsResponseDto, MeResponseDto } from "@/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Lightning, Pause, Play, Trash } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+// Keyspace and generic, string, expired and evicted events, added to the current flags
+const FEED_FLAGS = "Kg$xe"
+
+const EVENT_TYPES = ["set", "del", "expired", "evicted", "other"] as const
+
+type EventType = (typeof EVENT_TYPES)[number]
+
+const eventColors: Record<EventType, string> = {
+    set: "text-success",
+    del: "text-destructive",
+    expired: "text-warning",
+    evicted: "text-accent",
+    other: "text-secondary",
+}
+
+const statusLabels = {
+    idle: "Not watching",
+    connecting: "Connecting...",
+    open: "Live",
+    reconnecting: "Reconnecting...",
+    closed: "Watching failed",
+}
+
+function eventType(event: KeyspaceEvent): EventType {
+    return (EVENT_TYPES as readonly string[]).includes(event.event) ? (event.event as EventType) : "other"
+}
+
+interface KeyspaceFeedProps {
+    connectionId: string
+    db: number
+}
+
+export function KeyspaceFeed({ connectionId, db }: KeyspaceFeedProps) {
+    const [patternInput, setPatternInput] = useState("")
+    const [pattern, setPattern] = useState<string | null>(null)
+    const [shownTypes, setShownTypes] = useState<EventType[]>([...EVENT_TYPES])
+
+    const { data: meData } = useMe()
+    const me = meData?.data ?? (meData as unknown as MeResponseDto | undefined)
+    const isAdmin = me?.user?.role === "admin"
+
+    const { data, isLoading, error } = useKeyspaceNotifications(connectionId)
+    const notifications = data?.data ?? (data as KeyspaceNotificationsResponseDto | undefined)
+    const enabled = !!notifications?.keyspace || !!notifications?.keyevent
+    const { mutate: updateNotifications, isPending: isUpdating } = useUpdateKeyspaceNotifications(connectionId)
+
+    const { events, pendingCount, paused, status, pause, resume, clear } = useKeyspaceEvents(
+        connectionId,
+        pattern === null ? null : { db, pattern: pattern || undefined }
+    )
+    const visibleEvents = events.filter((event) => shownTypes.includes(eventType(event)))
+
+    const handleEnable = () => {
+        const flags = [...new Set(`${notifications?.flags ?? ""}${FEED_FLAGS}`)].join("")
+
+        updateNotifications(
+            { flags },
+            {
+                onSuccess: (response) => {
+                    const payload = response?.data ?? (response as KeyspaceNotificationsResponseDto | undefined)
+                    toast.success(payload?.message ?? "Keyspace notifications enabled")
+                },
+                onError: (error: unknown) => {
+                    toast.fail(error instanceof Error ? error.message : "Failed to enable keyspace notifications")
+                },
+            }
+        )
+    }
+
+    const handleWatch = (e: React.FormEvent) => {
+        e.preventDefault()
+        setPattern(patternInput.trim())
+    }
+
+    const toggleType = (type: EventType) => {
+        setShownTypes((current) =>
+            current.includes(type) ? current.filter((shown) => shown !== type) : [...current, type]
+        )
+    }
+
+    return (
+        <div className="border rounded-sm bg-card overflow-hidden">
+            <div className="px-4 py-3 border-b bg-muted/50 flex items-center gap-2">
+                <h3 className="font-semibold">Keyspace Events</h3>
+                <span className="text-xs text-muted-foreground">DB{db}</span>
+                {notifications?.success && (
+                    <span className="ml-auto font-mono text-xs text-muted-foreground">
+                        notify-keyspace-events: {notifications.flags ? `"${notifications.flags}"` : "off"}
+                    </span>
+                )}
+            </div>
+            <div className="p-4 flex flex-col gap-3">
+                {isLoading ? (
+                    <Skeleton className="h-8 w-full" />
+                ) : error || !notifications?.success ? (
+                    <div className="text-xs text-muted-foreground">
+                        {error instanceof Error
+                            ? error.message
+                            : notifications?.error ?? "Failed to read keyspace notification settings"}
+                    </div>
+                ) : (
+                    !enabled && (
+                        <div className="flex items-center gap-3 rounded-sm border border-warning/20 bg-warning/5 p-3 text-xs">
+                            <span className="text-muted-foreground">
+                                Keyspace notifications are turned off on this server, so no key events are published.
+                                {!isAdmin && " Ask an admin to enable them."}
+                            </span>
+                            {isAdmin && (
+                                <Button size="sm" className="ml-auto h-7" onClick={handleEnable} disabled={isUpdating}>
+                                    <Lightning className="h-3.5 w-3.5 mr-1" />
+                                    {isUpdating ? "Enabling..." : "Enable"}
+                                </Button>
+                            )}
+                        </div>
+                    )
+                )}
+
+                <form onSubmit={handleWatch} className="flex items-center gap-2">
+                    <Input
+                        value={patternInput}
+                        onChange={(e) => setPatternInput(e.target.value)}
+                        placeholder="Key pattern, e.g. session:* (default: all keys)"
+                        className="h-8 text-xs font-mono"
+                    />
+                    <Button type="submit" size="sm" className="h-8" disabled={!enabled}>
+                        Watch
+                    </Button>
+                    {pattern !== null && (
+                        <Button type="button" size="sm" variant="outline" className="h-8" onClick={() => setPattern(null)}>
+                            Stop
+                        </Button>
+                    )}
+                </form>
+
+                <div className="flex flex-wrap items-center gap-1.5">
+                    {EVENT_TYPES.map((type) => {
+                        const shown = shownTypes.includes(type)
+                        return (
+                            <Button
+                                key={type}
+                                type="button"
+                                size="sm"
+                                variant={shown ? "secondary" : "outline"}
+                                className={cn("h-7 px-2 text-xs font-mono", !shown && "text-muted-foreground")}
+                                onClick={() => toggleType(type)}
+                            >
+                                {type}
+                            </Button>
+                        )
+                    })}
+                </div>
+
+                <div className="flex items-center gap-2 text-xs">
+                    <span
+                        className={cn(
+                            "h-2 w-2 rounded-full",
+                            status === "open" ? "bg-success" : status === "closed" ? "bg-destructive" : "bg-muted-foreground"
+                        )}
+                    />
+                    <span className="text-muted-foreground">{paused ? "Paused" : statusLabels[status]}</span>
+                    <span className="text-muted-foreground">
+                        · {visibleEvents.length} of {events.length} events
+                        {pendingCount > 0 && `, ${pendingCount} held back`}
+                    </span>
+                    <div className="ml-auto flex items-center gap-1">
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-xs"
+                            onClick={paused ? resume : pause}
+                            disabled={pattern === null && !paused}
+                        >
+                            {paused ? <Play className="h-3.5 w-3.5 mr-1" /> : <Pause className="h-3.5 w-3.5 mr-1" />}
+                            {paused ? "Resume" : "Pause"}
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-xs"
+                            onClick={clear}
+                            disabled={events.length === 0 && pendingCount === 0}
+                        >
+                            <Trash className="h-3.5 w-3.5 mr-1" />
+                            Clear
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="h-[320px] overflow-y-auto rounded-sm border bg-muted/20 font-mono text-xs">
+                    {visibleEvents.length === 0 ? (
+                        <div className="p-4 text-center text-muted-foreground">
+                            {pattern === null ? "Watch a key pattern to see events as they happen." : "Waiting for events..."}
+                        </div>
+                    ) : (
+                        [...visibleEvents].reverse().map((event, index) => (
+                            <div key={`${event.receivedAt}-${index}`} className="flex items-center gap-2 border-b px-2 py-1 last:border-b-0">
+                                <span className="text-[10px] text-muted-foreground">
+                                    {new Date(event.receivedAt).toLocaleTimeString()}
+                                </span>
+                                <span className={cn("w-16 shrink-0", eventColors[eventType(event)])}>{event.event}</span>
+                                <span className="break-all">{event.key}</span>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
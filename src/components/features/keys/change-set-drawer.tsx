@@ -0,0 +1,402 @@
+"use client"
+
+import { useState } from "react"
+import { useApplyChangeSet, usePreviewChangeSet } from "@/lib/api/hooks/redis"
+import { ApiError } from "@/lib/api"
+import type {
+  ApplyChangeSetResponseDto,
+  ChangeSetOperation,
+  ChangeSetOperationType,
+  ChangeSetPreviewEntry,
+  KeyEncoding,
+  PreviewChangeSetResponseDto,
+} from "@/types"
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, Warning, X } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+const operationLabels: Record<ChangeSetOperationType, string> = {
+  set: "Set value",
+  hset: "Set hash field",
+  hdel: "Delete hash field",
+  expire: "Set TTL",
+  rename: "Rename",
+  delete: "Delete key",
+}
+
+function shorten(value: string, length = 40) {
+  return value.length > length ? `${value.slice(0, length)}…` : value
+}
+
+/**
+ * One line description of a staged operation
+ */
+function describeOperation(operation: ChangeSetOperation) {
+  switch (operation.op) {
+    case "set":
+      return `= "${shorten(operation.value)}"`
+    case "hset":
+      return Object.entries(operation.fields).map(([field, value]) => `${field} = "${shorten(value)}"`).join(", ")
+    case "hdel":
+      return operation.fields.join(", ")
+    case "expire":
+      return operation.ttl === null ? "No expiry" : `${operation.ttl}s`
+    case "rename":
+      return `→ ${operation.newKey}`
+    case "delete":
+      return ""
+  }
+}
+
+interface AddOperationFormProps {
+  initialKey: string
+  initialKeyEncoding: KeyEncoding
+  onAdd: (operation: ChangeSetOperation) => void
+}
+
+function AddOperationForm({ initialKey, initialKeyEncoding, onAdd }: AddOperationFormProps) {
+  const [op, setOp] = useState<ChangeSetOperationType>("hset")
+  const [key, setKey] = useState(initialKey)
+  // A binary key stays addressed by its hex until the name is edited
+  const [keyEncoding, setKeyEncoding] = useState(initialKeyEncoding)
+  const [field, setField] = useState("")
+  const [value, setValue] = useState("")
+  const [ttl, setTtl] = useState("")
+  const [newKey, setNewKey] = useState("")
+
+  const trimmedKey = key.trim()
+  const ttlSeconds = Number(ttl)
+  const isValid =
+    !!trimmedKey &&
+    ((op !== "hset" && op !== "hdel") || !!field) &&
+    (op !== "expire" || !ttl.trim() || (Number.isInteger(ttlSeconds) && ttlSeconds > 0)) &&
+    (op !== "rename" || (!!newKey.trim() && newKey.trim() !== trimmedKey))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValid) {
+      return
+    }
+
+    const target = { key: trimmedKey, ...(keyEncoding === "hex" && { keyEncoding }) }
+    switch (op) {
+      case "set":
+        onAdd({ op, ...target, value })
+        break
+      case "hset":
+        onAdd({ op, ...target, fields: { [field]: value } })
+        break
+      case "hdel":
+        onAdd({ op, ...target, fields: [field] })
+        break
+      case "expire":
+        onAdd({ op, ...target, ttl: ttl.trim() ? ttlSeconds : null })
+        break
+      case "rename":
+        onAdd({ op, ...target, newKey: newKey.trim() })
+        break
+      case "delete":
+        onAdd({ op, ...target })
+        break
+    }
+
+    setField("")
+    setValue("")
+    setNewKey("")
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 rounded-sm border bg-muted/30 p-3">
+      <div className="grid grid-cols-[180px_1fr] gap-2">
+        <div className="grid gap-1.5">
+          <Label className="text-xs">Operation</Label>
+          <Select value={op} onValueChange={(next) => setOp(next as ChangeSetOperationType)}>
+            <SelectTrigger size="sm" className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(operationLabels) as ChangeSetOperationType[]).map((type) => (
+                <SelectItem key={type} value={type} className="text-xs">
+                  {operationLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="changeSetKey" className="text-xs">{keyEncoding === "hex" ? "Key (hex)" : "Key"}</Label>
+          <Input
+            id="changeSetKey"
+            value={key}
+            onChange={(e) => {
+              setKey(e.target.value)
+              setKeyEncoding("utf8")
+            }}
+            className="h-8 font-mono text-xs"
+          />
+        </div>
+      </div>
+
+      {(op === "hset" || op === "hdel") && (
+        <div className="grid gap-1.5">
+          <Label htmlFor="changeSetField" className="text-xs">Field</Label>
+          <Input
+            id="changeSetField"
+            value={field}
+            onChange={(e) => setField(e.target.value)}
+            className="h-8 font-mono text-xs"
+          />
+        </div>
+      )}
+
+      {(op === "hset" || op === "set") && (
+        <div className="grid gap-1.5">
+          <Label htmlFor="changeSetValue" className="text-xs">Value</Label>
+          <Textarea
+            id="changeSetValue"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="min-h-[60px] font-mono text-xs"
+          />
+        </div>
+      )}
+
+      {op === "expire" && (
+        <div className="grid gap-1.5">
+          <Label htmlFor="changeSetTtl" className="text-xs">TTL (seconds)</Label>
+          <Input
+            id="changeSetTtl"
+            type="number"
+            min={1}
+            value={ttl}
+            onChange={(e) => setTtl(e.target.value)}
+            placeholder="Leave empty to remove the expiry"
+            className="h-8 text-xs"
+          />
+        </div>
+      )}
+
+      {op === "rename" && (
+        <div className="grid gap-1.5">
+          <Label htmlFor="changeSetNewKey" className="text-xs">New Name</Label>
+          <Input
+            id="changeSetNewKey"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            className="h-8 font-mono text-xs"
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button type="submit" size="sm" variant="outline" className="h-7 text-xs" disabled={!isValid}>
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Stage
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+function PreviewEntry({ entry }: { entry: ChangeSetPreviewEntry }) {
+  return (
+    <div className={cn("rounded-sm border", entry.error && "border-destructive/50")}>
+      <div className="flex items-center gap-2 border-b px-2 py-1 text-xs">
+        <span className="text-muted-foreground">#{entry.index + 1}</span>
+        <span className="font-medium">{operationLabels[entry.op]}</span>
+        <span className="truncate font-mono">{entry.key}</span>
+        {entry.type && <span className="text-muted-foreground">({entry.type})</span>}
+      </div>
+      {(entry.error || entry.warning) && (
+        <div className={cn("flex items-center gap-1 px-2 py-1 text-xs", entry.error ? "text-destructive" : "text-warning")}>
+          <Warning className="h-3.5 w-3.5" />
+          {entry.error ?? entry.warning}
+        </div>
+      )}
+      {entry.changes.length > 0 && (
+        <div className="font-mono text-xs">
+          {entry.changes.map((change, index) => (
+            <div
+              key={`${change.label}-${index}`}
+              className="grid grid-cols-[140px_1fr] gap-2 border-t px-2 py-1 first:border-t-0"
+            >
+              <span className="truncate text-muted-foreground">{change.label}</span>
+              <span className="flex flex-col gap-0.5 break-all whitespace-pre-wrap">
+                {change.before !== undefined && <span className="text-destructive line-through">{change.before}</span>}
+                {change.after !== undefined && <span className="text-success">{change.after}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ChangeSetDrawerProps {
+  connectionId: string
+  database: number
+  operations: ChangeSetOperation[]
+  onOperationsChange: (operations: ChangeSetOperation[]) => void
+  initialKey?: string // Prefills the key of the next operation
+  initialKeyEncoding?: KeyEncoding // 'hex' when initialKey holds the hex bytes of a non UTF-8 key
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Pending changes of a database: stage edits across keys, review the combined
+ * preview and apply them in one transaction
+ */
+export function ChangeSetDrawer({
+  connectionId,
+  database,
+  operations,
+  onOperationsChange,
+  initialKey = "",
+  initialKeyEncoding = "utf8",
+  open,
+  onOpenChange,
+}: ChangeSetDrawerProps) {
+  // The preview only counts for the exact operations it was made for
+  const [preview, setPreview] = useState<{ operations: ChangeSetOperation[]; result: PreviewChangeSetResponseDto } | null>(null)
+  const currentPreview = preview?.operations === operations ? preview.result : null
+
+  const { mutate: previewChangeSet, isPending: isPreviewing } = usePreviewChangeSet(connectionId)
+  const { mutate: applyChangeSet, isPending: isApplying } = useApplyChangeSet(connectionId)
+
+  const handlePreview = () => {
+    previewChangeSet(
+      { operations, db: database },
+      {
+        onSuccess: (response) => {
+          const result = response?.data ?? (response as PreviewChangeSetResponseDto | undefined)
+          if (result) {
+            setPreview({ operations, result })
+          }
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to preview changes")
+        },
+      }
+    )
+  }
+
+  const handleApply = () => {
+    applyChangeSet(
+      { operations, versions: currentPreview?.versions ?? {}, db: database },
+      {
+        onSuccess: (response) => {
+          const payload = response?.data ?? (response as ApplyChangeSetResponseDto | undefined)
+          toast.success(payload?.message ?? "Changes applied")
+          onOperationsChange([])
+          onOpenChange(false)
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to apply changes")
+          // Conflicts and invalid operations both show up in a fresh preview
+          if (error instanceof ApiError && (error.status === 409 || error.status === 400)) {
+            handlePreview()
+          }
+        },
+      }
+    )
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="sm:max-w-[640px] w-full px-6">
+        <SheetHeader>
+          <SheetTitle>Pending Changes</SheetTitle>
+          <SheetDescription>
+            Stage edits across keys of Database {database}, review them together and apply them in one transaction.
+            Nothing is written if any touched key changed since the review.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4 overflow-y-auto pb-6">
+          <AddOperationForm
+            key={`${initialKeyEncoding}-${initialKey}`}
+            initialKey={initialKey}
+            initialKeyEncoding={initialKeyEncoding}
+            onAdd={(operation) => onOperationsChange([...operations, operation])}
+          />
+
+          {operations.length === 0 ? (
+            <div className="rounded-sm border border-dashed p-6 text-center text-sm text-muted-foreground">
+              No staged changes.
+            </div>
+          ) : currentPreview?.entries ? (
+            <div className="space-y-2">
+              {currentPreview.entries.map((entry) => (
+                <PreviewEntry key={entry.index} entry={entry} />
+              ))}
+            </div>
+          ) : (
+            <div className="rounded-sm border divide-y">
+              {operations.map((operation, index) => (
+                <div key={index} className="flex items-center gap-2 px-2 py-1.5 text-xs">
+                  <span className="text-muted-foreground">#{index + 1}</span>
+                  <span className="font-medium">{operationLabels[operation.op]}</span>
+                  <span className="truncate font-mono">{operation.key}</span>
+                  {operation.keyEncoding === "hex" && <span className="text-muted-foreground">(hex)</span>}
+                  <span className="truncate text-muted-foreground">{describeOperation(operation)}</span>
+                  <Button
+                    size="icon-sm"
+                    variant="ghost"
+                    className="ml-auto"
+                    onClick={() => onOperationsChange(operations.filter((_, position) => position !== index))}
+                    title="Remove"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {operations.length > 0 && (
+            <div className="flex items-center justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={() => onOperationsChange([])} disabled={isApplying}>
+                Discard All
+              </Button>
+              {currentPreview ? (
+                <>
+                  <Button size="sm" variant="outline" onClick={() => setPreview(null)} disabled={isApplying}>
+                    Edit
+                  </Button>
+                  <Button size="sm" onClick={handleApply} disabled={isApplying || !currentPreview.valid}>
+                    {isApplying ? "Applying..." : `Apply ${operations.length} ${operations.length === 1 ? "Change" : "Changes"}`}
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" onClick={handlePreview} disabled={isPreviewing}>
+                  {isPreviewing ? "Loading preview..." : "Review"}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
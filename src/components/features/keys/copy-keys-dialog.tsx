@@ -0,0 +1,215 @@
+"use client"
+
+import { useState } from "react"
+import { useCopyRedisKeys } from "@/lib/api/hooks/redis"
+import { useConnections } from "@/lib/api/hooks/connections"
+import type { CopyKeysResponseDto, ListConnectionsResponseDto, RedisKey } from "@/types"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "@/lib/toast"
+
+const databases = Array.from({ length: 16 }, (_, index) => index)
+
+interface CopyKeysDialogProps {
+  connectionId: string
+  keys: RedisKey[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  database: number
+  onCopied?: () => void
+}
+
+export function CopyKeysDialog({
+  connectionId,
+  keys,
+  open,
+  onOpenChange,
+  database,
+  onCopied,
+}: CopyKeysDialogProps) {
+  const [mode, setMode] = useState<"copy" | "move">("copy")
+  const [targetConnectionId, setTargetConnectionId] = useState(connectionId)
+  const [targetDb, setTargetDb] = useState(database)
+  const [newKey, setNewKey] = useState("")
+  const [replace, setReplace] = useState(false)
+
+  const { data: connectionsData } = useConnections()
+  const connectionsGroup = (connectionsData?.data ?? (connectionsData as ListConnectionsResponseDto | undefined))?.connections
+  const connections = connectionsGroup ? [...(connectionsGroup.my || []), ...(connectionsGroup.shared || [])] : []
+  const { mutate: copyKeys, isPending } = useCopyRedisKeys(connectionId)
+
+  const single = keys.length === 1 ? keys[0] : undefined
+  const isCrossConnection = targetConnectionId !== connectionId
+  // Binary key names can only keep their name, the new name field takes UTF-8
+  const canRename = !!single && !single.keyHex
+  const targetName = canRename && newKey.trim() ? newKey.trim() : undefined
+  const isSameTarget = !isCrossConnection && targetDb === database && (!targetName || targetName === single?.key)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (isSameTarget) {
+      toast.fail("Pick another database, connection or key name")
+      return
+    }
+
+    copyKeys(
+      {
+        keys: keys.filter((key) => !key.keyHex).map((key) => key.key),
+        hexKeys: keys.filter((key) => key.keyHex).map((key) => key.keyHex!),
+        db: database,
+        mode,
+        targetConnectionId: isCrossConnection ? targetConnectionId : undefined,
+        targetDb,
+        newKey: targetName,
+        replace,
+      },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as CopyKeysResponseDto | undefined)
+          if (payload?.skipped?.length) {
+            toast.info(`${payload.message}. Enable overwrite to replace existing keys.`)
+          } else {
+            toast.success(payload?.message ?? (mode === "move" ? "Keys moved" : "Keys copied"))
+          }
+          onOpenChange(false)
+          setNewKey("")
+          onCopied?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to copy keys")
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{mode === "move" ? "Move" : "Copy"} {single ? "Key" : `${keys.length} Keys`}</DialogTitle>
+            <DialogDescription>
+              {single
+                ? `Copy or move "${single.key}" to another database or connection`
+                : "Copy or move the selected keys to another database or connection"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label>Operation</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as "copy" | "move")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="copy">Copy, keep the source</SelectItem>
+                  <SelectItem value="move">Move, delete the source</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-[1fr_110px] gap-2">
+              <div className="grid gap-2">
+                <Label>Target Connection</Label>
+                <Select value={targetConnectionId} onValueChange={setTargetConnectionId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {connections.map((connection) => (
+                      <SelectItem key={connection.id} value={connection.id}>
+                        {connection.name}
+                        {connection.id === connectionId ? " (this connection)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Database</Label>
+                <Select value={targetDb.toString()} onValueChange={(value) => setTargetDb(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {databases.map((db) => (
+                      <SelectItem key={db} value={db.toString()}>
+                        DB{db}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {canRename && (
+              <div className="grid gap-2">
+                <Label htmlFor="copyNewKey">Target Key Name</Label>
+                <Input
+                  id="copyNewKey"
+                  value={newKey}
+                  onChange={(e) => setNewKey(e.target.value)}
+                  placeholder={single?.key}
+                  className="font-mono"
+                />
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="copyReplace"
+                checked={replace}
+                onCheckedChange={(checked) => setReplace(checked === true)}
+              />
+              <Label htmlFor="copyReplace" className="text-sm font-normal">
+                Overwrite keys that already exist in the target
+              </Label>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {isCrossConnection
+                ? "Values are transferred with DUMP and RESTORE, keeping their TTL. Both servers need compatible Redis versions."
+                : mode === "move" && !replace && !targetName
+                ? "Keys are moved with MOVE."
+                : "Keys are copied with COPY, keeping their TTL (Redis 6.2 or later)."}
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || keys.length === 0 || isSameTarget}>
+              {isPending ? (mode === "move" ? "Moving..." : "Copying...") : mode === "move" ? "Move" : "Copy"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
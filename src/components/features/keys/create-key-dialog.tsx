@@ -1,8 +1,8 @@
 "use client"
 
 import { useState } from "react"
-import { useCreateRedisKey } from "@/lib/api/hooks/redis"
-import type { RedisDataType } from "@/types"
+import { useCreateRedisKey, useRedisModules } from "@/lib/api/hooks/redis"
+import type { ListModulesResponseDto, RedisDataType } from "@/types"
 
 import {
   Dialog,
@@ -26,7 +26,17 @@ import {
 import { Plus, FloppyDisk, X } from "@phosphor-icons/react"
 import { toast } from "@/lib/toast"
 
-const keyTypes: RedisDataType[] = ["string", "hash", "list", "set", "zset"]
+const keyTypes: RedisDataType[] = ["string", "hash", "list", "set", "zset", "hyperloglog"]
+
+// Module types, offered only when the module is loaded on the server
+const moduleKeyTypes: Array<{ type: RedisDataType; module: string }> = [
+  { type: "json", module: "ReJSON" },
+  { type: "timeseries", module: "timeseries" },
+  { type: "bloom", module: "bf" },
+  { type: "cuckoo", module: "bf" },
+  { type: "cms", module: "bf" },
+  { type: "topk", module: "bf" },
+]
 
 interface CreateKeyDialogProps {
   connectionId: string
@@ -43,6 +53,14 @@ export function CreateKeyDialog({ connectionId, database }: CreateKeyDialogProps
   const [ttl, setTtl] = useState<string>("")
 
   const { mutate: createKey, isPending } = useCreateRedisKey(connectionId)
+  const { data: modulesData } = useRedisModules(connectionId)
+  const modules = (modulesData?.data ?? (modulesData as ListModulesResponseDto | undefined))?.modules ?? []
+  const availableTypes = [
+    ...keyTypes,
+    ...moduleKeyTypes
+      .filter((moduleType) => modules.some((loaded) => loaded.name === moduleType.module))
+      .map((moduleType) => moduleType.type),
+  ]
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -78,6 +96,38 @@ export function CreateKeyDialog({ connectionId, database }: CreateKeyDialogProps
         toast.fail('Invalid JSON for zset value. Use format: [{"member": "value", "score": 1}]')
         return
       }
+    } else if (type === "json") {
+      // Sent as text, the server stores it with JSON.SET
+      try {
+        JSON.parse(value || "{}")
+        parsedValue = value || "{}"
+      } catch {
+        toast.fail('Invalid JSON document. Use format: {"field": "value"}')
+        return
+      }
+    } else if (type === "hyperloglog") {
+      try {
+        parsedValue = JSON.parse(value || "[]")
+      } catch {
+        toast.fail('Invalid JSON for HyperLogLog elements. Use format: ["user:1", "user:2"]')
+        return
+      }
+    } else if (type === "bloom" || type === "cuckoo" || type === "cms" || type === "topk") {
+      // Sizing options only, items are added from the editor
+      try {
+        parsedValue = JSON.parse(value || "{}")
+      } catch {
+        toast.fail(`Invalid options. Use format: ${getValuePlaceholder()}`)
+        return
+      }
+    } else if (type === "timeseries") {
+      // Only retention and labels, samples are added from the editor
+      try {
+        parsedValue = JSON.parse(value || "{}")
+      } catch {
+        toast.fail('Invalid time series options. Use format: {"retention": 86400000, "labels": {"sensor": "temp"}}')
+        return
+      }
     }
 
     createKey(
@@ -119,6 +169,20 @@ export function CreateKeyDialog({ connectionId, database }: CreateKeyDialogProps
         return '["item1", "item2"]'
       case "zset":
         return '[{"member": "value", "score": 1}]'
+      case "json":
+        return '{"name": "value", "tags": ["a", "b"]}'
+      case "timeseries":
+        return '{"retention": 86400000, "labels": {"sensor": "temp"}}'
+      case "hyperloglog":
+        return '["user:1", "user:2"]'
+      case "bloom":
+        return '{"errorRate": 0.01, "capacity": 1000}'
+      case "cuckoo":
+        return '{"capacity": 1000}'
+      case "cms":
+        return '{"width": 2000, "depth": 5}'
+      case "topk":
+        return '{"k": 10}'
       default:
         return "Enter value..."
     }
@@ -172,7 +236,7 @@ export function CreateKeyDialog({ connectionId, database }: CreateKeyDialogProps
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {keyTypes.map((t) => (
+                    {availableTypes.map((t) => (
                       <SelectItem key={t} value={t}>
                         {t.charAt(0).toUpperCase() + t.slice(1)}
                       </SelectItem>
@@ -17,6 +17,7 @@ import { toast } from "@/lib/toast"
 interface DeleteKeyDialogProps {
   connectionId: string
   keyName: string
+  keyHex?: string // Set for keys that are not valid UTF-8, keyName is then only for display
   open: boolean
   onOpenChange: (open: boolean) => void
   database: number
@@ -25,6 +26,7 @@ interface DeleteKeyDialogProps {
 export function DeleteKeyDialog({
   connectionId,
   keyName,
+  keyHex,
   open,
   onOpenChange,
   database,
@@ -32,7 +34,7 @@ export function DeleteKeyDialog({
   const { mutate: deleteKey, isPending } = useDeleteRedisKey(connectionId)
 
   const handleDelete = () => {
-    deleteKey({ key: keyName, db: database }, {
+    deleteKey({ key: keyHex ?? keyName, keyEncoding: keyHex ? "hex" : undefined, db: database }, {
       onSuccess: () => {
         toast.success("Key deleted successfully")
         onOpenChange(false)
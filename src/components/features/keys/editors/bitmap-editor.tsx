@@ -0,0 +1,200 @@
+"use client"
+
+import { useState } from "react"
+import { useBitmapPage, useFindBitmapBit, useSetBitmapBit } from "@/lib/api/hooks/redis"
+import type { BitmapPageResponseDto, BitmapPositionResponseDto } from "@/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { CaretLeft, CaretRight, MagnifyingGlass } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+// Whole bytes, so page offsets line up with the byte ranges the API reads
+const PAGE_BITS = 512
+const ROW_BITS = 32
+
+interface BitmapEditorProps {
+  connectionId: string
+  keyName: string
+  database: number
+  onUpdate?: () => void
+}
+
+export function BitmapEditor({ connectionId, keyName, database, onUpdate }: BitmapEditorProps) {
+  const [offset, setOffset] = useState(0)
+  const [jumpTo, setJumpTo] = useState("")
+  const [highlighted, setHighlighted] = useState<number | null>(null)
+
+  const { data, isLoading, error } = useBitmapPage(connectionId, keyName, { offset, count: PAGE_BITS, db: database })
+  const { mutate: setBit, isPending: isSetting } = useSetBitmapBit(connectionId, keyName, database)
+  const { mutate: findBit, isPending: isFinding } = useFindBitmapBit(connectionId, keyName)
+  const page = data?.data ?? (data as BitmapPageResponseDto | undefined)
+  const length = page?.length ?? 0
+  // Bits past the end of the value read as 0, SETBIT there grows the value
+  const bits = (page?.bits ?? "").padEnd(PAGE_BITS, "0")
+
+  const showBit = (position: number) => {
+    setOffset(Math.floor(position / PAGE_BITS) * PAGE_BITS)
+    setHighlighted(position)
+  }
+
+  const handleToggle = (position: number, current: boolean) => {
+    const value = current ? 0 : 1
+    setBit(
+      { offset: position, value, db: database },
+      {
+        onSuccess: () => {
+          setHighlighted(position)
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to set bit")
+        },
+      }
+    )
+  }
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault()
+    const position = Number(jumpTo)
+    if (!Number.isInteger(position) || position < 0) {
+      toast.fail("Offset must be a non-negative whole number")
+      return
+    }
+    showBit(position)
+  }
+
+  const handleFind = (bit: 0 | 1) => {
+    // The loaded page answers at bit precision, BITPOS only takes byte offsets
+    const start = highlighted !== null && highlighted >= offset ? highlighted + 1 : offset
+    const local = bits.indexOf(String(bit), start - offset)
+    if (local !== -1) {
+      showBit(offset + local)
+      return
+    }
+
+    findBit(
+      { bit, from: offset + PAGE_BITS, db: database },
+      {
+        onSuccess: (result) => {
+          const position = (result?.data ?? (result as BitmapPositionResponseDto | undefined))?.position ?? -1
+          if (position < 0) {
+            toast.info(`No bit set to ${bit} after offset ${offset + PAGE_BITS - 1}`)
+            return
+          }
+          showBit(position)
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to find bit")
+        },
+      }
+    )
+  }
+
+  const rows = Array.from({ length: PAGE_BITS / ROW_BITS }, (_, row) => row * ROW_BITS)
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+          <div className="text-[10px] uppercase tracking-wide text-muted-foreground">Bits</div>
+          <div className="font-semibold">{length.toLocaleString()}</div>
+        </div>
+        <div className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+          <div className="text-[10px] uppercase tracking-wide text-muted-foreground">Set bits</div>
+          <div className="font-semibold">{page?.bitCount?.toLocaleString() ?? "—"}</div>
+        </div>
+        <div className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+          <div className="text-[10px] uppercase tracking-wide text-muted-foreground">Selected</div>
+          <div className="font-semibold">{highlighted !== null ? highlighted.toLocaleString() : "—"}</div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <form onSubmit={handleJump} className="flex items-center gap-2">
+          <Input
+            value={jumpTo}
+            onChange={(e) => setJumpTo(e.target.value)}
+            inputMode="numeric"
+            placeholder="Bit offset"
+            className="h-8 w-32 text-xs"
+          />
+          <Button type="submit" size="sm" variant="outline" className="h-8" disabled={!jumpTo.trim()}>
+            Go
+          </Button>
+        </form>
+        <Button size="sm" variant="outline" className="h-8" onClick={() => handleFind(1)} disabled={isFinding}>
+          <MagnifyingGlass className="h-3.5 w-3.5 mr-1" />
+          Next 1
+        </Button>
+        <Button size="sm" variant="outline" className="h-8" onClick={() => handleFind(0)} disabled={isFinding}>
+          <MagnifyingGlass className="h-3.5 w-3.5 mr-1" />
+          Next 0
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-destructive">
+          {error instanceof Error ? error.message : "Failed to read bitmap"}
+        </p>
+      ) : isLoading ? (
+        <div className="p-6 text-center text-sm text-muted-foreground">Loading bits...</div>
+      ) : (
+        <div className="space-y-1 overflow-x-auto rounded-sm border p-3 font-mono text-[10px]">
+          {rows.map((rowStart) => (
+            <div key={rowStart} className="flex items-center gap-2">
+              <span className="w-16 shrink-0 text-right text-muted-foreground">{offset + rowStart}</span>
+              <div className="flex gap-0.5">
+                {Array.from({ length: ROW_BITS }, (_, i) => {
+                  const position = offset + rowStart + i
+                  const isSet = bits[rowStart + i] === "1"
+                  return (
+                    <button
+                      key={i}
+                      type="button"
+                      title={`Bit ${position}: ${isSet ? 1 : 0}`}
+                      onClick={() => handleToggle(position, isSet)}
+                      disabled={isSetting}
+                      className={cn(
+                        "h-4 w-4 rounded-[2px] border transition-colors",
+                        isSet ? "border-primary bg-primary" : "border-border bg-muted/30 hover:bg-muted",
+                        position >= length && "opacity-40",
+                        i % 8 === 0 && i > 0 && "ml-1",
+                        position === highlighted && "ring-2 ring-warning ring-offset-1 ring-offset-background"
+                      )}
+                    />
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          Bits {offset.toLocaleString()}–{(offset + PAGE_BITS - 1).toLocaleString()}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2"
+            onClick={() => setOffset((current) => Math.max(0, current - PAGE_BITS))}
+            disabled={offset === 0}
+          >
+            <CaretLeft className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2"
+            onClick={() => setOffset((current) => current + PAGE_BITS)}
+          >
+            <CaretRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
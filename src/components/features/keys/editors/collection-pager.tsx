@@ -0,0 +1,130 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { X } from "@phosphor-icons/react"
+import type { KeyEncoding } from "@/types"
+
+interface CollectionToolbarProps {
+  placeholder: string
+  match: string
+  onMatchChange: (match: string) => void
+  loaded: number
+  total?: number
+  noun: string
+}
+
+/**
+ * MATCH filter and loaded/total summary shown above the collection editors
+ */
+export function CollectionToolbar({
+  placeholder,
+  match,
+  onMatchChange,
+  loaded,
+  total,
+  noun,
+}: CollectionToolbarProps) {
+  const [draft, setDraft] = useState(match)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder={placeholder}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") onMatchChange(draft.trim())
+          }}
+          className="h-8 flex-1 text-xs font-mono"
+        />
+        {match && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            onClick={() => {
+              setDraft("")
+              onMatchChange("")
+            }}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+        <Button size="sm" variant="outline" className="h-8" onClick={() => onMatchChange(draft.trim())}>
+          Filter
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {match
+          ? `${loaded} matching ${noun} loaded`
+          : `Showing ${loaded} of ${total ?? loaded} ${noun}`}
+      </p>
+    </div>
+  )
+}
+
+interface LoadMoreSentinelProps {
+  hasMore: boolean
+  isFetching: boolean
+  onLoadMore: () => void
+}
+
+/**
+ * Loads the next page when scrolled into view, with a button as fallback
+ */
+export function LoadMoreSentinel({ hasMore, isFetching, onLoadMore }: LoadMoreSentinelProps) {
+  const ref = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || !hasMore || isFetching) {
+      return
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        onLoadMore()
+      }
+    })
+    observer.observe(element)
+
+    return () => observer.disconnect()
+  }, [hasMore, isFetching, onLoadMore])
+
+  if (!hasMore) {
+    return null
+  }
+
+  return (
+    <div ref={ref} className="flex justify-center py-1">
+      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => onLoadMore()} disabled={isFetching}>
+        {isFetching ? "Loading..." : "Load more"}
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Hex form of a string's UTF-8 bytes
+ */
+function utf8ToHex(text: string) {
+  return Array.from(new TextEncoder().encode(text), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Element encoding of an edit: hex as soon as one loaded element it touches is not valid UTF-8
+ */
+export function elementEncodingOf(...hexes: Array<string | undefined>): KeyEncoding | undefined {
+  return hexes.some((hex) => hex !== undefined) ? "hex" : undefined
+}
+
+/**
+ * Form of an element in an edit request: its bytes as hex for hex encoded edits, the text otherwise.
+ * Loaded elements pass their hex, text typed by the user is converted.
+ */
+export function toRequestElement(text: string, hex: string | undefined, encoding: KeyEncoding | undefined) {
+  return encoding === "hex" ? hex ?? utf8ToHex(text) : text
+}
@@ -0,0 +1,239 @@
+"use client"
+
+import { useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { ApiError } from "@/lib/api"
+import { useDecodedValue, useSetHashFields, useUpdateRedisKey } from "@/lib/api/hooks/redis"
+import { usePreferences } from "@/lib/api/hooks/preferences"
+import type { DecodedValueResponseDto, KeyEncoding, ValueCodec, ValueDecoder } from "@/types"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "@/lib/toast"
+
+const DECODER_OPTIONS: Array<{ value: ValueDecoder; label: string }> = [
+  { value: "auto", label: "Auto-detect" },
+  { value: "raw", label: "Raw text" },
+  { value: "json", label: "JSON" },
+  { value: "base64", label: "Base64" },
+  { value: "hex", label: "Hex" },
+  { value: "gzip", label: "Gzip" },
+  { value: "zlib", label: "Zlib" },
+  { value: "msgpack", label: "MessagePack" },
+  { value: "php", label: "PHP serialized" },
+  { value: "java", label: "Java serialized" },
+]
+
+const CODEC_LABELS: Record<ValueCodec, string> = {
+  text: "Text",
+  json: "JSON",
+  hex: "Hex",
+  base64: "Base64",
+  gzip: "Gzip",
+  zlib: "Zlib",
+  msgpack: "MessagePack",
+  php: "PHP",
+  java: "Java",
+}
+
+/**
+ * Human readable codec chain, e.g. "Base64 › Gzip › JSON"
+ */
+export function formatCodecs(codecs: ValueCodec[]) {
+  return codecs.map((codec) => CODEC_LABELS[codec]).join(" › ")
+}
+
+// The keyValueDisplay preference picks the decoder a value opens with
+const DISPLAY_DECODERS: Record<string, ValueDecoder> = {
+  raw: "raw",
+  formatted: "auto",
+  hex: "hex",
+}
+
+interface DecodedValueEditorProps {
+  connectionId: string
+  keyName: string
+  keyEncoding?: KeyEncoding // 'hex' when keyName holds the hex bytes of a non UTF-8 key
+  database: number
+  field?: string // Hash field, omit for string keys
+  fieldEncoding?: KeyEncoding // 'hex' when field holds the hex bytes of a non UTF-8 field name
+  version?: string // String keys: version from getKey, saves are rejected once the key changed since
+  onSaved?: () => void
+}
+
+/**
+ * Shows a string value or hash field through a decoder and saves edits
+ * re-encoded with the same codec chain
+ */
+export function DecodedValueEditor({
+  connectionId,
+  keyName,
+  keyEncoding,
+  database,
+  field,
+  fieldEncoding,
+  version,
+  onSaved,
+}: DecodedValueEditorProps) {
+  const queryClient = useQueryClient()
+  const { data: preferencesData } = usePreferences()
+  const preferences = preferencesData?.data ?? (preferencesData as { values?: Record<string, unknown> } | undefined)
+  const displayPreference = preferences?.values?.keyValueDisplay
+  const [selectedDecoder, setSelectedDecoder] = useState<ValueDecoder | null>(null)
+  const decoder = selectedDecoder ?? DISPLAY_DECODERS[String(displayPreference)] ?? "auto"
+
+  const { data, error, isLoading } = useDecodedValue(connectionId, keyName, {
+    field,
+    fieldEncoding,
+    decoder,
+    keyEncoding,
+    db: database,
+  })
+  const decoded = data?.data ?? (data as DecodedValueResponseDto | undefined)
+  const [draft, setDraft] = useState<string | null>(null)
+  const text = draft ?? decoded?.text ?? ""
+  const [isConflict, setIsConflict] = useState(false)
+
+  const { mutate: updateKey, isPending: isUpdating } = useUpdateRedisKey(connectionId, keyName, database)
+  const { mutate: setFields, isPending: isSetting } = useSetHashFields(connectionId, keyName, database)
+  const isPending = isUpdating || isSetting
+
+  const handleDecoderChange = (value: string) => {
+    setSelectedDecoder(value as ValueDecoder)
+    setDraft(null)
+  }
+
+  // Overwriting skips the version check and replaces whatever the key holds now
+  const handleSave = (overwrite = false) => {
+    if (draft === null || !decoded?.codecs) {
+      return
+    }
+
+    const callbacks = {
+      onSuccess: () => {
+        toast.success(field === undefined ? "Key updated" : "Field updated")
+        setDraft(null)
+        setIsConflict(false)
+        onSaved?.()
+      },
+      onError: (error: unknown) => {
+        if (error instanceof ApiError && error.status === 409) {
+          // Load the latest value and version, the draft stays in the editor
+          setIsConflict(true)
+          queryClient.invalidateQueries({ queryKey: ["redis", connectionId, "keys", keyName] })
+          return
+        }
+        toast.fail(error instanceof Error ? error.message : "Failed to save value")
+      },
+    }
+
+    if (field === undefined) {
+      updateKey(
+        { value: draft, codecs: decoded.codecs, version: overwrite ? undefined : version, keyEncoding, db: database },
+        callbacks
+      )
+    } else {
+      setFields(
+        { fields: { [field]: draft }, codecs: decoded.codecs, keyEncoding, elementEncoding: fieldEncoding, db: database },
+        callbacks
+      )
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={decoder} onValueChange={handleDecoderChange}>
+          <SelectTrigger size="sm" className="w-[160px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DECODER_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value} className="text-xs">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {decoded?.codecs && (
+          <Badge variant="outline" className="text-[10px] font-mono">
+            {formatCodecs(decoded.codecs)}
+          </Badge>
+        )}
+        {decoded && !decoded.editable && (
+          <span className="text-xs text-muted-foreground">Read-only in this view</span>
+        )}
+        <Button
+          size="sm"
+          className="ml-auto"
+          onClick={() => handleSave()}
+          disabled={isPending || draft === null || !decoded?.editable}
+        >
+          {isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+
+      {error ? (
+        <div className="rounded-sm border border-dashed border-destructive/40 p-4 text-xs text-destructive">
+          {error instanceof Error ? error.message : "Failed to decode value"}
+        </div>
+      ) : (
+        <Textarea
+          className="min-h-[240px] w-full rounded-sm p-3 font-mono text-xs"
+          value={text}
+          placeholder={isLoading ? "Decoding..." : undefined}
+          readOnly={!decoded?.editable}
+          onChange={(event) => setDraft(event.target.value)}
+        />
+      )}
+
+      <Dialog open={isConflict} onOpenChange={setIsConflict}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Key Changed</DialogTitle>
+            <DialogDescription>
+              Someone else saved this key after you opened it. Their value is shown below, your edit is still in the editor.
+              Keep editing to merge both by hand, reload to discard your edit, or overwrite their change.
+            </DialogDescription>
+          </DialogHeader>
+          <pre className="max-h-60 overflow-auto rounded-sm border bg-muted/30 p-3 font-mono text-xs whitespace-pre-wrap break-all">
+            {decoded?.text ?? "Loading latest value..."}
+          </pre>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConflict(false)} disabled={isPending}>
+              Keep Editing
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setDraft(null)
+                setIsConflict(false)
+              }}
+              disabled={isPending}
+            >
+              Reload Latest
+            </Button>
+            <Button variant="destructive" onClick={() => handleSave(true)} disabled={isPending}>
+              {isPending ? "Saving..." : "Overwrite"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
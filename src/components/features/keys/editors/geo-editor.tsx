@@ -0,0 +1,368 @@
+"use client"
+
+import { useState } from "react"
+import { useAddGeoMembers, useGeoMembers, useGeoSearch } from "@/lib/api/hooks/redis"
+import type {
+  ElementEditResponseDto,
+  GeoMember,
+  GeoMembersPageResponseDto,
+  GeoSearchQueryDto,
+  GeoSearchResponseDto,
+  GeoUnit,
+} from "@/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { CaretLeft, CaretRight, Crosshair, MagnifyingGlass, Plus } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+
+const PAGE_SIZE = 50
+
+const GEO_UNITS: GeoUnit[] = ["m", "km", "mi", "ft"]
+
+type CenterMode = "member" | "position"
+type AreaMode = "radius" | "box"
+
+interface GeoEditorProps {
+  connectionId: string
+  keyName: string
+  database: number
+  onUpdate?: () => void
+}
+
+function formatCoordinate(value: number) {
+  return Number.isFinite(value) ? value.toFixed(6) : "—"
+}
+
+function GeoMemberRows({ members, unit, onSearchAround }: {
+  members: GeoMember[]
+  unit?: GeoUnit
+  onSearchAround: (member: string) => void
+}) {
+  return (
+    <div className="divide-y rounded-sm border">
+      {members.map((entry) => (
+        <div key={entry.member} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+          <span className="flex-1 truncate font-mono" title={entry.member}>{entry.member}</span>
+          <span className="w-24 text-right font-mono text-muted-foreground">{formatCoordinate(entry.longitude)}</span>
+          <span className="w-24 text-right font-mono text-muted-foreground">{formatCoordinate(entry.latitude)}</span>
+          {entry.distance !== undefined && (
+            <span className="w-24 text-right font-semibold">
+              {entry.distance.toLocaleString()} {unit}
+            </span>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-1.5"
+            title="Search around this member"
+            onClick={() => onSearchAround(entry.member)}
+          >
+            <Crosshair className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function GeoEditor({ connectionId, keyName, database, onUpdate }: GeoEditorProps) {
+  const [offset, setOffset] = useState(0)
+  const [centerMode, setCenterMode] = useState<CenterMode>("member")
+  const [centerMember, setCenterMember] = useState("")
+  const [centerLongitude, setCenterLongitude] = useState("")
+  const [centerLatitude, setCenterLatitude] = useState("")
+  const [areaMode, setAreaMode] = useState<AreaMode>("radius")
+  const [radius, setRadius] = useState("10")
+  const [width, setWidth] = useState("10")
+  const [height, setHeight] = useState("10")
+  const [unit, setUnit] = useState<GeoUnit>("km")
+  const [search, setSearch] = useState<GeoSearchQueryDto | null>(null)
+  const [newMember, setNewMember] = useState("")
+  const [newLongitude, setNewLongitude] = useState("")
+  const [newLatitude, setNewLatitude] = useState("")
+
+  const { data, isLoading, error } = useGeoMembers(connectionId, keyName, { offset, count: PAGE_SIZE, db: database })
+  const searchQuery = useGeoSearch(connectionId, keyName, search)
+  const { mutate: addMembers, isPending: isAdding } = useAddGeoMembers(connectionId, keyName, database)
+  const page = data?.data ?? (data as GeoMembersPageResponseDto | undefined)
+  const members = page?.members ?? []
+  const total = page?.total ?? 0
+  const results = (searchQuery.data?.data ?? (searchQuery.data as GeoSearchResponseDto | undefined))?.members
+
+  const toArea = (): Pick<GeoSearchQueryDto, "radius" | "width" | "height"> | null => {
+    if (areaMode === "radius") {
+      const value = Number(radius)
+      return value > 0 ? { radius: value } : null
+    }
+    const boxWidth = Number(width)
+    const boxHeight = Number(height)
+    return boxWidth > 0 && boxHeight > 0 ? { width: boxWidth, height: boxHeight } : null
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    const area = toArea()
+    if (!area) {
+      toast.fail(areaMode === "radius" ? "Radius must be a positive number" : "Width and height must be positive numbers")
+      return
+    }
+
+    if (centerMode === "member") {
+      if (!centerMember.trim()) {
+        toast.fail("Center member is required")
+        return
+      }
+      setSearch({ member: centerMember.trim(), ...area, unit, db: database })
+      return
+    }
+
+    const longitude = Number(centerLongitude)
+    const latitude = Number(centerLatitude)
+    if (!centerLongitude.trim() || !centerLatitude.trim() || isNaN(longitude) || isNaN(latitude)) {
+      toast.fail("Longitude and latitude must be numbers")
+      return
+    }
+    setSearch({ longitude, latitude, ...area, unit, db: database })
+  }
+
+  const handleSearchAround = (member: string) => {
+    setCenterMode("member")
+    setCenterMember(member)
+    const area = toArea()
+    if (area) {
+      setSearch({ member, ...area, unit, db: database })
+    }
+  }
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    const longitude = Number(newLongitude)
+    const latitude = Number(newLatitude)
+    if (!newMember.trim()) {
+      toast.fail("Member value is required")
+      return
+    }
+    if (!newLongitude.trim() || !newLatitude.trim() || isNaN(longitude) || isNaN(latitude)) {
+      toast.fail("Longitude and latitude must be numbers")
+      return
+    }
+
+    // GEOADD adds the member or moves an existing one
+    addMembers(
+      { members: [{ member: newMember.trim(), longitude, latitude }], db: database },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as ElementEditResponseDto | undefined)
+          toast.success(payload?.affected ? "Member added" : "Member moved")
+          setNewMember("")
+          setNewLongitude("")
+          setNewLatitude("")
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to add geo member")
+        },
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-[11px] text-muted-foreground">
+        Scores of members added with GEOADD encode a position. Members added with ZADD show approximate or invalid coordinates.
+      </p>
+
+      <form onSubmit={handleAdd} className="grid gap-2 rounded-sm border p-3">
+        <p className="text-xs font-medium">Add or move a member</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={newMember}
+            onChange={(e) => setNewMember(e.target.value)}
+            placeholder="Member"
+            className="h-8 flex-1 min-w-[160px] font-mono text-xs"
+          />
+          <Input
+            value={newLongitude}
+            onChange={(e) => setNewLongitude(e.target.value)}
+            inputMode="decimal"
+            placeholder="Longitude"
+            className="h-8 w-28 text-xs"
+          />
+          <Input
+            value={newLatitude}
+            onChange={(e) => setNewLatitude(e.target.value)}
+            inputMode="decimal"
+            placeholder="Latitude"
+            className="h-8 w-28 text-xs"
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={isAdding}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add
+          </Button>
+        </div>
+      </form>
+
+      <form onSubmit={handleSearch} className="grid gap-2 rounded-sm border p-3">
+        <p className="text-xs font-medium">Search by distance</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={centerMode} onValueChange={(v) => setCenterMode(v as CenterMode)}>
+            <SelectTrigger size="sm" className="w-[130px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="member" className="text-xs">From member</SelectItem>
+              <SelectItem value="position" className="text-xs">From position</SelectItem>
+            </SelectContent>
+          </Select>
+          {centerMode === "member" ? (
+            <Input
+              value={centerMember}
+              onChange={(e) => setCenterMember(e.target.value)}
+              placeholder="Member"
+              className="h-8 flex-1 min-w-[160px] font-mono text-xs"
+            />
+          ) : (
+            <>
+              <Input
+                value={centerLongitude}
+                onChange={(e) => setCenterLongitude(e.target.value)}
+                inputMode="decimal"
+                placeholder="Longitude"
+                className="h-8 w-28 text-xs"
+              />
+              <Input
+                value={centerLatitude}
+                onChange={(e) => setCenterLatitude(e.target.value)}
+                inputMode="decimal"
+                placeholder="Latitude"
+                className="h-8 w-28 text-xs"
+              />
+            </>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={areaMode} onValueChange={(v) => setAreaMode(v as AreaMode)}>
+            <SelectTrigger size="sm" className="w-[130px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="radius" className="text-xs">Within radius</SelectItem>
+              <SelectItem value="box" className="text-xs">Within box</SelectItem>
+            </SelectContent>
+          </Select>
+          {areaMode === "radius" ? (
+            <Input
+              value={radius}
+              onChange={(e) => setRadius(e.target.value)}
+              inputMode="decimal"
+              placeholder="Radius"
+              className="h-8 w-24 text-xs"
+            />
+          ) : (
+            <>
+              <Input
+                value={width}
+                onChange={(e) => setWidth(e.target.value)}
+                inputMode="decimal"
+                placeholder="Width"
+                className="h-8 w-24 text-xs"
+              />
+              <Input
+                value={height}
+                onChange={(e) => setHeight(e.target.value)}
+                inputMode="decimal"
+                placeholder="Height"
+                className="h-8 w-24 text-xs"
+              />
+            </>
+          )}
+          <Select value={unit} onValueChange={(v) => setUnit(v as GeoUnit)}>
+            <SelectTrigger size="sm" className="w-[80px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GEO_UNITS.map((geoUnit) => (
+                <SelectItem key={geoUnit} value={geoUnit} className="text-xs">{geoUnit}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" size="sm" variant="outline" className="h-8">
+            <MagnifyingGlass className="h-3.5 w-3.5 mr-1" />
+            Search
+          </Button>
+          {search && (
+            <Button type="button" size="sm" variant="ghost" className="h-8 text-xs" onClick={() => setSearch(null)}>
+              Clear
+            </Button>
+          )}
+        </div>
+        {search && (
+          searchQuery.error ? (
+            <p className="text-xs text-destructive">
+              {searchQuery.error instanceof Error ? searchQuery.error.message : "Failed to search geo members"}
+            </p>
+          ) : searchQuery.isLoading ? (
+            <div className="p-3 text-center text-xs text-muted-foreground">Searching...</div>
+          ) : results && results.length === 0 ? (
+            <div className="p-3 text-center text-xs text-muted-foreground">No members in this area.</div>
+          ) : (
+            results && <GeoMemberRows members={results} unit={search.unit} onSearchAround={handleSearchAround} />
+          )
+        )}
+      </form>
+
+      {error ? (
+        <p className="text-xs text-destructive">
+          {error instanceof Error ? error.message : "Failed to read geo members"}
+        </p>
+      ) : isLoading ? (
+        <div className="p-6 text-center text-sm text-muted-foreground">Loading members...</div>
+      ) : members.length === 0 ? (
+        <div className="p-6 text-center text-sm text-muted-foreground">No members.</div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex items-center gap-3 px-3 text-[10px] uppercase tracking-wide text-muted-foreground">
+            <span className="flex-1">Member</span>
+            <span className="w-24 text-right">Longitude</span>
+            <span className="w-24 text-right">Latitude</span>
+            <span className="w-[30px]" />
+          </div>
+          <GeoMemberRows members={members} onSearchAround={handleSearchAround} />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {members.length > 0 ? `${offset + 1}–${offset + members.length} of ${total.toLocaleString()}` : ""}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2"
+            onClick={() => setOffset((current) => Math.max(0, current - PAGE_SIZE))}
+            disabled={offset === 0}
+          >
+            <CaretLeft className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2"
+            onClick={() => setOffset((current) => current + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total}
+          >
+            <CaretRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,27 +1,69 @@
 "use client"
 
-import { useState } from "react"
-import { useUpdateRedisKey } from "@/lib/api/hooks/redis"
+import { useMemo, useState } from "react"
+import { useDeleteHashFields, useHashFields, useRenameHashField, useSetHashFields } from "@/lib/api/hooks/redis"
+import type { ElementEditResponseDto, HashFieldsPageResponseDto, KeyEncoding, ValueCodec } from "@/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
 import { Pencil, Check, X } from "@phosphor-icons/react"
 import { toast } from "@/lib/toast"
+import { CollectionToolbar, LoadMoreSentinel, elementEncodingOf, toRequestElement } from "./collection-pager"
+import { DecodedValueEditor, formatCodecs } from "./decoded-value-editor"
+
+type HashField = NonNullable<HashFieldsPageResponseDto["fields"]>[number]
 
 interface HashEditorProps {
   connectionId: string
   keyName: string
+  keyEncoding?: KeyEncoding // 'hex' when keyName holds the hex bytes of a non UTF-8 key
   database: number
-  value: Record<string, string>
   onUpdate?: () => void
 }
 
-export function HashEditor({ connectionId, keyName, database, value, onUpdate }: HashEditorProps) {
-  const [fields, setFields] = useState<Record<string, string>>(() => value || {})
+export function HashEditor({ connectionId, keyName, keyEncoding, database, onUpdate }: HashEditorProps) {
+  const [match, setMatch] = useState("")
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useHashFields(connectionId, keyName, {
+    match: match || undefined,
+    keyEncoding,
+    db: database,
+  })
+  const firstPage = data?.pages[0]
+  const total = (firstPage?.data ?? (firstPage as HashFieldsPageResponseDto | undefined))?.total
+  // HSCAN may return a field more than once, keying by field name drops the duplicates.
+  // Fields that are not valid UTF-8 are keyed, and renamed, by their hex bytes.
+  const { fields, encodings } = useMemo(() => {
+    const loaded: Record<string, HashField> = {}
+    // Encoded values (gzip, MessagePack, ...) are edited through the decoder dialog
+    const encoded: Record<string, ValueCodec[]> = {}
+    for (const page of data?.pages ?? []) {
+      const result = page?.data ?? (page as HashFieldsPageResponseDto | undefined)
+      for (const entry of result?.fields ?? []) {
+        const id = entry.fieldHex ?? entry.field
+        loaded[id] = entry
+        if (entry.codecs) {
+          encoded[id] = entry.codecs
+        }
+      }
+    }
+    return { fields: loaded, encodings: encoded }
+  }, [data])
+  const [decodingField, setDecodingField] = useState<string | null>(null)
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
   const [newField, setNewField] = useState("")
   const [newValue, setNewValue] = useState("")
   const [editingField, setEditingField] = useState<string | null>(null)
   const [editFieldName, setEditFieldName] = useState("")
-  const { mutate: updateKey, isPending } = useUpdateRedisKey(connectionId, keyName, database)
+  const { mutate: setFields, isPending: isSetting } = useSetHashFields(connectionId, keyName, database)
+  const { mutate: deleteFields, isPending: isDeleting } = useDeleteHashFields(connectionId, keyName, database)
+  const { mutate: renameField } = useRenameHashField(connectionId, keyName, database)
+  const isPending = isSetting || isDeleting
 
   const handleAddField = () => {
     if (!newField.trim()) {
@@ -29,16 +71,17 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
       return
     }
 
-    if (fields[newField.trim()]) {
-      toast.fail("Field already exists")
-      return
-    }
-
-    const updatedFields = { ...fields, [newField.trim()]: newValue }
-    updateKey(
-      { value: updatedFields, db: database },
+    // HSETNX, the loaded page may not include an existing field with the same name
+    setFields(
+      { fields: { [newField.trim()]: newValue }, onlyIfNew: true, keyEncoding, db: database },
       {
-        onSuccess: () => {
+        onSuccess: (response) => {
+          const skipped = response?.data?.skipped ?? (response as ElementEditResponseDto | undefined)?.skipped
+          if (skipped?.length) {
+            toast.fail("Field already exists")
+            return
+          }
+
           toast.success("Field added")
           setNewField("")
           setNewValue("")
@@ -51,11 +94,18 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
     )
   }
 
-  const handleDeleteField = (field: string) => {
-    const updatedFields = { ...fields }
-    delete updatedFields[field]
-    updateKey(
-      { value: updatedFields, db: database },
+  const handleDeleteField = (id: string) => {
+    const { field, fieldHex, value, valueHex } = fields[id]
+    const elementEncoding = elementEncodingOf(fieldHex, valueHex)
+    const name = toRequestElement(field, fieldHex, elementEncoding)
+    deleteFields(
+      {
+        fields: [name],
+        expected: { [name]: toRequestElement(value, valueHex, elementEncoding) },
+        keyEncoding,
+        elementEncoding,
+        db: database,
+      },
       {
         onSuccess: () => {
           toast.success("Field deleted")
@@ -68,13 +118,32 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
     )
   }
 
-  const handleUpdateFieldValue = (field: string, fieldValue: string) => {
-    const updatedFields = { ...fields, [field]: fieldValue }
-    updateKey(
-      { value: updatedFields, db: database },
+  // Values that are not valid UTF-8 are read-only here, only the field name can need hex
+  const handleUpdateFieldValue = (id: string) => {
+    const fieldValue = drafts[id]
+    const { field, fieldHex, value } = fields[id]
+    if (fieldValue === undefined || fieldValue === value) {
+      return
+    }
+
+    const elementEncoding = elementEncodingOf(fieldHex)
+    const name = toRequestElement(field, fieldHex, elementEncoding)
+    setFields(
+      {
+        fields: { [name]: toRequestElement(fieldValue, undefined, elementEncoding) },
+        expected: { [name]: toRequestElement(value, undefined, elementEncoding) },
+        keyEncoding,
+        elementEncoding,
+        db: database,
+      },
       {
         onSuccess: () => {
           toast.success("Field updated")
+          setDrafts((current) => {
+            const next = { ...current }
+            delete next[id]
+            return next
+          })
           onUpdate?.()
         },
         onError: (error: unknown) => {
@@ -84,9 +153,9 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
     )
   }
 
-  const handleStartEditFieldName = (field: string) => {
-    setEditingField(field)
-    setEditFieldName(field)
+  const handleStartEditFieldName = (id: string) => {
+    setEditingField(id)
+    setEditFieldName(id)
   }
 
   const handleCancelEditFieldName = () => {
@@ -94,33 +163,29 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
     setEditFieldName("")
   }
 
-  const handleSaveFieldName = (oldField: string) => {
+  const handleSaveFieldName = (id: string) => {
     if (!editFieldName.trim()) {
       toast.fail("Field name cannot be empty")
       return
     }
 
-    if (editFieldName.trim() === oldField) {
+    if (editFieldName.trim() === id) {
       setEditingField(null)
       return
     }
 
-    if (fields[editFieldName.trim()]) {
-      toast.fail("Field name already exists")
-      return
-    }
-
-    const updatedFields: Record<string, string> = {}
-    Object.entries(fields).forEach(([key, val]) => {
-      if (key === oldField) {
-        updatedFields[editFieldName.trim()] = val
-      } else {
-        updatedFields[key] = val
-      }
-    })
-
-    updateKey(
-      { value: updatedFields, db: database },
+    // A field name that is not valid UTF-8 is edited as hex, the new name is then hex as well
+    const { field, fieldHex, value, valueHex } = fields[id]
+    const elementEncoding = elementEncodingOf(fieldHex, valueHex)
+    renameField(
+      {
+        field: toRequestElement(field, fieldHex, elementEncoding),
+        newField: fieldHex ? editFieldName.trim() : toRequestElement(editFieldName.trim(), undefined, elementEncoding),
+        expected: toRequestElement(value, valueHex, elementEncoding),
+        keyEncoding,
+        elementEncoding,
+        db: database,
+      },
       {
         onSuccess: () => {
           toast.success("Field renamed")
@@ -137,19 +202,34 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
 
   return (
     <div className="space-y-4">
+      <CollectionToolbar
+        placeholder="Filter fields (e.g. user:*)"
+        match={match}
+        onMatchChange={setMatch}
+        loaded={Object.keys(fields).length}
+        total={total}
+        noun="fields"
+      />
+
       <div className="space-y-2">
-        {Object.entries(fields).map(([field, fieldValue]) => (
-          <div key={field} className="rounded-sm border bg-muted/30 p-3 group">
+        {isLoading && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            Loading fields...
+          </div>
+        )}
+        {Object.entries(fields).map(([id, { field, fieldHex, value: fieldValue }]) => (
+          <div key={id} className="rounded-sm border bg-muted/30 p-3 group">
             <div className="flex items-center gap-2 mb-2">
-              {editingField === field ? (
+              {editingField === id ? (
                 <>
                   <Input
                     value={editFieldName}
                     onChange={(e) => setEditFieldName(e.target.value)}
                     className="h-7 text-xs font-mono flex-1"
+                    placeholder={fieldHex ? "Field bytes as hex" : undefined}
                     autoFocus
                     onKeyDown={(e) => {
-                      if (e.key === "Enter") handleSaveFieldName(field)
+                      if (e.key === "Enter") handleSaveFieldName(id)
                       if (e.key === "Escape") handleCancelEditFieldName()
                     }}
                   />
@@ -157,7 +237,7 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
                     size="sm"
                     variant="ghost"
                     className="h-7 w-7 p-0"
-                    onClick={() => handleSaveFieldName(field)}
+                    onClick={() => handleSaveFieldName(id)}
                   >
                     <Check className="h-4 w-4" />
                   </Button>
@@ -177,7 +257,7 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
                     size="sm"
                     variant="ghost"
                     className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100"
-                    onClick={() => handleStartEditFieldName(field)}
+                    onClick={() => handleStartEditFieldName(id)}
                   >
                     <Pencil className="h-3 w-3" />
                   </Button>
@@ -186,17 +266,28 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
             </div>
             <div className="flex items-center gap-2">
               <Input
-                value={fieldValue}
-                onChange={(e) => setFields({ ...fields, [field]: e.target.value })}
-                onBlur={() => handleUpdateFieldValue(field, fields[field])}
+                value={drafts[id] ?? fieldValue}
+                onChange={(e) => setDrafts({ ...drafts, [id]: e.target.value })}
+                onBlur={() => handleUpdateFieldValue(id)}
                 className="h-8 text-sm font-mono flex-1"
                 placeholder="Value"
+                readOnly={!!encodings[id]}
               />
+              {encodings[id] && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-8 px-2 text-[10px] font-mono"
+                  onClick={() => setDecodingField(id)}
+                >
+                  {formatCodecs(encodings[id])}
+                </Button>
+              )}
               <Button
                 size="sm"
                 variant="ghost"
                 className="h-8 px-2 text-destructive hover:text-destructive"
-                onClick={() => handleDeleteField(field)}
+                onClick={() => handleDeleteField(id)}
                 disabled={isPending}
               >
                 Delete
@@ -204,8 +295,34 @@ export function HashEditor({ connectionId, keyName, database, value, onUpdate }:
             </div>
           </div>
         ))}
+        <LoadMoreSentinel hasMore={!!hasNextPage} isFetching={isFetchingNextPage} onLoadMore={fetchNextPage} />
       </div>
 
+      <Dialog open={decodingField !== null} onOpenChange={(open) => !open && setDecodingField(null)}>
+        <DialogContent size="lg">
+          <DialogHeader>
+            <DialogTitle>Decoded Value</DialogTitle>
+            <DialogDescription className="font-mono break-all">
+              {decodingField !== null && fields[decodingField]?.field}
+            </DialogDescription>
+          </DialogHeader>
+          {decodingField !== null && (
+            <div className="p-6 pt-0">
+              <DecodedValueEditor
+                key={decodingField}
+                connectionId={connectionId}
+                keyName={keyName}
+                keyEncoding={keyEncoding}
+                database={database}
+                field={decodingField}
+                fieldEncoding={fields[decodingField]?.fieldHex ? "hex" : undefined}
+                onSaved={onUpdate}
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <div className="rounded-sm border bg-muted/30 p-3">
         <p className="text-xs text-muted-foreground mb-2">Add New Field</p>
         <div className="flex items-end gap-2">
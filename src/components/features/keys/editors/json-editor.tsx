@@ -0,0 +1,343 @@
+"use client"
+
+import { useState } from "react"
+import { useAppendJsonArray, useDeleteJsonPath, useJsonValue, useSetJsonValue } from "@/lib/api/hooks/redis"
+import type { JsonValueResponseDto } from "@/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { CaretDown, CaretRight, Check, Pencil, Plus, Trash, X } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+
+interface JsonEditorProps {
+  connectionId: string
+  keyName: string
+  database: number
+  onUpdate?: () => void
+}
+
+interface JsonActions {
+  isPending: boolean
+  onSet: (path: string, value: string, condition: "NX" | "XX" | undefined, onDone: () => void) => void
+  onAppend: (path: string, value: string, onDone: () => void) => void
+  onDelete: (path: string) => void
+}
+
+interface JsonNodeProps {
+  label: string
+  value: unknown
+  path: string
+  depth: number
+  actions: JsonActions
+}
+
+/**
+ * JSONPath of a child: dot notation for plain names, bracket notation otherwise
+ */
+function childPath(path: string, key: string | number) {
+  if (typeof key === "number") {
+    return `${path}[${key}]`
+  }
+
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === "object" && value !== null
+}
+
+function isValidJson(text: string) {
+  try {
+    JSON.parse(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getValueClass(value: unknown) {
+  switch (typeof value) {
+    case "string":
+      return "text-[#4ade80]"
+    case "number":
+      return "text-[#60a5fa]"
+    case "boolean":
+      return "text-[#c084fc]"
+    default:
+      return "text-muted-foreground"
+  }
+}
+
+function JsonNode({ label, value, path, depth, actions }: JsonNodeProps) {
+  const [expanded, setExpanded] = useState(depth < 2)
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState("")
+  const [adding, setAdding] = useState(false)
+  const [newName, setNewName] = useState("")
+  const [newValue, setNewValue] = useState("")
+  const container = isContainer(value)
+  const isArray = Array.isArray(value)
+  const entries: Array<[string | number, unknown]> = container
+    ? isArray
+      ? value.map((item, index) => [index, item])
+      : Object.entries(value)
+    : []
+  const indent = { paddingLeft: `${depth * 16 + 8}px` }
+
+  const handleStartEdit = () => {
+    setDraft(JSON.stringify(value, null, container ? 2 : undefined))
+    setEditing(true)
+  }
+
+  const handleSaveEdit = () => {
+    if (!isValidJson(draft)) {
+      toast.fail("Value must be valid JSON")
+      return
+    }
+
+    actions.onSet(path, draft, path === "$" ? undefined : "XX", () => setEditing(false))
+  }
+
+  const handleAdd = () => {
+    if (!isValidJson(newValue)) {
+      toast.fail("Value must be valid JSON")
+      return
+    }
+
+    const onDone = () => {
+      setAdding(false)
+      setNewName("")
+      setNewValue("")
+    }
+
+    if (isArray) {
+      actions.onAppend(path, newValue, onDone)
+      return
+    }
+
+    if (!newName) {
+      toast.fail("Property name is required")
+      return
+    }
+
+    actions.onSet(childPath(path, newName), newValue, "NX", onDone)
+  }
+
+  return (
+    <div>
+      <div className="group flex items-center gap-2 py-1 pr-2 text-xs hover:bg-muted/50" style={indent}>
+        {container ? (
+          <button type="button" className="shrink-0" onClick={() => setExpanded((prev) => !prev)}>
+            {expanded ? (
+              <CaretDown className="h-3 w-3 text-muted-foreground" />
+            ) : (
+              <CaretRight className="h-3 w-3 text-muted-foreground" />
+            )}
+          </button>
+        ) : (
+          <span className="w-3 shrink-0" />
+        )}
+        <span className="font-mono text-foreground/80">{label}</span>
+        {container ? (
+          <span className="text-muted-foreground">
+            {isArray ? `[${entries.length}]` : `{${entries.length}}`}
+          </span>
+        ) : (
+          !editing && (
+            <span className={`font-mono truncate ${getValueClass(value)}`}>{JSON.stringify(value)}</span>
+          )
+        )}
+        {!editing && (
+          <div className="ml-auto flex items-center gap-1 opacity-0 group-hover:opacity-100">
+            {container && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                title={isArray ? "Append item" : "Add property"}
+                onClick={() => {
+                  setExpanded(true)
+                  setAdding(true)
+                }}
+              >
+                <Plus className="h-3 w-3" />
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" className="h-6 w-6 p-0" title="Edit" onClick={handleStartEdit}>
+              <Pencil className="h-3 w-3" />
+            </Button>
+            {path !== "$" && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                title="Delete"
+                onClick={() => actions.onDelete(path)}
+                disabled={actions.isPending}
+              >
+                <Trash className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <div className="flex items-start gap-2 py-1 pr-2" style={{ paddingLeft: `${depth * 16 + 28}px` }}>
+          {container ? (
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="flex-1 min-h-[120px] font-mono text-xs"
+              autoFocus
+            />
+          ) : (
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="flex-1 h-8 text-sm font-mono"
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSaveEdit()
+                if (e.key === "Escape") setEditing(false)
+              }}
+            />
+          )}
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={handleSaveEdit} disabled={actions.isPending}>
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setEditing(false)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {container && expanded && (
+        <div>
+          {entries.map(([key, child]) => (
+            <JsonNode
+              key={`${path}-${key}`}
+              label={typeof key === "number" ? `[${key}]` : key}
+              value={child}
+              path={childPath(path, key)}
+              depth={depth + 1}
+              actions={actions}
+            />
+          ))}
+
+          {adding && (
+            <div className="flex items-center gap-2 py-1 pr-2" style={{ paddingLeft: `${depth * 16 + 28}px` }}>
+              {!isArray && (
+                <Input
+                  placeholder="Property"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  className="w-40 h-8 text-sm font-mono"
+                  autoFocus
+                />
+              )}
+              <Input
+                placeholder='JSON value, e.g. "text", 1, {}'
+                value={newValue}
+                onChange={(e) => setNewValue(e.target.value)}
+                className="flex-1 h-8 text-sm font-mono"
+                autoFocus={isArray}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAdd()
+                  if (e.key === "Escape") setAdding(false)
+                }}
+              />
+              <Button size="sm" className="h-8 px-3" onClick={handleAdd} disabled={actions.isPending || !newValue.trim()}>
+                {isArray ? "Append" : "Add"}
+              </Button>
+              <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setAdding(false)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Tree view of a RedisJSON document, every edit targets the JSONPath of the node
+ */
+export function JsonEditor({ connectionId, keyName, database, onUpdate }: JsonEditorProps) {
+  const { data, error, isLoading } = useJsonValue(connectionId, keyName, { db: database })
+  const jsonDocument = (data?.data ?? (data as JsonValueResponseDto | undefined))?.value
+  const { mutate: setValue, isPending: isSetting } = useSetJsonValue(connectionId, keyName, database)
+  const { mutate: appendValues, isPending: isAppending } = useAppendJsonArray(connectionId, keyName, database)
+  const { mutate: deletePath, isPending: isDeleting } = useDeleteJsonPath(connectionId, keyName, database)
+
+  const actions: JsonActions = {
+    isPending: isSetting || isAppending || isDeleting,
+    onSet: (path, value, condition, onDone) => {
+      setValue(
+        { path, value, condition, db: database },
+        {
+          onSuccess: () => {
+            toast.success("Value saved")
+            onDone()
+            onUpdate?.()
+          },
+          onError: (error: unknown) => {
+            toast.fail(error instanceof Error ? error.message : "Failed to save value")
+          },
+        }
+      )
+    },
+    onAppend: (path, value, onDone) => {
+      appendValues(
+        { path, values: [value], db: database },
+        {
+          onSuccess: () => {
+            toast.success("Item appended")
+            onDone()
+            onUpdate?.()
+          },
+          onError: (error: unknown) => {
+            toast.fail(error instanceof Error ? error.message : "Failed to append item")
+          },
+        }
+      )
+    },
+    onDelete: (path) => {
+      deletePath(
+        { path, db: database },
+        {
+          onSuccess: () => {
+            toast.success("Path deleted")
+            onUpdate?.()
+          },
+          onError: (error: unknown) => {
+            toast.fail(error instanceof Error ? error.message : "Failed to delete path")
+          },
+        }
+      )
+    },
+  }
+
+  if (isLoading) {
+    return (
+      <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+        Loading document...
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-sm border border-dashed border-destructive/40 p-4 text-xs text-destructive">
+        {error instanceof Error ? error.message : "Failed to load document"}
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-sm border bg-muted/30 py-1">
+      <JsonNode label="$" value={jsonDocument ?? null} path="$" depth={0} actions={actions} />
+    </div>
+  )
+}
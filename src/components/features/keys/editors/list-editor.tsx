@@ -1,26 +1,66 @@
 "use client"
 
-import { useState } from "react"
-import { useUpdateRedisKey } from "@/lib/api/hooks/redis"
+import { useMemo, useState } from "react"
+import {
+  useInsertListItem,
+  useListItems,
+  usePopListItems,
+  usePushListItems,
+  useRemoveListItems,
+  useSetListItem,
+} from "@/lib/api/hooks/redis"
+import type { ElementEditResponseDto, KeyEncoding, ListItemsPageResponseDto } from "@/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { Pencil, Check, X } from "@phosphor-icons/react"
 import { toast } from "@/lib/toast"
+import { CollectionToolbar, LoadMoreSentinel, elementEncodingOf } from "./collection-pager"
 
 interface ListEditorProps {
   connectionId: string
   keyName: string
+  keyEncoding?: KeyEncoding // 'hex' when keyName holds the hex bytes of a non UTF-8 key
   database: number
-  value: { items: string[] }
+  version?: string // Key version from getKey, edits that check no loaded element are rejected once the key changed since
   onUpdate?: () => void
 }
 
-export function ListEditor({ connectionId, keyName, database, value, onUpdate }: ListEditorProps) {
-  const [items, setItems] = useState<string[]>(() => value?.items || [])
+export function ListEditor({ connectionId, keyName, keyEncoding, database, version, onUpdate }: ListEditorProps) {
+  const [match, setMatch] = useState("")
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useListItems(connectionId, keyName, {
+    match: match || undefined,
+    keyEncoding,
+    db: database,
+  })
+  const firstPage = data?.pages[0]
+  const total = (firstPage?.data ?? (firstPage as ListItemsPageResponseDto | undefined))?.total
+  const loadedItems = useMemo(
+    () =>
+      (data?.pages ?? []).flatMap(
+        (page) => (page?.data ?? (page as ListItemsPageResponseDto | undefined))?.items ?? []
+      ),
+    [data]
+  )
   const [newItem, setNewItem] = useState("")
+  const [newItemPosition, setNewItemPosition] = useState<"head" | "tail">("tail")
+  const [insertPivot, setInsertPivot] = useState("")
+  const [insertPosition, setInsertPosition] = useState<"BEFORE" | "AFTER">("AFTER")
+  const [insertValue, setInsertValue] = useState("")
   const [editingIndex, setEditingIndex] = useState<number | null>(null)
   const [editValue, setEditValue] = useState("")
-  const { mutate: updateKey, isPending } = useUpdateRedisKey(connectionId, keyName, database)
+  const { mutate: pushItems, isPending: isPushing } = usePushListItems(connectionId, keyName, database)
+  const { mutate: popItems, isPending: isPopping } = usePopListItems(connectionId, keyName, database)
+  const { mutate: setItem, isPending: isSetting } = useSetListItem(connectionId, keyName, database)
+  const { mutate: insertItem, isPending: isInserting } = useInsertListItem(connectionId, keyName, database)
+  const { mutate: removeItems, isPending: isRemoving } = useRemoveListItems(connectionId, keyName, database)
+  const isPending = isPushing || isPopping || isSetting || isInserting || isRemoving
 
   const handleAddItem = () => {
     if (!newItem.trim()) {
@@ -28,13 +68,11 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
       return
     }
 
-    const updatedItems = [...items, newItem.trim()]
-    updateKey(
-      { value: updatedItems, db: database },
+    pushItems(
+      { values: [newItem.trim()], position: newItemPosition, keyEncoding, db: database },
       {
         onSuccess: () => {
           toast.success("Item added")
-          setItems(updatedItems)
           setNewItem("")
           onUpdate?.()
         },
@@ -45,14 +83,50 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
     )
   }
 
-  const handleDeleteItem = (index: number) => {
-    const updatedItems = items.filter((_, i) => i !== index)
-    updateKey(
-      { value: updatedItems, db: database },
+  const handlePopItem = (position: "head" | "tail") => {
+    popItems(
+      { position, version, keyEncoding, db: database },
+      {
+        onSuccess: (response) => {
+          const popped = response?.data?.values ?? (response as ElementEditResponseDto | undefined)?.values
+          toast.success(popped?.length ? `Popped "${popped[0]}"` : "List is empty")
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to pop item")
+        },
+      }
+    )
+  }
+
+  const handleInsertItem = () => {
+    if (!insertPivot || !insertValue.trim()) {
+      toast.fail("Pivot and value are required")
+      return
+    }
+
+    insertItem(
+      { pivot: insertPivot, position: insertPosition, value: insertValue.trim(), version, keyEncoding, db: database },
+      {
+        onSuccess: () => {
+          toast.success("Item inserted")
+          setInsertValue("")
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to insert item")
+        },
+      }
+    )
+  }
+
+  // Items that are not valid UTF-8 are sent, and edited, as hex
+  const handleDeleteItem = (index: number, item: string, itemHex?: string) => {
+    removeItems(
+      { index, value: itemHex ?? item, keyEncoding, elementEncoding: elementEncodingOf(itemHex), db: database },
       {
         onSuccess: () => {
           toast.success("Item deleted")
-          setItems(updatedItems)
           onUpdate?.()
         },
         onError: (error: unknown) => {
@@ -62,9 +136,9 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
     )
   }
 
-  const handleStartEdit = (index: number) => {
+  const handleStartEdit = (index: number, item: string, itemHex?: string) => {
     setEditingIndex(index)
-    setEditValue(items[index])
+    setEditValue(itemHex ?? item)
   }
 
   const handleCancelEdit = () => {
@@ -72,25 +146,29 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
     setEditValue("")
   }
 
-  const handleSaveEdit = (index: number) => {
+  const handleSaveEdit = (index: number, item: string, itemHex?: string) => {
     if (!editValue.trim()) {
       toast.fail("Item value cannot be empty")
       return
     }
 
-    if (editValue.trim() === items[index]) {
+    if (editValue.trim() === (itemHex ?? item)) {
       setEditingIndex(null)
       return
     }
 
-    const updatedItems = [...items]
-    updatedItems[index] = editValue.trim()
-    updateKey(
-      { value: updatedItems, db: database },
+    setItem(
+      {
+        index,
+        value: editValue.trim(),
+        expected: itemHex ?? item,
+        keyEncoding,
+        elementEncoding: elementEncodingOf(itemHex),
+        db: database,
+      },
       {
         onSuccess: () => {
           toast.success("Item updated")
-          setItems(updatedItems)
           setEditingIndex(null)
           setEditValue("")
           onUpdate?.()
@@ -104,8 +182,22 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
 
   return (
     <div className="space-y-4">
+      <CollectionToolbar
+        placeholder="Filter items (e.g. *error*)"
+        match={match}
+        onMatchChange={setMatch}
+        loaded={loadedItems.length}
+        total={total}
+        noun="items"
+      />
+
       <div className="space-y-2">
-        {items.map((item, index) => (
+        {isLoading && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            Loading items...
+          </div>
+        )}
+        {loadedItems.map(({ index, value: item, valueHex: itemHex }) => (
           <div key={`${index}-${item}`} className="flex items-center gap-2 rounded-sm border bg-muted/30 p-2 group">
             <span className="text-xs text-muted-foreground w-8 shrink-0">#{index}</span>
             
@@ -115,9 +207,10 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
                   value={editValue}
                   onChange={(e) => setEditValue(e.target.value)}
                   className="flex-1 h-8 text-sm font-mono"
+                  placeholder={itemHex ? "Item bytes as hex" : undefined}
                   autoFocus
                   onKeyDown={(e) => {
-                    if (e.key === "Enter") handleSaveEdit(index)
+                    if (e.key === "Enter") handleSaveEdit(index, item, itemHex)
                     if (e.key === "Escape") handleCancelEdit()
                   }}
                 />
@@ -125,7 +218,7 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
                   size="sm"
                   variant="ghost"
                   className="h-8 w-8 p-0"
-                  onClick={() => handleSaveEdit(index)}
+                  onClick={() => handleSaveEdit(index, item, itemHex)}
                 >
                   <Check className="h-4 w-4" />
                 </Button>
@@ -149,7 +242,7 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
                   size="sm"
                   variant="ghost"
                   className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100"
-                  onClick={() => handleStartEdit(index)}
+                  onClick={() => handleStartEdit(index, item, itemHex)}
                 >
                   <Pencil className="h-3 w-3" />
                 </Button>
@@ -157,7 +250,7 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
                   size="sm"
                   variant="ghost"
                   className="h-8 px-2 text-destructive hover:text-destructive"
-                  onClick={() => handleDeleteItem(index)}
+                  onClick={() => handleDeleteItem(index, item, itemHex)}
                   disabled={isPending}
                 >
                   Delete
@@ -166,11 +259,43 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
             )}
           </div>
         ))}
+        <LoadMoreSentinel hasMore={!!hasNextPage} isFetching={isFetchingNextPage} onLoadMore={fetchNextPage} />
       </div>
 
       <div className="rounded-sm border bg-muted/30 p-3">
-        <p className="text-xs text-muted-foreground mb-2">Add New Item</p>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-xs text-muted-foreground">Add New Item</p>
+          <div className="flex items-center gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              onClick={() => handlePopItem("head")}
+              disabled={isPending || !total}
+            >
+              Pop head
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              onClick={() => handlePopItem("tail")}
+              disabled={isPending || !total}
+            >
+              Pop tail
+            </Button>
+          </div>
+        </div>
         <div className="flex items-center gap-2">
+          <Select value={newItemPosition} onValueChange={(value) => setNewItemPosition(value as "head" | "tail")}>
+            <SelectTrigger size="sm" className="w-[110px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="head" className="text-xs">Head</SelectItem>
+              <SelectItem value="tail" className="text-xs">Tail</SelectItem>
+            </SelectContent>
+          </Select>
           <Input
             placeholder="Item value..."
             value={newItem}
@@ -187,6 +312,42 @@ export function ListEditor({ connectionId, keyName, database, value, onUpdate }:
           </Button>
         </div>
       </div>
+
+      <div className="rounded-sm border bg-muted/30 p-3">
+        <p className="text-xs text-muted-foreground mb-2">Insert Next To Item (LINSERT)</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={insertPosition} onValueChange={(value) => setInsertPosition(value as "BEFORE" | "AFTER")}>
+            <SelectTrigger size="sm" className="w-[110px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="BEFORE" className="text-xs">Before</SelectItem>
+              <SelectItem value="AFTER" className="text-xs">After</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Pivot item"
+            value={insertPivot}
+            onChange={(e) => setInsertPivot(e.target.value)}
+            className="flex-1 min-w-[140px] h-8 text-sm font-mono"
+          />
+          <Input
+            placeholder="New item"
+            value={insertValue}
+            onChange={(e) => setInsertValue(e.target.value)}
+            className="flex-1 min-w-[140px] h-8 text-sm font-mono"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 px-3"
+            onClick={handleInsertItem}
+            disabled={isPending || !insertPivot || !insertValue.trim()}
+          >
+            Insert
+          </Button>
+        </div>
+      </div>
     </div>
   )
 }
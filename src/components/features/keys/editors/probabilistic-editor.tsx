@@ -0,0 +1,281 @@
+"use client"
+
+import { useState } from "react"
+import {
+  useAddProbabilisticItems,
+  useDeleteCuckooItems,
+  useMergeHyperLogLogs,
+  useProbabilisticQuery,
+} from "@/lib/api/hooks/redis"
+import type {
+  ElementEditResponseDto,
+  ProbabilisticDataType,
+  ProbabilisticQueryDto,
+  ProbabilisticQueryResponseDto,
+  ProbabilisticValue,
+} from "@/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { CheckCircle, MagnifyingGlass, Plus, Trash, XCircle } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+
+interface ProbabilisticEditorProps {
+  connectionId: string
+  keyName: string
+  database: number
+  type: ProbabilisticDataType
+  value?: ProbabilisticValue
+  onUpdate?: () => void
+}
+
+const lookupHints: Record<ProbabilisticDataType, string> = {
+  hyperloglog: "",
+  bloom: "Checks whether items may have been added. False positives are possible, false negatives are not.",
+  cuckoo: "Checks whether items may have been added. False positives are possible, false negatives are not.",
+  cms: "Estimates how often each item was counted. Estimates never undercount.",
+  topk: "Checks whether items are currently in the top list.",
+}
+
+// One item per line, blank lines ignored
+function parseItems(text: string) {
+  return text
+    .split("\n")
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+function formatInfoValue(value: number | string) {
+  return typeof value === "number" ? value.toLocaleString() : value
+}
+
+export function ProbabilisticEditor({ connectionId, keyName, database, type, value, onUpdate }: ProbabilisticEditorProps) {
+  const [itemsText, setItemsText] = useState("")
+  const [increment, setIncrement] = useState("1")
+  const [lookupText, setLookupText] = useState("")
+  const [lookup, setLookup] = useState<ProbabilisticQueryDto | null>(null)
+  const [sources, setSources] = useState("")
+
+  const { mutate: addItems, isPending: isAdding } = useAddProbabilisticItems(connectionId, keyName, database)
+  const { mutate: deleteItems, isPending: isDeleting } = useDeleteCuckooItems(connectionId, keyName, database)
+  const { mutate: mergeSources, isPending: isMerging } = useMergeHyperLogLogs(connectionId, keyName, database)
+  const lookupQuery = useProbabilisticQuery(connectionId, keyName, lookup)
+  const lookupResults = (lookupQuery.data?.data ?? (lookupQuery.data as ProbabilisticQueryResponseDto | undefined))?.results
+
+  const items = parseItems(itemsText)
+
+  const handleAdd = () => {
+    const count = Number(increment)
+    if (type === "cms" && (!Number.isInteger(count) || count < 1)) {
+      toast.fail("Increment must be a positive whole number")
+      return
+    }
+
+    addItems(
+      {
+        items,
+        increments: type === "cms" ? items.map(() => count) : undefined,
+        db: database,
+      },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as ElementEditResponseDto | undefined)
+          if (type === "bloom") {
+            toast.success(`${payload?.affected ?? 0} of ${items.length} items were new`)
+          } else if (type === "topk" && payload?.values?.length) {
+            toast.info(`Added, pushed out of the top list: ${payload.values.join(", ")}`)
+          } else {
+            toast.success(`${items.length} items added`)
+          }
+          setItemsText("")
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to add items")
+        },
+      }
+    )
+  }
+
+  const handleDelete = () => {
+    deleteItems(
+      { items, db: database },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as ElementEditResponseDto | undefined)
+          toast.success(`${payload?.affected ?? 0} of ${items.length} items deleted`)
+          setItemsText("")
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to delete items")
+        },
+      }
+    )
+  }
+
+  const handleMerge = () => {
+    const sourceKeys = sources
+      .split(/[\n,]/)
+      .map((source) => source.trim())
+      .filter(Boolean)
+
+    mergeSources(
+      { sources: sourceKeys, db: database },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as ElementEditResponseDto | undefined)
+          toast.success(`Merged, estimated count is now ${payload?.length?.toLocaleString() ?? "unknown"}`)
+          setSources("")
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to merge HyperLogLogs")
+        },
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {value && (
+        <div className="grid grid-cols-2 gap-2 text-xs md:grid-cols-3">
+          {Object.entries(value.info).map(([name, infoValue]) => (
+            <div key={name} className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+              <div className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                {type === "hyperloglog" ? "Estimated count" : name}
+              </div>
+              <div className="font-semibold">{formatInfoValue(infoValue)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {type === "topk" && value?.topItems && (
+        <div className="rounded-sm border">
+          <div className="border-b px-3 py-2 text-xs font-medium">Top items</div>
+          {value.topItems.length === 0 ? (
+            <div className="p-3 text-center text-xs text-muted-foreground">No items counted yet.</div>
+          ) : (
+            <div className="divide-y">
+              {value.topItems.map((entry, index) => (
+                <div key={entry.item} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                  <span className="w-6 text-muted-foreground">{index + 1}</span>
+                  <span className="flex-1 truncate font-mono">{entry.item}</span>
+                  <span className="font-semibold">{entry.count.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-2 rounded-sm border p-3">
+        <p className="text-xs font-medium">
+          {type === "cms" ? "Count items" : type === "cuckoo" ? "Add or delete items" : "Add items"}
+        </p>
+        <Textarea
+          value={itemsText}
+          onChange={(e) => setItemsText(e.target.value)}
+          placeholder="One item per line"
+          className="min-h-[80px] font-mono text-xs"
+        />
+        <div className="flex items-center gap-2">
+          {type === "cms" && (
+            <Input
+              value={increment}
+              onChange={(e) => setIncrement(e.target.value)}
+              inputMode="numeric"
+              className="h-8 w-24 text-xs"
+              title="Increment per item"
+            />
+          )}
+          <Button size="sm" className="h-8" onClick={handleAdd} disabled={isAdding || items.length === 0}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            {type === "cms" ? "Increment" : "Add"}
+          </Button>
+          {type === "cuckoo" && (
+            <Button
+              size="sm"
+              variant="destructive"
+              className="h-8"
+              onClick={handleDelete}
+              disabled={isDeleting || items.length === 0}
+            >
+              <Trash className="h-3.5 w-3.5 mr-1" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {type === "hyperloglog" ? (
+        <div className="grid gap-2 rounded-sm border p-3">
+          <p className="text-xs font-medium">Merge HyperLogLogs into this key</p>
+          <div className="flex items-center gap-2">
+            <Input
+              value={sources}
+              onChange={(e) => setSources(e.target.value)}
+              placeholder="visitors:2024-01, visitors:2024-02"
+              className="h-8 flex-1 font-mono text-xs"
+            />
+            <Button size="sm" variant="outline" className="h-8" onClick={handleMerge} disabled={isMerging || !sources.trim()}>
+              Merge
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-2 rounded-sm border p-3">
+          <p className="text-xs font-medium">Look up items</p>
+          <p className="text-[11px] text-muted-foreground">{lookupHints[type]}</p>
+          <div className="flex items-start gap-2">
+            <Textarea
+              value={lookupText}
+              onChange={(e) => setLookupText(e.target.value)}
+              placeholder="One item per line"
+              className="min-h-[60px] flex-1 font-mono text-xs"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8"
+              onClick={() => setLookup({ items: parseItems(lookupText), db: database })}
+              disabled={parseItems(lookupText).length === 0}
+            >
+              <MagnifyingGlass className="h-3.5 w-3.5 mr-1" />
+              Check
+            </Button>
+          </div>
+          {lookupQuery.error ? (
+            <p className="text-xs text-destructive">
+              {lookupQuery.error instanceof Error ? lookupQuery.error.message : "Failed to look up items"}
+            </p>
+          ) : (
+            lookupResults && (
+              <div className="divide-y rounded-sm border">
+                {lookupResults.map((result) => (
+                  <div key={result.item} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                    <span className="flex-1 truncate font-mono">{result.item}</span>
+                    {result.count !== undefined ? (
+                      <span className="font-semibold">{result.count.toLocaleString()}</span>
+                    ) : result.exists ? (
+                      <span className="flex items-center gap-1 text-success">
+                        <CheckCircle className="h-3.5 w-3.5" />
+                        {type === "topk" ? "In top list" : "Possibly present"}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-muted-foreground">
+                        <XCircle className="h-3.5 w-3.5" />
+                        {type === "topk" ? "Not in top list" : "Not present"}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
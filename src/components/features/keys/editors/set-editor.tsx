@@ -1,26 +1,49 @@
 "use client"
 
-import { useState } from "react"
-import { useUpdateRedisKey } from "@/lib/api/hooks/redis"
+import { useMemo, useState } from "react"
+import { useAddSetMembers, useRemoveSetMembers, useRenameSetMember, useSetMembers } from "@/lib/api/hooks/redis"
+import type { ElementEditResponseDto, KeyEncoding, SetMembersPageResponseDto } from "@/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Pencil, Check, X } from "@phosphor-icons/react"
 import { toast } from "@/lib/toast"
+import { CollectionToolbar, LoadMoreSentinel, elementEncodingOf } from "./collection-pager"
 
 interface SetEditorProps {
   connectionId: string
   keyName: string
+  keyEncoding?: KeyEncoding // 'hex' when keyName holds the hex bytes of a non UTF-8 key
   database: number
-  value: { members: string[] }
+  version?: string // Key version from getKey, edits that check no loaded element are rejected once the key changed since
   onUpdate?: () => void
 }
 
-export function SetEditor({ connectionId, keyName, database, value, onUpdate }: SetEditorProps) {
-  const [members, setMembers] = useState<string[]>(() => value?.members || [])
+export function SetEditor({ connectionId, keyName, keyEncoding, database, version, onUpdate }: SetEditorProps) {
+  const [match, setMatch] = useState("")
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useSetMembers(connectionId, keyName, {
+    match: match || undefined,
+    keyEncoding,
+    db: database,
+  })
+  const firstPage = data?.pages[0]
+  const total = (firstPage?.data ?? (firstPage as SetMembersPageResponseDto | undefined))?.total
+  // SSCAN may return a member more than once, members that are not valid UTF-8 are keyed and edited as hex
+  const members = useMemo(() => {
+    const loaded = new Map<string, { member: string; memberHex?: string }>()
+    for (const page of data?.pages ?? []) {
+      for (const entry of (page?.data ?? (page as SetMembersPageResponseDto | undefined))?.members ?? []) {
+        loaded.set(entry.memberHex ?? entry.member, entry)
+      }
+    }
+    return Array.from(loaded.values())
+  }, [data])
   const [newMember, setNewMember] = useState("")
   const [editingIndex, setEditingIndex] = useState<number | null>(null)
   const [editValue, setEditValue] = useState("")
-  const { mutate: updateKey, isPending } = useUpdateRedisKey(connectionId, keyName, database)
+  const { mutate: addMembers, isPending: isAdding } = useAddSetMembers(connectionId, keyName, database)
+  const { mutate: removeMembers, isPending: isRemoving } = useRemoveSetMembers(connectionId, keyName, database)
+  const { mutate: renameMember } = useRenameSetMember(connectionId, keyName, database)
+  const isPending = isAdding || isRemoving
 
   const handleAddMember = () => {
     if (!newMember.trim()) {
@@ -28,18 +51,17 @@ export function SetEditor({ connectionId, keyName, database, value, onUpdate }:
       return
     }
 
-    if (members.includes(newMember.trim())) {
-      toast.fail("Member already exists")
-      return
-    }
-
-    const updatedMembers = [...members, newMember.trim()]
-    updateKey(
-      { value: updatedMembers, db: database },
+    addMembers(
+      { members: [newMember.trim()], keyEncoding, db: database },
       {
-        onSuccess: () => {
+        onSuccess: (response) => {
+          const added = response?.data?.affected ?? (response as ElementEditResponseDto | undefined)?.affected
+          if (added === 0) {
+            toast.fail("Member already exists")
+            return
+          }
+
           toast.success("Member added")
-          setMembers(updatedMembers)
           setNewMember("")
           onUpdate?.()
         },
@@ -50,14 +72,12 @@ export function SetEditor({ connectionId, keyName, database, value, onUpdate }:
     )
   }
 
-  const handleDeleteMember = (member: string) => {
-    const updatedMembers = members.filter((m) => m !== member)
-    updateKey(
-      { value: updatedMembers, db: database },
+  const handleDeleteMember = ({ member, memberHex }: { member: string; memberHex?: string }) => {
+    removeMembers(
+      { members: [memberHex ?? member], version, keyEncoding, elementEncoding: elementEncodingOf(memberHex), db: database },
       {
         onSuccess: () => {
           toast.success("Member deleted")
-          setMembers(updatedMembers)
           onUpdate?.()
         },
         onError: (error: unknown) => {
@@ -69,7 +89,7 @@ export function SetEditor({ connectionId, keyName, database, value, onUpdate }:
 
   const handleStartEdit = (index: number) => {
     setEditingIndex(index)
-    setEditValue(members[index])
+    setEditValue(members[index].memberHex ?? members[index].member)
   }
 
   const handleCancelEdit = () => {
@@ -83,24 +103,24 @@ export function SetEditor({ connectionId, keyName, database, value, onUpdate }:
       return
     }
 
-    if (editValue.trim() === members[index]) {
+    const { member, memberHex } = members[index]
+    if (editValue.trim() === (memberHex ?? member)) {
       setEditingIndex(null)
       return
     }
 
-    if (members.includes(editValue.trim())) {
-      toast.fail("Member already exists")
-      return
-    }
-
-    const updatedMembers = [...members]
-    updatedMembers[index] = editValue.trim()
-    updateKey(
-      { value: updatedMembers, db: database },
+    // A member that is not valid UTF-8 is edited as hex, the new member is then hex as well
+    renameMember(
+      {
+        member: memberHex ?? member,
+        newMember: editValue.trim(),
+        keyEncoding,
+        elementEncoding: elementEncodingOf(memberHex),
+        db: database,
+      },
       {
         onSuccess: () => {
           toast.success("Member updated")
-          setMembers(updatedMembers)
           setEditingIndex(null)
           setEditValue("")
           onUpdate?.()
@@ -114,15 +134,30 @@ export function SetEditor({ connectionId, keyName, database, value, onUpdate }:
 
   return (
     <div className="space-y-4">
+      <CollectionToolbar
+        placeholder="Filter members (e.g. tag:*)"
+        match={match}
+        onMatchChange={setMatch}
+        loaded={members.length}
+        total={total}
+        noun="members"
+      />
+
       <div className="space-y-2">
-        {members.map((member, index) => (
-          <div key={`${member}-${index}`} className="flex items-center gap-2 rounded-sm border bg-muted/30 p-2 group">
+        {isLoading && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            Loading members...
+          </div>
+        )}
+        {members.map(({ member, memberHex }, index) => (
+          <div key={`${memberHex ?? member}-${index}`} className="flex items-center gap-2 rounded-sm border bg-muted/30 p-2 group">
             {editingIndex === index ? (
               <>
                 <Input
                   value={editValue}
                   onChange={(e) => setEditValue(e.target.value)}
                   className="flex-1 h-8 text-sm font-mono"
+                  placeholder={memberHex ? "Member bytes as hex" : undefined}
                   autoFocus
                   onKeyDown={(e) => {
                     if (e.key === "Enter") handleSaveEdit(index)
@@ -165,7 +200,7 @@ export function SetEditor({ connectionId, keyName, database, value, onUpdate }:
                   size="sm"
                   variant="ghost"
                   className="h-8 px-2 text-destructive hover:text-destructive"
-                  onClick={() => handleDeleteMember(member)}
+                  onClick={() => handleDeleteMember({ member, memberHex })}
                   disabled={isPending}
                 >
                   Delete
@@ -174,6 +209,7 @@ export function SetEditor({ connectionId, keyName, database, value, onUpdate }:
             )}
           </div>
         ))}
+        <LoadMoreSentinel hasMore={!!hasNextPage} isFetching={isFetchingNextPage} onLoadMore={fetchNextPage} />
       </div>
 
       <div className="rounded-sm border bg-muted/30 p-3">
@@ -0,0 +1,393 @@
+"use client"
+
+import { useState } from "react"
+import {
+  useAddStreamEntry,
+  useDeleteStreamEntries,
+  useStreamEntries,
+  useTrimStream,
+} from "@/lib/api/hooks/redis"
+import type { StreamRangeResponseDto } from "@/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { CaretLeft, CaretRight, Plus, X } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+
+const PAGE_SIZE = 50
+
+interface StreamEditorProps {
+  connectionId: string
+  keyName: string
+  database: number
+  onUpdate?: () => void
+}
+
+interface FieldRow {
+  field: string
+  value: string
+}
+
+export function StreamEditor({ connectionId, keyName, database, onUpdate }: StreamEditorProps) {
+  const [reverse, setReverse] = useState(false)
+  // Start IDs of every page visited so far, the last one is the current page
+  const [pageStarts, setPageStarts] = useState<Array<string | undefined>>([undefined])
+  const [jumpToId, setJumpToId] = useState("")
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const [newEntryId, setNewEntryId] = useState("")
+  const [newFields, setNewFields] = useState<FieldRow[]>([{ field: "", value: "" }])
+  const [newMaxLen, setNewMaxLen] = useState("")
+
+  const [trimStrategy, setTrimStrategy] = useState<"MAXLEN" | "MINID">("MAXLEN")
+  const [trimThreshold, setTrimThreshold] = useState("")
+  const [trimApproximate, setTrimApproximate] = useState(true)
+
+  const currentStart = pageStarts[pageStarts.length - 1]
+  const { data, isLoading, isFetching } = useStreamEntries(connectionId, keyName, {
+    start: currentStart,
+    count: PAGE_SIZE,
+    reverse,
+    db: database,
+  })
+  const page: StreamRangeResponseDto | undefined =
+    data?.data ?? (data as StreamRangeResponseDto | undefined)
+  const entries = page?.entries || []
+
+  const { mutate: addEntry, isPending: isAdding } = useAddStreamEntry(connectionId, keyName, database)
+  const { mutate: deleteEntries, isPending: isDeleting } = useDeleteStreamEntries(connectionId, keyName, database)
+  const { mutate: trim, isPending: isTrimming } = useTrimStream(connectionId, keyName, database)
+
+  const resetPaging = (start?: string) => {
+    setPageStarts([start])
+    setSelectedIds([])
+  }
+
+  const handleToggleOrder = (value: string) => {
+    setReverse(value === "newest")
+    resetPaging()
+  }
+
+  const handleJump = () => {
+    resetPaging(jumpToId.trim() || undefined)
+  }
+
+  const handleNextPage = () => {
+    if (!page?.nextId) {
+      return
+    }
+
+    setPageStarts([...pageStarts, page.nextId])
+    setSelectedIds([])
+  }
+
+  const handlePreviousPage = () => {
+    if (pageStarts.length <= 1) {
+      return
+    }
+
+    setPageStarts(pageStarts.slice(0, -1))
+    setSelectedIds([])
+  }
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id))
+  }
+
+  const handleDelete = (ids: string[]) => {
+    if (ids.length === 0) {
+      return
+    }
+
+    deleteEntries(
+      { ids, db: database },
+      {
+        onSuccess: () => {
+          toast.success(ids.length === 1 ? "Entry deleted" : `${ids.length} entries deleted`)
+          setSelectedIds([])
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to delete entries")
+        },
+      }
+    )
+  }
+
+  const updateFieldRow = (index: number, patch: Partial<FieldRow>) => {
+    setNewFields(newFields.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+  }
+
+  const handleAddEntry = () => {
+    const fields: Record<string, string> = {}
+    for (const row of newFields) {
+      if (!row.field.trim()) {
+        continue
+      }
+      fields[row.field.trim()] = row.value
+    }
+
+    if (Object.keys(fields).length === 0) {
+      toast.fail("At least one field is required")
+      return
+    }
+
+    const maxLen = newMaxLen.trim() === "" ? undefined : parseInt(newMaxLen, 10)
+    if (maxLen !== undefined && (isNaN(maxLen) || maxLen < 0)) {
+      toast.fail("MAXLEN must be a non-negative number")
+      return
+    }
+
+    addEntry(
+      { id: newEntryId.trim() || undefined, fields, maxLen, db: database },
+      {
+        onSuccess: (response) => {
+          const entryId = response?.data?.id ?? (response as { id?: string } | undefined)?.id
+          toast.success(entryId ? `Entry ${entryId} added` : "Entry added")
+          setNewEntryId("")
+          setNewFields([{ field: "", value: "" }])
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to add entry")
+        },
+      }
+    )
+  }
+
+  const handleTrim = () => {
+    if (!trimThreshold.trim()) {
+      toast.fail("Trim threshold is required")
+      return
+    }
+
+    trim(
+      { strategy: trimStrategy, threshold: trimThreshold.trim(), approximate: trimApproximate, db: database },
+      {
+        onSuccess: (response) => {
+          const trimmed = response?.data?.trimmed ?? (response as { trimmed?: number } | undefined)?.trimmed
+          toast.success(`Trimmed ${trimmed ?? 0} entries`)
+          setTrimThreshold("")
+          resetPaging()
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to trim stream")
+        },
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={reverse ? "newest" : "oldest"} onValueChange={handleToggleOrder}>
+          <SelectTrigger size="sm" className="w-[140px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="oldest" className="text-xs">Oldest first</SelectItem>
+            <SelectItem value="newest" className="text-xs">Newest first</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Start at ID (e.g. 1700000000000-0)"
+          value={jumpToId}
+          onChange={(e) => setJumpToId(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleJump()
+          }}
+          className="h-8 flex-1 min-w-[200px] text-xs font-mono"
+        />
+        <Button size="sm" variant="outline" className="h-8" onClick={handleJump}>
+          Go
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {page?.total ?? 0} entries
+          {page?.firstId && page?.lastId && (
+            <span className="font-mono"> · {page.firstId} → {page.lastId}</span>
+          )}
+        </span>
+        <div className="flex items-center gap-2">
+          {selectedIds.length > 0 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-destructive hover:text-destructive"
+              onClick={() => handleDelete(selectedIds)}
+              disabled={isDeleting}
+            >
+              Delete {selectedIds.length} selected
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 w-7 p-0"
+            onClick={handlePreviousPage}
+            disabled={pageStarts.length <= 1 || isFetching}
+          >
+            <CaretLeft className="h-3.5 w-3.5" />
+          </Button>
+          <span className="tabular-nums">Page {pageStarts.length}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 w-7 p-0"
+            onClick={handleNextPage}
+            disabled={!page?.hasMore || isFetching}
+          >
+            <CaretRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {isLoading && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            Loading entries...
+          </div>
+        )}
+        {!isLoading && entries.length === 0 && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            No entries in this range.
+          </div>
+        )}
+        {entries.map((entry) => (
+          <div key={entry.id} className="rounded-sm border bg-muted/30 p-3 group">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={selectedIds.includes(entry.id)}
+                onCheckedChange={(checked) => toggleSelected(entry.id, checked === true)}
+              />
+              <p className="text-xs font-medium text-muted-foreground font-mono flex-1">ID {entry.id}</p>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-destructive hover:text-destructive opacity-0 group-hover:opacity-100"
+                onClick={() => handleDelete([entry.id])}
+                disabled={isDeleting}
+              >
+                Delete
+              </Button>
+            </div>
+            <div className="mt-2 space-y-1">
+              {Object.entries(entry.fields || {}).map(([field, fieldValue]) => (
+                <div key={`${entry.id}-${field}`} className="flex items-start justify-between gap-3 text-xs font-mono">
+                  <span className="break-all">{field}</span>
+                  <span className="break-all text-muted-foreground">{fieldValue}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-sm border bg-muted/30 p-3 space-y-2">
+        <p className="text-xs text-muted-foreground">Add Entry (XADD)</p>
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="ID (default *)"
+            value={newEntryId}
+            onChange={(e) => setNewEntryId(e.target.value)}
+            className="h-8 flex-1 text-sm font-mono"
+          />
+          <Input
+            type="number"
+            placeholder="MAXLEN ~ (optional)"
+            value={newMaxLen}
+            onChange={(e) => setNewMaxLen(e.target.value)}
+            className="h-8 w-44 text-sm font-mono"
+            min={0}
+          />
+        </div>
+        {newFields.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              placeholder="Field"
+              value={row.field}
+              onChange={(e) => updateFieldRow(index, { field: e.target.value })}
+              className="h-8 flex-1 text-sm font-mono"
+            />
+            <Input
+              placeholder="Value"
+              value={row.value}
+              onChange={(e) => updateFieldRow(index, { value: e.target.value })}
+              className="h-8 flex-1 text-sm font-mono"
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0"
+              onClick={() => setNewFields(newFields.filter((_, i) => i !== index))}
+              disabled={newFields.length === 1}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => setNewFields([...newFields, { field: "", value: "" }])}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Field
+          </Button>
+          <Button size="sm" className="h-8 px-3" onClick={handleAddEntry} disabled={isAdding}>
+            {isAdding ? "Adding..." : "Add Entry"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-sm border bg-muted/30 p-3">
+        <p className="text-xs text-muted-foreground mb-2">Trim Stream (XTRIM)</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={trimStrategy} onValueChange={(value) => setTrimStrategy(value as "MAXLEN" | "MINID")}>
+            <SelectTrigger size="sm" className="w-[110px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="MAXLEN" className="text-xs">MAXLEN</SelectItem>
+              <SelectItem value="MINID" className="text-xs">MINID</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder={trimStrategy === "MAXLEN" ? "Max entries to keep" : "Lowest ID to keep"}
+            value={trimThreshold}
+            onChange={(e) => setTrimThreshold(e.target.value)}
+            className="h-8 flex-1 min-w-[160px] text-sm font-mono"
+          />
+          <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Checkbox
+              checked={trimApproximate}
+              onCheckedChange={(checked) => setTrimApproximate(checked === true)}
+            />
+            Approximate (~)
+          </label>
+          <Button
+            size="sm"
+            variant="destructive"
+            className="h-8 px-3"
+            onClick={handleTrim}
+            disabled={isTrimming || !trimThreshold.trim()}
+          >
+            {isTrimming ? "Trimming..." : "Trim"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
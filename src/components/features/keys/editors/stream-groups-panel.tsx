@@ -0,0 +1,572 @@
+"use client"
+
+import { useState } from "react"
+import {
+  useAckStreamEntries,
+  useClaimStreamEntries,
+  useCreateStreamGroup,
+  useDestroyStreamGroup,
+  useSetStreamGroupId,
+  useStreamConsumers,
+  useStreamGroups,
+  useStreamPending,
+} from "@/lib/api/hooks/redis"
+import type {
+  ListStreamConsumersResponseDto,
+  ListStreamGroupsResponseDto,
+  StreamConsumerGroup,
+  StreamPendingResponseDto,
+} from "@/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { CaretLeft, CaretRight } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+const PAGE_SIZE = 50
+const ALL_CONSUMERS = "__all__"
+
+interface StreamGroupsPanelProps {
+  connectionId: string
+  keyName: string
+  database: number
+  onUpdate?: () => void
+}
+
+function formatIdle(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+  if (ms < 3_600_000) return `${Math.floor(ms / 60_000)}m`
+  return `${Math.floor(ms / 3_600_000)}h`
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback
+}
+
+export function StreamGroupsPanel({ connectionId, keyName, database, onUpdate }: StreamGroupsPanelProps) {
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null)
+  const [newGroupName, setNewGroupName] = useState("")
+  const [newGroupId, setNewGroupId] = useState("$")
+
+  const { data, isLoading } = useStreamGroups(connectionId, keyName, database)
+  const groupsResponse: ListStreamGroupsResponseDto | undefined =
+    data?.data ?? (data as ListStreamGroupsResponseDto | undefined)
+  const groups = groupsResponse?.groups || []
+  const activeGroup = groups.find((group) => group.name === selectedGroup) ?? groups[0]
+
+  const { mutate: createGroup, isPending: isCreating } = useCreateStreamGroup(connectionId, keyName, database)
+  const { mutate: destroyGroup, isPending: isDestroying } = useDestroyStreamGroup(connectionId, keyName, database)
+
+  const handleCreateGroup = () => {
+    const group = newGroupName.trim()
+    if (!group) {
+      toast.fail("Group name is required")
+      return
+    }
+
+    createGroup(
+      { group, id: newGroupId.trim() || "$", db: database },
+      {
+        onSuccess: () => {
+          toast.success(`Consumer group ${group} created`)
+          setNewGroupName("")
+          setNewGroupId("$")
+          setSelectedGroup(group)
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(errorMessage(error, "Failed to create consumer group"))
+        },
+      }
+    )
+  }
+
+  const handleDestroyGroup = (group: string) => {
+    destroyGroup(group, {
+      onSuccess: () => {
+        toast.success(`Consumer group ${group} destroyed`)
+        setSelectedGroup(null)
+        onUpdate?.()
+      },
+      onError: (error: unknown) => {
+        toast.fail(errorMessage(error, "Failed to destroy consumer group"))
+      },
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {isLoading && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            Loading consumer groups...
+          </div>
+        )}
+        {!isLoading && groups.length === 0 && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            This stream has no consumer groups.
+          </div>
+        )}
+        {groups.map((group) => (
+          <button
+            key={group.name}
+            type="button"
+            onClick={() => setSelectedGroup(group.name)}
+            className={cn(
+              "w-full rounded-sm border bg-muted/30 p-3 text-left transition-colors hover:bg-muted/60",
+              activeGroup?.name === group.name && "border-primary/50 bg-muted/60"
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium font-mono break-all">{group.name}</span>
+              <div className="flex items-center gap-1.5">
+                <Badge variant="outline" className="text-xs">{group.consumers} consumers</Badge>
+                <Badge variant={group.pending > 0 ? "secondary" : "outline"} className="text-xs">
+                  {group.pending} pending
+                </Badge>
+                {group.lag !== undefined && (
+                  <Badge variant="outline" className="text-xs">lag {group.lag}</Badge>
+                )}
+              </div>
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground font-mono">
+              Last delivered {group.lastDeliveredId}
+              {group.entriesRead !== undefined && ` · ${group.entriesRead} read`}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {activeGroup && (
+        <StreamGroupDetails
+          key={`${activeGroup.name}-${database}`}
+          connectionId={connectionId}
+          keyName={keyName}
+          database={database}
+          group={activeGroup}
+          onDestroy={() => handleDestroyGroup(activeGroup.name)}
+          isDestroying={isDestroying}
+          onUpdate={onUpdate}
+        />
+      )}
+
+      <div className="rounded-sm border bg-muted/30 p-3">
+        <p className="text-xs text-muted-foreground mb-2">Create Group (XGROUP CREATE)</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="Group name"
+            value={newGroupName}
+            onChange={(e) => setNewGroupName(e.target.value)}
+            className="h-8 flex-1 min-w-[160px] text-sm font-mono"
+          />
+          <Input
+            placeholder="Start ID ($ = new entries, 0 = all)"
+            value={newGroupId}
+            onChange={(e) => setNewGroupId(e.target.value)}
+            className="h-8 w-56 text-sm font-mono"
+          />
+          <Button size="sm" className="h-8 px-3" onClick={handleCreateGroup} disabled={isCreating}>
+            {isCreating ? "Creating..." : "Create"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface StreamGroupDetailsProps {
+  connectionId: string
+  keyName: string
+  database: number
+  group: StreamConsumerGroup
+  onDestroy: () => void
+  isDestroying: boolean
+  onUpdate?: () => void
+}
+
+function StreamGroupDetails({
+  connectionId,
+  keyName,
+  database,
+  group,
+  onDestroy,
+  isDestroying,
+  onUpdate,
+}: StreamGroupDetailsProps) {
+  const [confirmDestroy, setConfirmDestroy] = useState(false)
+  const [consumerFilter, setConsumerFilter] = useState(ALL_CONSUMERS)
+  const [minIdle, setMinIdle] = useState("")
+  // Start IDs of every page visited so far, the last one is the current page
+  const [pageStarts, setPageStarts] = useState<Array<string | undefined>>([undefined])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const [setIdValue, setSetIdValue] = useState("")
+  const [claimConsumer, setClaimConsumer] = useState("")
+  const [claimMinIdle, setClaimMinIdle] = useState("60000")
+
+  const parsedMinIdle = minIdle.trim() === "" ? undefined : parseInt(minIdle, 10)
+  const currentStart = pageStarts[pageStarts.length - 1]
+
+  const { data: consumersData } = useStreamConsumers(connectionId, keyName, group.name, database)
+  const consumersResponse: ListStreamConsumersResponseDto | undefined =
+    consumersData?.data ?? (consumersData as ListStreamConsumersResponseDto | undefined)
+  const consumers = consumersResponse?.consumers || []
+
+  const { data: pendingData, isLoading: isPendingLoading, isFetching } = useStreamPending(
+    connectionId,
+    keyName,
+    group.name,
+    {
+      consumer: consumerFilter === ALL_CONSUMERS ? undefined : consumerFilter,
+      start: currentStart,
+      count: PAGE_SIZE,
+      minIdle: parsedMinIdle !== undefined && !isNaN(parsedMinIdle) ? parsedMinIdle : undefined,
+      db: database,
+    }
+  )
+  const pending: StreamPendingResponseDto | undefined =
+    pendingData?.data ?? (pendingData as StreamPendingResponseDto | undefined)
+  const pendingEntries = pending?.entries || []
+
+  const { mutate: setGroupId, isPending: isSettingId } = useSetStreamGroupId(connectionId, keyName, database)
+  const { mutate: ackEntries, isPending: isAcking } = useAckStreamEntries(connectionId, keyName, database)
+  const { mutate: claimEntries, isPending: isClaiming } = useClaimStreamEntries(connectionId, keyName, database)
+
+  const resetPaging = () => {
+    setPageStarts([undefined])
+    setSelectedIds([])
+  }
+
+  const handleNextPage = () => {
+    if (!pending?.nextId) {
+      return
+    }
+
+    setPageStarts([...pageStarts, pending.nextId])
+    setSelectedIds([])
+  }
+
+  const handlePreviousPage = () => {
+    if (pageStarts.length <= 1) {
+      return
+    }
+
+    setPageStarts(pageStarts.slice(0, -1))
+    setSelectedIds([])
+  }
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id))
+  }
+
+  const handleAck = (ids: string[]) => {
+    if (ids.length === 0) {
+      return
+    }
+
+    ackEntries(
+      { group: group.name, data: { ids, db: database } },
+      {
+        onSuccess: (response) => {
+          const acknowledged =
+            response?.data?.acknowledged ?? (response as { acknowledged?: number } | undefined)?.acknowledged
+          toast.success(`Acknowledged ${acknowledged ?? 0} entries`)
+          setSelectedIds([])
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(errorMessage(error, "Failed to acknowledge entries"))
+        },
+      }
+    )
+  }
+
+  const handleClaim = (ids?: string[]) => {
+    const consumer = claimConsumer.trim()
+    if (!consumer) {
+      toast.fail("Target consumer is required")
+      return
+    }
+
+    const minIdleTime = parseInt(claimMinIdle, 10)
+    if (isNaN(minIdleTime) || minIdleTime < 0) {
+      toast.fail("Min idle time must be a non-negative number")
+      return
+    }
+
+    claimEntries(
+      { group: group.name, data: { consumer, minIdleTime, ids, db: database } },
+      {
+        onSuccess: (response) => {
+          const claimed = response?.data?.claimed ?? (response as { claimed?: string[] } | undefined)?.claimed
+          toast.success(`Claimed ${claimed?.length ?? 0} entries for ${consumer}`)
+          setSelectedIds([])
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(errorMessage(error, "Failed to claim entries"))
+        },
+      }
+    )
+  }
+
+  const handleSetId = () => {
+    const id = setIdValue.trim()
+    if (!id) {
+      toast.fail("ID is required")
+      return
+    }
+
+    setGroupId(
+      { group: group.name, data: { id, db: database } },
+      {
+        onSuccess: () => {
+          toast.success(`Last delivered ID of ${group.name} set to ${id}`)
+          setSetIdValue("")
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(errorMessage(error, "Failed to set group ID"))
+        },
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-4 rounded-sm border p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">
+          Group <span className="font-mono">{group.name}</span>
+        </p>
+        {confirmDestroy ? (
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-muted-foreground">Pending entries will be lost.</span>
+            <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => setConfirmDestroy(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" variant="destructive" className="h-7 px-2" onClick={onDestroy} disabled={isDestroying}>
+              {isDestroying ? "Destroying..." : "Confirm"}
+            </Button>
+          </div>
+        ) : (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2 text-destructive hover:text-destructive"
+            onClick={() => setConfirmDestroy(true)}
+          >
+            Destroy Group
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">Consumers</p>
+        {consumers.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No consumers have read from this group yet.</p>
+        ) : (
+          <div className="rounded-sm border divide-y">
+            {consumers.map((consumer) => (
+              <div key={consumer.name} className="flex items-center justify-between gap-3 px-3 py-1.5 text-xs">
+                <span className="font-mono break-all">{consumer.name}</span>
+                <span className="text-muted-foreground tabular-nums whitespace-nowrap">
+                  {consumer.pending} pending · idle {formatIdle(consumer.idle)}
+                  {consumer.inactive !== undefined && consumer.inactive >= 0 && (
+                    <> · inactive {formatIdle(consumer.inactive)}</>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-xs text-muted-foreground flex-1">
+            Pending entries
+            {pending?.summary && (
+              <span className="font-mono">
+                {" "}· {pending.summary.count} total
+                {pending.summary.minId && pending.summary.maxId && ` · ${pending.summary.minId} → ${pending.summary.maxId}`}
+              </span>
+            )}
+          </p>
+          <Select
+            value={consumerFilter}
+            onValueChange={(value) => {
+              setConsumerFilter(value)
+              resetPaging()
+            }}
+          >
+            <SelectTrigger size="sm" className="w-[160px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CONSUMERS} className="text-xs">All consumers</SelectItem>
+              {consumers.map((consumer) => (
+                <SelectItem key={consumer.name} value={consumer.name} className="text-xs">
+                  {consumer.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            placeholder="Min idle (ms)"
+            value={minIdle}
+            onChange={(e) => {
+              setMinIdle(e.target.value)
+              resetPaging()
+            }}
+            className="h-8 w-32 text-xs font-mono"
+            min={0}
+          />
+        </div>
+
+        <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+          {selectedIds.length > 0 && (
+            <>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2"
+                onClick={() => handleAck(selectedIds)}
+                disabled={isAcking}
+              >
+                Ack {selectedIds.length} selected
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2"
+                onClick={() => handleClaim(selectedIds)}
+                disabled={isClaiming}
+              >
+                Claim {selectedIds.length} selected
+              </Button>
+            </>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 w-7 p-0"
+            onClick={handlePreviousPage}
+            disabled={pageStarts.length <= 1 || isFetching}
+          >
+            <CaretLeft className="h-3.5 w-3.5" />
+          </Button>
+          <span className="tabular-nums">Page {pageStarts.length}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 w-7 p-0"
+            onClick={handleNextPage}
+            disabled={!pending?.hasMore || isFetching}
+          >
+            <CaretRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+
+        {isPendingLoading && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            Loading pending entries...
+          </div>
+        )}
+        {!isPendingLoading && pendingEntries.length === 0 && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            No pending entries.
+          </div>
+        )}
+        {pendingEntries.length > 0 && (
+          <div className="rounded-sm border divide-y">
+            {pendingEntries.map((entry) => (
+              <div key={entry.id} className="flex items-center gap-2 px-3 py-1.5 text-xs group">
+                <Checkbox
+                  checked={selectedIds.includes(entry.id)}
+                  onCheckedChange={(checked) => toggleSelected(entry.id, checked === true)}
+                />
+                <span className="font-mono flex-1 break-all">{entry.id}</span>
+                <span className="font-mono text-muted-foreground">{entry.consumer}</span>
+                <span className="text-muted-foreground tabular-nums whitespace-nowrap">
+                  idle {formatIdle(entry.idle)} · {entry.deliveries}×
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-2 opacity-0 group-hover:opacity-100"
+                  onClick={() => handleAck([entry.id])}
+                  disabled={isAcking}
+                >
+                  Ack
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-sm border bg-muted/30 p-3">
+        <p className="text-xs text-muted-foreground mb-2">
+          Claim Entries (XCLAIM selected, XAUTOCLAIM otherwise)
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="Target consumer"
+            value={claimConsumer}
+            onChange={(e) => setClaimConsumer(e.target.value)}
+            className="h-8 flex-1 min-w-[160px] text-sm font-mono"
+          />
+          <Input
+            type="number"
+            placeholder="Min idle (ms)"
+            value={claimMinIdle}
+            onChange={(e) => setClaimMinIdle(e.target.value)}
+            className="h-8 w-36 text-sm font-mono"
+            min={0}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 px-3"
+            onClick={() => handleClaim(selectedIds.length > 0 ? selectedIds : undefined)}
+            disabled={isClaiming || !claimConsumer.trim()}
+          >
+            {isClaiming ? "Claiming..." : selectedIds.length > 0 ? `Claim ${selectedIds.length}` : "Auto Claim"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-sm border bg-muted/30 p-3">
+        <p className="text-xs text-muted-foreground mb-2">Set Last Delivered ID (XGROUP SETID)</p>
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="ID ($ = end of stream, 0 = replay all)"
+            value={setIdValue}
+            onChange={(e) => setSetIdValue(e.target.value)}
+            className="h-8 flex-1 text-sm font-mono"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 px-3"
+            onClick={handleSetId}
+            disabled={isSettingId || !setIdValue.trim()}
+          >
+            {isSettingId ? "Saving..." : "Set ID"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,392 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  useAddTimeSeriesSample,
+  useDeleteTimeSeriesSamples,
+  useTimeSeriesMRange,
+  useTimeSeriesRange,
+} from "@/lib/api/hooks/redis"
+import type {
+  ElementEditResponseDto,
+  TimeSeriesAggregation,
+  TimeSeriesMRangeResponseDto,
+  TimeSeriesRangeQueryDto,
+  TimeSeriesRangeResponseDto,
+  TimeSeriesValue,
+} from "@/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { TimeSeriesChart } from "@/components/ui/database-charts"
+import { ArrowClockwise, Plus, Trash, X } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+interface TimeSeriesEditorProps {
+  connectionId: string
+  keyName: string
+  database: number
+  info?: TimeSeriesValue
+  onUpdate?: () => void
+}
+
+const RANGES = [
+  { value: "1h", label: "Last hour", duration: 60 * 60 * 1000 },
+  { value: "24h", label: "Last 24 hours", duration: 24 * 60 * 60 * 1000 },
+  { value: "7d", label: "Last 7 days", duration: 7 * 24 * 60 * 60 * 1000 },
+  { value: "30d", label: "Last 30 days", duration: 30 * 24 * 60 * 60 * 1000 },
+  { value: "all", label: "All samples", duration: 0 },
+]
+
+const AGGREGATIONS: TimeSeriesAggregation[] = [
+  "avg", "sum", "min", "max", "range", "count", "first", "last", "std.p", "std.s", "var.p", "var.s", "twa",
+]
+
+const BUCKETS = [
+  { value: "1000", label: "1 second" },
+  { value: "60000", label: "1 minute" },
+  { value: "300000", label: "5 minutes" },
+  { value: "3600000", label: "1 hour" },
+  { value: "86400000", label: "1 day" },
+]
+
+function formatDuration(ms: number) {
+  if (ms <= 0) {
+    return "Forever"
+  }
+
+  const units: Array<[number, string]> = [[86400000, "d"], [3600000, "h"], [60000, "m"], [1000, "s"]]
+  for (const [size, unit] of units) {
+    if (ms % size === 0) {
+      return `${ms / size}${unit}`
+    }
+  }
+  return `${ms}ms`
+}
+
+function formatTimestamp(timestamp?: number) {
+  return timestamp === undefined || timestamp === 0 ? "—" : new Date(timestamp).toLocaleString()
+}
+
+// datetime-local input value -> milliseconds, undefined when empty or invalid
+function parseDateInput(value: string) {
+  if (!value) {
+    return undefined
+  }
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? undefined : time
+}
+
+export function TimeSeriesEditor({ connectionId, keyName, database, info, onUpdate }: TimeSeriesEditorProps) {
+  const [range, setRange] = useState("all")
+  const [from, setFrom] = useState<number | undefined>(undefined)
+  const [aggregation, setAggregation] = useState<TimeSeriesAggregation | "none">("none")
+  const [bucketDuration, setBucketDuration] = useState("60000")
+  const [filterInput, setFilterInput] = useState("")
+  const [filter, setFilter] = useState("")
+
+  const [sampleValue, setSampleValue] = useState("")
+  const [sampleTime, setSampleTime] = useState("")
+  const [deleteFrom, setDeleteFrom] = useState("")
+  const [deleteTo, setDeleteTo] = useState("")
+
+  const rangeParams: TimeSeriesRangeQueryDto = {
+    from,
+    aggregation: aggregation === "none" ? undefined : aggregation,
+    bucketDuration: aggregation === "none" ? undefined : Number(bucketDuration),
+    db: database,
+  }
+
+  const single = useTimeSeriesRange(connectionId, filter ? "" : keyName, rangeParams)
+  const multi = useTimeSeriesMRange(connectionId, filter ? { ...rangeParams, filter } : null)
+  const active = filter ? multi : single
+  const { mutate: addSample, isPending: isAdding } = useAddTimeSeriesSample(connectionId, keyName, database)
+  const { mutate: deleteSamples, isPending: isDeleting } = useDeleteTimeSeriesSamples(connectionId, keyName, database)
+
+  const singleData = single.data?.data ?? (single.data as TimeSeriesRangeResponseDto | undefined)
+  const multiData = multi.data?.data ?? (multi.data as TimeSeriesMRangeResponseDto | undefined)
+  const series = useMemo(() => {
+    if (filter) {
+      return (multiData?.series ?? []).map(({ key, samples }) => ({ name: key, samples }))
+    }
+    return [{ name: keyName, samples: singleData?.samples ?? [] }]
+  }, [filter, multiData, singleData, keyName])
+
+  // Label filters matching the series' own labels, a starting point for comparisons
+  const suggestedFilter = Object.entries(info?.labels ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join(" ")
+
+  const handleRangeChange = (value: string) => {
+    const duration = RANGES.find((option) => option.value === value)?.duration ?? 0
+    setRange(value)
+    setFrom(duration ? Date.now() - duration : undefined)
+  }
+
+  const handleRefresh = () => {
+    // Relative ranges move along with the clock
+    handleRangeChange(range)
+    active.refetch()
+  }
+
+  const handleAddSample = () => {
+    const value = Number(sampleValue)
+    if (!sampleValue.trim() || Number.isNaN(value)) {
+      toast.fail("Sample value must be a number")
+      return
+    }
+
+    addSample(
+      { value, timestamp: parseDateInput(sampleTime), db: database },
+      {
+        onSuccess: () => {
+          toast.success("Sample added")
+          setSampleValue("")
+          setSampleTime("")
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to add sample")
+        },
+      }
+    )
+  }
+
+  const handleDeleteSamples = () => {
+    const start = parseDateInput(deleteFrom)
+    const end = parseDateInput(deleteTo)
+    if (start === undefined || end === undefined) {
+      toast.fail("Pick the start and end of the range to delete")
+      return
+    }
+
+    deleteSamples(
+      { from: start, to: end, db: database },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as ElementEditResponseDto | undefined)
+          toast.success(`${payload?.affected ?? 0} samples deleted`)
+          setDeleteFrom("")
+          setDeleteTo("")
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to delete samples")
+        },
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {info && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-xs md:grid-cols-4">
+            {[
+              { label: "Samples", value: info.totalSamples.toLocaleString() },
+              { label: "Retention", value: formatDuration(info.retentionTime) },
+              { label: "First", value: formatTimestamp(info.firstTimestamp) },
+              { label: "Last", value: formatTimestamp(info.lastTimestamp) },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+                <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{stat.label}</div>
+                <div className="font-semibold">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5 text-xs">
+            <span className="text-muted-foreground">Labels</span>
+            {Object.keys(info.labels).length === 0 ? (
+              <span className="text-muted-foreground">—</span>
+            ) : (
+              Object.entries(info.labels).map(([name, value]) => (
+                <span key={name} className="rounded-sm border px-1.5 py-0.5 font-mono text-[11px]">
+                  {name}={value}
+                </span>
+              ))
+            )}
+            {info.duplicatePolicy && (
+              <span className="ml-auto text-muted-foreground">
+                Duplicates: <span className="font-semibold text-foreground">{info.duplicatePolicy}</span>
+              </span>
+            )}
+          </div>
+
+          {(info.rules.length > 0 || info.sourceKey) && (
+            <div className="rounded-sm border bg-muted/20 p-2 text-xs space-y-1">
+              {info.sourceKey && (
+                <div>
+                  <span className="text-muted-foreground">Compacted from </span>
+                  <span className="font-mono">{info.sourceKey}</span>
+                </div>
+              )}
+              {info.rules.map((rule) => (
+                <div key={rule.destKey}>
+                  <span className="text-muted-foreground">Rule → </span>
+                  <span className="font-mono">{rule.destKey}</span>
+                  <span className="text-muted-foreground">
+                    {" "}· {rule.aggregation} per {formatDuration(rule.bucketDuration)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={range} onValueChange={handleRangeChange}>
+          <SelectTrigger size="sm" className="w-[130px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map((option) => (
+              <SelectItem key={option.value} value={option.value} className="text-xs">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={aggregation} onValueChange={(v) => setAggregation(v as TimeSeriesAggregation | "none")}>
+          <SelectTrigger size="sm" className="w-[120px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none" className="text-xs">Raw samples</SelectItem>
+            {AGGREGATIONS.map((type) => (
+              <SelectItem key={type} value={type} className="text-xs">
+                {type}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={bucketDuration} onValueChange={setBucketDuration}>
+          <SelectTrigger size="sm" className="w-[110px] h-8 text-xs" disabled={aggregation === "none"}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BUCKETS.map((bucket) => (
+              <SelectItem key={bucket.value} value={bucket.value} className="text-xs">
+                {bucket.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" className="h-8 px-2" onClick={handleRefresh} disabled={active.isFetching}>
+          <ArrowClockwise className={cn("h-4 w-4", active.isFetching && "animate-spin")} />
+        </Button>
+      </div>
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          setFilter(filterInput.trim())
+        }}
+      >
+        <Input
+          value={filterInput}
+          onChange={(e) => setFilterInput(e.target.value)}
+          placeholder={suggestedFilter ? `Compare with series matching ${suggestedFilter}` : "Compare with series matching label=value"}
+          className="h-8 flex-1 font-mono text-xs"
+        />
+        <Button type="submit" size="sm" variant="outline" className="h-8" disabled={!filterInput.trim()}>
+          Compare
+        </Button>
+        {filter && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-8 px-2"
+            onClick={() => {
+              setFilter("")
+              setFilterInput("")
+            }}
+            title="Show only this series"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </form>
+
+      {active.error ? (
+        <div className="rounded-sm border border-dashed border-destructive/40 p-4 text-xs text-destructive">
+          {active.error instanceof Error ? active.error.message : "Failed to load samples"}
+        </div>
+      ) : active.isLoading ? (
+        <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+          Loading samples...
+        </div>
+      ) : (
+        <div className="rounded-sm border bg-muted/10 p-2">
+          <TimeSeriesChart series={series} />
+        </div>
+      )}
+
+      <div className="grid gap-2 rounded-sm border p-3">
+        <p className="text-xs font-medium">Add sample</p>
+        <div className="flex items-center gap-2">
+          <Input
+            type="datetime-local"
+            step="1"
+            value={sampleTime}
+            onChange={(e) => setSampleTime(e.target.value)}
+            className="h-8 w-[220px] text-xs"
+            title="Leave empty to use the server time"
+          />
+          <Input
+            value={sampleValue}
+            onChange={(e) => setSampleValue(e.target.value)}
+            placeholder="Value"
+            inputMode="decimal"
+            className="h-8 flex-1 font-mono text-xs"
+          />
+          <Button size="sm" className="h-8" onClick={handleAddSample} disabled={isAdding || !sampleValue.trim()}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-2 rounded-sm border border-destructive/20 p-3">
+        <p className="text-xs font-medium">Delete samples in range</p>
+        <div className="flex items-center gap-2">
+          <Input
+            type="datetime-local"
+            step="1"
+            value={deleteFrom}
+            onChange={(e) => setDeleteFrom(e.target.value)}
+            className="h-8 flex-1 text-xs"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="datetime-local"
+            step="1"
+            value={deleteTo}
+            onChange={(e) => setDeleteTo(e.target.value)}
+            className="h-8 flex-1 text-xs"
+          />
+          <Button
+            size="sm"
+            variant="destructive"
+            className="h-8"
+            onClick={handleDeleteSamples}
+            disabled={isDeleting || !deleteFrom || !deleteTo}
+          >
+            <Trash className="h-3.5 w-3.5 mr-1" />
+            Delete
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
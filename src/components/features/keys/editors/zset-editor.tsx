@@ -1,33 +1,66 @@
 "use client"
 
-import { useState } from "react"
-import { useUpdateRedisKey } from "@/lib/api/hooks/redis"
+import { useMemo, useState } from "react"
+import {
+  useAddZSetMembers,
+  useIncrementZSetMember,
+  useRemoveZSetMembers,
+  useRenameZSetMember,
+  useZSetMembers,
+} from "@/lib/api/hooks/redis"
+import type { ElementEditResponseDto, KeyEncoding, ZSetMembersPageResponseDto } from "@/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Pencil, Check, X } from "@phosphor-icons/react"
 import { toast } from "@/lib/toast"
+import { CollectionToolbar, LoadMoreSentinel, elementEncodingOf } from "./collection-pager"
 
 interface ZSetMember {
   member: string
+  memberHex?: string // Set when the member is not valid UTF-8, it is then edited as hex
   score: number
 }
 
 interface ZSetEditorProps {
   connectionId: string
   keyName: string
+  keyEncoding?: KeyEncoding // 'hex' when keyName holds the hex bytes of a non UTF-8 key
   database: number
-  value: { members: ZSetMember[] }
+  version?: string // Key version from getKey, edits that check no loaded element are rejected once the key changed since
   onUpdate?: () => void
 }
 
-export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }: ZSetEditorProps) {
-  const [members, setMembers] = useState<ZSetMember[]>(() => value?.members || [])
+export function ZSetEditor({ connectionId, keyName, keyEncoding, database, version, onUpdate }: ZSetEditorProps) {
+  const [match, setMatch] = useState("")
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useZSetMembers(connectionId, keyName, {
+    match: match || undefined,
+    keyEncoding,
+    db: database,
+  })
+  const firstPage = data?.pages[0]
+  const total = (firstPage?.data ?? (firstPage as ZSetMembersPageResponseDto | undefined))?.total
+  // ZSCAN (used when filtering) may return a member more than once
+  const members = useMemo(() => {
+    const loaded = new Map<string, ZSetMember>()
+    for (const page of data?.pages ?? []) {
+      for (const entry of (page?.data ?? (page as ZSetMembersPageResponseDto | undefined))?.members ?? []) {
+        loaded.set(entry.memberHex ?? entry.member, entry)
+      }
+    }
+    return Array.from(loaded.values())
+  }, [data])
   const [newMember, setNewMember] = useState("")
   const [newScore, setNewScore] = useState("")
+  const [incrementMember, setIncrementMember] = useState("")
+  const [incrementBy, setIncrementBy] = useState("1")
   const [editingIndex, setEditingIndex] = useState<number | null>(null)
   const [editMember, setEditMember] = useState("")
   const [editScore, setEditScore] = useState("")
-  const { mutate: updateKey, isPending } = useUpdateRedisKey(connectionId, keyName, database)
+  const { mutate: addMembers, isPending: isAdding } = useAddZSetMembers(connectionId, keyName, database)
+  const { mutate: incrementMemberScore, isPending: isIncrementing } = useIncrementZSetMember(connectionId, keyName, database)
+  const { mutate: removeMembers, isPending: isRemoving } = useRemoveZSetMembers(connectionId, keyName, database)
+  const { mutateAsync: renameMember } = useRenameZSetMember(connectionId, keyName, database)
+  const isPending = isAdding || isIncrementing || isRemoving
 
   const handleAddMember = () => {
     if (!newMember.trim()) {
@@ -41,22 +74,12 @@ export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }:
       return
     }
 
-    const existingIndex = members.findIndex(m => m.member === newMember.trim())
-    let updatedMembers: ZSetMember[]
-    
-    if (existingIndex >= 0) {
-      updatedMembers = [...members]
-      updatedMembers[existingIndex] = { member: newMember.trim(), score }
-    } else {
-      updatedMembers = [...members, { member: newMember.trim(), score }]
-    }
-
-    updateKey(
-      { value: updatedMembers, db: database },
+    // ZADD adds the member or updates the score of an existing one
+    addMembers(
+      { members: [{ member: newMember.trim(), score }], keyEncoding, db: database },
       {
         onSuccess: () => {
-          toast.success(existingIndex >= 0 ? "Member updated" : "Member added")
-          setMembers(updatedMembers)
+          toast.success("Member saved")
           setNewMember("")
           setNewScore("")
           onUpdate?.()
@@ -68,14 +91,39 @@ export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }:
     )
   }
 
-  const handleDeleteMember = (member: string) => {
-    const updatedMembers = members.filter((m) => m.member !== member)
-    updateKey(
-      { value: updatedMembers, db: database },
+  const handleIncrement = () => {
+    if (!incrementMember.trim()) {
+      toast.fail("Member value is required")
+      return
+    }
+
+    const increment = parseFloat(incrementBy)
+    if (isNaN(increment)) {
+      toast.fail("Increment must be a number")
+      return
+    }
+
+    incrementMemberScore(
+      { member: incrementMember.trim(), increment, version, keyEncoding, db: database },
+      {
+        onSuccess: (response) => {
+          const score = response?.data?.score ?? (response as ElementEditResponseDto | undefined)?.score
+          toast.success(`Score is now ${score}`)
+          onUpdate?.()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to increment score")
+        },
+      }
+    )
+  }
+
+  const handleDeleteMember = ({ member, memberHex }: ZSetMember) => {
+    removeMembers(
+      { members: [memberHex ?? member], version, keyEncoding, elementEncoding: elementEncodingOf(memberHex), db: database },
       {
         onSuccess: () => {
           toast.success("Member deleted")
-          setMembers(updatedMembers)
           onUpdate?.()
         },
         onError: (error: unknown) => {
@@ -87,7 +135,7 @@ export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }:
 
   const handleStartEdit = (index: number) => {
     setEditingIndex(index)
-    setEditMember(members[index].member)
+    setEditMember(members[index].memberHex ?? members[index].member)
     setEditScore(members[index].score.toString())
   }
 
@@ -97,7 +145,7 @@ export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }:
     setEditScore("")
   }
 
-  const handleSaveEdit = (index: number) => {
+  const handleSaveEdit = async (index: number) => {
     if (!editMember.trim()) {
       toast.fail("Member value cannot be empty")
       return
@@ -109,31 +157,41 @@ export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }:
       return
     }
 
-    const oldMember = members[index].member
-    
-    if (editMember.trim() === oldMember && score === members[index].score) {
+    // Members that are not valid UTF-8 are edited and sent as hex
+    const { member: oldText, memberHex, score: oldScore } = members[index]
+    const oldMember = memberHex ?? oldText
+    const member = editMember.trim()
+    const elementEncoding = elementEncodingOf(memberHex)
+
+    if (member === oldMember && score === oldScore) {
       setEditingIndex(null)
       return
     }
 
-    // Check if new member name already exists (and it's not the same member being edited)
-    if (editMember.trim() !== oldMember && members.some((m, i) => i !== index && m.member === editMember.trim())) {
-      toast.fail("Member already exists")
+    try {
+      if (member !== oldMember) {
+        await renameMember({ member: oldMember, newMember: member, expectedScore: oldScore, keyEncoding, elementEncoding, db: database })
+      }
+    } catch (error) {
+      toast.fail(error instanceof Error ? error.message : "Failed to update member")
+      return
+    }
+
+    if (score === oldScore) {
+      toast.success("Member updated")
+      handleCancelEdit()
+      onUpdate?.()
       return
     }
 
-    const updatedMembers = [...members]
-    updatedMembers[index] = { member: editMember.trim(), score }
-    
-    updateKey(
-      { value: updatedMembers, db: database },
+    // XX only updates the score, so a concurrently removed member is not re-created,
+    // and the loaded score turns a concurrent score change into a conflict
+    addMembers(
+      { members: [{ member, score }], condition: "XX", expected: { [member]: oldScore }, keyEncoding, elementEncoding, db: database },
       {
         onSuccess: () => {
           toast.success("Member updated")
-          setMembers(updatedMembers)
-          setEditingIndex(null)
-          setEditMember("")
-          setEditScore("")
+          handleCancelEdit()
           onUpdate?.()
         },
         onError: (error: unknown) => {
@@ -145,16 +203,30 @@ export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }:
 
   return (
     <div className="space-y-4">
+      <CollectionToolbar
+        placeholder="Filter members (e.g. player:*)"
+        match={match}
+        onMatchChange={setMatch}
+        loaded={members.length}
+        total={total}
+        noun="members"
+      />
+
       <div className="space-y-2">
+        {isLoading && (
+          <div className="rounded-sm border border-dashed p-4 text-center text-xs text-muted-foreground">
+            Loading members...
+          </div>
+        )}
         {members.map((entry, index) => (
-          <div key={`${entry.member}-${index}`} className="rounded-sm border bg-muted/30 p-2 group">
+          <div key={`${entry.memberHex ?? entry.member}-${index}`} className="rounded-sm border bg-muted/30 p-2 group">
             {editingIndex === index ? (
               <div className="flex items-center gap-2">
                 <Input
                   value={editMember}
                   onChange={(e) => setEditMember(e.target.value)}
                   className="flex-1 h-8 text-sm font-mono"
-                  placeholder="Member"
+                  placeholder={entry.memberHex ? "Member bytes as hex" : "Member"}
                   autoFocus
                   onKeyDown={(e) => {
                     if (e.key === "Enter") handleSaveEdit(index)
@@ -211,7 +283,7 @@ export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }:
                   size="sm"
                   variant="ghost"
                   className="h-8 px-2 text-destructive hover:text-destructive"
-                  onClick={() => handleDeleteMember(entry.member)}
+                  onClick={() => handleDeleteMember(entry)}
                   disabled={isPending}
                 >
                   Delete
@@ -220,6 +292,7 @@ export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }:
             )}
           </div>
         ))}
+        <LoadMoreSentinel hasMore={!!hasNextPage} isFetching={isFetchingNextPage} onLoadMore={fetchNextPage} />
       </div>
 
       <div className="rounded-sm border bg-muted/30 p-3">
@@ -249,6 +322,35 @@ export function ZSetEditor({ connectionId, keyName, database, value, onUpdate }:
           </Button>
         </div>
       </div>
+
+      <div className="rounded-sm border bg-muted/30 p-3">
+        <p className="text-xs text-muted-foreground mb-2">Increment Score (ZINCRBY)</p>
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Member..."
+            value={incrementMember}
+            onChange={(e) => setIncrementMember(e.target.value)}
+            className="flex-1 h-8 text-sm font-mono"
+          />
+          <Input
+            type="number"
+            placeholder="By"
+            value={incrementBy}
+            onChange={(e) => setIncrementBy(e.target.value)}
+            className="w-24 h-8 text-sm font-mono"
+            step="any"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 px-3"
+            onClick={handleIncrement}
+            disabled={isPending || !incrementMember.trim() || !incrementBy.trim()}
+          >
+            Increment
+          </Button>
+        </div>
+      </div>
     </div>
   )
 }
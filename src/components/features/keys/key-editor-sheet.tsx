@@ -2,8 +2,8 @@
 
 import { useMemo, useState } from "react"
 import { toast } from "@/lib/toast"
-import type { GetKeyResponseDto } from "@/types"
-import { useRedisKey, useUpdateRedisKey } from "@/lib/api/hooks/redis"
+import type { GetKeyResponseDto, ProbabilisticDataType, ProbabilisticValue, StreamValue, TimeSeriesValue } from "@/types"
+import { useRedisKey } from "@/lib/api/hooks/redis"
 import { useQueryClient } from "@tanstack/react-query"
 
 import {
@@ -15,16 +15,26 @@ import {
 } from "@/components/ui/sheet"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { cn } from "@/lib/utils"
+import { DecodedValueEditor } from "./editors/decoded-value-editor"
 import { HashEditor } from "./editors/hash-editor"
 import { ListEditor } from "./editors/list-editor"
 import { SetEditor } from "./editors/set-editor"
 import { ZSetEditor } from "./editors/zset-editor"
+import { StreamEditor } from "./editors/stream-editor"
+import { StreamGroupsPanel } from "./editors/stream-groups-panel"
+import { JsonEditor } from "./editors/json-editor"
+import { TimeSeriesEditor } from "./editors/timeseries-editor"
+import { ProbabilisticEditor } from "./editors/probabilistic-editor"
+import { BitmapEditor } from "./editors/bitmap-editor"
+import { GeoEditor } from "./editors/geo-editor"
+import { KeyHistoryPanel } from "./key-history-panel"
 
 interface KeyEditorSheetProps {
     connectionId: string
     keyName: string | null
+    keyHex?: string // Set for keys that are not valid UTF-8, keyName is then only for display
     database: number
     open: boolean
     onOpenChange: (open: boolean) => void
@@ -72,6 +82,11 @@ function formatBytes(bytes?: number) {
     return `${mb.toFixed(1)} MB`
 }
 
+const probabilisticTypes: string[] = ["hyperloglog", "bloom", "cuckoo", "cms", "topk"]
+
+// Types whose editors address keys that are not valid UTF-8 by their hex bytes
+const binaryEditableTypes: string[] = ["string", "hash", "list", "set", "zset"]
+
 function getTypeBadgeClass(type?: string) {
     // Redis CLI inspired colors
     switch (type) {
@@ -87,6 +102,16 @@ function getTypeBadgeClass(type?: string) {
             return "border-[#fb923c]/40 text-[#fb923c] bg-[#fb923c]/10"  // Orange
         case "stream":
             return "border-[#22d3ee]/40 text-[#22d3ee] bg-[#22d3ee]/10"  // Cyan
+        case "json":
+            return "border-[#f472b6]/40 text-[#f472b6] bg-[#f472b6]/10"  // Pink
+        case "timeseries":
+            return "border-[#a3e635]/40 text-[#a3e635] bg-[#a3e635]/10"  // Lime
+        case "hyperloglog":
+        case "bloom":
+        case "cuckoo":
+        case "cms":
+        case "topk":
+            return "border-[#94a3b8]/40 text-[#94a3b8] bg-[#94a3b8]/10"  // Slate
         default:
             return "border-border text-muted-foreground"
     }
@@ -95,19 +120,21 @@ function getTypeBadgeClass(type?: string) {
 export function KeyEditorSheet({
     connectionId,
     keyName,
+    keyHex,
     database,
     open,
     onOpenChange,
 }: KeyEditorSheetProps) {
     const queryClient = useQueryClient()
-    const { data, isLoading } = useRedisKey(connectionId, keyName || "", database)
+    const { data, isLoading } = useRedisKey(connectionId, keyHex ?? (keyName || ""), database, keyHex ? "hex" : undefined)
     const keyDetails = data?.data?.key || (data as GetKeyResponseDto | undefined)?.key
     const value = data?.data?.value ?? (data as GetKeyResponseDto | undefined)?.value
-    const { mutate: updateKey, isPending } = useUpdateRedisKey(connectionId, keyName || "", database)
-
-    const [draftValue, setDraftValue] = useState<string | null>(null)
-    const resolvedDraftValue =
-        draftValue ?? (keyDetails?.type === "string" && typeof value === "string" ? value : "")
+    const version = data?.data?.version ?? (data as GetKeyResponseDto | undefined)?.version
+    const streamGroupCount = keyDetails?.type === "stream" ? (value as StreamValue | undefined)?.groups : undefined
+    // Keys that are not valid UTF-8 are addressed by their hex bytes
+    const keyPath = keyHex ?? keyName ?? ""
+    const keyEncoding = keyHex ? "hex" as const : undefined
+    const handleElementsUpdated = () => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyPath, database] })
 
     const readableValue = useMemo(() => {
         if (keyDetails?.type === "string") {
@@ -138,24 +165,6 @@ export function KeyEditorSheet({
         }
     }
 
-    const handleSave = () => {
-        if (!keyName || keyDetails?.type !== "string") {
-            return
-        }
-
-        updateKey(
-            { value: resolvedDraftValue, db: database },
-            {
-                onSuccess: () => {
-                    toast.success("Key updated")
-                },
-                onError: (error: unknown) => {
-                    toast.fail(error instanceof Error ? error.message : "Failed to update key")
-                },
-            }
-        )
-    }
-
     if (!keyName) {
         return null
     }
@@ -193,181 +202,315 @@ export function KeyEditorSheet({
                         </div>
                     </div>
 
-                    {isLoading && (
-                        <div className="rounded-sm border border-dashed p-6 text-center text-sm text-muted-foreground">
-                            Loading key details...
-                        </div>
-                    )}
-
-                    {!isLoading && keyDetails?.type === "string" && (
-                        <div className="space-y-3 rounded-sm border bg-card p-4">
-                            <div className="flex items-center justify-between">
-                                <p className="text-sm font-medium">Value</p>
-                                <Button
-                                    size="sm"
-                                    onClick={handleSave}
-                                    disabled={isPending}
-                                >
-                                    {isPending ? "Saving..." : "Save"}
-                                </Button>
-                            </div>
-                            <Textarea
-                                className="min-h-[240px] w-full rounded-sm p-3 font-mono text-xs"
-                                value={resolvedDraftValue}
-                                onChange={(event) => setDraftValue(event.target.value)}
-                            />
-                        </div>
-                    )}
-
-                    {!isLoading && keyDetails?.type === "hash" && (
-                        <div className="space-y-4 rounded-sm border bg-card p-4">
-                            <div className="flex items-center justify-between">
-                                <p className="text-sm font-medium">Value</p>
-                                <Button 
-                                    size="sm" 
-                                    variant="outline" 
-                                    onClick={handleCopy} 
-                                    disabled={!readableValue}
-                                    className={cn(
-                                        "transition-all duration-200",
-                                        copied && "bg-success/20 border-success/50 text-success"
-                                    )}
-                                >
-                                    {copied ? "Copied!" : "Copy JSON"}
-                                </Button>
-                            </div>
-                            <HashEditor 
-                                key={`${keyName}-${database}-hash`}
-                                connectionId={connectionId} 
-                                keyName={keyName} 
-                                database={database}
-                                value={value as Record<string, string>} 
-                                onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
-                            />
-                        </div>
-                    )}
-
-                    {!isLoading && keyDetails?.type === "list" && (
-                        <div className="space-y-4 rounded-sm border bg-card p-4">
-                            <div className="flex items-center justify-between">
-                                <p className="text-sm font-medium">Value</p>
-                                <Button 
-                                    size="sm" 
-                                    variant="outline" 
-                                    onClick={handleCopy} 
-                                    disabled={!readableValue}
-                                    className={cn(
-                                        "transition-all duration-200",
-                                        copied && "bg-success/20 border-success/50 text-success"
+                    <Tabs defaultValue="value">
+                        <TabsList>
+                            <TabsTrigger value="value">Value</TabsTrigger>
+                            <TabsTrigger value="history">History</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="value" className="space-y-6 pt-2">
+                            {isLoading && (
+                                <div className="rounded-sm border border-dashed p-6 text-center text-sm text-muted-foreground">
+                                    Loading key details...
+                                </div>
+                            )}
+
+                            {!isLoading && keyDetails?.type === "string" && (
+                                <div className="space-y-3 rounded-sm border bg-card p-4">
+                                    {keyHex ? (
+                                        <>
+                                            <p className="text-sm font-medium">Value</p>
+                                            <DecodedValueEditor
+                                                key={`${keyName}-${database}-string`}
+                                                connectionId={connectionId}
+                                                keyName={keyHex}
+                                                keyEncoding="hex"
+                                                database={database}
+                                                version={version}
+                                            />
+                                        </>
+                                    ) : (
+                                        <Tabs defaultValue="value">
+                                            <TabsList>
+                                                <TabsTrigger value="value">Value</TabsTrigger>
+                                                <TabsTrigger value="bitmap">Bitmap</TabsTrigger>
+                                            </TabsList>
+                                            <TabsContent value="value" className="pt-2">
+                                                <DecodedValueEditor
+                                                    key={`${keyName}-${database}-string`}
+                                                    connectionId={connectionId}
+                                                    keyName={keyName}
+                                                    database={database}
+                                                    version={version}
+                                                />
+                                            </TabsContent>
+                                            <TabsContent value="bitmap" className="pt-2">
+                                                <BitmapEditor
+                                                    key={`${keyName}-${database}-bitmap`}
+                                                    connectionId={connectionId}
+                                                    keyName={keyName}
+                                                    database={database}
+                                                    onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
+                                                />
+                                            </TabsContent>
+                                        </Tabs>
                                     )}
-                                >
-                                    {copied ? "Copied!" : "Copy JSON"}
-                                </Button>
-                            </div>
-                            <ListEditor 
-                                key={`${keyName}-${database}-list`}
-                                connectionId={connectionId} 
-                                keyName={keyName} 
-                                database={database}
-                                value={value as { items: string[] }} 
-                                onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
-                            />
-                        </div>
-                    )}
-
-                    {!isLoading && keyDetails?.type === "set" && (
-                        <div className="space-y-4 rounded-sm border bg-card p-4">
-                            <div className="flex items-center justify-between">
-                                <p className="text-sm font-medium">Value</p>
-                                <Button 
-                                    size="sm" 
-                                    variant="outline" 
-                                    onClick={handleCopy} 
-                                    disabled={!readableValue}
-                                    className={cn(
-                                        "transition-all duration-200",
-                                        copied && "bg-success/20 border-success/50 text-success"
-                                    )}
-                                >
-                                    {copied ? "Copied!" : "Copy JSON"}
-                                </Button>
-                            </div>
-                            <SetEditor 
-                                key={`${keyName}-${database}-set`}
-                                connectionId={connectionId} 
-                                keyName={keyName} 
-                                database={database}
-                                value={value as { members: string[] }} 
-                                onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
-                            />
-                        </div>
-                    )}
-
-                    {!isLoading && keyDetails?.type === "zset" && (
-                        <div className="space-y-4 rounded-sm border bg-card p-4">
-                            <div className="flex items-center justify-between">
-                                <p className="text-sm font-medium">Value</p>
-                                <Button 
-                                    size="sm" 
-                                    variant="outline" 
-                                    onClick={handleCopy} 
-                                    disabled={!readableValue}
-                                    className={cn(
-                                        "transition-all duration-200",
-                                        copied && "bg-success/20 border-success/50 text-success"
-                                    )}
-                                >
-                                    {copied ? "Copied!" : "Copy JSON"}
-                                </Button>
-                            </div>
-                            <ZSetEditor 
-                                key={`${keyName}-${database}-zset`}
-                                connectionId={connectionId} 
-                                keyName={keyName} 
+                                </div>
+                            )}
+
+                            {!isLoading && keyHex && keyDetails && !binaryEditableTypes.includes(keyDetails.type) && (
+                                <div className="rounded-sm border border-dashed p-6 text-center text-sm text-muted-foreground">
+                                    This key name is not valid UTF-8, so its contents cannot be edited here.
+                                    Rename the key to browse and edit its contents.
+                                </div>
+                            )}
+
+                            {!isLoading && keyDetails?.type === "hash" && (
+                                <div className="space-y-4 rounded-sm border bg-card p-4">
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-sm font-medium">Value</p>
+                                        <Button 
+                                            size="sm" 
+                                            variant="outline" 
+                                            onClick={handleCopy} 
+                                            disabled={!readableValue}
+                                            className={cn(
+                                                "transition-all duration-200",
+                                                copied && "bg-success/20 border-success/50 text-success"
+                                            )}
+                                        >
+                                            {copied ? "Copied!" : "Copy JSON"}
+                                        </Button>
+                                    </div>
+                                    <HashEditor 
+                                        key={`${keyPath}-${database}-hash`}
+                                        connectionId={connectionId} 
+                                        keyName={keyPath} 
+                                        keyEncoding={keyEncoding}
+                                        database={database}
+                                        onUpdate={handleElementsUpdated}
+                                    />
+                                </div>
+                            )}
+
+                            {!isLoading && keyDetails?.type === "list" && (
+                                <div className="space-y-4 rounded-sm border bg-card p-4">
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-sm font-medium">Value</p>
+                                        <Button 
+                                            size="sm" 
+                                            variant="outline" 
+                                            onClick={handleCopy} 
+                                            disabled={!readableValue}
+                                            className={cn(
+                                                "transition-all duration-200",
+                                                copied && "bg-success/20 border-success/50 text-success"
+                                            )}
+                                        >
+                                            {copied ? "Copied!" : "Copy JSON"}
+                                        </Button>
+                                    </div>
+                                    <ListEditor 
+                                        key={`${keyPath}-${database}-list`}
+                                        connectionId={connectionId} 
+                                        keyName={keyPath} 
+                                        keyEncoding={keyEncoding}
+                                        database={database}
+                                        version={version}
+                                        onUpdate={handleElementsUpdated}
+                                    />
+                                </div>
+                            )}
+
+                            {!isLoading && keyDetails?.type === "set" && (
+                                <div className="space-y-4 rounded-sm border bg-card p-4">
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-sm font-medium">Value</p>
+                                        <Button 
+                                            size="sm" 
+                                            variant="outline" 
+                                            onClick={handleCopy} 
+                                            disabled={!readableValue}
+                                            className={cn(
+                                                "transition-all duration-200",
+                                                copied && "bg-success/20 border-success/50 text-success"
+                                            )}
+                                        >
+                                            {copied ? "Copied!" : "Copy JSON"}
+                                        </Button>
+                                    </div>
+                                    <SetEditor 
+                                        key={`${keyPath}-${database}-set`}
+                                        connectionId={connectionId} 
+                                        keyName={keyPath} 
+                                        keyEncoding={keyEncoding}
+                                        database={database}
+                                        version={version}
+                                        onUpdate={handleElementsUpdated}
+                                    />
+                                </div>
+                            )}
+
+                            {!isLoading && keyDetails?.type === "zset" && (
+                                <div className="space-y-4 rounded-sm border bg-card p-4">
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-sm font-medium">Value</p>
+                                        <Button 
+                                            size="sm" 
+                                            variant="outline" 
+                                            onClick={handleCopy} 
+                                            disabled={!readableValue}
+                                            className={cn(
+                                                "transition-all duration-200",
+                                                copied && "bg-success/20 border-success/50 text-success"
+                                            )}
+                                        >
+                                            {copied ? "Copied!" : "Copy JSON"}
+                                        </Button>
+                                    </div>
+                                    <Tabs defaultValue="members">
+                                        <TabsList>
+                                            <TabsTrigger value="members">Members</TabsTrigger>
+                                            {!keyHex && <TabsTrigger value="geo">Geo</TabsTrigger>}
+                                        </TabsList>
+                                        <TabsContent value="members" className="pt-2">
+                                            <ZSetEditor 
+                                                key={`${keyPath}-${database}-zset`}
+                                                connectionId={connectionId} 
+                                                keyName={keyPath} 
+                                                keyEncoding={keyEncoding}
+                                                database={database}
+                                                version={version}
+                                                onUpdate={handleElementsUpdated}
+                                            />
+                                        </TabsContent>
+                                        {!keyHex && (
+                                            <TabsContent value="geo" className="pt-2">
+                                                <GeoEditor
+                                                    key={`${keyName}-${database}-geo`}
+                                                    connectionId={connectionId}
+                                                    keyName={keyName}
+                                                    database={database}
+                                                    onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
+                                                />
+                                            </TabsContent>
+                                        )}
+                                    </Tabs>
+                                </div>
+                            )}
+
+                            {!isLoading && !keyHex && keyDetails?.type === "json" && (
+                                <div className="space-y-4 rounded-sm border bg-card p-4">
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-sm font-medium">Document</p>
+                                        <Button 
+                                            size="sm" 
+                                            variant="outline" 
+                                            onClick={handleCopy} 
+                                            disabled={!readableValue}
+                                            className={cn(
+                                                "transition-all duration-200",
+                                                copied && "bg-success/20 border-success/50 text-success"
+                                            )}
+                                        >
+                                            {copied ? "Copied!" : "Copy JSON"}
+                                        </Button>
+                                    </div>
+                                    <JsonEditor
+                                        key={`${keyName}-${database}-json`}
+                                        connectionId={connectionId}
+                                        keyName={keyName}
+                                        database={database}
+                                        onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
+                                    />
+                                </div>
+                            )}
+
+                            {!isLoading && !keyHex && keyDetails?.type === "timeseries" && (
+                                <div className="space-y-4 rounded-sm border bg-card p-4">
+                                    <p className="text-sm font-medium">Samples</p>
+                                    <TimeSeriesEditor
+                                        key={`${keyName}-${database}-timeseries`}
+                                        connectionId={connectionId}
+                                        keyName={keyName}
+                                        database={database}
+                                        info={value as TimeSeriesValue | undefined}
+                                        onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
+                                    />
+                                </div>
+                            )}
+
+                            {!isLoading && !keyHex && keyDetails && probabilisticTypes.includes(keyDetails.type) && (
+                                <div className="space-y-4 rounded-sm border bg-card p-4">
+                                    <p className="text-sm font-medium">Summary</p>
+                                    <ProbabilisticEditor
+                                        key={`${keyName}-${database}-${keyDetails.type}`}
+                                        connectionId={connectionId}
+                                        keyName={keyName}
+                                        database={database}
+                                        type={keyDetails.type as ProbabilisticDataType}
+                                        value={value as ProbabilisticValue | undefined}
+                                        onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
+                                    />
+                                </div>
+                            )}
+
+                            {!isLoading && !keyHex && keyDetails?.type === "stream" && (
+                                <div className="space-y-4 rounded-sm border bg-card p-4">
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-sm font-medium">Value</p>
+                                        <Button 
+                                            size="sm" 
+                                            variant="outline" 
+                                            onClick={handleCopy} 
+                                            disabled={!readableValue}
+                                            className={cn(
+                                                "transition-all duration-200",
+                                                copied && "bg-success/20 border-success/50 text-success"
+                                            )}
+                                        >
+                                            {copied ? "Copied!" : "Copy JSON"}
+                                        </Button>
+                                    </div>
+                                    <Tabs defaultValue="entries">
+                                        <TabsList>
+                                            <TabsTrigger value="entries">Entries</TabsTrigger>
+                                            <TabsTrigger value="groups">
+                                                Consumer Groups
+                                                {streamGroupCount ? ` (${streamGroupCount})` : ""}
+                                            </TabsTrigger>
+                                        </TabsList>
+                                        <TabsContent value="entries" className="pt-2">
+                                            <StreamEditor
+                                                key={`${keyName}-${database}-stream`}
+                                                connectionId={connectionId}
+                                                keyName={keyName}
+                                                database={database}
+                                                onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
+                                            />
+                                        </TabsContent>
+                                        <TabsContent value="groups" className="pt-2">
+                                            <StreamGroupsPanel
+                                                key={`${keyName}-${database}-stream-groups`}
+                                                connectionId={connectionId}
+                                                keyName={keyName}
+                                                database={database}
+                                                onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
+                                            />
+                                        </TabsContent>
+                                    </Tabs>
+                                </div>
+                            )}
+                        </TabsContent>
+                        <TabsContent value="history" className="pt-2">
+                            <KeyHistoryPanel
+                                key={`${keyHex ?? keyName}-${database}-history`}
+                                connectionId={connectionId}
+                                keyName={keyHex ?? keyName}
+                                keyEncoding={keyHex ? "hex" : undefined}
                                 database={database}
-                                value={value as { members: Array<{ member: string; score: number }> }} 
-                                onUpdate={() => queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', keyName, database] })}
                             />
-                        </div>
-                    )}
-
-                    {!isLoading && keyDetails?.type === "stream" && (
-                        <div className="space-y-4 rounded-sm border bg-card p-4">
-                            <div className="flex items-center justify-between">
-                                <p className="text-sm font-medium">Value</p>
-                                <Button 
-                                    size="sm" 
-                                    variant="outline" 
-                                    onClick={handleCopy} 
-                                    disabled={!readableValue}
-                                    className={cn(
-                                        "transition-all duration-200",
-                                        copied && "bg-success/20 border-success/50 text-success"
-                                    )}
-                                >
-                                    {copied ? "Copied!" : "Copy JSON"}
-                                </Button>
-                            </div>
-                            <div className="space-y-3">
-                                {(value as { entries: Array<{ id: string; fields: Record<string, string> }> }).entries?.map((entry) => (
-                                    <div key={entry.id} className="rounded-sm border bg-muted/30 p-3">
-                                        <p className="text-xs font-medium text-muted-foreground">ID {entry.id}</p>
-                                        <div className="mt-2 space-y-1">
-                                            {Object.entries(entry.fields || {}).map(([field, fieldValue]) => (
-                                                <div key={`${entry.id}-${field}`} className="flex items-start justify-between gap-3 text-xs font-mono">
-                                                    <span className="break-all">{field}</span>
-                                                    <span className="break-all text-muted-foreground">{fieldValue}</span>
-                                                </div>
-                                            ))}
-                                        </div>
-                                    </div>
-                                ))}
-                            </div>
-                            <p className="text-xs text-muted-foreground">
-                                Stream editing is not yet supported.
-                            </p>
-                        </div>
-                    )}
+                        </TabsContent>
+                    </Tabs>
                 </div>
             </SheetContent>
         </Sheet>
@@ -0,0 +1,339 @@
+"use client"
+
+import { useState } from "react"
+import { useKeyHistory, useRollbackRedisKey } from "@/lib/api/hooks/redis"
+import { useMe } from "@/lib/api"
+import type {
+  KeyEncoding,
+  KeyHistoryEntry,
+  KeyHistoryOperation,
+  KeyHistoryResponseDto,
+  KeySnapshot,
+  MeResponseDto,
+  RollbackKeyResponseDto,
+} from "@/types"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { ArrowCounterClockwise, CaretDown, CaretRight } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+
+// Line diffs past this size fall back to showing the whole value as changed
+const MAX_DIFF_LINES = 1000
+
+const operationLabels: Record<KeyHistoryOperation, string> = {
+  create: "Created",
+  update: "Updated",
+  ttl: "TTL changed",
+  rename: "Renamed",
+  rollback: "Rolled back",
+}
+
+interface DiffRow {
+  kind: "added" | "removed" | "changed"
+  label: string
+  before?: string
+  after?: string
+}
+
+function formatTtl(ttl?: number) {
+  return ttl === undefined ? "No expiry" : `${ttl}s`
+}
+
+/**
+ * Value as lines, for the types compared line by line
+ */
+function toLines(snapshot: KeySnapshot): string[] {
+  if (snapshot.type === "list") {
+    return snapshot.value as string[]
+  }
+  if (snapshot.type === "json") {
+    return JSON.stringify(snapshot.value, null, 2).split("\n")
+  }
+  return String(snapshot.value).split("\n")
+}
+
+/**
+ * Added and removed lines from the longest common subsequence
+ */
+function diffLines(before: string[], after: string[]): DiffRow[] {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const rows: DiffRow[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      i++
+      j++
+    } else if (j < after.length && (i === before.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      rows.push({ kind: "added", label: `Line ${j + 1}`, after: after[j] })
+      j++
+    } else {
+      rows.push({ kind: "removed", label: `Line ${i + 1}`, before: before[i] })
+      i++
+    }
+  }
+  return rows
+}
+
+function diffRecords(before: Record<string, string>, after: Record<string, string>): DiffRow[] {
+  const labels = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+  return labels.flatMap((label): DiffRow[] => {
+    if (!(label in before)) return [{ kind: "added", label, after: after[label] }]
+    if (!(label in after)) return [{ kind: "removed", label, before: before[label] }]
+    return before[label] === after[label] ? [] : [{ kind: "changed", label, before: before[label], after: after[label] }]
+  })
+}
+
+/**
+ * Type-aware differences between two snapshots, a missing side counts as empty
+ */
+function diffValues(before: KeySnapshot | null, after: KeySnapshot | null): DiffRow[] {
+  const type = after?.type ?? before?.type
+  const valueOf = (snapshot: KeySnapshot | null) => (snapshot && snapshot.type === type ? snapshot.value : undefined)
+
+  switch (type) {
+    case "hash":
+      return diffRecords(
+        (valueOf(before) ?? {}) as Record<string, string>,
+        (valueOf(after) ?? {}) as Record<string, string>
+      )
+
+    case "set":
+      const toMembers = (value: unknown) =>
+        Object.fromEntries(((value ?? []) as string[]).map((member) => [member, member]))
+      return diffRecords(toMembers(valueOf(before)), toMembers(valueOf(after))).map((row) => ({
+        ...row,
+        before: undefined,
+        after: undefined,
+      }))
+
+    case "zset":
+      const toScores = (value: unknown) =>
+        Object.fromEntries(((value ?? []) as Array<{ member: string; score: string }>).map(({ member, score }) => [member, score]))
+      return diffRecords(toScores(valueOf(before)), toScores(valueOf(after)))
+
+    default:
+      const beforeLines = before && before.type === type ? toLines(before) : []
+      const afterLines = after && after.type === type ? toLines(after) : []
+      if (beforeLines.length > MAX_DIFF_LINES || afterLines.length > MAX_DIFF_LINES) {
+        return [{ kind: "changed", label: "Value", before: "(too long to compare)", after: "(too long to compare)" }]
+      }
+      return diffLines(beforeLines, afterLines)
+  }
+}
+
+function diffSnapshots(before: KeySnapshot | null, after: KeySnapshot | null): DiffRow[] {
+  const rows: DiffRow[] = []
+
+  if (before && after && before.key !== after.key) {
+    rows.push({ kind: "changed", label: "Name", before: before.key, after: after.key })
+  }
+  if (before?.type !== after?.type) {
+    rows.push({ kind: before && after ? "changed" : after ? "added" : "removed", label: "Type", before: before?.type, after: after?.type })
+  }
+  if (before?.ttl !== after?.ttl && before && after) {
+    rows.push({ kind: "changed", label: "TTL", before: formatTtl(before.ttl), after: formatTtl(after.ttl) })
+  }
+
+  const omitted = before?.omitted ?? after?.omitted
+  if (omitted) {
+    rows.push({
+      kind: "changed",
+      label: "Value",
+      before: before?.omitted ? "(not kept)" : undefined,
+      after: after?.omitted ? "(not kept)" : undefined,
+    })
+    return rows
+  }
+
+  return [...rows, ...diffValues(before, after)]
+}
+
+function SnapshotDiff({ entry }: { entry: KeyHistoryEntry }) {
+  const rows = diffSnapshots(entry.before, entry.after)
+
+  if (rows.length === 0) {
+    return <p className="text-xs text-muted-foreground">No visible changes.</p>
+  }
+
+  return (
+    <div className="max-h-80 overflow-auto rounded-sm border font-mono text-xs">
+      {rows.map((row, index) => (
+        <div
+          key={`${row.label}-${index}`}
+          className={cn(
+            "grid grid-cols-[140px_1fr] gap-2 border-b px-2 py-1 last:border-b-0",
+            row.kind === "added" && "bg-success/5",
+            row.kind === "removed" && "bg-destructive/5"
+          )}
+        >
+          <span className="truncate text-muted-foreground">
+            {row.kind === "added" ? "+ " : row.kind === "removed" ? "- " : "~ "}
+            {row.label}
+          </span>
+          <span className="flex flex-col gap-0.5 break-all whitespace-pre-wrap">
+            {row.before !== undefined && <span className="text-destructive line-through">{row.before}</span>}
+            {row.after !== undefined && <span className="text-success">{row.after}</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface KeyHistoryPanelProps {
+  connectionId: string
+  keyName: string
+  keyEncoding?: KeyEncoding
+  database: number
+}
+
+export function KeyHistoryPanel({ connectionId, keyName, keyEncoding, database }: KeyHistoryPanelProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [rollbackTarget, setRollbackTarget] = useState<{ entry: KeyHistoryEntry; version: "before" | "after" } | null>(null)
+
+  const { data: meData } = useMe()
+  const me = meData?.data ?? (meData as unknown as MeResponseDto | undefined)
+  const canRollback = !!me?.user && me.user.role !== "viewer"
+
+  const { data, isLoading, error } = useKeyHistory(connectionId, keyName, { db: database, keyEncoding })
+  const entries = (data?.data ?? (data as KeyHistoryResponseDto | undefined))?.entries ?? []
+  const { mutate: rollbackKey, isPending } = useRollbackRedisKey(connectionId, keyName, database)
+
+  const handleRollback = () => {
+    if (!rollbackTarget) {
+      return
+    }
+
+    rollbackKey(
+      {
+        historyId: rollbackTarget.entry.id,
+        data: { version: rollbackTarget.version, keyEncoding, db: database },
+      },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as RollbackKeyResponseDto | undefined)
+          toast.success(payload?.message ?? "Key rolled back")
+          setRollbackTarget(null)
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to roll back key")
+        },
+      }
+    )
+  }
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-sm border border-dashed p-6 text-center text-sm text-muted-foreground">
+        {error instanceof Error ? error.message : "Failed to load key history"}
+      </div>
+    )
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="rounded-sm border border-dashed p-6 text-center text-sm text-muted-foreground">
+        No recorded edits yet. Creating, updating, renaming and changing the TTL of this key are recorded here.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry) => {
+        const isExpanded = expandedId === entry.id
+
+        return (
+          <div key={entry.id} className="rounded-sm border bg-card">
+            <div className="flex items-center gap-2 px-3 py-2 text-sm">
+              <button
+                type="button"
+                className="flex flex-1 items-center gap-2 text-left"
+                onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+              >
+                {isExpanded ? <CaretDown className="h-3.5 w-3.5" /> : <CaretRight className="h-3.5 w-3.5" />}
+                <span className="font-medium">{operationLabels[entry.operation]}</span>
+                <span className="text-xs text-muted-foreground">
+                  {entry.changedBy ?? "Unknown user"} · {new Date(entry.changedAt).toLocaleString()}
+                </span>
+              </button>
+              {canRollback && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setRollbackTarget({ entry, version: "before" })}
+                  >
+                    <ArrowCounterClockwise className="h-3.5 w-3.5 mr-1" />
+                    Undo
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setRollbackTarget({ entry, version: "after" })}
+                    disabled={!entry.after}
+                  >
+                    Restore this version
+                  </Button>
+                </div>
+              )}
+            </div>
+            {isExpanded && (
+              <div className="border-t px-3 py-2">
+                <SnapshotDiff entry={entry} />
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      <Dialog open={!!rollbackTarget} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Roll Back Key</DialogTitle>
+            <DialogDescription>
+              {rollbackTarget?.version === "before"
+                ? rollbackTarget.entry.before
+                  ? "Overwrite the current value and TTL with the state before this change."
+                  : "The key did not exist before this change, rolling back deletes it."
+                : "Overwrite the current value and TTL with the state right after this change."}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRollbackTarget(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleRollback} disabled={isPending}>
+              {isPending ? "Rolling back..." : "Roll Back"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
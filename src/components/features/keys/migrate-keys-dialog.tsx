@@ -0,0 +1,301 @@
+"use client"
+
+import { useState } from "react"
+import { useConnections } from "@/lib/api/hooks/connections"
+import { useCancelMigration, useMigrationStatus, useStartMigration } from "@/lib/api/hooks/migrations"
+import type {
+  ListConnectionsResponseDto,
+  MigrationConflictPolicy,
+  MigrationStatusResponseDto,
+  StartMigrationResponseDto,
+} from "@/types"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ArrowsLeftRight, X } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+
+const databases = Array.from({ length: 16 }, (_, index) => index)
+
+interface MigrateKeysDialogProps {
+  connectionId: string
+  database: number
+  pattern: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onStarted: (migrationId: string, pattern: string) => void
+}
+
+export function MigrateKeysDialog({
+  connectionId,
+  database,
+  pattern: initialPattern,
+  open,
+  onOpenChange,
+  onStarted,
+}: MigrateKeysDialogProps) {
+  const [pattern, setPattern] = useState(initialPattern)
+  const [targetConnectionId, setTargetConnectionId] = useState("")
+  const [targetDb, setTargetDb] = useState(database)
+  const [conflictPolicy, setConflictPolicy] = useState<MigrationConflictPolicy>("skip")
+  const [renameSuffix, setRenameSuffix] = useState(":migrated")
+  const [batchSize, setBatchSize] = useState("100")
+  const [delayMs, setDelayMs] = useState("0")
+
+  const { data: connectionsData } = useConnections()
+  const connectionsGroup = (connectionsData?.data ?? (connectionsData as ListConnectionsResponseDto | undefined))?.connections
+  const connections = connectionsGroup ? [...(connectionsGroup.my || []), ...(connectionsGroup.shared || [])] : []
+  const { mutate: startMigration, isPending } = useStartMigration()
+
+  const isSameTarget = targetConnectionId === connectionId && targetDb === database
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const batch = Number(batchSize)
+    const delay = Number(delayMs)
+    if (!Number.isInteger(batch) || batch < 1 || batch > 1000) {
+      toast.fail("Batch size must be a whole number between 1 and 1000")
+      return
+    }
+    if (!Number.isInteger(delay) || delay < 0) {
+      toast.fail("Delay must be a non-negative whole number of milliseconds")
+      return
+    }
+
+    startMigration(
+      {
+        sourceConnectionId: connectionId,
+        sourceDb: database,
+        pattern: pattern.trim(),
+        targetConnectionId,
+        targetDb,
+        conflictPolicy,
+        renameSuffix: conflictPolicy === "rename" ? renameSuffix : undefined,
+        batchSize: batch,
+        delayMs: delay,
+      },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as StartMigrationResponseDto | undefined)
+          if (payload?.migrationId) {
+            onStarted(payload.migrationId, pattern.trim())
+            toast.info(`Migration of ${pattern.trim()} started`)
+          }
+          onOpenChange(false)
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to start migration")
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Migrate Keys</DialogTitle>
+            <DialogDescription>
+              Copy every key matching a pattern in Database {database} to another connection with DUMP and RESTORE.
+              The migration runs in the background, TTLs are kept.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="migratePattern">Key Pattern</Label>
+              <Input
+                id="migratePattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder="tenant:42:*"
+                className="font-mono"
+              />
+            </div>
+
+            <div className="grid grid-cols-[1fr_110px] gap-2">
+              <div className="grid gap-2">
+                <Label>Target Connection</Label>
+                <Select value={targetConnectionId} onValueChange={setTargetConnectionId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a connection" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {connections.map((connection) => (
+                      <SelectItem key={connection.id} value={connection.id}>
+                        {connection.name}
+                        {connection.id === connectionId ? " (this connection)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Database</Label>
+                <Select value={targetDb.toString()} onValueChange={(value) => setTargetDb(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {databases.map((db) => (
+                      <SelectItem key={db} value={db.toString()}>
+                        DB{db}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Existing Keys in the Target</Label>
+              <Select value={conflictPolicy} onValueChange={(value) => setConflictPolicy(value as MigrationConflictPolicy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Skip, keep the target value</SelectItem>
+                  <SelectItem value="replace">Replace with the source value</SelectItem>
+                  <SelectItem value="rename">Keep both, write the source under a new name</SelectItem>
+                </SelectContent>
+              </Select>
+              {conflictPolicy === "rename" && (
+                <Input
+                  value={renameSuffix}
+                  onChange={(e) => setRenameSuffix(e.target.value)}
+                  placeholder=":migrated"
+                  className="font-mono"
+                  title="Suffix appended to the key name"
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="migrateBatch">Batch Size</Label>
+                <Input
+                  id="migrateBatch"
+                  value={batchSize}
+                  onChange={(e) => setBatchSize(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="migrateDelay">Delay Between Batches (ms)</Label>
+                <Input
+                  id="migrateDelay"
+                  value={delayMs}
+                  onChange={(e) => setDelayMs(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isPending || !pattern.trim() || !targetConnectionId || isSameTarget || (conflictPolicy === "rename" && !renameSuffix)}
+            >
+              {isPending ? "Starting..." : "Start Migration"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface MigrationStatusBarProps {
+  migrationId: string
+  pattern: string
+  onDismiss: () => void
+}
+
+export function MigrationStatusBar({ migrationId, pattern, onDismiss }: MigrationStatusBarProps) {
+  const { data } = useMigrationStatus(migrationId)
+  const { mutate: cancelMigration, isPending: isCancelling } = useCancelMigration()
+  const job = data?.data ?? (data as MigrationStatusResponseDto | undefined)
+  const isRunning = !job?.status || job.status === "pending" || job.status === "processing"
+
+  const handleCancel = () => {
+    cancelMigration(migrationId, {
+      onError: (error: unknown) => {
+        toast.fail(error instanceof Error ? error.message : "Failed to cancel migration")
+      },
+    })
+  }
+
+  const counts = [
+    `${job?.migrated ?? 0} migrated`,
+    job?.renamed ? `${job.renamed} renamed` : null,
+    job?.skipped ? `${job.skipped} skipped` : null,
+    job?.failed ? `${job.failed} failed` : null,
+  ].filter(Boolean).join(" · ")
+
+  return (
+    <div className="flex flex-col gap-2 rounded-sm border bg-muted/20 px-3 py-2 text-xs">
+      <div className="flex items-center gap-2">
+        <ArrowsLeftRight className="h-3.5 w-3.5 text-muted-foreground" />
+        <span className="font-mono truncate">{pattern}</span>
+        <span className="text-muted-foreground">
+          {job?.status === "failed"
+            ? job.error || "Migration failed"
+            : job?.status === "cancelled"
+              ? `Cancelled · ${counts}`
+              : job?.status === "completed"
+                ? `Completed · ${counts}`
+                : `Migrating... ${Math.round(job?.progress ?? 0)}% · ${counts}`}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          {isRunning && (
+            <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={handleCancel} disabled={isCancelling}>
+              {isCancelling ? "Cancelling..." : "Cancel"}
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={onDismiss}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+      {isRunning && <Progress value={job?.progress ?? 0} />}
+      {!isRunning && !!job?.failedKeys?.length && (
+        <details className="text-muted-foreground">
+          <summary className="cursor-pointer">Failed keys</summary>
+          <ul className="mt-1 max-h-32 overflow-y-auto font-mono">
+            {job.failedKeys.map((entry) => (
+              <li key={entry} className="truncate" title={entry}>{entry}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
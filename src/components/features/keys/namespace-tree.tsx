@@ -0,0 +1,481 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useExportKeysByPrefix, useNamespace } from "@/lib/api/hooks/redis"
+import { useDownloadExport, useExportStatus } from "@/lib/api/hooks/import-export"
+import type {
+  ExportStatusResponseDto,
+  NamespaceNode,
+  NamespaceResponseDto,
+  PrefixBulkResponseDto,
+  RedisKey,
+} from "@/types"
+
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { DeletePrefixDialog, SetPrefixTtlDialog } from "@/components/features/keys/prefix-action-dialogs"
+import {
+  ArrowsLeftRight,
+  CaretDown,
+  CaretRight,
+  Clock,
+  DotsThree,
+  DownloadSimple,
+  Folder,
+  FolderOpen,
+  Key,
+  Table,
+  Trash,
+  X,
+} from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+
+interface NamespaceTreeProps {
+  connectionId: string
+  database: number
+  delimiter: string
+  onOpenKey: (key: RedisKey) => void
+  onShowInTable: (prefix: string) => void
+  onMigrate?: (prefix: string) => void
+}
+
+interface NamespaceActions {
+  onOpenKey: (key: RedisKey) => void
+  onShowInTable: (prefix: string) => void
+  onDelete: (node: NamespaceNode) => void
+  onSetTtl: (node: NamespaceNode) => void
+  onExport: (node: NamespaceNode) => void
+  onMigrate?: (prefix: string) => void
+}
+
+interface NamespaceLevelProps {
+  connectionId: string
+  database: number
+  delimiter: string
+  prefix: string
+  prefixHex?: string // Set when the prefix is not valid UTF-8
+  depth: number
+  actions: NamespaceActions
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) {
+    return `${Math.round(bytes)} B`
+  }
+
+  const kb = bytes / 1024
+  if (kb < 1024) {
+    return `${kb.toFixed(1)} KB`
+  }
+
+  const mb = kb / 1024
+  if (mb < 1024) {
+    return `${mb.toFixed(1)} MB`
+  }
+
+  return `${(mb / 1024).toFixed(1)} GB`
+}
+
+/**
+ * Combine the pages of a resumed scan: counts and memory samples add up per node
+ */
+function mergeNamespacePages(pages: NamespaceResponseDto[]) {
+  const nodes = new Map<string, NamespaceNode>()
+  const keys = new Map<string, RedisKey>()
+  let keyCount = 0
+  let scanned = 0
+  let truncated = false
+
+  for (const page of pages) {
+    for (const node of page.nodes ?? []) {
+      const existing = nodes.get(node.name)
+      nodes.set(node.name, existing
+        ? {
+          ...existing,
+          keyCount: existing.keyCount + node.keyCount,
+          sampledKeys: existing.sampledKeys + node.sampledKeys,
+          sampledBytes: existing.sampledBytes + node.sampledBytes,
+        }
+        : node)
+    }
+    for (const key of page.keys ?? []) {
+      keys.set(key.key, key)
+    }
+    keyCount += page.keyCount ?? 0
+    scanned += page.scanned ?? 0
+    truncated = truncated || (page.nodeCount ?? 0) > (page.nodes?.length ?? 0)
+  }
+
+  return {
+    nodes: Array.from(nodes.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    keys: Array.from(keys.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    keyCount,
+    scanned,
+    truncated,
+  }
+}
+
+function NamespaceLevel({ connectionId, database, delimiter, prefix, prefixHex, depth, actions }: NamespaceLevelProps) {
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } = useNamespace(connectionId, {
+    prefix: prefixHex ?? prefix,
+    prefixEncoding: prefixHex ? "hex" : undefined,
+    delimiter,
+    db: database,
+  })
+
+  const level = useMemo(
+    () => mergeNamespacePages(
+      (data?.pages ?? []).map((page) => page?.data ?? (page as unknown as NamespaceResponseDto))
+    ),
+    [data]
+  )
+  const indent = { paddingLeft: `${depth * 16 + 8}px` }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2 py-2" style={indent}>
+        <Skeleton className="h-3 w-48" />
+        <Skeleton className="h-3 w-36" />
+      </div>
+    )
+  }
+
+  const isEmpty = level.nodes.length === 0 && level.keys.length === 0
+
+  return (
+    <div>
+      {level.nodes.map((node) => (
+        <NamespaceNodeRow
+          key={node.prefix}
+          connectionId={connectionId}
+          database={database}
+          delimiter={delimiter}
+          node={node}
+          depth={depth}
+          partial={!!hasNextPage}
+          actions={actions}
+        />
+      ))}
+
+      {level.keys.map((key) => (
+        <div
+          key={key.key}
+          className="group flex items-center gap-2 py-1.5 pr-2 text-xs cursor-pointer transition-colors hover:bg-muted/50"
+          style={{ paddingLeft: `${depth * 16 + 30}px` }}
+          onClick={() => actions.onOpenKey(key)}
+        >
+          <Key className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          <span className="font-mono truncate">{key.key.slice(prefix.length)}</span>
+          <span className="ml-auto text-[10px] font-bold uppercase tracking-wider text-muted-foreground">{key.type}</span>
+          <span className="w-20 text-right tabular-nums text-muted-foreground">
+            {key.size !== undefined ? formatBytes(key.size) : "—"}
+          </span>
+          <span className="w-6" />
+        </div>
+      ))}
+
+      {(isEmpty || level.keyCount > level.keys.length || level.truncated || hasNextPage) && (
+        <div className="flex flex-wrap items-center gap-2 py-1.5 pr-2 text-xs text-muted-foreground" style={indent}>
+          {isEmpty && !hasNextPage && <span>No keys under this prefix.</span>}
+          {level.keyCount > level.keys.length && (
+            <span>Showing {level.keys.length} of {level.keyCount} keys at this level.</span>
+          )}
+          {level.truncated && <span>Only the largest prefixes are listed.</span>}
+          {(level.keyCount > level.keys.length || level.truncated) && (
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => actions.onShowInTable(prefix)}>
+              <Table className="h-3.5 w-3.5 mr-1" />
+              Show in table
+            </Button>
+          )}
+          {hasNextPage && (
+            <>
+              <span>Scanned {level.scanned} keys so far, counts are partial.</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? "Scanning..." : "Continue scan"}
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface NamespaceNodeRowProps {
+  connectionId: string
+  database: number
+  delimiter: string
+  node: NamespaceNode
+  depth: number
+  partial: boolean
+  actions: NamespaceActions
+}
+
+function NamespaceNodeRow({
+  connectionId,
+  database,
+  delimiter,
+  node,
+  depth,
+  partial,
+  actions,
+}: NamespaceNodeRowProps) {
+  const [expanded, setExpanded] = useState(false)
+  const estimatedBytes = node.sampledKeys > 0
+    ? (node.sampledBytes / node.sampledKeys) * node.keyCount
+    : undefined
+
+  return (
+    <div>
+      <div
+        className="group flex items-center gap-2 py-1.5 pr-2 text-xs cursor-pointer transition-colors hover:bg-muted/50"
+        style={{ paddingLeft: `${depth * 16 + 8}px` }}
+        onClick={() => setExpanded((prev) => !prev)}
+      >
+        {expanded ? (
+          <CaretDown className="h-3 w-3 shrink-0 text-muted-foreground" />
+        ) : (
+          <CaretRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+        )}
+        {expanded ? (
+          <FolderOpen className="h-3.5 w-3.5 shrink-0 text-primary" />
+        ) : (
+          <Folder className="h-3.5 w-3.5 shrink-0 text-primary" />
+        )}
+        <span className="font-mono truncate">
+          {node.name}
+          <span className="text-muted-foreground">{delimiter}</span>
+        </span>
+        <span className="ml-auto tabular-nums text-muted-foreground">
+          {node.keyCount}{partial ? "+" : ""} keys
+        </span>
+        <span
+          className="w-20 text-right tabular-nums text-muted-foreground"
+          title={estimatedBytes !== undefined ? `Estimated from ${node.sampledKeys} sampled keys` : undefined}
+        >
+          {estimatedBytes !== undefined ? `~${formatBytes(estimatedBytes)}` : "—"}
+        </span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <DotsThree className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={(e) => {
+              e.stopPropagation()
+              actions.onShowInTable(node.prefix)
+            }}>
+              <Table className="h-4 w-4 mr-2" />
+              Show in table
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={(e) => {
+              e.stopPropagation()
+              actions.onSetTtl(node)
+            }}>
+              <Clock className="h-4 w-4 mr-2" />
+              Set TTL
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={(e) => {
+              e.stopPropagation()
+              actions.onExport(node)
+            }}>
+              <DownloadSimple className="h-4 w-4 mr-2" />
+              Export
+            </DropdownMenuItem>
+            {actions.onMigrate && (
+              <DropdownMenuItem onClick={(e) => {
+                e.stopPropagation()
+                actions.onMigrate?.(node.prefix)
+              }}>
+                <ArrowsLeftRight className="h-4 w-4 mr-2" />
+                Migrate
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="text-destructive focus:text-destructive"
+              onClick={(e) => {
+                e.stopPropagation()
+                actions.onDelete(node)
+              }}
+            >
+              <Trash className="h-4 w-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {expanded && (
+        <NamespaceLevel
+          connectionId={connectionId}
+          database={database}
+          delimiter={delimiter}
+          prefix={node.prefix}
+          prefixHex={node.prefixHex}
+          depth={depth + 1}
+          actions={actions}
+        />
+      )}
+    </div>
+  )
+}
+
+interface PrefixExportStatusProps {
+  exportId: string
+  prefix: string
+  onDismiss: () => void
+}
+
+function PrefixExportStatus({ exportId, prefix, onDismiss }: PrefixExportStatusProps) {
+  const { data } = useExportStatus(exportId)
+  const { mutate: downloadExport, isPending } = useDownloadExport()
+  const job = data?.data ?? (data as ExportStatusResponseDto | undefined)
+
+  const handleDownload = () => {
+    downloadExport(exportId, {
+      onSuccess: (blob) => {
+        const url = window.URL.createObjectURL(blob)
+        const a = document.createElement("a")
+        a.href = url
+        a.download = `export-${prefix.replace(/[^a-zA-Z0-9_-]+/g, "_")}.json`
+        document.body.appendChild(a)
+        a.click()
+        window.URL.revokeObjectURL(url)
+        document.body.removeChild(a)
+      },
+      onError: (error: unknown) => {
+        toast.fail(error instanceof Error ? error.message : "Failed to download export")
+      },
+    })
+  }
+
+  return (
+    <div className="flex items-center gap-2 border-b bg-muted/20 px-3 py-2 text-xs">
+      <DownloadSimple className="h-3.5 w-3.5 text-muted-foreground" />
+      <span className="font-mono truncate">{prefix}*</span>
+      <span className="text-muted-foreground">
+        {job?.status === "completed"
+          ? `${job.recordCount ?? 0} keys exported`
+          : job?.status === "failed"
+            ? job.error || "Export failed"
+            : `Exporting... ${Math.round(job?.progress ?? 0)}%`}
+      </span>
+      <div className="ml-auto flex items-center gap-1">
+        {job?.status === "completed" && (
+          <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={handleDownload} disabled={isPending}>
+            {isPending ? "Downloading..." : "Download"}
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={onDismiss}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Key browser tree grouping keys by a delimiter, one lazily scanned level at a time
+ */
+export function NamespaceTree({
+  connectionId,
+  database,
+  delimiter,
+  onOpenKey,
+  onShowInTable,
+  onMigrate,
+}: NamespaceTreeProps) {
+  const [deleteTarget, setDeleteTarget] = useState<NamespaceNode | null>(null)
+  const [ttlTarget, setTtlTarget] = useState<NamespaceNode | null>(null)
+  const [exportJob, setExportJob] = useState<{ id: string; prefix: string } | null>(null)
+  const { mutate: exportByPrefix } = useExportKeysByPrefix(connectionId)
+
+  const handleExport = (node: NamespaceNode) => {
+    exportByPrefix({
+      prefix: node.prefixHex ?? node.prefix,
+      prefixEncoding: node.prefixHex ? "hex" : undefined,
+      db: database,
+    }, {
+      onSuccess: (result) => {
+        const payload = result?.data ?? (result as PrefixBulkResponseDto | undefined)
+        if (payload?.exportId) {
+          setExportJob({ id: payload.exportId, prefix: node.prefix })
+          toast.info(`Export of ${node.prefix}* started`)
+        }
+      },
+      onError: (error: unknown) => {
+        toast.fail(error instanceof Error ? error.message : "Failed to start export")
+      },
+    })
+  }
+
+  const actions: NamespaceActions = {
+    onOpenKey,
+    onShowInTable,
+    onDelete: setDeleteTarget,
+    onSetTtl: setTtlTarget,
+    onExport: handleExport,
+    onMigrate,
+  }
+
+  return (
+    <div className="border rounded-sm bg-card py-1">
+      {exportJob && (
+        <PrefixExportStatus
+          key={exportJob.id}
+          exportId={exportJob.id}
+          prefix={exportJob.prefix}
+          onDismiss={() => setExportJob(null)}
+        />
+      )}
+
+      <NamespaceLevel
+        connectionId={connectionId}
+        database={database}
+        delimiter={delimiter}
+        prefix=""
+        depth={0}
+        actions={actions}
+      />
+
+      <DeletePrefixDialog
+        connectionId={connectionId}
+        database={database}
+        node={deleteTarget}
+        onOpenChange={(open) => {
+          if (!open) setDeleteTarget(null)
+        }}
+      />
+
+      <SetPrefixTtlDialog
+        key={ttlTarget?.prefix ?? "none"}
+        connectionId={connectionId}
+        database={database}
+        node={ttlTarget}
+        onOpenChange={(open) => {
+          if (!open) setTtlTarget(null)
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,369 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { useBulkJobStatus, useCancelBulkJob, useStartBulkJob } from "@/lib/api/hooks/bulk-jobs"
+import type {
+  BulkJobOperation,
+  BulkJobStatusResponseDto,
+  StartBulkJobRequestDto,
+  StartBulkJobResponseDto,
+} from "@/types"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Broom, X } from "@phosphor-icons/react"
+import { toast } from "@/lib/toast"
+
+const operationLabels: Record<BulkJobOperation, string> = {
+  delete: "Delete",
+  expire: "Set TTL",
+  persist: "Remove TTL",
+}
+
+interface PatternBulkDialogProps {
+  connectionId: string
+  database: number
+  pattern: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onStarted: (jobId: string, label: string) => void
+}
+
+export function PatternBulkDialog({
+  connectionId,
+  database,
+  pattern: initialPattern,
+  open,
+  onOpenChange,
+  onStarted,
+}: PatternBulkDialogProps) {
+  const [pattern, setPattern] = useState(initialPattern)
+  const [operation, setOperation] = useState<BulkJobOperation>("delete")
+  const [ttl, setTtl] = useState("3600")
+  const [batchSize, setBatchSize] = useState("500")
+  const [delayMs, setDelayMs] = useState("0")
+  const [dryRunId, setDryRunId] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+  const [captureAll, setCaptureAll] = useState(false)
+
+  const { mutate: startBulkJob, isPending } = useStartBulkJob()
+  const { data: dryRunData } = useBulkJobStatus(dryRunId)
+  const dryRun = dryRunData?.data ?? (dryRunData as BulkJobStatusResponseDto | undefined)
+  const isCounting = !!dryRunId && (!dryRun?.status || dryRun.status === "pending" || dryRun.status === "processing")
+  const isCounted = dryRun?.status === "completed"
+  // Without a finished count the server treats the match as large
+  const needsConfirmation = !isCounted || !!dryRun?.confirmationRequired
+  // Past the capture limit a delete keeps only the first matches in the recycle bin unless told otherwise
+  const isCaptureLimited = operation === "delete" && (!isCounted || !!dryRun?.captureLimited)
+
+  const handlePatternChange = (value: string) => {
+    setPattern(value)
+    setDryRunId("")
+    setConfirmation("")
+    setCaptureAll(false)
+  }
+
+  const readLimits = () => {
+    const batch = Number(batchSize)
+    const delay = Number(delayMs)
+    if (!Number.isInteger(batch) || batch < 1 || batch > 5000) {
+      toast.fail("Batch size must be a whole number between 1 and 5000")
+      return null
+    }
+    if (!Number.isInteger(delay) || delay < 0) {
+      toast.fail("Delay must be a non-negative whole number of milliseconds")
+      return null
+    }
+    return { batchSize: batch, delayMs: delay }
+  }
+
+  const submit = (data: StartBulkJobRequestDto, onStartedJob: (jobId: string) => void) => {
+    startBulkJob(data, {
+      onSuccess: (result) => {
+        const payload = result?.data ?? (result as StartBulkJobResponseDto | undefined)
+        if (payload?.jobId) {
+          onStartedJob(payload.jobId)
+        }
+      },
+      onError: (error: unknown) => {
+        toast.fail(error instanceof Error ? error.message : "Failed to start bulk job")
+      },
+    })
+  }
+
+  const handleCount = () => {
+    const limits = readLimits()
+    if (!limits) {
+      return
+    }
+
+    submit(
+      { connectionId, db: database, pattern: pattern.trim(), operation, dryRun: true, ...limits },
+      setDryRunId
+    )
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const limits = readLimits()
+    if (!limits) {
+      return
+    }
+    const seconds = Number(ttl)
+    if (operation === "expire" && (!Number.isInteger(seconds) || seconds < 1)) {
+      toast.fail("TTL must be a positive whole number of seconds")
+      return
+    }
+
+    const trimmed = pattern.trim()
+    submit(
+      {
+        connectionId,
+        db: database,
+        pattern: trimmed,
+        operation,
+        ttl: operation === "expire" ? seconds : undefined,
+        dryRunId: isCounted ? dryRunId : undefined,
+        confirmation: needsConfirmation ? confirmation : undefined,
+        captureAll: isCaptureLimited && captureAll ? true : undefined,
+        ...limits,
+      },
+      (jobId) => {
+        onStarted(jobId, `${operationLabels[operation]} ${trimmed}`)
+        toast.info(`${operationLabels[operation]} on ${trimmed} started`)
+        onOpenChange(false)
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Bulk Action by Pattern</DialogTitle>
+            <DialogDescription>
+              Scan Database {database} for a pattern and delete, expire or persist every match in the background.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="bulkPattern">Key Pattern</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="bulkPattern"
+                  value={pattern}
+                  onChange={(e) => handlePatternChange(e.target.value)}
+                  placeholder="cache:v1:*"
+                  className="font-mono"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleCount}
+                  disabled={isPending || isCounting || !pattern.trim()}
+                >
+                  {isCounting ? "Counting..." : "Count"}
+                </Button>
+              </div>
+              {dryRunId && (
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  {isCounting ? (
+                    <>
+                      <span>{(dryRun?.matched ?? 0).toLocaleString()} matches so far</span>
+                      <Progress value={dryRun?.progress ?? 0} />
+                    </>
+                  ) : dryRun?.status === "failed" ? (
+                    <span className="text-destructive">{dryRun.error || "Count failed"}</span>
+                  ) : isCounted ? (
+                    <span>About {(dryRun?.matched ?? 0).toLocaleString()} matching keys</span>
+                  ) : null}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-[1fr_120px] gap-2">
+              <div className="grid gap-2">
+                <Label>Operation</Label>
+                <Select value={operation} onValueChange={(value) => setOperation(value as BulkJobOperation)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="delete">Delete (UNLINK)</SelectItem>
+                    <SelectItem value="expire">Set TTL (EXPIRE)</SelectItem>
+                    <SelectItem value="persist">Remove TTL (PERSIST)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {operation === "expire" && (
+                <div className="grid gap-2">
+                  <Label htmlFor="bulkTtl">TTL (seconds)</Label>
+                  <Input id="bulkTtl" value={ttl} onChange={(e) => setTtl(e.target.value)} inputMode="numeric" />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="bulkBatch">Batch Size</Label>
+                <Input
+                  id="bulkBatch"
+                  value={batchSize}
+                  onChange={(e) => setBatchSize(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="bulkDelay">Delay Between Batches (ms)</Label>
+                <Input
+                  id="bulkDelay"
+                  value={delayMs}
+                  onChange={(e) => setDelayMs(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+            </div>
+
+            {isCaptureLimited && (
+              <div className="grid gap-1">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="bulkCaptureAll"
+                    checked={captureAll}
+                    onCheckedChange={(checked) => setCaptureAll(checked === true)}
+                  />
+                  <Label htmlFor="bulkCaptureAll" className="text-sm font-normal">
+                    Keep every deleted key in the recycle bin
+                  </Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {isCounted ? "This match is large" : "The match has not been counted"}, only the first keys are
+                  kept otherwise. Keeping all of them copies every value into the app database.
+                </p>
+              </div>
+            )}
+
+            {needsConfirmation && (
+              <div className="grid gap-2">
+                <Label htmlFor="bulkConfirm">
+                  {isCounted ? "Large match, type the pattern to confirm" : "Type the pattern to confirm, or count the matches first"}
+                </Label>
+                <Input
+                  id="bulkConfirm"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  placeholder={pattern.trim()}
+                  className="font-mono"
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant={operation === "delete" ? "destructive" : "default"}
+              disabled={isPending || isCounting || !pattern.trim() || (needsConfirmation && confirmation !== pattern.trim())}
+            >
+              {isPending ? "Starting..." : `${operationLabels[operation]} Matches`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface BulkJobStatusBarProps {
+  connectionId: string
+  jobId: string
+  label: string
+  onDismiss: () => void
+}
+
+export function BulkJobStatusBar({ connectionId, jobId, label, onDismiss }: BulkJobStatusBarProps) {
+  const queryClient = useQueryClient()
+  const { data } = useBulkJobStatus(jobId)
+  const { mutate: cancelBulkJob, isPending: isCancelling } = useCancelBulkJob()
+  const job = data?.data ?? (data as BulkJobStatusResponseDto | undefined)
+  const isRunning = !job?.status || job.status === "pending" || job.status === "processing"
+
+  // Refresh the key list once the job stops changing keys
+  useEffect(() => {
+    if (job?.status && !isRunning) {
+      queryClient.invalidateQueries({ queryKey: ["redis", connectionId, "keys"] })
+    }
+  }, [job?.status, isRunning, connectionId, queryClient])
+
+  const handleCancel = () => {
+    cancelBulkJob(jobId, {
+      onError: (error: unknown) => {
+        toast.fail(error instanceof Error ? error.message : "Failed to cancel bulk job")
+      },
+    })
+  }
+
+  const counts = [
+    `${job?.affected ?? 0} of ${job?.matched ?? 0} keys`,
+    job?.failed ? `${job.failed} failed` : null,
+  ].filter(Boolean).join(" · ")
+
+  return (
+    <div className="flex flex-col gap-2 rounded-sm border bg-muted/20 px-3 py-2 text-xs">
+      <div className="flex items-center gap-2">
+        <Broom className="h-3.5 w-3.5 text-muted-foreground" />
+        <span className="font-mono truncate">{label}</span>
+        <span className="text-muted-foreground">
+          {job?.status === "failed"
+            ? job.error || "Bulk job failed"
+            : job?.status === "cancelled"
+              ? `Cancelled · ${counts}`
+              : job?.status === "completed"
+                ? `Completed · ${counts}`
+                : `Running... ${Math.round(job?.progress ?? 0)}% · ${counts}`}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          {isRunning && (
+            <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={handleCancel} disabled={isCancelling}>
+              {isCancelling ? "Cancelling..." : "Cancel"}
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={onDismiss}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+      {isRunning && <Progress value={job?.progress ?? 0} />}
+    </div>
+  )
+}
@@ -0,0 +1,337 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { useDeleteKeysByPrefix, useSetTtlByPrefix } from "@/lib/api/hooks/redis"
+import type { NamespaceNode, PrefixBulkResponseDto } from "@/types"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { toast } from "@/lib/toast"
+import { Clock, Database, FolderSimple, Warning } from "@phosphor-icons/react"
+
+interface PrefixActionDialogProps {
+  connectionId: string
+  database: number
+  node: NamespaceNode | null
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Request fields addressing the node, by its hex bytes when the prefix is not valid UTF-8
+ */
+function prefixRequest(node: NamespaceNode) {
+  return {
+    prefix: node.prefixHex ?? node.prefix,
+    prefixEncoding: node.prefixHex ? ("hex" as const) : undefined,
+  }
+}
+
+/**
+ * Share of the last scanned key count covered so far, keys created since then can push it past 100
+ */
+function batchProgress(node: NamespaceNode | null, totals: PrefixBulkResponseDto | null) {
+  return node?.keyCount ? Math.min(100, ((totals?.matched ?? 0) / node.keyCount) * 100) : 0
+}
+
+/**
+ * Stop requests for a batched prefix operation: the running batch finishes, no further one starts
+ */
+function useBatchStop() {
+  const stopRequested = useRef(false)
+  const [isStopping, setIsStopping] = useState(false)
+
+  return {
+    isStopping,
+    shouldContinue: () => !stopRequested.current,
+    reset: () => {
+      stopRequested.current = false
+      setIsStopping(false)
+    },
+    stop: () => {
+      stopRequested.current = true
+      setIsStopping(true)
+    },
+  }
+}
+
+export function DeletePrefixDialog({
+  connectionId,
+  database,
+  node,
+  onOpenChange,
+}: PrefixActionDialogProps) {
+  const [totals, setTotals] = useState<PrefixBulkResponseDto | null>(null)
+  const batches = useBatchStop()
+  const { mutate: deleteByPrefix, isPending } = useDeleteKeysByPrefix(connectionId)
+
+  const handleDelete = () => {
+    if (!node) {
+      return
+    }
+
+    batches.reset()
+    setTotals(null)
+    deleteByPrefix({
+      ...prefixRequest(node),
+      db: database,
+      onBatch: (batchTotals) => {
+        setTotals(batchTotals)
+        return batches.shouldContinue()
+      },
+    }, {
+      onSuccess: (result) => {
+        toast.success(result.hasMore
+          ? `Stopped after deleting ${result.affected ?? 0} keys under ${node.prefix}`
+          : `Deleted ${result.affected ?? 0} keys under ${node.prefix}`)
+        onOpenChange(false)
+      },
+      onError: (error: unknown) => {
+        toast.fail(error instanceof Error ? error.message : "Failed to delete keys")
+      },
+    })
+  }
+
+  // Closing while batches run stops them; the dialog closes once the running batch is done
+  const handleOpenChange = (open: boolean) => {
+    if (!open && isPending) {
+      batches.stop()
+      return
+    }
+    onOpenChange(open)
+  }
+
+  return (
+    <Dialog open={!!node} onOpenChange={handleOpenChange}>
+      <DialogContent size="sm" className="p-0 overflow-hidden border-destructive/20">
+        <div className="bg-destructive/10 border-b border-destructive/20">
+          <DialogHeader className="relative overflow-hidden">
+            <div className="absolute top-0 right-0 p-2 opacity-10 pointer-events-none">
+              <Warning className="size-16" />
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="flex p-2 rounded-lg bg-destructive text-destructive-foreground shadow-lg shadow-destructive/20">
+                <Warning className="size-5" weight="bold" />
+              </div>
+              <div className="flex flex-col gap-0.5">
+                <DialogTitle className="text-destructive">Delete Prefix</DialogTitle>
+                <DialogDescription>
+                  Every key under this prefix will be deleted.
+                </DialogDescription>
+              </div>
+            </div>
+          </DialogHeader>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="rounded-sm border border-destructive/20 bg-destructive/5 p-4">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="inline-flex items-center gap-2">
+                <FolderSimple className="h-3.5 w-3.5" />
+                Prefix
+              </span>
+              <span className="inline-flex items-center gap-1 rounded-sm border border-border/60 bg-muted/30 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide">
+                <Database className="h-3 w-3" />
+                DB {database}
+              </span>
+            </div>
+            <p className="mt-2 text-sm font-semibold text-destructive font-mono break-all">{node?.prefix}*</p>
+          </div>
+          <p className="text-sm text-muted-foreground leading-relaxed">
+            The last scan found {node?.keyCount ?? 0} keys under this prefix. Keys created since then are deleted too.
+            This action is permanent and cannot be undone.
+          </p>
+          {isPending && (
+            <div className="space-y-2">
+              <Progress value={batchProgress(node, totals)} />
+              <p className="text-xs text-muted-foreground tabular-nums">
+                Deleted {totals?.affected ?? 0} keys so far, {totals?.matched ?? 0} of about {node?.keyCount ?? 0} scanned
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="bg-destructive/5 border-t border-destructive/20 p-6 flex justify-between items-center w-full">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isPending && batches.isStopping}
+            className="h-11 border-border/80 bg-background/50 hover:bg-muted/40 transition-all active:scale-95 px-6"
+          >
+            {isPending ? (batches.isStopping ? "Stopping..." : "Stop") : "Cancel"}
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={isPending}
+            className="h-11 px-8 shadow-lg shadow-destructive/10 transition-all active:scale-95"
+          >
+            {isPending ? "Deleting..." : "Delete Keys"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function SetPrefixTtlDialog({
+  connectionId,
+  database,
+  node,
+  onOpenChange,
+}: PrefixActionDialogProps) {
+  const [ttl, setTtl] = useState("")
+  const [totals, setTotals] = useState<PrefixBulkResponseDto | null>(null)
+  const batches = useBatchStop()
+  const { mutate: setTtlByPrefix, isPending } = useSetTtlByPrefix(connectionId)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!node) {
+      return
+    }
+
+    const ttlValue = ttl.trim() === "" ? undefined : parseInt(ttl, 10)
+
+    if (ttlValue !== undefined && (isNaN(ttlValue) || ttlValue < 1)) {
+      toast.fail("TTL must be a positive number")
+      return
+    }
+
+    batches.reset()
+    setTotals(null)
+    setTtlByPrefix(
+      {
+        ...prefixRequest(node),
+        ttl: ttlValue,
+        db: database,
+        onBatch: (batchTotals) => {
+          setTotals(batchTotals)
+          return batches.shouldContinue()
+        },
+      },
+      {
+        onSuccess: (result) => {
+          const updated = `${ttlValue === undefined ? "Removed TTL from" : `Set TTL to ${ttlValue}s on`} ${result.affected ?? 0} keys`
+          toast.success(result.hasMore ? `${updated} before stopping` : updated)
+          onOpenChange(false)
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to set TTL")
+        },
+      }
+    )
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && isPending) {
+      batches.stop()
+      return
+    }
+    onOpenChange(open)
+  }
+
+  return (
+    <Dialog open={!!node} onOpenChange={handleOpenChange}>
+      <DialogContent size="sm" className="p-0 overflow-hidden">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader className="border-b bg-muted/10">
+            <div className="flex items-center gap-3">
+              <div className="flex p-2 rounded-lg bg-secondary/15 text-secondary shadow-sm">
+                <Clock className="size-5" weight="bold" />
+              </div>
+              <div className="flex flex-col gap-0.5">
+                <DialogTitle>Set TTL for Prefix</DialogTitle>
+                <DialogDescription>
+                  Control expiration for every key under &quot;{node?.prefix}&quot;.
+                </DialogDescription>
+              </div>
+            </div>
+          </DialogHeader>
+
+          <div className="p-6 space-y-4">
+            <div className="rounded-sm border bg-muted/30 p-4">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="inline-flex items-center gap-2">
+                  <FolderSimple className="h-3.5 w-3.5" />
+                  {node?.keyCount ?? 0} keys in last scan
+                </span>
+                <span className="inline-flex items-center gap-1 rounded-sm border border-border/60 bg-background/70 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide">
+                  <Database className="h-3 w-3" />
+                  DB {database}
+                </span>
+              </div>
+              <div className="mt-2 text-sm font-mono text-foreground break-all">{node?.prefix}*</div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="prefix-ttl">New TTL (seconds)</Label>
+              <Input
+                id="prefix-ttl"
+                type="number"
+                value={ttl}
+                onChange={(e) => setTtl(e.target.value)}
+                placeholder="No expiration"
+                min={1}
+                autoFocus
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" size="sm" className="h-7" onClick={() => setTtl("3600")}>
+                  1 hour
+                </Button>
+                <Button type="button" variant="outline" size="sm" className="h-7" onClick={() => setTtl("86400")}>
+                  1 day
+                </Button>
+                <Button type="button" variant="outline" size="sm" className="h-7" onClick={() => setTtl("604800")}>
+                  7 days
+                </Button>
+                <Button type="button" variant="ghost" size="sm" className="h-7" onClick={() => setTtl("")}>
+                  Remove TTL
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave empty to remove expiration from every key under the prefix.
+              </p>
+            </div>
+
+            {isPending && (
+              <div className="space-y-2">
+                <Progress value={batchProgress(node, totals)} />
+                <p className="text-xs text-muted-foreground tabular-nums">
+                  Updated {totals?.affected ?? 0} keys so far, {totals?.matched ?? 0} of about {node?.keyCount ?? 0} scanned
+                </p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter className="bg-muted/20 border-t p-6 flex justify-between items-center w-full">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isPending && batches.isStopping}
+              className="h-11 border-border/80 bg-background/50 hover:bg-muted/40 transition-all active:scale-95 px-6"
+            >
+              {isPending ? (batches.isStopping ? "Stopping..." : "Stop") : "Cancel"}
+            </Button>
+            <Button type="submit" disabled={isPending} className="h-11 px-8 transition-all active:scale-95">
+              {isPending ? "Setting..." : "Set TTL"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -20,6 +20,7 @@ import { toast } from "@/lib/toast"
 interface RenameKeyDialogProps {
   connectionId: string
   keyName: string
+  keyHex?: string // Set for keys that are not valid UTF-8, keyName is then only for display
   open: boolean
   onOpenChange: (open: boolean) => void
   database: number
@@ -28,6 +29,7 @@ interface RenameKeyDialogProps {
 export function RenameKeyDialog({
   connectionId,
   keyName,
+  keyHex,
   open,
   onOpenChange,
   database,
@@ -52,9 +54,10 @@ export function RenameKeyDialog({
 
     renameKey(
       {
-        key: keyName,
+        key: keyHex ?? keyName,
         data: {
           newKey: newKey.trim(),
+          keyEncoding: keyHex ? "hex" : undefined,
           db: database,
           nx,
         },
@@ -20,6 +20,7 @@ import { Clock, Database, Key } from "@phosphor-icons/react"
 interface SetTtlDialogProps {
   connectionId: string
   keyName: string
+  keyHex?: string // Set for keys that are not valid UTF-8, keyName is then only for display
   currentTtl?: number
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -29,6 +30,7 @@ interface SetTtlDialogProps {
 export function SetTtlDialog({
   connectionId,
   keyName,
+  keyHex,
   currentTtl,
   open,
   onOpenChange,
@@ -56,9 +58,10 @@ export function SetTtlDialog({
 
     setKeyTtl(
       {
-        key: keyName,
+        key: keyHex ?? keyName,
         data: {
           ttl: ttlValue,
+          keyEncoding: keyHex ? "hex" : undefined,
           db: database,
         },
       },
@@ -0,0 +1,121 @@
+"use client"
+
+import { useState } from "react"
+import { useRestoreDeletedKey } from "@/lib/api/hooks/redis"
+import type { DeletedKeyEntry, RestoreDeletedKeyResponseDto } from "@/types"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { toast } from "@/lib/toast"
+
+interface RestoreKeyDialogProps {
+  connectionId: string
+  entry: DeletedKeyEntry
+  onOpenChange: (open: boolean) => void
+}
+
+export function RestoreKeyDialog({ connectionId, entry, onOpenChange }: RestoreKeyDialogProps) {
+  const [useNewName, setUseNewName] = useState(false)
+  const [newKey, setNewKey] = useState(entry.keyHex ? "" : entry.key)
+  const [replace, setReplace] = useState(false)
+
+  const { mutate: restoreKey, isPending } = useRestoreDeletedKey(connectionId)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    restoreKey(
+      {
+        id: entry.id,
+        data: {
+          newKey: useNewName ? newKey.trim() : undefined,
+          replace,
+        },
+      },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as RestoreDeletedKeyResponseDto | undefined)
+          toast.success(payload?.message ?? "Key restored")
+          onOpenChange(false)
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to restore key")
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Restore Key</DialogTitle>
+            <DialogDescription>
+              Restore <span className="font-mono">{entry.key}</span> to Database {entry.database} with its value and remaining TTL.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="restoreNewName"
+                checked={useNewName}
+                onCheckedChange={(checked) => setUseNewName(checked === true)}
+              />
+              <Label htmlFor="restoreNewName" className="text-sm font-normal">
+                Restore under a new name
+              </Label>
+            </div>
+            {useNewName && (
+              <div className="grid gap-2">
+                <Label htmlFor="restoreKeyName">Key Name</Label>
+                <Input
+                  id="restoreKeyName"
+                  value={newKey}
+                  onChange={(e) => setNewKey(e.target.value)}
+                  className="font-mono"
+                  autoFocus
+                />
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="restoreReplace"
+                checked={replace}
+                onCheckedChange={(checked) => setReplace(checked === true)}
+              />
+              <Label htmlFor="restoreReplace" className="text-sm font-normal">
+                Overwrite the key if it already exists
+              </Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || (useNewName && !newKey.trim())}>
+              {isPending ? "Restoring..." : "Restore"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import type { SearchIndexInfo } from "@/types"
+import { Progress } from "@/components/ui/progress"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+
+interface IndexDetailsProps {
+  index: SearchIndexInfo
+}
+
+function formatCount(value?: number) {
+  return value === undefined ? "—" : value.toLocaleString()
+}
+
+export function IndexDetails({ index }: IndexDetailsProps) {
+  const percent = Math.round(index.percentIndexed * 100)
+  const stats = [
+    { label: "Documents", value: formatCount(index.numDocs) },
+    { label: "Records", value: formatCount(index.numRecords) },
+    { label: "Terms", value: formatCount(index.numTerms) },
+    { label: "Inverted index", value: index.invertedSizeMb === undefined ? "—" : `${index.invertedSizeMb.toFixed(2)} MB` },
+  ]
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-sm border border-border/60 bg-muted/20 px-3 py-2">
+            <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{stat.label}</div>
+            <div className="text-sm font-semibold">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="rounded-sm border px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider">
+          {index.keyType}
+        </span>
+        <span>
+          Prefixes:{" "}
+          <span className="font-mono text-foreground">
+            {index.prefixes.length > 0 ? index.prefixes.join(", ") : "all keys"}
+          </span>
+        </span>
+        {index.filter && (
+          <span>
+            Filter: <span className="font-mono text-foreground">{index.filter}</span>
+          </span>
+        )}
+        {index.indexingFailures > 0 && (
+          <span className="text-destructive">
+            {index.indexingFailures.toLocaleString()} documents failed to index
+          </span>
+        )}
+      </div>
+
+      {index.indexing && (
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">Indexing existing keys...</span>
+            <span className="font-semibold">{percent}%</span>
+          </div>
+          <Progress value={percent} />
+        </div>
+      )}
+
+      <div className="border rounded-sm bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">Field</TableHead>
+              <TableHead className="text-xs">Attribute</TableHead>
+              <TableHead className="text-xs">Type</TableHead>
+              <TableHead className="text-xs">Options</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {index.fields.map((field) => (
+              <TableRow key={`${field.identifier}-${field.attribute}`}>
+                <TableCell className="font-mono text-xs">{field.identifier}</TableCell>
+                <TableCell className={cn("font-mono text-xs", field.attribute === field.identifier && "text-muted-foreground")}>
+                  {field.attribute}
+                </TableCell>
+                <TableCell className="text-xs font-semibold">{field.type}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">{field.options.join(" ") || "—"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,398 @@
+"use client"
+
+import { useState } from "react"
+import { useCreateSearchIndex, useDropSearchIndex } from "@/lib/api/hooks/redis"
+import type { CreateSearchIndexRequestDto, SearchIndexResponseDto } from "@/types"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "@/lib/toast"
+import { FloppyDisk, MagnifyingGlass, Plus, Trash, Warning, X } from "@phosphor-icons/react"
+
+type SchemaField = CreateSearchIndexRequestDto["fields"][number]
+
+const fieldTypes: Array<SchemaField["type"]> = ["TEXT", "TAG", "NUMERIC", "GEO"]
+
+const emptyField = (): SchemaField => ({ identifier: "", attribute: "", type: "TEXT", sortable: false })
+
+interface CreateSearchIndexDialogProps {
+  connectionId: string
+  database: number
+  onCreated?: (name: string) => void
+}
+
+export function CreateSearchIndexDialog({ connectionId, database, onCreated }: CreateSearchIndexDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [keyType, setKeyType] = useState<CreateSearchIndexRequestDto["keyType"]>("HASH")
+  const [prefixes, setPrefixes] = useState("")
+  const [filter, setFilter] = useState("")
+  const [fields, setFields] = useState<SchemaField[]>([emptyField()])
+  const [skipInitialScan, setSkipInitialScan] = useState(false)
+  const { mutate: createIndex, isPending } = useCreateSearchIndex(connectionId)
+
+  const resetForm = () => {
+    setName("")
+    setKeyType("HASH")
+    setPrefixes("")
+    setFilter("")
+    setFields([emptyField()])
+    setSkipInitialScan(false)
+  }
+
+  const updateField = (index: number, changes: Partial<SchemaField>) => {
+    setFields((current) => current.map((field, i) => (i === index ? { ...field, ...changes } : field)))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const schema = fields
+      .filter((field) => field.identifier.trim())
+      .map((field) => ({
+        identifier: field.identifier.trim(),
+        attribute: field.attribute?.trim() || undefined,
+        type: field.type,
+        sortable: field.sortable || undefined,
+      }))
+
+    if (!name.trim()) {
+      toast.fail("Index name is required")
+      return
+    }
+
+    if (schema.length === 0) {
+      toast.fail("At least one schema field is required")
+      return
+    }
+
+    createIndex(
+      {
+        name: name.trim(),
+        keyType,
+        prefixes: prefixes.split(",").map((prefix) => prefix.trim()).filter(Boolean),
+        filter: filter.trim() || undefined,
+        fields: schema,
+        skipInitialScan,
+        db: database,
+      },
+      {
+        onSuccess: (result) => {
+          const payload = result?.data ?? (result as SearchIndexResponseDto | undefined)
+          toast.success(payload?.message || "Index created")
+          onCreated?.(name.trim())
+          setOpen(false)
+          resetForm()
+        },
+        onError: (error: unknown) => {
+          toast.fail(error instanceof Error ? error.message : "Failed to create index")
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="h-8">
+          <Plus className="h-4 w-4 mr-1" />
+          New Index
+        </Button>
+      </DialogTrigger>
+      <DialogContent size="lg" className="p-0 overflow-hidden border-border/80">
+        <form onSubmit={handleSubmit}>
+          <div className="bg-success/5 border-b border-success/20">
+            <DialogHeader className="p-4 flex-row items-center gap-3 relative overflow-hidden">
+              <div className="absolute top-0 right-0 p-4 opacity-5 pointer-events-none text-success">
+                <MagnifyingGlass className="size-24 rotate-12" />
+              </div>
+              <div className="flex p-2 rounded-lg bg-success text-success-foreground shadow-lg shadow-success/20">
+                <MagnifyingGlass className="size-5" weight="bold" />
+              </div>
+              <div className="flex flex-col gap-0 z-10">
+                <DialogTitle className="text-base font-bold">Create Search Index</DialogTitle>
+                <DialogDescription className="text-xs text-foreground/60">
+                  FT.CREATE · Database {database}
+                </DialogDescription>
+              </div>
+            </DialogHeader>
+          </div>
+
+          <div className="grid gap-4 p-6 max-h-[60vh] overflow-y-auto">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="index-name" className="text-xs font-bold uppercase tracking-wider text-muted-foreground/70">Index Name</Label>
+                <Input
+                  id="index-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="idx:products"
+                  className="font-mono h-10"
+                  autoFocus
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label className="text-xs font-bold uppercase tracking-wider text-muted-foreground/70">Indexes</Label>
+                <Select value={keyType} onValueChange={(v) => setKeyType(v as CreateSearchIndexRequestDto["keyType"])}>
+                  <SelectTrigger className="h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="HASH">Hashes</SelectItem>
+                    <SelectItem value="JSON">JSON documents</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="index-prefixes" className="text-xs font-bold uppercase tracking-wider text-muted-foreground/70">Key Prefixes</Label>
+                <Input
+                  id="index-prefixes"
+                  value={prefixes}
+                  onChange={(e) => setPrefixes(e.target.value)}
+                  placeholder="product:, item: (all keys when empty)"
+                  className="font-mono h-10 text-xs"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="index-filter" className="text-xs font-bold uppercase tracking-wider text-muted-foreground/70">Filter</Label>
+                <Input
+                  id="index-filter"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="@price > 0 (optional)"
+                  className="font-mono h-10 text-xs"
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label className="text-xs font-bold uppercase tracking-wider text-muted-foreground/70">Schema</Label>
+              {fields.map((field, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={field.identifier}
+                    onChange={(e) => updateField(index, { identifier: e.target.value })}
+                    placeholder={keyType === "JSON" ? "$.title" : "title"}
+                    className="flex-1 h-8 font-mono text-xs"
+                  />
+                  <Input
+                    value={field.attribute ?? ""}
+                    onChange={(e) => updateField(index, { attribute: e.target.value })}
+                    placeholder="AS (optional)"
+                    className="w-32 h-8 font-mono text-xs"
+                  />
+                  <Select value={field.type} onValueChange={(v) => updateField(index, { type: v as SchemaField["type"] })}>
+                    <SelectTrigger size="sm" className="w-[110px] h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fieldTypes.map((type) => (
+                        <SelectItem key={type} value={type} className="text-xs">
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-1.5 text-[10px] font-semibold uppercase text-muted-foreground">
+                    <Switch
+                      checked={!!field.sortable}
+                      onCheckedChange={(checked) => updateField(index, { sortable: checked })}
+                    />
+                    Sort
+                  </label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setFields((current) => current.filter((_, i) => i !== index))}
+                    disabled={fields.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="h-8 w-fit"
+                onClick={() => setFields((current) => [...current, emptyField()])}
+              >
+                <Plus className="h-3.5 w-3.5 mr-1" />
+                Add Field
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between rounded-sm border border-border/60 bg-muted/20 p-3">
+              <div className="flex flex-col">
+                <span className="text-sm font-bold leading-tight">Skip initial scan</span>
+                <span className="text-[10px] font-medium text-muted-foreground">Only index keys written after creation</span>
+              </div>
+              <Switch checked={skipInitialScan} onCheckedChange={setSkipInitialScan} />
+            </div>
+          </div>
+
+          <DialogFooter className="bg-muted/10 border-t border-border/80 p-4 flex justify-between items-center w-full">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isPending}
+              className="h-11 border-border/80 bg-background/50 hover:bg-muted/40 backdrop-blur-md transition-all active:scale-95 flex items-center gap-2 px-6"
+            >
+              <X size={18} weight="light" />
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isPending || !name.trim()}
+              className="h-11 px-8 bg-success/80 hover:bg-success/90 text-success-foreground font-bold shadow-lg shadow-success/20 backdrop-blur-md transition-all active:scale-95 flex items-center gap-2"
+            >
+              <FloppyDisk size={18} weight="bold" />
+              {isPending ? "Creating..." : "Create Index"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface DropSearchIndexDialogProps {
+  connectionId: string
+  database: number
+  index: string | null
+  onOpenChange: (open: boolean) => void
+  onDropped?: () => void
+}
+
+export function DropSearchIndexDialog({
+  connectionId,
+  database,
+  index,
+  onOpenChange,
+  onDropped,
+}: DropSearchIndexDialogProps) {
+  const [deleteDocuments, setDeleteDocuments] = useState(false)
+  const { mutate: dropIndex, isPending } = useDropSearchIndex(connectionId)
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setDeleteDocuments(false)
+    }
+    onOpenChange(open)
+  }
+
+  const handleDrop = () => {
+    if (!index) {
+      return
+    }
+
+    dropIndex({ index, deleteDocuments, db: database }, {
+      onSuccess: (result) => {
+        const payload = result?.data ?? (result as SearchIndexResponseDto | undefined)
+        toast.success(payload?.message || "Index dropped")
+        onDropped?.()
+        handleOpenChange(false)
+      },
+      onError: (error: unknown) => {
+        toast.fail(error instanceof Error ? error.message : "Failed to drop index")
+      },
+    })
+  }
+
+  return (
+    <Dialog open={!!index} onOpenChange={handleOpenChange}>
+      <DialogContent size="sm" className="p-0 overflow-hidden border-destructive/20">
+        <div className="bg-destructive/10 border-b border-destructive/20">
+          <DialogHeader className="relative overflow-hidden">
+            <div className="absolute top-0 right-0 p-2 opacity-10 pointer-events-none">
+              <Warning className="size-16" />
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="flex p-2 rounded-lg bg-destructive text-destructive-foreground shadow-lg shadow-destructive/20">
+                <Warning className="size-5" weight="bold" />
+              </div>
+              <div className="flex flex-col gap-0.5">
+                <DialogTitle className="text-destructive">Drop Index</DialogTitle>
+                <DialogDescription>
+                  Queries against this index stop working.
+                </DialogDescription>
+              </div>
+            </div>
+          </DialogHeader>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="rounded-sm border border-destructive/20 bg-destructive/5 p-4">
+            <span className="inline-flex items-center gap-2 text-xs text-muted-foreground">
+              <MagnifyingGlass className="h-3.5 w-3.5" />
+              Index
+            </span>
+            <p className="mt-2 text-sm font-semibold text-destructive font-mono break-all">{index}</p>
+          </div>
+          <div className="flex items-center justify-between rounded-sm border border-border/60 bg-muted/20 p-3">
+            <div className="flex flex-col">
+              <span className="text-sm font-bold leading-tight">Delete documents</span>
+              <span className="text-[10px] font-medium text-muted-foreground">Also delete every indexed key (DD)</span>
+            </div>
+            <Switch
+              checked={deleteDocuments}
+              onCheckedChange={setDeleteDocuments}
+              className="data-[state=checked]:bg-destructive"
+            />
+          </div>
+          <p className="text-sm text-muted-foreground leading-relaxed">
+            {deleteDocuments
+              ? "The index and all of its documents are removed. This action is permanent and cannot be undone."
+              : "Only the index is removed, the indexed keys stay in place and the index can be recreated."}
+          </p>
+        </div>
+
+        <DialogFooter className="bg-destructive/5 border-t border-destructive/20 p-6 flex justify-between items-center w-full">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isPending}
+            className="h-11 border-border/80 bg-background/50 hover:bg-muted/40 transition-all active:scale-95 px-6"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={handleDrop}
+            disabled={isPending}
+            className="h-11 px-8 shadow-lg shadow-destructive/10 transition-all active:scale-95"
+          >
+            <Trash className="h-4 w-4 mr-1" />
+            {isPending ? "Dropping..." : "Drop Index"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
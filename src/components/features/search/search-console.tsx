@@ -0,0 +1,284 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useAggregateQuery, useSearchQuery } from "@/lib/api/hooks/redis"
+import type {
+  AggregateQueryDto,
+  AggregateResponseDto,
+  SearchIndexInfo,
+  SearchQueryDto,
+  SearchResponseDto,
+} from "@/types"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { CaretLeft, CaretRight, Funnel, MagnifyingGlass } from "@phosphor-icons/react"
+
+const PAGE_SIZE = 20
+
+type ConsoleMode = "search" | "aggregate"
+
+interface SearchConsoleProps {
+  connectionId: string
+  database: number
+  index: SearchIndexInfo
+  onOpenDocument: (key: string) => void
+}
+
+export function SearchConsole({ connectionId, database, index, onOpenDocument }: SearchConsoleProps) {
+  const [mode, setMode] = useState<ConsoleMode>("search")
+  const [query, setQuery] = useState("*")
+  const [pipeline, setPipeline] = useState("")
+  const [sortBy, setSortBy] = useState("none")
+  const [sortOrder, setSortOrder] = useState<"ASC" | "DESC">("ASC")
+  const [offset, setOffset] = useState(0)
+  const [submitted, setSubmitted] = useState({ query: "*", pipeline: "" })
+
+  const sortableFields = useMemo(
+    () => index.fields.filter((field) => field.options.includes("SORTABLE")).map((field) => field.attribute),
+    [index.fields]
+  )
+
+  const searchParams: SearchQueryDto | null =
+    mode === "search"
+      ? {
+          query: submitted.query,
+          offset,
+          limit: PAGE_SIZE,
+          sortBy: sortBy === "none" ? undefined : sortBy,
+          sortOrder,
+          db: database,
+        }
+      : null
+  const aggregateParams: AggregateQueryDto | null =
+    mode === "aggregate"
+      ? {
+          query: submitted.query,
+          pipeline: submitted.pipeline || undefined,
+          offset,
+          limit: PAGE_SIZE,
+          db: database,
+        }
+      : null
+
+  const searchResult = useSearchQuery(connectionId, index.name, searchParams)
+  const aggregateResult = useAggregateQuery(connectionId, index.name, aggregateParams)
+  const active = mode === "search" ? searchResult : aggregateResult
+  const search = searchResult.data?.data ?? (searchResult.data as SearchResponseDto | undefined)
+  const aggregate = aggregateResult.data?.data ?? (aggregateResult.data as AggregateResponseDto | undefined)
+  const total = mode === "search" ? search?.total : aggregate?.total
+  const error = active.error instanceof Error ? active.error.message : undefined
+
+  // Documents of one page can carry different fields, show the union as columns
+  const documentColumns = useMemo(() => {
+    const columns = new Set<string>()
+    search?.documents?.forEach((document) => Object.keys(document.fields).forEach((name) => columns.add(name)))
+    return [...columns]
+  }, [search])
+  const aggregateColumns = useMemo(() => {
+    const columns = new Set<string>()
+    aggregate?.rows?.forEach((row) => Object.keys(row).forEach((name) => columns.add(name)))
+    return [...columns]
+  }, [aggregate])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!query.trim()) {
+      return
+    }
+    setOffset(0)
+    setSubmitted({ query: query.trim(), pipeline: pipeline.trim() })
+  }
+
+  const handleModeChange = (nextMode: ConsoleMode) => {
+    setMode(nextMode)
+    setOffset(0)
+  }
+
+  const rowCount = mode === "search" ? search?.documents?.length ?? 0 : aggregate?.rows?.length ?? 0
+  const hasPrevious = offset > 0
+  const hasNext = total !== undefined ? offset + PAGE_SIZE < total : rowCount === PAGE_SIZE
+
+  return (
+    <div className="flex flex-col gap-3">
+      <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center rounded-sm border p-0.5">
+            <Button
+              type="button"
+              size="sm"
+              variant={mode === "search" ? "secondary" : "ghost"}
+              className="h-7 px-2 text-xs"
+              onClick={() => handleModeChange("search")}
+            >
+              <MagnifyingGlass className="h-3.5 w-3.5 mr-1" />
+              Search
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={mode === "aggregate" ? "secondary" : "ghost"}
+              className="h-7 px-2 text-xs"
+              onClick={() => handleModeChange("aggregate")}
+            >
+              <Funnel className="h-3.5 w-3.5 mr-1" />
+              Aggregate
+            </Button>
+          </div>
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="@title:redis @price:[0 100]"
+            className="flex-1 min-w-[200px] h-8 font-mono text-xs"
+          />
+          {mode === "search" && sortableFields.length > 0 && (
+            <>
+              <Select value={sortBy} onValueChange={setSortBy}>
+                <SelectTrigger size="sm" className="w-[140px] h-8 text-xs">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none" className="text-xs">No sorting</SelectItem>
+                  {sortableFields.map((field) => (
+                    <SelectItem key={field} value={field} className="text-xs font-mono">
+                      {field}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={sortOrder} onValueChange={(v) => setSortOrder(v as "ASC" | "DESC")}>
+                <SelectTrigger size="sm" className="w-[90px] h-8 text-xs" disabled={sortBy === "none"}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ASC" className="text-xs">ASC</SelectItem>
+                  <SelectItem value="DESC" className="text-xs">DESC</SelectItem>
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          <Button type="submit" size="sm" className="h-8" disabled={!query.trim()}>
+            Run
+          </Button>
+        </div>
+        {mode === "aggregate" && (
+          <Input
+            value={pipeline}
+            onChange={(e) => setPipeline(e.target.value)}
+            placeholder="GROUPBY 1 @city REDUCE COUNT 0 AS count SORTBY 2 @count DESC"
+            className="h-8 font-mono text-xs"
+          />
+        )}
+      </form>
+
+      {error ? (
+        <div className="rounded-sm border border-destructive/30 bg-destructive/5 p-3 text-xs text-destructive">
+          {error}
+        </div>
+      ) : (
+        <div className="border rounded-sm bg-card">
+          {active.isLoading ? (
+            <div className="p-6 text-center text-muted-foreground text-sm">Running query...</div>
+          ) : rowCount === 0 ? (
+            <div className="p-6 text-center text-muted-foreground text-sm">No results.</div>
+          ) : mode === "search" ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Key</TableHead>
+                  {documentColumns.map((column) => (
+                    <TableHead key={column} className="text-xs font-mono">{column}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {search?.documents?.map((document) => (
+                  <TableRow key={document.id}>
+                    <TableCell className="font-mono text-xs">
+                      <button
+                        type="button"
+                        className="text-left hover:underline text-primary"
+                        onClick={() => onOpenDocument(document.id)}
+                      >
+                        {document.id}
+                      </button>
+                    </TableCell>
+                    {documentColumns.map((column) => (
+                      <TableCell key={column} className="font-mono text-xs max-w-[280px] truncate" title={document.fields[column]}>
+                        {document.fields[column] ?? "—"}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {aggregateColumns.map((column) => (
+                    <TableHead key={column} className="text-xs font-mono">{column}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {aggregate?.rows?.map((row, i) => (
+                  <TableRow key={i}>
+                    {aggregateColumns.map((column) => (
+                      <TableCell key={column} className="font-mono text-xs max-w-[280px] truncate" title={row[column]}>
+                        {row[column] ?? "—"}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {rowCount > 0
+            ? `${offset + 1}–${offset + rowCount}${total !== undefined ? ` of ${total.toLocaleString()}` : ""}`
+            : ""}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2"
+            onClick={() => setOffset((current) => Math.max(0, current - PAGE_SIZE))}
+            disabled={!hasPrevious || active.isFetching}
+          >
+            <CaretLeft className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2"
+            onClick={() => setOffset((current) => current + PAGE_SIZE)}
+            disabled={!hasNext || active.isFetching}
+          >
+            <CaretRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
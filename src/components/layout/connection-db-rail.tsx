@@ -3,9 +3,10 @@
 import Link from "next/link"
 import { usePathname, useSearchParams } from "next/navigation"
 import { cn } from "@/lib/utils"
-import { ChartLineUp, Key, StackSimple } from "@phosphor-icons/react"
-import { useRedisDatabases } from "@/lib/api/hooks/redis"
-import type { ListDatabasesResponseDto } from "@/types"
+import { Broadcast, ChartLineUp, Eye, GitDiff, Key, MagnifyingGlass, StackSimple, TerminalWindow, Trash } from "@phosphor-icons/react"
+import { useRedisDatabases, useRedisModules } from "@/lib/api/hooks/redis"
+import { useMe } from "@/lib/api"
+import type { ListDatabasesResponseDto, ListModulesResponseDto, MeResponseDto } from "@/types"
 
 const DATABASES = Array.from({ length: 16 }, (_, index) => index)
 
@@ -22,6 +23,18 @@ export function ConnectionDbRail({ connectionId }: ConnectionDbRailProps) {
     const activeDbParam = searchParams.get("db")
     const activeDb = activeDbParam ? Number(activeDbParam) : 0
     const isOverview = pathname.endsWith(`/connections/${connectionId}`)
+    const isKeys = pathname.includes(`/connections/${connectionId}/keys`)
+    const isSearch = pathname.includes(`/connections/${connectionId}/search`)
+    const isCompare = pathname.includes(`/connections/${connectionId}/compare`)
+    const isRecentlyDeleted = pathname.includes(`/connections/${connectionId}/recently-deleted`)
+    const isPubSub = pathname.includes(`/connections/${connectionId}/pubsub`)
+    const isCli = pathname.includes(`/connections/${connectionId}/cli`)
+    const isMonitor = pathname.includes(`/connections/${connectionId}/monitor`)
+    const { data: meData } = useMe()
+    const isAdmin = (meData?.data ?? (meData as unknown as MeResponseDto | undefined))?.user?.role === "admin"
+    const { data: modulesData } = useRedisModules(connectionId)
+    const modules = (modulesData?.data ?? (modulesData as ListModulesResponseDto | undefined))?.modules ?? []
+    const hasSearch = modules.some((module) => module.name === "search")
     const dbItems = databases.length
         ? databases
         : DATABASES.map((db) => ({ number: db, keyCount: 0 }))
@@ -51,7 +64,7 @@ export function ConnectionDbRail({ connectionId }: ConnectionDbRailProps) {
                     href={`/connections/${connectionId}/keys?db=${activeDb}`}
                     className={cn(
                         "flex items-center gap-2 rounded-sm border px-3 py-2 text-xs font-semibold transition-colors",
-                        !isOverview
+                        isKeys
                             ? "border-secondary/30 bg-secondary/10 text-secondary"
                             : "border-border/60 text-muted-foreground hover:bg-muted/60 hover:text-foreground"
                     )}
@@ -60,6 +73,88 @@ export function ConnectionDbRail({ connectionId }: ConnectionDbRailProps) {
                     <Key className="h-4 w-4" />
                     Keys DB{activeDb}
                 </Link>
+                <Link
+                    href={`/connections/${connectionId}/compare?db=${activeDb}`}
+                    className={cn(
+                        "flex items-center gap-2 rounded-sm border px-3 py-2 text-xs font-semibold transition-colors",
+                        isCompare
+                            ? "border-secondary/30 bg-secondary/10 text-secondary"
+                            : "border-border/60 text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                    )}
+                    title="Compare keyspaces"
+                >
+                    <GitDiff className="h-4 w-4" />
+                    Compare
+                </Link>
+                <Link
+                    href={`/connections/${connectionId}/recently-deleted?db=${activeDb}`}
+                    className={cn(
+                        "flex items-center gap-2 rounded-sm border px-3 py-2 text-xs font-semibold transition-colors",
+                        isRecentlyDeleted
+                            ? "border-secondary/30 bg-secondary/10 text-secondary"
+                            : "border-border/60 text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                    )}
+                    title="Recently deleted keys"
+                >
+                    <Trash className="h-4 w-4" />
+                    Recently Deleted
+                </Link>
+                <Link
+                    href={`/connections/${connectionId}/pubsub?db=${activeDb}`}
+                    className={cn(
+                        "flex items-center gap-2 rounded-sm border px-3 py-2 text-xs font-semibold transition-colors",
+                        isPubSub
+                            ? "border-secondary/30 bg-secondary/10 text-secondary"
+                            : "border-border/60 text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                    )}
+                    title="Pub/Sub channels and messages"
+                >
+                    <Broadcast className="h-4 w-4" />
+                    Pub/Sub
+                </Link>
+                <Link
+                    href={`/connections/${connectionId}/cli?db=${activeDb}`}
+                    className={cn(
+                        "flex items-center gap-2 rounded-sm border px-3 py-2 text-xs font-semibold transition-colors",
+                        isCli
+                            ? "border-secondary/30 bg-secondary/10 text-secondary"
+                            : "border-border/60 text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                    )}
+                    title={`Console (DB${activeDb})`}
+                >
+                    <TerminalWindow className="h-4 w-4" />
+                    Console
+                </Link>
+                {(isAdmin || isMonitor) && (
+                    <Link
+                        href={`/connections/${connectionId}/monitor?db=${activeDb}`}
+                        className={cn(
+                            "flex items-center gap-2 rounded-sm border px-3 py-2 text-xs font-semibold transition-colors",
+                            isMonitor
+                                ? "border-secondary/30 bg-secondary/10 text-secondary"
+                                : "border-border/60 text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                        )}
+                        title="Live MONITOR of all commands"
+                    >
+                        <Eye className="h-4 w-4" />
+                        Monitor
+                    </Link>
+                )}
+                {(hasSearch || isSearch) && (
+                    <Link
+                        href={`/connections/${connectionId}/search?db=${activeDb}`}
+                        className={cn(
+                            "flex items-center gap-2 rounded-sm border px-3 py-2 text-xs font-semibold transition-colors",
+                            isSearch
+                                ? "border-secondary/30 bg-secondary/10 text-secondary"
+                                : "border-border/60 text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                        )}
+                        title="Search indexes"
+                    >
+                        <MagnifyingGlass className="h-4 w-4" />
+                        Search
+                    </Link>
+                )}
             </div>
 
             <div className="rounded-sm border border-border/60 bg-muted/20 p-3 text-xs text-muted-foreground">
@@ -83,7 +178,7 @@ export function ConnectionDbRail({ connectionId }: ConnectionDbRailProps) {
                         href={`/connections/${connectionId}/keys?db=${db.number}`}
                         className={cn(
                             "flex h-10 items-center justify-between rounded-sm border px-3 text-xs font-semibold transition-colors",
-                            !isOverview && activeDb === db.number
+                            isKeys && activeDb === db.number
                                 ? "border-secondary/30 bg-secondary/10 text-secondary"
                                 : hasKeys
                                 ? "border-success/30 bg-success/5 text-foreground"
@@ -104,6 +104,7 @@ export function EditConnectionDialog({
             database: connection.database,
             useTls: connection.useTls,
             isShared: connection.isShared,
+            keyDelimiter: connection.keyDelimiter,
         }
     }, [connection])
 
@@ -86,6 +86,7 @@ export function ConnectionForm({
             port: 6379,
             database: 0,
             useTls: false,
+            keyDelimiter: ":",
             ...initialValues,
         }),
         [initialValues]
@@ -247,17 +248,31 @@ export function ConnectionForm({
                             <h3 className="text-sm font-semibold text-foreground/80">Connection Details</h3>
                         </div>
 
-                        <Field>
-                            <FieldTitle className="text-[11px] font-bold uppercase tracking-wider text-muted-foreground/70">Connection Name</FieldTitle>
-                            <FieldContent>
-                                <Input
-                                    placeholder="e.g. Production Redis"
-                                    {...manualForm.register("name")}
-                                    className="h-10 bg-background/50 border-border/80 focus-visible:ring-1"
-                                />
-                            </FieldContent>
-                            <FieldError errors={[{ message: manualForm.formState.errors.name?.message }]} />
-                        </Field>
+                        <div className="grid grid-cols-3 gap-4">
+                            <Field className="col-span-2">
+                                <FieldTitle className="text-[11px] font-bold uppercase tracking-wider text-muted-foreground/70">Connection Name</FieldTitle>
+                                <FieldContent>
+                                    <Input
+                                        placeholder="e.g. Production Redis"
+                                        {...manualForm.register("name")}
+                                        className="h-10 bg-background/50 border-border/80 focus-visible:ring-1"
+                                    />
+                                </FieldContent>
+                                <FieldError errors={[{ message: manualForm.formState.errors.name?.message }]} />
+                            </Field>
+
+                            <Field>
+                                <FieldTitle className="text-[11px] font-bold uppercase tracking-wider text-muted-foreground/70">Key Delimiter</FieldTitle>
+                                <FieldContent>
+                                    <Input
+                                        placeholder=":"
+                                        {...manualForm.register("keyDelimiter")}
+                                        className="h-10 bg-background/50 border-border/80 font-mono focus-visible:ring-1"
+                                    />
+                                </FieldContent>
+                                <FieldError errors={[{ message: manualForm.formState.errors.keyDelimiter?.message }]} />
+                            </Field>
+                        </div>
 
                         <div className="grid grid-cols-3 gap-4">
                             <Field className="col-span-2">
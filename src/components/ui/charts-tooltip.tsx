@@ -7,7 +7,8 @@ interface ChartTooltipProps {
     name: string
     payload?: unknown
   }>
-  label?: string
+  label?: string | number
+  labelFormatter?: (label: string | number) => string
   showPercentage?: boolean
   total?: number
   formatter?: (value: number, name: string, payload?: unknown) => string | [string, string]
@@ -17,6 +18,7 @@ export function ChartTooltip({
   active,
   payload,
   label,
+  labelFormatter,
   showPercentage = false,
   total,
   formatter,
@@ -27,9 +29,9 @@ export function ChartTooltip({
 
   return (
     <div className="bg-popover border rounded-lg p-3 text-sm shadow-lg">
-      {label && (
+      {label !== undefined && label !== "" && (
         <div className="text-muted-foreground mb-2 pb-1 border-b font-medium">
-          {label}
+          {labelFormatter ? labelFormatter(label) : label}
         </div>
       )}
       {payload.map((item, index) => {
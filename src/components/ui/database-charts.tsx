@@ -12,6 +12,8 @@ import {
   Pie,
   Cell,
   Legend,
+  LineChart,
+  Line,
 } from "recharts"
 import { useMemo } from "react"
 import { useTheme } from "@/components/theme-provider"
@@ -237,3 +239,88 @@ function formatBytesCompact(bytes: number): string {
   const value = bytes / Math.pow(k, i)
   return `${value.toFixed(1)}${["B", "K", "M", "G"][i]}`
 }
+
+interface TimeSeriesChartProps {
+  series: { name: string; samples: { timestamp: number; value: number }[] }[]
+  height?: number
+}
+
+function formatTimestamp(timestamp: number) {
+  return new Date(timestamp).toLocaleString()
+}
+
+export function TimeSeriesChart({ series, height = 250 }: TimeSeriesChartProps) {
+  const theme = useChartTheme()
+
+  // One row per timestamp, series without a sample at that time are left as gaps
+  const data = useMemo(() => {
+    const rows = new Map<number, Record<string, number>>()
+    series.forEach(({ name, samples }) => {
+      samples.forEach(({ timestamp, value }) => {
+        const row = rows.get(timestamp) ?? { timestamp }
+        row[name] = value
+        rows.set(timestamp, row)
+      })
+    })
+    return [...rows.values()].sort((a, b) => a.timestamp - b.timestamp)
+  }, [series])
+
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-muted-foreground text-sm" style={{ height }}>
+        No samples in this range
+      </div>
+    )
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke={theme.gridColor} />
+        <XAxis
+          dataKey="timestamp"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(timestamp: number) => new Date(timestamp).toLocaleTimeString()}
+          tick={{ fill: theme.textColor, fontSize: 11 }}
+          axisLine={{ stroke: theme.gridColor }}
+          tickLine={{ stroke: theme.gridColor }}
+        />
+        <YAxis
+          tick={{ fill: theme.textColor, fontSize: 11 }}
+          axisLine={{ stroke: theme.gridColor }}
+          tickLine={{ stroke: theme.gridColor }}
+        />
+        <Tooltip
+          content={
+            <ChartTooltip
+              labelFormatter={(timestamp) => formatTimestamp(Number(timestamp))}
+              formatter={(value: number, name: string) => [value.toLocaleString(), name]}
+            />
+          }
+        />
+        {series.length > 1 && (
+          <Legend
+            verticalAlign="bottom"
+            height={30}
+            iconType="circle"
+            wrapperStyle={{ fontSize: "11px", color: theme.textColor }}
+          />
+        )}
+        {series.map(({ name }, index) => (
+          <Line
+            key={name}
+            type="monotone"
+            dataKey={name}
+            stroke={COLORS[index % COLORS.length]}
+            dot={false}
+            strokeWidth={1.5}
+            connectNulls
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  )
+}
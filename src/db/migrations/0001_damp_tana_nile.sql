@@ -0,0 +1 @@
+ALTER TABLE `connections` ADD `key_delimiter` text DEFAULT ':' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `deleted_keys` (
+	`id` text PRIMARY KEY NOT NULL,
+	`connection_id` text NOT NULL,
+	`database` integer DEFAULT 0 NOT NULL,
+	`key_name` text NOT NULL,
+	`key_bytes` blob NOT NULL,
+	`type` text NOT NULL,
+	`pttl` integer NOT NULL,
+	`payload` blob NOT NULL,
+	`size` integer NOT NULL,
+	`source` text NOT NULL,
+	`deleted_by` text,
+	`deleted_at` integer NOT NULL,
+	FOREIGN KEY (`connection_id`) REFERENCES `connections`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`deleted_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `deleted_keys_connection_id_deleted_at_idx` ON `deleted_keys` (`connection_id`,`deleted_at`);--> statement-breakpoint
+CREATE INDEX `deleted_keys_deleted_at_idx` ON `deleted_keys` (`deleted_at`);
\ No newline at end of file
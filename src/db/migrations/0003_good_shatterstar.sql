@@ -0,0 +1,19 @@
+CREATE TABLE `key_history` (
+	`id` text PRIMARY KEY NOT NULL,
+	`connection_id` text NOT NULL,
+	`database` integer DEFAULT 0 NOT NULL,
+	`key_name` text NOT NULL,
+	`key_bytes` blob NOT NULL,
+	`operation` text NOT NULL,
+	`before` text,
+	`after` text,
+	`audit_log_id` text,
+	`changed_by` text,
+	`changed_at` integer NOT NULL,
+	FOREIGN KEY (`connection_id`) REFERENCES `connections`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`audit_log_id`) REFERENCES `audit_logs`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`changed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `key_history_key_idx` ON `key_history` (`connection_id`,`database`,`key_bytes`);--> statement-breakpoint
+CREATE INDEX `key_history_changed_at_idx` ON `key_history` (`changed_at`);
\ No newline at end of file
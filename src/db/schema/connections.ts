@@ -21,6 +21,7 @@ export const connections = sqliteTable('connections', {
   useTls: integer('use_tls', { mode: 'boolean' }).notNull().default(false),
   tlsCertPath: text('tls_cert_path'), // Custom certificate path
   isShared: integer('is_shared', { mode: 'boolean' }).notNull().default(false),
+  keyDelimiter: text('key_delimiter').notNull().default(':'), // Namespace separator for the key tree view
   ownerId: text('owner_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   lastStatus: text('last_status', { enum: ['connected', 'error', 'unknown'] }).default('unknown'),
   lastError: text('last_error'),
@@ -3,3 +3,5 @@ export * from './users'
 export * from './connections'
 export * from './audit'
 export * from './settings'
+export * from './recycle-bin'
+export * from './key-history'
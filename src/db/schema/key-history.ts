@@ -0,0 +1,34 @@
+import {
+  sqliteTable,
+  text,
+  integer,
+  blob,
+  index,
+} from 'drizzle-orm/sqlite-core'
+import { nanoid } from 'nanoid'
+import { users } from './users'
+import { connections } from './connections'
+import { auditLogs } from './audit'
+
+// Key history - before/after snapshots of key edits, used for diffs and rollback
+export const keyHistory = sqliteTable('key_history', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  connectionId: text('connection_id').notNull().references(() => connections.id, { onDelete: 'cascade' }),
+  database: integer('database').notNull().default(0),
+  keyName: text('key_name').notNull(), // Display name, escaped (\xNN) when not valid UTF-8
+  keyBytes: blob('key_bytes', { mode: 'buffer' }).notNull(), // Exact key name, follows the key on rename
+  operation: text('operation', { enum: ['create', 'update', 'ttl', 'rename', 'rollback'] }).notNull(),
+  before: text('before'), // JSON snapshot, null when the key did not exist
+  after: text('after'), // JSON snapshot, null when the key no longer exists
+  auditLogId: text('audit_log_id').references(() => auditLogs.id, { onDelete: 'set null' }),
+  changedBy: text('changed_by').references(() => users.id, { onDelete: 'set null' }),
+  changedAt: integer('changed_at', { mode: 'timestamp_ms' }).notNull().$defaultFn(() => new Date()), // Milliseconds, edits in the same second stay ordered
+}, (table) => {
+  return {
+    keyIdx: index('key_history_key_idx').on(table.connectionId, table.database, table.keyBytes),
+    changedAtIdx: index('key_history_changed_at_idx').on(table.changedAt),
+  }
+})
+
+export type KeyHistory = typeof keyHistory.$inferSelect
+export type NewKeyHistory = typeof keyHistory.$inferInsert
@@ -0,0 +1,34 @@
+import {
+  sqliteTable,
+  text,
+  integer,
+  blob,
+  index,
+} from 'drizzle-orm/sqlite-core'
+import { nanoid } from 'nanoid'
+import { users } from './users'
+import { connections } from './connections'
+
+// Recycle bin - DUMP payloads of deleted keys, kept until restored or pruned
+export const deletedKeys = sqliteTable('deleted_keys', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  connectionId: text('connection_id').notNull().references(() => connections.id, { onDelete: 'cascade' }),
+  database: integer('database').notNull().default(0),
+  keyName: text('key_name').notNull(), // Display name, escaped (\xNN) when not valid UTF-8
+  keyBytes: blob('key_bytes', { mode: 'buffer' }).notNull(), // Exact key name for RESTORE
+  type: text('type').notNull(), // TYPE reply at deletion
+  pttl: integer('pttl').notNull(), // Remaining TTL in milliseconds at deletion, -1 for no expiry
+  payload: blob('payload', { mode: 'buffer' }).notNull(), // DUMP payload
+  size: integer('size').notNull(), // Payload size in bytes
+  source: text('source', { enum: ['key', 'bulk', 'prefix', 'pattern'] }).notNull(), // Operation that deleted the key
+  deletedBy: text('deleted_by').references(() => users.id, { onDelete: 'set null' }),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => {
+  return {
+    connectionDeletedAtIdx: index('deleted_keys_connection_id_deleted_at_idx').on(table.connectionId, table.deletedAt),
+    deletedAtIdx: index('deleted_keys_deleted_at_idx').on(table.deletedAt),
+  }
+})
+
+export type DeletedKey = typeof deletedKeys.$inferSelect
+export type NewDeletedKey = typeof deletedKeys.$inferInsert
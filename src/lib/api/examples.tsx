@@ -150,7 +150,7 @@ export function ConnectionManagementExample() {
 
 // Example: Redis Key Browser Component
 export function RedisKeyBrowserExample({ connectionId }: { connectionId: string }) {
-  const { data: keys, isLoading } = useRedisKeys(connectionId, { page: 1, limit: 25 })
+  const { data: keys, isLoading } = useRedisKeys(connectionId, { limit: 25 })
   const createKeyMutation = useCreateRedisKey(connectionId)
 
   const handleCreateKey = (keyData: CreateKeyRequestDto) => {
@@ -0,0 +1,50 @@
+/**
+ * Pattern bulk job React hooks
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { BulkJobsApiService } from '../services/bulk-jobs'
+import type { BulkJobStatusResponseDto, StartBulkJobRequestDto } from '@/types'
+
+const bulkJobsApi = new BulkJobsApiService()
+
+/**
+ * Hook for starting a bulk job or a dry run
+ */
+export function useStartBulkJob() {
+  return useMutation({
+    mutationFn: (data: StartBulkJobRequestDto) => bulkJobsApi.startBulkJob(data),
+  })
+}
+
+/**
+ * Hook for getting bulk job status
+ */
+export function useBulkJobStatus(jobId: string) {
+  return useQuery({
+    queryKey: ['bulk-job', 'status', jobId],
+    queryFn: () => bulkJobsApi.getBulkJobStatus(jobId),
+    enabled: !!jobId,
+    staleTime: 5 * 1000, // 5 seconds
+    // Poll every 2 seconds until the job finishes
+    refetchInterval: (query) => {
+      const data = query.state.data
+      const status = (data?.data ?? (data as BulkJobStatusResponseDto | undefined))?.status
+      return status === 'pending' || status === 'processing' || !status ? 2000 : false
+    },
+  })
+}
+
+/**
+ * Hook for cancelling a running bulk job
+ */
+export function useCancelBulkJob() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (jobId: string) => bulkJobsApi.cancelBulkJob(jobId),
+    onSuccess: (_, jobId) => {
+      queryClient.invalidateQueries({ queryKey: ['bulk-job', 'status', jobId] })
+    },
+  })
+}
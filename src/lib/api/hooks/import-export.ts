@@ -7,6 +7,7 @@ import { ImportExportApiService } from '../services/import-export'
 import type {
   ExportConnectionRequestDto,
   ExportKeysRequestDto,
+  ExportStatusResponseDto,
   ImportConnectionRequestDto,
   ImportKeysRequestDto,
 } from '@/types'
@@ -68,7 +69,12 @@ export function useExportStatus(exportId: string) {
     queryFn: () => importExportApi.getExportStatus(exportId),
     enabled: !!exportId,
     staleTime: 5 * 1000, // 5 seconds
-    refetchInterval: 2000, // Poll every 2 seconds
+    // Poll every 2 seconds until the job finishes
+    refetchInterval: (query) => {
+      const data = query.state.data
+      const status = (data?.data ?? (data as ExportStatusResponseDto | undefined))?.status
+      return status === 'completed' || status === 'failed' ? false : 2000
+    },
   })
 }
 
@@ -11,3 +11,5 @@ export * from './settings'
 export * from './preferences'
 export * from './import-export'
 export * from './system'
+export * from './migrations'
+export * from './bulk-jobs'
@@ -0,0 +1,50 @@
+/**
+ * Keyspace migration React hooks
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { MigrationsApiService } from '../services/migrations'
+import type { MigrationStatusResponseDto, StartMigrationRequestDto } from '@/types'
+
+const migrationsApi = new MigrationsApiService()
+
+/**
+ * Hook for starting a migration job
+ */
+export function useStartMigration() {
+  return useMutation({
+    mutationFn: (data: StartMigrationRequestDto) => migrationsApi.startMigration(data),
+  })
+}
+
+/**
+ * Hook for getting migration status
+ */
+export function useMigrationStatus(migrationId: string) {
+  return useQuery({
+    queryKey: ['migration', 'status', migrationId],
+    queryFn: () => migrationsApi.getMigrationStatus(migrationId),
+    enabled: !!migrationId,
+    staleTime: 5 * 1000, // 5 seconds
+    // Poll every 2 seconds until the job finishes
+    refetchInterval: (query) => {
+      const data = query.state.data
+      const status = (data?.data ?? (data as MigrationStatusResponseDto | undefined))?.status
+      return status === 'pending' || status === 'processing' || !status ? 2000 : false
+    },
+  })
+}
+
+/**
+ * Hook for cancelling a running migration
+ */
+export function useCancelMigration() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (migrationId: string) => migrationsApi.cancelMigration(migrationId),
+    onSuccess: (_, migrationId) => {
+      queryClient.invalidateQueries({ queryKey: ['migration', 'status', migrationId] })
+    },
+  })
+}
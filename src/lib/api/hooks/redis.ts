@@ -2,14 +2,97 @@
  * Redis Operations React hooks
  */
 
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useEffect, useState } from 'react'
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { RedisApiService } from '../services/redis'
+import { ApiError } from '../client'
 import type {
   CreateKeyRequestDto,
   UpdateKeyRequestDto,
+  DecodeValueQueryDto,
+  KeyEncoding,
   ListKeysQueryDto,
+  ListKeysResponseDto,
   RenameKeyRequestDto,
+  CopyKeysRequestDto,
   SetTtlRequestDto,
+  NamespaceQueryDto,
+  NamespaceResponseDto,
+  PrefixBulkRequestDto,
+  PrefixBulkResponseDto,
+  PrefixTtlRequestDto,
+  PrefixExportRequestDto,
+  CollectionPageQueryDto,
+  HashSetFieldsRequestDto,
+  HashDeleteFieldsRequestDto,
+  HashRenameFieldRequestDto,
+  ListPushItemsRequestDto,
+  ListPopItemsRequestDto,
+  ListSetItemRequestDto,
+  ListInsertItemRequestDto,
+  ListRemoveItemsRequestDto,
+  SetMembersRequestDto,
+  SetRenameMemberRequestDto,
+  ZSetAddMembersRequestDto,
+  ZSetIncrementRequestDto,
+  ZSetRemoveMembersRequestDto,
+  ZSetRenameMemberRequestDto,
+  JsonPathQueryDto,
+  JsonSetRequestDto,
+  JsonArrAppendRequestDto,
+  JsonDeleteRequestDto,
+  TimeSeriesRangeQueryDto,
+  TimeSeriesMRangeQueryDto,
+  TimeSeriesAddRequestDto,
+  TimeSeriesDeleteRequestDto,
+  ProbabilisticAddRequestDto,
+  ProbabilisticQueryDto,
+  CuckooDeleteRequestDto,
+  HyperLogLogMergeRequestDto,
+  BitmapPageQueryDto,
+  BitmapPositionQueryDto,
+  BitmapSetBitRequestDto,
+  GeoPageQueryDto,
+  GeoSearchQueryDto,
+  GeoAddRequestDto,
+  ElementEditResponseDto,
+  StreamRangeQueryDto,
+  StreamAddEntryRequestDto,
+  StreamDeleteEntriesRequestDto,
+  StreamTrimRequestDto,
+  StreamPendingQueryDto,
+  CreateStreamGroupRequestDto,
+  SetStreamGroupIdRequestDto,
+  StreamAckRequestDto,
+  StreamClaimRequestDto,
+  GetSearchIndexResponseDto,
+  CreateSearchIndexRequestDto,
+  DropSearchIndexQueryDto,
+  SearchQueryDto,
+  AggregateQueryDto,
+  CompareKeyspacesRequestDto,
+  KeyDiffQueryDto,
+  SyncKeysRequestDto,
+  ListDeletedKeysQueryDto,
+  RestoreDeletedKeyRequestDto,
+  KeyHistoryQueryDto,
+  RollbackKeyRequestDto,
+  ChangeSetRequestDto,
+  ApplyChangeSetRequestDto,
+  ListPubSubChannelsQueryDto,
+  PubSubSubscribeQueryDto,
+  PubSubMessage,
+  PublishMessageRequestDto,
+  UpdateKeyspaceNotificationsRequestDto,
+  KeyspaceEventsQueryDto,
+  KeyspaceEvent,
+  ExecuteCommandRequestDto,
+  MonitorQueryDto,
+  MonitorStarted,
+  MonitorCommand,
+  MonitorSummary,
+  MonitorEnded,
+  ApiResponse,
 } from '@/types'
 
 const redisApi = new RedisApiService()
@@ -26,18 +109,47 @@ export function useRedisKeys(connectionId: string, params?: ListKeysQueryDto) {
   })
 }
 
+/**
+ * Hook for browsing Redis keys page by page via continuation tokens
+ */
+export function useRedisKeyPages(connectionId: string, params?: Omit<ListKeysQueryDto, 'cursor'>) {
+  return useInfiniteQuery({
+    queryKey: ['redis', connectionId, 'keys', params, 'pages'],
+    queryFn: ({ pageParam }) => redisApi.getKeys(connectionId, { ...params, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => {
+      const page = lastPage?.data ?? (lastPage as unknown as ListKeysResponseDto | undefined)
+      return page?.hasMore ? page.cursor : undefined
+    },
+    enabled: !!connectionId,
+    staleTime: 10 * 1000, // 10 seconds
+  })
+}
+
 /**
  * Hook for getting single Redis key
  */
-export function useRedisKey(connectionId: string, key: string, db?: number) {
+export function useRedisKey(connectionId: string, key: string, db?: number, keyEncoding?: KeyEncoding) {
   return useQuery({
     queryKey: ['redis', connectionId, 'keys', key, db],
-    queryFn: () => redisApi.getKey(connectionId, key, db),
+    queryFn: () => redisApi.getKey(connectionId, key, db, keyEncoding),
     enabled: !!connectionId && !!key,
     staleTime: 5 * 1000, // 5 seconds
   })
 }
 
+/**
+ * Hook for decoding a string value or hash field
+ */
+export function useDecodedValue(connectionId: string, key: string, params?: DecodeValueQueryDto, enabled = true) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, 'decode', params],
+    queryFn: () => redisApi.decodeValue(connectionId, key, params),
+    enabled: !!connectionId && !!key && enabled,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
 /**
  * Hook for creating Redis key
  */
@@ -67,6 +179,33 @@ export function useUpdateRedisKey(connectionId: string, key: string, db?: number
   })
 }
 
+/**
+ * Hook for the edit history of a key, refreshed with the key itself
+ */
+export function useKeyHistory(connectionId: string, key: string, params: KeyHistoryQueryDto) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params.db, 'history', params],
+    queryFn: () => redisApi.getKeyHistory(connectionId, key, params),
+    enabled: !!connectionId && !!key,
+  })
+}
+
+/**
+ * Hook for rolling a key back to a version from its history
+ */
+export function useRollbackRedisKey(connectionId: string, key: string, db?: number) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ historyId, data }: { historyId: string; data: RollbackKeyRequestDto }) =>
+      redisApi.rollbackKey(connectionId, key, historyId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+  })
+}
+
 /**
  * Hook for deleting Redis key
  */
@@ -74,7 +213,8 @@ export function useDeleteRedisKey(connectionId: string) {
   const queryClient = useQueryClient()
   
   return useMutation({
-    mutationFn: ({ key, db }: { key: string; db?: number }) => redisApi.deleteKey(connectionId, key, db),
+    mutationFn: ({ key, db, keyEncoding }: { key: string; db?: number; keyEncoding?: KeyEncoding }) =>
+      redisApi.deleteKey(connectionId, key, db, keyEncoding),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
     },
@@ -105,6 +245,18 @@ export function useRedisInfo(connectionId: string) {
   })
 }
 
+/**
+ * Hook for listing loaded Redis modules
+ */
+export function useRedisModules(connectionId: string) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'modules'],
+    queryFn: () => redisApi.getModules(connectionId),
+    enabled: !!connectionId,
+    staleTime: 5 * 60 * 1000, // 5 minutes, modules only change on restart
+  })
+}
+
 /**
  * Hook for getting database info
  */
@@ -161,6 +313,387 @@ export function useRenameRedisKey(connectionId: string) {
   })
 }
 
+/**
+ * Hook for copying or moving keys, refreshing the target connection's keys as well
+ */
+export function useCopyRedisKeys(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CopyKeysRequestDto) => redisApi.copyKeys(connectionId, data),
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+      if (data.targetConnectionId && data.targetConnectionId !== connectionId) {
+        queryClient.invalidateQueries({ queryKey: ['redis', data.targetConnectionId, 'keys'] })
+      }
+    },
+  })
+}
+
+/**
+ * Hook for comparing keyspaces, runs once params are set
+ */
+export function useCompareKeyspaces(connectionId: string, params: CompareKeyspacesRequestDto | null) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'compare', params],
+    queryFn: () => redisApi.compareKeyspaces(connectionId, params!),
+    enabled: !!connectionId && !!params,
+    staleTime: Infinity, // Rerun on demand, a full scan of both sides is expensive
+  })
+}
+
+/**
+ * Hook for the element-level diff of one compared key
+ */
+export function useKeyDiff(connectionId: string, key: string, params: KeyDiffQueryDto) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'compare', 'key', key, params],
+    queryFn: () => redisApi.diffKey(connectionId, key, params),
+    enabled: !!connectionId && !!key,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for syncing compared keys, refreshing the comparison and both sides' keys
+ */
+export function useSyncKeys(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: SyncKeysRequestDto) => redisApi.syncKeys(connectionId, data),
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'compare'] })
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+      if (data.targetConnectionId && data.targetConnectionId !== connectionId) {
+        queryClient.invalidateQueries({ queryKey: ['redis', data.targetConnectionId, 'keys'] })
+      }
+    },
+  })
+}
+
+/**
+ * Hook for the connection's recycle bin
+ */
+export function useDeletedKeys(connectionId: string, params: ListDeletedKeysQueryDto) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'recycle-bin', params],
+    queryFn: () => redisApi.listDeletedKeys(connectionId, params),
+    enabled: !!connectionId,
+  })
+}
+
+/**
+ * Hook for restoring a key from the recycle bin
+ */
+export function useRestoreDeletedKey(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RestoreDeletedKeyRequestDto }) =>
+      redisApi.restoreDeletedKey(connectionId, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'recycle-bin'] })
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+    },
+  })
+}
+
+/**
+ * Hook for permanently removing one key, or every key, from the recycle bin
+ */
+export function usePurgeDeletedKeys(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id?: string) => id
+      ? redisApi.purgeDeletedKey(connectionId, id)
+      : redisApi.emptyRecycleBin(connectionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'recycle-bin'] })
+    },
+  })
+}
+
+/**
+ * Hook for previewing a change set
+ */
+export function usePreviewChangeSet(connectionId: string) {
+  return useMutation({
+    mutationFn: (data: ChangeSetRequestDto) => redisApi.previewChangeSet(connectionId, data),
+  })
+}
+
+/**
+ * Hook for applying a change set
+ */
+export function useApplyChangeSet(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: ApplyChangeSetRequestDto) => redisApi.applyChangeSet(connectionId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'recycle-bin'] })
+    },
+  })
+}
+
+/**
+ * Hook for the active Pub/Sub channels, refreshed while the page is open
+ */
+export function usePubSubChannels(connectionId: string, params: ListPubSubChannelsQueryDto = {}) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'pubsub', 'channels', params],
+    queryFn: () => redisApi.listPubSubChannels(connectionId, params),
+    enabled: !!connectionId,
+    refetchInterval: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for a live Pub/Sub subscription over server-sent events.
+ * Keeps the latest messages across subscriptions until cleared, pass null to unsubscribe.
+ */
+export function usePubSubSubscription(connectionId: string, params: PubSubSubscribeQueryDto | null, limit = 500) {
+  const url = connectionId && params ? redisApi.getPubSubSubscribeUrl(connectionId, params) : null
+  const [messages, setMessages] = useState<PubSubMessage[]>([])
+  const [connection, setConnection] = useState<{ url: string; status: 'open' | 'reconnecting' | 'closed' } | null>(null)
+
+  useEffect(() => {
+    if (!url) {
+      return
+    }
+
+    const source = new EventSource(url, { withCredentials: true })
+    source.addEventListener('subscribed', () => setConnection({ url, status: 'open' }))
+    source.addEventListener('message', (event) => {
+      const message = JSON.parse(event.data) as PubSubMessage
+      setMessages((current) => [...current.slice(-(limit - 1)), message])
+    })
+    // EventSource retries dropped streams by itself, a closed one failed for good
+    source.onerror = () => {
+      setConnection({ url, status: source.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting' })
+    }
+
+    return () => source.close()
+  }, [url, limit])
+
+  const status: 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' =
+    !url ? 'idle' : connection?.url === url ? connection.status : 'connecting'
+
+  return {
+    messages,
+    status,
+    clear: () => setMessages([]),
+  }
+}
+
+/**
+ * Hook for publishing a Pub/Sub message
+ */
+export function usePublishMessage(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: PublishMessageRequestDto) => redisApi.publishMessage(connectionId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'pubsub', 'channels'] })
+    },
+  })
+}
+
+/**
+ * Hook for the keyspace notification setting of the server
+ */
+export function useKeyspaceNotifications(connectionId: string) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keyspace-events', 'config'],
+    queryFn: () => redisApi.getKeyspaceNotifications(connectionId),
+    enabled: !!connectionId,
+  })
+}
+
+/**
+ * Hook for changing the keyspace notification setting
+ */
+export function useUpdateKeyspaceNotifications(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: UpdateKeyspaceNotificationsRequestDto) =>
+      redisApi.updateKeyspaceNotifications(connectionId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keyspace-events', 'config'] })
+    },
+  })
+}
+
+/**
+ * Hook for a live feed of key events over server-sent events, pass null to stop.
+ * While paused, new events are held back and added to the feed on resume;
+ * the feed and the held back events each keep the latest `limit`.
+ */
+export function useKeyspaceEvents(connectionId: string, params: KeyspaceEventsQueryDto | null, limit = 500) {
+  const url = connectionId && params ? redisApi.getKeyspaceEventsUrl(connectionId, params) : null
+  const [feed, setFeed] = useState<{ events: KeyspaceEvent[]; pending: KeyspaceEvent[]; paused: boolean }>({
+    events: [],
+    pending: [],
+    paused: false,
+  })
+  const [connection, setConnection] = useState<{ url: string; status: 'open' | 'reconnecting' | 'closed' } | null>(null)
+
+  useEffect(() => {
+    if (!url) {
+      return
+    }
+
+    const source = new EventSource(url, { withCredentials: true })
+    source.addEventListener('subscribed', () => setConnection({ url, status: 'open' }))
+    source.addEventListener('message', (event) => {
+      const keyspaceEvent = JSON.parse(event.data) as KeyspaceEvent
+      setFeed((current) => current.paused
+        ? { ...current, pending: [...current.pending.slice(-(limit - 1)), keyspaceEvent] }
+        : { ...current, events: [...current.events.slice(-(limit - 1)), keyspaceEvent] }
+      )
+    })
+    // EventSource retries dropped streams by itself, a closed one failed for good
+    source.onerror = () => {
+      setConnection({ url, status: source.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting' })
+    }
+
+    return () => source.close()
+  }, [url, limit])
+
+  const status: 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' =
+    !url ? 'idle' : connection?.url === url ? connection.status : 'connecting'
+
+  return {
+    events: feed.events,
+    pendingCount: feed.pending.length,
+    paused: feed.paused,
+    status,
+    pause: () => setFeed((current) => ({ ...current, paused: true })),
+    resume: () => setFeed((current) => ({
+      events: [...current.events, ...current.pending].slice(-limit),
+      pending: [],
+      paused: false,
+    })),
+    clear: () => setFeed((current) => ({ ...current, events: [], pending: [] })),
+  }
+}
+
+/**
+ * Hook for the console command history of the current user
+ */
+export function useCliHistory(connectionId: string) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'cli', 'history'],
+    queryFn: () => redisApi.getCliHistory(connectionId),
+    enabled: !!connectionId,
+  })
+}
+
+/**
+ * Hook for running a raw command, any key may have changed afterwards
+ */
+export function useExecuteCommand(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: ExecuteCommandRequestDto) => redisApi.executeCommand(connectionId, data),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'cli', 'history'] })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+    },
+  })
+}
+
+/**
+ * Hook for clearing the console command history
+ */
+export function useClearCliHistory(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: () => redisApi.clearCliHistory(connectionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'cli', 'history'] })
+    },
+  })
+}
+
+/**
+ * Hook for a MONITOR session over server-sent events, pass new params to start one and null to stop.
+ * The captured commands stay after the session ends until the next one starts or they are cleared.
+ */
+export function useMonitor(connectionId: string, params: MonitorQueryDto | null, limit = 5000) {
+  const [session, setSession] = useState<{
+    params: MonitorQueryDto
+    started: MonitorStarted
+    commands: MonitorCommand[]
+    summary: MonitorSummary | null
+    ended: string | null
+  } | null>(null)
+  const [connection, setConnection] = useState<{ params: MonitorQueryDto; status: 'open' | 'reconnecting' | 'closed' } | null>(null)
+
+  useEffect(() => {
+    if (!connectionId || !params) {
+      return
+    }
+
+    const source = new EventSource(redisApi.getMonitorUrl(connectionId, params), { withCredentials: true })
+    source.addEventListener('started', (event) => {
+      const started = JSON.parse(event.data) as MonitorStarted
+      // A reconnect starts MONITOR again, keep what the session captured so far
+      setSession((current) => current?.params === params
+        ? { ...current, started }
+        : { params, started, commands: [], summary: null, ended: null }
+      )
+      setConnection({ params, status: 'open' })
+    })
+    source.addEventListener('message', (event) => {
+      const command = JSON.parse(event.data) as MonitorCommand
+      setSession((current) => current?.params === params
+        ? { ...current, commands: [...current.commands.slice(-(limit - 1)), command] }
+        : current
+      )
+    })
+    source.addEventListener('summary', (event) => {
+      const summary = JSON.parse(event.data) as MonitorSummary
+      setSession((current) => current?.params === params ? { ...current, summary } : current)
+    })
+    // The server closes the stream after this, EventSource must not reconnect
+    source.addEventListener('ended', (event) => {
+      const { reason } = JSON.parse(event.data) as MonitorEnded
+      source.close()
+      setSession((current) => current?.params === params ? { ...current, ended: reason } : current)
+    })
+    source.onerror = () => {
+      setConnection({ params, status: source.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting' })
+    }
+
+    return () => source.close()
+  }, [connectionId, params, limit])
+
+  const current = session?.params === params ? session : null
+  const status: 'idle' | 'connecting' | 'open' | 'reconnecting' | 'ended' | 'closed' =
+    !params ? 'idle'
+      : current?.ended ? 'ended'
+        : connection?.params === params ? connection.status : 'connecting'
+
+  return {
+    commands: session?.commands ?? [],
+    summary: session?.summary ?? null,
+    started: session?.started ?? null,
+    ended: session?.ended ?? null,
+    status,
+    clear: () => setSession((value) => value && { ...value, commands: [], summary: null }),
+  }
+}
+
 /**
  * Hook for setting Redis key TTL
  */
@@ -176,3 +709,706 @@ export function useSetRedisKeyTtl(connectionId: string) {
     },
   })
 }
+
+/**
+ * Hook for one level of the namespace tree, continuing the scan page by page
+ */
+export function useNamespace(connectionId: string, params: Omit<NamespaceQueryDto, 'cursor'>) {
+  return useInfiniteQuery({
+    queryKey: ['redis', connectionId, 'keys', params, 'namespace'],
+    queryFn: ({ pageParam }) => redisApi.getNamespace(connectionId, { ...params, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => {
+      const page = lastPage?.data ?? (lastPage as unknown as NamespaceResponseDto | undefined)
+      return page?.hasMore ? page.cursor : undefined
+    },
+    enabled: !!connectionId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Receives the running totals after each batch, returning false stops before the next one
+ */
+type PrefixBatchCallback = (totals: PrefixBulkResponseDto) => boolean
+
+/**
+ * Run a prefix operation batch by batch. Each request stops after a time budget
+ * and the next one continues from its cursor; the result has `hasMore` when stopped early.
+ */
+async function runPrefixBatches(
+  request: (cursor: string | undefined) => Promise<ApiResponse<PrefixBulkResponseDto>>,
+  onBatch?: PrefixBatchCallback
+): Promise<PrefixBulkResponseDto> {
+  const totals: PrefixBulkResponseDto = { success: true, matched: 0, affected: 0, hasMore: true }
+  let cursor: string | undefined
+
+  while (totals.hasMore) {
+    const response = await request(cursor)
+    const batch = response?.data ?? (response as unknown as PrefixBulkResponseDto)
+    totals.matched = (totals.matched ?? 0) + (batch.matched ?? 0)
+    totals.affected = (totals.affected ?? 0) + (batch.affected ?? 0)
+    totals.hasMore = !!batch.hasMore
+    cursor = batch.cursor
+
+    if (onBatch?.({ ...totals }) === false) {
+      break
+    }
+  }
+
+  return totals
+}
+
+/**
+ * Hook for deleting every key under a prefix, batch by batch
+ */
+export function useDeleteKeysByPrefix(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ onBatch, ...data }: PrefixBulkRequestDto & { onBatch?: PrefixBatchCallback }) =>
+      runPrefixBatches((cursor) => redisApi.deleteKeysByPrefix(connectionId, { ...data, cursor }), onBatch),
+    // Stopped or failed runs still changed the keys of the batches that ran
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+    },
+  })
+}
+
+/**
+ * Hook for setting or removing the TTL of every key under a prefix, batch by batch
+ */
+export function useSetTtlByPrefix(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ onBatch, ...data }: PrefixTtlRequestDto & { onBatch?: PrefixBatchCallback }) =>
+      runPrefixBatches((cursor) => redisApi.setTtlByPrefix(connectionId, { ...data, cursor }), onBatch),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+    },
+  })
+}
+
+/**
+ * Hook for exporting every key under a prefix
+ */
+export function useExportKeysByPrefix(connectionId: string) {
+  return useMutation({
+    mutationFn: (data: PrefixExportRequestDto) => redisApi.exportKeysByPrefix(connectionId, data),
+  })
+}
+
+type CollectionPageParams = Omit<CollectionPageQueryDto, 'cursor'>
+
+/**
+ * Infinite query over the cursor paged collection endpoints
+ */
+function useCollectionPages<T extends { cursor?: string; hasMore?: boolean }>(
+  type: 'hash' | 'list' | 'set' | 'zset',
+  connectionId: string,
+  key: string,
+  params: CollectionPageParams | undefined,
+  fetchPage: (cursor: string) => Promise<ApiResponse<T>>
+) {
+  return useInfiniteQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params?.db, type, params],
+    queryFn: ({ pageParam }) => fetchPage(pageParam),
+    initialPageParam: '0',
+    getNextPageParam: (lastPage) => {
+      const page = lastPage?.data ?? (lastPage as unknown as T | undefined)
+      return page?.hasMore ? page.cursor : undefined
+    },
+    enabled: !!connectionId && !!key,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for paging through hash fields
+ */
+export function useHashFields(connectionId: string, key: string, params?: CollectionPageParams) {
+  return useCollectionPages('hash', connectionId, key, params, (cursor) =>
+    redisApi.getHashFields(connectionId, key, { ...params, cursor })
+  )
+}
+
+/**
+ * Hook for paging through list items
+ */
+export function useListItems(connectionId: string, key: string, params?: CollectionPageParams) {
+  return useCollectionPages('list', connectionId, key, params, (cursor) =>
+    redisApi.getListItems(connectionId, key, { ...params, cursor })
+  )
+}
+
+/**
+ * Hook for paging through set members
+ */
+export function useSetMembers(connectionId: string, key: string, params?: CollectionPageParams) {
+  return useCollectionPages('set', connectionId, key, params, (cursor) =>
+    redisApi.getSetMembers(connectionId, key, { ...params, cursor })
+  )
+}
+
+/**
+ * Hook for paging through sorted set members
+ */
+export function useZSetMembers(connectionId: string, key: string, params?: CollectionPageParams) {
+  return useCollectionPages('zset', connectionId, key, params, (cursor) =>
+    redisApi.getZSetMembers(connectionId, key, { ...params, cursor })
+  )
+}
+
+/**
+ * Mutation over an element level edit endpoint, refreshes the key and the key list on success
+ */
+function useElementEdit<T>(
+  connectionId: string,
+  key: string,
+  db: number | undefined,
+  edit: (data: T) => Promise<ApiResponse<ElementEditResponseDto>>
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: edit,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+    onError: (error) => {
+      // Conflicts reload the elements, so the editor shows what changed
+      if (error instanceof ApiError && error.status === 409) {
+        queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+      }
+    },
+  })
+}
+
+/**
+ * Hook for setting hash fields
+ */
+export function useSetHashFields(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: HashSetFieldsRequestDto) => redisApi.setHashFields(connectionId, key, data))
+}
+
+/**
+ * Hook for deleting hash fields
+ */
+export function useDeleteHashFields(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: HashDeleteFieldsRequestDto) => redisApi.deleteHashFields(connectionId, key, data))
+}
+
+/**
+ * Hook for renaming a hash field
+ */
+export function useRenameHashField(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: HashRenameFieldRequestDto) => redisApi.renameHashField(connectionId, key, data))
+}
+
+/**
+ * Hook for pushing list items
+ */
+export function usePushListItems(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ListPushItemsRequestDto) => redisApi.pushListItems(connectionId, key, data))
+}
+
+/**
+ * Hook for popping list items
+ */
+export function usePopListItems(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ListPopItemsRequestDto) => redisApi.popListItems(connectionId, key, data))
+}
+
+/**
+ * Hook for replacing a list item
+ */
+export function useSetListItem(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ListSetItemRequestDto) => redisApi.setListItem(connectionId, key, data))
+}
+
+/**
+ * Hook for inserting a list item
+ */
+export function useInsertListItem(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ListInsertItemRequestDto) => redisApi.insertListItem(connectionId, key, data))
+}
+
+/**
+ * Hook for removing list items
+ */
+export function useRemoveListItems(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ListRemoveItemsRequestDto) => redisApi.removeListItems(connectionId, key, data))
+}
+
+/**
+ * Hook for adding set members
+ */
+export function useAddSetMembers(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: SetMembersRequestDto) => redisApi.addSetMembers(connectionId, key, data))
+}
+
+/**
+ * Hook for removing set members
+ */
+export function useRemoveSetMembers(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: SetMembersRequestDto) => redisApi.removeSetMembers(connectionId, key, data))
+}
+
+/**
+ * Hook for renaming a set member
+ */
+export function useRenameSetMember(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: SetRenameMemberRequestDto) => redisApi.renameSetMember(connectionId, key, data))
+}
+
+/**
+ * Hook for adding sorted set members
+ */
+export function useAddZSetMembers(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ZSetAddMembersRequestDto) => redisApi.addZSetMembers(connectionId, key, data))
+}
+
+/**
+ * Hook for incrementing a sorted set score
+ */
+export function useIncrementZSetMember(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ZSetIncrementRequestDto) => redisApi.incrementZSetMember(connectionId, key, data))
+}
+
+/**
+ * Hook for removing sorted set members
+ */
+export function useRemoveZSetMembers(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ZSetRemoveMembersRequestDto) => redisApi.removeZSetMembers(connectionId, key, data))
+}
+
+/**
+ * Hook for renaming a sorted set member
+ */
+export function useRenameZSetMember(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ZSetRenameMemberRequestDto) => redisApi.renameZSetMember(connectionId, key, data))
+}
+
+/**
+ * Hook for reading a JSON document at a JSONPath
+ */
+export function useJsonValue(connectionId: string, key: string, params?: JsonPathQueryDto) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params?.db, 'json', params],
+    queryFn: () => redisApi.getJsonValue(connectionId, key, params),
+    enabled: !!connectionId && !!key,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for setting the value at a JSONPath
+ */
+export function useSetJsonValue(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: JsonSetRequestDto) => redisApi.setJsonValue(connectionId, key, data))
+}
+
+/**
+ * Hook for appending to the arrays at a JSONPath
+ */
+export function useAppendJsonArray(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: JsonArrAppendRequestDto) => redisApi.appendJsonArray(connectionId, key, data))
+}
+
+/**
+ * Hook for deleting the values at a JSONPath
+ */
+export function useDeleteJsonPath(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: JsonDeleteRequestDto) => redisApi.deleteJsonPath(connectionId, key, data))
+}
+
+/**
+ * Hook for reading the samples of a time series
+ */
+export function useTimeSeriesRange(connectionId: string, key: string, params?: TimeSeriesRangeQueryDto) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params?.db, 'timeseries', params],
+    queryFn: () => redisApi.getTimeSeriesRange(connectionId, key, params),
+    enabled: !!connectionId && !!key,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for reading every time series matching label filters, disabled without filters
+ */
+export function useTimeSeriesMRange(connectionId: string, params: TimeSeriesMRangeQueryDto | null) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'timeseries', 'mrange', params],
+    queryFn: () => redisApi.getTimeSeriesMRange(connectionId, params!),
+    enabled: !!connectionId && !!params?.filter,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for adding a sample to a time series
+ */
+export function useAddTimeSeriesSample(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: TimeSeriesAddRequestDto) => redisApi.addTimeSeriesSample(connectionId, key, data))
+}
+
+/**
+ * Hook for deleting the samples in a time range
+ */
+export function useDeleteTimeSeriesSamples(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: TimeSeriesDeleteRequestDto) => redisApi.deleteTimeSeriesSamples(connectionId, key, data))
+}
+
+/**
+ * Hook for adding items to a probabilistic key
+ */
+export function useAddProbabilisticItems(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: ProbabilisticAddRequestDto) => redisApi.addProbabilisticItems(connectionId, key, data))
+}
+
+/**
+ * Hook for looking items up in a probabilistic key, disabled without items
+ */
+export function useProbabilisticQuery(connectionId: string, key: string, params: ProbabilisticQueryDto | null) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params?.db, 'probabilistic', params],
+    queryFn: () => redisApi.queryProbabilisticItems(connectionId, key, params!),
+    enabled: !!connectionId && !!key && !!params?.items.length,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for deleting items from a Cuckoo filter
+ */
+export function useDeleteCuckooItems(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: CuckooDeleteRequestDto) => redisApi.deleteCuckooItems(connectionId, key, data))
+}
+
+/**
+ * Hook for merging other HyperLogLogs into a HyperLogLog
+ */
+export function useMergeHyperLogLogs(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: HyperLogLogMergeRequestDto) => redisApi.mergeHyperLogLogs(connectionId, key, data))
+}
+
+/**
+ * Hook for reading a page of bits of a string value
+ */
+export function useBitmapPage(connectionId: string, key: string, params?: BitmapPageQueryDto) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params?.db, 'bitmap', params],
+    queryFn: () => redisApi.getBitmapPage(connectionId, key, params),
+    enabled: !!connectionId && !!key,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for finding the next set or clear bit, run on demand
+ */
+export function useFindBitmapBit(connectionId: string, key: string) {
+  return useMutation({
+    mutationFn: (params: BitmapPositionQueryDto) => redisApi.getBitmapPosition(connectionId, key, params),
+  })
+}
+
+/**
+ * Hook for setting or clearing a single bit
+ */
+export function useSetBitmapBit(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: BitmapSetBitRequestDto) => redisApi.setBitmapBit(connectionId, key, data))
+}
+
+/**
+ * Hook for paging through geo members with their positions
+ */
+export function useGeoMembers(connectionId: string, key: string, params?: GeoPageQueryDto) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params?.db, 'geo', params],
+    queryFn: () => redisApi.getGeoMembers(connectionId, key, params),
+    enabled: !!connectionId && !!key,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for searching geo members by radius or box, disabled without a search
+ */
+export function useGeoSearch(connectionId: string, key: string, params: GeoSearchQueryDto | null) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params?.db, 'geo', 'search', params],
+    queryFn: () => redisApi.searchGeoMembers(connectionId, key, params!),
+    enabled: !!connectionId && !!key && !!params,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for adding or moving geo members
+ */
+export function useAddGeoMembers(connectionId: string, key: string, db?: number) {
+  return useElementEdit(connectionId, key, db, (data: GeoAddRequestDto) => redisApi.addGeoMembers(connectionId, key, data))
+}
+
+/**
+ * Hook for paging through stream entries
+ */
+export function useStreamEntries(
+  connectionId: string,
+  key: string,
+  params?: StreamRangeQueryDto
+) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params?.db, 'stream', params],
+    queryFn: () => redisApi.getStreamEntries(connectionId, key, params),
+    enabled: !!connectionId && !!key,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for appending a stream entry
+ */
+export function useAddStreamEntry(connectionId: string, key: string, db?: number) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: StreamAddEntryRequestDto) => redisApi.addStreamEntry(connectionId, key, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+  })
+}
+
+/**
+ * Hook for deleting stream entries
+ */
+export function useDeleteStreamEntries(connectionId: string, key: string, db?: number) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: StreamDeleteEntriesRequestDto) => redisApi.deleteStreamEntries(connectionId, key, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+  })
+}
+
+/**
+ * Hook for trimming a stream
+ */
+export function useTrimStream(connectionId: string, key: string, db?: number) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: StreamTrimRequestDto) => redisApi.trimStream(connectionId, key, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+  })
+}
+
+/**
+ * Hook for listing stream consumer groups
+ */
+export function useStreamGroups(connectionId: string, key: string, db?: number) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, db, 'stream', 'groups'],
+    queryFn: () => redisApi.getStreamGroups(connectionId, key, db),
+    enabled: !!connectionId && !!key,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for listing consumers of a stream consumer group
+ */
+export function useStreamConsumers(connectionId: string, key: string, group: string, db?: number) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, db, 'stream', 'groups', group, 'consumers'],
+    queryFn: () => redisApi.getStreamConsumers(connectionId, key, group, db),
+    enabled: !!connectionId && !!key && !!group,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for paging through pending entries of a stream consumer group
+ */
+export function useStreamPending(
+  connectionId: string,
+  key: string,
+  group: string,
+  params?: StreamPendingQueryDto
+) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'keys', key, params?.db, 'stream', 'groups', group, 'pending', params],
+    queryFn: () => redisApi.getStreamPending(connectionId, key, group, params),
+    enabled: !!connectionId && !!key && !!group,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for creating a stream consumer group
+ */
+export function useCreateStreamGroup(connectionId: string, key: string, db?: number) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateStreamGroupRequestDto) => redisApi.createStreamGroup(connectionId, key, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+  })
+}
+
+/**
+ * Hook for destroying a stream consumer group
+ */
+export function useDestroyStreamGroup(connectionId: string, key: string, db?: number) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (group: string) => redisApi.destroyStreamGroup(connectionId, key, group, db),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+  })
+}
+
+/**
+ * Hook for resetting a stream consumer group last delivered ID
+ */
+export function useSetStreamGroupId(connectionId: string, key: string, db?: number) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ group, data }: { group: string; data: SetStreamGroupIdRequestDto }) =>
+      redisApi.setStreamGroupId(connectionId, key, group, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+  })
+}
+
+/**
+ * Hook for acknowledging pending stream entries
+ */
+export function useAckStreamEntries(connectionId: string, key: string, db?: number) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ group, data }: { group: string; data: StreamAckRequestDto }) =>
+      redisApi.ackStreamEntries(connectionId, key, group, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+  })
+}
+
+/**
+ * Hook for claiming pending stream entries
+ */
+export function useClaimStreamEntries(connectionId: string, key: string, db?: number) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ group, data }: { group: string; data: StreamClaimRequestDto }) =>
+      redisApi.claimStreamEntries(connectionId, key, group, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys', key, db] })
+    },
+  })
+}
+
+/**
+ * Hook for listing search indexes
+ */
+export function useSearchIndexes(connectionId: string) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'search', 'indexes'],
+    queryFn: () => redisApi.getSearchIndexes(connectionId),
+    enabled: !!connectionId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook for getting search index details, polls while the index is still being built
+ */
+export function useSearchIndex(connectionId: string, index: string) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'search', 'indexes', index],
+    queryFn: () => redisApi.getSearchIndex(connectionId, index),
+    enabled: !!connectionId && !!index,
+    staleTime: 5 * 1000, // 5 seconds
+    refetchInterval: (query) => {
+      const info = query.state.data?.data ?? (query.state.data as GetSearchIndexResponseDto | undefined)
+      return info?.index?.indexing ? 2000 : false
+    },
+  })
+}
+
+/**
+ * Hook for querying a search index
+ */
+export function useSearchQuery(connectionId: string, index: string, params: SearchQueryDto | null) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'search', 'indexes', index, 'search', params],
+    queryFn: () => redisApi.searchIndex(connectionId, index, params!),
+    enabled: !!connectionId && !!index && !!params,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for running an aggregation on a search index
+ */
+export function useAggregateQuery(connectionId: string, index: string, params: AggregateQueryDto | null) {
+  return useQuery({
+    queryKey: ['redis', connectionId, 'search', 'indexes', index, 'aggregate', params],
+    queryFn: () => redisApi.aggregateIndex(connectionId, index, params!),
+    enabled: !!connectionId && !!index && !!params,
+    staleTime: 5 * 1000, // 5 seconds
+  })
+}
+
+/**
+ * Hook for creating a search index
+ */
+export function useCreateSearchIndex(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateSearchIndexRequestDto) => redisApi.createSearchIndex(connectionId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'search'] })
+    },
+  })
+}
+
+/**
+ * Hook for dropping a search index
+ */
+export function useDropSearchIndex(connectionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ index, ...params }: { index: string } & DropSearchIndexQueryDto) =>
+      redisApi.dropSearchIndex(connectionId, index, params),
+    onSuccess: (_, { deleteDocuments }) => {
+      queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'search'] })
+      if (deleteDocuments) {
+        queryClient.invalidateQueries({ queryKey: ['redis', connectionId, 'keys'] })
+      }
+    },
+  })
+}
@@ -0,0 +1,35 @@
+/**
+ * Pattern bulk job API service
+ */
+
+import { BaseApiClient } from '../client'
+import type {
+  StartBulkJobRequestDto,
+  StartBulkJobResponseDto,
+  BulkJobStatusResponseDto,
+  CancelBulkJobResponseDto,
+  ApiResponse,
+} from '@/types'
+
+export class BulkJobsApiService extends BaseApiClient {
+  /**
+   * Start a bulk job or a dry run
+   */
+  async startBulkJob(data: StartBulkJobRequestDto): Promise<ApiResponse<StartBulkJobResponseDto>> {
+    return this.post<StartBulkJobResponseDto>('/bulk-jobs', data)
+  }
+
+  /**
+   * Get bulk job status
+   */
+  async getBulkJobStatus(jobId: string): Promise<ApiResponse<BulkJobStatusResponseDto>> {
+    return this.get<BulkJobStatusResponseDto>(`/bulk-jobs/${jobId}/status`)
+  }
+
+  /**
+   * Cancel a running bulk job
+   */
+  async cancelBulkJob(jobId: string): Promise<ApiResponse<CancelBulkJobResponseDto>> {
+    return this.post<CancelBulkJobResponseDto>(`/bulk-jobs/${jobId}/cancel`, {})
+  }
+}
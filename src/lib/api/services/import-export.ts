@@ -49,14 +49,14 @@ export class ImportExportApiService extends BaseApiClient {
    * Get export status
    */
   async getExportStatus(exportId: string): Promise<ApiResponse<ExportStatusResponseDto>> {
-    return this.get<ExportStatusResponseDto>(`/import-export/status/${exportId}`)
+    return this.get<ExportStatusResponseDto>(`/export/${exportId}/status`)
   }
 
   /**
    * Download exported file
    */
   async downloadExport(fileId: string): Promise<Blob> {
-    const response = await fetch(`${this.baseUrl}/import-export/download/${fileId}`, {
+    const response = await fetch(`${this.baseUrl}/export/${fileId}/download`, {
       credentials: 'include',
     })
     
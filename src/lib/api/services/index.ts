@@ -11,3 +11,5 @@ export { SettingsApiService } from './settings'
 export { PreferencesApiService } from './preferences'
 export { ImportExportApiService } from './import-export'
 export { SystemApiService } from './system'
+export { MigrationsApiService } from './migrations'
+export { BulkJobsApiService } from './bulk-jobs'
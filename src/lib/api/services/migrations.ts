@@ -0,0 +1,35 @@
+/**
+ * Keyspace migration API service
+ */
+
+import { BaseApiClient } from '../client'
+import type {
+  StartMigrationRequestDto,
+  StartMigrationResponseDto,
+  MigrationStatusResponseDto,
+  CancelMigrationResponseDto,
+  ApiResponse,
+} from '@/types'
+
+export class MigrationsApiService extends BaseApiClient {
+  /**
+   * Start a migration job
+   */
+  async startMigration(data: StartMigrationRequestDto): Promise<ApiResponse<StartMigrationResponseDto>> {
+    return this.post<StartMigrationResponseDto>('/migrations', data)
+  }
+
+  /**
+   * Get migration status
+   */
+  async getMigrationStatus(migrationId: string): Promise<ApiResponse<MigrationStatusResponseDto>> {
+    return this.get<MigrationStatusResponseDto>(`/migrations/${migrationId}/status`)
+  }
+
+  /**
+   * Cancel a running migration
+   */
+  async cancelMigration(migrationId: string): Promise<ApiResponse<CancelMigrationResponseDto>> {
+    return this.post<CancelMigrationResponseDto>(`/migrations/${migrationId}/cancel`, {})
+  }
+}
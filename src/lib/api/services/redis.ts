@@ -5,6 +5,9 @@
 import { BaseApiClient } from '../client'
 import type {
   GetKeyResponseDto,
+  KeyEncoding,
+  DecodeValueQueryDto,
+  DecodedValueResponseDto,
   ListKeysResponseDto,
   CreateKeyRequestDto,
   UpdateKeyRequestDto,
@@ -13,16 +16,130 @@ import type {
   ListDatabasesResponseDto,
   GetDatabaseInfoResponseDto,
   RedisInfoResponseDto,
+  ListModulesResponseDto,
   RenameKeyRequestDto,
   RenameKeyResponseDto,
+  CopyKeysRequestDto,
+  CopyKeysResponseDto,
   SetTtlRequestDto,
   SetTtlResponseDto,
+  NamespaceQueryDto,
+  NamespaceResponseDto,
+  PrefixBulkRequestDto,
+  PrefixTtlRequestDto,
+  PrefixExportRequestDto,
+  PrefixBulkResponseDto,
+  CollectionPageQueryDto,
+  HashFieldsPageResponseDto,
+  ListItemsPageResponseDto,
+  SetMembersPageResponseDto,
+  ZSetMembersPageResponseDto,
+  HashSetFieldsRequestDto,
+  HashDeleteFieldsRequestDto,
+  HashRenameFieldRequestDto,
+  ListPushItemsRequestDto,
+  ListPopItemsRequestDto,
+  ListSetItemRequestDto,
+  ListInsertItemRequestDto,
+  ListRemoveItemsRequestDto,
+  SetMembersRequestDto,
+  SetRenameMemberRequestDto,
+  ZSetAddMembersRequestDto,
+  ZSetIncrementRequestDto,
+  ZSetRemoveMembersRequestDto,
+  ZSetRenameMemberRequestDto,
+  JsonPathQueryDto,
+  JsonValueResponseDto,
+  JsonSetRequestDto,
+  JsonArrAppendRequestDto,
+  JsonDeleteRequestDto,
+  TimeSeriesRangeQueryDto,
+  TimeSeriesRangeResponseDto,
+  TimeSeriesMRangeQueryDto,
+  TimeSeriesMRangeResponseDto,
+  TimeSeriesAddRequestDto,
+  TimeSeriesDeleteRequestDto,
+  ProbabilisticAddRequestDto,
+  ProbabilisticQueryDto,
+  ProbabilisticQueryResponseDto,
+  CuckooDeleteRequestDto,
+  HyperLogLogMergeRequestDto,
+  BitmapPageQueryDto,
+  BitmapPageResponseDto,
+  BitmapPositionQueryDto,
+  BitmapPositionResponseDto,
+  BitmapSetBitRequestDto,
+  GeoPageQueryDto,
+  GeoMembersPageResponseDto,
+  GeoSearchQueryDto,
+  GeoSearchResponseDto,
+  GeoAddRequestDto,
+  ElementEditResponseDto,
+  StreamRangeQueryDto,
+  StreamRangeResponseDto,
+  StreamAddEntryRequestDto,
+  StreamAddEntryResponseDto,
+  StreamDeleteEntriesRequestDto,
+  StreamDeleteEntriesResponseDto,
+  StreamTrimRequestDto,
+  StreamTrimResponseDto,
+  ListStreamGroupsResponseDto,
+  ListStreamConsumersResponseDto,
+  StreamPendingQueryDto,
+  StreamPendingResponseDto,
+  CreateStreamGroupRequestDto,
+  SetStreamGroupIdRequestDto,
+  StreamGroupResponseDto,
+  StreamAckRequestDto,
+  StreamAckResponseDto,
+  StreamClaimRequestDto,
+  StreamClaimResponseDto,
+  ListSearchIndexesResponseDto,
+  GetSearchIndexResponseDto,
+  CreateSearchIndexRequestDto,
+  DropSearchIndexQueryDto,
+  SearchIndexResponseDto,
+  SearchQueryDto,
+  SearchResponseDto,
+  AggregateQueryDto,
+  AggregateResponseDto,
+  CompareKeyspacesRequestDto,
+  CompareKeyspacesResponseDto,
+  KeyDiffQueryDto,
+  KeyDiffResponseDto,
+  SyncKeysRequestDto,
+  SyncKeysResponseDto,
+  ListDeletedKeysQueryDto,
+  ListDeletedKeysResponseDto,
+  RestoreDeletedKeyRequestDto,
+  RestoreDeletedKeyResponseDto,
+  PurgeDeletedKeysResponseDto,
+  KeyHistoryQueryDto,
+  KeyHistoryResponseDto,
+  RollbackKeyRequestDto,
+  RollbackKeyResponseDto,
+  ChangeSetRequestDto,
+  ApplyChangeSetRequestDto,
+  PreviewChangeSetResponseDto,
+  ApplyChangeSetResponseDto,
+  ListPubSubChannelsQueryDto,
+  ListPubSubChannelsResponseDto,
+  PubSubSubscribeQueryDto,
+  PublishMessageRequestDto,
+  PublishMessageResponseDto,
+  KeyspaceNotificationsResponseDto,
+  UpdateKeyspaceNotificationsRequestDto,
+  KeyspaceEventsQueryDto,
+  ExecuteCommandRequestDto,
+  ExecuteCommandResponseDto,
+  CliHistoryResponseDto,
+  MonitorQueryDto,
   ApiResponse,
 } from '@/types'
 
 export class RedisApiService extends BaseApiClient {
   /**
-   * Get Redis keys with pagination and filtering
+   * Get one page of Redis keys, resuming from the continuation token in `params.cursor`
    */
   async getKeys(
     connectionId: string,
@@ -36,7 +153,6 @@ export class RedisApiService extends BaseApiClient {
     if (params?.db !== undefined) searchParams.append('db', params.db.toString())
     if (params?.cursor) searchParams.append('cursor', params.cursor)
     if (params?.count) searchParams.append('count', params.count.toString())
-    if (params?.page) searchParams.append('page', params.page.toString())
     if (params?.limit) searchParams.append('limit', params.limit.toString())
 
     const query = searchParams.toString()
@@ -49,10 +165,34 @@ export class RedisApiService extends BaseApiClient {
   async getKey(
     connectionId: string,
     key: string,
-    db?: number
+    db?: number,
+    keyEncoding?: KeyEncoding
   ): Promise<ApiResponse<GetKeyResponseDto>> {
-    const query = db === undefined ? '' : `?db=${db}`
-    return this.get<GetKeyResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}${query}`)
+    const searchParams = new URLSearchParams()
+    if (db !== undefined) searchParams.append('db', db.toString())
+    if (keyEncoding) searchParams.append('keyEncoding', keyEncoding)
+
+    const query = searchParams.toString()
+    return this.get<GetKeyResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Decode a string value or hash field
+   */
+  async decodeValue(
+    connectionId: string,
+    key: string,
+    params?: DecodeValueQueryDto
+  ): Promise<ApiResponse<DecodedValueResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params?.field !== undefined) searchParams.append('field', params.field)
+    if (params?.fieldEncoding) searchParams.append('fieldEncoding', params.fieldEncoding)
+    if (params?.decoder) searchParams.append('decoder', params.decoder)
+    if (params?.keyEncoding) searchParams.append('keyEncoding', params.keyEncoding)
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+
+    const query = searchParams.toString()
+    return this.get<DecodedValueResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/decode${query ? `?${query}` : ''}`)
   }
 
   /**
@@ -76,16 +216,50 @@ export class RedisApiService extends BaseApiClient {
     return this.put<{ message: string }>(`/redis/${connectionId}/key/${encodeURIComponent(key)}`, data)
   }
 
+  /**
+   * Get the edit history of a key
+   */
+  async getKeyHistory(
+    connectionId: string,
+    key: string,
+    params: KeyHistoryQueryDto = {}
+  ): Promise<ApiResponse<KeyHistoryResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+    if (params.keyEncoding) searchParams.append('keyEncoding', params.keyEncoding)
+    if (params.limit) searchParams.append('limit', params.limit.toString())
+
+    const query = searchParams.toString()
+    return this.get<KeyHistoryResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/history${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Roll a key back to a version from its history
+   */
+  async rollbackKey(
+    connectionId: string,
+    key: string,
+    historyId: string,
+    data: RollbackKeyRequestDto
+  ): Promise<ApiResponse<RollbackKeyResponseDto>> {
+    return this.post<RollbackKeyResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/history/${historyId}/rollback`, data)
+  }
+
   /**
    * Delete key
    */
   async deleteKey(
     connectionId: string,
     key: string,
-    db?: number
+    db?: number,
+    keyEncoding?: KeyEncoding
   ): Promise<ApiResponse<DeleteKeyResponseDto>> {
-    const query = db === undefined ? '' : `?db=${db}`
-    return this.delete<DeleteKeyResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}${query}`)
+    const searchParams = new URLSearchParams()
+    if (db !== undefined) searchParams.append('db', db.toString())
+    if (keyEncoding) searchParams.append('keyEncoding', keyEncoding)
+
+    const query = searchParams.toString()
+    return this.delete<DeleteKeyResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}${query ? `?${query}` : ''}`)
   }
 
   /**
@@ -102,6 +276,13 @@ export class RedisApiService extends BaseApiClient {
     return this.get<RedisInfoResponseDto>(`/redis/${connectionId}/info`)
   }
 
+  /**
+   * List loaded Redis modules
+   */
+  async getModules(connectionId: string): Promise<ApiResponse<ListModulesResponseDto>> {
+    return this.get<ListModulesResponseDto>(`/redis/${connectionId}/modules`)
+  }
+
   /**
    * Get database info
    */
@@ -148,6 +329,221 @@ export class RedisApiService extends BaseApiClient {
     return this.post<RenameKeyResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/rename`, data)
   }
 
+  /**
+   * Copy or move keys to another database or saved connection
+   */
+  async copyKeys(
+    connectionId: string,
+    data: CopyKeysRequestDto
+  ): Promise<ApiResponse<CopyKeysResponseDto>> {
+    return this.post<CopyKeysResponseDto>(`/redis/${connectionId}/keys/copy`, data)
+  }
+
+  /**
+   * Compare the keys matching a pattern with another database or saved connection
+   */
+  async compareKeyspaces(
+    connectionId: string,
+    data: CompareKeyspacesRequestDto
+  ): Promise<ApiResponse<CompareKeyspacesResponseDto>> {
+    return this.post<CompareKeyspacesResponseDto>(`/redis/${connectionId}/compare`, data)
+  }
+
+  /**
+   * Element-level diff of one key against another database or saved connection
+   */
+  async diffKey(
+    connectionId: string,
+    key: string,
+    params: KeyDiffQueryDto
+  ): Promise<ApiResponse<KeyDiffResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+    if (params.targetConnectionId) searchParams.append('targetConnectionId', params.targetConnectionId)
+    if (params.targetDb !== undefined) searchParams.append('targetDb', params.targetDb.toString())
+    if (params.keyEncoding) searchParams.append('keyEncoding', params.keyEncoding)
+
+    const query = searchParams.toString()
+    return this.get<KeyDiffResponseDto>(`/redis/${connectionId}/compare/key/${encodeURIComponent(key)}${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Sync selected keys from one side of a comparison to the other
+   */
+  async syncKeys(
+    connectionId: string,
+    data: SyncKeysRequestDto
+  ): Promise<ApiResponse<SyncKeysResponseDto>> {
+    return this.post<SyncKeysResponseDto>(`/redis/${connectionId}/compare/sync`, data)
+  }
+
+  /**
+   * List keys in the connection's recycle bin, newest first
+   */
+  async listDeletedKeys(
+    connectionId: string,
+    params: ListDeletedKeysQueryDto = {}
+  ): Promise<ApiResponse<ListDeletedKeysResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+    if (params.search) searchParams.append('search', params.search)
+    if (params.page) searchParams.append('page', params.page.toString())
+    if (params.limit) searchParams.append('limit', params.limit.toString())
+
+    const query = searchParams.toString()
+    return this.get<ListDeletedKeysResponseDto>(`/redis/${connectionId}/recycle-bin${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Restore a key from the recycle bin under its original or a new name
+   */
+  async restoreDeletedKey(
+    connectionId: string,
+    id: string,
+    data: RestoreDeletedKeyRequestDto
+  ): Promise<ApiResponse<RestoreDeletedKeyResponseDto>> {
+    return this.post<RestoreDeletedKeyResponseDto>(`/redis/${connectionId}/recycle-bin/${id}/restore`, data)
+  }
+
+  /**
+   * Permanently remove one key from the recycle bin
+   */
+  async purgeDeletedKey(
+    connectionId: string,
+    id: string
+  ): Promise<ApiResponse<PurgeDeletedKeysResponseDto>> {
+    return this.delete<PurgeDeletedKeysResponseDto>(`/redis/${connectionId}/recycle-bin/${id}`)
+  }
+
+  /**
+   * Empty the connection's recycle bin
+   */
+  async emptyRecycleBin(connectionId: string): Promise<ApiResponse<PurgeDeletedKeysResponseDto>> {
+    return this.delete<PurgeDeletedKeysResponseDto>(`/redis/${connectionId}/recycle-bin`)
+  }
+
+  /**
+   * Preview a change set without writing anything
+   */
+  async previewChangeSet(
+    connectionId: string,
+    data: ChangeSetRequestDto
+  ): Promise<ApiResponse<PreviewChangeSetResponseDto>> {
+    return this.post<PreviewChangeSetResponseDto>(`/redis/${connectionId}/change-set/preview`, data)
+  }
+
+  /**
+   * Apply a change set in one transaction
+   */
+  async applyChangeSet(
+    connectionId: string,
+    data: ApplyChangeSetRequestDto
+  ): Promise<ApiResponse<ApplyChangeSetResponseDto>> {
+    return this.post<ApplyChangeSetResponseDto>(`/redis/${connectionId}/change-set`, data)
+  }
+
+  /**
+   * List Pub/Sub channels with their subscriber counts
+   */
+  async listPubSubChannels(
+    connectionId: string,
+    params: ListPubSubChannelsQueryDto = {}
+  ): Promise<ApiResponse<ListPubSubChannelsResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params.pattern) searchParams.append('pattern', params.pattern)
+
+    const query = searchParams.toString()
+    return this.get<ListPubSubChannelsResponseDto>(`/redis/${connectionId}/pubsub/channels${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * URL of the server-sent event stream for a subscription, for EventSource
+   */
+  getPubSubSubscribeUrl(connectionId: string, params: PubSubSubscribeQueryDto): string {
+    const searchParams = new URLSearchParams()
+    params.channels?.forEach((channel) => searchParams.append('channels', channel))
+    params.patterns?.forEach((pattern) => searchParams.append('patterns', pattern))
+
+    return `${this.baseUrl}/redis/${connectionId}/pubsub/subscribe?${searchParams.toString()}`
+  }
+
+  /**
+   * Publish a message to a channel
+   */
+  async publishMessage(
+    connectionId: string,
+    data: PublishMessageRequestDto
+  ): Promise<ApiResponse<PublishMessageResponseDto>> {
+    return this.post<PublishMessageResponseDto>(`/redis/${connectionId}/pubsub/publish`, data)
+  }
+
+  /**
+   * Get the keyspace notification setting of the server
+   */
+  async getKeyspaceNotifications(connectionId: string): Promise<ApiResponse<KeyspaceNotificationsResponseDto>> {
+    return this.get<KeyspaceNotificationsResponseDto>(`/redis/${connectionId}/keyspace-events/config`)
+  }
+
+  /**
+   * Change the keyspace notification setting of the server (admin only)
+   */
+  async updateKeyspaceNotifications(
+    connectionId: string,
+    data: UpdateKeyspaceNotificationsRequestDto
+  ): Promise<ApiResponse<KeyspaceNotificationsResponseDto>> {
+    return this.put<KeyspaceNotificationsResponseDto>(`/redis/${connectionId}/keyspace-events/config`, data)
+  }
+
+  /**
+   * URL of the server-sent event stream of key events, for EventSource
+   */
+  getKeyspaceEventsUrl(connectionId: string, params: KeyspaceEventsQueryDto): string {
+    const searchParams = new URLSearchParams()
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+    if (params.pattern) searchParams.append('pattern', params.pattern)
+
+    return `${this.baseUrl}/redis/${connectionId}/keyspace-events/stream?${searchParams.toString()}`
+  }
+
+  /**
+   * Run a raw command from the console
+   */
+  async executeCommand(
+    connectionId: string,
+    data: ExecuteCommandRequestDto
+  ): Promise<ApiResponse<ExecuteCommandResponseDto>> {
+    return this.post<ExecuteCommandResponseDto>(`/redis/${connectionId}/cli`, data)
+  }
+
+  /**
+   * Get the console command history of the current user
+   */
+  async getCliHistory(connectionId: string): Promise<ApiResponse<CliHistoryResponseDto>> {
+    return this.get<CliHistoryResponseDto>(`/redis/${connectionId}/cli/history`)
+  }
+
+  /**
+   * Clear the console command history of the current user
+   */
+  async clearCliHistory(connectionId: string): Promise<ApiResponse<CliHistoryResponseDto>> {
+    return this.delete<CliHistoryResponseDto>(`/redis/${connectionId}/cli/history`)
+  }
+
+  /**
+   * URL of the server-sent event stream of MONITOR, for EventSource (admin only)
+   */
+  getMonitorUrl(connectionId: string, params: MonitorQueryDto): string {
+    const searchParams = new URLSearchParams()
+    if (params.duration !== undefined) searchParams.append('duration', params.duration.toString())
+    if (params.sample !== undefined) searchParams.append('sample', params.sample.toString())
+    params.commands?.forEach((command) => searchParams.append('commands', command))
+    if (params.pattern) searchParams.append('pattern', params.pattern)
+    if (params.client) searchParams.append('client', params.client)
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+
+    return `${this.baseUrl}/redis/${connectionId}/monitor?${searchParams.toString()}`
+  }
+
   /**
    * Set key TTL
    */
@@ -158,4 +554,804 @@ export class RedisApiService extends BaseApiClient {
   ): Promise<ApiResponse<SetTtlResponseDto>> {
     return this.post<SetTtlResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/ttl`, data)
   }
+
+  /**
+   * Get one level of the namespace tree
+   */
+  async getNamespace(
+    connectionId: string,
+    params?: NamespaceQueryDto
+  ): Promise<ApiResponse<NamespaceResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params?.prefix) searchParams.append('prefix', params.prefix)
+    if (params?.prefixEncoding) searchParams.append('prefixEncoding', params.prefixEncoding)
+    if (params?.delimiter) searchParams.append('delimiter', params.delimiter)
+    if (params?.cursor) searchParams.append('cursor', params.cursor)
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+
+    const query = searchParams.toString()
+    return this.get<NamespaceResponseDto>(`/redis/${connectionId}/namespaces${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Delete every key under a prefix
+   */
+  async deleteKeysByPrefix(
+    connectionId: string,
+    data: PrefixBulkRequestDto
+  ): Promise<ApiResponse<PrefixBulkResponseDto>> {
+    return this.post<PrefixBulkResponseDto>(`/redis/${connectionId}/namespaces/delete`, data)
+  }
+
+  /**
+   * Set or remove the TTL of every key under a prefix
+   */
+  async setTtlByPrefix(
+    connectionId: string,
+    data: PrefixTtlRequestDto
+  ): Promise<ApiResponse<PrefixBulkResponseDto>> {
+    return this.post<PrefixBulkResponseDto>(`/redis/${connectionId}/namespaces/ttl`, data)
+  }
+
+  /**
+   * Start an export job for every key under a prefix
+   */
+  async exportKeysByPrefix(
+    connectionId: string,
+    data: PrefixExportRequestDto
+  ): Promise<ApiResponse<PrefixBulkResponseDto>> {
+    return this.post<PrefixBulkResponseDto>(`/redis/${connectionId}/namespaces/export`, data)
+  }
+
+  /**
+   * Get one page of a hash, list, set or sorted set
+   */
+  private async getCollectionPage<T>(
+    connectionId: string,
+    key: string,
+    path: string,
+    params?: CollectionPageQueryDto
+  ): Promise<ApiResponse<T>> {
+    const searchParams = new URLSearchParams()
+    if (params?.cursor) searchParams.append('cursor', params.cursor)
+    if (params?.count) searchParams.append('count', params.count.toString())
+    if (params?.match) searchParams.append('match', params.match)
+    if (params?.keyEncoding) searchParams.append('keyEncoding', params.keyEncoding)
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+
+    const query = searchParams.toString()
+    return this.get<T>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/${path}${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Get hash fields page
+   */
+  async getHashFields(
+    connectionId: string,
+    key: string,
+    params?: CollectionPageQueryDto
+  ): Promise<ApiResponse<HashFieldsPageResponseDto>> {
+    return this.getCollectionPage<HashFieldsPageResponseDto>(connectionId, key, 'hash/fields', params)
+  }
+
+  /**
+   * Get list items page
+   */
+  async getListItems(
+    connectionId: string,
+    key: string,
+    params?: CollectionPageQueryDto
+  ): Promise<ApiResponse<ListItemsPageResponseDto>> {
+    return this.getCollectionPage<ListItemsPageResponseDto>(connectionId, key, 'list/items', params)
+  }
+
+  /**
+   * Get set members page
+   */
+  async getSetMembers(
+    connectionId: string,
+    key: string,
+    params?: CollectionPageQueryDto
+  ): Promise<ApiResponse<SetMembersPageResponseDto>> {
+    return this.getCollectionPage<SetMembersPageResponseDto>(connectionId, key, 'set/members', params)
+  }
+
+  /**
+   * Get sorted set members page
+   */
+  async getZSetMembers(
+    connectionId: string,
+    key: string,
+    params?: CollectionPageQueryDto
+  ): Promise<ApiResponse<ZSetMembersPageResponseDto>> {
+    return this.getCollectionPage<ZSetMembersPageResponseDto>(connectionId, key, 'zset/members', params)
+  }
+
+  /**
+   * Run an element level edit on a hash, list, set, sorted set or JSON document
+   */
+  private async postElementEdit(
+    connectionId: string,
+    key: string,
+    path: string,
+    data: unknown
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.post<ElementEditResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/${path}`, data)
+  }
+
+  /**
+   * Set hash fields
+   */
+  async setHashFields(
+    connectionId: string,
+    key: string,
+    data: HashSetFieldsRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'hash/fields', data)
+  }
+
+  /**
+   * Delete hash fields
+   */
+  async deleteHashFields(
+    connectionId: string,
+    key: string,
+    data: HashDeleteFieldsRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'hash/fields/delete', data)
+  }
+
+  /**
+   * Rename hash field
+   */
+  async renameHashField(
+    connectionId: string,
+    key: string,
+    data: HashRenameFieldRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'hash/fields/rename', data)
+  }
+
+  /**
+   * Push list items
+   */
+  async pushListItems(
+    connectionId: string,
+    key: string,
+    data: ListPushItemsRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'list/items', data)
+  }
+
+  /**
+   * Pop list items
+   */
+  async popListItems(
+    connectionId: string,
+    key: string,
+    data: ListPopItemsRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'list/items/pop', data)
+  }
+
+  /**
+   * Replace list item
+   */
+  async setListItem(
+    connectionId: string,
+    key: string,
+    data: ListSetItemRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'list/items/set', data)
+  }
+
+  /**
+   * Insert list item
+   */
+  async insertListItem(
+    connectionId: string,
+    key: string,
+    data: ListInsertItemRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'list/items/insert', data)
+  }
+
+  /**
+   * Remove list items
+   */
+  async removeListItems(
+    connectionId: string,
+    key: string,
+    data: ListRemoveItemsRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'list/items/remove', data)
+  }
+
+  /**
+   * Add set members
+   */
+  async addSetMembers(
+    connectionId: string,
+    key: string,
+    data: SetMembersRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'set/members', data)
+  }
+
+  /**
+   * Remove set members
+   */
+  async removeSetMembers(
+    connectionId: string,
+    key: string,
+    data: SetMembersRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'set/members/delete', data)
+  }
+
+  /**
+   * Rename set member
+   */
+  async renameSetMember(
+    connectionId: string,
+    key: string,
+    data: SetRenameMemberRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'set/members/rename', data)
+  }
+
+  /**
+   * Add or update sorted set members
+   */
+  async addZSetMembers(
+    connectionId: string,
+    key: string,
+    data: ZSetAddMembersRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'zset/members', data)
+  }
+
+  /**
+   * Increment sorted set member score
+   */
+  async incrementZSetMember(
+    connectionId: string,
+    key: string,
+    data: ZSetIncrementRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'zset/members/incr', data)
+  }
+
+  /**
+   * Remove sorted set members
+   */
+  async removeZSetMembers(
+    connectionId: string,
+    key: string,
+    data: ZSetRemoveMembersRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'zset/members/delete', data)
+  }
+
+  /**
+   * Rename sorted set member
+   */
+  async renameZSetMember(
+    connectionId: string,
+    key: string,
+    data: ZSetRenameMemberRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'zset/members/rename', data)
+  }
+
+  /**
+   * Read a JSON document at a JSONPath
+   */
+  async getJsonValue(
+    connectionId: string,
+    key: string,
+    params?: JsonPathQueryDto
+  ): Promise<ApiResponse<JsonValueResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params?.path) searchParams.append('path', params.path)
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+
+    const query = searchParams.toString()
+    return this.get<JsonValueResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/json${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Set the value at a JSONPath
+   */
+  async setJsonValue(
+    connectionId: string,
+    key: string,
+    data: JsonSetRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'json', data)
+  }
+
+  /**
+   * Append values to the arrays at a JSONPath
+   */
+  async appendJsonArray(
+    connectionId: string,
+    key: string,
+    data: JsonArrAppendRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'json/arrappend', data)
+  }
+
+  /**
+   * Delete the values at a JSONPath
+   */
+  async deleteJsonPath(
+    connectionId: string,
+    key: string,
+    data: JsonDeleteRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'json/delete', data)
+  }
+
+  /**
+   * Query string of the range parameters shared by TS.RANGE and TS.MRANGE
+   */
+  private toTimeSeriesRangeParams(params?: TimeSeriesRangeQueryDto): URLSearchParams {
+    const searchParams = new URLSearchParams()
+    if (params?.from !== undefined) searchParams.append('from', params.from.toString())
+    if (params?.to !== undefined) searchParams.append('to', params.to.toString())
+    if (params?.aggregation) searchParams.append('aggregation', params.aggregation)
+    if (params?.bucketDuration) searchParams.append('bucketDuration', params.bucketDuration.toString())
+    if (params?.count) searchParams.append('count', params.count.toString())
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+    return searchParams
+  }
+
+  /**
+   * Read samples of a time series, optionally aggregated
+   */
+  async getTimeSeriesRange(
+    connectionId: string,
+    key: string,
+    params?: TimeSeriesRangeQueryDto
+  ): Promise<ApiResponse<TimeSeriesRangeResponseDto>> {
+    const query = this.toTimeSeriesRangeParams(params).toString()
+    return this.get<TimeSeriesRangeResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/timeseries/range${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Read samples of every time series matching label filters
+   */
+  async getTimeSeriesMRange(
+    connectionId: string,
+    params: TimeSeriesMRangeQueryDto
+  ): Promise<ApiResponse<TimeSeriesMRangeResponseDto>> {
+    const searchParams = this.toTimeSeriesRangeParams(params)
+    searchParams.append('filter', params.filter)
+
+    return this.get<TimeSeriesMRangeResponseDto>(`/redis/${connectionId}/timeseries/mrange?${searchParams.toString()}`)
+  }
+
+  /**
+   * Add a sample to a time series
+   */
+  async addTimeSeriesSample(
+    connectionId: string,
+    key: string,
+    data: TimeSeriesAddRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'timeseries/add', data)
+  }
+
+  /**
+   * Delete the samples in a time range
+   */
+  async deleteTimeSeriesSamples(
+    connectionId: string,
+    key: string,
+    data: TimeSeriesDeleteRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'timeseries/delete', data)
+  }
+
+  /**
+   * Add items to a HyperLogLog, Bloom, Cuckoo, Count-Min Sketch or Top-K key
+   */
+  async addProbabilisticItems(
+    connectionId: string,
+    key: string,
+    data: ProbabilisticAddRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'probabilistic/add', data)
+  }
+
+  /**
+   * Look items up in a Bloom, Cuckoo, Count-Min Sketch or Top-K key
+   */
+  async queryProbabilisticItems(
+    connectionId: string,
+    key: string,
+    params: ProbabilisticQueryDto
+  ): Promise<ApiResponse<ProbabilisticQueryResponseDto>> {
+    const searchParams = new URLSearchParams()
+    params.items.forEach((item) => searchParams.append('items', item))
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+
+    return this.get<ProbabilisticQueryResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/probabilistic/query?${searchParams.toString()}`)
+  }
+
+  /**
+   * Delete items from a Cuckoo filter
+   */
+  async deleteCuckooItems(
+    connectionId: string,
+    key: string,
+    data: CuckooDeleteRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'cuckoo/delete', data)
+  }
+
+  /**
+   * Merge other HyperLogLogs into a HyperLogLog
+   */
+  async mergeHyperLogLogs(
+    connectionId: string,
+    key: string,
+    data: HyperLogLogMergeRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'hll/merge', data)
+  }
+
+  /**
+   * Read a page of bits of a string value
+   */
+  async getBitmapPage(
+    connectionId: string,
+    key: string,
+    params?: BitmapPageQueryDto
+  ): Promise<ApiResponse<BitmapPageResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params?.offset !== undefined) searchParams.append('offset', params.offset.toString())
+    if (params?.count) searchParams.append('count', params.count.toString())
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+
+    const query = searchParams.toString()
+    return this.get<BitmapPageResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/bitmap${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Find the first set or clear bit from an offset
+   */
+  async getBitmapPosition(
+    connectionId: string,
+    key: string,
+    params: BitmapPositionQueryDto
+  ): Promise<ApiResponse<BitmapPositionResponseDto>> {
+    const searchParams = new URLSearchParams()
+    searchParams.append('bit', params.bit.toString())
+    if (params.from !== undefined) searchParams.append('from', params.from.toString())
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+
+    return this.get<BitmapPositionResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/bitmap/position?${searchParams.toString()}`)
+  }
+
+  /**
+   * Set or clear a single bit
+   */
+  async setBitmapBit(
+    connectionId: string,
+    key: string,
+    data: BitmapSetBitRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'bitmap/setbit', data)
+  }
+
+  /**
+   * Get a page of geo members with their positions
+   */
+  async getGeoMembers(
+    connectionId: string,
+    key: string,
+    params?: GeoPageQueryDto
+  ): Promise<ApiResponse<GeoMembersPageResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params?.offset !== undefined) searchParams.append('offset', params.offset.toString())
+    if (params?.count) searchParams.append('count', params.count.toString())
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+
+    const query = searchParams.toString()
+    return this.get<GeoMembersPageResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/geo${query ? `?${query}` : ''}`)
+  }
+
+  /**
+   * Find geo members within a radius or box
+   */
+  async searchGeoMembers(
+    connectionId: string,
+    key: string,
+    params: GeoSearchQueryDto
+  ): Promise<ApiResponse<GeoSearchResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params.member) searchParams.append('member', params.member)
+    if (params.longitude !== undefined) searchParams.append('longitude', params.longitude.toString())
+    if (params.latitude !== undefined) searchParams.append('latitude', params.latitude.toString())
+    if (params.radius !== undefined) searchParams.append('radius', params.radius.toString())
+    if (params.width !== undefined) searchParams.append('width', params.width.toString())
+    if (params.height !== undefined) searchParams.append('height', params.height.toString())
+    if (params.unit) searchParams.append('unit', params.unit)
+    if (params.count) searchParams.append('count', params.count.toString())
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+
+    return this.get<GeoSearchResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/geo/search?${searchParams.toString()}`)
+  }
+
+  /**
+   * Add or move geo members
+   */
+  async addGeoMembers(
+    connectionId: string,
+    key: string,
+    data: GeoAddRequestDto
+  ): Promise<ApiResponse<ElementEditResponseDto>> {
+    return this.postElementEdit(connectionId, key, 'geo/add', data)
+  }
+
+  /**
+   * Get a page of stream entries by ID range
+   */
+  async getStreamEntries(
+    connectionId: string,
+    key: string,
+    params?: StreamRangeQueryDto
+  ): Promise<ApiResponse<StreamRangeResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params?.start) searchParams.append('start', params.start)
+    if (params?.end) searchParams.append('end', params.end)
+    if (params?.count) searchParams.append('count', params.count.toString())
+    if (params?.reverse) searchParams.append('reverse', 'true')
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+
+    const query = searchParams.toString()
+    return this.get<StreamRangeResponseDto>(
+      `/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/entries${query ? `?${query}` : ''}`
+    )
+  }
+
+  /**
+   * Append stream entry
+   */
+  async addStreamEntry(
+    connectionId: string,
+    key: string,
+    data: StreamAddEntryRequestDto
+  ): Promise<ApiResponse<StreamAddEntryResponseDto>> {
+    return this.post<StreamAddEntryResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/entries`, data)
+  }
+
+  /**
+   * Delete stream entries
+   */
+  async deleteStreamEntries(
+    connectionId: string,
+    key: string,
+    data: StreamDeleteEntriesRequestDto
+  ): Promise<ApiResponse<StreamDeleteEntriesResponseDto>> {
+    return this.post<StreamDeleteEntriesResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/entries/delete`, data)
+  }
+
+  /**
+   * Trim stream
+   */
+  async trimStream(
+    connectionId: string,
+    key: string,
+    data: StreamTrimRequestDto
+  ): Promise<ApiResponse<StreamTrimResponseDto>> {
+    return this.post<StreamTrimResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/trim`, data)
+  }
+
+  /**
+   * List stream consumer groups
+   */
+  async getStreamGroups(
+    connectionId: string,
+    key: string,
+    db?: number
+  ): Promise<ApiResponse<ListStreamGroupsResponseDto>> {
+    const query = db === undefined ? '' : `?db=${db}`
+    return this.get<ListStreamGroupsResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/groups${query}`)
+  }
+
+  /**
+   * List consumers of a stream consumer group
+   */
+  async getStreamConsumers(
+    connectionId: string,
+    key: string,
+    group: string,
+    db?: number
+  ): Promise<ApiResponse<ListStreamConsumersResponseDto>> {
+    const query = db === undefined ? '' : `?db=${db}`
+    return this.get<ListStreamConsumersResponseDto>(
+      `/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/groups/${encodeURIComponent(group)}/consumers${query}`
+    )
+  }
+
+  /**
+   * Get pending entries of a stream consumer group
+   */
+  async getStreamPending(
+    connectionId: string,
+    key: string,
+    group: string,
+    params?: StreamPendingQueryDto
+  ): Promise<ApiResponse<StreamPendingResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params?.consumer) searchParams.append('consumer', params.consumer)
+    if (params?.start) searchParams.append('start', params.start)
+    if (params?.end) searchParams.append('end', params.end)
+    if (params?.count) searchParams.append('count', params.count.toString())
+    if (params?.minIdle !== undefined) searchParams.append('minIdle', params.minIdle.toString())
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+
+    const query = searchParams.toString()
+    return this.get<StreamPendingResponseDto>(
+      `/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/groups/${encodeURIComponent(group)}/pending${query ? `?${query}` : ''}`
+    )
+  }
+
+  /**
+   * Create stream consumer group
+   */
+  async createStreamGroup(
+    connectionId: string,
+    key: string,
+    data: CreateStreamGroupRequestDto
+  ): Promise<ApiResponse<StreamGroupResponseDto>> {
+    return this.post<StreamGroupResponseDto>(`/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/groups`, data)
+  }
+
+  /**
+   * Destroy stream consumer group
+   */
+  async destroyStreamGroup(
+    connectionId: string,
+    key: string,
+    group: string,
+    db?: number
+  ): Promise<ApiResponse<StreamGroupResponseDto>> {
+    const query = db === undefined ? '' : `?db=${db}`
+    return this.delete<StreamGroupResponseDto>(
+      `/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/groups/${encodeURIComponent(group)}${query}`
+    )
+  }
+
+  /**
+   * Reset stream consumer group last delivered ID
+   */
+  async setStreamGroupId(
+    connectionId: string,
+    key: string,
+    group: string,
+    data: SetStreamGroupIdRequestDto
+  ): Promise<ApiResponse<StreamGroupResponseDto>> {
+    return this.post<StreamGroupResponseDto>(
+      `/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/groups/${encodeURIComponent(group)}/setid`,
+      data
+    )
+  }
+
+  /**
+   * Acknowledge pending stream entries
+   */
+  async ackStreamEntries(
+    connectionId: string,
+    key: string,
+    group: string,
+    data: StreamAckRequestDto
+  ): Promise<ApiResponse<StreamAckResponseDto>> {
+    return this.post<StreamAckResponseDto>(
+      `/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/groups/${encodeURIComponent(group)}/ack`,
+      data
+    )
+  }
+
+  /**
+   * Claim pending stream entries
+   */
+  async claimStreamEntries(
+    connectionId: string,
+    key: string,
+    group: string,
+    data: StreamClaimRequestDto
+  ): Promise<ApiResponse<StreamClaimResponseDto>> {
+    return this.post<StreamClaimResponseDto>(
+      `/redis/${connectionId}/key/${encodeURIComponent(key)}/stream/groups/${encodeURIComponent(group)}/claim`,
+      data
+    )
+  }
+
+  /**
+   * List search indexes
+   */
+  async getSearchIndexes(connectionId: string): Promise<ApiResponse<ListSearchIndexesResponseDto>> {
+    return this.get<ListSearchIndexesResponseDto>(`/redis/${connectionId}/search/indexes`)
+  }
+
+  /**
+   * Get search index details
+   */
+  async getSearchIndex(connectionId: string, index: string): Promise<ApiResponse<GetSearchIndexResponseDto>> {
+    return this.get<GetSearchIndexResponseDto>(`/redis/${connectionId}/search/indexes/${encodeURIComponent(index)}`)
+  }
+
+  /**
+   * Create search index
+   */
+  async createSearchIndex(
+    connectionId: string,
+    data: CreateSearchIndexRequestDto
+  ): Promise<ApiResponse<SearchIndexResponseDto>> {
+    return this.post<SearchIndexResponseDto>(`/redis/${connectionId}/search/indexes`, data)
+  }
+
+  /**
+   * Drop search index
+   */
+  async dropSearchIndex(
+    connectionId: string,
+    index: string,
+    params?: DropSearchIndexQueryDto
+  ): Promise<ApiResponse<SearchIndexResponseDto>> {
+    const searchParams = new URLSearchParams()
+    if (params?.deleteDocuments) searchParams.append('deleteDocuments', 'true')
+    if (params?.db !== undefined) searchParams.append('db', params.db.toString())
+
+    const query = searchParams.toString()
+    return this.delete<SearchIndexResponseDto>(
+      `/redis/${connectionId}/search/indexes/${encodeURIComponent(index)}${query ? `?${query}` : ''}`
+    )
+  }
+
+  /**
+   * Query a search index
+   */
+  async searchIndex(
+    connectionId: string,
+    index: string,
+    params: SearchQueryDto
+  ): Promise<ApiResponse<SearchResponseDto>> {
+    const searchParams = new URLSearchParams()
+    searchParams.append('query', params.query)
+    if (params.offset !== undefined) searchParams.append('offset', params.offset.toString())
+    if (params.limit !== undefined) searchParams.append('limit', params.limit.toString())
+    if (params.sortBy) searchParams.append('sortBy', params.sortBy)
+    if (params.sortOrder) searchParams.append('sortOrder', params.sortOrder)
+    if (params.noContent) searchParams.append('noContent', 'true')
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+
+    return this.get<SearchResponseDto>(
+      `/redis/${connectionId}/search/indexes/${encodeURIComponent(index)}/search?${searchParams.toString()}`
+    )
+  }
+
+  /**
+   * Run an aggregation on a search index
+   */
+  async aggregateIndex(
+    connectionId: string,
+    index: string,
+    params: AggregateQueryDto
+  ): Promise<ApiResponse<AggregateResponseDto>> {
+    const searchParams = new URLSearchParams()
+    searchParams.append('query', params.query)
+    if (params.pipeline) searchParams.append('pipeline', params.pipeline)
+    if (params.offset !== undefined) searchParams.append('offset', params.offset.toString())
+    if (params.limit !== undefined) searchParams.append('limit', params.limit.toString())
+    if (params.db !== undefined) searchParams.append('db', params.db.toString())
+
+    return this.get<AggregateResponseDto>(
+      `/redis/${connectionId}/search/indexes/${encodeURIComponent(index)}/aggregate?${searchParams.toString()}`
+    )
+  }
 }
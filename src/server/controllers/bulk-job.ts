@@ -0,0 +1,329 @@
+/**
+ * Bulk Job Controllers
+ * Deletes, expires or persists every key matching a pattern in the background
+ */
+
+import type Redis from 'ioredis'
+import { getRedisConnection } from '@/server/lib/redis-pool'
+import { loadConnectionConfig } from '@/server/lib/connection-config'
+import { logAudit } from '@/server/lib/audit'
+import { captureDeletedKeys } from '@/server/controllers/recycle-bin'
+import type {
+  ConnectionConfig,
+  StartBulkJobRequestDto,
+  StartBulkJobResponseDto,
+  BulkJobStatusResponseDto,
+  CancelBulkJobResponseDto,
+  BulkJob,
+  BulkJobOperation
+} from '@/types'
+
+// In-memory bulk job tracking
+export const bulkJobs = new Map<string, BulkJob>()
+
+// Matches at or above this size need the pattern typed again before they run
+const CONFIRMATION_THRESHOLD = 1000
+
+// Deletes keep at most this many keys in the recycle bin unless the job opts in to all of them
+const RECYCLE_BIN_CAPTURE_LIMIT = 10000
+
+const AUDIT_ACTIONS: Record<BulkJobOperation, string> = {
+  delete: 'bulk.pattern_deleted',
+  expire: 'bulk.pattern_ttl_set',
+  persist: 'bulk.pattern_ttl_removed'
+}
+
+/**
+ * Whether a finished dry run counted few enough keys to skip the typed confirmation
+ */
+function isSmallCountedMatch(userId: string, data: StartBulkJobRequestDto): boolean {
+  const dryRun = data.dryRunId ? bulkJobs.get(data.dryRunId) : undefined
+  if (!dryRun || dryRun.userId !== userId || !dryRun.request.dryRun || dryRun.status !== 'completed') {
+    return false
+  }
+
+  const { connectionId, db = 0, pattern } = dryRun.request
+  return (
+    connectionId === data.connectionId &&
+    db === (data.db ?? 0) &&
+    pattern === data.pattern &&
+    dryRun.matched < CONFIRMATION_THRESHOLD
+  )
+}
+
+/**
+ * Start a bulk job, or a dry run that only counts the matching keys
+ */
+export async function startBulkJob(
+  userId: string,
+  userRole: string,
+  data: StartBulkJobRequestDto,
+  ipAddress: string,
+  userAgent?: string
+): Promise<StartBulkJobResponseDto> {
+  try {
+    if (data.operation === 'expire' && data.ttl === undefined) {
+      return {
+        success: false,
+        error: 'A TTL is required to expire keys'
+      }
+    }
+
+    if (!data.dryRun && !isSmallCountedMatch(userId, data) && data.confirmation !== data.pattern) {
+      return {
+        success: false,
+        error: 'Type the pattern to confirm, the match is large or has not been counted'
+      }
+    }
+
+    const config = await loadConnectionConfig(data.connectionId, userId, userRole)
+
+    const jobId = crypto.randomUUID()
+    const job: BulkJob = {
+      id: jobId,
+      userId,
+      request: { ...data, db: data.db ?? 0, dryRun: !!data.dryRun },
+      status: 'pending',
+      progress: 0,
+      matched: 0,
+      affected: 0,
+      failed: 0,
+      captured: 0,
+      cancelRequested: false,
+      createdAt: new Date()
+    }
+    bulkJobs.set(jobId, job)
+
+    // Process job in background
+    processBulkJob(jobId, config, ipAddress, userAgent).catch(console.error)
+
+    return {
+      success: true,
+      jobId,
+      message: data.dryRun ? 'Counting matching keys' : 'Bulk job started'
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start bulk job'
+    }
+  }
+}
+
+/**
+ * Get bulk job status
+ */
+export async function getBulkJobStatus(
+  userId: string,
+  jobId: string
+): Promise<BulkJobStatusResponseDto> {
+  const job = bulkJobs.get(jobId)
+  if (!job) {
+    return {
+      success: false,
+      error: 'Bulk job not found'
+    }
+  }
+
+  if (job.userId !== userId) {
+    return {
+      success: false,
+      error: 'Access denied'
+    }
+  }
+
+  return {
+    success: true,
+    jobId,
+    operation: job.request.operation,
+    dryRun: job.request.dryRun,
+    status: job.status,
+    progress: job.progress,
+    matched: job.matched,
+    affected: job.affected,
+    failed: job.failed,
+    confirmationRequired: job.request.dryRun && job.status === 'completed'
+      ? job.matched >= CONFIRMATION_THRESHOLD
+      : undefined,
+    captureLimited: job.request.dryRun && job.status === 'completed'
+      ? job.matched > RECYCLE_BIN_CAPTURE_LIMIT
+      : undefined,
+    startedAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString(),
+    error: job.error
+  }
+}
+
+/**
+ * Ask a running bulk job to stop after the batch in flight
+ */
+export async function cancelBulkJob(
+  userId: string,
+  jobId: string
+): Promise<CancelBulkJobResponseDto> {
+  const job = bulkJobs.get(jobId)
+  if (!job) {
+    return {
+      success: false,
+      error: 'Bulk job not found'
+    }
+  }
+
+  if (job.userId !== userId) {
+    return {
+      success: false,
+      error: 'Access denied'
+    }
+  }
+
+  if (job.status !== 'pending' && job.status !== 'processing') {
+    return {
+      success: false,
+      error: `Bulk job is already ${job.status}`
+    }
+  }
+
+  job.cancelRequested = true
+
+  return {
+    success: true,
+    message: 'Bulk job cancellation requested'
+  }
+}
+
+/**
+ * Apply the job's operation to one SCAN batch, updating the counters
+ */
+async function applyBatch(job: BulkJob, redis: Redis, keys: Buffer[]): Promise<void> {
+  const { connectionId, db = 0, operation, ttl, captureAll } = job.request
+
+  // UNLINK frees the memory in a background thread, large values do not block the server
+  if (operation === 'delete') {
+    // Every copy goes into the app database, a huge match would copy the whole keyspace
+    const capture = captureAll ? keys : keys.slice(0, Math.max(RECYCLE_BIN_CAPTURE_LIMIT - job.captured, 0))
+    if (capture.length > 0) {
+      await captureDeletedKeys(redis, capture, {
+        connectionId,
+        database: db,
+        userId: job.userId,
+        source: 'pattern'
+      })
+      job.captured += capture.length
+    }
+    job.affected += await redis.unlink(...keys)
+    return
+  }
+
+  const pipeline = redis.pipeline()
+  keys.forEach(key => {
+    if (operation === 'expire') {
+      pipeline.expire(key, ttl!)
+    } else {
+      pipeline.persist(key)
+    }
+  })
+
+  const results = (await pipeline.exec()) ?? []
+  for (const [error, result] of results) {
+    if (error) {
+      job.failed++
+    } else if (result === 1) {
+      job.affected++
+    }
+  }
+}
+
+/**
+ * Background process: SCAN the pattern and apply the operation batch by batch
+ */
+async function processBulkJob(
+  jobId: string,
+  config: ConnectionConfig & { name: string },
+  ipAddress: string,
+  userAgent?: string
+): Promise<void> {
+  const job = bulkJobs.get(jobId)!
+  const { pattern, db = 0, dryRun, operation, batchSize = 500, delayMs = 0 } = job.request
+
+  try {
+    job.status = 'processing'
+
+    const redis = await getRedisConnection(config, db)
+
+    // SCAN visits roughly COUNT slots per call, which gives a progress estimate
+    const total = Math.max(await redis.dbsize(), 1)
+    let visited = 0
+    let cursor = '0'
+
+    do {
+      const [nextCursor, keys] = await redis.scanBuffer(cursor, 'MATCH', pattern, 'COUNT', batchSize)
+      cursor = nextCursor.toString()
+      visited += batchSize
+
+      if (keys.length > 0) {
+        job.matched += keys.length
+        if (!dryRun) {
+          await applyBatch(job, redis, keys)
+        }
+      }
+
+      job.progress = Math.min(99, Math.round((visited / total) * 100))
+
+      if (delayMs > 0 && cursor !== '0' && !job.cancelRequested) {
+        await new Promise(resolve => setTimeout(resolve, delayMs))
+      }
+    } while (cursor !== '0' && !job.cancelRequested)
+
+    job.status = job.cancelRequested ? 'cancelled' : 'completed'
+    job.progress = job.cancelRequested ? job.progress : 100
+  } catch (error) {
+    job.status = 'failed'
+    job.error = error instanceof Error ? error.message : 'Bulk job failed'
+  }
+
+  job.completedAt = new Date()
+
+  // Dry runs change nothing, real runs leave a single summary record
+  if (dryRun) {
+    return
+  }
+
+  await logAudit({
+    userId: job.userId,
+    action: AUDIT_ACTIONS[operation],
+    resourceType: 'key',
+    resourceId: config.id,
+    resourceName: `${pattern} (${job.affected} keys)`,
+    details: JSON.stringify({
+      pattern,
+      database: db,
+      operation,
+      ttl: job.request.ttl,
+      status: job.status,
+      matched: job.matched,
+      affected: job.affected,
+      failed: job.failed,
+      ...(operation === 'delete' && { captured: job.captured, captureAll: !!job.request.captureAll }),
+      batchSize,
+      delayMs,
+      durationMs: job.completedAt.getTime() - job.createdAt.getTime(),
+      error: job.error
+    }),
+    ipAddress,
+    userAgent
+  })
+}
+
+/**
+ * Cleanup old bulk jobs (24 hours)
+ */
+setInterval(() => {
+  const cutoff = new Date()
+  cutoff.setHours(cutoff.getHours() - 24)
+
+  for (const [jobId, job] of bulkJobs.entries()) {
+    if (job.completedAt && job.completedAt < cutoff) {
+      bulkJobs.delete(jobId)
+    }
+  }
+}, 60 * 60 * 1000) // Check every hour
@@ -0,0 +1,394 @@
+/**
+ * Change Set Controllers
+ * Previews staged edits across keys and applies them in one MULTI/EXEC transaction
+ */
+
+import type Redis from 'ioredis'
+import type { ChainableCommander } from 'ioredis'
+import { createHash } from 'crypto'
+import { readDataType } from '@/server/lib/redis-modules'
+import { withWatchConnection } from '@/server/lib/redis-pool'
+import { describeBinary, displayKeyName, toKeyName, type KeyName } from '@/server/lib/redis-binary'
+import type {
+  ChangeSetOperation,
+  ChangeSetPreviewEntry,
+  ChangeSetRequestDto,
+  ApplyChangeSetRequestDto,
+  PreviewChangeSetResponseDto,
+  ApplyChangeSetResponseDto
+} from '@/types'
+
+// Longer string values are cut off in the preview
+const MAX_PREVIEW_LENGTH = 500
+
+/**
+ * A key as the operations so far left it.
+ * `source` is the key in Redis still holding the data no operation has replaced yet,
+ * unset for keys the set creates.
+ */
+interface KeyState {
+  type: string
+  ttl?: number
+  source?: KeyName
+  value?: string
+  fields: Record<string, string | null>
+}
+
+interface ChangeSetPlan {
+  entries: ChangeSetPreviewEntry[]
+  removed: KeyName[] // Keys in Redis whose data a delete or a rename over them drops
+}
+
+async function ensureDb(redis: Redis, db: number) {
+  await redis.select(db)
+}
+
+function truncate(value: string) {
+  return value.length > MAX_PREVIEW_LENGTH ? `${value.slice(0, MAX_PREVIEW_LENGTH)}…` : value
+}
+
+function formatTtl(ttl?: number) {
+  return ttl === undefined ? 'No expiry' : `${ttl}s`
+}
+
+// The same bytes in either encoding are the same key
+function keyId(key: KeyName) {
+  return (typeof key === 'string' ? Buffer.from(key) : key).toString('hex')
+}
+
+function operationKey(operation: ChangeSetOperation): KeyName {
+  return toKeyName(operation.key, operation.keyEncoding)
+}
+
+/**
+ * Every key the operations read or write, once each
+ */
+export function changeSetKeys(operations: ChangeSetOperation[]): KeyName[] {
+  const keys = new Map<string, KeyName>()
+  for (const operation of operations) {
+    const names = [operationKey(operation)]
+    if (operation.op === 'rename') {
+      names.push(toKeyName(operation.newKey, operation.newKeyEncoding))
+    }
+    names.forEach(name => keys.set(keyId(name), name))
+  }
+  return [...keys.values()]
+}
+
+/**
+ * Version of every key by the hex of its name: a digest of its DUMP payload,
+ * '' for keys that do not exist. The TTL is not part of it.
+ */
+async function readKeyVersions(redis: Redis, keys: KeyName[]): Promise<Record<string, string>> {
+  const pipeline = redis.pipeline()
+  keys.forEach(key => pipeline.dumpBuffer(key))
+  const replies = (await pipeline.exec()) ?? []
+
+  return Object.fromEntries(keys.map((key, index) => {
+    const [error, payload] = replies[index] ?? []
+    if (error) {
+      throw error
+    }
+    return [keyId(key), payload ? createHash('sha1').update(payload as Buffer).digest('hex') : '']
+  }))
+}
+
+/**
+ * Walk the operations over the current data without writing anything.
+ * Each entry lists what its operation changes, or why it cannot run at that point.
+ */
+async function planChangeSet(redis: Redis, operations: ChangeSetOperation[]): Promise<ChangeSetPlan> {
+  // Both keyed by keyId
+  const states = new Map<string, KeyState | null>()
+  const removed = new Map<string, KeyName>()
+  const entries: ChangeSetPreviewEntry[] = []
+
+  const stateOf = async (key: KeyName): Promise<KeyState | null> => {
+    const id = keyId(key)
+    if (!states.has(id)) {
+      const { rawType, type } = await readDataType(redis, key)
+      if (rawType === 'none') {
+        states.set(id, null)
+      } else {
+        const ttl = await redis.ttl(key)
+        states.set(id, { type: type ?? rawType, ...(ttl >= 0 && { ttl }), source: key, fields: {} })
+      }
+    }
+    return states.get(id) ?? null
+  }
+
+  const fieldOf = async (state: KeyState, field: string) => {
+    if (!(field in state.fields)) {
+      const value = state.source === undefined ? null : await redis.hgetBuffer(state.source, field)
+      state.fields[field] = value === null ? null : describeBinary(value).text
+    }
+    return state.fields[field]
+  }
+
+  const valueOf = async (state: KeyState) => {
+    if (state.value === undefined && state.source !== undefined) {
+      // One byte past the limit is enough to know the value gets cut off
+      const head = await redis.getrangeBuffer(state.source, 0, MAX_PREVIEW_LENGTH)
+      state.value = describeBinary(head).text
+    }
+    return state.value ?? ''
+  }
+
+  for (const [index, operation] of operations.entries()) {
+    const key = operationKey(operation)
+    const state = await stateOf(key)
+    const entry: ChangeSetPreviewEntry = {
+      index,
+      op: operation.op,
+      key: displayKeyName(key),
+      ...(state && { type: state.type }),
+      changes: []
+    }
+    entries.push(entry)
+
+    switch (operation.op) {
+      case 'set':
+        if (state && state.type !== 'string') {
+          entry.error = `Key holds a ${state.type}, not a string`
+          break
+        }
+        entry.changes.push({
+          label: 'Value',
+          before: state ? truncate(await valueOf(state)) : undefined,
+          after: truncate(operation.value)
+        })
+        if (state) {
+          state.value = operation.value
+        } else {
+          states.set(keyId(key), { type: 'string', value: operation.value, fields: {} })
+        }
+        break
+
+      case 'hset':
+        if (state && state.type !== 'hash') {
+          entry.error = `Key holds a ${state.type}, not a hash`
+          break
+        }
+        const hash = state ?? { type: 'hash', fields: {} }
+        for (const [field, value] of Object.entries(operation.fields)) {
+          const before = await fieldOf(hash, field)
+          if (before !== value) {
+            entry.changes.push({ label: field, before: before ?? undefined, after: value })
+          }
+          hash.fields[field] = value
+        }
+        states.set(keyId(key), hash)
+        break
+
+      case 'hdel':
+        if (!state) {
+          entry.error = 'Key does not exist'
+          break
+        }
+        if (state.type !== 'hash') {
+          entry.error = `Key holds a ${state.type}, not a hash`
+          break
+        }
+        for (const field of operation.fields) {
+          const before = await fieldOf(state, field)
+          if (before !== null) {
+            entry.changes.push({ label: field, before })
+          }
+          state.fields[field] = null
+        }
+        if (entry.changes.length === 0) {
+          entry.warning = 'None of these fields exist'
+        }
+        break
+
+      case 'expire':
+        if (!state) {
+          entry.error = 'Key does not exist'
+          break
+        }
+        const ttl = operation.ttl ?? undefined
+        entry.changes.push({ label: 'TTL', before: formatTtl(state.ttl), after: formatTtl(ttl) })
+        state.ttl = ttl
+        break
+
+      case 'rename':
+        if (!state) {
+          entry.error = 'Key does not exist'
+          break
+        }
+        const newKey = toKeyName(operation.newKey, operation.newKeyEncoding)
+        if (keyId(newKey) === keyId(key)) {
+          entry.error = 'New name is the same as the current one'
+          break
+        }
+        const target = await stateOf(newKey)
+        if (target) {
+          entry.warning = `Overwrites the existing ${target.type} "${displayKeyName(newKey)}"`
+          if (target.source !== undefined) {
+            removed.set(keyId(target.source), target.source)
+          }
+        }
+        entry.changes.push({ label: 'Name', before: displayKeyName(key), after: displayKeyName(newKey) })
+        states.set(keyId(newKey), state)
+        states.set(keyId(key), null)
+        break
+
+      case 'delete':
+        if (!state) {
+          entry.warning = 'Key does not exist, nothing to delete'
+          break
+        }
+        entry.changes.push({ label: 'Type', before: state.type })
+        if (state.source !== undefined) {
+          removed.set(keyId(state.source), state.source)
+        }
+        states.set(keyId(key), null)
+        break
+    }
+  }
+
+  return { entries, removed: [...removed.values()] }
+}
+
+function queueOperation(transaction: ChainableCommander, operation: ChangeSetOperation) {
+  const key = operationKey(operation)
+  switch (operation.op) {
+    case 'set':
+      transaction.set(key, operation.value, 'KEEPTTL')
+      break
+
+    case 'hset':
+      transaction.hset(key, operation.fields)
+      break
+
+    case 'hdel':
+      transaction.hdel(key, ...operation.fields)
+      break
+
+    case 'expire':
+      if (operation.ttl === null) {
+        transaction.persist(key)
+      } else {
+        transaction.expire(key, operation.ttl)
+      }
+      break
+
+    case 'rename':
+      transaction.rename(key, toKeyName(operation.newKey, operation.newKeyEncoding))
+      break
+
+    case 'delete':
+      transaction.del(key)
+      break
+  }
+}
+
+/**
+ * Preview what a change set would do, operation by operation, with the versions
+ * of the touched keys it was made against
+ */
+export async function previewChangeSet(
+  redis: Redis,
+  data: ChangeSetRequestDto
+): Promise<PreviewChangeSetResponseDto> {
+  try {
+    await ensureDb(redis, data.db ?? 0)
+
+    // Read before planning: a change in between then fails the apply instead of slipping through
+    const versions = await readKeyVersions(redis, changeSetKeys(data.operations))
+    const { entries } = await planChangeSet(redis, data.operations)
+
+    return {
+      success: true,
+      entries,
+      valid: entries.every(entry => !entry.error),
+      versions
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to preview change set'
+    }
+  }
+}
+
+/**
+ * Apply a change set in one MULTI/EXEC transaction with WATCH on every touched key.
+ * Nothing is written when an operation is invalid, or a touched key differs from the
+ * version the preview reported or changes before EXEC.
+ * Keys the set deletes or renames over are read by `prepareDelete` first and only
+ * stored (recycle bin) once EXEC went through.
+ */
+export async function applyChangeSet(
+  redis: Redis,
+  data: ApplyChangeSetRequestDto,
+  prepareDelete?: (keys: KeyName[]) => Promise<() => Promise<void>>
+): Promise<ApplyChangeSetResponseDto> {
+  const conflict: ApplyChangeSetResponseDto = {
+    success: false,
+    conflict: true,
+    error: 'Keys of this change set were changed by someone else, review the preview and apply again'
+  }
+
+  try {
+    return await withWatchConnection(redis, async client => {
+      const { operations, versions, db = 0 } = data
+
+      await ensureDb(client, db)
+
+      const touched = changeSetKeys(operations)
+      await client.watch(...touched)
+
+      // WATCH only covers changes from here on, the versions cover those since the preview
+      const current = await readKeyVersions(client, touched)
+      if (touched.some(key => versions[keyId(key)] !== current[keyId(key)])) {
+        return conflict
+      }
+
+      const { entries, removed } = await planChangeSet(client, operations)
+      if (entries.some(entry => entry.error)) {
+        return {
+          success: false,
+          entries,
+          error: 'Some operations cannot be applied, review the preview'
+        }
+      }
+
+      const storeRemoved = removed.length > 0 ? await prepareDelete?.(removed) : undefined
+
+      const transaction = client.multi()
+      for (const operation of operations) {
+        queueOperation(transaction, operation)
+      }
+
+      // A null reply means a watched key changed before EXEC
+      const results = await transaction.exec()
+      if (!results) {
+        return conflict
+      }
+      const failed = results.find(([error]) => error)
+      if (failed?.[0]) {
+        throw failed[0]
+      }
+
+      let message = `Applied ${operations.length} ${operations.length === 1 ? 'change' : 'changes'} in one transaction`
+      try {
+        await storeRemoved?.()
+      } catch {
+        // The changes are written either way, only the recycle bin copies are missing
+        message += ', but the removed keys could not be kept in the recycle bin'
+      }
+
+      return {
+        success: true,
+        applied: operations.length,
+        message
+      }
+    })
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to apply change set'
+    }
+  }
+}
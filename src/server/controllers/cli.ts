@@ -0,0 +1,166 @@
+/**
+ * CLI Console Controllers
+ * Runs raw commands and keeps each user's command history per connection
+ */
+
+import type Redis from 'ioredis'
+import { ReplyError } from 'ioredis'
+import { db } from '@/db'
+import { userPreferences } from '@/db/schema'
+import { and, eq } from 'drizzle-orm'
+import { describeBinary } from '@/server/lib/redis-binary'
+import type { CliHistoryResponseDto, CliReply, ExecuteCommandResponseDto } from '@/types'
+
+// Command lines kept per user and connection, oldest are dropped first
+const MAX_HISTORY = 200
+
+async function ensureDb(redis: Redis, database: number) {
+  await redis.select(database)
+}
+
+function historyKey(connectionId: string) {
+  return `cliHistory:${connectionId}`
+}
+
+function toReply(value: unknown): CliReply {
+  if (value === null || value === undefined) {
+    return { type: 'nil' }
+  }
+  // Errors inside arrays, e.g. from EXEC or module replies
+  if (value instanceof Error) {
+    return { type: 'error', value: value.message }
+  }
+  if (Buffer.isBuffer(value)) {
+    return { type: 'string', value: describeBinary(value).text }
+  }
+  if (typeof value === 'number') {
+    return { type: 'integer', value }
+  }
+  if (Array.isArray(value)) {
+    return { type: 'array', items: value.map(toReply) }
+  }
+  return { type: 'string', value: String(value) }
+}
+
+/**
+ * Run one command, already split and checked against the role of the user.
+ * An error reply from Redis is a result like any other, only failing to reach Redis is not.
+ */
+export async function executeCommand(
+  redis: Redis,
+  args: Buffer[],
+  database: number
+): Promise<ExecuteCommandResponseDto> {
+  try {
+    await ensureDb(redis, database)
+
+    const [command, ...rest] = args
+    const startedAt = performance.now()
+    let reply: CliReply
+    try {
+      // Buffers keep binary replies intact until they are escaped
+      reply = toReply(await redis.callBuffer(command.toString(), ...rest))
+    } catch (error) {
+      if (!(error instanceof ReplyError)) {
+        throw error
+      }
+      reply = toReply(error)
+    }
+
+    return {
+      success: true,
+      reply,
+      durationMs: Math.round((performance.now() - startedAt) * 100) / 100
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to execute command'
+    }
+  }
+}
+
+async function readHistory(userId: string, connectionId: string) {
+  const [preference] = await db
+    .select()
+    .from(userPreferences)
+    .where(and(eq(userPreferences.userId, userId), eq(userPreferences.key, historyKey(connectionId))))
+    .limit(1)
+
+  if (!preference) {
+    return { exists: false, history: [] as string[] }
+  }
+
+  try {
+    const history = JSON.parse(preference.value)
+    return { exists: true, history: Array.isArray(history) ? history.map(String) : [] }
+  } catch {
+    return { exists: true, history: [] as string[] }
+  }
+}
+
+/**
+ * Get the command history of a user on a connection, oldest first
+ */
+export async function getCliHistory(userId: string, connectionId: string): Promise<CliHistoryResponseDto> {
+  try {
+    const { history } = await readHistory(userId, connectionId)
+
+    return {
+      success: true,
+      history
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get command history'
+    }
+  }
+}
+
+/**
+ * Add a command line to the history, a repeat of the last line is not added again
+ */
+export async function appendCliHistory(userId: string, connectionId: string, line: string): Promise<void> {
+  const { exists, history } = await readHistory(userId, connectionId)
+  if (history[history.length - 1] === line) {
+    return
+  }
+
+  const value = JSON.stringify([...history, line].slice(-MAX_HISTORY))
+  const key = historyKey(connectionId)
+
+  if (exists) {
+    await db
+      .update(userPreferences)
+      .set({
+        value,
+        updatedAt: new Date()
+      })
+      .where(and(eq(userPreferences.userId, userId), eq(userPreferences.key, key)))
+  } else {
+    await db.insert(userPreferences).values({ userId, key, value })
+  }
+}
+
+/**
+ * Clear the command history of a user on a connection
+ */
+export async function clearCliHistory(userId: string, connectionId: string): Promise<CliHistoryResponseDto> {
+  try {
+    await db
+      .delete(userPreferences)
+      .where(and(eq(userPreferences.userId, userId), eq(userPreferences.key, historyKey(connectionId))))
+
+    return {
+      success: true,
+      history: [],
+      message: 'Command history cleared'
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to clear command history'
+    }
+  }
+}
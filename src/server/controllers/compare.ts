@@ -0,0 +1,517 @@
+/**
+ * Keyspace Compare Controllers
+ * Diffs the keys matching a pattern on two databases or connections and syncs selected keys
+ */
+
+import type Redis from 'ioredis'
+import { describeBinary, displayKeyName, toKeyName, type KeyName } from '@/server/lib/redis-binary'
+import type {
+  CompareKeyspacesRequestDto,
+  CompareKeyspacesResponseDto,
+  KeyspaceDifference,
+  KeyDiffQueryDto,
+  KeyDiffResponseDto,
+  KeyElementChange,
+  SyncKeysRequestDto,
+  SyncKeysResponseDto
+} from '@/types'
+
+// SCAN COUNT hint and keys per TYPE/DUMP pipeline
+const COMPARE_BATCH_SIZE = 200
+
+// Element changes returned for one key
+const MAX_KEY_CHANGES = 500
+
+// Keys with more elements on a side are too large to diff
+const MAX_DIFF_ELEMENTS = 10000
+
+// COUNT hint of HSCAN/SSCAN/ZSCAN and page size of LRANGE/XRANGE
+const ELEMENT_PAGE_SIZE = 500
+
+const LENGTH_COMMANDS: Record<string, 'hlen' | 'llen' | 'scard' | 'zcard' | 'xlen'> = {
+  hash: 'hlen',
+  list: 'llen',
+  set: 'scard',
+  zset: 'zcard',
+  stream: 'xlen'
+}
+
+/**
+ * Elements of a value, or why they were not read: a type only compared by its
+ * DUMP payload, or more elements than are diffed
+ */
+type ElementsRead =
+  | { elements: Map<string, string>; omitted?: undefined }
+  | { elements?: undefined; omitted: 'type' | 'size' }
+
+async function ensureDb(redis: Redis, db: number) {
+  await redis.select(db)
+}
+
+/**
+ * SCAN the keys matching a pattern, keyed by hex so binary names compare exactly
+ */
+async function scanKeys(
+  redis: Redis,
+  pattern: string,
+  maxKeys: number
+): Promise<{ keys: Map<string, Buffer>; truncated: boolean }> {
+  const keys = new Map<string, Buffer>()
+  let cursor = '0'
+
+  do {
+    const [nextCursor, batch] = await redis.scanBuffer(cursor, 'MATCH', pattern, 'COUNT', COMPARE_BATCH_SIZE)
+    cursor = nextCursor.toString()
+
+    for (const key of batch) {
+      const id = key.toString('hex')
+      if (keys.has(id)) {
+        // SCAN may return a key more than once
+        continue
+      }
+      if (keys.size >= maxKeys) {
+        return { keys, truncated: true }
+      }
+      keys.set(id, key)
+    }
+  } while (cursor !== '0')
+
+  return { keys, truncated: false }
+}
+
+/**
+ * TYPE and DUMP payload of each key in one round trip
+ */
+async function readTypesAndDumps(
+  redis: Redis,
+  keys: Buffer[]
+): Promise<Array<{ type: string; payload: Buffer | null }>> {
+  const pipeline = redis.pipeline()
+  for (const key of keys) {
+    pipeline.type(key)
+    pipeline.dumpBuffer(key)
+  }
+  const replies = (await pipeline.exec()) ?? []
+
+  return keys.map((_, index) => {
+    const [typeError, type] = replies[index * 2] ?? []
+    const [dumpError, payload] = replies[index * 2 + 1] ?? []
+    if (typeError || dumpError) {
+      throw typeError || dumpError
+    }
+    return { type: type as string, payload: payload as Buffer | null }
+  })
+}
+
+/**
+ * SCAN through a hash, set or sorted set, handing each reply page to `add`
+ */
+async function scanElements(
+  scan: (cursor: string) => Promise<[Buffer, Buffer[]]>,
+  add: (flat: Buffer[]) => void
+): Promise<void> {
+  let cursor = '0'
+  do {
+    const [nextCursor, flat] = await scan(cursor)
+    cursor = nextCursor.toString()
+    add(flat)
+  } while (cursor !== '0')
+}
+
+/**
+ * Elements of a value as display text: hash fields, list indexes, set and sorted set members,
+ * stream entry IDs, or a single empty element for strings and JSON documents.
+ * Collections are read page by page, and not at all above MAX_DIFF_ELEMENTS.
+ */
+async function readElements(
+  redis: Redis,
+  key: KeyName,
+  type: string
+): Promise<ElementsRead> {
+  const text = (value: Buffer) => describeBinary(value).text
+  const elements = new Map<string, string>()
+
+  const lengthCommand = LENGTH_COMMANDS[type]
+  const length = lengthCommand ? await redis[lengthCommand](key) : 0
+  if (length > MAX_DIFF_ELEMENTS) {
+    return { omitted: 'size' }
+  }
+
+  switch (type) {
+    case 'none':
+      return { elements }
+    case 'string': {
+      const value = await redis.getBuffer(key)
+      if (value) {
+        elements.set('', text(value))
+      }
+      return { elements }
+    }
+    case 'hash':
+      await scanElements(cursor => redis.hscanBuffer(key, cursor, 'COUNT', ELEMENT_PAGE_SIZE), flat => {
+        for (let i = 0; i < flat.length; i += 2) {
+          elements.set(text(flat[i]), text(flat[i + 1]))
+        }
+      })
+      return { elements }
+    case 'list':
+      for (let start = 0; start < length; start += ELEMENT_PAGE_SIZE) {
+        const items = await redis.lrangeBuffer(key, start, start + ELEMENT_PAGE_SIZE - 1)
+        items.forEach((item, index) => elements.set(String(start + index), text(item)))
+      }
+      return { elements }
+    case 'set':
+      await scanElements(cursor => redis.sscanBuffer(key, cursor, 'COUNT', ELEMENT_PAGE_SIZE), members => {
+        for (const member of members) {
+          elements.set(text(member), text(member))
+        }
+      })
+      return { elements }
+    case 'zset':
+      await scanElements(cursor => redis.zscanBuffer(key, cursor, 'COUNT', ELEMENT_PAGE_SIZE), flat => {
+        for (let i = 0; i < flat.length; i += 2) {
+          elements.set(text(flat[i]), flat[i + 1].toString())
+        }
+      })
+      return { elements }
+    case 'stream': {
+      let start = '-'
+      while (true) {
+        const entries = await redis.xrangeBuffer(key, start, '+', 'COUNT', ELEMENT_PAGE_SIZE)
+        for (const [id, fields] of entries) {
+          const pairs: Record<string, string> = {}
+          for (let i = 0; i < fields.length; i += 2) {
+            pairs[text(fields[i])] = text(fields[i + 1])
+          }
+          elements.set(id.toString(), JSON.stringify(pairs))
+        }
+        if (entries.length < ELEMENT_PAGE_SIZE) {
+          return { elements }
+        }
+        // The next page starts right after the last ID
+        const [ms, sequence] = entries[entries.length - 1][0].toString().split('-')
+        start = `${ms}-${BigInt(sequence) + BigInt(1)}`
+      }
+    }
+    case 'ReJSON-RL': {
+      const document = await redis.call('JSON.GET', key, '$') as string | null
+      if (document !== null) {
+        elements.set('', document)
+      }
+      return { elements }
+    }
+    default:
+      return { omitted: 'type' }
+  }
+}
+
+function elementsEqual(left: Map<string, string>, right: Map<string, string>): boolean {
+  if (left.size !== right.size) {
+    return false
+  }
+  for (const [element, value] of left) {
+    if (right.get(element) !== value) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Whether two keys of the same type hold the same value. Equal DUMP payloads settle it,
+ * otherwise the elements are compared since encodings and RDB versions change the payload.
+ * 'size' when the payloads differ and a side has too many elements to compare.
+ */
+async function valuesEqual(
+  left: Redis,
+  right: Redis,
+  key: Buffer,
+  type: string,
+  leftPayload: Buffer | null,
+  rightPayload: Buffer | null
+): Promise<boolean | 'size'> {
+  if (leftPayload && rightPayload && leftPayload.equals(rightPayload)) {
+    return true
+  }
+
+  const [leftRead, rightRead] = await Promise.all([
+    readElements(left, key, type),
+    readElements(right, key, type)
+  ])
+  if (!leftRead.elements || !rightRead.elements) {
+    return leftRead.omitted === 'size' || rightRead.omitted === 'size' ? 'size' : false
+  }
+  return elementsEqual(leftRead.elements, rightRead.elements)
+}
+
+function toDifference(key: Buffer, difference: Omit<KeyspaceDifference, 'key' | 'keyHex'>): KeyspaceDifference {
+  const { text, hex } = describeBinary(key)
+  return { key: text, keyHex: hex, ...difference }
+}
+
+/**
+ * Compare the keys matching a pattern on the left and the right side
+ */
+export async function compareKeyspaces(
+  left: Redis,
+  right: Redis,
+  data: CompareKeyspacesRequestDto
+): Promise<CompareKeyspacesResponseDto> {
+  try {
+    const { db = 0, pattern = '*', maxKeys = 10000 } = data
+    const targetDb = data.targetDb ?? db
+
+    await ensureDb(left, db)
+    await ensureDb(right, targetDb)
+
+    const leftScan = await scanKeys(left, pattern, maxKeys)
+    const rightScan = await scanKeys(right, pattern, maxKeys)
+
+    const differences: KeyspaceDifference[] = []
+    let identical = 0
+
+    // Every left key is looked up on the right directly, so a truncated right scan
+    // does not turn keys into false left-only differences
+    const leftKeys = [...leftScan.keys.values()]
+    for (let i = 0; i < leftKeys.length; i += COMPARE_BATCH_SIZE) {
+      const batch = leftKeys.slice(i, i + COMPARE_BATCH_SIZE)
+      const [leftReplies, rightReplies] = await Promise.all([
+        readTypesAndDumps(left, batch),
+        readTypesAndDumps(right, batch)
+      ])
+
+      for (let j = 0; j < batch.length; j++) {
+        const key = batch[j]
+        const leftReply = leftReplies[j]
+        const rightReply = rightReplies[j]
+
+        if (leftReply.type === 'none') {
+          // Expired or deleted since SCAN returned it
+          continue
+        }
+        if (rightReply.type === 'none') {
+          differences.push(toDifference(key, { kind: 'left_only', leftType: leftReply.type }))
+          continue
+        }
+        if (leftReply.type !== rightReply.type) {
+          differences.push(toDifference(key, {
+            kind: 'type_mismatch',
+            leftType: leftReply.type,
+            rightType: rightReply.type
+          }))
+          continue
+        }
+
+        const equal = await valuesEqual(left, right, key, leftReply.type, leftReply.payload, rightReply.payload)
+        if (equal === true) {
+          identical++
+        } else {
+          differences.push(toDifference(key, {
+            kind: 'value_mismatch',
+            leftType: leftReply.type,
+            rightType: rightReply.type,
+            ...(equal === 'size' && { tooLarge: true })
+          }))
+        }
+      }
+    }
+
+    // Keys both sides hold were handled above, the rest of the right scan is right-only
+    // unless the left scan stopped early and the key sits past its limit
+    const rightKeys = [...rightScan.keys.entries()]
+      .filter(([id]) => !leftScan.keys.has(id))
+      .map(([, key]) => key)
+    for (let i = 0; i < rightKeys.length; i += COMPARE_BATCH_SIZE) {
+      const batch = rightKeys.slice(i, i + COMPARE_BATCH_SIZE)
+      const pipeline = right.pipeline()
+      batch.forEach(key => pipeline.type(key))
+      const types = (await pipeline.exec()) ?? []
+      const exists = leftScan.truncated
+        ? await Promise.all(batch.map(key => left.exists(key)))
+        : batch.map(() => 0)
+
+      batch.forEach((key, j) => {
+        const [, type] = types[j] ?? []
+        if (type === 'none' || exists[j]) {
+          return
+        }
+        differences.push(toDifference(key, { kind: 'right_only', rightType: type as string }))
+      })
+    }
+
+    differences.sort((a, b) => a.key.localeCompare(b.key))
+
+    return {
+      success: true,
+      differences,
+      leftScanned: leftScan.keys.size,
+      rightScanned: rightScan.keys.size,
+      identical,
+      truncated: leftScan.truncated || rightScan.truncated
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare keyspaces'
+    }
+  }
+}
+
+/**
+ * Element-level diff of one key between the left and the right side
+ */
+export async function diffKey(
+  left: Redis,
+  right: Redis,
+  key: string,
+  query: KeyDiffQueryDto
+): Promise<KeyDiffResponseDto> {
+  try {
+    const { db = 0, keyEncoding = 'utf8' } = query
+    const targetDb = query.targetDb ?? db
+    const keyName = toKeyName(key, keyEncoding)
+
+    await ensureDb(left, db)
+    await ensureDb(right, targetDb)
+
+    const [leftType, rightType, leftTtl, rightTtl] = await Promise.all([
+      left.type(keyName),
+      right.type(keyName),
+      left.ttl(keyName),
+      right.ttl(keyName)
+    ])
+
+    if (leftType === 'none' && rightType === 'none') {
+      return {
+        success: false,
+        error: 'Key not found on either side'
+      }
+    }
+
+    const result: KeyDiffResponseDto = {
+      success: true,
+      key: displayKeyName(keyName),
+      leftType: leftType === 'none' ? undefined : leftType,
+      rightType: rightType === 'none' ? undefined : rightType,
+      leftTtl,
+      rightTtl
+    }
+
+    // Values of different types have no common elements to line up
+    if (leftType !== 'none' && rightType !== 'none' && leftType !== rightType) {
+      return { ...result, changes: [], comparable: false }
+    }
+
+    const [leftRead, rightRead] = await Promise.all([
+      readElements(left, keyName, leftType),
+      readElements(right, keyName, rightType)
+    ])
+    const leftElements = leftRead.elements
+    const rightElements = rightRead.elements
+    if (!leftElements || !rightElements) {
+      const tooLarge = leftRead.omitted === 'size' || rightRead.omitted === 'size'
+      return { ...result, changes: [], comparable: false, ...(tooLarge && { tooLarge }) }
+    }
+
+    const changes: KeyElementChange[] = []
+    for (const [element, value] of leftElements) {
+      if (rightElements.get(element) !== value) {
+        changes.push({ element, left: value, right: rightElements.get(element) })
+      }
+    }
+    for (const [element, value] of rightElements) {
+      if (!leftElements.has(element)) {
+        changes.push({ element, right: value })
+      }
+    }
+
+    return {
+      ...result,
+      changes: changes.slice(0, MAX_KEY_CHANGES),
+      comparable: true,
+      truncated: changes.length > MAX_KEY_CHANGES
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to diff key'
+    }
+  }
+}
+
+/**
+ * Make the destination side match the source for the given keys: DUMP/RESTORE REPLACE
+ * keys the source holds, delete the ones it does not. The destination key is handed
+ * to `beforeDelete` (recycle bin) before it is overwritten or deleted.
+ */
+export async function syncKeys(
+  left: Redis,
+  right: Redis,
+  data: SyncKeysRequestDto,
+  beforeDelete?: (keys: KeyName[]) => Promise<void>
+): Promise<SyncKeysResponseDto> {
+  try {
+    const { db = 0, direction } = data
+    const targetDb = data.targetDb ?? db
+    const keys: KeyName[] = [
+      ...data.keys,
+      ...(data.hexKeys ?? []).map(key => toKeyName(key, 'hex'))
+    ]
+    if (keys.length === 0) {
+      return {
+        success: false,
+        error: 'At least one key is required'
+      }
+    }
+
+    await ensureDb(left, db)
+    await ensureDb(right, targetDb)
+
+    const [source, destination] = direction === 'left_to_right' ? [left, right] : [right, left]
+    let written = 0
+    let deleted = 0
+    const failed: string[] = []
+
+    for (const key of keys) {
+      try {
+        // One MULTI, so the TTL belongs to the dumped value
+        const [dumpReply, pttlReply] = await source.multi().dumpBuffer(key).pttl(key).exec() ?? []
+        const replyError = dumpReply?.[0] ?? pttlReply?.[0]
+        if (replyError) {
+          throw replyError
+        }
+        const payload = dumpReply?.[1] as Buffer | null | undefined
+        const pttl = Number(pttlReply?.[1])
+
+        await beforeDelete?.([key])
+        // A key that expired on the source is gone there, the destination follows
+        if (!payload || pttl === -2) {
+          deleted += await destination.del(key)
+          continue
+        }
+
+        // RESTORE takes 0 for keys without expiration
+        await destination.restore(key, Math.max(pttl, 0), payload, 'REPLACE')
+        written++
+      } catch {
+        failed.push(displayKeyName(key))
+      }
+    }
+
+    const message = `Synced ${written + deleted} keys: ${written} written, ${deleted} deleted${failed.length > 0 ? `, ${failed.length} failed` : ''}`
+    return {
+      success: failed.length === 0,
+      written,
+      deleted,
+      failed: failed.length > 0 ? failed : undefined,
+      message,
+      // Clients surface `error` for unsuccessful replies, keep the summary there too
+      error: failed.length > 0 ? `${message}: ${failed.slice(0, 5).join(', ')}${failed.length > 5 ? ', ...' : ''}` : undefined
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to sync keys'
+    }
+  }
+}
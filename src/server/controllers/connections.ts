@@ -216,7 +216,7 @@ export async function createConnection(
   userId: string,
   userRole: string
 ): Promise<CreateConnectionResponseDto> {
-  let config: ParsedConnection & { name: string; description?: string; isShared: boolean }
+  let config: ParsedConnection & { name: string; description?: string; isShared: boolean; keyDelimiter?: string }
 
   // Parse based on input type
   if ('connectionString' in data) {
@@ -241,6 +241,7 @@ export async function createConnection(
       database: data.database || 0,
       useTls: data.useTls || false,
       isShared: data.isShared || false,
+      keyDelimiter: data.keyDelimiter,
     }
   }
 
@@ -269,6 +270,7 @@ export async function createConnection(
     database: config.database,
     useTls: config.useTls,
     isShared: config.isShared,
+    keyDelimiter: config.keyDelimiter || ':',
     ownerId: userId,
     lastStatus: null,
     lastError: null,
@@ -332,6 +334,7 @@ export async function updateConnection(
   if (data.database !== undefined) updateData.database = data.database
   if (data.useTls !== undefined) updateData.useTls = data.useTls
   if (data.isShared !== undefined) updateData.isShared = data.isShared
+  if (data.keyDelimiter) updateData.keyDelimiter = data.keyDelimiter
 
   // Handle password update
   if (data.password !== undefined) {
@@ -11,11 +11,15 @@ import { decrypt } from '@/server/lib/encryption'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
 import { eq } from 'drizzle-orm'
+import { prefixPattern } from '@/server/lib/redis-pattern'
+import { isUtf8, toKeyName } from '@/server/lib/redis-binary'
+import { toDataType } from '@/server/lib/redis-modules'
 import type {
   ExportKeysRequestDto,
   ExportConnectionRequestDto,
   ExportDatabaseRequestDto,
   ExportKeysResponseDto,
+  PrefixExportRequestDto,
   ExportConnectionResponseDto,
   ExportDatabaseResponseDto,
   ExportStatusResponseDto,
@@ -31,6 +35,38 @@ type ExportFileData = ExportedDatabase | ExportedConnection | string
 // In-memory export job tracking
 export const exportJobs = new Map<string, ExportJob>()
 
+/**
+ * Convert a Buffer reply for export. When any part is not valid UTF-8
+ * every string of the value is written as base64 instead.
+ */
+function toExportValue(
+  type: string,
+  reply: Buffer | Buffer[] | null
+): Pick<ExportedKey, 'value' | 'valueEncoding'> {
+  if (reply === null) {
+    return { value: null }
+  }
+
+  const parts = Array.isArray(reply) ? reply : [reply]
+  const binary = parts.some(part => !isUtf8(part))
+  const encode = (part: Buffer) => part.toString(binary ? 'base64' : 'utf8')
+
+  let value: unknown
+  if (!Array.isArray(reply)) {
+    value = encode(reply)
+  } else if (type === 'hash') {
+    const fields: Record<string, string> = {}
+    for (let i = 0; i < reply.length; i += 2) {
+      fields[encode(reply[i])] = encode(reply[i + 1])
+    }
+    value = fields
+  } else {
+    value = reply.map(encode)
+  }
+
+  return binary ? { value, valueEncoding: 'base64' } : { value }
+}
+
 /**
  * Export keys from Redis
  */
@@ -97,6 +133,34 @@ export async function exportKeys(
   }
 }
 
+/**
+ * Export every key under a prefix, with values and TTLs
+ */
+export async function exportKeysByPrefix(
+  userId: string,
+  connectionId: string,
+  data: PrefixExportRequestDto,
+  ipAddress: string,
+  userAgent?: string
+): Promise<ExportKeysResponseDto> {
+  return exportKeys(
+    userId,
+    connectionId,
+    {
+      format: data.format ?? 'json',
+      database: data.db ?? 0,
+      // Prefixes that are not valid UTF-8 are matched on their raw bytes
+      ...(data.prefixEncoding === 'hex'
+        ? { pattern: prefixPattern(Buffer.from(toKeyName(data.prefix, 'hex'))).toString('hex'), patternEncoding: 'hex' as const }
+        : { pattern: prefixPattern(data.prefix) }),
+      includeTTL: true,
+      includeValues: true
+    },
+    ipAddress,
+    userAgent
+  )
+}
+
 /**
  * Export connection configuration
  */
@@ -295,25 +359,27 @@ async function processExportKeys(
       data.database
     )
     
-    // Scan keys based on pattern and type
+    // Scan keys based on pattern and type; ioredis sends a Buffer pattern as raw bytes
+    const match = (data.pattern ? toKeyName(data.pattern, data.patternEncoding) : '*') as string
     const keys: ExportedKey[] = []
     let cursor = '0'
     let count = 0
 
     do {
-      const result = await redis.scan(cursor, 'MATCH', data.pattern || '*', 'COUNT', 100)
-      cursor = result[0]
+      // Buffer replies keep keys and values that are not valid UTF-8 intact
+      const result = await redis.scanBuffer(cursor, 'MATCH', match, 'COUNT', 100)
+      cursor = result[0].toString()
       const keyNames = result[1]
 
       for (const keyName of keyNames) {
         if (data.limit && count >= data.limit) break
 
-        const keyType = await redis.type(keyName)
-        const exportedKey: ExportedKey = {
-          key: keyName,
-          type: keyType,
-          database: data.database || 0
-        }
+        // Module types are exported under the browser type name, e.g. "json" for ReJSON-RL
+        const rawType = await redis.type(keyName)
+        const keyType: string = toDataType(rawType) ?? rawType
+        const exportedKey: ExportedKey = isUtf8(keyName)
+          ? { key: keyName.toString('utf8'), type: keyType, database: data.database || 0 }
+          : { key: keyName.toString('base64'), keyEncoding: 'base64', type: keyType, database: data.database || 0 }
 
         // Include TTL if requested
         if (data.includeTTL) {
@@ -322,25 +388,32 @@ async function processExportKeys(
 
         // Include value if requested
         if (data.includeValues) {
+          let reply: Buffer | Buffer[] | null
           switch (keyType) {
             case 'string':
-              exportedKey.value = await redis.get(keyName)
+              reply = await redis.getBuffer(keyName)
               break
             case 'hash':
-              exportedKey.value = await redis.hgetall(keyName)
+              // Flat field/value reply, hgetallBuffer would turn field names into strings
+              reply = await redis.callBuffer('HGETALL', keyName) as Buffer[]
               break
             case 'list':
-              exportedKey.value = await redis.lrange(keyName, 0, -1)
+              reply = await redis.lrangeBuffer(keyName, 0, -1)
               break
             case 'set':
-              exportedKey.value = await redis.smembers(keyName)
+              reply = await redis.smembersBuffer(keyName)
               break
             case 'zset':
-              exportedKey.value = await redis.zrange(keyName, 0, -1, 'WITHSCORES')
+              reply = await redis.zrangeBuffer(keyName, 0, -1, 'WITHSCORES')
+              break
+            case 'json':
+              // Without a path JSON.GET returns the document itself as JSON text
+              reply = await redis.callBuffer('JSON.GET', keyName) as Buffer
               break
             default:
-              exportedKey.value = await redis.get(keyName)
+              reply = await redis.getBuffer(keyName)
           }
+          Object.assign(exportedKey, toExportValue(keyType, reply))
         }
 
         // Filter by type if specified
@@ -522,13 +595,15 @@ async function generateExportFile(
     if (typeof data === 'string' || !('keys' in data)) {
       throw new Error('CSV export requires database key data')
     }
-    const headers = ['key', 'type', 'value', 'ttl', 'database']
+    const headers = ['key', 'type', 'value', 'ttl', 'database', 'keyEncoding', 'valueEncoding']
     const rows = data.keys.map((key: ExportedKey) => [
       key.key,
       key.type,
       JSON.stringify(key.value || ''),
       key.ttl?.toString() || '',
-      key.database?.toString() || ''
+      key.database?.toString() || '',
+      key.keyEncoding || '',
+      key.valueEncoding || ''
     ])
     
     content = [
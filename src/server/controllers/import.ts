@@ -333,6 +333,11 @@ async function importKeyToRedis(
       }
       break
 
+    case 'json':
+      // Exports carry the document as JSON text, hand-written files may inline it
+      await redis.call('JSON.SET', key, '$', typeof value === 'string' ? value : JSON.stringify(value))
+      break
+
     default:
       throw new Error(`Unsupported Redis type: ${type}`)
   }
@@ -10,3 +10,14 @@ export * from './redis'
 export * from './audit'
 export * from './settings'
 export * from './preferences'
+export * from './search'
+export * from './migration'
+export * from './compare'
+export * from './bulk-job'
+export * from './recycle-bin'
+export * from './key-history'
+export * from './change-set'
+export * from './pubsub'
+export * from './keyspace-events'
+export * from './cli'
+export * from './monitor'
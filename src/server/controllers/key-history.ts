@@ -0,0 +1,389 @@
+/**
+ * Key History Controllers
+ * Records before/after snapshots of key edits and rolls keys back to them
+ */
+
+import type Redis from 'ioredis'
+import { db } from '@/db'
+import { keyHistory, users } from '@/db/schema'
+import { and, desc, eq, inArray } from 'drizzle-orm'
+import { readDataType } from '@/server/lib/redis-modules'
+import { describeBinary, displayKeyName, type KeyName } from '@/server/lib/redis-binary'
+import type {
+  KeyHistoryOperation,
+  KeySnapshot,
+  KeyHistoryEntry,
+  KeyHistoryQueryDto,
+  KeyHistoryResponseDto,
+  RollbackKeyRequestDto,
+  RollbackKeyResponseDto
+} from '@/types'
+
+// Values above either limit are recorded without their content
+const MAX_SNAPSHOT_BYTES = 256 * 1024
+const MAX_SNAPSHOT_ELEMENTS = 10000
+
+// Older entries of a key are dropped once it has this many
+const MAX_ENTRIES_PER_KEY = 50
+
+const LENGTH_COMMANDS: Record<string, 'strlen' | 'hlen' | 'llen' | 'scard' | 'zcard'> = {
+  string: 'strlen',
+  hash: 'hlen',
+  list: 'llen',
+  set: 'scard',
+  zset: 'zcard'
+}
+
+async function ensureDb(redis: Redis, db: number) {
+  await redis.select(db)
+}
+
+/**
+ * Read the value of a key in the shape the update endpoint takes.
+ * Elements are read as bytes: `value` holds their text (escaped when not valid UTF-8)
+ * and, when one of them is binary, `valueHex` the same shape with every element as hex.
+ */
+async function readSnapshotValue(
+  redis: Redis,
+  key: KeyName,
+  type: string
+): Promise<Pick<KeySnapshot, 'value' | 'valueHex'>> {
+  let elements: Buffer[] = []
+  let shape: (encode: (element: Buffer) => string) => unknown
+
+  switch (type) {
+    case 'string':
+      const text = describeBinary(await redis.getBuffer(key) ?? Buffer.alloc(0))
+      return { value: text.text, ...(text.hex && { valueHex: text.hex }) }
+
+    case 'hash':
+      // HGETALL replies come back as an object with text field names, HKEYS and HVALS keep the bytes
+      const [fieldsReply, valuesReply] = await redis.multi().hkeysBuffer(key).hvalsBuffer(key).exec() ?? []
+      const fields = (fieldsReply?.[1] ?? []) as Buffer[]
+      const values = (valuesReply?.[1] ?? []) as Buffer[]
+      elements = [...fields, ...values]
+      shape = encode => Object.fromEntries(fields.map((field, index) => [encode(field), encode(values[index])]))
+      break
+
+    case 'list':
+      elements = await redis.lrangeBuffer(key, 0, -1)
+      shape = encode => elements.map(encode)
+      break
+
+    case 'set':
+      // Sorted so two snapshots of the same members compare equal
+      elements = (await redis.smembersBuffer(key)).sort(Buffer.compare)
+      shape = encode => elements.map(encode)
+      break
+
+    case 'zset':
+      const reply = await redis.zrangeBuffer(key, 0, -1, 'WITHSCORES')
+      const members = reply.filter((_, index) => index % 2 === 0)
+      elements = members
+      shape = encode => members.map((member, index) => ({ member: encode(member), score: reply[index * 2 + 1].toString() }))
+      break
+
+    default:
+      // JSON documents, the root path ($) wraps the document in a single element array
+      const jsonReply = await redis.call('JSON.GET', key, '$') as string | null
+      return { value: jsonReply === null ? null : JSON.parse(jsonReply)[0] }
+  }
+
+  const isBinary = elements.some(element => describeBinary(element).hex !== undefined)
+  return {
+    value: shape(element => describeBinary(element).text),
+    ...(isBinary && { valueHex: shape(element => element.toString('hex')) })
+  }
+}
+
+/**
+ * Snapshot a key for its history, null when it does not exist.
+ * Types without a whole-value form and large values keep only type and TTL.
+ */
+export async function readKeySnapshot(
+  redis: Redis,
+  key: KeyName,
+  database: number = 0
+): Promise<KeySnapshot | null> {
+  await ensureDb(redis, database)
+
+  const { rawType, type } = await readDataType(redis, key)
+  if (rawType === 'none') {
+    return null
+  }
+
+  const ttl = await redis.ttl(key)
+  const snapshot: KeySnapshot = {
+    key: displayKeyName(key),
+    type: type ?? rawType,
+    ...(ttl >= 0 && { ttl })
+  }
+
+  if (snapshot.type !== 'json' && !LENGTH_COMMANDS[snapshot.type]) {
+    return { ...snapshot, omitted: 'type' }
+  }
+
+  const lengthCommand = LENGTH_COMMANDS[snapshot.type]
+  if (lengthCommand) {
+    const length = await redis[lengthCommand](key)
+    const limit = snapshot.type === 'string' ? MAX_SNAPSHOT_BYTES : MAX_SNAPSHOT_ELEMENTS
+    if (length > limit) {
+      return { ...snapshot, omitted: 'size' }
+    }
+  }
+
+  const value = await readSnapshotValue(redis, key, snapshot.type)
+  if (JSON.stringify(value).length > MAX_SNAPSHOT_BYTES) {
+    return { ...snapshot, omitted: 'size' }
+  }
+
+  return { ...snapshot, ...value }
+}
+
+/**
+ * Record an edit with the key's state before it and its current state.
+ * Failures are logged rather than thrown, the edit itself already succeeded.
+ */
+export async function recordKeyHistory(
+  redis: Redis,
+  data: {
+    connectionId: string
+    database: number
+    key: KeyName
+    operation: KeyHistoryOperation
+    before: KeySnapshot | null
+    userId: string
+    auditLogId?: string
+    renamedFrom?: KeyName // History of the old name moves to the new one
+  }
+): Promise<void> {
+  try {
+    const keyBytes = typeof data.key === 'string' ? Buffer.from(data.key) : data.key
+    const after = await readKeySnapshot(redis, data.key, data.database)
+
+    if (data.renamedFrom !== undefined) {
+      const fromBytes = typeof data.renamedFrom === 'string' ? Buffer.from(data.renamedFrom) : data.renamedFrom
+      await db
+        .update(keyHistory)
+        .set({ keyName: displayKeyName(data.key), keyBytes })
+        .where(and(
+          eq(keyHistory.connectionId, data.connectionId),
+          eq(keyHistory.database, data.database),
+          eq(keyHistory.keyBytes, fromBytes)
+        ))
+    }
+
+    const keyCondition = and(
+      eq(keyHistory.connectionId, data.connectionId),
+      eq(keyHistory.database, data.database),
+      eq(keyHistory.keyBytes, keyBytes)
+    )
+
+    await db.insert(keyHistory).values({
+      connectionId: data.connectionId,
+      database: data.database,
+      keyName: displayKeyName(data.key),
+      keyBytes,
+      operation: data.operation,
+      before: data.before ? JSON.stringify(data.before) : null,
+      after: after ? JSON.stringify(after) : null,
+      auditLogId: data.auditLogId,
+      changedBy: data.userId
+    })
+
+    const expired = await db
+      .select({ id: keyHistory.id })
+      .from(keyHistory)
+      .where(keyCondition)
+      .orderBy(desc(keyHistory.changedAt))
+      .then(rows => rows.slice(MAX_ENTRIES_PER_KEY))
+
+    if (expired.length > 0) {
+      await db.delete(keyHistory).where(inArray(keyHistory.id, expired.map(entry => entry.id)))
+    }
+  } catch (error) {
+    console.error('Failed to record key history:', error)
+  }
+}
+
+/**
+ * List the recorded edits of a key, newest first
+ */
+export async function getKeyHistory(
+  connectionId: string,
+  key: KeyName,
+  query: KeyHistoryQueryDto
+): Promise<KeyHistoryResponseDto> {
+  try {
+    const { db: database = 0, limit = 50 } = query
+
+    const rows = await db
+      .select({
+        id: keyHistory.id,
+        operation: keyHistory.operation,
+        before: keyHistory.before,
+        after: keyHistory.after,
+        auditLogId: keyHistory.auditLogId,
+        username: users.username,
+        changedAt: keyHistory.changedAt
+      })
+      .from(keyHistory)
+      .leftJoin(users, eq(keyHistory.changedBy, users.id))
+      .where(and(
+        eq(keyHistory.connectionId, connectionId),
+        eq(keyHistory.database, database),
+        eq(keyHistory.keyBytes, typeof key === 'string' ? Buffer.from(key) : key)
+      ))
+      .orderBy(desc(keyHistory.changedAt))
+      .limit(limit)
+
+    const entries: KeyHistoryEntry[] = rows.map(row => ({
+      id: row.id,
+      operation: row.operation,
+      before: row.before ? JSON.parse(row.before) as KeySnapshot : null,
+      after: row.after ? JSON.parse(row.after) as KeySnapshot : null,
+      auditLogId: row.auditLogId ?? undefined,
+      changedBy: row.username ?? undefined,
+      changedAt: row.changedAt.toISOString()
+    }))
+
+    return {
+      success: true,
+      entries
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load key history'
+    }
+  }
+}
+
+/**
+ * Whether a snapshot holds a hash, list, set or sorted set without elements
+ */
+function isEmptyCollection(snapshot: KeySnapshot): boolean {
+  if (snapshot.omitted || !['hash', 'list', 'set', 'zset'].includes(snapshot.type)) {
+    return false
+  }
+  const value = snapshot.value ?? []
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0
+}
+
+/**
+ * Rewrite a key from one of its history snapshots.
+ * Value and TTL come back (the TTL counts from now), the name stays as it is.
+ * Restoring a state where the key did not exist deletes it, through `beforeDelete` first.
+ */
+export async function rollbackKey(
+  redis: Redis,
+  connectionId: string,
+  key: KeyName,
+  historyId: string,
+  data: RollbackKeyRequestDto,
+  beforeDelete?: (keys: KeyName[]) => Promise<void>
+): Promise<RollbackKeyResponseDto> {
+  try {
+    const { version = 'before', db: database = 0 } = data
+
+    const entry = await db
+      .select()
+      .from(keyHistory)
+      .where(and(
+        eq(keyHistory.id, historyId),
+        eq(keyHistory.connectionId, connectionId),
+        eq(keyHistory.database, database),
+        eq(keyHistory.keyBytes, typeof key === 'string' ? Buffer.from(key) : key)
+      ))
+      .limit(1)
+      .then(rows => rows[0])
+
+    if (!entry) {
+      return {
+        success: false,
+        error: 'History entry not found'
+      }
+    }
+
+    await ensureDb(redis, database)
+
+    const stored = version === 'before' ? entry.before : entry.after
+    const snapshot = stored ? JSON.parse(stored) as KeySnapshot : null
+
+    // Redis has no empty collections, restoring one leaves no key
+    if (!snapshot || isEmptyCollection(snapshot)) {
+      await beforeDelete?.([key])
+      await redis.del(key)
+      return {
+        success: true,
+        message: snapshot
+          ? `Key "${displayKeyName(key)}" deleted, it was empty in that version`
+          : `Key "${displayKeyName(key)}" deleted, it did not exist in that version`
+      }
+    }
+
+    if (snapshot.omitted) {
+      return {
+        success: false,
+        error: snapshot.omitted === 'size'
+          ? 'This version was too large to keep its value and cannot be restored'
+          : `Values of type "${snapshot.type}" are not kept and cannot be restored`
+      }
+    }
+
+    // Binary elements were kept as hex next to their escaped text
+    const elements = snapshot.valueHex ?? snapshot.value
+    const toBytes = (element: string): string | Buffer =>
+      snapshot.valueHex !== undefined ? Buffer.from(element, 'hex') : element
+
+    const transaction = redis.multi().del(key)
+
+    switch (snapshot.type) {
+      case 'string':
+        transaction.set(key, snapshot.valueHex ? Buffer.from(snapshot.valueHex as string, 'hex') : String(snapshot.value))
+        break
+
+      case 'hash':
+        const fields = Object.entries(elements as Record<string, string>)
+        transaction.hset(key, new Map(fields.map(([field, value]) => [toBytes(field), toBytes(value)])))
+        break
+
+      case 'list':
+        transaction.rpush(key, ...(elements as string[]).map(toBytes))
+        break
+
+      case 'set':
+        transaction.sadd(key, ...(elements as string[]).map(toBytes))
+        break
+
+      case 'zset':
+        const members = elements as Array<{ member: string; score: string }>
+        transaction.zadd(key, ...members.flatMap(({ member, score }) => [score, toBytes(member)]))
+        break
+
+      default:
+        transaction.call('JSON.SET', key, '$', JSON.stringify(snapshot.value))
+        break
+    }
+
+    if (snapshot.ttl !== undefined) {
+      transaction.expire(key, Math.max(snapshot.ttl, 1))
+    }
+
+    const results = await transaction.exec()
+    const failed = results?.find(([error]) => error)
+    if (failed?.[0]) {
+      throw failed[0]
+    }
+
+    return {
+      success: true,
+      message: `Key "${displayKeyName(key)}" rolled back`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to roll back key'
+    }
+  }
+}
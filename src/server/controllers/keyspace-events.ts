@@ -0,0 +1,142 @@
+/**
+ * Keyspace Notification Controllers
+ * Reads and changes notify-keyspace-events and streams key events as server-sent events
+ */
+
+import type Redis from 'ioredis'
+import { openSubscriptionStream } from '@/server/lib/redis-subscription'
+import type { EventStreamResult } from '@/server/lib/event-stream'
+import { describeBinary } from '@/server/lib/redis-binary'
+import { globToRegExp } from '@/server/lib/redis-pattern'
+import type {
+  ConnectionConfig,
+  KeyspaceEvent,
+  KeyspaceEventsQueryDto,
+  KeyspaceNotificationsResponseDto,
+  UpdateKeyspaceNotificationsRequestDto
+} from '@/types'
+
+async function readFlags(redis: Redis): Promise<string> {
+  const [, flags = ''] = await redis.config('GET', 'notify-keyspace-events') as string[]
+  return flags
+}
+
+function describeFlags(flags: string) {
+  return {
+    flags,
+    keyspace: flags.includes('K'),
+    keyevent: flags.includes('E')
+  }
+}
+
+/**
+ * Get the notify-keyspace-events setting
+ */
+export async function getKeyspaceNotifications(redis: Redis): Promise<KeyspaceNotificationsResponseDto> {
+  try {
+    return {
+      success: true,
+      ...describeFlags(await readFlags(redis))
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read keyspace notification settings'
+    }
+  }
+}
+
+/**
+ * Change the notify-keyspace-events setting, for the whole server
+ */
+export async function updateKeyspaceNotifications(
+  redis: Redis,
+  data: UpdateKeyspaceNotificationsRequestDto
+): Promise<KeyspaceNotificationsResponseDto> {
+  try {
+    // Event classes alone publish nothing, one of the channel kinds has to be on
+    if (data.flags && !/[KE]/.test(data.flags)) {
+      return {
+        success: false,
+        error: 'Include K (keyspace) or E (keyevent), otherwise no events are published'
+      }
+    }
+
+    await redis.config('SET', 'notify-keyspace-events', data.flags)
+
+    // Redis normalizes the flags, e.g. A replaces the classes it stands for
+    const flags = await readFlags(redis)
+
+    return {
+      success: true,
+      ...describeFlags(flags),
+      message: flags ? `Keyspace notifications set to "${flags}"` : 'Keyspace notifications turned off'
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update keyspace notification settings'
+    }
+  }
+}
+
+/**
+ * Stream the events of keys matching a pattern in one database.
+ * Keyspace channels (K) match the pattern in Redis; with only keyevent channels (E)
+ * every event of the database is received and filtered here.
+ */
+export async function openKeyspaceEventStream(
+  redis: Redis,
+  config: ConnectionConfig,
+  query: KeyspaceEventsQueryDto,
+  signal: AbortSignal
+): Promise<EventStreamResult> {
+  const db = query.db ?? 0
+  const pattern = query.pattern ?? '*'
+
+  let notifications: ReturnType<typeof describeFlags>
+  try {
+    notifications = describeFlags(await readFlags(redis))
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read keyspace notification settings'
+    }
+  }
+
+  const toEvent = (key: Buffer, event: Buffer): KeyspaceEvent => ({
+    key: describeBinary(key).text,
+    event: event.toString(),
+    db,
+    receivedAt: new Date().toISOString()
+  })
+
+  if (notifications.keyspace) {
+    const prefix = `__keyspace@${db}__:`
+    return openSubscriptionStream(
+      config,
+      { channels: [], patterns: [`${prefix}${pattern}`] },
+      signal,
+      (channel, message) => toEvent(channel.subarray(prefix.length), message)
+    )
+  }
+
+  if (notifications.keyevent) {
+    const prefix = `__keyevent@${db}__:`
+    const matcher = pattern === '*' ? null : globToRegExp(pattern)
+    return openSubscriptionStream(
+      config,
+      { channels: [], patterns: [`${prefix}*`] },
+      signal,
+      (channel, message) => {
+        const event = toEvent(message, channel.subarray(prefix.length))
+        return !matcher || matcher.test(event.key) ? event : undefined
+      }
+    )
+  }
+
+  return {
+    success: false,
+    error: 'Keyspace notifications are turned off on this server, enable notify-keyspace-events first'
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Migration Controllers
+ * Copies every key matching a pattern from one connection to another in the background
+ */
+
+import type Redis from 'ioredis'
+import { getRedisConnection } from '@/server/lib/redis-pool'
+import { loadConnectionConfig } from '@/server/lib/connection-config'
+import { logAudit } from '@/server/lib/audit'
+import { displayKeyName } from '@/server/lib/redis-binary'
+import type {
+  ConnectionConfig,
+  StartMigrationRequestDto,
+  StartMigrationResponseDto,
+  MigrationStatusResponseDto,
+  CancelMigrationResponseDto,
+  MigrationJob
+} from '@/types'
+
+// In-memory migration job tracking
+export const migrationJobs = new Map<string, MigrationJob>()
+
+// Failed keys kept for the status and the final report
+const MAX_FAILED_KEYS = 100
+
+// Attempts at a free name with the rename policy: key+suffix, key+suffix:2, ...
+const MAX_RENAME_ATTEMPTS = 20
+
+/**
+ * Start a migration job
+ */
+export async function startMigration(
+  userId: string,
+  userRole: string,
+  data: StartMigrationRequestDto,
+  ipAddress: string,
+  userAgent?: string
+): Promise<StartMigrationResponseDto> {
+  try {
+    const sourceDb = data.sourceDb ?? 0
+    const targetDb = data.targetDb ?? sourceDb
+
+    if (data.sourceConnectionId === data.targetConnectionId && sourceDb === targetDb) {
+      return {
+        success: false,
+        error: 'Source and target must differ, pick another connection or database'
+      }
+    }
+
+    // Both ends go through the access check before the job is created
+    const sourceConfig = await loadConnectionConfig(data.sourceConnectionId, userId, userRole)
+    const targetConfig = await loadConnectionConfig(data.targetConnectionId, userId, userRole)
+
+    const migrationId = crypto.randomUUID()
+    const job: MigrationJob = {
+      id: migrationId,
+      userId,
+      request: { ...data, sourceDb, targetDb },
+      status: 'pending',
+      progress: 0,
+      matched: 0,
+      migrated: 0,
+      renamed: 0,
+      skipped: 0,
+      failed: 0,
+      failedKeys: [],
+      cancelRequested: false,
+      createdAt: new Date()
+    }
+    migrationJobs.set(migrationId, job)
+
+    await logAudit({
+      userId,
+      action: 'migration.started',
+      resourceType: 'migration',
+      resourceId: migrationId,
+      resourceName: `${data.pattern} → ${targetConfig.name}`,
+      details: JSON.stringify({ ...job.request, sourceName: sourceConfig.name, targetName: targetConfig.name }),
+      ipAddress,
+      userAgent
+    })
+
+    // Process migration in background
+    processMigration(migrationId, sourceConfig, targetConfig, ipAddress, userAgent).catch(console.error)
+
+    return {
+      success: true,
+      migrationId,
+      message: 'Migration job started'
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start migration'
+    }
+  }
+}
+
+/**
+ * Get migration status
+ */
+export async function getMigrationStatus(
+  userId: string,
+  migrationId: string
+): Promise<MigrationStatusResponseDto> {
+  const job = migrationJobs.get(migrationId)
+  if (!job) {
+    return {
+      success: false,
+      error: 'Migration not found'
+    }
+  }
+
+  if (job.userId !== userId) {
+    return {
+      success: false,
+      error: 'Access denied'
+    }
+  }
+
+  return {
+    success: true,
+    migrationId,
+    status: job.status,
+    progress: job.progress,
+    matched: job.matched,
+    migrated: job.migrated,
+    renamed: job.renamed,
+    skipped: job.skipped,
+    failed: job.failed,
+    failedKeys: job.failedKeys,
+    startedAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString(),
+    error: job.error
+  }
+}
+
+/**
+ * Ask a running migration to stop after the key in flight
+ */
+export async function cancelMigration(
+  userId: string,
+  migrationId: string
+): Promise<CancelMigrationResponseDto> {
+  const job = migrationJobs.get(migrationId)
+  if (!job) {
+    return {
+      success: false,
+      error: 'Migration not found'
+    }
+  }
+
+  if (job.userId !== userId) {
+    return {
+      success: false,
+      error: 'Access denied'
+    }
+  }
+
+  if (job.status !== 'pending' && job.status !== 'processing') {
+    return {
+      success: false,
+      error: `Migration is already ${job.status}`
+    }
+  }
+
+  job.cancelRequested = true
+
+  return {
+    success: true,
+    message: 'Migration cancellation requested'
+  }
+}
+
+/**
+ * RESTORE a dumped value, returning false when the target key exists and `replace` is off
+ */
+async function restoreKey(
+  target: Redis,
+  key: Buffer,
+  ttl: number,
+  payload: Buffer,
+  replace: boolean
+): Promise<boolean> {
+  try {
+    if (replace) {
+      await target.restore(key, ttl, payload, 'REPLACE')
+    } else {
+      await target.restore(key, ttl, payload)
+    }
+    return true
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('BUSYKEY')) {
+      return false
+    }
+    throw error
+  }
+}
+
+/**
+ * Migrate one key, updating the job counters
+ */
+async function migrateKey(
+  job: MigrationJob,
+  source: Redis,
+  target: Redis,
+  key: Buffer
+): Promise<void> {
+  const { conflictPolicy = 'skip', renameSuffix = ':migrated' } = job.request
+
+  // One MULTI, so the TTL belongs to the dumped value
+  const [dumpReply, pttlReply] = await source.multi().dumpBuffer(key).pttl(key).exec() ?? []
+  const replyError = dumpReply?.[0] ?? pttlReply?.[0]
+  if (replyError) {
+    throw replyError
+  }
+  const payload = dumpReply?.[1] as Buffer | null | undefined
+  const pttl = Number(pttlReply?.[1])
+  if (!payload || pttl === -2) {
+    // Expired or deleted since SCAN returned it
+    return
+  }
+
+  job.matched++
+
+  // RESTORE takes 0 for keys without expiration
+  const ttl = Math.max(pttl, 0)
+
+  if (await restoreKey(target, key, ttl, payload, conflictPolicy === 'replace')) {
+    job.migrated++
+    return
+  }
+
+  if (conflictPolicy !== 'rename') {
+    job.skipped++
+    return
+  }
+
+  for (let attempt = 1; attempt <= MAX_RENAME_ATTEMPTS; attempt++) {
+    const suffix = attempt === 1 ? renameSuffix : `${renameSuffix}:${attempt}`
+    if (await restoreKey(target, Buffer.concat([key, Buffer.from(suffix)]), ttl, payload, false)) {
+      job.migrated++
+      job.renamed++
+      return
+    }
+  }
+
+  throw new Error(`no free name after ${MAX_RENAME_ATTEMPTS} attempts`)
+}
+
+/**
+ * Background process: SCAN the source and DUMP/RESTORE each match into the target
+ */
+async function processMigration(
+  migrationId: string,
+  sourceConfig: ConnectionConfig & { name: string },
+  targetConfig: ConnectionConfig & { name: string },
+  ipAddress: string,
+  userAgent?: string
+): Promise<void> {
+  const job = migrationJobs.get(migrationId)!
+  const { pattern, sourceDb, targetDb, batchSize = 100, delayMs = 0 } = job.request
+
+  try {
+    job.status = 'processing'
+
+    const source = await getRedisConnection(sourceConfig, sourceDb)
+    const target = await getRedisConnection(targetConfig, targetDb)
+
+    // SCAN visits roughly COUNT slots per call, which gives a progress estimate
+    const total = Math.max(await source.dbsize(), 1)
+    let visited = 0
+    let cursor = '0'
+
+    do {
+      // Buffer replies keep keys that are not valid UTF-8 intact
+      const [nextCursor, keys] = await source.scanBuffer(cursor, 'MATCH', pattern, 'COUNT', batchSize)
+      cursor = nextCursor.toString()
+      visited += batchSize
+
+      for (const key of keys) {
+        if (job.cancelRequested) {
+          break
+        }
+
+        try {
+          await migrateKey(job, source, target, key)
+        } catch (error) {
+          job.failed++
+          if (job.failedKeys.length < MAX_FAILED_KEYS) {
+            job.failedKeys.push(`${displayKeyName(key)}: ${error instanceof Error ? error.message : 'failed'}`)
+          }
+        }
+      }
+
+      job.progress = Math.min(99, Math.round((visited / total) * 100))
+
+      if (delayMs > 0 && cursor !== '0' && !job.cancelRequested) {
+        await new Promise(resolve => setTimeout(resolve, delayMs))
+      }
+    } while (cursor !== '0' && !job.cancelRequested)
+
+    job.status = job.cancelRequested ? 'cancelled' : 'completed'
+    job.progress = job.cancelRequested ? job.progress : 100
+  } catch (error) {
+    job.status = 'failed'
+    job.error = error instanceof Error ? error.message : 'Migration failed'
+  }
+
+  job.completedAt = new Date()
+
+  // The final report lives in the audit log, the in-memory job is cleaned up later
+  await logAudit({
+    userId: job.userId,
+    action: `migration.${job.status}`,
+    resourceType: 'migration',
+    resourceId: migrationId,
+    resourceName: `${pattern} → ${targetConfig.name}`,
+    details: JSON.stringify({
+      ...job.request,
+      sourceName: sourceConfig.name,
+      targetName: targetConfig.name,
+      matched: job.matched,
+      migrated: job.migrated,
+      renamed: job.renamed,
+      skipped: job.skipped,
+      failed: job.failed,
+      failedKeys: job.failedKeys,
+      durationMs: job.completedAt.getTime() - job.createdAt.getTime(),
+      error: job.error
+    }),
+    ipAddress,
+    userAgent
+  })
+}
+
+/**
+ * Cleanup old migration jobs (24 hours)
+ */
+setInterval(() => {
+  const cutoff = new Date()
+  cutoff.setHours(cutoff.getHours() - 24)
+
+  for (const [migrationId, job] of migrationJobs.entries()) {
+    if (job.completedAt && job.completedAt < cutoff) {
+      migrationJobs.delete(migrationId)
+    }
+  }
+}, 60 * 60 * 1000) // Check every hour
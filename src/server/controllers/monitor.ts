@@ -0,0 +1,130 @@
+/**
+ * MONITOR Controllers
+ * Streams the commands a server runs, filtered and sampled, as server-sent events
+ */
+
+import type Redis from 'ioredis'
+import {
+  createMonitorConnection,
+  releaseMonitorConnection,
+  countMonitorConnections
+} from '@/server/lib/redis-pool'
+import { createEventStream, type EventStreamResult } from '@/server/lib/event-stream'
+import { globToRegExp } from '@/server/lib/redis-pattern'
+import type { ConnectionConfig, MonitorCommand, MonitorQueryDto, MonitorSummary } from '@/types'
+
+// MONITOR slows the server down noticeably, so only a few may run at once
+const MAX_MONITORS_PER_CONNECTION = 2
+
+// How often the command counts are sent
+const SUMMARY_INTERVAL_MS = 2 * 1000
+
+// Commands listed in the summary
+const SUMMARY_TOP_COMMANDS = 20
+
+/**
+ * Run MONITOR on a dedicated connection and stream the commands passing the
+ * filters as server-sent events. The stream ends by itself after `duration`.
+ */
+export async function openMonitorStream(
+  config: ConnectionConfig,
+  query: MonitorQueryDto,
+  signal: AbortSignal
+): Promise<EventStreamResult> {
+  const duration = query.duration ?? 60
+  const sample = query.sample ?? 1
+  const commands = query.commands?.length ? new Set(query.commands.map(command => command.toUpperCase())) : null
+  const matcher = query.pattern && query.pattern !== '*' ? globToRegExp(query.pattern) : null
+
+  if (countMonitorConnections(config.id) >= MAX_MONITORS_PER_CONNECTION) {
+    return {
+      success: false,
+      error: `This connection already has ${MAX_MONITORS_PER_CONNECTION} running monitors, stop one first`
+    }
+  }
+
+  let monitor: Redis
+  try {
+    monitor = await createMonitorConnection(config)
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start MONITOR'
+    }
+  }
+
+  const stream = createEventStream(signal, ({ send, close }) => {
+    const counts = new Map<string, number>()
+    const summary: Omit<MonitorSummary, 'commands'> = { seen: 0, matched: 0, sent: 0 }
+
+    const sendSummary = () => {
+      send('summary', {
+        ...summary,
+        commands: [...counts.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, SUMMARY_TOP_COMMANDS)
+          .map(([command, count]) => ({ command, count }))
+      } satisfies MonitorSummary)
+    }
+
+    const end = (reason: string) => {
+      sendSummary()
+      send('ended', { reason })
+      close()
+    }
+
+    monitor.on('monitor', (time: string, args: string[], source: string, database: string) => {
+      summary.seen++
+
+      const [name = '', ...rest] = args
+      const command: MonitorCommand = {
+        time: new Date(Number(time) * 1000).toISOString(),
+        db: Number(database),
+        client: source,
+        command: name.toUpperCase(),
+        args: rest
+      }
+
+      if (
+        (query.db !== undefined && command.db !== query.db) ||
+        (commands && !commands.has(command.command)) ||
+        (query.client && !command.client.includes(query.client)) ||
+        (matcher && (rest[0] === undefined || !matcher.test(rest[0])))
+      ) {
+        return
+      }
+
+      summary.matched++
+      counts.set(command.command, (counts.get(command.command) ?? 0) + 1)
+
+      if (sample >= 1 || Math.random() < sample) {
+        summary.sent++
+        send('message', command)
+      }
+    })
+    monitor.on('end', () => end('The connection to Redis was closed'))
+
+    const startedAt = new Date()
+    send('started', {
+      startedAt: startedAt.toISOString(),
+      endsAt: new Date(startedAt.getTime() + duration * 1000).toISOString()
+    })
+
+    const summaryTimer = setInterval(sendSummary, SUMMARY_INTERVAL_MS)
+    const timeLimit = setTimeout(() => end(`Time limit of ${duration}s reached`), duration * 1000)
+
+    return () => {
+      clearInterval(summaryTimer)
+      clearTimeout(timeLimit)
+      // The pool's 'error' listener stays until the connection is gone
+      monitor.removeAllListeners('monitor')
+      monitor.removeAllListeners('end')
+      releaseMonitorConnection(config.id, monitor)
+    }
+  })
+
+  return {
+    success: true,
+    stream
+  }
+}
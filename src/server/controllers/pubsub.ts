@@ -0,0 +1,113 @@
+/**
+ * Pub/Sub Controllers
+ * Lists active channels, streams subscriptions as server-sent events and publishes messages
+ */
+
+import type Redis from 'ioredis'
+import { openSubscriptionStream } from '@/server/lib/redis-subscription'
+import type { EventStreamResult } from '@/server/lib/event-stream'
+import { describeBinary } from '@/server/lib/redis-binary'
+import type {
+  ConnectionConfig,
+  ListPubSubChannelsQueryDto,
+  ListPubSubChannelsResponseDto,
+  PubSubChannel,
+  PubSubMessage,
+  PubSubSubscribeQueryDto,
+  PublishMessageRequestDto,
+  PublishMessageResponseDto
+} from '@/types'
+
+// PUBSUB CHANNELS has no cursor, larger replies are cut off
+const MAX_CHANNELS = 1000
+
+/**
+ * List channels with subscribers and how many clients subscribe to each
+ */
+export async function listPubSubChannels(
+  redis: Redis,
+  query: ListPubSubChannelsQueryDto
+): Promise<ListPubSubChannelsResponseDto> {
+  try {
+    // Buffers keep channel names that are not valid UTF-8 intact for NUMSUB
+    const names = (await redis.callBuffer('PUBSUB', 'CHANNELS', query.pattern ?? '*') as Buffer[])
+      .slice(0, MAX_CHANNELS)
+    const counts = names.length > 0
+      ? await redis.callBuffer('PUBSUB', 'NUMSUB', ...names) as Array<Buffer | number>
+      : []
+
+    const channels: PubSubChannel[] = names
+      .map((name, index) => ({
+        channel: describeBinary(name).text,
+        subscribers: Number(counts[index * 2 + 1] ?? 0)
+      }))
+      .sort((a, b) => b.subscribers - a.subscribers || a.channel.localeCompare(b.channel))
+
+    const patternSubscriptions = await redis.call('PUBSUB', 'NUMPAT') as number
+
+    return {
+      success: true,
+      channels,
+      patternSubscriptions
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list channels'
+    }
+  }
+}
+
+/**
+ * Subscribe to channels and patterns and stream every message as a server-sent event
+ */
+export async function openPubSubStream(
+  config: ConnectionConfig,
+  query: PubSubSubscribeQueryDto,
+  signal: AbortSignal
+): Promise<EventStreamResult> {
+  const channels = query.channels ?? []
+  const patterns = query.patterns ?? []
+
+  if (channels.length === 0 && patterns.length === 0) {
+    return {
+      success: false,
+      error: 'Subscribe to at least one channel or pattern'
+    }
+  }
+
+  return openSubscriptionStream(
+    config,
+    { channels, patterns },
+    signal,
+    (channel, message, pattern): PubSubMessage => ({
+      channel: describeBinary(channel).text,
+      ...(pattern && { pattern: describeBinary(pattern).text }),
+      message: describeBinary(message).text,
+      receivedAt: new Date().toISOString()
+    })
+  )
+}
+
+/**
+ * Publish a message to a channel
+ */
+export async function publishMessage(
+  redis: Redis,
+  data: PublishMessageRequestDto
+): Promise<PublishMessageResponseDto> {
+  try {
+    const receivers = await redis.publish(data.channel, data.message)
+
+    return {
+      success: true,
+      receivers,
+      message: `Message delivered to ${receivers} ${receivers === 1 ? 'subscriber' : 'subscribers'}`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to publish message'
+    }
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Recycle Bin Controllers
+ * Keeps DUMP payloads of deleted keys in SQLite so they can be restored later
+ */
+
+import type Redis from 'ioredis'
+import { db } from '@/db'
+import { deletedKeys, users, type NewDeletedKey } from '@/db/schema'
+import { and, count, desc, eq, inArray, like, lt, sql, sum } from 'drizzle-orm'
+import { getSettingValue } from '@/server/controllers/settings'
+import { getRedisConnection } from '@/server/lib/redis-pool'
+import { describeBinary, displayKeyName, type KeyName } from '@/server/lib/redis-binary'
+import type {
+  ConnectionConfig,
+  DeletedKeySource,
+  DeletedKeyEntry,
+  ListDeletedKeysQueryDto,
+  ListDeletedKeysResponseDto,
+  RestoreDeletedKeyRequestDto,
+  RestoreDeletedKeyResponseDto,
+  PurgeDeletedKeysResponseDto
+} from '@/types'
+
+// Bytes the bin holds, summed once and then kept up to date here; the hourly prune sums it again
+let totalBytes: number | undefined
+
+/**
+ * Where and by whom keys are being deleted
+ */
+export interface RecycleBinContext {
+  connectionId: string
+  database: number
+  userId: string
+  source: DeletedKeySource
+}
+
+/**
+ * Copy keys into the recycle bin right before they are deleted.
+ * Missing keys and keys above the size limit are left out, errors abort the delete.
+ */
+export async function captureDeletedKeys(
+  redis: Redis,
+  keys: KeyName[],
+  context: RecycleBinContext
+): Promise<void> {
+  const store = await prepareDeletedKeys(redis, keys, context)
+  await store()
+}
+
+/**
+ * Read keys about to be deleted and return how to store them in the recycle bin,
+ * for deletes that may still be called off (a transaction aborted by WATCH).
+ * Call the returned function once the delete went through.
+ */
+export async function prepareDeletedKeys(
+  redis: Redis,
+  keys: KeyName[],
+  context: RecycleBinContext
+): Promise<() => Promise<void>> {
+  if (keys.length === 0 || !(await getSettingValue('recycleBin.enabled'))) {
+    return async () => {}
+  }
+
+  const maxEntryBytes = (await getSettingValue('recycleBin.maxEntrySizeMb')) * 1024 * 1024
+
+  const pipeline = redis.pipeline()
+  for (const key of keys) {
+    pipeline.type(key)
+    pipeline.pttl(key)
+    pipeline.dumpBuffer(key)
+  }
+  const replies = (await pipeline.exec()) ?? []
+
+  const rows: NewDeletedKey[] = []
+  keys.forEach((key, index) => {
+    const [[typeError, type], [pttlError, pttl], [dumpError, payload]] = [
+      replies[index * 3] ?? [],
+      replies[index * 3 + 1] ?? [],
+      replies[index * 3 + 2] ?? []
+    ]
+    if (typeError || pttlError || dumpError) {
+      throw typeError || pttlError || dumpError
+    }
+
+    const dump = payload as Buffer | null
+    if (!dump || dump.length > maxEntryBytes) {
+      return
+    }
+
+    rows.push({
+      connectionId: context.connectionId,
+      database: context.database,
+      keyName: displayKeyName(key),
+      keyBytes: typeof key === 'string' ? Buffer.from(key) : key,
+      type: type as string,
+      pttl: pttl as number,
+      payload: dump,
+      size: dump.length,
+      source: context.source,
+      deletedBy: context.userId
+    })
+  })
+
+  return async () => {
+    if (rows.length > 0) {
+      await db.insert(deletedKeys).values(rows)
+      if (totalBytes === undefined) {
+        await sumTotalBytes()
+      } else {
+        totalBytes += rows.reduce((bytes, row) => bytes + row.size, 0)
+      }
+      await evictOverLimit()
+    }
+  }
+}
+
+async function sumTotalBytes() {
+  const [{ total }] = await db.select({ total: sum(deletedKeys.size) }).from(deletedKeys)
+  totalBytes = Number(total ?? 0)
+}
+
+function releaseBytes(sizes: number[]) {
+  if (totalBytes !== undefined) {
+    totalBytes -= sizes.reduce((bytes, size) => bytes + size, 0)
+  }
+}
+
+/**
+ * Delete the oldest entries, in one statement, until the bin fits its size limit
+ */
+async function evictOverLimit(): Promise<void> {
+  const maxTotalBytes = (await getSettingValue('recycleBin.maxTotalSizeMb')) * 1024 * 1024
+  const excess = (totalBytes ?? 0) - maxTotalBytes
+  if (excess <= 0) {
+    return
+  }
+
+  // Bytes of the older entries, an entry goes while they free less than the excess
+  const ranked = db
+    .select({
+      id: deletedKeys.id,
+      olderBytes: sql<number>`sum(${deletedKeys.size}) over (order by ${deletedKeys.deletedAt}, ${deletedKeys.id}) - ${deletedKeys.size}`.as('older_bytes')
+    })
+    .from(deletedKeys)
+    .as('ranked')
+
+  const removed = await db
+    .delete(deletedKeys)
+    .where(inArray(deletedKeys.id, db.select({ id: ranked.id }).from(ranked).where(lt(ranked.olderBytes, excess))))
+    .returning({ size: deletedKeys.size })
+  releaseBytes(removed.map(entry => entry.size))
+}
+
+/**
+ * Drop entries past the retention period, then the oldest ones until the bin fits its size limit
+ */
+export async function pruneRecycleBin(): Promise<void> {
+  const retentionDays = await getSettingValue('recycleBin.retentionDays')
+  const cutoff = new Date()
+  cutoff.setDate(cutoff.getDate() - retentionDays)
+  await db.delete(deletedKeys).where(lt(deletedKeys.deletedAt, cutoff))
+
+  // Also picks up entries removed elsewhere, such as with their connection
+  await sumTotalBytes()
+  await evictOverLimit()
+}
+
+/**
+ * List the recycle bin of a connection, newest first
+ */
+export async function listDeletedKeys(
+  connectionId: string,
+  query: ListDeletedKeysQueryDto
+): Promise<ListDeletedKeysResponseDto> {
+  try {
+    const { db: database, search, page = 1, limit = 50 } = query
+
+    const conditions = [eq(deletedKeys.connectionId, connectionId)]
+    if (database !== undefined) {
+      conditions.push(eq(deletedKeys.database, database))
+    }
+    if (search) {
+      conditions.push(like(deletedKeys.keyName, `%${search}%`))
+    }
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(deletedKeys)
+      .where(and(...conditions))
+
+    const rows = await db
+      .select({
+        id: deletedKeys.id,
+        keyBytes: deletedKeys.keyBytes,
+        database: deletedKeys.database,
+        type: deletedKeys.type,
+        pttl: deletedKeys.pttl,
+        size: deletedKeys.size,
+        source: deletedKeys.source,
+        username: users.username,
+        deletedAt: deletedKeys.deletedAt
+      })
+      .from(deletedKeys)
+      .leftJoin(users, eq(deletedKeys.deletedBy, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(deletedKeys.deletedAt))
+      .limit(limit)
+      .offset((page - 1) * limit)
+
+    const entries: DeletedKeyEntry[] = rows.map(row => {
+      const { text, hex } = describeBinary(row.keyBytes)
+      return {
+        id: row.id,
+        key: text,
+        keyHex: hex,
+        database: row.database,
+        type: row.type,
+        pttl: row.pttl,
+        size: row.size,
+        source: row.source,
+        deletedBy: row.username ?? undefined,
+        deletedAt: row.deletedAt.toISOString()
+      }
+    })
+
+    return {
+      success: true,
+      entries,
+      total,
+      page,
+      limit
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list deleted keys'
+    }
+  }
+}
+
+/**
+ * RESTORE a deleted key under its original or a new name and take it out of the bin
+ */
+export async function restoreDeletedKey(
+  config: ConnectionConfig,
+  entryId: string,
+  data: RestoreDeletedKeyRequestDto
+): Promise<RestoreDeletedKeyResponseDto> {
+  try {
+    const entry = await db
+      .select()
+      .from(deletedKeys)
+      .where(and(eq(deletedKeys.id, entryId), eq(deletedKeys.connectionId, config.id)))
+      .limit(1)
+      .then(rows => rows[0])
+
+    if (!entry) {
+      return {
+        success: false,
+        error: 'Deleted key not found'
+      }
+    }
+
+    const redis = await getRedisConnection(config, entry.database)
+    const target: KeyName = data.newKey ?? entry.keyBytes
+
+    // The key comes back with the TTL it had left when it was deleted, RESTORE takes 0 for none
+    try {
+      if (data.replace) {
+        await redis.restore(target, Math.max(entry.pttl, 0), entry.payload, 'REPLACE')
+      } else {
+        await redis.restore(target, Math.max(entry.pttl, 0), entry.payload)
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('BUSYKEY')) {
+        return {
+          success: false,
+          error: `Key "${displayKeyName(target)}" already exists, restore under a new name or overwrite it`
+        }
+      }
+      throw error
+    }
+
+    await db.delete(deletedKeys).where(eq(deletedKeys.id, entryId))
+    releaseBytes([entry.size])
+
+    return {
+      success: true,
+      key: displayKeyName(target),
+      message: `Key "${displayKeyName(target)}" restored to DB${entry.database}`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore key'
+    }
+  }
+}
+
+/**
+ * Permanently remove one entry, or every entry of the connection when no ID is given
+ */
+export async function purgeDeletedKeys(
+  connectionId: string,
+  entryId?: string
+): Promise<PurgeDeletedKeysResponseDto> {
+  try {
+    const removed = await db
+      .delete(deletedKeys)
+      .where(entryId
+        ? and(eq(deletedKeys.id, entryId), eq(deletedKeys.connectionId, connectionId))
+        : eq(deletedKeys.connectionId, connectionId))
+      .returning({ size: deletedKeys.size })
+    releaseBytes(removed.map(entry => entry.size))
+
+    if (entryId && removed.length === 0) {
+      return {
+        success: false,
+        error: 'Deleted key not found'
+      }
+    }
+
+    return {
+      success: true,
+      purged: removed.length,
+      message: `Permanently removed ${removed.length} ${removed.length === 1 ? 'key' : 'keys'} from the recycle bin`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to purge deleted keys'
+    }
+  }
+}
+
+/**
+ * Prune the recycle bin (retention and size limits)
+ */
+setInterval(() => {
+  pruneRecycleBin().catch(console.error)
+}, 60 * 60 * 1000) // Check every hour
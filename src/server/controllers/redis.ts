@@ -3,7 +3,14 @@
  * Pure functions that handle Redis operations business logic
  */
 
-import Redis from 'ioredis'
+import Redis, { type ChainableCommander } from 'ioredis'
+import { createHash } from 'crypto'
+import { withWatchConnection } from '@/server/lib/redis-pool'
+import { globToRegExp, prefixPattern } from '@/server/lib/redis-pattern'
+import { encodeValue, decodeValue, detectCodecs, resolveCodecs } from '@/server/lib/value-codecs'
+import { describeBinary, displayKeyName, toElement, toKeyName, type KeyName } from '@/server/lib/redis-binary'
+import { HLL_HEADER, loadModules, readDataType, toDataType } from '@/server/lib/redis-modules'
+import { splitCommandLine } from '@/server/lib/command-args'
 import type { 
   ListKeysQueryDto,
   ListKeysResponseDto,
@@ -19,12 +26,24 @@ import type {
   RenameKeyResponseDto,
   BulkDeleteRequestDto,
   BulkDeleteResponseDto,
+  CopyKeysRequestDto,
+  CopyKeysResponseDto,
+  NamespaceQueryDto,
+  NamespaceNode,
+  NamespaceResponseDto,
+  KeyEncoding,
+  PrefixBulkRequestDto,
+  PrefixTtlRequestDto,
+  PrefixBulkResponseDto,
+  DecodeValueQueryDto,
+  DecodedValueResponseDto,
   ListDatabasesResponseDto,
   GetDatabaseInfoResponseDto,
   SelectDatabaseRequestDto,
   SelectDatabaseResponseDto,
   FlushDatabaseResponseDto,
   FlushAllResponseDto,
+  ListModulesResponseDto,
   RedisKey,
   RedisDataType,
   HashValue,
@@ -32,255 +51,2938 @@ import type {
   SetValue,
   ZSetValue,
   StreamValue,
+  StreamEntry,
+  CollectionPageQueryDto,
+  HashFieldsPageResponseDto,
+  ListItemsPageResponseDto,
+  SetMembersPageResponseDto,
+  ZSetMembersPageResponseDto,
+  HashSetFieldsRequestDto,
+  HashDeleteFieldsRequestDto,
+  HashRenameFieldRequestDto,
+  ListSetItemRequestDto,
+  ListInsertItemRequestDto,
+  ListPushItemsRequestDto,
+  ListPopItemsRequestDto,
+  ListRemoveItemsRequestDto,
+  SetMembersRequestDto,
+  SetRenameMemberRequestDto,
+  ZSetAddMembersRequestDto,
+  ZSetIncrementRequestDto,
+  ZSetRemoveMembersRequestDto,
+  ZSetRenameMemberRequestDto,
+  JsonPathQueryDto,
+  JsonValueResponseDto,
+  JsonSetRequestDto,
+  JsonArrAppendRequestDto,
+  JsonDeleteRequestDto,
+  TimeSeriesValue,
+  TimeSeriesSample,
+  TimeSeriesRangeQueryDto,
+  TimeSeriesRangeResponseDto,
+  TimeSeriesMRangeQueryDto,
+  TimeSeriesMRangeResponseDto,
+  TimeSeriesAddRequestDto,
+  TimeSeriesDeleteRequestDto,
+  ProbabilisticDataType,
+  ProbabilisticValue,
+  ProbabilisticAddRequestDto,
+  ProbabilisticQueryDto,
+  ProbabilisticQueryResponseDto,
+  ProbabilisticItemResult,
+  CuckooDeleteRequestDto,
+  HyperLogLogMergeRequestDto,
+  BitmapPageQueryDto,
+  BitmapPageResponseDto,
+  BitmapPositionQueryDto,
+  BitmapPositionResponseDto,
+  BitmapSetBitRequestDto,
+  GeoMember,
+  GeoPageQueryDto,
+  GeoMembersPageResponseDto,
+  GeoSearchQueryDto,
+  GeoSearchResponseDto,
+  GeoAddRequestDto,
+  ElementEditResponseDto,
+  StreamRangeQueryDto,
+  StreamRangeResponseDto,
+  StreamAddEntryRequestDto,
+  StreamAddEntryResponseDto,
+  StreamDeleteEntriesRequestDto,
+  StreamDeleteEntriesResponseDto,
+  StreamTrimRequestDto,
+  StreamTrimResponseDto,
+  StreamConsumerGroup,
+  StreamConsumer,
+  StreamPendingEntry,
+  ListStreamGroupsResponseDto,
+  ListStreamConsumersResponseDto,
+  StreamPendingQueryDto,
+  StreamPendingResponseDto,
+  CreateStreamGroupRequestDto,
+  SetStreamGroupIdRequestDto,
+  StreamGroupResponseDto,
+  StreamAckRequestDto,
+  StreamAckResponseDto,
+  StreamClaimRequestDto,
+  StreamClaimResponseDto,
   DatabaseInfo
 } from '@/types'
 import type { RedisInfoResponseDto } from '@/types'
 
+const STREAM_PAGE_SIZE = 50
+const COLLECTION_PAGE_SIZE = 100
+// Upper bound of round trips per page, so a selective MATCH cannot keep Redis busy for long
+const MAX_PAGE_ITERATIONS = 20
+// Key browsing scans the whole keyspace, so it gets a larger iteration cap bounded by wall time
+const KEY_SCAN_MAX_ITERATIONS = 100
+const KEY_SCAN_TIME_BUDGET_MS = 250
+
+type KeyScanPosition = { cursor: string; skip: number }
+
+// Hash pages flag encoded fields, inflating at most this much of each one
+const FIELD_PROBE_BYTES = 64 * 1024
+
+const NAMESPACE_SCAN_COUNT = 1000
+const NAMESPACE_TIME_BUDGET_MS = 1000
+// Caps on what one tree level returns; counts still cover everything scanned
+const NAMESPACE_NODE_LIMIT = 500
+const NAMESPACE_LEAF_LIMIT = 200
+const NAMESPACE_MEMORY_SAMPLES = 3
+// Prefix delete and TTL run in batches; the client continues each one from its cursor
+const PREFIX_BATCH_TIME_BUDGET_MS = 2000
+
 async function ensureDb(redis: Redis, db: number) {
   await redis.select(db)
 }
 
+function toStreamEntries(raw: Array<[id: string, fields: string[]]>): StreamEntry[] {
+  return raw.map(([id, fields]) => {
+    const entryFields: Record<string, string> = {}
+    for (let i = 0; i < fields.length; i += 2) {
+      entryFields[fields[i]] = fields[i + 1]
+    }
+    return { id, fields: entryFields }
+  })
+}
+
+/**
+ * Read one page of a stream by ID range.
+ * Fetches one extra entry so the caller gets the start ID of the next page.
+ */
+async function readStreamPage(
+  redis: Redis,
+  key: KeyName,
+  options: { start?: string; end?: string; count?: number; reverse?: boolean }
+) {
+  const { count = STREAM_PAGE_SIZE, reverse = false } = options
+  const start = options.start || (reverse ? '+' : '-')
+  const end = options.end || (reverse ? '-' : '+')
+
+  const [raw, total, first, last] = await Promise.all([
+    reverse
+      ? redis.xrevrange(key, start, end, 'COUNT', count + 1)
+      : redis.xrange(key, start, end, 'COUNT', count + 1),
+    redis.xlen(key),
+    redis.xrange(key, '-', '+', 'COUNT', 1),
+    redis.xrevrange(key, '+', '-', 'COUNT', 1)
+  ])
+
+  const entries = toStreamEntries(raw)
+  const hasMore = entries.length > count
+  const nextEntry = hasMore ? entries.pop() : undefined
+
+  return {
+    entries,
+    total,
+    firstId: first[0]?.[0],
+    lastId: last[0]?.[0],
+    nextId: nextEntry?.id,
+    hasMore
+  }
+}
+
+const KEY_TYPE_LABELS: Record<RedisDataType, string> = {
+  string: 'a string',
+  hash: 'a hash',
+  list: 'a list',
+  set: 'a set',
+  zset: 'a sorted set',
+  stream: 'a stream',
+  json: 'a JSON document',
+  timeseries: 'a time series',
+  hyperloglog: 'a HyperLogLog',
+  bloom: 'a Bloom filter',
+  cuckoo: 'a Cuckoo filter',
+  cms: 'a Count-Min Sketch',
+  topk: 'a Top-K'
+}
+
+const KEY_CONFLICT_ERROR = 'Key was changed since it was loaded'
+
+const ELEMENT_CONFLICT_ERROR = 'Value was changed since it was loaded, review the latest values and try again'
+
+/**
+ * Version token of a value, a digest of its bytes
+ */
+function digestValue(value: Buffer): string {
+  return createHash('sha1').update(value).digest('hex')
+}
+
+/**
+ * Version token of a key's value, only read when a checked write needs it.
+ * Strings digest their bytes like getKey does, other types their DUMP payload.
+ * The TTL is part of neither, so expiry changes keep the version.
+ */
+async function readKeyVersion(redis: Redis, key: KeyName): Promise<string | undefined> {
+  const payload = await redis.type(key) === 'string' ? await redis.getBuffer(key) : await redis.dumpBuffer(key)
+  return payload ? digestValue(payload) : undefined
+}
+
+/**
+ * Returns an error message when the key is missing or not of the expected type
+ */
+async function checkKeyType(redis: Redis, key: KeyName, expected: RedisDataType): Promise<string | undefined> {
+  const { rawType, type } = await readDataType(redis, key)
+  if (rawType === 'none') {
+    return 'Key does not exist'
+  }
+
+  if (type !== expected) {
+    return `Key is not ${KEY_TYPE_LABELS[expected]}`
+  }
+
+  return undefined
+}
+
+/**
+ * Run *SCAN (HSCAN, SSCAN, ZSCAN) until at least `count` elements are collected
+ * or the cursor wraps around. Pairs replies (HSCAN, ZSCAN) use a step of 2.
+ */
+async function scanCollection<T extends string | Buffer = string>(
+  scan: (cursor: string) => Promise<[cursor: string | Buffer, elements: T[]]>,
+  options: { cursor?: string; count: number; step: number }
+) {
+  const { count, step } = options
+  let cursor = options.cursor || '0'
+  const elements: T[] = []
+  let iterations = 0
+
+  do {
+    const [nextCursor, reply] = await scan(cursor)
+    cursor = nextCursor.toString()
+    elements.push(...reply)
+    iterations++
+  } while (cursor !== '0' && elements.length / step < count && iterations < MAX_PAGE_ITERATIONS)
+
+  return { cursor, elements }
+}
+
+type CollectionPageOptions = Omit<CollectionPageQueryDto, 'db'>
+
+/**
+ * Read one page of a hash with HSCAN.
+ * Values are read as bytes so encoded ones (gzip, MessagePack, ...) can be flagged.
+ */
+async function readHashPage(redis: Redis, key: KeyName, options: CollectionPageOptions) {
+  const { count = COLLECTION_PAGE_SIZE, match = '*' } = options
+
+  const [total, page] = await Promise.all([
+    redis.hlen(key),
+    scanCollection(
+      cursor => redis.hscanBuffer(key, cursor, 'MATCH', match, 'COUNT', count),
+      { cursor: options.cursor, count, step: 2 }
+    )
+  ])
+
+  const fields: NonNullable<HashFieldsPageResponseDto['fields']> = []
+  for (let i = 0; i < page.elements.length; i += 2) {
+    const field = describeBinary(page.elements[i])
+    const value = describeBinary(page.elements[i + 1])
+    const codecs = detectCodecs(page.elements[i + 1], FIELD_PROBE_BYTES)
+    fields.push({
+      field: field.text,
+      ...(field.hex && { fieldHex: field.hex }),
+      value: value.text,
+      ...(value.hex && { valueHex: value.hex }),
+      ...(codecs[0] !== 'text' && { codecs })
+    })
+  }
+
+  return { fields, total, cursor: page.cursor, hasMore: page.cursor !== '0' }
+}
+
+/**
+ * Read one page of a list with LRANGE, the cursor is the start index.
+ * With MATCH the list is walked in `count` sized chunks until enough items match.
+ */
+async function readListPage(redis: Redis, key: KeyName, options: CollectionPageOptions) {
+  const { count = COLLECTION_PAGE_SIZE, match } = options
+  const total = await redis.llen(key)
+  const matcher = match ? globToRegExp(match) : undefined
+
+  const items: NonNullable<ListItemsPageResponseDto['items']> = []
+  let start = parseInt(options.cursor || '0', 10)
+  let iterations = 0
+
+  while (start < total && items.length < count && iterations < MAX_PAGE_ITERATIONS) {
+    const chunk = await redis.lrangeBuffer(key, start, start + count - 1)
+    chunk.forEach((item, offset) => {
+      const { text: value, hex } = describeBinary(item)
+      if (!matcher || matcher.test(value)) {
+        items.push({ index: start + offset, value, ...(hex && { valueHex: hex }) })
+      }
+    })
+    start += count
+    iterations++
+  }
+
+  const hasMore = start < total
+  return { items, total, cursor: hasMore ? String(start) : '0', hasMore }
+}
+
+/**
+ * Read one page of a set with SSCAN
+ */
+async function readSetPage(redis: Redis, key: KeyName, options: CollectionPageOptions) {
+  const { count = COLLECTION_PAGE_SIZE, match = '*' } = options
+
+  const [total, page] = await Promise.all([
+    redis.scard(key),
+    scanCollection(
+      cursor => redis.sscanBuffer(key, cursor, 'MATCH', match, 'COUNT', count),
+      { cursor: options.cursor, count, step: 1 }
+    )
+  ])
+
+  const members = page.elements.map(member => {
+    const { text, hex } = describeBinary(member)
+    return { member: text, ...(hex && { memberHex: hex }) }
+  })
+  return { members, total, cursor: page.cursor, hasMore: page.cursor !== '0' }
+}
+
+/**
+ * Read one page of a sorted set.
+ * Unfiltered pages follow score order with ZRANGE (the cursor is the rank offset),
+ * filtered pages use ZSCAN since MATCH is not available on ZRANGE.
+ */
+async function readZSetPage(redis: Redis, key: KeyName, options: CollectionPageOptions) {
+  const { count = COLLECTION_PAGE_SIZE, match } = options
+  const total = await redis.zcard(key)
+
+  let flat: Buffer[]
+  let cursor: string
+  if (match) {
+    const page = await scanCollection(
+      scanCursor => redis.zscanBuffer(key, scanCursor, 'MATCH', match, 'COUNT', count),
+      { cursor: options.cursor, count, step: 2 }
+    )
+    flat = page.elements
+    cursor = page.cursor
+  } else {
+    const start = parseInt(options.cursor || '0', 10)
+    flat = await redis.zrangeBuffer(key, start, start + count - 1, 'WITHSCORES')
+    cursor = start + count < total ? String(start + count) : '0'
+  }
+
+  const members: NonNullable<ZSetMembersPageResponseDto['members']> = []
+  for (let i = 0; i < flat.length; i += 2) {
+    const { text, hex } = describeBinary(flat[i])
+    members.push({ member: text, ...(hex && { memberHex: hex }), score: parseFloat(flat[i + 1].toString()) })
+  }
+
+  return { members, total, cursor, hasMore: cursor !== '0' }
+}
+
+/**
+ * JSON text for JSON.SET, strings must already hold valid JSON
+ */
+function toJsonText(value: unknown): string {
+  if (typeof value !== 'string') {
+    return JSON.stringify(value ?? null)
+  }
+
+  try {
+    JSON.parse(value)
+  } catch {
+    throw new Error('Value is not valid JSON')
+  }
+  return value
+}
+
+/**
+ * Shared flow of the element level edits: select the database,
+ * make sure the key exists with the expected type, then run the edit.
+ * Checked edits run on a dedicated connection with the key watched, so they can
+ * compare elements with what the editor loaded and write them in a transaction
+ * that a concurrent change aborts. With a version they are also a conflict once
+ * the key changed since the editor loaded it.
+ */
+async function runElementEdit(
+  redis: Redis,
+  key: KeyName,
+  options: { db?: number; type: RedisDataType; fallbackError: string; checked?: boolean; version?: string },
+  edit: (client: Redis) => Promise<ElementEditResponseDto>
+): Promise<ElementEditResponseDto> {
+  const run = async (client: Redis): Promise<ElementEditResponseDto> => {
+    await ensureDb(client, options.db ?? 0)
+    if (options.checked) {
+      await client.watch(key)
+    }
+
+    const keyError = await checkKeyType(client, key, options.type)
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    if (options.checked && options.version && await readKeyVersion(client, key) !== options.version) {
+      return elementConflict()
+    }
+
+    return await edit(client)
+  }
+
+  try {
+    return options.checked ? await withWatchConnection(redis, run) : await run(redis)
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : options.fallbackError
+    }
+  }
+}
+
+function elementConflict(): ElementEditResponseDto {
+  return {
+    success: false,
+    conflict: true,
+    error: ELEMENT_CONFLICT_ERROR
+  }
+}
+
+/**
+ * Whether an element still holds the value the editor loaded,
+ * its display text or, for hex encoded requests, its bytes
+ */
+function isLoadedValue(current: Buffer | null, expected: string, encoding?: KeyEncoding): boolean {
+  if (current === null) {
+    return false
+  }
+  return encoding === 'hex'
+    ? current.equals(Buffer.from(toElement(expected, encoding)))
+    : describeBinary(current).text === expected
+}
+
+/**
+ * EXEC of an element edit: throws the first failed command,
+ * null when the watched key changed before EXEC (checked edits)
+ */
+async function execElementEdit(transaction: ChainableCommander) {
+  const results = await transaction.exec()
+  const failed = results?.find(([error]) => error)
+  if (failed?.[0]) {
+    throw failed[0]
+  }
+  return results
+}
+
+/**
+ * Convert a flat XINFO reply ([field, value, field, value, ...]) into a record
+ */
+function toInfoRecord(reply: unknown): Record<string, unknown> {
+  const record: Record<string, unknown> = {}
+  if (!Array.isArray(reply)) {
+    return record
+  }
+
+  for (let i = 0; i < reply.length; i += 2) {
+    record[String(reply[i])] = reply[i + 1]
+  }
+
+  return record
+}
+
+/**
+ * Convert a [[name, value], ...] label reply of the time series commands into a record
+ */
+function toLabelRecord(reply: unknown): Record<string, string> {
+  if (!Array.isArray(reply)) {
+    return {}
+  }
+
+  return Object.fromEntries(
+    reply
+      .filter((pair): pair is unknown[] => Array.isArray(pair))
+      .map(([name, value]) => [String(name), value === null ? '' : String(value)])
+  )
+}
+
+// Samples come back as [[timestamp, "value"], ...], values as strings
+function toSamples(reply: unknown): TimeSeriesSample[] {
+  if (!Array.isArray(reply)) {
+    return []
+  }
+
+  return reply.map(([timestamp, value]: [unknown, unknown]) => ({
+    timestamp: Number(timestamp),
+    value: Number(value)
+  }))
+}
+
+/**
+ * Time series metadata (TS.INFO)
+ */
+async function readTimeSeriesInfo(redis: Redis, key: KeyName): Promise<TimeSeriesValue> {
+  const info = toInfoRecord(await redis.call('TS.INFO', key))
+  const optionalNumber = (value: unknown) => (value === null || value === undefined ? undefined : Number(value))
+
+  return {
+    totalSamples: Number(info.totalSamples ?? 0),
+    memoryUsage: optionalNumber(info.memoryUsage),
+    firstTimestamp: optionalNumber(info.firstTimestamp),
+    lastTimestamp: optionalNumber(info.lastTimestamp),
+    retentionTime: Number(info.retentionTime ?? 0),
+    chunkCount: optionalNumber(info.chunkCount),
+    chunkSize: optionalNumber(info.chunkSize),
+    ...(info.duplicatePolicy != null && { duplicatePolicy: String(info.duplicatePolicy) }),
+    labels: toLabelRecord(info.labels),
+    ...(info.sourceKey != null && { sourceKey: String(info.sourceKey) }),
+    rules: Array.isArray(info.rules)
+      ? info.rules.map(([destKey, bucketDuration, aggregation, alignTimestamp]: unknown[]) => ({
+          destKey: String(destKey),
+          bucketDuration: Number(bucketDuration),
+          aggregation: String(aggregation),
+          ...(alignTimestamp !== undefined && { alignTimestamp: Number(alignTimestamp) })
+        }))
+      : []
+  }
+}
+
+const PROBABILISTIC_TYPES: ProbabilisticDataType[] = ['hyperloglog', 'bloom', 'cuckoo', 'cms', 'topk']
+
+// INFO command of each RedisBloom type
+const PROBABILISTIC_INFO_COMMANDS: Record<Exclude<ProbabilisticDataType, 'hyperloglog'>, string> = {
+  bloom: 'BF.INFO',
+  cuckoo: 'CF.INFO',
+  cms: 'CMS.INFO',
+  topk: 'TOPK.INFO'
+}
+
+function isProbabilisticType(type: RedisDataType | undefined): type is ProbabilisticDataType {
+  return PROBABILISTIC_TYPES.includes(type as ProbabilisticDataType)
+}
+
+/**
+ * Metadata of a probabilistic key, numbers where the reply holds numbers
+ */
+async function readProbabilisticValue(
+  redis: Redis,
+  key: KeyName,
+  type: ProbabilisticDataType
+): Promise<ProbabilisticValue> {
+  if (type === 'hyperloglog') {
+    return { info: { Count: await redis.pfcount(key) } }
+  }
+
+  const info = Object.fromEntries(
+    Object.entries(toInfoRecord(await redis.call(PROBABILISTIC_INFO_COMMANDS[type], key))).map(([name, value]) => {
+      const number = Number(value)
+      return [name, value !== null && value !== '' && !Number.isNaN(number) ? number : String(value)]
+    })
+  )
+
+  if (type !== 'topk') {
+    return { info }
+  }
+
+  // [item, count, item, count, ...], highest count first
+  const list = await redis.call('TOPK.LIST', key, 'WITHCOUNT') as unknown[]
+  const topItems: ProbabilisticValue['topItems'] = []
+  for (let i = 0; i + 1 < list.length; i += 2) {
+    topItems.push({ item: String(list[i]), count: Number(list[i + 1]) })
+  }
+
+  return { info, topItems }
+}
+
+/**
+ * Type of a probabilistic key, or the error to return for any other key
+ */
+async function checkProbabilisticType(
+  redis: Redis,
+  key: KeyName
+): Promise<{ type?: ProbabilisticDataType; error?: string }> {
+  const { rawType, type } = await readDataType(redis, key)
+  if (rawType === 'none') {
+    return { error: 'Key does not exist' }
+  }
+
+  if (!isProbabilisticType(type)) {
+    return { error: 'Key is not a probabilistic data type' }
+  }
+
+  return { type }
+}
+
+/**
+ * Range arguments shared by TS.RANGE and TS.MRANGE: from to [COUNT n] [AGGREGATION type bucket]
+ */
+function toTimeSeriesRangeArgs(query: TimeSeriesRangeQueryDto): string[] {
+  const { from, to, aggregation, bucketDuration, count = 1000 } = query
+  const args = [from === undefined ? '-' : String(from), to === undefined ? '+' : String(to), 'COUNT', String(count)]
+
+  if (aggregation) {
+    if (!bucketDuration) {
+      throw new Error('Bucket duration is required with an aggregation')
+    }
+    args.push('AGGREGATION', aggregation, String(bucketDuration))
+  }
+
+  return args
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined) {
+    return undefined
+  }
+
+  const parsed = Number(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Encode a SCAN position as an opaque continuation token.
+ * `skip` counts keys of the batch at `cursor` that were already returned,
+ * so a page filled halfway through a batch resumes where it stopped.
+ */
+function encodeKeyScanToken(position: KeyScanPosition): string {
+  return Buffer.from(JSON.stringify({ c: position.cursor, s: position.skip })).toString('base64url')
+}
+
+function decodeKeyScanToken(token?: string): KeyScanPosition | null {
+  if (!token || token === '0') {
+    return { cursor: '0', skip: 0 }
+  }
+
+  try {
+    const { c, s } = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+    if (typeof c !== 'string' || !/^[0-9]+$/.test(c) || !Number.isInteger(s) || s < 0) {
+      return null
+    }
+    return { cursor: c, skip: s }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Raw key name of a listed key, keys that are not valid UTF-8 are addressed by their bytes
+ */
+function keyNameOf(keyInfo: RedisKey): KeyName {
+  return keyInfo.keyHex ? Buffer.from(keyInfo.keyHex, 'hex') : keyInfo.key
+}
+
+/**
+ * Fetch type, TTL and memory usage for a SCAN batch.
+ * Returns one entry per input key, null when the key is gone or filtered out by type.
+ */
+async function describeKeys(
+  redis: Redis,
+  keys: Buffer[],
+  type?: RedisDataType[]
+): Promise<Array<RedisKey | null>> {
+  if (keys.length === 0) {
+    return []
+  }
+
+  const pipeline = redis.pipeline()
+  keys.forEach(key => {
+    pipeline.type(key)
+    pipeline.ttl(key)
+    pipeline.memory?.('USAGE', key) // Use memory usage if available
+    pipeline.getrangeBuffer(key, 0, HLL_HEADER.length - 1) // Fails for anything but strings
+  })
+
+  const results = await pipeline.exec()
+  if (!results) {
+    return keys.map(() => null)
+  }
+
+  return keys.map((key, index) => {
+    const typeResult = results[index * 4]
+    const ttlResult = results[index * 4 + 1]
+    const memoryResult = results[index * 4 + 2]
+    const headerResult = results[index * 4 + 3]
+
+    if (!typeResult || typeResult[0] !== null) {
+      return null
+    }
+
+    // Module types are mapped (ReJSON-RL -> json), the ones the browser cannot show are skipped
+    const typeValue = toDataType(typeResult[1] as string, headerResult?.[1] as Buffer | undefined)
+    if (!typeValue) {
+      return null
+    }
+
+    // Skip if type filter is specified and doesn't match
+    if (type && !type.includes(typeValue)) {
+      return null
+    }
+
+    const ttlValue = ttlResult?.[1] as number | undefined
+    const memoryValue = memoryResult?.[1] as number | undefined
+    const { text, hex } = describeBinary(key)
+
+    return {
+      key: text,
+      ...(hex && { keyHex: hex }),
+      type: typeValue,
+      ttl: ttlValue === -1 ? undefined : ttlValue,
+      size: memoryValue || undefined
+    }
+  })
+}
+
+/**
+ * Populate `length` for collection keys in a single pipeline
+ */
+async function loadKeyLengths(redis: Redis, keyInfos: RedisKey[]) {
+  const pipeline = redis.pipeline()
+  const targets: RedisKey[] = []
+
+  for (const keyInfo of keyInfos) {
+    const key = keyNameOf(keyInfo)
+    if (keyInfo.type === 'list') {
+      pipeline.llen(key)
+    } else if (keyInfo.type === 'set') {
+      pipeline.scard(key)
+    } else if (keyInfo.type === 'zset') {
+      pipeline.zcard(key)
+    } else if (keyInfo.type === 'hash') {
+      pipeline.hlen(key)
+    } else if (keyInfo.type === 'stream') {
+      pipeline.xlen(key)
+    } else {
+      continue
+    }
+    targets.push(keyInfo)
+  }
+
+  if (targets.length === 0) {
+    return
+  }
+
+  const results = await pipeline.exec()
+  targets.forEach((keyInfo, index) => {
+    const result = results?.[index]
+    if (result && result[0] === null) {
+      keyInfo.length = result[1] as number
+    }
+  })
+}
+
+/**
+ * List keys with filtering and pagination.
+ * Keeps scanning until `limit` keys are collected, the keyspace is exhausted
+ * or the iteration/time budget runs out, whichever comes first.
+ */
+export async function listKeys(
+  redis: Redis,
+  query: ListKeysQueryDto
+): Promise<ListKeysResponseDto> {
+  try {
+    const {
+      pattern = '*',
+      type,
+      cursor,
+      count = 100,
+      limit = 25,
+      db = 0
+    } = query
+
+    const position = decodeKeyScanToken(cursor)
+    if (!position) {
+      return {
+        success: false,
+        error: 'Invalid continuation token'
+      }
+    }
+
+    await ensureDb(redis, db)
+
+    const startedAt = Date.now()
+    const keyInfos: RedisKey[] = []
+    let scanCursor = position.cursor
+    let skip = position.skip
+    let next: KeyScanPosition | undefined
+    let iterations = 0
+
+    do {
+      // Use SCAN for non-blocking key iteration, with Buffer replies so binary keys stay intact
+      const [nextCursor, batch] = await redis.scanBuffer(scanCursor, 'MATCH', pattern, 'COUNT', count)
+      iterations++
+
+      const described = await describeKeys(redis, batch.slice(skip), type)
+      for (let index = 0; index < described.length; index += 1) {
+        const keyInfo = described[index]
+        if (!keyInfo) {
+          continue
+        }
+
+        keyInfos.push(keyInfo)
+        if (keyInfos.length === limit && index < described.length - 1) {
+          // Page filled mid-batch: resume from the same cursor, past the keys returned so far
+          next = { cursor: scanCursor, skip: skip + index + 1 }
+          break
+        }
+      }
+
+      scanCursor = nextCursor.toString()
+      skip = 0
+    } while (
+      !next &&
+      scanCursor !== '0' &&
+      keyInfos.length < limit &&
+      iterations < KEY_SCAN_MAX_ITERATIONS &&
+      Date.now() - startedAt < KEY_SCAN_TIME_BUDGET_MS
+    )
+
+    if (!next && scanCursor !== '0') {
+      next = { cursor: scanCursor, skip: 0 }
+    }
+
+    const [, total] = await Promise.all([
+      loadKeyLengths(redis, keyInfos),
+      redis.dbsize()
+    ])
+
+    return {
+      success: true,
+      keys: keyInfos,
+      total,
+      cursor: next ? encodeKeyScanToken(next) : undefined,
+      hasMore: !!next
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list keys'
+    }
+  }
+}
+
+/**
+ * Get key details and value
+ */
+export async function getKey(
+  redis: Redis,
+  key: KeyName,
+  db: number = 0
+): Promise<GetKeyResponseDto> {
+  try {
+    await ensureDb(redis, db)
+
+    // Check if key exists
+    const exists = await redis.exists(key)
+    if (!exists) {
+      return {
+        success: false,
+        error: 'Key does not exist'
+      }
+    }
+
+    // Get key metadata
+    const { rawType, type } = await readDataType(redis, key)
+    if (!type) {
+      return {
+        success: false,
+        error: `Redis type "${rawType}" is not supported`
+      }
+    }
+    const ttl = await redis.ttl(key)
+    const memory = await redis.memory?.('USAGE', key)
+
+    const name = typeof key === 'string' ? { text: key } : describeBinary(key)
+    const keyInfo: RedisKey = {
+      key: name.text,
+      ...(name.hex && { keyHex: name.hex }),
+      type,
+      ttl: ttl === -1 ? undefined : ttl,
+      size: memory || undefined
+    }
+
+    // Get value based on type
+    let value: unknown = undefined
+    let valueHex: string | undefined
+    let version: string | undefined
+
+    switch (type) {
+      case 'string':
+        // The version comes from the bytes already read, other types digest their DUMP payload below
+        const stringBytes = await redis.getBuffer(key) ?? Buffer.alloc(0)
+        const stringValue = describeBinary(stringBytes)
+        value = stringValue.text
+        valueHex = stringValue.hex
+        version = digestValue(stringBytes)
+        break
+
+      // Collections only load their first page, the editors page through the rest
+      case 'hash':
+        const hashPage = await readHashPage(redis, key, { count: COLLECTION_PAGE_SIZE })
+        value = Object.fromEntries(hashPage.fields.map(({ field, value }) => [field, value])) as HashValue
+        keyInfo.length = hashPage.total
+        break
+
+      case 'list':
+        const listPage = await readListPage(redis, key, { count: COLLECTION_PAGE_SIZE })
+        value = {
+          items: listPage.items.map(item => item.value),
+          total: listPage.total
+        } as ListValue
+        keyInfo.length = listPage.total
+        break
+
+      case 'set':
+        const setPage = await readSetPage(redis, key, { count: COLLECTION_PAGE_SIZE })
+        value = {
+          members: setPage.members.map(({ member }) => member),
+          total: setPage.total
+        } as SetValue
+        keyInfo.length = setPage.total
+        break
+
+      case 'zset':
+        const zsetPage = await readZSetPage(redis, key, { count: COLLECTION_PAGE_SIZE })
+        value = {
+          members: zsetPage.members.map(({ member, score }) => ({ member, score })),
+          total: zsetPage.total
+        } as ZSetValue
+        keyInfo.length = zsetPage.total
+        break
+
+      case 'stream':
+        // Only the first page is loaded here, streams can hold millions of entries
+        const streamPage = await readStreamPage(redis, key, {})
+        const streamGroups = await redis.xinfo('GROUPS', key)
+        value = {
+          ...streamPage,
+          groups: Array.isArray(streamGroups) ? streamGroups.length : 0
+        } as StreamValue
+        keyInfo.length = streamPage.total
+        break
+
+      case 'json':
+        // The root path ($) wraps the document in a single element array
+        const jsonReply = await redis.call('JSON.GET', key, '$') as string | null
+        value = jsonReply === null ? null : JSON.parse(jsonReply)[0]
+        break
+
+      case 'hyperloglog':
+      case 'bloom':
+      case 'cuckoo':
+      case 'cms':
+      case 'topk':
+        // Never read as bytes, the panels work through the module commands
+        value = await readProbabilisticValue(redis, key, type)
+        break
+
+      case 'timeseries':
+        // Only the metadata, the chart loads samples through the range endpoint
+        const seriesInfo = await readTimeSeriesInfo(redis, key)
+        value = seriesInfo
+        keyInfo.length = seriesInfo.totalSamples
+        break
+
+      default:
+        value = null
+        break
+    }
+
+    // Same token readKeyVersion computes, so whole-value updates and element edits can be checked
+    if (version === undefined) {
+      const payload = await redis.dumpBuffer(key)
+      version = payload ? digestValue(payload) : undefined
+    }
+
+    return {
+      success: true,
+      key: keyInfo,
+      value,
+      ...(valueHex && { valueHex }),
+      ...(version && { version })
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get key'
+    }
+  }
+}
+
+/**
+ * Decode a string value or a single hash field through the value codecs
+ */
+export async function decodeKeyValue(
+  redis: Redis,
+  key: KeyName,
+  query: DecodeValueQueryDto
+): Promise<DecodedValueResponseDto> {
+  try {
+    const { field, fieldEncoding, decoder = 'auto', db = 0 } = query
+
+    await ensureDb(redis, db)
+
+    const typeError = await checkKeyType(redis, key, field === undefined ? 'string' : 'hash')
+    if (typeError) {
+      return {
+        success: false,
+        error: typeError
+      }
+    }
+
+    const buffer = field === undefined
+      ? await redis.getBuffer(key)
+      : await redis.hgetBuffer(key, toElement(field, fieldEncoding))
+    if (!buffer) {
+      return {
+        success: false,
+        error: field === undefined ? 'Key does not exist' : 'Field does not exist'
+      }
+    }
+
+    const decoded = decodeValue(buffer, resolveCodecs(buffer, decoder))
+
+    return {
+      success: true,
+      ...decoded,
+      size: buffer.length
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to decode value'
+    }
+  }
+}
+
+/**
+ * Page through hash fields with HSCAN
+ */
+export async function getHashFields(
+  redis: Redis,
+  key: KeyName,
+  query: CollectionPageQueryDto
+): Promise<HashFieldsPageResponseDto> {
+  try {
+    const { db = 0, ...options } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'hash')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const page = await readHashPage(redis, key, options)
+
+    return {
+      success: true,
+      ...page
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read hash fields'
+    }
+  }
+}
+
+/**
+ * Page through list items with LRANGE
+ */
+export async function getListItems(
+  redis: Redis,
+  key: KeyName,
+  query: CollectionPageQueryDto
+): Promise<ListItemsPageResponseDto> {
+  try {
+    const { db = 0, ...options } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'list')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const page = await readListPage(redis, key, options)
+
+    return {
+      success: true,
+      ...page
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read list items'
+    }
+  }
+}
+
+/**
+ * Page through set members with SSCAN
+ */
+export async function getSetMembers(
+  redis: Redis,
+  key: KeyName,
+  query: CollectionPageQueryDto
+): Promise<SetMembersPageResponseDto> {
+  try {
+    const { db = 0, ...options } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'set')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const page = await readSetPage(redis, key, options)
+
+    return {
+      success: true,
+      ...page
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read set members'
+    }
+  }
+}
+
+/**
+ * Page through sorted set members with ZRANGE, or ZSCAN when filtered
+ */
+export async function getZSetMembers(
+  redis: Redis,
+  key: KeyName,
+  query: CollectionPageQueryDto
+): Promise<ZSetMembersPageResponseDto> {
+  try {
+    const { db = 0, ...options } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'zset')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const page = await readZSetPage(redis, key, options)
+
+    return {
+      success: true,
+      ...page
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read sorted set members'
+    }
+  }
+}
+
+/**
+ * Set hash fields (HSET), or only the missing ones (HSETNX).
+ * With `expected` the edit is a conflict once one of those fields changed.
+ */
+export async function setHashFields(
+  redis: Redis,
+  key: KeyName,
+  data: HashSetFieldsRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'hash' as const, fallbackError: 'Failed to set hash fields', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const { codecs, elementEncoding } = data
+    const names = Object.keys(data.fields)
+    if (names.length === 0) {
+      return {
+        success: false,
+        error: 'At least one field is required'
+      }
+    }
+
+    if (data.expected && !await hasLoadedHashValues(client, key, data.expected, elementEncoding)) {
+      return elementConflict()
+    }
+
+    // Decoded edits are written back in the encoding they were read in
+    const entries = names.map((name): [string | Buffer, string | Buffer] => [
+      toElement(name, elementEncoding),
+      codecs ? encodeValue(data.fields[name], codecs) : toElement(data.fields[name], elementEncoding)
+    ])
+
+    if (!data.onlyIfNew) {
+      const results = await execElementEdit(client.multi().hset(key, ...entries.flat()).hlen(key))
+      if (!results) {
+        return elementConflict()
+      }
+      return {
+        success: true,
+        affected: entries.length,
+        length: Number(results[1][1])
+      }
+    }
+
+    const transaction = client.multi()
+    entries.forEach(([field, value]) => transaction.hsetnx(key, field, value))
+    const results = await execElementEdit(transaction.hlen(key))
+    if (!results) {
+      return elementConflict()
+    }
+    const skipped = names.filter((_, index) => results[index][1] === 0)
+
+    return {
+      success: true,
+      affected: entries.length - skipped.length,
+      skipped,
+      length: Number(results[entries.length][1])
+    }
+  })
+}
+
+/**
+ * Whether hash fields still hold the values the editor loaded
+ */
+async function hasLoadedHashValues(client: Redis, key: KeyName, expected: Record<string, string>, encoding?: KeyEncoding) {
+  const fields = Object.keys(expected)
+  if (fields.length === 0) {
+    return true
+  }
+  const current = await client.hmgetBuffer(key, ...fields.map(field => toElement(field, encoding)))
+  return fields.every((field, index) => isLoadedValue(current[index], expected[field], encoding))
+}
+
+/**
+ * Delete hash fields (HDEL).
+ * With `expected` the edit is a conflict once one of those fields changed.
+ */
+export async function deleteHashFields(
+  redis: Redis,
+  key: KeyName,
+  data: HashDeleteFieldsRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'hash' as const, fallbackError: 'Failed to delete hash fields', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    if (data.expected && !await hasLoadedHashValues(client, key, data.expected, data.elementEncoding)) {
+      return elementConflict()
+    }
+
+    const fields = data.fields.map(field => toElement(field, data.elementEncoding))
+    const results = await execElementEdit(client.multi().hdel(key, ...fields).hlen(key))
+    if (!results) {
+      return elementConflict()
+    }
+    return {
+      success: true,
+      affected: Number(results[0][1]),
+      length: Number(results[1][1])
+    }
+  })
+}
+
+/**
+ * Rename a hash field, keeping its value.
+ * With `expected` the rename is a conflict once the field's value changed.
+ */
+export async function renameHashField(
+  redis: Redis,
+  key: KeyName,
+  data: HashRenameFieldRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'hash', fallbackError: 'Failed to rename hash field', checked: true, version: data.version }, async client => {
+    const { elementEncoding } = data
+    const field = toElement(data.field, elementEncoding)
+    const newField = toElement(data.newField, elementEncoding)
+    if (Buffer.from(field).equals(Buffer.from(newField))) {
+      return {
+        success: false,
+        error: 'New field name must be different'
+      }
+    }
+
+    const [value, targetExists] = await Promise.all([
+      client.hgetBuffer(key, field),
+      client.hexists(key, newField)
+    ])
+    if (value === null) {
+      return {
+        success: false,
+        error: 'Field does not exist'
+      }
+    }
+    if (data.expected !== undefined && !isLoadedValue(value, data.expected, elementEncoding)) {
+      return elementConflict()
+    }
+    if (targetExists) {
+      return {
+        success: false,
+        error: 'Field already exists'
+      }
+    }
+
+    if (!await execElementEdit(client.multi().hset(key, newField, value).hdel(key, field))) {
+      return elementConflict()
+    }
+
+    return {
+      success: true,
+      affected: 1,
+      message: `Field "${displayKeyName(field)}" renamed to "${displayKeyName(newField)}"`
+    }
+  })
+}
+
+/**
+ * Replace the list item at an index (LSET), only while it still holds the value
+ * the editor loaded: a concurrent push or pop shifts the indexes
+ */
+export async function setListItem(
+  redis: Redis,
+  key: KeyName,
+  data: ListSetItemRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'list', fallbackError: 'Failed to set list item', checked: true, version: data.version }, async client => {
+    if (!isLoadedValue(await client.lindexBuffer(key, data.index), data.expected, data.elementEncoding)) {
+      return elementConflict()
+    }
+
+    const value = toElement(data.value, data.elementEncoding)
+    const results = await execElementEdit(client.multi().lset(key, data.index, value).llen(key))
+    if (!results) {
+      return elementConflict()
+    }
+    return {
+      success: true,
+      affected: 1,
+      length: Number(results[1][1])
+    }
+  })
+}
+
+/**
+ * Insert an item before or after a pivot item (LINSERT)
+ */
+export async function insertListItem(
+  redis: Redis,
+  key: KeyName,
+  data: ListInsertItemRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'list' as const, fallbackError: 'Failed to insert list item', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const pivot = toElement(data.pivot, data.elementEncoding)
+    const value = toElement(data.value, data.elementEncoding)
+    const transaction = client.multi()
+    if (data.position === 'BEFORE') {
+      transaction.linsert(key, 'BEFORE', pivot, value)
+    } else {
+      transaction.linsert(key, 'AFTER', pivot, value)
+    }
+
+    const results = await execElementEdit(transaction)
+    if (!results) {
+      return elementConflict()
+    }
+
+    const length = Number(results[0][1])
+    if (length === -1) {
+      return {
+        success: false,
+        error: 'Pivot item not found'
+      }
+    }
+
+    return {
+      success: true,
+      affected: 1,
+      length
+    }
+  })
+}
+
+/**
+ * Push items to the head (LPUSH) or tail (RPUSH) of a list
+ */
+export async function pushListItems(
+  redis: Redis,
+  key: KeyName,
+  data: ListPushItemsRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'list' as const, fallbackError: 'Failed to push list items', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const values = data.values.map(value => toElement(value, data.elementEncoding))
+    // LPUSH inserts one by one, reversing keeps the given order at the head
+    const results = await execElementEdit(data.position === 'head'
+      ? client.multi().lpush(key, ...values.reverse())
+      : client.multi().rpush(key, ...values))
+    if (!results) {
+      return elementConflict()
+    }
+
+    return {
+      success: true,
+      affected: values.length,
+      length: Number(results[0][1])
+    }
+  })
+}
+
+/**
+ * Pop items from the head (LPOP) or tail (RPOP) of a list
+ */
+export async function popListItems(
+  redis: Redis,
+  key: KeyName,
+  data: ListPopItemsRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'list' as const, fallbackError: 'Failed to pop list items', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const count = data.count ?? 1
+    const transaction = data.position === 'head'
+      ? client.multi().lpopBuffer(key, count)
+      : client.multi().rpopBuffer(key, count)
+    const results = await execElementEdit(transaction.llen(key))
+    if (!results) {
+      return elementConflict()
+    }
+
+    const values = (results[0][1] as Buffer[] | null) ?? []
+    return {
+      success: true,
+      affected: values.length,
+      values: values.map(value => describeBinary(value).text),
+      length: Number(results[1][1])
+    }
+  })
+}
+
+/**
+ * Remove list items by value (LREM), or the single item at an index
+ */
+export async function removeListItems(
+  redis: Redis,
+  key: KeyName,
+  data: ListRemoveItemsRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'list' as const, fallbackError: 'Failed to remove list items', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    if (data.index === undefined) {
+      const value = toElement(data.value, data.elementEncoding)
+      const results = await execElementEdit(client.multi().lrem(key, data.count ?? 0, value).llen(key))
+      if (!results) {
+        return elementConflict()
+      }
+      return {
+        success: true,
+        affected: Number(results[0][1]),
+        length: Number(results[1][1])
+      }
+    }
+
+    // The item must still be the one the editor loaded, a concurrent push or pop shifts the indexes
+    if (!isLoadedValue(await client.lindexBuffer(key, data.index), data.value, data.elementEncoding)) {
+      return elementConflict()
+    }
+
+    // Redis cannot remove by index, so the item is swapped for a unique placeholder that LREM then drops
+    const placeholder = `__redis-ui-removed:${crypto.randomUUID()}`
+    const results = await execElementEdit(
+      client.multi().lset(key, data.index, placeholder).lrem(key, 1, placeholder).llen(key)
+    )
+    if (!results) {
+      return elementConflict()
+    }
+
+    return {
+      success: true,
+      affected: Number(results[1][1]),
+      length: Number(results[2][1])
+    }
+  })
+}
+
+/**
+ * Add set members (SADD)
+ */
+export async function addSetMembers(
+  redis: Redis,
+  key: KeyName,
+  data: SetMembersRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'set' as const, fallbackError: 'Failed to add set members', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const members = data.members.map(member => toElement(member, data.elementEncoding))
+    const results = await execElementEdit(client.multi().sadd(key, ...members).scard(key))
+    if (!results) {
+      return elementConflict()
+    }
+    return {
+      success: true,
+      affected: Number(results[0][1]),
+      length: Number(results[1][1])
+    }
+  })
+}
+
+/**
+ * Remove set members (SREM)
+ */
+export async function removeSetMembers(
+  redis: Redis,
+  key: KeyName,
+  data: SetMembersRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'set' as const, fallbackError: 'Failed to remove set members', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const members = data.members.map(member => toElement(member, data.elementEncoding))
+    const results = await execElementEdit(client.multi().srem(key, ...members).scard(key))
+    if (!results) {
+      return elementConflict()
+    }
+    return {
+      success: true,
+      affected: Number(results[0][1]),
+      length: Number(results[1][1])
+    }
+  })
+}
+
+/**
+ * Replace a set member with another one
+ */
+export async function renameSetMember(
+  redis: Redis,
+  key: KeyName,
+  data: SetRenameMemberRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'set', fallbackError: 'Failed to rename set member', checked: true, version: data.version }, async client => {
+    const member = toElement(data.member, data.elementEncoding)
+    const newMember = toElement(data.newMember, data.elementEncoding)
+    const [exists, targetExists] = await Promise.all([
+      client.sismember(key, member),
+      client.sismember(key, newMember)
+    ])
+    if (!exists) {
+      return {
+        success: false,
+        error: 'Member does not exist'
+      }
+    }
+    if (targetExists) {
+      return {
+        success: false,
+        error: 'Member already exists'
+      }
+    }
+
+    if (!await execElementEdit(client.multi().srem(key, member).sadd(key, newMember))) {
+      return elementConflict()
+    }
+
+    return {
+      success: true,
+      affected: 1
+    }
+  })
+}
+
+/**
+ * Add or update sorted set members (ZADD).
+ * With `expected` the edit is a conflict once one of those scores changed.
+ */
+export async function addZSetMembers(
+  redis: Redis,
+  key: KeyName,
+  data: ZSetAddMembersRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'zset' as const, fallbackError: 'Failed to add sorted set members', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    if (data.expected && !await hasLoadedScores(client, key, data.expected, data.elementEncoding)) {
+      return elementConflict()
+    }
+
+    const args: Array<string | number | Buffer> = []
+    if (data.condition) {
+      args.push(data.condition)
+    }
+    // CH makes the reply count updated scores as well as new members
+    args.push('CH')
+    data.members.forEach(({ member, score }) => args.push(score, toElement(member, data.elementEncoding)))
+
+    const results = await execElementEdit(client.multi().zadd(key, ...args).zcard(key))
+    if (!results) {
+      return elementConflict()
+    }
+    return {
+      success: true,
+      affected: Number(results[0][1]),
+      length: Number(results[1][1])
+    }
+  })
+}
+
+/**
+ * Whether sorted set members still have the scores the editor loaded
+ */
+async function hasLoadedScores(client: Redis, key: KeyName, expected: Record<string, number>, encoding?: KeyEncoding) {
+  const members = Object.keys(expected)
+  const scores = await Promise.all(members.map(member => client.zscore(key, toElement(member, encoding))))
+  return members.every((member, index) => scores[index] !== null && parseFloat(scores[index]) === expected[member])
+}
+
+/**
+ * Increment the score of a sorted set member (ZINCRBY)
+ */
+export async function incrementZSetMember(
+  redis: Redis,
+  key: KeyName,
+  data: ZSetIncrementRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'zset' as const, fallbackError: 'Failed to increment score', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const member = toElement(data.member, data.elementEncoding)
+    const results = await execElementEdit(client.multi().zincrby(key, data.increment, member))
+    if (!results) {
+      return elementConflict()
+    }
+    return {
+      success: true,
+      affected: 1,
+      score: parseFloat(String(results[0][1]))
+    }
+  })
+}
+
+/**
+ * Remove sorted set members (ZREM)
+ */
+export async function removeZSetMembers(
+  redis: Redis,
+  key: KeyName,
+  data: ZSetRemoveMembersRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'zset' as const, fallbackError: 'Failed to remove sorted set members', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const members = data.members.map(member => toElement(member, data.elementEncoding))
+    const results = await execElementEdit(client.multi().zrem(key, ...members).zcard(key))
+    if (!results) {
+      return elementConflict()
+    }
+    return {
+      success: true,
+      affected: Number(results[0][1]),
+      length: Number(results[1][1])
+    }
+  })
+}
+
+/**
+ * Replace a sorted set member with another one, keeping the score.
+ * With `expectedScore` the rename is a conflict once the score changed.
+ */
+export async function renameZSetMember(
+  redis: Redis,
+  key: KeyName,
+  data: ZSetRenameMemberRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'zset', fallbackError: 'Failed to rename sorted set member', checked: true, version: data.version }, async client => {
+    const member = toElement(data.member, data.elementEncoding)
+    const newMember = toElement(data.newMember, data.elementEncoding)
+    const [score, targetScore] = await Promise.all([
+      client.zscore(key, member),
+      client.zscore(key, newMember)
+    ])
+    if (score === null) {
+      return {
+        success: false,
+        error: 'Member does not exist'
+      }
+    }
+    if (data.expectedScore !== undefined && parseFloat(score) !== data.expectedScore) {
+      return elementConflict()
+    }
+    if (targetScore !== null) {
+      return {
+        success: false,
+        error: 'Member already exists'
+      }
+    }
+
+    if (!await execElementEdit(client.multi().zrem(key, member).zadd(key, score, newMember))) {
+      return elementConflict()
+    }
+
+    return {
+      success: true,
+      affected: 1,
+      score: parseFloat(score)
+    }
+  })
+}
+
+/**
+ * Read a JSON document at a JSONPath (JSON.GET)
+ */
+export async function getJsonValue(
+  redis: Redis,
+  key: string,
+  query: JsonPathQueryDto
+): Promise<JsonValueResponseDto> {
+  try {
+    const { path = '$', db = 0 } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'json')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    // JSONPath replies are an array with one element per match
+    const reply = await redis.call('JSON.GET', key, path) as string | null
+    const matches: unknown[] = reply === null ? [] : JSON.parse(reply)
+
+    return {
+      success: true,
+      path,
+      value: matches[0],
+      matches: matches.length
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read JSON value'
+    }
+  }
+}
+
+/**
+ * Set the value at a JSONPath (JSON.SET, NX/XX with condition)
+ */
+export async function setJsonValue(
+  redis: Redis,
+  key: string,
+  data: JsonSetRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'json' as const, fallbackError: 'Failed to set JSON value', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const args = [key, data.path, toJsonText(data.value)]
+    if (data.condition) {
+      args.push(data.condition)
+    }
+
+    const results = await execElementEdit(client.multi().call('JSON.SET', ...args))
+    if (!results) {
+      return elementConflict()
+    }
+
+    // Null when the NX/XX condition was not met
+    if (results[0][1] === null) {
+      return {
+        success: false,
+        error: data.condition === 'NX' ? 'Path already exists' : 'Path does not exist'
+      }
+    }
+
+    return {
+      success: true,
+      affected: 1
+    }
+  })
+}
+
+/**
+ * Append values to the arrays at a JSONPath (JSON.ARRAPPEND)
+ */
+export async function appendJsonArray(
+  redis: Redis,
+  key: string,
+  data: JsonArrAppendRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'json' as const, fallbackError: 'Failed to append to JSON array', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    const values = data.values.map(toJsonText)
+
+    const results = await execElementEdit(client.multi().call('JSON.ARRAPPEND', key, data.path, ...values))
+    if (!results) {
+      return elementConflict()
+    }
+
+    // One new length per match, null for matches that are not arrays
+    const lengths = results[0][1] as Array<number | null>
+    const arrays = lengths.filter((length): length is number => length !== null)
+    if (arrays.length === 0) {
+      return {
+        success: false,
+        error: 'Path is not an array'
+      }
+    }
+
+    return {
+      success: true,
+      affected: values.length * arrays.length,
+      length: arrays[0]
+    }
+  })
+}
+
+/**
+ * Delete the values at a JSONPath (JSON.DEL)
+ */
+export async function deleteJsonPath(
+  redis: Redis,
+  key: string,
+  data: JsonDeleteRequestDto
+): Promise<ElementEditResponseDto> {
+  const options = { db: data.db, type: 'json' as const, fallbackError: 'Failed to delete JSON path', checked: true, version: data.version }
+  return runElementEdit(redis, key, options, async client => {
+    // Deleting the root removes the key, the key delete endpoint covers that
+    if (data.path === '$') {
+      return {
+        success: false,
+        error: 'Delete the key to remove the whole document'
+      }
+    }
+
+    const results = await execElementEdit(client.multi().call('JSON.DEL', key, data.path))
+    if (!results) {
+      return elementConflict()
+    }
+
+    return {
+      success: true,
+      affected: Number(results[0][1])
+    }
+  })
+}
+
+/**
+ * Read samples of a time series, optionally aggregated into buckets (TS.RANGE)
+ */
+export async function getTimeSeriesRange(
+  redis: Redis,
+  key: string,
+  query: TimeSeriesRangeQueryDto
+): Promise<TimeSeriesRangeResponseDto> {
+  try {
+    await ensureDb(redis, query.db ?? 0)
+
+    const keyError = await checkKeyType(redis, key, 'timeseries')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const reply = await redis.call('TS.RANGE', key, ...toTimeSeriesRangeArgs(query))
+
+    return {
+      success: true,
+      samples: toSamples(reply)
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read time series'
+    }
+  }
+}
+
+/**
+ * Read samples of every series matching label filters (TS.MRANGE)
+ */
+export async function getTimeSeriesMRange(
+  redis: Redis,
+  query: TimeSeriesMRangeQueryDto
+): Promise<TimeSeriesMRangeResponseDto> {
+  try {
+    await ensureDb(redis, query.db ?? 0)
+
+    const filters = splitCommandLine(query.filter)
+    const reply = await redis.call(
+      'TS.MRANGE',
+      ...toTimeSeriesRangeArgs(query),
+      'WITHLABELS',
+      'FILTER',
+      ...filters
+    ) as Array<[unknown, unknown, unknown]>
+
+    return {
+      success: true,
+      series: reply
+        .map(([key, labels, samples]) => ({
+          key: String(key),
+          labels: toLabelRecord(labels),
+          samples: toSamples(samples)
+        }))
+        .sort((a, b) => a.key.localeCompare(b.key))
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read time series'
+    }
+  }
+}
+
+/**
+ * Add a sample to an existing time series (TS.ADD)
+ */
+export async function addTimeSeriesSample(
+  redis: Redis,
+  key: string,
+  data: TimeSeriesAddRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'timeseries', fallbackError: 'Failed to add sample' }, async () => {
+    const timestamp = data.timestamp === undefined ? '*' : String(data.timestamp)
+    await redis.call('TS.ADD', key, timestamp, String(data.value))
+
+    return {
+      success: true,
+      affected: 1
+    }
+  })
+}
+
+/**
+ * Delete the samples between two timestamps, both inclusive (TS.DEL)
+ */
+export async function deleteTimeSeriesSamples(
+  redis: Redis,
+  key: string,
+  data: TimeSeriesDeleteRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'timeseries', fallbackError: 'Failed to delete samples' }, async () => {
+    if (data.from > data.to) {
+      return {
+        success: false,
+        error: 'Range start must not be after its end'
+      }
+    }
+
+    const deleted = await redis.call('TS.DEL', key, String(data.from), String(data.to)) as number
+
+    return {
+      success: true,
+      affected: deleted
+    }
+  })
+}
+
+/**
+ * Add items to a probabilistic key with the command of its type
+ */
+export async function addProbabilisticItems(
+  redis: Redis,
+  key: string,
+  data: ProbabilisticAddRequestDto
+): Promise<ElementEditResponseDto> {
+  try {
+    await ensureDb(redis, data.db ?? 0)
+
+    const { type, error } = await checkProbabilisticType(redis, key)
+    if (!type) {
+      return {
+        success: false,
+        error
+      }
+    }
+
+    const { items } = data
+    switch (type) {
+      case 'hyperloglog':
+        await redis.pfadd(key, ...items)
+        return {
+          success: true,
+          affected: items.length,
+          length: await redis.pfcount(key)
+        }
+
+      case 'bloom':
+        // 1 per item that was not in the filter yet
+        const bloomAdded = await redis.call('BF.MADD', key, ...items) as number[]
+        return {
+          success: true,
+          affected: bloomAdded.filter(Boolean).length
+        }
+
+      case 'cuckoo':
+        // Cuckoo filters keep duplicates, CF.ADD counts every insert
+        const cuckooPipeline = redis.pipeline()
+        items.forEach(item => cuckooPipeline.call('CF.ADD', key, item))
+        const cuckooResults = await cuckooPipeline.exec()
+        const cuckooFailed = cuckooResults?.find(([error]) => error)
+        if (cuckooFailed?.[0]) {
+          throw cuckooFailed[0]
+        }
+        return {
+          success: true,
+          affected: items.length
+        }
+
+      case 'cms':
+        if (data.increments && data.increments.length !== items.length) {
+          return {
+            success: false,
+            error: 'Increments must match the items one to one'
+          }
+        }
+        await redis.call('CMS.INCRBY', key, ...items.flatMap((item, i) => [item, String(data.increments?.[i] ?? 1)]))
+        return {
+          success: true,
+          affected: items.length
+        }
+
+      case 'topk':
+        // One reply per item, the item it pushed out of the list or null
+        const expelled = await redis.call('TOPK.ADD', key, ...items) as Array<string | null>
+        return {
+          success: true,
+          affected: items.length,
+          values: expelled.filter((item): item is string => item !== null)
+        }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add items'
+    }
+  }
+}
+
+/**
+ * Look items up in a Bloom filter, Cuckoo filter, Count-Min Sketch or Top-K
+ */
+export async function queryProbabilisticItems(
+  redis: Redis,
+  key: string,
+  query: ProbabilisticQueryDto
+): Promise<ProbabilisticQueryResponseDto> {
+  try {
+    await ensureDb(redis, query.db ?? 0)
+
+    const { type, error } = await checkProbabilisticType(redis, key)
+    if (!type) {
+      return {
+        success: false,
+        error
+      }
+    }
+
+    const { items } = query
+    let results: ProbabilisticItemResult[]
+    switch (type) {
+      case 'hyperloglog':
+        return {
+          success: false,
+          error: 'HyperLogLogs only estimate their cardinality and cannot look up items'
+        }
+
+      case 'bloom':
+      case 'cuckoo':
+        const exists = await redis.call(type === 'bloom' ? 'BF.MEXISTS' : 'CF.MEXISTS', key, ...items) as number[]
+        results = items.map((item, i) => ({ item, exists: exists[i] === 1 }))
+        break
+
+      case 'cms':
+        const counts = await redis.call('CMS.QUERY', key, ...items) as number[]
+        results = items.map((item, i) => ({ item, count: Number(counts[i]) }))
+        break
+
+      case 'topk':
+        const listed = await redis.call('TOPK.QUERY', key, ...items) as number[]
+        results = items.map((item, i) => ({ item, exists: listed[i] === 1 }))
+        break
+    }
+
+    return {
+      success: true,
+      results
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to look up items'
+    }
+  }
+}
+
+/**
+ * Delete items from a Cuckoo filter, one occurrence each (CF.DEL)
+ */
+export async function deleteCuckooItems(
+  redis: Redis,
+  key: string,
+  data: CuckooDeleteRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'cuckoo', fallbackError: 'Failed to delete items' }, async () => {
+    const pipeline = redis.pipeline()
+    data.items.forEach(item => pipeline.call('CF.DEL', key, item))
+    const results = await pipeline.exec()
+    const failed = results?.find(([error]) => error)
+    if (failed?.[0]) {
+      throw failed[0]
+    }
+
+    return {
+      success: true,
+      affected: results?.filter(([, deleted]) => deleted === 1).length ?? 0
+    }
+  })
+}
+
+/**
+ * Merge other HyperLogLogs into this one (PFMERGE)
+ */
+export async function mergeHyperLogLogs(
+  redis: Redis,
+  key: string,
+  data: HyperLogLogMergeRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'hyperloglog', fallbackError: 'Failed to merge HyperLogLogs' }, async () => {
+    // PFMERGE fails half way on other types, so every source is checked first
+    for (const source of data.sources) {
+      const sourceError = await checkKeyType(redis, source, 'hyperloglog')
+      if (sourceError) {
+        return {
+          success: false,
+          error: `${source}: ${sourceError}`
+        }
+      }
+    }
+
+    await redis.pfmerge(key, ...data.sources)
+
+    return {
+      success: true,
+      affected: data.sources.length,
+      length: await redis.pfcount(key)
+    }
+  })
+}
+
+/**
+ * Read a page of bits of a string value, whole bytes at a time
+ */
+export async function getBitmapPage(
+  redis: Redis,
+  key: string,
+  query: BitmapPageQueryDto
+): Promise<BitmapPageResponseDto> {
+  try {
+    const { offset = 0, count = 1024, db = 0 } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'string')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const startByte = Math.floor(offset / 8)
+    const byteCount = Math.ceil(count / 8)
+    const [bytes, length, bitCount] = await Promise.all([
+      redis.getrangeBuffer(key, startByte, startByte + byteCount - 1),
+      redis.strlen(key),
+      redis.bitcount(key)
+    ])
+
+    return {
+      success: true,
+      offset: startByte * 8,
+      // Bit 0 is the most significant bit of the first byte, as in SETBIT/GETBIT
+      bits: Array.from(bytes, byte => byte.toString(2).padStart(8, '0')).join(''),
+      length: length * 8,
+      bitCount
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read bitmap'
+    }
+  }
+}
+
+/**
+ * Find the first set or clear bit from an offset (BITPOS)
+ */
+export async function getBitmapPosition(
+  redis: Redis,
+  key: string,
+  query: BitmapPositionQueryDto
+): Promise<BitmapPositionResponseDto> {
+  try {
+    const { bit, from = 0, db = 0 } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'string')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    // Byte ranges work on every Redis version, the BIT unit needs 7.0
+    const position = await redis.bitpos(key, bit, Math.floor(from / 8))
+
+    return {
+      success: true,
+      position
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to find bit'
+    }
+  }
+}
+
+/**
+ * Set or clear a single bit (SETBIT)
+ */
+export async function setBitmapBit(
+  redis: Redis,
+  key: string,
+  data: BitmapSetBitRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'string', fallbackError: 'Failed to set bit' }, async () => {
+    const previous = await redis.setbit(key, data.offset, data.value)
+
+    return {
+      success: true,
+      affected: previous === data.value ? 0 : 1,
+      length: await redis.bitcount(key)
+    }
+  })
+}
+
+// GEOPOS and GEOSEARCH ... WITHCOORD reply coordinates as [longitude, latitude] strings
+function toGeoMember(member: string, position: unknown, distance?: unknown): GeoMember {
+  const [longitude, latitude] = Array.isArray(position) ? position : []
+  return {
+    member,
+    longitude: Number(longitude),
+    latitude: Number(latitude),
+    ...(distance !== undefined && { distance: Number(distance) })
+  }
+}
+
+/**
+ * Page through the members of a geo sorted set with their positions
+ */
+export async function getGeoMembers(
+  redis: Redis,
+  key: string,
+  query: GeoPageQueryDto
+): Promise<GeoMembersPageResponseDto> {
+  try {
+    const { offset = 0, count = 100, db = 0 } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'zset')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const [members, total] = await Promise.all([
+      redis.zrange(key, offset, offset + count - 1),
+      redis.zcard(key)
+    ])
+    const positions = members.length > 0 ? await redis.geopos(key, ...members) : []
+
+    return {
+      success: true,
+      members: members.map((member, i) => toGeoMember(member, positions[i])),
+      total,
+      offset
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read geo members'
+    }
+  }
+}
+
+/**
+ * Find members within a radius or box around a member or position (GEOSEARCH)
+ */
+export async function searchGeoMembers(
+  redis: Redis,
+  key: string,
+  query: GeoSearchQueryDto
+): Promise<GeoSearchResponseDto> {
+  try {
+    const { member, longitude, latitude, radius, width, height, unit = 'km', count = 100, db = 0 } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'zset')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const args: Array<string | number> = []
+    if (member) {
+      args.push('FROMMEMBER', member)
+    } else if (longitude !== undefined && latitude !== undefined) {
+      args.push('FROMLONLAT', longitude, latitude)
+    } else {
+      return {
+        success: false,
+        error: 'Search center requires a member or a longitude and latitude'
+      }
+    }
+
+    if (radius !== undefined) {
+      args.push('BYRADIUS', radius, unit)
+    } else if (width !== undefined && height !== undefined) {
+      args.push('BYBOX', width, height, unit)
+    } else {
+      return {
+        success: false,
+        error: 'Search area requires a radius or a width and height'
+      }
+    }
+
+    // [[member, distance, [longitude, latitude]], ...]
+    const reply = await redis.call('GEOSEARCH', key, ...args, 'ASC', 'COUNT', count, 'WITHDIST', 'WITHCOORD') as Array<[string, string, unknown]>
+
+    return {
+      success: true,
+      members: reply.map(([name, distance, position]) => toGeoMember(name, position, distance))
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to search geo members'
+    }
+  }
+}
+
+/**
+ * Add geo members or move existing ones (GEOADD)
+ */
+export async function addGeoMembers(
+  redis: Redis,
+  key: string,
+  data: GeoAddRequestDto
+): Promise<ElementEditResponseDto> {
+  return runElementEdit(redis, key, { db: data.db, type: 'zset', fallbackError: 'Failed to add geo members' }, async () => {
+    const args = data.members.flatMap(({ member, longitude, latitude }) => [longitude, latitude, member])
+    const added = await redis.geoadd(key, ...args)
+
+    return {
+      success: true,
+      affected: added,
+      length: await redis.zcard(key)
+    }
+  })
+}
+
+/**
+ * Page through stream entries by ID range
+ */
+export async function getStreamRange(
+  redis: Redis,
+  key: string,
+  query: StreamRangeQueryDto
+): Promise<StreamRangeResponseDto> {
+  try {
+    const { db = 0, ...range } = query
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const page = await readStreamPage(redis, key, range)
+
+    return {
+      success: true,
+      ...page
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read stream entries'
+    }
+  }
+}
+
+/**
+ * Append an entry to a stream (XADD)
+ */
+export async function addStreamEntry(
+  redis: Redis,
+  key: string,
+  data: StreamAddEntryRequestDto
+): Promise<StreamAddEntryResponseDto> {
+  try {
+    const { id = '*', fields, maxLen, db = 0 } = data
+
+    await ensureDb(redis, db)
+
+    const fieldPairs = Object.entries(fields).flat()
+    if (fieldPairs.length === 0) {
+      return {
+        success: false,
+        error: 'Stream entry must include at least one field'
+      }
+    }
+
+    const type = await redis.type(key)
+    if (type !== 'stream' && type !== 'none') {
+      return {
+        success: false,
+        error: 'Key is not a stream'
+      }
+    }
+
+    const trimArgs = maxLen !== undefined ? ['MAXLEN', '~', maxLen] : []
+    const entryId = await redis.xadd(key, ...trimArgs, id, ...fieldPairs)
+
+    return {
+      success: true,
+      id: entryId ?? undefined,
+      message: `Entry ${entryId} added`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add stream entry'
+    }
+  }
+}
+
 /**
- * List keys using SCAN for non-blocking pagination
+ * Delete entries from a stream by ID (XDEL)
  */
-export async function listKeys(
+export async function deleteStreamEntries(
   redis: Redis,
-  query: ListKeysQueryDto
-): Promise<ListKeysResponseDto> {
+  key: string,
+  data: StreamDeleteEntriesRequestDto
+): Promise<StreamDeleteEntriesResponseDto> {
+  try {
+    const { ids, db = 0 } = data
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const deleted = await redis.xdel(key, ...ids)
+
+    return {
+      success: true,
+      deleted,
+      message: `Deleted ${deleted} ${deleted === 1 ? 'entry' : 'entries'}`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete stream entries'
+    }
+  }
+}
+
+/**
+ * Trim a stream by length or minimum ID (XTRIM)
+ */
+export async function trimStream(
+  redis: Redis,
+  key: string,
+  data: StreamTrimRequestDto
+): Promise<StreamTrimResponseDto> {
+  try {
+    const { strategy, threshold, approximate = false, db = 0 } = data
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    if (strategy === 'MAXLEN' && !/^\d+$/.test(threshold)) {
+      return {
+        success: false,
+        error: 'MAXLEN threshold must be a non-negative integer'
+      }
+    }
+
+    let trimmed: number
+    if (strategy === 'MAXLEN') {
+      trimmed = approximate
+        ? await redis.xtrim(key, 'MAXLEN', '~', threshold)
+        : await redis.xtrim(key, 'MAXLEN', threshold)
+    } else {
+      trimmed = approximate
+        ? await redis.xtrim(key, 'MINID', '~', threshold)
+        : await redis.xtrim(key, 'MINID', threshold)
+    }
+
+    const total = await redis.xlen(key)
+
+    return {
+      success: true,
+      trimmed,
+      total,
+      message: `Trimmed ${trimmed} ${trimmed === 1 ? 'entry' : 'entries'}`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to trim stream'
+    }
+  }
+}
+
+/**
+ * List consumer groups of a stream (XINFO GROUPS)
+ */
+export async function listStreamGroups(
+  redis: Redis,
+  key: string,
+  db: number = 0
+): Promise<ListStreamGroupsResponseDto> {
+  try {
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const reply = await redis.xinfo('GROUPS', key)
+    const groups: StreamConsumerGroup[] = (Array.isArray(reply) ? reply : []).map(raw => {
+      const info = toInfoRecord(raw)
+      return {
+        name: String(info.name),
+        consumers: Number(info.consumers ?? 0),
+        pending: Number(info.pending ?? 0),
+        lastDeliveredId: String(info['last-delivered-id'] ?? '0-0'),
+        entriesRead: toOptionalNumber(info['entries-read']),
+        lag: toOptionalNumber(info.lag)
+      }
+    })
+
+    return {
+      success: true,
+      groups
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list consumer groups'
+    }
+  }
+}
+
+/**
+ * List consumers of a group (XINFO CONSUMERS)
+ */
+export async function listStreamConsumers(
+  redis: Redis,
+  key: string,
+  group: string,
+  db: number = 0
+): Promise<ListStreamConsumersResponseDto> {
+  try {
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
+
+    const reply = await redis.xinfo('CONSUMERS', key, group)
+    const consumers: StreamConsumer[] = (Array.isArray(reply) ? reply : []).map(raw => {
+      const info = toInfoRecord(raw)
+      return {
+        name: String(info.name),
+        pending: Number(info.pending ?? 0),
+        idle: Number(info.idle ?? 0),
+        inactive: toOptionalNumber(info.inactive)
+      }
+    })
+
+    return {
+      success: true,
+      consumers
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list consumers'
+    }
+  }
+}
+
+/**
+ * Inspect the pending entries list of a group (XPENDING)
+ */
+export async function getStreamPending(
+  redis: Redis,
+  key: string,
+  group: string,
+  query: StreamPendingQueryDto
+): Promise<StreamPendingResponseDto> {
   try {
     const {
-      pattern = '*',
-      type,
-      cursor = '0',
-      count = 100,
-      page = 1,
-      limit = 25,
+      consumer,
+      start = '-',
+      end = '+',
+      count = STREAM_PAGE_SIZE,
+      minIdle,
       db = 0
     } = query
 
     await ensureDb(redis, db)
 
-    // Use SCAN for non-blocking key iteration
-    const scanResult = await redis.scan(
-      cursor,
-      'MATCH',
-      pattern,
-      'COUNT',
-      count
-    )
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
 
-    const [nextCursor, keys] = scanResult
+    const [summaryCount, minId, maxId, summaryConsumers] = await redis.xpending(key, group) as [
+      number,
+      string | null,
+      string | null,
+      Array<[string, string]> | null
+    ]
 
-    // Get key information for each key
-    const keyInfos: RedisKey[] = []
-    
-    // Process in batches to avoid pipeline overload
-    const batchSize = 50
-    for (let i = 0; i < keys.length; i += batchSize) {
-      const batch = keys.slice(i, i + batchSize)
-      const pipeline = redis.pipeline()
-      
-      batch.forEach(key => {
-        pipeline.type(key)
-        pipeline.ttl(key)
-        pipeline.memory?.('USAGE', key) // Use memory usage if available
+    // Fetch one extra entry so the next page start is known
+    let rawEntries: unknown[]
+    if (minIdle !== undefined) {
+      rawEntries = consumer
+        ? await redis.xpending(key, group, 'IDLE', minIdle, start, end, count + 1, consumer)
+        : await redis.xpending(key, group, 'IDLE', minIdle, start, end, count + 1)
+    } else {
+      rawEntries = consumer
+        ? await redis.xpending(key, group, start, end, count + 1, consumer)
+        : await redis.xpending(key, group, start, end, count + 1)
+    }
+
+    const entries: StreamPendingEntry[] = (rawEntries as Array<[string, string, number, number]>).map(
+      ([id, owner, idle, deliveries]) => ({
+        id,
+        consumer: owner,
+        idle: Number(idle),
+        deliveries: Number(deliveries)
       })
-      
-      const results = await pipeline.exec()
+    )
+    const hasMore = entries.length > count
+    const nextEntry = hasMore ? entries.pop() : undefined
 
-      if (!results) {
-        continue
-      }
+    return {
+      success: true,
+      summary: {
+        count: Number(summaryCount),
+        minId: minId ?? undefined,
+        maxId: maxId ?? undefined,
+        consumers: (summaryConsumers || []).map(([name, pending]) => ({
+          name,
+          pending: Number(pending)
+        }))
+      },
+      entries,
+      nextId: nextEntry?.id,
+      hasMore
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read pending entries'
+    }
+  }
+}
 
-      for (let index = 0; index < batch.length; index += 1) {
-        const typeResult = results[index * 3]
-        const ttlResult = results[index * 3 + 1]
-        const memoryResult = results[index * 3 + 2]
+/**
+ * Create a consumer group (XGROUP CREATE)
+ */
+export async function createStreamGroup(
+  redis: Redis,
+  key: string,
+  data: CreateStreamGroupRequestDto
+): Promise<StreamGroupResponseDto> {
+  try {
+    const { group, id = '$', mkStream = false, db = 0 } = data
 
-        if (!typeResult || typeResult[0] !== null) {
-          continue
-        }
+    await ensureDb(redis, db)
 
-        const key = batch[index]
-        const typeValue = typeResult[1] as string
+    const type = await redis.type(key)
+    if (type === 'none' && !mkStream) {
+      return {
+        success: false,
+        error: 'Key does not exist'
+      }
+    }
 
-        if (typeValue === 'none') {
-          continue
-        }
+    if (type !== 'none' && type !== 'stream') {
+      return {
+        success: false,
+        error: 'Key is not a stream'
+      }
+    }
 
-        // Skip if type filter is specified and doesn't match
-        if (type && !type.includes(typeValue as RedisDataType)) {
-          continue
-        }
+    if (mkStream) {
+      await redis.xgroup('CREATE', key, group, id, 'MKSTREAM')
+    } else {
+      await redis.xgroup('CREATE', key, group, id)
+    }
 
-        const ttlValue = ttlResult?.[1] as number | undefined
-        const memoryValue = memoryResult?.[1] as number | undefined
+    return {
+      success: true,
+      message: `Consumer group "${group}" created`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create consumer group'
+    }
+  }
+}
 
-        const keyInfo: RedisKey = {
-          key,
-          type: typeValue as RedisDataType,
-          ttl: ttlValue === -1 ? undefined : ttlValue,
-          size: memoryValue || undefined
-        }
+/**
+ * Destroy a consumer group (XGROUP DESTROY)
+ */
+export async function destroyStreamGroup(
+  redis: Redis,
+  key: string,
+  group: string,
+  db: number = 0
+): Promise<StreamGroupResponseDto> {
+  try {
+    await ensureDb(redis, db)
 
-        // Get length for collection types
-        if (['list', 'set', 'zset', 'hash', 'stream'].includes(typeValue)) {
-          // We'll get length in a separate batch to avoid pipeline complexity
-          keyInfo.length = undefined // Will be populated if needed
-        }
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
 
-        keyInfos.push(keyInfo)
+    const result = await redis.xgroup('DESTROY', key, group)
+    if (Number(result) === 0) {
+      return {
+        success: false,
+        error: 'Consumer group does not exist'
       }
     }
 
-    // Get lengths for collection types if needed
-    for (const keyInfo of keyInfos) {
-      if (keyInfo.type === 'list') {
-        keyInfo.length = await redis.llen(keyInfo.key)
-      } else if (keyInfo.type === 'set') {
-        keyInfo.length = await redis.scard(keyInfo.key)
-      } else if (keyInfo.type === 'zset') {
-        keyInfo.length = await redis.zcard(keyInfo.key)
-      } else if (keyInfo.type === 'hash') {
-        keyInfo.length = await redis.hlen(keyInfo.key)
-      } else if (keyInfo.type === 'stream') {
-        keyInfo.length = await redis.xlen(keyInfo.key)
+    return {
+      success: true,
+      message: `Consumer group "${group}" destroyed`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to destroy consumer group'
+    }
+  }
+}
+
+/**
+ * Reset the last delivered ID of a group (XGROUP SETID)
+ */
+export async function setStreamGroupId(
+  redis: Redis,
+  key: string,
+  group: string,
+  data: SetStreamGroupIdRequestDto
+): Promise<StreamGroupResponseDto> {
+  try {
+    const { id, db = 0 } = data
+
+    await ensureDb(redis, db)
+
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
       }
     }
 
-    // Apply pagination for frontend
-    const startIndex = (page - 1) * limit
-    const endIndex = startIndex + limit
-    const paginatedKeys = keyInfos.slice(startIndex, endIndex)
+    await redis.xgroup('SETID', key, group, id)
 
     return {
       success: true,
-      keys: paginatedKeys,
-      total: keyInfos.length,
-      cursor: nextCursor === '0' ? undefined : nextCursor,
-      hasMore: nextCursor !== '0'
+      message: `Consumer group "${group}" now starts after ${id}`
     }
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to list keys'
+      error: error instanceof Error ? error.message : 'Failed to set consumer group ID'
     }
   }
 }
 
 /**
- * Get key details and value
+ * Acknowledge pending entries of a group (XACK)
  */
-export async function getKey(
+export async function ackStreamEntries(
   redis: Redis,
   key: string,
-  db: number = 0
-): Promise<GetKeyResponseDto> {
+  group: string,
+  data: StreamAckRequestDto
+): Promise<StreamAckResponseDto> {
   try {
+    const { ids, db = 0 } = data
+
     await ensureDb(redis, db)
 
-    // Check if key exists
-    const exists = await redis.exists(key)
-    if (!exists) {
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
       return {
         success: false,
-        error: 'Key does not exist'
+        error: keyError
       }
     }
 
-    // Get key metadata
-    const type = await redis.type(key) as RedisDataType
-    const ttl = await redis.ttl(key)
-    const memory = await redis.memory?.('USAGE', key)
+    const acknowledged = await redis.xack(key, group, ...ids)
 
-    const keyInfo: RedisKey = {
-      key,
-      type,
-      ttl: ttl === -1 ? undefined : ttl,
-      size: memory || undefined
+    return {
+      success: true,
+      acknowledged,
+      message: `Acknowledged ${acknowledged} ${acknowledged === 1 ? 'entry' : 'entries'}`
     }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to acknowledge entries'
+    }
+  }
+}
 
-    // Get value based on type
-    let value: unknown = undefined
-
-    switch (type) {
-      case 'string':
-        value = await redis.get(key)
-        break
+/**
+ * Transfer pending entries to another consumer (XCLAIM / XAUTOCLAIM)
+ */
+export async function claimStreamEntries(
+  redis: Redis,
+  key: string,
+  group: string,
+  data: StreamClaimRequestDto
+): Promise<StreamClaimResponseDto> {
+  try {
+    const { consumer, minIdleTime, ids, start = '0-0', count = 100, db = 0 } = data
 
-      case 'hash':
-        const hashData = await redis.hgetall(key)
-        value = hashData as HashValue
-        keyInfo.length = Object.keys(hashData).length
-        break
+    await ensureDb(redis, db)
 
-      case 'list':
-        const listLength = await redis.llen(key)
-        const listData = await redis.lrange(key, 0, -1)
-        value = {
-          items: listData,
-          total: listLength
-        } as ListValue
-        keyInfo.length = listLength
-        break
+    const keyError = await checkKeyType(redis, key, 'stream')
+    if (keyError) {
+      return {
+        success: false,
+        error: keyError
+      }
+    }
 
-      case 'set':
-        const setData = await redis.smembers(key)
-        value = {
-          members: setData,
-          total: setData.length
-        } as SetValue
-        keyInfo.length = setData.length
-        break
+    if (ids && ids.length > 0) {
+      const reply = await redis.xclaim(key, group, consumer, minIdleTime, ...ids)
+      // Entries deleted from the stream come back as nil
+      const claimed = (reply as Array<[string, string[]] | null>)
+        .filter((entry): entry is [string, string[]] => entry !== null)
+        .map(([id]) => id)
 
-      case 'zset':
-        const zsetData = await redis.zrange(key, 0, -1, 'WITHSCORES')
-        const members: Array<{ member: string; score: number }> = []
-        for (let i = 0; i < zsetData.length; i += 2) {
-          members.push({
-            member: zsetData[i],
-            score: parseFloat(zsetData[i + 1])
-          })
-        }
-        value = {
-          members,
-          total: members.length
-        } as ZSetValue
-        keyInfo.length = members.length
-        break
+      return {
+        success: true,
+        claimed,
+        message: `Claimed ${claimed.length} ${claimed.length === 1 ? 'entry' : 'entries'} for "${consumer}"`
+      }
+    }
 
-      case 'stream':
-        const streamData = await redis.xrange(key, '-', '+')
-        const entries = streamData.map(([id, fields]) => ({
-          id,
-          fields: fields.reduce((obj, [k, v], i) => {
-            if (i % 2 === 0) obj[k] = v
-            return obj
-          }, {} as Record<string, string>)
-        }))
-        value = {
-          entries,
-          total: entries.length,
-          firstId: entries[0]?.id,
-          lastId: entries[entries.length - 1]?.id
-        } as StreamValue
-        keyInfo.length = entries.length
-        break
+    const [nextStart, rawEntries, deletedIds] = await redis.xautoclaim(
+      key,
+      group,
+      consumer,
+      minIdleTime,
+      start,
+      'COUNT',
+      count
+    ) as [string, Array<[string, string[]] | null>, string[] | undefined]
 
-      default:
-        value = null
-        break
-    }
+    const claimed = rawEntries
+      .filter((entry): entry is [string, string[]] => entry !== null)
+      .map(([id]) => id)
 
     return {
       success: true,
-      key: keyInfo,
-      value
+      claimed,
+      deleted: deletedIds && deletedIds.length > 0 ? deletedIds : undefined,
+      nextStart,
+      message: `Claimed ${claimed.length} ${claimed.length === 1 ? 'entry' : 'entries'} for "${consumer}"`
     }
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to get key'
+      error: error instanceof Error ? error.message : 'Failed to claim entries'
     }
   }
 }
@@ -404,6 +3106,49 @@ export async function createKey(
         }
         break
 
+      case 'json':
+        await redis.call('JSON.SET', key, '$', toJsonText(value))
+        break
+
+      case 'timeseries':
+        // Samples are added later, creation only sets retention and labels
+        const seriesOptions = (typeof value === 'object' && value !== null ? value : {}) as {
+          retention?: number
+          labels?: Record<string, string>
+        }
+        const createArgs: string[] = [key]
+        if (seriesOptions.retention && seriesOptions.retention > 0) {
+          createArgs.push('RETENTION', String(seriesOptions.retention))
+        }
+        const labelPairs = Object.entries(seriesOptions.labels ?? {})
+        if (labelPairs.length > 0) {
+          createArgs.push('LABELS', ...labelPairs.flat())
+        }
+        await redis.call('TS.CREATE', ...createArgs)
+        break
+
+      case 'hyperloglog':
+        // PFADD without elements still creates an empty HyperLogLog
+        await redis.pfadd(key, ...(Array.isArray(value) ? value.map(String) : []))
+        break
+
+      case 'bloom':
+      case 'cuckoo':
+      case 'cms':
+      case 'topk':
+        // Sized up front, items are added from the editor
+        const options = (typeof value === 'object' && value !== null ? value : {}) as Record<string, number | undefined>
+        if (type === 'bloom') {
+          await redis.call('BF.RESERVE', key, String(options.errorRate ?? 0.01), String(options.capacity ?? 1000))
+        } else if (type === 'cuckoo') {
+          await redis.call('CF.RESERVE', key, String(options.capacity ?? 1000))
+        } else if (type === 'cms') {
+          await redis.call('CMS.INITBYDIM', key, String(options.width ?? 2000), String(options.depth ?? 5))
+        } else {
+          await redis.call('TOPK.RESERVE', key, String(options.k ?? 10))
+        }
+        break
+
       default:
         return {
           success: false,
@@ -429,20 +3174,39 @@ export async function createKey(
 }
 
 /**
- * Update an existing key
+ * Update an existing key.
+ * With a version from getKey the write only goes through while the key still
+ * holds that version, otherwise the response is a conflict.
  */
 export async function updateKey(
   redis: Redis,
-  key: string,
+  key: KeyName,
+  data: UpdateKeyRequestDto
+): Promise<UpdateKeyResponseDto> {
+  // WATCH applies to the whole connection, so checked writes run on a dedicated one
+  return data.version
+    ? withWatchConnection(redis, client => writeKey(client, key, data))
+    : writeKey(redis, key, data)
+}
+
+/**
+ * Replace the value of a key, on the connection the version is watched on
+ */
+async function writeKey(
+  client: Redis,
+  key: KeyName,
   data: UpdateKeyRequestDto
 ): Promise<UpdateKeyResponseDto> {
   try {
-    const { value, db = 0 } = data
+    const { value, version, db = 0 } = data
 
-    await ensureDb(redis, db)
+    await ensureDb(client, db)
+    if (version) {
+      await client.watch(key)
+    }
 
     // Check if key exists
-    const exists = await redis.exists(key)
+    const exists = await client.exists(key)
     if (!exists) {
       return {
         success: false,
@@ -450,21 +3214,33 @@ export async function updateKey(
       }
     }
 
+    if (version && await readKeyVersion(client, key) !== version) {
+      return {
+        success: false,
+        conflict: true,
+        error: KEY_CONFLICT_ERROR
+      }
+    }
+
     // Get key type
-    const type = await redis.type(key) as RedisDataType
+    const { rawType, type } = await readDataType(client, key)
+
+    // Whole value replacement runs in one transaction and keeps the TTL.
+    // Editors use the element level endpoints instead of rewriting the key.
+    const pttl = await client.pttl(key)
+    const transaction = client.multi()
 
     // Update based on type
     switch (type) {
       case 'string':
-        await redis.set(key, String(value))
+        transaction.set(key, data.codecs ? encodeValue(String(value), data.codecs) : String(value))
         break
 
       case 'hash':
         if (typeof value === 'object' && value !== null) {
           // Delete existing hash and set new values
-          await redis.del(key)
           const hashData = value as Record<string, string>
-          await redis.hset(key, hashData)
+          transaction.del(key).hset(key, hashData)
         } else {
           return {
             success: false,
@@ -475,9 +3251,9 @@ export async function updateKey(
 
       case 'list':
         if (Array.isArray(value)) {
-          await redis.del(key)
+          transaction.del(key)
           if (value.length > 0) {
-            await redis.lpush(key, ...value.map(String))
+            transaction.rpush(key, ...value.map(String))
           }
         } else {
           return {
@@ -489,9 +3265,9 @@ export async function updateKey(
 
       case 'set':
         if (Array.isArray(value)) {
-          await redis.del(key)
+          transaction.del(key)
           if (value.length > 0) {
-            await redis.sadd(key, ...value.map(String))
+            transaction.sadd(key, ...value.map(String))
           }
         } else {
           return {
@@ -503,15 +3279,15 @@ export async function updateKey(
 
       case 'zset':
         if (Array.isArray(value)) {
-          await redis.del(key)
           const zsetData: string[] = []
           value.forEach(item => {
             if (typeof item === 'object' && item !== null && 'member' in item && 'score' in item) {
               zsetData.push(item.score, item.member)
             }
           })
+          transaction.del(key)
           if (zsetData.length > 0) {
-            await redis.zadd(key, ...zsetData)
+            transaction.zadd(key, ...zsetData)
           }
         } else {
           return {
@@ -521,13 +3297,36 @@ export async function updateKey(
         }
         break
 
+      case 'json':
+        // The whole document is replaced at the root, the JSON endpoints edit single paths
+        transaction.call('JSON.SET', key, '$', toJsonText(value))
+        break
+
       default:
         return {
           success: false,
-          error: `Updating Redis type "${type}" is not supported`
+          error: type ? `Updating ${KEY_TYPE_LABELS[type]} is not supported` : `Updating Redis type "${rawType}" is not supported`
         }
     }
 
+    if (pttl > 0) {
+      transaction.pexpire(key, pttl)
+    }
+
+    // A null reply means the watched key changed before EXEC
+    const results = await transaction.exec()
+    if (!results && version) {
+      return {
+        success: false,
+        conflict: true,
+        error: KEY_CONFLICT_ERROR
+      }
+    }
+    const failed = results?.find(([error]) => error)
+    if (failed?.[0]) {
+      throw failed[0]
+    }
+
     return {
       success: true,
       message: `Key "${key}" updated successfully`
@@ -541,16 +3340,18 @@ export async function updateKey(
 }
 
 /**
- * Delete a key
+ * Delete a key, handing it to `beforeDelete` first (recycle bin)
  */
 export async function deleteKey(
   redis: Redis,
-  key: string,
-  db: number = 0
+  key: KeyName,
+  db: number = 0,
+  beforeDelete?: (keys: KeyName[]) => Promise<void>
 ): Promise<DeleteKeyResponseDto> {
   try {
     await ensureDb(redis, db)
 
+    await beforeDelete?.([key])
     const result = await redis.del(key)
 
     if (result === 0) {
@@ -562,7 +3363,7 @@ export async function deleteKey(
 
     return {
       success: true,
-      message: `Key "${key}" deleted successfully`
+      message: `Key "${displayKeyName(key)}" deleted successfully`
     }
   } catch (error) {
     return {
@@ -577,7 +3378,7 @@ export async function deleteKey(
  */
 export async function setTtl(
   redis: Redis,
-  key: string,
+  key: KeyName,
   data: SetTtlRequestDto
 ): Promise<SetTtlResponseDto> {
   try {
@@ -630,11 +3431,12 @@ export async function setTtl(
  */
 export async function renameKey(
   redis: Redis,
-  key: string,
+  key: KeyName,
   data: RenameKeyRequestDto
 ): Promise<RenameKeyResponseDto> {
   try {
-    const { newKey, db = 0, nx = false } = data
+    const { db = 0, nx = false } = data
+    const newKey = toKeyName(data.newKey, data.newKeyEncoding)
 
     await ensureDb(redis, db)
 
@@ -665,7 +3467,7 @@ export async function renameKey(
 
     return {
       success: true,
-      message: `Key renamed to "${newKey}" successfully`
+      message: `Key renamed to "${displayKeyName(newKey)}" successfully`
     }
   } catch (error) {
     return {
@@ -676,14 +3478,25 @@ export async function renameKey(
 }
 
 /**
- * Bulk delete keys
+ * Bulk delete keys, handing each batch to `beforeDelete` first (recycle bin)
  */
 export async function bulkDelete(
   redis: Redis,
-  data: BulkDeleteRequestDto
+  data: BulkDeleteRequestDto,
+  beforeDelete?: (keys: KeyName[]) => Promise<void>
 ): Promise<BulkDeleteResponseDto> {
   try {
-    const { keys, db = 0 } = data
+    const { db = 0 } = data
+    const keys: KeyName[] = [
+      ...data.keys,
+      ...(data.hexKeys ?? []).map(key => toKeyName(key, 'hex'))
+    ]
+    if (keys.length === 0) {
+      return {
+        success: false,
+        error: 'At least one key is required'
+      }
+    }
 
     await ensureDb(redis, db)
 
@@ -696,10 +3509,11 @@ export async function bulkDelete(
       const batch = keys.slice(i, i + batchSize)
       
       try {
+        await beforeDelete?.(batch)
         const result = await redis.del(...batch)
         totalDeleted += result
       } catch {
-        failed.push(...batch)
+        failed.push(...batch.map(displayKeyName))
       }
     }
 
@@ -717,6 +3531,367 @@ export async function bulkDelete(
   }
 }
 
+/**
+ * Copy or move keys to another database of the same instance (COPY/MOVE),
+ * or to another connection (DUMP/RESTORE) when `target` is given
+ */
+export async function copyKeys(
+  source: Redis,
+  target: Redis | undefined,
+  data: CopyKeysRequestDto
+): Promise<CopyKeysResponseDto> {
+  try {
+    const { db = 0, mode = 'copy', replace = false } = data
+    const targetDb = data.targetDb ?? db
+    const keys: KeyName[] = [
+      ...data.keys,
+      ...(data.hexKeys ?? []).map(key => toKeyName(key, 'hex'))
+    ]
+    if (keys.length === 0) {
+      return {
+        success: false,
+        error: 'At least one key is required'
+      }
+    }
+    if (data.newKey !== undefined && keys.length > 1) {
+      return {
+        success: false,
+        error: 'A new key name can only be given for a single key'
+      }
+    }
+
+    const targetKeyOf = (key: KeyName) => data.newKey ?? key
+    if (!target && targetDb === db && keys.some(key => displayKeyName(targetKeyOf(key)) === displayKeyName(key))) {
+      return {
+        success: false,
+        error: 'Target must differ from the source, pick another database, connection or key name'
+      }
+    }
+
+    await ensureDb(source, db)
+    if (target) {
+      await ensureDb(target, targetDb)
+    }
+
+    let copied = 0
+    const skipped: string[] = []
+    const failed: string[] = []
+
+    // COPY and MOVE reply 0 both when the target exists and when the source is gone
+    const recordNotCopied = async (key: KeyName) => {
+      if (await source.exists(key)) {
+        skipped.push(displayKeyName(key))
+      } else {
+        failed.push(displayKeyName(key))
+      }
+    }
+
+    for (const key of keys) {
+      const targetKey = targetKeyOf(key)
+
+      try {
+        if (target) {
+          // One MULTI, so the TTL belongs to the dumped value
+          const [dumpReply, pttlReply] = await source.multi().dumpBuffer(key).pttl(key).exec() ?? []
+          const replyError = dumpReply?.[0] ?? pttlReply?.[0]
+          if (replyError) {
+            throw replyError
+          }
+          const payload = dumpReply?.[1] as Buffer | null | undefined
+          const pttl = Number(pttlReply?.[1])
+          if (!payload || pttl === -2) {
+            failed.push(displayKeyName(key))
+            continue
+          }
+
+          // RESTORE takes 0 for keys without expiration
+          try {
+            if (replace) {
+              await target.restore(targetKey, Math.max(pttl, 0), payload, 'REPLACE')
+            } else {
+              await target.restore(targetKey, Math.max(pttl, 0), payload)
+            }
+          } catch (error) {
+            if (error instanceof Error && error.message.startsWith('BUSYKEY')) {
+              skipped.push(displayKeyName(key))
+              continue
+            }
+            throw error
+          }
+        } else if (mode === 'move' && !replace && targetKey === key) {
+          if (await source.move(key, targetDb) === 0) {
+            await recordNotCopied(key)
+            continue
+          }
+          copied++
+          continue
+        } else {
+          const result = replace
+            ? await source.copy(key, targetKey, 'DB', targetDb, 'REPLACE')
+            : await source.copy(key, targetKey, 'DB', targetDb)
+          if (result === 0) {
+            await recordNotCopied(key)
+            continue
+          }
+        }
+
+        // Moves that had to copy remove the source only once the target holds the value
+        if (mode === 'move') {
+          await source.del(key)
+        }
+        copied++
+      } catch {
+        failed.push(displayKeyName(key))
+      }
+    }
+
+    const verb = mode === 'move' ? 'Moved' : 'Copied'
+    const message = `${verb} ${copied} keys${skipped.length > 0 ? `, ${skipped.length} already existed` : ''}${failed.length > 0 ? `, ${failed.length} failed` : ''}`
+    return {
+      success: failed.length === 0,
+      copied,
+      skipped: skipped.length > 0 ? skipped : undefined,
+      failed: failed.length > 0 ? failed : undefined,
+      message,
+      // Clients surface `error` for unsuccessful replies, keep the summary there too
+      error: failed.length > 0 ? `${message}: ${failed.slice(0, 5).join(', ')}${failed.length > 5 ? ', ...' : ''}` : undefined
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to copy keys'
+    }
+  }
+}
+
+/**
+ * MATCH pattern for a prefix sent by the client, hex prefixes keep their raw bytes
+ */
+function prefixMatch(prefix: string, encoding?: KeyEncoding): { bytes: Buffer; match: string } {
+  const bytes = Buffer.from(toKeyName(prefix, encoding))
+  // ioredis sends Buffer arguments as raw bytes, its typings only list string for MATCH
+  return { bytes, match: prefixPattern(bytes) as unknown as string }
+}
+
+/**
+ * SCAN the keys under a prefix from `cursor`, handing each batch to `visit`,
+ * until the keyspace is covered or the time budget runs out.
+ * Returns the cursor to continue from, '0' when done.
+ */
+async function scanPrefix(
+  redis: Redis,
+  match: string,
+  cursor: string,
+  visit: (keys: Buffer[]) => Promise<void>
+): Promise<string> {
+  const startedAt = Date.now()
+
+  do {
+    const [nextCursor, keys] = await redis.scanBuffer(cursor, 'MATCH', match, 'COUNT', NAMESPACE_SCAN_COUNT)
+    cursor = nextCursor.toString()
+    if (keys.length > 0) {
+      await visit(keys)
+    }
+  } while (cursor !== '0' && Date.now() - startedAt < PREFIX_BATCH_TIME_BUDGET_MS)
+
+  return cursor
+}
+
+/**
+ * List one level of the namespace tree below `prefix`.
+ * Keys are grouped by the segment up to the next delimiter; memory is
+ * sampled on a few keys per group rather than measured for every key.
+ */
+export async function getNamespace(
+  redis: Redis,
+  query: NamespaceQueryDto
+): Promise<NamespaceResponseDto> {
+  try {
+    const { prefix = '', prefixEncoding, delimiter = ':', cursor = '0', db = 0 } = query
+
+    await ensureDb(redis, db)
+
+    const { bytes: prefixBytes, match } = prefixMatch(prefix, prefixEncoding)
+    const groups = new Map<string, { segment: Buffer; keyCount: number; samples: Buffer[] }>()
+    const leaves: Buffer[] = []
+    let keyCount = 0
+    let scanned = 0
+    let scanCursor = cursor
+    const startedAt = Date.now()
+
+    do {
+      const [nextCursor, keys] = await redis.scanBuffer(scanCursor, 'MATCH', match, 'COUNT', NAMESPACE_SCAN_COUNT)
+      scanCursor = nextCursor.toString()
+      scanned += keys.length
+
+      for (const key of keys) {
+        const rest = key.subarray(prefixBytes.length)
+        const end = rest.indexOf(delimiter)
+
+        if (end === -1) {
+          keyCount++
+          if (leaves.length < NAMESPACE_LEAF_LIMIT) {
+            leaves.push(key)
+          }
+          continue
+        }
+
+        const segment = rest.subarray(0, end)
+        const name = describeBinary(segment).text
+        const group = groups.get(name) ?? { segment, keyCount: 0, samples: [] }
+        group.keyCount++
+        if (group.samples.length < NAMESPACE_MEMORY_SAMPLES) {
+          group.samples.push(key)
+        }
+        groups.set(name, group)
+      }
+    } while (scanCursor !== '0' && Date.now() - startedAt < NAMESPACE_TIME_BUDGET_MS)
+
+    const largest = Array.from(groups.entries())
+      .sort((a, b) => b[1].keyCount - a[1].keyCount)
+      .slice(0, NAMESPACE_NODE_LIMIT)
+
+    const pipeline = redis.pipeline()
+    largest.forEach(([, group]) => {
+      group.samples.forEach(key => pipeline.memory?.('USAGE', key))
+    })
+    const memoryResults = largest.length > 0 ? await pipeline.exec() : []
+
+    let resultIndex = 0
+    const nodes: NamespaceNode[] = largest.map(([name, group]) => {
+      let sampledKeys = 0
+      let sampledBytes = 0
+      group.samples.forEach(() => {
+        const result = memoryResults?.[resultIndex++]
+        if (result && result[0] === null && typeof result[1] === 'number') {
+          sampledKeys++
+          sampledBytes += result[1]
+        }
+      })
+
+      // The full prefix from bytes, so segments that are not valid UTF-8 keep their hex form
+      const nodePrefix = describeBinary(Buffer.concat([prefixBytes, group.segment, Buffer.from(delimiter)]))
+
+      return {
+        name,
+        prefix: nodePrefix.text,
+        ...(nodePrefix.hex && { prefixHex: nodePrefix.hex }),
+        keyCount: group.keyCount,
+        sampledKeys,
+        sampledBytes
+      }
+    })
+
+    const keys = (await describeKeys(redis, leaves)).filter((key): key is RedisKey => key !== null)
+
+    return {
+      success: true,
+      nodes,
+      nodeCount: groups.size,
+      keys,
+      keyCount,
+      scanned,
+      cursor: scanCursor === '0' ? undefined : scanCursor,
+      hasMore: scanCursor !== '0'
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load namespace'
+    }
+  }
+}
+
+/**
+ * Delete the keys under a prefix, one time-budgeted batch per call, handing each
+ * SCAN page to `beforeDelete` first (recycle bin). UNLINK frees large values in
+ * the background instead of blocking the server.
+ */
+export async function deleteKeysByPrefix(
+  redis: Redis,
+  data: PrefixBulkRequestDto,
+  beforeDelete?: (keys: KeyName[]) => Promise<void>
+): Promise<PrefixBulkResponseDto> {
+  try {
+    const { prefix, prefixEncoding, cursor = '0', db = 0 } = data
+
+    await ensureDb(redis, db)
+
+    const { bytes, match } = prefixMatch(prefix, prefixEncoding)
+    let matched = 0
+    let affected = 0
+    const nextCursor = await scanPrefix(redis, match, cursor, async (keys) => {
+      matched += keys.length
+      await beforeDelete?.(keys)
+      affected += await redis.unlink(...keys)
+    })
+
+    return {
+      success: true,
+      matched,
+      affected,
+      cursor: nextCursor === '0' ? undefined : nextCursor,
+      hasMore: nextCursor !== '0',
+      message: `Deleted ${affected} keys under ${describeBinary(bytes).text}`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete keys by prefix'
+    }
+  }
+}
+
+/**
+ * Set or remove the TTL of the keys under a prefix, one time-budgeted batch per call
+ */
+export async function setTtlByPrefix(
+  redis: Redis,
+  data: PrefixTtlRequestDto
+): Promise<PrefixBulkResponseDto> {
+  try {
+    const { prefix, prefixEncoding, ttl, cursor = '0', db = 0 } = data
+
+    await ensureDb(redis, db)
+
+    const { bytes, match } = prefixMatch(prefix, prefixEncoding)
+    const label = describeBinary(bytes).text
+    let matched = 0
+    let affected = 0
+    const nextCursor = await scanPrefix(redis, match, cursor, async (keys) => {
+      matched += keys.length
+
+      const pipeline = redis.pipeline()
+      keys.forEach(key => {
+        if (ttl === undefined) {
+          pipeline.persist(key)
+        } else {
+          pipeline.expire(key, ttl)
+        }
+      })
+
+      const results = await pipeline.exec()
+      affected += results?.filter(([err, result]) => err === null && result === 1).length ?? 0
+    })
+
+    return {
+      success: true,
+      matched,
+      affected,
+      cursor: nextCursor === '0' ? undefined : nextCursor,
+      hasMore: nextCursor !== '0',
+      message: ttl === undefined
+        ? `Removed TTL from ${affected} keys under ${label}`
+        : `Set TTL to ${ttl}s on ${affected} keys under ${label}`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to set TTL by prefix'
+    }
+  }
+}
+
 /**
  * List all databases with statistics
  */
@@ -751,7 +3926,14 @@ export async function listDatabases(
           list: 0,
           set: 0,
           zset: 0,
-          stream: 0
+          stream: 0,
+          json: 0,
+          timeseries: 0,
+          hyperloglog: 0,
+          bloom: 0,
+          cuckoo: 0,
+          cms: 0,
+          topk: 0
         }
         
         // Sample keys for statistics (to avoid scanning all keys in large databases)
@@ -773,11 +3955,13 @@ export async function listDatabases(
           
           results?.forEach((result, index) => {
             if (result && result[0] === null) {
-              const type = result[1] as RedisDataType
+              const type = toDataType(String(result[1]))
               const ttl = results[index + 1]?.[1] as number
               const memory = results[index + 2]?.[1] as number
               
-              keyDistribution[type]++
+              if (type) {
+                keyDistribution[type]++
+              }
               memoryUsage += memory || 0
               
               if (ttl > 0) {
@@ -823,7 +4007,14 @@ export async function listDatabases(
             list: 0,
             set: 0,
             zset: 0,
-            stream: 0
+            stream: 0,
+            json: 0,
+            timeseries: 0,
+            hyperloglog: 0,
+            bloom: 0,
+            cuckoo: 0,
+            cms: 0,
+            topk: 0
           }
         })
       }
@@ -843,6 +4034,27 @@ export async function listDatabases(
   }
 }
 
+/**
+ * List loaded Redis modules (MODULE LIST)
+ */
+export async function listModules(
+  redis: Redis
+): Promise<ListModulesResponseDto> {
+  try {
+    const modules = await loadModules(redis)
+
+    return {
+      success: true,
+      modules
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list modules'
+    }
+  }
+}
+
 /**
  * Get Redis server info (overview stats)
  */
@@ -956,7 +4168,14 @@ export async function getDatabaseInfo(
             list: 0,
             set: 0,
             zset: 0,
-            stream: 0
+            stream: 0,
+            json: 0,
+            timeseries: 0,
+            hyperloglog: 0,
+            bloom: 0,
+            cuckoo: 0,
+            cms: 0,
+            topk: 0
           }
         }
       }
@@ -976,7 +4195,14 @@ export async function getDatabaseInfo(
       list: 0,
       set: 0,
       zset: 0,
-      stream: 0
+      stream: 0,
+      json: 0,
+      timeseries: 0,
+      hyperloglog: 0,
+      bloom: 0,
+      cuckoo: 0,
+      cms: 0,
+      topk: 0
     }
     
     // Sample keys for statistics
@@ -997,11 +4223,13 @@ export async function getDatabaseInfo(
       
       results?.forEach((result, index) => {
         if (result && result[0] === null) {
-          const type = result[1] as RedisDataType
+          const type = toDataType(String(result[1]))
           const ttl = results[index + 1]?.[1] as number
           const memory = results[index + 2]?.[1] as number
           
-          keyDistribution[type]++
+          if (type) {
+            keyDistribution[type]++
+          }
           memoryUsage += memory || 0
           
           if (ttl > 0) {
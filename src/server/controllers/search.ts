@@ -0,0 +1,317 @@
+/**
+ * RediSearch Controllers
+ * Index listing, inspection and queries through the FT.* commands
+ */
+
+import Redis from 'ioredis'
+import { splitCommandLine } from '@/server/lib/command-args'
+import type {
+  ListSearchIndexesResponseDto,
+  GetSearchIndexResponseDto,
+  SearchIndexInfo,
+  SearchIndexField,
+  CreateSearchIndexRequestDto,
+  DropSearchIndexQueryDto,
+  SearchIndexResponseDto,
+  SearchQueryDto,
+  SearchResponseDto,
+  SearchDocument,
+  AggregateQueryDto,
+  AggregateResponseDto
+} from '@/types'
+
+const SEARCH_PAGE_SIZE = 20
+
+async function ensureDb(redis: Redis, db: number) {
+  await redis.select(db)
+}
+
+/**
+ * Error message of a failed FT.* call, unknown commands mean the module is missing
+ */
+function toSearchError(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) {
+    return fallback
+  }
+
+  if (/unknown command/i.test(error.message)) {
+    return 'RediSearch module is not loaded'
+  }
+
+  return error.message
+}
+
+/**
+ * Convert a flat [name, value, name, value, ...] reply into a record
+ */
+function toRecord(reply: unknown): Record<string, unknown> {
+  const record: Record<string, unknown> = {}
+  if (!Array.isArray(reply)) {
+    return record
+  }
+
+  for (let i = 0; i + 1 < reply.length; i += 2) {
+    record[String(reply[i])] = reply[i + 1]
+  }
+
+  return record
+}
+
+function toStringRecord(reply: unknown): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(toRecord(reply)).map(([name, value]) => [name, value === null ? '' : String(value)])
+  )
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined
+  }
+
+  const parsed = Number(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Parse one schema field of FT.INFO. RediSearch 2.x lists `attributes`
+ * ([identifier, x, attribute, x, type, TEXT, ...flags]), 1.x lists `fields` ([name, type, TEXT, ...flags]).
+ */
+function toIndexField(entry: unknown, legacy: boolean): SearchIndexField {
+  const parts = Array.isArray(entry) ? entry.map(String) : []
+  const field: SearchIndexField = { identifier: '', attribute: '', type: '', options: [] }
+
+  let index = 0
+  if (legacy) {
+    field.identifier = parts[0] ?? ''
+    field.attribute = field.identifier
+    index = 1
+  }
+
+  while (index + 1 < parts.length && ['identifier', 'attribute', 'type'].includes(parts[index])) {
+    field[parts[index] as 'identifier' | 'attribute' | 'type'] = parts[index + 1]
+    index += 2
+  }
+
+  field.options = parts.slice(index)
+  return field
+}
+
+/**
+ * List search indexes (FT._LIST)
+ */
+export async function listSearchIndexes(
+  redis: Redis
+): Promise<ListSearchIndexesResponseDto> {
+  try {
+    const reply = await redis.call('FT._LIST') as unknown[]
+
+    return {
+      success: true,
+      indexes: reply.map(String).sort((a, b) => a.localeCompare(b))
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: toSearchError(error, 'Failed to list search indexes')
+    }
+  }
+}
+
+/**
+ * Get schema, document count and indexing progress of an index (FT.INFO)
+ */
+export async function getSearchIndex(
+  redis: Redis,
+  name: string
+): Promise<GetSearchIndexResponseDto> {
+  try {
+    const info = toRecord(await redis.call('FT.INFO', name))
+    const definition = toRecord(info.index_definition)
+    const legacy = !Array.isArray(info.attributes)
+    const fields = (legacy ? info.fields : info.attributes) as unknown[] | undefined
+
+    const index: SearchIndexInfo = {
+      name: String(info.index_name ?? name),
+      keyType: String(definition.key_type ?? 'HASH'),
+      prefixes: Array.isArray(definition.prefixes) ? definition.prefixes.map(String) : [],
+      ...(definition.filter !== undefined && { filter: String(definition.filter) }),
+      fields: (fields ?? []).map(entry => toIndexField(entry, legacy)),
+      numDocs: toNumber(info.num_docs) ?? 0,
+      numRecords: toNumber(info.num_records),
+      numTerms: toNumber(info.num_terms),
+      indexing: toNumber(info.indexing) === 1,
+      percentIndexed: toNumber(info.percent_indexed) ?? 1,
+      indexingFailures: toNumber(info.hash_indexing_failures) ?? 0,
+      invertedSizeMb: toNumber(info.inverted_sz_mb),
+      totalIndexingTime: toNumber(info.total_indexing_time)
+    }
+
+    return {
+      success: true,
+      index
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: toSearchError(error, 'Failed to get search index')
+    }
+  }
+}
+
+/**
+ * Create a search index (FT.CREATE)
+ */
+export async function createSearchIndex(
+  redis: Redis,
+  data: CreateSearchIndexRequestDto
+): Promise<SearchIndexResponseDto> {
+  try {
+    const { name, keyType, prefixes = [], filter, fields, skipInitialScan, db = 0 } = data
+
+    await ensureDb(redis, db)
+
+    const args: string[] = [name, 'ON', keyType]
+    if (prefixes.length > 0) {
+      args.push('PREFIX', String(prefixes.length), ...prefixes)
+    }
+    if (filter) {
+      args.push('FILTER', filter)
+    }
+    if (skipInitialScan) {
+      args.push('SKIPINITIALSCAN')
+    }
+
+    args.push('SCHEMA')
+    for (const field of fields) {
+      args.push(field.identifier)
+      if (field.attribute) {
+        args.push('AS', field.attribute)
+      }
+      args.push(field.type)
+      if (field.sortable) {
+        args.push('SORTABLE')
+      }
+    }
+
+    await redis.call('FT.CREATE', ...args)
+
+    return {
+      success: true,
+      message: `Index "${name}" created successfully`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: toSearchError(error, 'Failed to create search index')
+    }
+  }
+}
+
+/**
+ * Drop a search index, optionally with its documents (FT.DROPINDEX)
+ */
+export async function dropSearchIndex(
+  redis: Redis,
+  name: string,
+  query: DropSearchIndexQueryDto
+): Promise<SearchIndexResponseDto> {
+  try {
+    await ensureDb(redis, query.db ?? 0)
+
+    await redis.call('FT.DROPINDEX', name, ...(query.deleteDocuments ? ['DD'] : []))
+
+    return {
+      success: true,
+      message: `Index "${name}" dropped successfully`
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: toSearchError(error, 'Failed to drop search index')
+    }
+  }
+}
+
+/**
+ * Run a full text query against an index (FT.SEARCH)
+ */
+export async function searchIndex(
+  redis: Redis,
+  name: string,
+  query: SearchQueryDto
+): Promise<SearchResponseDto> {
+  try {
+    const { offset = 0, limit = SEARCH_PAGE_SIZE, sortBy, sortOrder = 'ASC', noContent = false, db = 0 } = query
+
+    await ensureDb(redis, db)
+
+    const args: string[] = [name, query.query]
+    if (noContent) {
+      args.push('NOCONTENT')
+    }
+    if (sortBy) {
+      args.push('SORTBY', sortBy, sortOrder)
+    }
+    args.push('LIMIT', String(offset), String(limit))
+
+    // [total, id, [field, value, ...], id, [...], ...], without the field arrays for NOCONTENT
+    const reply = await redis.call('FT.SEARCH', ...args) as unknown[]
+    const documents: SearchDocument[] = []
+    const step = noContent ? 1 : 2
+    for (let i = 1; i < reply.length; i += step) {
+      documents.push({
+        id: String(reply[i]),
+        fields: noContent ? {} : toStringRecord(reply[i + 1])
+      })
+    }
+
+    return {
+      success: true,
+      total: Number(reply[0]),
+      documents
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: toSearchError(error, 'Failed to search index')
+    }
+  }
+}
+
+/**
+ * Run an aggregation pipeline against an index (FT.AGGREGATE)
+ */
+export async function aggregateIndex(
+  redis: Redis,
+  name: string,
+  query: AggregateQueryDto
+): Promise<AggregateResponseDto> {
+  try {
+    const { offset = 0, limit = SEARCH_PAGE_SIZE, db = 0 } = query
+
+    await ensureDb(redis, db)
+
+    // Paging is appended as the last step, so it applies to the pipeline output
+    const steps = query.pipeline ? splitCommandLine(query.pipeline) : []
+    const reply = await redis.call(
+      'FT.AGGREGATE',
+      name,
+      query.query,
+      ...steps,
+      'LIMIT',
+      String(offset),
+      String(limit)
+    ) as unknown[]
+
+    return {
+      success: true,
+      total: Number(reply[0]),
+      rows: reply.slice(1).map(toStringRecord)
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: toSearchError(error, 'Failed to run aggregation')
+    }
+  }
+}
@@ -41,6 +41,12 @@ const DEFAULT_SETTINGS: DefaultSystemSettings = {
   'redis.maxKeyPageSize': 1000,
   'redis.connectionTimeout': 5000, // milliseconds
 
+  // Recycle bin settings
+  'recycleBin.enabled': true,
+  'recycleBin.retentionDays': 7,
+  'recycleBin.maxEntrySizeMb': 10,
+  'recycleBin.maxTotalSizeMb': 500,
+
   // Application settings
   'app.name': 'RediStra',
   'app.allowSignup': false,
@@ -65,11 +71,39 @@ const SETTING_CATEGORIES = {
   'redis.scanCount': { category: 'redis', isPublic: false },
   'redis.maxKeyPageSize': { category: 'redis', isPublic: false },
   'redis.connectionTimeout': { category: 'redis', isPublic: false },
+  'recycleBin.enabled': { category: 'redis', isPublic: false },
+  'recycleBin.retentionDays': { category: 'redis', isPublic: false },
+  'recycleBin.maxEntrySizeMb': { category: 'redis', isPublic: false },
+  'recycleBin.maxTotalSizeMb': { category: 'redis', isPublic: false },
   'app.name': { category: 'app', isPublic: true },
   'app.allowSignup': { category: 'app', isPublic: true },
   'app.maintenanceMode': { category: 'app', isPublic: true }
 } as const
 
+/**
+ * Current value of a system setting, the default until an admin changes it
+ */
+export async function getSettingValue<K extends keyof DefaultSystemSettings>(
+  key: K
+): Promise<DefaultSystemSettings[K]> {
+  const setting = await db
+    .select()
+    .from(systemSettings)
+    .where(eq(systemSettings.key, key))
+    .limit(1)
+    .then(rows => rows[0])
+
+  if (!setting) {
+    return DEFAULT_SETTINGS[key]
+  }
+
+  try {
+    return JSON.parse(setting.value) as DefaultSystemSettings[K]
+  } catch {
+    return DEFAULT_SETTINGS[key]
+  }
+}
+
 /**
  * List all system settings (admin only)
  */
@@ -360,6 +394,9 @@ function validateSettingValue(key: string, value: unknown): string | null {
     case 'redis.scanCount':
     case 'redis.maxKeyPageSize':
     case 'redis.connectionTimeout':
+    case 'recycleBin.retentionDays':
+    case 'recycleBin.maxEntrySizeMb':
+    case 'recycleBin.maxTotalSizeMb':
       if (typeof value !== 'number' || value < 0) {
         return 'Value must be a positive number'
       }
@@ -372,6 +409,7 @@ function validateSettingValue(key: string, value: unknown): string | null {
     case 'audit.enableExport':
     case 'app.allowSignup':
     case 'app.maintenanceMode':
+    case 'recycleBin.enabled':
       if (typeof value !== 'boolean') {
         return 'Value must be a boolean'
       }
@@ -8,12 +8,13 @@ import { auditLogs } from '@/db/schema'
 import type { AuditLog } from '@/types'
 
 /**
- * Log an audit event
+ * Log an audit event, returning its ID for records that link to it
  */
-export async function logAudit(data: Omit<AuditLog, 'id' | 'timestamp'>): Promise<void> {
+export async function logAudit(data: Omit<AuditLog, 'id' | 'timestamp'>): Promise<string | undefined> {
   try {
+    const id = crypto.randomUUID()
     await db.insert(auditLogs).values({
-      id: crypto.randomUUID(),
+      id,
       userId: data.userId,
       action: data.action,
       resourceType: data.resourceType,
@@ -24,6 +25,7 @@ export async function logAudit(data: Omit<AuditLog, 'id' | 'timestamp'>): Promis
       userAgent: data.userAgent || 'Unknown',
       timestamp: new Date()
     })
+    return id
   } catch (error) {
     console.error('Failed to log audit event:', error)
   }
@@ -0,0 +1,89 @@
+/**
+ * Split a command line into arguments the way redis-cli does:
+ * whitespace separated, "double quotes" with backslash escapes (\n, \t, \xNN, \"),
+ * 'single quotes' taken literally except for \'.
+ * Arguments are bytes, so \xNN escapes above 0x7F stay single raw bytes.
+ */
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  a: '\x07'
+}
+
+export function splitCommandLine(line: string): Buffer[] {
+  const args: Buffer[] = []
+  let index = 0
+
+  while (index < line.length) {
+    // Skip blanks between arguments
+    while (index < line.length && /\s/.test(line[index])) {
+      index++
+    }
+    if (index >= line.length) {
+      break
+    }
+
+    const chunks: Buffer[] = []
+    let text = ''
+    let quote: '"' | '\'' | null = null
+    let done = false
+
+    while (!done) {
+      const char = line[index]
+
+      if (quote === '"') {
+        if (char === undefined) {
+          throw new Error('Unbalanced quotes in command line')
+        }
+        if (char === '\\' && line[index + 1] === 'x' && /^[0-9a-fA-F]{2}$/.test(line.slice(index + 2, index + 4))) {
+          chunks.push(Buffer.from(text), Buffer.from([parseInt(line.slice(index + 2, index + 4), 16)]))
+          text = ''
+          index += 3
+        } else if (char === '\\' && index + 1 < line.length) {
+          const next = line[index + 1]
+          text += ESCAPES[next] ?? next
+          index++
+        } else if (char === '"') {
+          // The closing quote must end the argument
+          if (index + 1 < line.length && !/\s/.test(line[index + 1])) {
+            throw new Error('Closing quote must be followed by a space')
+          }
+          done = true
+        } else {
+          text += char
+        }
+      } else if (quote === '\'') {
+        if (char === undefined) {
+          throw new Error('Unbalanced quotes in command line')
+        }
+        if (char === '\\' && line[index + 1] === '\'') {
+          text += '\''
+          index++
+        } else if (char === '\'') {
+          if (index + 1 < line.length && !/\s/.test(line[index + 1])) {
+            throw new Error('Closing quote must be followed by a space')
+          }
+          done = true
+        } else {
+          text += char
+        }
+      } else if (char === undefined || /\s/.test(char)) {
+        done = true
+      } else if (char === '"' || char === '\'') {
+        quote = char
+      } else {
+        text += char
+      }
+
+      index++
+    }
+
+    chunks.push(Buffer.from(text))
+    args.push(Buffer.concat(chunks))
+  }
+
+  return args
+}
@@ -0,0 +1,214 @@
+/**
+ * Which raw commands each role may run from the console
+ */
+
+// Commands that never write, allowed for every role
+const READ_ONLY_COMMANDS = new Set([
+  // Keyspace and server
+  'PING', 'ECHO', 'TIME', 'DBSIZE', 'INFO', 'LASTSAVE', 'ROLE', 'LOLWUT', 'COMMAND',
+  'EXISTS', 'TYPE', 'TTL', 'PTTL', 'EXPIRETIME', 'PEXPIRETIME', 'SCAN', 'KEYS', 'RANDOMKEY', 'DUMP', 'OBJECT',
+  // Strings and bitmaps
+  'GET', 'MGET', 'STRLEN', 'GETRANGE', 'SUBSTR', 'LCS', 'GETBIT', 'BITCOUNT', 'BITPOS', 'BITFIELD_RO',
+  // Hashes
+  'HGET', 'HMGET', 'HGETALL', 'HKEYS', 'HVALS', 'HLEN', 'HEXISTS', 'HSTRLEN', 'HSCAN', 'HRANDFIELD', 'HTTL', 'HPTTL',
+  // Lists
+  'LRANGE', 'LLEN', 'LINDEX', 'LPOS',
+  // Sets
+  'SMEMBERS', 'SISMEMBER', 'SMISMEMBER', 'SCARD', 'SSCAN', 'SRANDMEMBER', 'SINTER', 'SINTERCARD', 'SUNION', 'SDIFF',
+  // Sorted sets
+  'ZRANGE', 'ZRANGEBYSCORE', 'ZREVRANGE', 'ZREVRANGEBYSCORE', 'ZRANGEBYLEX', 'ZREVRANGEBYLEX', 'ZSCORE', 'ZMSCORE',
+  'ZRANK', 'ZREVRANK', 'ZCARD', 'ZCOUNT', 'ZLEXCOUNT', 'ZSCAN', 'ZRANDMEMBER', 'ZINTER', 'ZINTERCARD', 'ZUNION', 'ZDIFF',
+  // Streams, HyperLogLog, geo and sorting
+  'XRANGE', 'XREVRANGE', 'XREAD', 'XLEN', 'XINFO', 'XPENDING', 'PFCOUNT',
+  'GEOPOS', 'GEODIST', 'GEOHASH', 'GEOSEARCH', 'GEORADIUS_RO', 'GEORADIUSBYMEMBER_RO', 'SORT_RO',
+  // Modules
+  'JSON.GET', 'JSON.MGET', 'JSON.TYPE', 'JSON.STRLEN', 'JSON.ARRLEN', 'JSON.ARRINDEX', 'JSON.OBJKEYS', 'JSON.OBJLEN',
+  'FT._LIST', 'FT.INFO', 'FT.SEARCH', 'FT.AGGREGATE', 'FT.EXPLAIN', 'FT.PROFILE', 'FT.TAGVALS',
+  'TS.GET', 'TS.MGET', 'TS.RANGE', 'TS.REVRANGE', 'TS.MRANGE', 'TS.MREVRANGE', 'TS.INFO', 'TS.QUERYINDEX',
+  'BF.EXISTS', 'BF.MEXISTS', 'BF.INFO', 'CF.EXISTS', 'CF.COUNT', 'CF.INFO',
+  'TOPK.QUERY', 'TOPK.LIST', 'TOPK.INFO', 'CMS.QUERY', 'CMS.INFO'
+])
+
+// Commands that only read with these subcommands
+const READ_ONLY_SUBCOMMANDS: Record<string, Set<string>> = {
+  MEMORY: new Set(['USAGE', 'STATS', 'DOCTOR', 'MALLOC-STATS']),
+  SLOWLOG: new Set(['GET', 'LEN']),
+  CLIENT: new Set(['LIST', 'INFO', 'GETNAME', 'ID']),
+  LATENCY: new Set(['LATEST', 'HISTORY', 'DOCTOR', 'GRAPH']),
+  PUBSUB: new Set(['CHANNELS', 'NUMSUB', 'NUMPAT', 'SHARDCHANNELS', 'SHARDNUMSUB']),
+  SCRIPT: new Set(['EXISTS']),
+  FUNCTION: new Set(['LIST', 'STATS', 'DUMP'])
+}
+
+// Commands that change the data of keys, allowed for editors on top of the read-only ones.
+// Everything not listed (scripts, ACL, replication, persistence, CLIENT KILL, search index
+// management like FT.CREATE, ...) is for admins.
+const DATA_WRITE_COMMANDS = new Set([
+  // Keyspace
+  'DEL', 'UNLINK', 'EXPIRE', 'PEXPIRE', 'EXPIREAT', 'PEXPIREAT', 'PERSIST', 'RENAME', 'RENAMENX',
+  'COPY', 'MOVE', 'RESTORE', 'TOUCH', 'SORT',
+  // Strings and bitmaps
+  'SET', 'SETNX', 'SETEX', 'PSETEX', 'MSET', 'MSETNX', 'GETSET', 'GETDEL', 'GETEX', 'APPEND', 'SETRANGE',
+  'INCR', 'INCRBY', 'INCRBYFLOAT', 'DECR', 'DECRBY', 'SETBIT', 'BITFIELD', 'BITOP',
+  // Hashes
+  'HSET', 'HSETNX', 'HMSET', 'HDEL', 'HINCRBY', 'HINCRBYFLOAT', 'HGETDEL', 'HGETEX', 'HSETEX',
+  'HEXPIRE', 'HPEXPIRE', 'HEXPIREAT', 'HPEXPIREAT', 'HPERSIST',
+  // Lists
+  'LPUSH', 'RPUSH', 'LPUSHX', 'RPUSHX', 'LPOP', 'RPOP', 'LMPOP', 'LSET', 'LINSERT', 'LREM', 'LTRIM',
+  'LMOVE', 'RPOPLPUSH',
+  // Sets
+  'SADD', 'SREM', 'SPOP', 'SMOVE', 'SINTERSTORE', 'SUNIONSTORE', 'SDIFFSTORE',
+  // Sorted sets
+  'ZADD', 'ZINCRBY', 'ZREM', 'ZREMRANGEBYSCORE', 'ZREMRANGEBYRANK', 'ZREMRANGEBYLEX', 'ZPOPMIN', 'ZPOPMAX',
+  'ZMPOP', 'ZRANGESTORE', 'ZINTERSTORE', 'ZUNIONSTORE', 'ZDIFFSTORE',
+  // Streams, HyperLogLog, geo and Pub/Sub
+  'XADD', 'XDEL', 'XTRIM', 'XACK', 'XCLAIM', 'XAUTOCLAIM', 'XGROUP', 'XREADGROUP', 'XSETID',
+  'PFADD', 'PFMERGE', 'GEOADD', 'GEOSEARCHSTORE', 'GEORADIUS', 'GEORADIUSBYMEMBER',
+  'PUBLISH', 'SPUBLISH',
+  // Modules
+  'JSON.SET', 'JSON.MSET', 'JSON.MERGE', 'JSON.DEL', 'JSON.FORGET', 'JSON.CLEAR', 'JSON.TOGGLE',
+  'JSON.NUMINCRBY', 'JSON.NUMMULTBY', 'JSON.STRAPPEND',
+  'JSON.ARRAPPEND', 'JSON.ARRINSERT', 'JSON.ARRPOP', 'JSON.ARRTRIM',
+  'TS.CREATE', 'TS.ALTER', 'TS.ADD', 'TS.MADD', 'TS.INCRBY', 'TS.DECRBY', 'TS.DEL', 'TS.CREATERULE', 'TS.DELETERULE',
+  'BF.RESERVE', 'BF.ADD', 'BF.MADD', 'BF.INSERT',
+  'CF.RESERVE', 'CF.ADD', 'CF.ADDNX', 'CF.INSERT', 'CF.INSERTNX', 'CF.DEL',
+  'TOPK.RESERVE', 'TOPK.ADD', 'TOPK.INCRBY',
+  'CMS.INITBYDIM', 'CMS.INITBYPROB', 'CMS.INCRBY', 'CMS.MERGE'
+])
+
+// Longer arguments, usually values, are cut off in the audit log
+const MAX_AUDIT_ARG_LENGTH = 200
+
+const SHARED_CONNECTION_STATE = 'It changes the state of the shared connection'
+
+// Commands that take over, block or change the shared connection the console runs on
+const UNSUPPORTED_COMMANDS: Record<string, string> = {
+  SELECT: 'Pick the database in the console instead',
+  SUBSCRIBE: 'Use the Pub/Sub page instead',
+  PSUBSCRIBE: 'Use the Pub/Sub page instead',
+  SSUBSCRIBE: 'Use the Pub/Sub page instead',
+  UNSUBSCRIBE: 'Use the Pub/Sub page instead',
+  PUNSUBSCRIBE: 'Use the Pub/Sub page instead',
+  SUNSUBSCRIBE: 'Use the Pub/Sub page instead',
+  MONITOR: 'It takes over the connection',
+  MULTI: 'Commands run one request at a time, transactions cannot span them',
+  EXEC: 'Commands run one request at a time, transactions cannot span them',
+  DISCARD: 'Commands run one request at a time, transactions cannot span them',
+  WATCH: 'Commands run one request at a time, transactions cannot span them',
+  UNWATCH: 'Commands run one request at a time, transactions cannot span them',
+  AUTH: 'The connection is already authenticated',
+  HELLO: 'The connection is already authenticated',
+  RESET: 'It resets the shared connection',
+  QUIT: 'It closes the shared connection',
+  READONLY: SHARED_CONNECTION_STATE,
+  READWRITE: SHARED_CONNECTION_STATE,
+  BLPOP: 'Blocking commands would hold the shared connection',
+  BRPOP: 'Blocking commands would hold the shared connection',
+  BLMOVE: 'Blocking commands would hold the shared connection',
+  BRPOPLPUSH: 'Blocking commands would hold the shared connection',
+  BLMPOP: 'Blocking commands would hold the shared connection',
+  BZPOPMIN: 'Blocking commands would hold the shared connection',
+  BZPOPMAX: 'Blocking commands would hold the shared connection',
+  BZMPOP: 'Blocking commands would hold the shared connection',
+  WAIT: 'Blocking commands would hold the shared connection',
+  WAITAOF: 'Blocking commands would hold the shared connection'
+}
+
+// Subcommands that change the shared connection, even for admins
+const UNSUPPORTED_SUBCOMMANDS: Record<string, Set<string>> = {
+  CLIENT: new Set(['REPLY', 'SETNAME', 'SETINFO', 'TRACKING', 'CACHING', 'NO-EVICT', 'NO-TOUCH'])
+}
+
+function isReadOnly(command: string, args: string[]): boolean {
+  if (READ_ONLY_COMMANDS.has(command)) {
+    return true
+  }
+
+  const subcommand = args[1]?.toUpperCase()
+  return subcommand !== undefined && !!READ_ONLY_SUBCOMMANDS[command]?.has(subcommand)
+}
+
+/**
+ * Why a role may not run a command, or null when it may.
+ * Viewers run read-only commands, editors read-only and data commands, admins everything.
+ */
+export function checkCommandPermission(role: string, args: string[]): string | null {
+  const command = args[0]?.toUpperCase()
+  if (!command) {
+    return 'Enter a command'
+  }
+
+  const unsupported = UNSUPPORTED_COMMANDS[command]
+  if (unsupported) {
+    return `${command} is not supported in the console: ${unsupported}`
+  }
+
+  const subcommand = args[1]?.toUpperCase()
+  if (subcommand !== undefined && UNSUPPORTED_SUBCOMMANDS[command]?.has(subcommand)) {
+    return `${command} ${subcommand} is not supported in the console: ${SHARED_CONNECTION_STATE}`
+  }
+
+  // Stream reads only block with BLOCK, which would hold the connection as well
+  if ((command === 'XREAD' || command === 'XREADGROUP') && args.some(arg => arg.toUpperCase() === 'BLOCK')) {
+    return `${command} with BLOCK is not supported in the console: Blocking commands would hold the shared connection`
+  }
+
+  if (role === 'admin' || isReadOnly(command, args)) {
+    return null
+  }
+
+  if (role === 'editor' && DATA_WRITE_COMMANDS.has(command)) {
+    return null
+  }
+
+  if (role === 'editor') {
+    const name = READ_ONLY_SUBCOMMANDS[command] && subcommand ? `${command} ${subcommand}` : command
+    return `Admin privileges required to run ${name}`
+  }
+
+  return `Viewers can only run read-only commands, ${command} may write`
+}
+
+/**
+ * Arguments with passwords masked, null for the ones that carry none
+ */
+function maskSecrets(args: string[]): Array<string | null> {
+  const command = args[0]?.toUpperCase()
+  const subcommand = args[1]?.toUpperCase()
+
+  return args.map((arg, index) => {
+    const previous = args[index - 1]?.toUpperCase()
+
+    // ACL SETUSER name >password #hash <password !hash
+    if (command === 'ACL' && subcommand === 'SETUSER' && index > 2 && /^[><#!]/.test(arg)) {
+      return `${arg[0]}***`
+    }
+    // CONFIG SET requirepass secret masterauth secret
+    if (command === 'CONFIG' && subcommand === 'SET' && (previous === 'REQUIREPASS' || previous === 'MASTERAUTH')) {
+      return '***'
+    }
+    // MIGRATE ... AUTH password / AUTH2 username password
+    if (command === 'MIGRATE' && (previous === 'AUTH' || args[index - 2]?.toUpperCase() === 'AUTH2')) {
+      return '***'
+    }
+    return null
+  })
+}
+
+/**
+ * Whether a command carries a password, such lines are kept out of the command history
+ */
+export function hasSecretArgs(args: string[]): boolean {
+  return maskSecrets(args).some(masked => masked !== null)
+}
+
+/**
+ * Arguments for the audit log, passwords masked and long values cut off
+ */
+export function auditCommandArgs(args: string[]): string[] {
+  const masked = maskSecrets(args)
+
+  return args.map((arg, index) =>
+    masked[index] ?? (arg.length > MAX_AUDIT_ARG_LENGTH ? `${arg.slice(0, MAX_AUDIT_ARG_LENGTH)}…` : arg)
+  )
+}
@@ -0,0 +1,49 @@
+/**
+ * Saved connection lookup for background jobs
+ */
+
+import { db } from '@/db'
+import { connections } from '@/db/schema/connections'
+import { decrypt } from '@/server/lib/encryption'
+import { eq } from 'drizzle-orm'
+import type { ConnectionConfig } from '@/types'
+
+/**
+ * Load a saved connection the user may access, with its password decrypted
+ */
+export async function loadConnectionConfig(
+  connectionId: string,
+  userId: string,
+  userRole: string
+): Promise<ConnectionConfig & { name: string }> {
+  const connection = await db
+    .select()
+    .from(connections)
+    .where(eq(connections.id, connectionId))
+    .limit(1)
+    .then(rows => rows[0])
+
+  if (!connection) {
+    throw new Error('Connection not found')
+  }
+
+  // Check access: must be owner or connection must be shared or user is admin
+  if (
+    connection.ownerId !== userId &&
+    !connection.isShared &&
+    userRole !== 'admin'
+  ) {
+    throw new Error('Access denied')
+  }
+
+  return {
+    id: connection.id,
+    name: connection.name,
+    host: connection.host,
+    port: connection.port,
+    password: connection.passwordEnc ? await decrypt(connection.passwordEnc) : undefined,
+    username: connection.username || undefined,
+    database: connection.database,
+    useTls: connection.useTls
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Server-sent event streams for live views
+ */
+
+// Comment lines keep proxies from closing a quiet stream
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+
+/**
+ * Live stream, or why it could not be opened
+ */
+export interface EventStreamResult {
+  success: boolean
+  stream?: ReadableStream<Uint8Array>
+  error?: string
+}
+
+export interface EventStreamWriter {
+  send: (event: string, data: unknown) => void
+  close: () => void
+}
+
+/**
+ * Server-sent event stream with a heartbeat. `start` wires up the source of the
+ * events and returns how to tear it down, which runs once when the client goes
+ * away or the source closes the stream.
+ */
+export function createEventStream(
+  signal: AbortSignal,
+  start: (writer: EventStreamWriter) => () => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let heartbeat: ReturnType<typeof setInterval> | undefined
+  let teardown: (() => void) | undefined
+  let closed = false
+  let close = () => {}
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+      }
+
+      close = () => {
+        if (closed) {
+          return
+        }
+        closed = true
+        clearInterval(heartbeat)
+        teardown?.()
+        try {
+          controller.close()
+        } catch {
+          // The client already closed the stream
+        }
+      }
+
+      heartbeat = setInterval(() => controller.enqueue(encoder.encode(': heartbeat\n\n')), HEARTBEAT_INTERVAL_MS)
+      teardown = start({ send, close })
+      // The source may have closed the stream before its teardown was known
+      if (closed) {
+        teardown()
+      }
+
+      signal.addEventListener('abort', () => close())
+      if (signal.aborted) {
+        close()
+      }
+    },
+    cancel() {
+      close()
+    }
+  })
+}
+
+/**
+ * HTTP response for an event stream, unbuffered by proxies
+ */
+export function eventStreamResponse(stream: ReadableStream<Uint8Array>): Response {
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
@@ -0,0 +1,91 @@
+/**
+ * Helpers for binary-safe key and value handling
+ * Keys and values that are not valid UTF-8 travel as hex in requests and are
+ * shown in the redis-cli escaped form ("\xff\x00...") in responses.
+ */
+
+import type { KeyEncoding } from '@/types'
+
+// ioredis accepts both forms for key arguments
+export type KeyName = string | Buffer
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true })
+
+/**
+ * Whether the bytes are valid UTF-8 and survive a string round trip
+ */
+export function isUtf8(buffer: Buffer): boolean {
+  try {
+    utf8Decoder.decode(buffer)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Escape bytes the way redis-cli prints them: printable ASCII as is,
+ * quotes and backslashes escaped, everything else as \xNN
+ */
+export function escapeBinary(buffer: Buffer): string {
+  let escaped = ''
+  for (const byte of buffer) {
+    if (byte === 0x5c || byte === 0x22) {
+      escaped += `\\${String.fromCharCode(byte)}`
+    } else if (byte >= 0x20 && byte <= 0x7e) {
+      escaped += String.fromCharCode(byte)
+    } else if (byte === 0x0a) {
+      escaped += '\\n'
+    } else if (byte === 0x0d) {
+      escaped += '\\r'
+    } else if (byte === 0x09) {
+      escaped += '\\t'
+    } else {
+      escaped += `\\x${byte.toString(16).padStart(2, '0')}`
+    }
+  }
+  return escaped
+}
+
+/**
+ * Text for display plus the hex form when the bytes are not valid UTF-8
+ */
+export function describeBinary(buffer: Buffer): { text: string; hex?: string } {
+  if (isUtf8(buffer)) {
+    return { text: buffer.toString('utf8') }
+  }
+
+  return { text: escapeBinary(buffer), hex: buffer.toString('hex') }
+}
+
+/**
+ * Resolve a key name sent by the client, hex encoded keys become a Buffer
+ */
+export function toKeyName(key: string, encoding: KeyEncoding = 'utf8'): KeyName {
+  return fromHex(key, encoding, 'Invalid hex key')
+}
+
+/**
+ * Resolve a hash field, member or list item sent by the client, hex encoded ones become a Buffer
+ */
+export function toElement(value: string, encoding: KeyEncoding = 'utf8'): string | Buffer {
+  return fromHex(value, encoding, 'Invalid hex value')
+}
+
+function fromHex(value: string, encoding: KeyEncoding, error: string): string | Buffer {
+  if (encoding === 'utf8') {
+    return value
+  }
+
+  if (value.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(value)) {
+    throw new Error(error)
+  }
+  return Buffer.from(value, 'hex')
+}
+
+/**
+ * Key name for messages and audit entries
+ */
+export function displayKeyName(key: KeyName): string {
+  return typeof key === 'string' ? key : describeBinary(key).text
+}
@@ -0,0 +1,94 @@
+/**
+ * Helpers for Redis module data types
+ * Module types report their own names from TYPE (e.g. "ReJSON-RL"),
+ * these are mapped onto the data types the browser knows about.
+ * HyperLogLogs are strings to TYPE and are told apart by their header.
+ */
+
+import type Redis from 'ioredis'
+import type { RedisDataType, RedisModule } from '@/types'
+
+// TYPE reply of a module key -> browser data type
+const MODULE_KEY_TYPES: Record<string, RedisDataType> = {
+  'ReJSON-RL': 'json',
+  'TSDB-TYPE': 'timeseries',
+  'MBbloom--': 'bloom',
+  'MBbloomCF': 'cuckoo',
+  'CMSk-TYPE': 'cms',
+  'TopK-TYPE': 'topk'
+}
+
+// Module name in MODULE LIST that provides each module data type
+export const MODULE_PROVIDERS: Partial<Record<RedisDataType, string>> = {
+  json: 'ReJSON',
+  timeseries: 'timeseries',
+  bloom: 'bf',
+  cuckoo: 'bf',
+  cms: 'bf',
+  topk: 'bf'
+}
+
+// Every HyperLogLog value starts with these bytes
+export const HLL_HEADER = Buffer.from('HYLL')
+
+/**
+ * Map a TYPE reply to a data type, undefined for module types the browser does not support.
+ * Pass the first bytes of string values as header to recognise HyperLogLogs.
+ */
+export function toDataType(type: string, header?: Buffer | null): RedisDataType | undefined {
+  switch (type) {
+    case 'string':
+      return header && header.subarray(0, HLL_HEADER.length).equals(HLL_HEADER) ? 'hyperloglog' : 'string'
+    case 'hash':
+    case 'list':
+    case 'set':
+    case 'zset':
+    case 'stream':
+      return type
+    default:
+      return MODULE_KEY_TYPES[type]
+  }
+}
+
+/**
+ * TYPE reply and data type of a key, rawType is 'none' when it does not exist
+ */
+export async function readDataType(
+  redis: Redis,
+  key: string | Buffer
+): Promise<{ rawType: string; type?: RedisDataType }> {
+  const rawType = await redis.type(key)
+  const header = rawType === 'string' ? await redis.getrangeBuffer(key, 0, HLL_HEADER.length - 1) : undefined
+
+  return { rawType, type: toDataType(rawType, header) }
+}
+
+/**
+ * Loaded modules from MODULE LIST, empty when the server does not support modules
+ */
+export async function loadModules(redis: Redis): Promise<RedisModule[]> {
+  let reply: unknown
+  try {
+    reply = await redis.call('MODULE', 'LIST')
+  } catch {
+    // Managed services often disable MODULE, treat that as no modules loaded
+    return []
+  }
+
+  if (!Array.isArray(reply)) {
+    return []
+  }
+
+  return reply.map(entry => {
+    const record: Record<string, unknown> = {}
+    if (Array.isArray(entry)) {
+      for (let i = 0; i < entry.length; i += 2) {
+        record[String(entry[i])] = entry[i + 1]
+      }
+    }
+    return {
+      name: String(record.name ?? ''),
+      version: Number(record.ver ?? 0)
+    }
+  })
+}
@@ -0,0 +1,90 @@
+/**
+ * Helpers for building Redis MATCH patterns
+ */
+
+/**
+ * Escape glob metacharacters so a literal string can be used in MATCH
+ */
+export function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&')
+}
+
+// Glob metacharacters as bytes: * ? [ ] and backslash
+const GLOB_BYTES = new Set([0x2a, 0x3f, 0x5b, 0x5d, 0x5c])
+
+/**
+ * MATCH pattern for every key starting with `prefix`. A Buffer prefix gives a
+ * Buffer pattern, so prefixes that are not valid UTF-8 keep their raw bytes.
+ */
+export function prefixPattern(prefix: string): string
+export function prefixPattern(prefix: Buffer): Buffer
+export function prefixPattern(prefix: string | Buffer): string | Buffer {
+  if (typeof prefix === 'string') {
+    return `${escapeGlob(prefix)}*`
+  }
+
+  const bytes: number[] = []
+  for (const byte of prefix) {
+    if (GLOB_BYTES.has(byte)) {
+      bytes.push(0x5c)
+    }
+    bytes.push(byte)
+  }
+  bytes.push(0x2a)
+  return Buffer.from(bytes)
+}
+
+/**
+ * Regular expression matching the same strings as a Redis glob pattern
+ * (stringmatchlen), for filtering names Redis did not match itself
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (char === '*') {
+      source += '[\\s\\S]*'
+    } else if (char === '?') {
+      source += '[\\s\\S]'
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i])
+    } else if (char === '[') {
+      // Like Redis, the class ends at the first unescaped ] or at the end of the pattern
+      let negate = false
+      if (pattern[i + 1] === '^') {
+        negate = true
+        i++
+      }
+      let set = ''
+      while (i + 1 < pattern.length && pattern[i + 1] !== ']') {
+        i++
+        if (pattern[i] === '\\' && i + 1 < pattern.length) {
+          set += escapeClassChar(pattern[++i])
+        } else if (pattern[i + 1] === '-' && i + 2 < pattern.length && pattern[i + 2] !== ']') {
+          // Redis accepts reversed ranges such as [z-a]
+          const [from, to] = [pattern[i], pattern[i + 2]].sort()
+          set += `${escapeClassChar(from)}-${escapeClassChar(to)}`
+          i += 2
+        } else {
+          set += escapeClassChar(pattern[i])
+        }
+      }
+      i++
+      source += `[${negate ? '^' : ''}${set}]`
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')
+}
+
+function escapeClassChar(value: string): string {
+  return value.replace(/[\\\]^-]/g, '\\$&')
+}
@@ -10,6 +10,12 @@ import type { ConnectionConfig } from '@/types'
 // In-memory connection storage
 const connections = new Map<string, Redis>()
 const userConnections = new Map<string, Set<string>>() // userId -> connectionIds
+const subscriberConnections = new Map<string, Set<Redis>>() // connectionId -> dedicated subscribers
+const monitorConnections = new Map<string, Set<Redis>>() // connectionId -> dedicated MONITOR connections
+const watchConnections = new Map<Redis, Redis[]>() // pooled connection -> idle dedicated WATCH connections
+
+// Idle WATCH connections kept per pooled connection, busier moments open more and close them after
+const MAX_IDLE_WATCH_CONNECTIONS = 2
 
 function connectionKey(connectionId: string, database: number) {
   return `${connectionId}:${database}`
@@ -35,6 +41,7 @@ export async function getRedisConnection(
     
     // Remove dead connection
     connections.delete(key)
+    closeWatchConnections(existing)
   }
 
   // Create new connection
@@ -65,6 +72,158 @@ export async function getRedisConnection(
   return redis
 }
 
+/**
+ * Run `task` on a dedicated connection of a pooled one, for WATCH/MULTI/EXEC.
+ * WATCH applies to the whole connection, so checked writes cannot share the pooled
+ * connection; dedicated ones are opened on demand and a few are kept for reuse.
+ */
+export async function withWatchConnection<T>(redis: Redis, task: (client: Redis) => Promise<T>): Promise<T> {
+  const idle = watchConnections.get(redis) ?? []
+  let client = idle.pop()
+  while (client && client.status !== 'ready') {
+    client.disconnect()
+    client = idle.pop()
+  }
+  client ??= redis.duplicate()
+
+  try {
+    return await task(client)
+  } finally {
+    // A task that returned before EXEC still holds its WATCH
+    const reusable = await client.unwatch().then(() => true, () => false)
+    // Connections of a pooled connection that was closed meanwhile are not kept
+    const pooled = [...connections.values()].includes(redis)
+    if (reusable && pooled && idle.length < MAX_IDLE_WATCH_CONNECTIONS) {
+      idle.push(client)
+      watchConnections.set(redis, idle)
+    } else {
+      client.disconnect()
+    }
+  }
+}
+
+function closeWatchConnections(redis: Redis) {
+  for (const client of watchConnections.get(redis) ?? []) {
+    client.disconnect()
+  }
+  watchConnections.delete(redis)
+}
+
+/**
+ * Open a dedicated connection for SUBSCRIBE and PSUBSCRIBE.
+ * A subscribed connection cannot run other commands, so it is never shared;
+ * release it with releaseSubscriberConnection once the subscription ends.
+ */
+export function createSubscriberConnection(config: ConnectionConfig): Redis {
+  const redis = new Redis({
+    host: config.host,
+    port: config.port,
+    password: config.password,
+    username: config.username,
+    tls: config.useTls ? {} : undefined,
+    retryStrategy: (times) => {
+      const delay = Math.min(times * 50, 2000)
+      return delay
+    },
+    maxRetriesPerRequest: 3,
+    lazyConnect: true,
+  })
+
+  // Unhandled, a dropped connection's 'error' would reach the process. Releasing it
+  // emits 'end', which closes the stream reading from it.
+  redis.on('error', () => releaseSubscriberConnection(config.id, redis))
+
+  if (!subscriberConnections.has(config.id)) {
+    subscriberConnections.set(config.id, new Set())
+  }
+  subscriberConnections.get(config.id)!.add(redis)
+
+  return redis
+}
+
+/**
+ * Close a dedicated subscriber connection
+ */
+export function releaseSubscriberConnection(connectionId: string, redis: Redis): void {
+  redis.disconnect()
+
+  const subscribers = subscriberConnections.get(connectionId)
+  subscribers?.delete(redis)
+  if (subscribers?.size === 0) {
+    subscriberConnections.delete(connectionId)
+  }
+}
+
+/**
+ * Number of open subscriber connections of a connection
+ */
+export function countSubscriberConnections(connectionId: string): number {
+  return subscriberConnections.get(connectionId)?.size ?? 0
+}
+
+/**
+ * Open a dedicated connection in MONITOR mode, it receives every command the
+ * server runs and can run nothing else. Release it with releaseMonitorConnection.
+ */
+export async function createMonitorConnection(config: ConnectionConfig): Promise<Redis> {
+  const redis = new Redis({
+    host: config.host,
+    port: config.port,
+    password: config.password,
+    username: config.username,
+    tls: config.useTls ? {} : undefined,
+    retryStrategy: (times) => {
+      const delay = Math.min(times * 50, 2000)
+      return delay
+    },
+    maxRetriesPerRequest: 3,
+    lazyConnect: true,
+    monitor: true,
+  })
+
+  // Stays after the handshake, see createSubscriberConnection
+  redis.on('error', () => releaseMonitorConnection(config.id, redis))
+
+  if (!monitorConnections.has(config.id)) {
+    monitorConnections.set(config.id, new Set())
+  }
+  monitorConnections.get(config.id)!.add(redis)
+
+  try {
+    // MONITOR is sent once the connection is ready, 'monitoring' confirms it
+    await new Promise<void>((resolve, reject) => {
+      redis.once('monitoring', () => resolve())
+      redis.once('error', reject)
+      redis.connect().catch(reject)
+    })
+  } catch (error) {
+    releaseMonitorConnection(config.id, redis)
+    throw error
+  }
+
+  return redis
+}
+
+/**
+ * Close a dedicated MONITOR connection
+ */
+export function releaseMonitorConnection(connectionId: string, redis: Redis): void {
+  redis.disconnect()
+
+  const monitors = monitorConnections.get(connectionId)
+  monitors?.delete(redis)
+  if (monitors?.size === 0) {
+    monitorConnections.delete(connectionId)
+  }
+}
+
+/**
+ * Number of open MONITOR connections of a connection
+ */
+export function countMonitorConnections(connectionId: string): number {
+  return monitorConnections.get(connectionId)?.size ?? 0
+}
+
 /**
  * Disconnect Redis connection
  */
@@ -74,7 +233,18 @@ export async function disconnectRedis(connectionId: string): Promise<void> {
     if (!key.startsWith(prefix)) continue
     await conn.quit().catch(() => conn.disconnect())
     connections.delete(key)
+    closeWatchConnections(conn)
+  }
+
+  for (const subscriber of subscriberConnections.get(connectionId) ?? []) {
+    subscriber.disconnect()
+  }
+  subscriberConnections.delete(connectionId)
+
+  for (const monitor of monitorConnections.get(connectionId) ?? []) {
+    monitor.disconnect()
   }
+  monitorConnections.delete(connectionId)
 
   // Remove from user tracking
   for (const [userId, connIds] of userConnections.entries()) {
@@ -0,0 +1,91 @@
+/**
+ * Server-sent event streams over dedicated SUBSCRIBE/PSUBSCRIBE connections
+ */
+
+import {
+  createSubscriberConnection,
+  releaseSubscriberConnection,
+  countSubscriberConnections
+} from '@/server/lib/redis-pool'
+import { createEventStream, type EventStreamResult } from '@/server/lib/event-stream'
+import type { ConnectionConfig } from '@/types'
+
+// Open subscribe streams per connection, each one holds its own Redis connection
+const MAX_SUBSCRIBERS_PER_CONNECTION = 10
+
+export interface Subscription {
+  channels: string[] // SUBSCRIBE
+  patterns: string[] // PSUBSCRIBE
+}
+
+/**
+ * Turns a received message into the data of a `message` event, undefined skips it
+ */
+export type SubscriptionMessageMapper = (channel: Buffer, message: Buffer, pattern?: Buffer) => unknown
+
+/**
+ * Subscribe on a dedicated connection and stream every message as a server-sent
+ * `message` event, after one `subscribed` event. The connection is released when
+ * the client goes away or the connection is closed from the pool.
+ */
+export async function openSubscriptionStream(
+  config: ConnectionConfig,
+  subscription: Subscription,
+  signal: AbortSignal,
+  toMessage: SubscriptionMessageMapper
+): Promise<EventStreamResult> {
+  const { channels, patterns } = subscription
+
+  if (countSubscriberConnections(config.id) >= MAX_SUBSCRIBERS_PER_CONNECTION) {
+    return {
+      success: false,
+      error: `This connection already has ${MAX_SUBSCRIBERS_PER_CONNECTION} open subscriptions, close one first`
+    }
+  }
+
+  const subscriber = createSubscriberConnection(config)
+  try {
+    if (channels.length > 0) {
+      await subscriber.subscribe(...channels)
+    }
+    if (patterns.length > 0) {
+      await subscriber.psubscribe(...patterns)
+    }
+  } catch (error) {
+    releaseSubscriberConnection(config.id, subscriber)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to subscribe'
+    }
+  }
+
+  const stream = createEventStream(signal, ({ send, close }) => {
+    const receive = (channel: Buffer, message: Buffer, pattern?: Buffer) => {
+      const data = toMessage(channel, message, pattern)
+      if (data !== undefined) {
+        send('message', data)
+      }
+    }
+
+    subscriber.on('messageBuffer', (channel: Buffer, message: Buffer) => receive(channel, message))
+    subscriber.on('pmessageBuffer', (pattern: Buffer, channel: Buffer, message: Buffer) => {
+      receive(channel, message, pattern)
+    })
+    subscriber.on('end', () => close())
+
+    send('subscribed', { channels, patterns })
+
+    return () => {
+      // The pool's 'error' listener stays until the connection is gone
+      for (const event of ['messageBuffer', 'pmessageBuffer', 'end']) {
+        subscriber.removeAllListeners(event)
+      }
+      releaseSubscriberConnection(config.id, subscriber)
+    }
+  })
+
+  return {
+    success: true,
+    stream
+  }
+}
@@ -0,0 +1,872 @@
+/**
+ * Value codecs
+ * Detects, decodes and re-encodes common payload formats stored in Redis values:
+ * base64, gzip and zlib wrappers around JSON, MessagePack, PHP serialize() output,
+ * Java serialization (read-only), plain text or raw bytes shown as hex.
+ */
+
+import { gunzipSync, gzipSync, inflateSync, deflateSync } from 'zlib'
+import type { ValueCodec, ValueDecoder } from '@/types'
+
+// Codecs that wrap another payload; everything else ends the chain
+const WRAPPER_CODECS: ValueCodec[] = ['base64', 'gzip', 'zlib']
+// Payloads base64 is unwrapped for when auto-detecting; plain words are valid base64 too
+const STRUCTURED_CODECS: ValueCodec[] = ['gzip', 'zlib', 'json', 'msgpack', 'php', 'java']
+const MAX_CHAIN_DEPTH = 4
+// Decompressed payloads are held in memory whole, larger ones are shown as hex instead
+const MAX_DECOMPRESSED_BYTES = 16 * 1024 * 1024
+
+// Float spellings of PHP serialize() that are not numbers in JSON
+const PHP_SPECIAL_FLOATS = new Map([['INF', Infinity], ['-INF', -Infinity], ['NAN', NaN]])
+
+const CODEC_LABELS: Record<ValueCodec, string> = {
+  text: 'UTF-8 text',
+  json: 'JSON',
+  hex: 'hex',
+  base64: 'base64',
+  gzip: 'gzip',
+  zlib: 'zlib',
+  msgpack: 'MessagePack',
+  php: 'PHP serialized data',
+  java: 'Java serialized data'
+}
+
+export interface DecodedValue {
+  codecs: ValueCodec[]
+  text: string
+  editable: boolean
+}
+
+/**
+ * Float that a JSON number cannot tell apart from an integer (1.0) or cannot hold
+ * at all (INF, NAN). Kept apart so re-encoding writes it back as a float.
+ */
+class FloatValue {
+  constructor(readonly value: number) {}
+}
+
+/**
+ * Payload decoded from MessagePack or PHP. Integers beyond 2^53 are kept as bigint;
+ * `exact` is false when a string was not valid UTF-8 and could not be written back.
+ */
+interface DecodedPayload {
+  value: unknown
+  exact: boolean
+}
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true })
+
+function toUtf8(buffer: Buffer): string | null {
+  try {
+    return utf8Decoder.decode(buffer)
+  } catch {
+    return null
+  }
+}
+
+function gunzip(buffer: Buffer, maxOutput = MAX_DECOMPRESSED_BYTES) {
+  return gunzipSync(buffer, { maxOutputLength: maxOutput })
+}
+
+function inflate(buffer: Buffer, maxOutput = MAX_DECOMPRESSED_BYTES) {
+  return inflateSync(buffer, { maxOutputLength: maxOutput })
+}
+
+function isTooLarge(error: unknown) {
+  return error instanceof RangeError && (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE'
+}
+
+function toFloat(value: number): number | FloatValue {
+  return Number.isInteger(value) || !Number.isFinite(value) ? new FloatValue(value) : value
+}
+
+function toInteger(value: bigint): number | bigint {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value
+}
+
+function isGzip(buffer: Buffer) {
+  return buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b
+}
+
+function isZlib(buffer: Buffer) {
+  return buffer.length > 2 && buffer[0] === 0x78 && ((buffer[0] << 8) | buffer[1]) % 31 === 0
+}
+
+function isJavaSerialized(buffer: Buffer) {
+  return buffer.length > 4 && buffer.readUInt32BE(0) === 0xaced0005
+}
+
+function looksLikeJson(text: string) {
+  const trimmed = text.trim()
+  if (!/^[[{]/.test(trimmed)) {
+    return false
+  }
+
+  try {
+    JSON.parse(trimmed)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function looksLikePhp(text: string) {
+  if (!/^(a:\d+:\{|O:\d+:"|s:\d+:"|i:-?\d+;|b:[01];|d:[^;]+;|N;)/.test(text)) {
+    return false
+  }
+
+  try {
+    phpUnserialize(Buffer.from(text, 'utf8'))
+    return true
+  } catch {
+    return false
+  }
+}
+
+function looksLikeBase64(text: string) {
+  return text.length >= 8 && text.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(text)
+}
+
+function looksLikeMsgpack(buffer: Buffer) {
+  // Only containers: a lone scalar byte matches almost anything
+  const first = buffer[0]
+  const isContainer = (first >= 0x80 && first <= 0x9f) || (first >= 0xdc && first <= 0xdf)
+  if (!isContainer) {
+    return false
+  }
+
+  try {
+    msgpackDecode(buffer)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Work out the codec chain of a value, outermost first.
+ * `maxOutput` caps what is decompressed to look inside; page reads pass a small
+ * probe size, and a compressed value past it is reported by its wrapper alone.
+ */
+export function detectCodecs(buffer: Buffer, maxOutput = MAX_DECOMPRESSED_BYTES, depth = 0): ValueCodec[] {
+  if (depth >= MAX_CHAIN_DEPTH) {
+    return ['hex']
+  }
+
+  const tooLarge = (codec: ValueCodec): ValueCodec[] => maxOutput < MAX_DECOMPRESSED_BYTES ? [codec] : ['hex']
+
+  if (isGzip(buffer)) {
+    try {
+      return ['gzip', ...detectCodecs(gunzip(buffer, maxOutput), maxOutput, depth + 1)]
+    } catch (error) {
+      return isTooLarge(error) ? tooLarge('gzip') : ['hex']
+    }
+  }
+
+  if (isZlib(buffer)) {
+    try {
+      return ['zlib', ...detectCodecs(inflate(buffer, maxOutput), maxOutput, depth + 1)]
+    } catch (error) {
+      if (isTooLarge(error)) {
+        return tooLarge('zlib')
+      }
+      // Not every 0x78 prefix is zlib, fall through
+    }
+  }
+
+  if (isJavaSerialized(buffer)) {
+    return ['java']
+  }
+
+  const text = toUtf8(buffer)
+  if (text === null) {
+    return looksLikeMsgpack(buffer) ? ['msgpack'] : ['hex']
+  }
+
+  if (looksLikeJson(text)) {
+    return ['json']
+  }
+
+  if (looksLikePhp(text)) {
+    return ['php']
+  }
+
+  if (looksLikeBase64(text)) {
+    // Only unwrap base64 around a structured payload, words like "password" decode to bytes too
+    const inner = detectCodecs(Buffer.from(text, 'base64'), maxOutput, depth + 1)
+    if (STRUCTURED_CODECS.includes(inner[0])) {
+      return ['base64', ...inner]
+    }
+  }
+
+  return ['text']
+}
+
+/**
+ * Resolve the codec chain for a decoder choice: auto-detect, raw text, or a
+ * forced outer codec with the inner payload detected
+ */
+export function resolveCodecs(buffer: Buffer, decoder: ValueDecoder = 'auto'): ValueCodec[] {
+  if (decoder === 'auto') {
+    return detectCodecs(buffer)
+  }
+
+  if (decoder === 'raw') {
+    return ['text']
+  }
+
+  if (!WRAPPER_CODECS.includes(decoder)) {
+    return [decoder]
+  }
+
+  const inner = unwrap(buffer, decoder)
+  return [decoder, ...detectCodecs(inner, MAX_DECOMPRESSED_BYTES, 1)]
+}
+
+function unwrap(buffer: Buffer, codec: ValueCodec): Buffer {
+  try {
+    switch (codec) {
+      case 'base64': {
+        const text = (toUtf8(buffer) ?? '').trim()
+        if (!/^[A-Za-z0-9+/]*={0,2}$/.test(text)) {
+          throw new Error()
+        }
+        return Buffer.from(text, 'base64')
+      }
+      case 'gzip':
+        return gunzip(buffer)
+      case 'zlib':
+        return inflate(buffer)
+      default:
+        return buffer
+    }
+  } catch (error) {
+    if (isTooLarge(error)) {
+      throw new Error(`Value decompresses to more than ${MAX_DECOMPRESSED_BYTES / 1024 / 1024} MB, view it as hex instead`)
+    }
+    throw new Error(`Value is not valid ${CODEC_LABELS[codec]}`)
+  }
+}
+
+function wrap(buffer: Buffer, codec: ValueCodec): Buffer {
+  switch (codec) {
+    case 'base64':
+      return Buffer.from(buffer.toString('base64'), 'utf8')
+    case 'gzip':
+      return gzipSync(buffer)
+    case 'zlib':
+      return deflateSync(buffer)
+    default:
+      return buffer
+  }
+}
+
+/**
+ * Decode a value through a codec chain into editable text
+ */
+export function decodeValue(buffer: Buffer, codecs: ValueCodec[]): DecodedValue {
+  let payload = buffer
+  for (const codec of codecs.slice(0, -1)) {
+    payload = unwrap(payload, codec)
+  }
+
+  const terminal = codecs[codecs.length - 1] ?? 'text'
+  const fail = () => new Error(`Value is not valid ${CODEC_LABELS[terminal]}`)
+
+  switch (terminal) {
+    case 'text': {
+      const text = toUtf8(payload)
+      // Invalid UTF-8 is shown lossy and must not be written back
+      return { codecs, text: text ?? payload.toString('utf8'), editable: text !== null }
+    }
+    case 'json': {
+      try {
+        return { codecs, text: toJsonText(parseJsonText(payload.toString('utf8'))), editable: true }
+      } catch {
+        throw fail()
+      }
+    }
+    case 'hex':
+      return { codecs, text: payload.toString('hex').replace(/(.{2})(?!$)/g, '$1 '), editable: true }
+    case 'msgpack':
+    case 'php': {
+      let decoded: DecodedPayload
+      try {
+        decoded = terminal === 'msgpack' ? msgpackDecode(payload) : phpUnserialize(payload)
+      } catch {
+        throw fail()
+      }
+      // Strings that are not valid UTF-8 would be written back altered
+      return { codecs, text: toJsonText(decoded.value), editable: decoded.exact }
+    }
+    case 'java':
+      if (!isJavaSerialized(payload)) {
+        throw fail()
+      }
+      return { codecs, text: describeJavaStream(payload), editable: false }
+    default:
+      throw fail()
+  }
+}
+
+/**
+ * Encode edited text back through the same codec chain
+ */
+export function encodeValue(text: string, codecs: ValueCodec[]): Buffer {
+  const terminal = codecs[codecs.length - 1] ?? 'text'
+  let payload: Buffer
+
+  const parseJson = () => {
+    try {
+      return parseJsonText(text)
+    } catch {
+      throw new Error('Edited value is not valid JSON')
+    }
+  }
+
+  switch (terminal) {
+    case 'text':
+      payload = Buffer.from(text, 'utf8')
+      break
+    case 'json':
+      payload = Buffer.from(toJsonText(parseJson(), ''), 'utf8')
+      break
+    case 'hex': {
+      const digits = text.replace(/\s+/g, '')
+      if (digits.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(digits)) {
+        throw new Error('Edited value is not valid hex')
+      }
+      payload = Buffer.from(digits, 'hex')
+      break
+    }
+    case 'msgpack':
+      payload = msgpackEncode(parseJson())
+      break
+    case 'php':
+      payload = Buffer.from(phpSerialize(parseJson()), 'utf8')
+      break
+    default:
+      throw new Error(`${CODEC_LABELS[terminal]} values are read-only`)
+  }
+
+  for (const codec of codecs.slice(0, -1).reverse()) {
+    payload = wrap(payload, codec)
+  }
+
+  return payload
+}
+
+/**
+ * JSON text of a decoded payload, like JSON.stringify(value, null, space) but
+ * writing big integers as plain digits, integer-valued floats with ".0" and
+ * INF/NAN as { "$float": "INF" }, so parseJsonText gets the same numbers back
+ */
+function toJsonText(value: unknown, space = '  ', indent = ''): string {
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+
+  if (value instanceof FloatValue) {
+    const number = value.value
+    if (!Number.isFinite(number)) {
+      return toJsonText({ $float: Number.isNaN(number) ? 'NAN' : number > 0 ? 'INF' : '-INF' }, space, indent)
+    }
+    const digits = Object.is(number, -0) ? '-0' : String(number)
+    return /[.e]/.test(digits) ? digits : `${digits}.0`
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null'
+  }
+
+  const inner = `${indent}${space}`
+  const isArray = Array.isArray(value)
+  const items = isArray
+    ? value.map(item => toJsonText(item, space, inner))
+    : Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}:${space ? ' ' : ''}${toJsonText(item, space, inner)}`)
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}']
+
+  if (items.length === 0) {
+    return `${open}${close}`
+  }
+  if (!space) {
+    return `${open}${items.join(',')}${close}`
+  }
+  return `${open}\n${items.map(item => `${inner}${item}`).join(',\n')}\n${indent}${close}`
+}
+
+/**
+ * Parse JSON text keeping what JSON.parse would round off: integers beyond 2^53
+ * become bigint, floats written as 1.0 or { "$float": "INF" } stay floats
+ */
+function parseJsonText(text: string): unknown {
+  // JSON.parse reports syntax errors, the walk below can then trust the structure
+  JSON.parse(text)
+
+  const whitespace = /[ \t\n\r]*/y
+  const string = /"(?:[^"\\]|\\.)*"/y
+  const number = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y
+  const literal = /true|false|null/y
+  let offset = 0
+
+  const match = (pattern: RegExp) => {
+    pattern.lastIndex = offset
+    const found = pattern.exec(text)![0]
+    offset = pattern.lastIndex
+    return found
+  }
+
+  const next = () => {
+    match(whitespace)
+    return text[offset]
+  }
+
+  const read = (): unknown => {
+    const char = next()
+
+    if (char === '{') {
+      offset++
+      const entries: Array<[string, unknown]> = []
+      while (next() !== '}') {
+        const key = JSON.parse(match(string)) as string
+        next()
+        offset++ // :
+        entries.push([key, read()])
+        if (next() === ',') {
+          offset++
+        }
+      }
+      offset++
+      const [first] = entries
+      if (entries.length === 1 && first[0] === '$float' && ['INF', '-INF', 'NAN'].includes(first[1] as string)) {
+        return new FloatValue(first[1] === 'NAN' ? NaN : first[1] === 'INF' ? Infinity : -Infinity)
+      }
+      // fromEntries keeps a "__proto__" key as a plain property, like JSON.parse
+      return Object.fromEntries(entries)
+    }
+
+    if (char === '[') {
+      offset++
+      const items: unknown[] = []
+      while (next() !== ']') {
+        items.push(read())
+        if (next() === ',') {
+          offset++
+        }
+      }
+      offset++
+      return items
+    }
+
+    if (char === '"') {
+      return JSON.parse(match(string))
+    }
+
+    if (char === 't' || char === 'f' || char === 'n') {
+      return JSON.parse(match(literal))
+    }
+
+    const digits = match(number)
+    return /[.eE]/.test(digits) ? toFloat(Number(digits)) : toInteger(BigInt(digits))
+  }
+
+  return read()
+}
+
+/**
+ * MessagePack
+ * bin and ext values map to { $bin } and { $ext, data } objects so they survive a round trip
+ */
+function msgpackDecode(buffer: Buffer): DecodedPayload {
+  let offset = 0
+  let exact = true
+
+  const take = (length: number) => {
+    if (offset + length > buffer.length) {
+      throw new Error('Truncated MessagePack value')
+    }
+    const slice = buffer.subarray(offset, offset + length)
+    offset += length
+    return slice
+  }
+
+  const readArray = (length: number): unknown[] => Array.from({ length }, () => read())
+
+  const readMap = (length: number) => {
+    const entries: Array<[string, unknown]> = []
+    for (let i = 0; i < length; i++) {
+      const key = read()
+      entries.push([typeof key === 'string' ? key : toJsonText(key, ''), read()])
+    }
+    return Object.fromEntries(entries)
+  }
+
+  const readString = (length: number) => {
+    const bytes = take(length)
+    const text = toUtf8(bytes)
+    if (text === null) {
+      exact = false
+    }
+    return text ?? bytes.toString('utf8')
+  }
+
+  const readExt = (length: number) => {
+    const type = take(1).readInt8(0)
+    return { $ext: type, data: take(length).toString('base64') }
+  }
+
+  const read = (): unknown => {
+    const byte = take(1)[0]
+
+    if (byte <= 0x7f) return byte
+    if (byte >= 0xe0) return byte - 0x100
+    if (byte >= 0x80 && byte <= 0x8f) return readMap(byte & 0x0f)
+    if (byte >= 0x90 && byte <= 0x9f) return readArray(byte & 0x0f)
+    if (byte >= 0xa0 && byte <= 0xbf) return readString(byte & 0x1f)
+
+    switch (byte) {
+      case 0xc0: return null
+      case 0xc2: return false
+      case 0xc3: return true
+      case 0xc4: return { $bin: take(take(1).readUInt8(0)).toString('base64') }
+      case 0xc5: return { $bin: take(take(2).readUInt16BE(0)).toString('base64') }
+      case 0xc6: return { $bin: take(take(4).readUInt32BE(0)).toString('base64') }
+      case 0xc7: return readExt(take(1).readUInt8(0))
+      case 0xc8: return readExt(take(2).readUInt16BE(0))
+      case 0xc9: return readExt(take(4).readUInt32BE(0))
+      case 0xca: return toFloat(take(4).readFloatBE(0))
+      case 0xcb: return toFloat(take(8).readDoubleBE(0))
+      case 0xcc: return take(1).readUInt8(0)
+      case 0xcd: return take(2).readUInt16BE(0)
+      case 0xce: return take(4).readUInt32BE(0)
+      case 0xcf: return toInteger(take(8).readBigUInt64BE(0))
+      case 0xd0: return take(1).readInt8(0)
+      case 0xd1: return take(2).readInt16BE(0)
+      case 0xd2: return take(4).readInt32BE(0)
+      case 0xd3: return toInteger(take(8).readBigInt64BE(0))
+      case 0xd4: return readExt(1)
+      case 0xd5: return readExt(2)
+      case 0xd6: return readExt(4)
+      case 0xd7: return readExt(8)
+      case 0xd8: return readExt(16)
+      case 0xd9: return readString(take(1).readUInt8(0))
+      case 0xda: return readString(take(2).readUInt16BE(0))
+      case 0xdb: return readString(take(4).readUInt32BE(0))
+      case 0xdc: return readArray(take(2).readUInt16BE(0))
+      case 0xdd: return readArray(take(4).readUInt32BE(0))
+      case 0xde: return readMap(take(2).readUInt16BE(0))
+      case 0xdf: return readMap(take(4).readUInt32BE(0))
+      default:
+        throw new Error(`Unknown MessagePack type 0x${byte.toString(16)}`)
+    }
+  }
+
+  const value = read()
+  if (offset !== buffer.length) {
+    throw new Error('Trailing bytes after MessagePack value')
+  }
+  return { value, exact }
+}
+
+function msgpackEncode(value: unknown): Buffer {
+  const parts: Buffer[] = []
+
+  const header = (byte: number, length: number, size: 1 | 2 | 4) => {
+    const buffer = Buffer.alloc(1 + size)
+    buffer[0] = byte
+    if (size === 1) buffer.writeUInt8(length, 1)
+    if (size === 2) buffer.writeUInt16BE(length, 1)
+    if (size === 4) buffer.writeUInt32BE(length, 1)
+    parts.push(buffer)
+  }
+
+  const writeLength = (length: number, fix: number | null, fixMax: number, codes: [number, number, number]) => {
+    if (fix !== null && length <= fixMax) {
+      parts.push(Buffer.from([fix | length]))
+    } else if (codes[0] && length <= 0xff) {
+      header(codes[0], length, 1)
+    } else if (length <= 0xffff) {
+      header(codes[1], length, 2)
+    } else {
+      header(codes[2], length, 4)
+    }
+  }
+
+  const writeNumber = (num: number) => {
+    if (!Number.isInteger(num)) {
+      const buffer = Buffer.alloc(9)
+      buffer[0] = 0xcb
+      buffer.writeDoubleBE(num, 1)
+      parts.push(buffer)
+      return
+    }
+
+    if (num >= 0 && num <= 0x7f) {
+      parts.push(Buffer.from([num]))
+    } else if (num < 0 && num >= -32) {
+      parts.push(Buffer.from([num + 0x100]))
+    } else if (num >= 0) {
+      const buffer = Buffer.alloc(9)
+      buffer[0] = 0xcf
+      buffer.writeBigUInt64BE(BigInt(num), 1)
+      parts.push(num <= 0xffffffff ? Buffer.from([0xce, ...buffer.subarray(5)]) : buffer)
+    } else {
+      const buffer = Buffer.alloc(9)
+      buffer[0] = 0xd3
+      buffer.writeBigInt64BE(BigInt(num), 1)
+      parts.push(buffer)
+    }
+  }
+
+  const writeBigInt = (num: bigint) => {
+    const buffer = Buffer.alloc(9)
+    if (num >= BigInt(0) && num < BigInt(2) ** BigInt(64)) {
+      buffer[0] = 0xcf
+      buffer.writeBigUInt64BE(num, 1)
+    } else if (num < BigInt(0) && num >= -(BigInt(2) ** BigInt(63))) {
+      buffer[0] = 0xd3
+      buffer.writeBigInt64BE(num, 1)
+    } else {
+      throw new Error(`${num} does not fit in a MessagePack integer`)
+    }
+    parts.push(buffer)
+  }
+
+  const write = (item: unknown) => {
+    if (item === null || item === undefined) {
+      parts.push(Buffer.from([0xc0]))
+    } else if (typeof item === 'boolean') {
+      parts.push(Buffer.from([item ? 0xc3 : 0xc2]))
+    } else if (typeof item === 'number') {
+      writeNumber(item)
+    } else if (typeof item === 'bigint') {
+      writeBigInt(item)
+    } else if (item instanceof FloatValue) {
+      const buffer = Buffer.alloc(9)
+      buffer[0] = 0xcb
+      buffer.writeDoubleBE(item.value, 1)
+      parts.push(buffer)
+    } else if (typeof item === 'string') {
+      const bytes = Buffer.from(item, 'utf8')
+      writeLength(bytes.length, 0xa0, 31, [0xd9, 0xda, 0xdb])
+      parts.push(bytes)
+    } else if (Array.isArray(item)) {
+      writeLength(item.length, 0x90, 15, [0, 0xdc, 0xdd])
+      item.forEach(write)
+    } else if (typeof item === 'object') {
+      const record = item as Record<string, unknown>
+      const keys = Object.keys(record)
+
+      if (keys.length === 1 && typeof record.$bin === 'string') {
+        const bytes = Buffer.from(record.$bin, 'base64')
+        writeLength(bytes.length, null, 0, [0xc4, 0xc5, 0xc6])
+        parts.push(bytes)
+        return
+      }
+
+      if (keys.length === 2 && typeof record.$ext === 'number' && typeof record.data === 'string') {
+        const bytes = Buffer.from(record.data, 'base64')
+        writeLength(bytes.length, null, 0, [0xc7, 0xc8, 0xc9])
+        const type = Buffer.alloc(1)
+        type.writeInt8(record.$ext, 0)
+        parts.push(type, bytes)
+        return
+      }
+
+      writeLength(keys.length, 0x80, 15, [0, 0xde, 0xdf])
+      keys.forEach(key => {
+        write(key)
+        write(record[key])
+      })
+    } else {
+      throw new Error(`Cannot encode ${typeof item} as MessagePack`)
+    }
+  }
+
+  write(value)
+  return Buffer.concat(parts)
+}
+
+/**
+ * PHP serialize() format
+ * Objects become { __class, ...properties }; arrays with keys 0..n-1 become JSON arrays
+ */
+function phpUnserialize(buffer: Buffer): DecodedPayload {
+  let offset = 0
+  let exact = true
+
+  const expect = (char: string) => {
+    if (buffer.toString('latin1', offset, offset + 1) !== char) {
+      throw new Error(`Expected "${char}" at offset ${offset}`)
+    }
+    offset++
+  }
+
+  const readUntil = (char: string) => {
+    const end = buffer.indexOf(char, offset, 'latin1')
+    if (end === -1) {
+      throw new Error('Unterminated PHP value')
+    }
+    const value = buffer.toString('utf8', offset, end)
+    offset = end + 1
+    return value
+  }
+
+  const readString = () => {
+    const length = parseInt(readUntil(':'), 10)
+    expect('"')
+    const bytes = buffer.subarray(offset, offset + length)
+    const value = toUtf8(bytes)
+    if (value === null) {
+      exact = false
+    }
+    offset += length
+    expect('"')
+    return value ?? bytes.toString('utf8')
+  }
+
+  const readEntries = () => {
+    const count = parseInt(readUntil(':'), 10)
+    expect('{')
+    const entries: Array<[string | number | bigint, unknown]> = []
+    for (let i = 0; i < count; i++) {
+      const key = read()
+      if (typeof key !== 'string' && typeof key !== 'number' && typeof key !== 'bigint') {
+        throw new Error('Invalid PHP array key')
+      }
+      entries.push([key, read()])
+    }
+    expect('}')
+    return entries
+  }
+
+  const read = (): unknown => {
+    const type = buffer.toString('latin1', offset, offset + 1)
+    offset++
+
+    if (type === 'N') {
+      expect(';')
+      return null
+    }
+
+    expect(':')
+    switch (type) {
+      case 'b':
+        return readUntil(';') === '1'
+      case 'i': {
+        const digits = readUntil(';')
+        if (!/^[+-]?\d+$/.test(digits)) {
+          throw new Error(`Invalid PHP integer "${digits}"`)
+        }
+        // PHP integers are 64-bit
+        return toInteger(BigInt(digits))
+      }
+      case 'd': {
+        const digits = readUntil(';')
+        return toFloat(PHP_SPECIAL_FLOATS.get(digits) ?? parseFloat(digits))
+      }
+      case 's': {
+        const value = readString()
+        expect(';')
+        return value
+      }
+      case 'a': {
+        const entries = readEntries()
+        const isList = entries.every(([key], index) => key === index)
+        return isList
+          ? entries.map(([, value]) => value)
+          : Object.fromEntries(entries.map(([key, value]) => [String(key), value]))
+      }
+      case 'O': {
+        const className = readString()
+        expect(':')
+        const entries = readEntries()
+        return { __class: className, ...Object.fromEntries(entries.map(([key, value]) => [String(key), value])) }
+      }
+      default:
+        throw new Error(`Unsupported PHP type "${type}"`)
+    }
+  }
+
+  const value = read()
+  if (offset !== buffer.length) {
+    throw new Error('Trailing bytes after PHP value')
+  }
+  return { value, exact }
+}
+
+function phpSerialize(value: unknown): string {
+  const str = (text: string) => `s:${Buffer.byteLength(text, 'utf8')}:"${text}";`
+  const key = (name: string) => (/^-?(0|[1-9]\d*)$/.test(name) ? `i:${name};` : str(name))
+
+  if (value === null || value === undefined) return 'N;'
+  if (typeof value === 'boolean') return `b:${value ? 1 : 0};`
+  if (typeof value === 'number') return Number.isInteger(value) ? `i:${value};` : `d:${value};`
+  if (typeof value === 'bigint') return `i:${value};`
+  if (value instanceof FloatValue) {
+    const number = value.value
+    const special = [...PHP_SPECIAL_FLOATS].find(([, float]) => Object.is(float, number))
+    return `d:${special ? special[0] : Object.is(number, -0) ? '-0' : number};`
+  }
+  if (typeof value === 'string') return str(value)
+
+  if (Array.isArray(value)) {
+    return `a:${value.length}:{${value.map((item, index) => `i:${index};${phpSerialize(item)}`).join('')}}`
+  }
+
+  if (typeof value === 'object') {
+    const { __class: className, ...properties } = value as Record<string, unknown>
+    const body = Object.entries(properties).map(([name, item]) => `${key(name)}${phpSerialize(item)}`).join('')
+    const count = Object.keys(properties).length
+
+    if (typeof className === 'string') {
+      return `O:${Buffer.byteLength(className, 'utf8')}:"${className}":${count}:{${body}}`
+    }
+    return `a:${count}:{${body}}`
+  }
+
+  throw new Error(`Cannot serialize ${typeof value} for PHP`)
+}
+
+/**
+ * Java serialization is not decoded into objects; list the class names and
+ * string constants found in the stream so the payload can at least be identified
+ */
+function describeJavaStream(buffer: Buffer): string {
+  const classes = new Set<string>()
+  const strings: string[] = []
+
+  for (let i = 4; i < buffer.length - 3; i++) {
+    const marker = buffer[i]
+    if (marker !== 0x72 && marker !== 0x74) {
+      continue
+    }
+
+    const length = buffer.readUInt16BE(i + 1)
+    if (length === 0 || i + 3 + length > buffer.length) {
+      continue
+    }
+
+    const text = toUtf8(buffer.subarray(i + 3, i + 3 + length))
+    if (text === null || !/^[\x20-\x7e\u00a0-\uffff]+$/.test(text)) {
+      continue
+    }
+
+    if (marker === 0x72 && /^[\w$.[;]+$/.test(text)) {
+      classes.add(text)
+    } else if (marker === 0x74) {
+      strings.push(text)
+    }
+    i += 2 + length
+  }
+
+  return [
+    `Java serialized stream, ${buffer.length} bytes (read-only)`,
+    '',
+    'Classes:',
+    ...(classes.size > 0 ? Array.from(classes).map(name => `  ${name}`) : ['  (none found)']),
+    '',
+    'Strings:',
+    ...(strings.length > 0 ? strings.slice(0, 100).map(text => `  ${JSON.stringify(text)}`) : ['  (none found)'])
+  ].join('\n')
+}
@@ -0,0 +1,137 @@
+/**
+ * Bulk Job Routes
+ * HTTP handlers for background delete, expire and persist jobs by pattern
+ */
+
+import { Elysia, t } from 'elysia'
+import { requireAuth } from '@/server/plugins/roles'
+import { startBulkJob, getBulkJobStatus, cancelBulkJob } from '@/server/controllers/bulk-job'
+import { getClientIP, getUserAgent } from '@/server/lib/audit'
+import { startBulkJobSchema } from '@/types'
+import type {
+  StartBulkJobRequestDto,
+  StartBulkJobResponseDto,
+  BulkJobStatusResponseDto,
+  CancelBulkJobResponseDto
+} from '@/types'
+
+function errorStatus(error?: string) {
+  if (error === 'Bulk job not found' || error === 'Connection not found') {
+    return 404
+  }
+  return error === 'Access denied' ? 403 : 400
+}
+
+/**
+ * Bulk job routes - require authentication, jobs that change keys require Editor or Admin role
+ */
+export const bulkJobRoutes = new Elysia({ prefix: '/bulk-jobs' })
+  .use(requireAuth())
+
+  /**
+   * Start a bulk job or a dry run
+   * POST /api/bulk-jobs
+   */
+  .post(
+    '/',
+    async ({ body, user, set, request }): Promise<StartBulkJobResponseDto> => {
+      try {
+        const data = body as StartBulkJobRequestDto
+
+        // Dry runs only count keys, anyone with access to the connection may run them
+        if (user?.role === 'viewer' && !data.dryRun) {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to modify keys'
+          }
+        }
+
+        const result = await startBulkJob(
+          user!.id,
+          user!.role,
+          data,
+          getClientIP(request),
+          getUserAgent(request)
+        )
+
+        if (!result.success) {
+          set.status = errorStatus(result.error)
+        }
+
+        return result
+      } catch (error) {
+        console.error('Start bulk job error:', error)
+        set.status = 500
+        return {
+          success: false,
+          error: 'Failed to start bulk job'
+        }
+      }
+    },
+    {
+      body: startBulkJobSchema
+    }
+  )
+
+  /**
+   * Get bulk job status
+   * GET /api/bulk-jobs/:id/status
+   */
+  .get(
+    '/:id/status',
+    async ({ params, user, set }): Promise<BulkJobStatusResponseDto> => {
+      try {
+        const result = await getBulkJobStatus(user!.id, params.id)
+
+        if (!result.success) {
+          set.status = errorStatus(result.error)
+        }
+
+        return result
+      } catch (error) {
+        console.error('Get bulk job status error:', error)
+        set.status = 500
+        return {
+          success: false,
+          error: 'Failed to get bulk job status'
+        }
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  )
+
+  /**
+   * Cancel a running bulk job
+   * POST /api/bulk-jobs/:id/cancel
+   */
+  .post(
+    '/:id/cancel',
+    async ({ params, user, set }): Promise<CancelBulkJobResponseDto> => {
+      try {
+        const result = await cancelBulkJob(user!.id, params.id)
+
+        if (!result.success) {
+          set.status = errorStatus(result.error)
+        }
+
+        return result
+      } catch (error) {
+        console.error('Cancel bulk job error:', error)
+        set.status = 500
+        return {
+          success: false,
+          error: 'Failed to cancel bulk job'
+        }
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  )
@@ -8,6 +8,8 @@ import { settingsRoutes, publicSettingsRoutes } from './settings'
 import { preferencesRoutes } from './preferences'
 import { healthRoutes } from './health'
 import { exportRoutes } from './export'
+import { migrationRoutes } from './migrations'
+import { bulkJobRoutes } from './bulk-jobs'
 
 /**
  * Main routes entry point
@@ -24,3 +26,5 @@ export const routes = new Elysia()
   .use(preferencesRoutes)
   .use(healthRoutes)
   .use(exportRoutes)
+  .use(migrationRoutes)
+  .use(bulkJobRoutes)
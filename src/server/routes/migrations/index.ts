@@ -0,0 +1,134 @@
+/**
+ * Migration Routes
+ * HTTP handlers for background keyspace migrations between connections
+ */
+
+import { Elysia, t } from 'elysia'
+import { requireAuth } from '@/server/plugins/roles'
+import { startMigration, getMigrationStatus, cancelMigration } from '@/server/controllers/migration'
+import { getClientIP, getUserAgent } from '@/server/lib/audit'
+import { startMigrationSchema } from '@/types'
+import type {
+  StartMigrationRequestDto,
+  StartMigrationResponseDto,
+  MigrationStatusResponseDto,
+  CancelMigrationResponseDto
+} from '@/types'
+
+function errorStatus(error?: string) {
+  if (error === 'Migration not found' || error === 'Connection not found') {
+    return 404
+  }
+  return error === 'Access denied' ? 403 : 400
+}
+
+/**
+ * Migration routes - require authentication, starting one requires Editor or Admin role
+ */
+export const migrationRoutes = new Elysia({ prefix: '/migrations' })
+  .use(requireAuth())
+
+  /**
+   * Start a migration job
+   * POST /api/migrations
+   */
+  .post(
+    '/',
+    async ({ body, user, set, request }): Promise<StartMigrationResponseDto> => {
+      try {
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to migrate keys'
+          }
+        }
+
+        const result = await startMigration(
+          user!.id,
+          user!.role,
+          body as StartMigrationRequestDto,
+          getClientIP(request),
+          getUserAgent(request)
+        )
+
+        if (!result.success) {
+          set.status = errorStatus(result.error)
+        }
+
+        return result
+      } catch (error) {
+        console.error('Start migration error:', error)
+        set.status = 500
+        return {
+          success: false,
+          error: 'Failed to start migration'
+        }
+      }
+    },
+    {
+      body: startMigrationSchema
+    }
+  )
+
+  /**
+   * Get migration status
+   * GET /api/migrations/:id/status
+   */
+  .get(
+    '/:id/status',
+    async ({ params, user, set }): Promise<MigrationStatusResponseDto> => {
+      try {
+        const result = await getMigrationStatus(user!.id, params.id)
+
+        if (!result.success) {
+          set.status = errorStatus(result.error)
+        }
+
+        return result
+      } catch (error) {
+        console.error('Get migration status error:', error)
+        set.status = 500
+        return {
+          success: false,
+          error: 'Failed to get migration status'
+        }
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  )
+
+  /**
+   * Cancel a running migration
+   * POST /api/migrations/:id/cancel
+   */
+  .post(
+    '/:id/cancel',
+    async ({ params, user, set }): Promise<CancelMigrationResponseDto> => {
+      try {
+        const result = await cancelMigration(user!.id, params.id)
+
+        if (!result.success) {
+          set.status = errorStatus(result.error)
+        }
+
+        return result
+      } catch (error) {
+        console.error('Cancel migration error:', error)
+        set.status = 500
+        return {
+          success: false,
+          error: 'Failed to cancel migration'
+        }
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  )
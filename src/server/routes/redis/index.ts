@@ -4,6 +4,7 @@
  */
 
 import { Elysia, t } from 'elysia'
+import type Redis from 'ioredis'
 import { requireAuth } from '@/server/plugins/roles'
 import { db } from '@/db'
 import { connections } from '@/db/schema'
@@ -13,37 +14,199 @@ import { getRedisConnection } from '@/server/lib/redis-pool'
 import {
   listKeys,
   getKey,
+  decodeKeyValue,
   createKey,
   updateKey,
   deleteKey,
   setTtl,
   renameKey,
   bulkDelete,
+  copyKeys,
+  getNamespace,
+  deleteKeysByPrefix,
+  setTtlByPrefix,
+  getHashFields,
+  getListItems,
+  getSetMembers,
+  getZSetMembers,
+  setHashFields,
+  deleteHashFields,
+  renameHashField,
+  pushListItems,
+  popListItems,
+  setListItem,
+  insertListItem,
+  removeListItems,
+  addSetMembers,
+  removeSetMembers,
+  renameSetMember,
+  addZSetMembers,
+  incrementZSetMember,
+  removeZSetMembers,
+  renameZSetMember,
+  getJsonValue,
+  setJsonValue,
+  appendJsonArray,
+  deleteJsonPath,
+  getTimeSeriesRange,
+  getTimeSeriesMRange,
+  addTimeSeriesSample,
+  deleteTimeSeriesSamples,
+  addProbabilisticItems,
+  queryProbabilisticItems,
+  deleteCuckooItems,
+  mergeHyperLogLogs,
+  getBitmapPage,
+  getBitmapPosition,
+  setBitmapBit,
+  getGeoMembers,
+  searchGeoMembers,
+  addGeoMembers,
+  getStreamRange,
+  addStreamEntry,
+  deleteStreamEntries,
+  trimStream,
+  listStreamGroups,
+  listStreamConsumers,
+  getStreamPending,
+  createStreamGroup,
+  destroyStreamGroup,
+  setStreamGroupId,
+  ackStreamEntries,
+  claimStreamEntries,
   listDatabases,
   getDatabaseInfo,
   getRedisInfo,
+  listModules,
   selectDatabase,
   flushDatabase,
   flushAll
 } from '@/server/controllers/redis'
 import {
   listKeysSchema,
+  databaseQuerySchema,
   getKeySchema,
+  decodeValueSchema,
   createKeySchema,
   updateKeySchema,
   deleteKeySchema,
   setTtlSchema,
   renameKeySchema,
   bulkDeleteSchema,
+  copyKeysSchema,
+  namespaceQuerySchema,
+  prefixBulkSchema,
+  prefixTtlSchema,
+  prefixExportSchema,
+  collectionPageSchema,
+  hashSetFieldsSchema,
+  hashDeleteFieldsSchema,
+  hashRenameFieldSchema,
+  listPushItemsSchema,
+  listPopItemsSchema,
+  listSetItemSchema,
+  listInsertItemSchema,
+  listRemoveItemsSchema,
+  setMembersSchema,
+  setRenameMemberSchema,
+  zsetAddMembersSchema,
+  zsetIncrementSchema,
+  zsetRemoveMembersSchema,
+  zsetRenameMemberSchema,
+  jsonPathQuerySchema,
+  jsonSetSchema,
+  jsonArrAppendSchema,
+  jsonDeleteSchema,
+  timeSeriesRangeSchema,
+  timeSeriesMRangeSchema,
+  timeSeriesAddSchema,
+  timeSeriesDeleteSchema,
+  probabilisticAddSchema,
+  probabilisticQuerySchema,
+  cuckooDeleteSchema,
+  hyperLogLogMergeSchema,
+  bitmapPageSchema,
+  bitmapPositionSchema,
+  bitmapSetBitSchema,
+  geoPageSchema,
+  geoSearchSchema,
+  geoAddSchema,
+  streamRangeSchema,
+  streamAddEntrySchema,
+  streamDeleteEntriesSchema,
+  streamTrimSchema,
+  streamPendingSchema,
+  createStreamGroupSchema,
+  setStreamGroupIdSchema,
+  streamAckSchema,
+  streamClaimSchema,
   selectDatabaseSchema,
   flushDatabaseSchema,
-  flushAllSchema
+  flushAllSchema,
+  createSearchIndexSchema,
+  dropSearchIndexSchema,
+  searchQuerySchema,
+  aggregateQuerySchema,
+  compareKeyspacesSchema,
+  keyDiffSchema,
+  syncKeysSchema,
+  listDeletedKeysSchema,
+  restoreDeletedKeySchema,
+  keyHistoryQuerySchema,
+  rollbackKeySchema,
+  changeSetSchema,
+  applyChangeSetSchema,
+  listPubSubChannelsSchema,
+  pubSubSubscribeSchema,
+  publishMessageSchema,
+  updateKeyspaceNotificationsSchema,
+  keyspaceEventsSchema,
+  executeCommandSchema,
+  monitorSchema
 } from '@/types'
+import { exportKeysByPrefix } from '@/server/controllers/export'
+import {
+  listSearchIndexes,
+  getSearchIndex,
+  createSearchIndex,
+  dropSearchIndex,
+  searchIndex,
+  aggregateIndex
+} from '@/server/controllers/search'
+import { compareKeyspaces, diffKey, syncKeys } from '@/server/controllers/compare'
+import {
+  captureDeletedKeys,
+  prepareDeletedKeys,
+  listDeletedKeys,
+  restoreDeletedKey,
+  purgeDeletedKeys
+} from '@/server/controllers/recycle-bin'
+import {
+  readKeySnapshot,
+  recordKeyHistory,
+  getKeyHistory,
+  rollbackKey
+} from '@/server/controllers/key-history'
+import { previewChangeSet, applyChangeSet, changeSetKeys } from '@/server/controllers/change-set'
+import { listPubSubChannels, openPubSubStream, publishMessage } from '@/server/controllers/pubsub'
+import {
+  getKeyspaceNotifications,
+  updateKeyspaceNotifications,
+  openKeyspaceEventStream
+} from '@/server/controllers/keyspace-events'
+import { executeCommand, getCliHistory, appendCliHistory, clearCliHistory } from '@/server/controllers/cli'
+import { splitCommandLine } from '@/server/lib/command-args'
+import { checkCommandPermission, auditCommandArgs, hasSecretArgs } from '@/server/lib/command-policy'
+import { openMonitorStream } from '@/server/controllers/monitor'
+import { eventStreamResponse } from '@/server/lib/event-stream'
+import { toKeyName, displayKeyName, describeBinary, type KeyName } from '@/server/lib/redis-binary'
 import { logAudit, getClientIP, getUserAgent } from '@/server/lib/audit'
 import type { 
   ListKeysQueryDto,
   ListKeysResponseDto,
   GetKeyResponseDto,
+  DecodeValueQueryDto,
+  DecodedValueResponseDto,
   CreateKeyRequestDto,
   CreateKeyResponseDto,
   UpdateKeyRequestDto,
@@ -55,13 +218,128 @@ import type {
   RenameKeyResponseDto,
   BulkDeleteRequestDto,
   BulkDeleteResponseDto,
+  CopyKeysRequestDto,
+  CopyKeysResponseDto,
+  NamespaceQueryDto,
+  NamespaceResponseDto,
+  PrefixBulkRequestDto,
+  PrefixTtlRequestDto,
+  PrefixExportRequestDto,
+  PrefixBulkResponseDto,
+  CollectionPageQueryDto,
+  HashFieldsPageResponseDto,
+  ListItemsPageResponseDto,
+  SetMembersPageResponseDto,
+  ZSetMembersPageResponseDto,
+  HashSetFieldsRequestDto,
+  HashDeleteFieldsRequestDto,
+  HashRenameFieldRequestDto,
+  ListPushItemsRequestDto,
+  ListPopItemsRequestDto,
+  ListSetItemRequestDto,
+  ListInsertItemRequestDto,
+  ListRemoveItemsRequestDto,
+  SetMembersRequestDto,
+  SetRenameMemberRequestDto,
+  ZSetAddMembersRequestDto,
+  ZSetIncrementRequestDto,
+  ZSetRemoveMembersRequestDto,
+  ZSetRenameMemberRequestDto,
+  JsonPathQueryDto,
+  JsonValueResponseDto,
+  JsonSetRequestDto,
+  JsonArrAppendRequestDto,
+  JsonDeleteRequestDto,
+  TimeSeriesRangeQueryDto,
+  TimeSeriesRangeResponseDto,
+  TimeSeriesMRangeQueryDto,
+  TimeSeriesMRangeResponseDto,
+  TimeSeriesAddRequestDto,
+  TimeSeriesDeleteRequestDto,
+  ProbabilisticAddRequestDto,
+  ProbabilisticQueryDto,
+  ProbabilisticQueryResponseDto,
+  CuckooDeleteRequestDto,
+  HyperLogLogMergeRequestDto,
+  BitmapPageQueryDto,
+  BitmapPageResponseDto,
+  BitmapPositionQueryDto,
+  BitmapPositionResponseDto,
+  BitmapSetBitRequestDto,
+  GeoPageQueryDto,
+  GeoMembersPageResponseDto,
+  GeoSearchQueryDto,
+  GeoSearchResponseDto,
+  GeoAddRequestDto,
+  ElementEditResponseDto,
+  StreamRangeQueryDto,
+  StreamRangeResponseDto,
+  StreamAddEntryRequestDto,
+  StreamAddEntryResponseDto,
+  StreamDeleteEntriesRequestDto,
+  StreamDeleteEntriesResponseDto,
+  StreamTrimRequestDto,
+  StreamTrimResponseDto,
+  ListStreamGroupsResponseDto,
+  ListStreamConsumersResponseDto,
+  StreamPendingQueryDto,
+  StreamPendingResponseDto,
+  CreateStreamGroupRequestDto,
+  SetStreamGroupIdRequestDto,
+  StreamGroupResponseDto,
+  StreamAckRequestDto,
+  StreamAckResponseDto,
+  StreamClaimRequestDto,
+  StreamClaimResponseDto,
   ListDatabasesResponseDto,
   GetDatabaseInfoResponseDto,
   RedisInfoResponseDto,
+  ListModulesResponseDto,
   SelectDatabaseRequestDto,
   SelectDatabaseResponseDto,
   FlushDatabaseResponseDto,
-  FlushAllResponseDto
+  FlushAllResponseDto,
+  ListSearchIndexesResponseDto,
+  GetSearchIndexResponseDto,
+  CreateSearchIndexRequestDto,
+  DropSearchIndexQueryDto,
+  SearchIndexResponseDto,
+  SearchQueryDto,
+  SearchResponseDto,
+  AggregateQueryDto,
+  AggregateResponseDto,
+  CompareKeyspacesRequestDto,
+  CompareKeyspacesResponseDto,
+  KeyDiffQueryDto,
+  KeyDiffResponseDto,
+  SyncKeysRequestDto,
+  SyncKeysResponseDto,
+  ListDeletedKeysQueryDto,
+  ListDeletedKeysResponseDto,
+  RestoreDeletedKeyRequestDto,
+  RestoreDeletedKeyResponseDto,
+  PurgeDeletedKeysResponseDto,
+  KeyHistoryQueryDto,
+  KeySnapshot,
+  KeyHistoryResponseDto,
+  RollbackKeyRequestDto,
+  RollbackKeyResponseDto,
+  ChangeSetRequestDto,
+  ApplyChangeSetRequestDto,
+  PreviewChangeSetResponseDto,
+  ApplyChangeSetResponseDto,
+  ListPubSubChannelsQueryDto,
+  ListPubSubChannelsResponseDto,
+  PubSubSubscribeQueryDto,
+  PublishMessageRequestDto,
+  PublishMessageResponseDto,
+  KeyspaceNotificationsResponseDto,
+  UpdateKeyspaceNotificationsRequestDto,
+  KeyspaceEventsQueryDto,
+  ExecuteCommandRequestDto,
+  ExecuteCommandResponseDto,
+  CliHistoryResponseDto,
+  MonitorQueryDto
 } from '@/types'
 
 /**
@@ -117,6 +395,11 @@ function applyRedisErrorStatus(set: { status?: number | string }, message: strin
     return
   }
 
+  if (message === 'Invalid hex key') {
+    set.status = 400
+    return
+  }
+
   if (
     message.startsWith('Insufficient permissions') ||
     message.startsWith('Admin privileges required')
@@ -125,6 +408,54 @@ function applyRedisErrorStatus(set: { status?: number | string }, message: strin
   }
 }
 
+/**
+ * Log one audit entry for an element edit (hash fields, set or sorted set members, a list operation),
+ * listing every edited element when there are several.
+ * With `history` the edit is also recorded in the key history, against the snapshot taken before it.
+ */
+async function logElementAudit(
+  action: string,
+  elements: Array<Record<string, unknown>>,
+  context: {
+    userId: string
+    connId: string
+    key: KeyName
+    db?: number
+    request: Request
+    history?: { redis: Redis; before: KeySnapshot | null }
+  }
+) {
+  const { userId, connId, key, db, request, history } = context
+
+  // Same resource id the key routes log, the hex form for binary names
+  const auditLogId = await logAudit({
+    userId,
+    action,
+    resourceType: 'key',
+    resourceId: typeof key === 'string' ? key : key.toString('hex'),
+    resourceName: displayKeyName(key),
+    details: JSON.stringify({
+      ...(elements.length === 1 ? elements[0] : { elements, count: elements.length }),
+      database: db || 0,
+      connectionId: connId
+    }),
+    ipAddress: getClientIP(request),
+    userAgent: getUserAgent(request)
+  })
+
+  if (history) {
+    await recordKeyHistory(history.redis, {
+      connectionId: connId,
+      database: db || 0,
+      key,
+      operation: 'update',
+      before: history.before,
+      userId,
+      auditLogId
+    })
+  }
+}
+
 /**
  * Redis operations routes
  * All routes require authentication
@@ -183,7 +514,7 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
         )
 
         const redis = await getRedisConnection(connectionConfig, query?.db)
-        const result = await getKey(redis, params.key, query?.db)
+        const result = await getKey(redis, toKeyName(params.key, query?.keyEncoding), query?.db)
         
         return result as GetKeyResponseDto
       } catch (error) {
@@ -204,6 +535,42 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
     }
   )
 
+  /**
+   * Decode a string value or hash field (JSON, MessagePack, gzip, base64, ...)
+   * GET /api/redis/:connId/key/:key/decode
+   */
+  .get(
+    '/:connId/key/:key/decode',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await decodeKeyValue(redis, toKeyName(params.key, query?.keyEncoding), query as DecodeValueQueryDto)
+
+        return result as DecodedValueResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to decode value'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as DecodedValueResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: decodeValueSchema
+    }
+  )
+
   /**
    * Create a new key
    * POST /api/redis/:connId/key
@@ -232,7 +599,7 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
 
         // Log key creation
         if (result.success) {
-          await logAudit({
+          const auditLogId = await logAudit({
             userId: user!.id,
             action: 'key.created',
             resourceType: 'key',
@@ -246,6 +613,15 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
             ipAddress: getClientIP(request),
             userAgent: getUserAgent(request)
           })
+          await recordKeyHistory(redis, {
+            connectionId: params.connId,
+            database: body.db || 0,
+            key: body.key,
+            operation: 'create',
+            before: null,
+            userId: user!.id,
+            auditLogId
+          })
         }
 
         return result as CreateKeyResponseDto
@@ -267,7 +643,7 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
   )
 
   /**
-   * Update an existing key
+   * Update an existing key, 409 when it changed since the version it was loaded at
    * PUT /api/redis/:connId/key/:key
    */
   .put(
@@ -289,24 +665,39 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
           user!.role
         )
 
+        const key = toKeyName(params.key, body.keyEncoding)
         const redis = await getRedisConnection(connectionConfig, (body as UpdateKeyRequestDto)?.db)
-        const result = await updateKey(redis, params.key, body as UpdateKeyRequestDto)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await updateKey(redis, key, body as UpdateKeyRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
         
         // Log key update
         if (result.success) {
-          await logAudit({
+          const auditLogId = await logAudit({
             userId: user!.id,
             action: 'key.updated',
             resourceType: 'key',
             resourceId: params.key,
-            resourceName: params.key,
+            resourceName: displayKeyName(key),
             details: JSON.stringify({
               database: body.db || 0,
-              connectionId: params.connId
+              connectionId: params.connId,
+              codecs: body.codecs
             }),
             ipAddress: getClientIP(request),
             userAgent: getUserAgent(request)
           })
+          await recordKeyHistory(redis, {
+            connectionId: params.connId,
+            database: body.db || 0,
+            key,
+            operation: 'update',
+            before,
+            userId: user!.id,
+            auditLogId
+          })
         }
         
         return result as UpdateKeyResponseDto
@@ -351,8 +742,16 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
           user!.role
         )
 
+        const key = toKeyName(params.key, query?.keyEncoding)
         const redis = await getRedisConnection(connectionConfig, query?.db)
-        const result = await deleteKey(redis, params.key, query?.db)
+        const result = await deleteKey(redis, key, query?.db, (keys) =>
+          captureDeletedKeys(redis, keys, {
+            connectionId: params.connId,
+            database: query?.db || 0,
+            userId: user!.id,
+            source: 'key'
+          })
+        )
         
         // Log key deletion
         if (result.success) {
@@ -361,7 +760,7 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
             action: 'key.deleted',
             resourceType: 'key',
             resourceId: params.key,
-            resourceName: params.key,
+            resourceName: displayKeyName(key),
             details: JSON.stringify({
               database: query?.db || 0,
               connectionId: params.connId
@@ -396,7 +795,7 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
    */
   .patch(
     '/:connId/key/:key/ttl',
-    async ({ params, body, user, set }) => {
+    async ({ params, body, user, set, request }) => {
       try {
         // Check user permissions - only Editors and Admins can modify TTL
         if (user?.role === 'viewer') {
@@ -413,8 +812,37 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
           user!.role
         )
 
+        const key = toKeyName(params.key, body.keyEncoding)
         const redis = await getRedisConnection(connectionConfig, (body as SetTtlRequestDto)?.db)
-        const result = await setTtl(redis, params.key, body as SetTtlRequestDto)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await setTtl(redis, key, body as SetTtlRequestDto)
+
+        // Log TTL change
+        if (result.success) {
+          const auditLogId = await logAudit({
+            userId: user!.id,
+            action: 'key.ttl_set',
+            resourceType: 'key',
+            resourceId: params.key,
+            resourceName: displayKeyName(key),
+            details: JSON.stringify({
+              ttl: result.ttl ?? null,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+          await recordKeyHistory(redis, {
+            connectionId: params.connId,
+            database: body.db || 0,
+            key,
+            operation: 'ttl',
+            before,
+            userId: user!.id,
+            auditLogId
+          })
+        }
         
         return result as SetTtlResponseDto
       } catch (error) {
@@ -458,25 +886,38 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
           user!.role
         )
 
+        const key = toKeyName(params.key, body.keyEncoding)
         const redis = await getRedisConnection(connectionConfig, (body as RenameKeyRequestDto)?.db)
-        const result = await renameKey(redis, params.key, body as RenameKeyRequestDto)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await renameKey(redis, key, body as RenameKeyRequestDto)
         
         // Log key rename
         if (result.success) {
-          await logAudit({
+          const newKey = toKeyName(body.newKey, body.newKeyEncoding)
+          const auditLogId = await logAudit({
             userId: user!.id,
             action: 'key.renamed',
             resourceType: 'key',
             resourceId: params.key,
-            resourceName: params.key,
+            resourceName: displayKeyName(key),
             details: JSON.stringify({
-              newKey: body.newKey,
+              newKey: displayKeyName(newKey),
               database: body.db || 0,
               connectionId: params.connId
             }),
             ipAddress: getClientIP(request),
             userAgent: getUserAgent(request)
           })
+          await recordKeyHistory(redis, {
+            connectionId: params.connId,
+            database: body.db || 0,
+            key: newKey,
+            operation: 'rename',
+            before,
+            userId: user!.id,
+            auditLogId,
+            renamedFrom: key
+          })
         }
         
         return result as RenameKeyResponseDto
@@ -499,20 +940,55 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
   )
 
   /**
-   * Bulk delete keys
-   * POST /api/redis/:connId/keys/delete
+   * Get the edit history of a key
+   * GET /api/redis/:connId/key/:key/history
+   */
+  .get(
+    '/:connId/key/:key/history',
+    async ({ params, query, user, set }) => {
+      try {
+        // Resolves the connection first so access is checked like any other read
+        await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, query?.keyEncoding)
+        return await getKeyHistory(params.connId, key, query as KeyHistoryQueryDto)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to load key history'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as KeyHistoryResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: keyHistoryQuerySchema
+    }
+  )
+
+  /**
+   * Roll a key back to a version from its history
+   * POST /api/redis/:connId/key/:key/history/:historyId/rollback
    */
   .post(
-    '/:connId/keys/delete',
+    '/:connId/key/:key/history/:historyId/rollback',
     async ({ params, user, set, request, body }) => {
       try {
-        // Check user permissions - only Editors and Admins can delete keys
+        // Check user permissions - only Editors and Admins can roll back keys
         if (user?.role === 'viewer') {
           set.status = 403
           return {
             success: false,
-            error: 'Insufficient permissions to delete keys'
-          } as BulkDeleteResponseDto
+            error: 'Insufficient permissions to roll back keys'
+          } as RollbackKeyResponseDto
         }
 
         const connectionConfig = await getConnectionConfig(
@@ -521,53 +997,75 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
           user!.role
         )
 
-        const redis = await getRedisConnection(connectionConfig, (body as BulkDeleteRequestDto)?.db)
-        const result = await bulkDelete(redis, body as BulkDeleteRequestDto)
-        
-        // Log bulk delete
+        const data = body as RollbackKeyRequestDto
+        const key = toKeyName(params.key, data.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, data.db)
+        const before = await readKeySnapshot(redis, key, data.db || 0)
+        const result = await rollbackKey(redis, params.connId, key, params.historyId, data, (keys) =>
+          captureDeletedKeys(redis, keys, {
+            connectionId: params.connId,
+            database: data.db || 0,
+            userId: user!.id,
+            source: 'key'
+          })
+        )
+
         if (result.success) {
-          await logAudit({
+          const auditLogId = await logAudit({
             userId: user!.id,
-            action: 'bulk.keys_deleted',
+            action: 'key.rolled_back',
             resourceType: 'key',
-            resourceId: params.connId,
-            resourceName: `Bulk Delete (${result.deleted} keys)`,
+            resourceId: params.key,
+            resourceName: displayKeyName(key),
             details: JSON.stringify({
-              deleted: result.deleted,
-              failed: result.failed?.length || 0,
-              database: body.db || 0,
+              historyId: params.historyId,
+              version: data.version || 'before',
+              database: data.db || 0,
               connectionId: params.connId
             }),
             ipAddress: getClientIP(request),
             userAgent: getUserAgent(request)
           })
+          await recordKeyHistory(redis, {
+            connectionId: params.connId,
+            database: data.db || 0,
+            key,
+            operation: 'rollback',
+            before,
+            userId: user!.id,
+            auditLogId
+          })
+        } else if (result.error === 'History entry not found') {
+          set.status = 404
         }
-        
-        return result as BulkDeleteResponseDto
+
+        return result
       } catch (error) {
-        const message = error instanceof Error ? error.message : 'Failed to bulk delete keys'
+        const message = error instanceof Error ? error.message : 'Failed to roll back key'
         applyRedisErrorStatus(set, message)
         return {
           success: false,
           error: message
-        } as BulkDeleteResponseDto
+        } as RollbackKeyResponseDto
       }
     },
     {
       params: t.Object({
-        connId: t.String()
+        connId: t.String(),
+        key: t.String(),
+        historyId: t.String()
       }),
-      body: bulkDeleteSchema
+      body: rollbackKeySchema
     }
   )
 
   /**
-   * List all databases with statistics
-   * GET /api/redis/:connId/databases
+   * Page through hash fields (HSCAN)
+   * GET /api/redis/:connId/key/:key/hash/fields
    */
   .get(
-    '/:connId/info',
-    async ({ params, user, set }) => {
+    '/:connId/key/:key/hash/fields',
+    async ({ params, query, user, set }) => {
       try {
         const connectionConfig = await getConnectionConfig(
           params.connId,
@@ -575,17 +1073,4366 @@ export const redisRoutes = new Elysia({ prefix: '/redis' })
           user!.role
         )
 
-        const redis = await getRedisConnection(connectionConfig)
-        const result = await getRedisInfo(redis)
+        const redis = await getRedisConnection(connectionConfig, (query as CollectionPageQueryDto)?.db)
+        const result = await getHashFields(redis, toKeyName(params.key, query?.keyEncoding), query as CollectionPageQueryDto)
 
-        return result as RedisInfoResponseDto
+        return result as HashFieldsPageResponseDto
       } catch (error) {
-        const message = error instanceof Error ? error.message : 'Failed to get Redis info'
+        const message = error instanceof Error ? error.message : 'Failed to read hash fields'
         applyRedisErrorStatus(set, message)
         return {
           success: false,
           error: message
-        } as RedisInfoResponseDto
+        } as HashFieldsPageResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: collectionPageSchema
+    }
+  )
+
+  /**
+   * Page through list items (LRANGE)
+   * GET /api/redis/:connId/key/:key/list/items
+   */
+  .get(
+    '/:connId/key/:key/list/items',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (query as CollectionPageQueryDto)?.db)
+        const result = await getListItems(redis, toKeyName(params.key, query?.keyEncoding), query as CollectionPageQueryDto)
+
+        return result as ListItemsPageResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read list items'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ListItemsPageResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: collectionPageSchema
+    }
+  )
+
+  /**
+   * Page through set members (SSCAN)
+   * GET /api/redis/:connId/key/:key/set/members
+   */
+  .get(
+    '/:connId/key/:key/set/members',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (query as CollectionPageQueryDto)?.db)
+        const result = await getSetMembers(redis, toKeyName(params.key, query?.keyEncoding), query as CollectionPageQueryDto)
+
+        return result as SetMembersPageResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read set members'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as SetMembersPageResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: collectionPageSchema
+    }
+  )
+
+  /**
+   * Page through sorted set members (ZRANGE, ZSCAN when filtered)
+   * GET /api/redis/:connId/key/:key/zset/members
+   */
+  .get(
+    '/:connId/key/:key/zset/members',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (query as CollectionPageQueryDto)?.db)
+        const result = await getZSetMembers(redis, toKeyName(params.key, query?.keyEncoding), query as CollectionPageQueryDto)
+
+        return result as ZSetMembersPageResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read sorted set members'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ZSetMembersPageResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: collectionPageSchema
+    }
+  )
+
+  /**
+   * Set hash fields (HSET, HSETNX with onlyIfNew)
+   * POST /api/redis/:connId/key/:key/hash/fields
+   */
+  .post(
+    '/:connId/key/:key/hash/fields',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as HashSetFieldsRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await setHashFields(redis, key, body as HashSetFieldsRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.hash_field_set', Object.keys(body.fields)
+            .filter(field => !result.skipped?.includes(field))
+            .map(field => ({ field })), {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to set hash fields'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: hashSetFieldsSchema
+    }
+  )
+
+  /**
+   * Delete hash fields (HDEL)
+   * POST /api/redis/:connId/key/:key/hash/fields/delete
+   */
+  .post(
+    '/:connId/key/:key/hash/fields/delete',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as HashDeleteFieldsRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await deleteHashFields(redis, key, body as HashDeleteFieldsRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.hash_field_deleted', body.fields.map(field => ({ field })), {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to delete hash fields'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: hashDeleteFieldsSchema
+    }
+  )
+
+  /**
+   * Rename a hash field
+   * POST /api/redis/:connId/key/:key/hash/fields/rename
+   */
+  .post(
+    '/:connId/key/:key/hash/fields/rename',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as HashRenameFieldRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await renameHashField(redis, key, body as HashRenameFieldRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.hash_field_renamed', [{ field: body.field, newField: body.newField }], {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to rename hash field'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: hashRenameFieldSchema
+    }
+  )
+
+  /**
+   * Push list items to the head or tail (LPUSH, RPUSH)
+   * POST /api/redis/:connId/key/:key/list/items
+   */
+  .post(
+    '/:connId/key/:key/list/items',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as ListPushItemsRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await pushListItems(redis, key, body as ListPushItemsRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.list_items_pushed', [{ position: body.position, count: body.values.length }], {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to push list items'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: listPushItemsSchema
+    }
+  )
+
+  /**
+   * Pop list items from the head or tail (LPOP, RPOP)
+   * POST /api/redis/:connId/key/:key/list/items/pop
+   */
+  .post(
+    '/:connId/key/:key/list/items/pop',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as ListPopItemsRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await popListItems(redis, key, body as ListPopItemsRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.list_items_popped', [{ position: body.position, count: result.affected }], {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to pop list items'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: listPopItemsSchema
+    }
+  )
+
+  /**
+   * Replace the list item at an index (LSET)
+   * POST /api/redis/:connId/key/:key/list/items/set
+   */
+  .post(
+    '/:connId/key/:key/list/items/set',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as ListSetItemRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await setListItem(redis, key, body as ListSetItemRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.list_item_set', [{ index: body.index }], {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to set list item'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: listSetItemSchema
+    }
+  )
+
+  /**
+   * Insert a list item next to a pivot (LINSERT)
+   * POST /api/redis/:connId/key/:key/list/items/insert
+   */
+  .post(
+    '/:connId/key/:key/list/items/insert',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as ListInsertItemRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await insertListItem(redis, key, body as ListInsertItemRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.list_item_inserted', [{ position: body.position }], {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to insert list item'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: listInsertItemSchema
+    }
+  )
+
+  /**
+   * Remove list items by value (LREM) or at an index
+   * POST /api/redis/:connId/key/:key/list/items/remove
+   */
+  .post(
+    '/:connId/key/:key/list/items/remove',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as ListRemoveItemsRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await removeListItems(redis, key, body as ListRemoveItemsRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.list_items_removed', [{ index: body.index, count: result.affected }], {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to remove list items'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: listRemoveItemsSchema
+    }
+  )
+
+  /**
+   * Add set members (SADD)
+   * POST /api/redis/:connId/key/:key/set/members
+   */
+  .post(
+    '/:connId/key/:key/set/members',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as SetMembersRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await addSetMembers(redis, key, body as SetMembersRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.set_member_added', body.members.map(member => ({ member })), {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to add set members'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: setMembersSchema
+    }
+  )
+
+  /**
+   * Remove set members (SREM)
+   * POST /api/redis/:connId/key/:key/set/members/delete
+   */
+  .post(
+    '/:connId/key/:key/set/members/delete',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as SetMembersRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await removeSetMembers(redis, key, body as SetMembersRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.set_member_removed', body.members.map(member => ({ member })), {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to remove set members'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: setMembersSchema
+    }
+  )
+
+  /**
+   * Replace a set member
+   * POST /api/redis/:connId/key/:key/set/members/rename
+   */
+  .post(
+    '/:connId/key/:key/set/members/rename',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as SetRenameMemberRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await renameSetMember(redis, key, body as SetRenameMemberRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.set_member_renamed', [{ member: body.member, newMember: body.newMember }], {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to rename set member'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: setRenameMemberSchema
+    }
+  )
+
+  /**
+   * Add or update sorted set members (ZADD)
+   * POST /api/redis/:connId/key/:key/zset/members
+   */
+  .post(
+    '/:connId/key/:key/zset/members',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as ZSetAddMembersRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await addZSetMembers(redis, key, body as ZSetAddMembersRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.zset_member_set', body.members.map(({ member, score }) => ({ member, score, condition: body.condition })), {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to add sorted set members'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: zsetAddMembersSchema
+    }
+  )
+
+  /**
+   * Increment a sorted set member score (ZINCRBY)
+   * POST /api/redis/:connId/key/:key/zset/members/incr
+   */
+  .post(
+    '/:connId/key/:key/zset/members/incr',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as ZSetIncrementRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await incrementZSetMember(redis, key, body as ZSetIncrementRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.zset_member_incremented', [{ member: body.member, increment: body.increment, score: result.score }], {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to increment score'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: zsetIncrementSchema
+    }
+  )
+
+  /**
+   * Remove sorted set members (ZREM)
+   * POST /api/redis/:connId/key/:key/zset/members/delete
+   */
+  .post(
+    '/:connId/key/:key/zset/members/delete',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as ZSetRemoveMembersRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await removeZSetMembers(redis, key, body as ZSetRemoveMembersRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.zset_member_removed', body.members.map(member => ({ member })), {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to remove sorted set members'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: zsetRemoveMembersSchema
+    }
+  )
+
+  /**
+   * Replace a sorted set member, keeping its score
+   * POST /api/redis/:connId/key/:key/zset/members/rename
+   */
+  .post(
+    '/:connId/key/:key/zset/members/rename',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const key = toKeyName(params.key, body.keyEncoding)
+        const redis = await getRedisConnection(connectionConfig, (body as ZSetRenameMemberRequestDto)?.db)
+        const before = await readKeySnapshot(redis, key, body.db || 0)
+        const result = await renameZSetMember(redis, key, body as ZSetRenameMemberRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.zset_member_renamed', [{ member: body.member, newMember: body.newMember }], {
+            userId: user!.id,
+            connId: params.connId,
+            key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to rename sorted set member'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: zsetRenameMemberSchema
+    }
+  )
+
+  /**
+   * Read a JSON document at a JSONPath
+   * GET /api/redis/:connId/key/:key/json
+   */
+  .get(
+    '/:connId/key/:key/json',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await getJsonValue(redis, params.key, query as JsonPathQueryDto)
+
+        return result as JsonValueResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read JSON value'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as JsonValueResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: jsonPathQuerySchema
+    }
+  )
+
+  /**
+   * Set the value at a JSONPath (JSON.SET)
+   * POST /api/redis/:connId/key/:key/json
+   */
+  .post(
+    '/:connId/key/:key/json',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as JsonSetRequestDto)?.db)
+        const before = await readKeySnapshot(redis, params.key, body.db || 0)
+        const result = await setJsonValue(redis, params.key, body as JsonSetRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.json_path_set', [{ path: body.path, condition: body.condition }], {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to set JSON value'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: jsonSetSchema
+    }
+  )
+
+  /**
+   * Append values to the arrays at a JSONPath (JSON.ARRAPPEND)
+   * POST /api/redis/:connId/key/:key/json/arrappend
+   */
+  .post(
+    '/:connId/key/:key/json/arrappend',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as JsonArrAppendRequestDto)?.db)
+        const before = await readKeySnapshot(redis, params.key, body.db || 0)
+        const result = await appendJsonArray(redis, params.key, body as JsonArrAppendRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.json_array_appended', [{ path: body.path, count: body.values.length }], {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to append to JSON array'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: jsonArrAppendSchema
+    }
+  )
+
+  /**
+   * Delete the values at a JSONPath (JSON.DEL)
+   * POST /api/redis/:connId/key/:key/json/delete
+   */
+  .post(
+    '/:connId/key/:key/json/delete',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as JsonDeleteRequestDto)?.db)
+        const before = await readKeySnapshot(redis, params.key, body.db || 0)
+        const result = await deleteJsonPath(redis, params.key, body as JsonDeleteRequestDto)
+        if (result.conflict) {
+          set.status = 409
+        }
+
+        if (result.success) {
+          await logElementAudit('key.json_path_deleted', [{ path: body.path }], {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request,
+            history: { redis, before }
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to delete JSON path'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: jsonDeleteSchema
+    }
+  )
+
+  /**
+   * Read samples of a time series (TS.RANGE)
+   * GET /api/redis/:connId/key/:key/timeseries/range
+   */
+  .get(
+    '/:connId/key/:key/timeseries/range',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await getTimeSeriesRange(redis, params.key, query as TimeSeriesRangeQueryDto)
+
+        return result as TimeSeriesRangeResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read time series'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as TimeSeriesRangeResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: timeSeriesRangeSchema
+    }
+  )
+
+  /**
+   * Read samples of every time series matching label filters (TS.MRANGE)
+   * GET /api/redis/:connId/timeseries/mrange
+   */
+  .get(
+    '/:connId/timeseries/mrange',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await getTimeSeriesMRange(redis, query as TimeSeriesMRangeQueryDto)
+
+        return result as TimeSeriesMRangeResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read time series'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as TimeSeriesMRangeResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      query: timeSeriesMRangeSchema
+    }
+  )
+
+  /**
+   * Add a sample to a time series (TS.ADD)
+   * POST /api/redis/:connId/key/:key/timeseries/add
+   */
+  .post(
+    '/:connId/key/:key/timeseries/add',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as TimeSeriesAddRequestDto)?.db)
+        const result = await addTimeSeriesSample(redis, params.key, body as TimeSeriesAddRequestDto)
+
+        if (result.success) {
+          await logElementAudit('key.ts_sample_added', [{ timestamp: body.timestamp ?? '*', value: body.value }], {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to add sample'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: timeSeriesAddSchema
+    }
+  )
+
+  /**
+   * Delete the samples in a time range (TS.DEL)
+   * POST /api/redis/:connId/key/:key/timeseries/delete
+   */
+  .post(
+    '/:connId/key/:key/timeseries/delete',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as TimeSeriesDeleteRequestDto)?.db)
+        const result = await deleteTimeSeriesSamples(redis, params.key, body as TimeSeriesDeleteRequestDto)
+
+        if (result.success) {
+          await logElementAudit('key.ts_samples_deleted', [{ from: body.from, to: body.to, deleted: result.affected }], {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to delete samples'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: timeSeriesDeleteSchema
+    }
+  )
+
+  /**
+   * Add items to a HyperLogLog, Bloom, Cuckoo, Count-Min Sketch or Top-K key
+   * POST /api/redis/:connId/key/:key/probabilistic/add
+   */
+  .post(
+    '/:connId/key/:key/probabilistic/add',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as ProbabilisticAddRequestDto)?.db)
+        const result = await addProbabilisticItems(redis, params.key, body as ProbabilisticAddRequestDto)
+
+        if (result.success) {
+          await logElementAudit('key.probabilistic_items_added', [{ count: body.items.length, added: result.affected }], {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to add items'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: probabilisticAddSchema
+    }
+  )
+
+  /**
+   * Look items up in a Bloom, Cuckoo, Count-Min Sketch or Top-K key
+   * GET /api/redis/:connId/key/:key/probabilistic/query
+   */
+  .get(
+    '/:connId/key/:key/probabilistic/query',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await queryProbabilisticItems(redis, params.key, query as ProbabilisticQueryDto)
+
+        return result as ProbabilisticQueryResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to look up items'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ProbabilisticQueryResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: probabilisticQuerySchema
+    }
+  )
+
+  /**
+   * Delete items from a Cuckoo filter (CF.DEL)
+   * POST /api/redis/:connId/key/:key/cuckoo/delete
+   */
+  .post(
+    '/:connId/key/:key/cuckoo/delete',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as CuckooDeleteRequestDto)?.db)
+        const result = await deleteCuckooItems(redis, params.key, body as CuckooDeleteRequestDto)
+
+        if (result.success) {
+          await logElementAudit('key.cuckoo_items_deleted', [{ count: body.items.length, deleted: result.affected }], {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to delete items'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: cuckooDeleteSchema
+    }
+  )
+
+  /**
+   * Merge other HyperLogLogs into a HyperLogLog (PFMERGE)
+   * POST /api/redis/:connId/key/:key/hll/merge
+   */
+  .post(
+    '/:connId/key/:key/hll/merge',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as HyperLogLogMergeRequestDto)?.db)
+        const result = await mergeHyperLogLogs(redis, params.key, body as HyperLogLogMergeRequestDto)
+
+        if (result.success) {
+          await logElementAudit('key.hll_merged', [{ sources: body.sources }], {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to merge HyperLogLogs'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: hyperLogLogMergeSchema
+    }
+  )
+
+  /**
+   * Read a page of bits of a string value
+   * GET /api/redis/:connId/key/:key/bitmap
+   */
+  .get(
+    '/:connId/key/:key/bitmap',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await getBitmapPage(redis, params.key, query as BitmapPageQueryDto)
+
+        return result as BitmapPageResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read bitmap'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as BitmapPageResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: bitmapPageSchema
+    }
+  )
+
+  /**
+   * Find the first set or clear bit from an offset (BITPOS)
+   * GET /api/redis/:connId/key/:key/bitmap/position
+   */
+  .get(
+    '/:connId/key/:key/bitmap/position',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await getBitmapPosition(redis, params.key, query as BitmapPositionQueryDto)
+
+        return result as BitmapPositionResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to find bit'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as BitmapPositionResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: bitmapPositionSchema
+    }
+  )
+
+  /**
+   * Set or clear a single bit (SETBIT)
+   * POST /api/redis/:connId/key/:key/bitmap/setbit
+   */
+  .post(
+    '/:connId/key/:key/bitmap/setbit',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as BitmapSetBitRequestDto)?.db)
+        const result = await setBitmapBit(redis, params.key, body as BitmapSetBitRequestDto)
+
+        if (result.success) {
+          await logElementAudit('key.bit_set', [{ offset: body.offset, value: body.value }], {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to set bit'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: bitmapSetBitSchema
+    }
+  )
+
+  /**
+   * Page through geo members with their positions (GEOPOS)
+   * GET /api/redis/:connId/key/:key/geo
+   */
+  .get(
+    '/:connId/key/:key/geo',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await getGeoMembers(redis, params.key, query as GeoPageQueryDto)
+
+        return result as GeoMembersPageResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read geo members'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as GeoMembersPageResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: geoPageSchema
+    }
+  )
+
+  /**
+   * Find geo members by radius or box (GEOSEARCH)
+   * GET /api/redis/:connId/key/:key/geo/search
+   */
+  .get(
+    '/:connId/key/:key/geo/search',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await searchGeoMembers(redis, params.key, query as GeoSearchQueryDto)
+
+        return result as GeoSearchResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to search geo members'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as GeoSearchResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: geoSearchSchema
+    }
+  )
+
+  /**
+   * Add or move geo members (GEOADD)
+   * POST /api/redis/:connId/key/:key/geo/add
+   */
+  .post(
+    '/:connId/key/:key/geo/add',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can update keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as ElementEditResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as GeoAddRequestDto)?.db)
+        const result = await addGeoMembers(redis, params.key, body as GeoAddRequestDto)
+
+        if (result.success) {
+          await logElementAudit('key.geo_members_added', body.members, {
+            userId: user!.id,
+            connId: params.connId,
+            key: params.key,
+            db: body.db,
+            request
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to add geo members'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ElementEditResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: geoAddSchema
+    }
+  )
+
+  /**
+   * Page through stream entries by ID range
+   * GET /api/redis/:connId/key/:key/stream/entries
+   */
+  .get(
+    '/:connId/key/:key/stream/entries',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (query as StreamRangeQueryDto)?.db)
+        const result = await getStreamRange(redis, params.key, query as StreamRangeQueryDto)
+
+        return result as StreamRangeResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read stream entries'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamRangeResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: streamRangeSchema
+    }
+  )
+
+  /**
+   * Append a stream entry (XADD)
+   * POST /api/redis/:connId/key/:key/stream/entries
+   */
+  .post(
+    '/:connId/key/:key/stream/entries',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can modify streams
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to modify streams'
+          } as StreamAddEntryResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as StreamAddEntryRequestDto)?.db)
+        const result = await addStreamEntry(redis, params.key, body as StreamAddEntryRequestDto)
+
+        // Log stream entry addition
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'key.stream_entry_added',
+            resourceType: 'key',
+            resourceId: params.key,
+            resourceName: params.key,
+            details: JSON.stringify({
+              entryId: result.id,
+              fields: Object.keys(body.fields),
+              maxLen: body.maxLen,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as StreamAddEntryResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to add stream entry'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamAddEntryResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: streamAddEntrySchema
+    }
+  )
+
+  /**
+   * Delete stream entries by ID (XDEL)
+   * POST /api/redis/:connId/key/:key/stream/entries/delete
+   */
+  .post(
+    '/:connId/key/:key/stream/entries/delete',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can modify streams
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to modify streams'
+          } as StreamDeleteEntriesResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as StreamDeleteEntriesRequestDto)?.db)
+        const result = await deleteStreamEntries(redis, params.key, body as StreamDeleteEntriesRequestDto)
+
+        // Log stream entry deletion
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'key.stream_entries_deleted',
+            resourceType: 'key',
+            resourceId: params.key,
+            resourceName: params.key,
+            details: JSON.stringify({
+              ids: body.ids,
+              deleted: result.deleted,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as StreamDeleteEntriesResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to delete stream entries'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamDeleteEntriesResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: streamDeleteEntriesSchema
+    }
+  )
+
+  /**
+   * Trim a stream (XTRIM)
+   * POST /api/redis/:connId/key/:key/stream/trim
+   */
+  .post(
+    '/:connId/key/:key/stream/trim',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can modify streams
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to modify streams'
+          } as StreamTrimResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as StreamTrimRequestDto)?.db)
+        const result = await trimStream(redis, params.key, body as StreamTrimRequestDto)
+
+        // Log stream trim
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'key.stream_trimmed',
+            resourceType: 'key',
+            resourceId: params.key,
+            resourceName: params.key,
+            details: JSON.stringify({
+              strategy: body.strategy,
+              threshold: body.threshold,
+              approximate: body.approximate || false,
+              trimmed: result.trimmed,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as StreamTrimResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to trim stream'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamTrimResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: streamTrimSchema
+    }
+  )
+
+  /**
+   * List consumer groups of a stream
+   * GET /api/redis/:connId/key/:key/stream/groups
+   */
+  .get(
+    '/:connId/key/:key/stream/groups',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await listStreamGroups(redis, params.key, query?.db)
+
+        return result as ListStreamGroupsResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to list consumer groups'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ListStreamGroupsResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: databaseQuerySchema
+    }
+  )
+
+  /**
+   * List consumers of a group
+   * GET /api/redis/:connId/key/:key/stream/groups/:group/consumers
+   */
+  .get(
+    '/:connId/key/:key/stream/groups/:group/consumers',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await listStreamConsumers(redis, params.key, params.group, query?.db)
+
+        return result as ListStreamConsumersResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to list consumers'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ListStreamConsumersResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String(),
+        group: t.String()
+      }),
+      query: databaseQuerySchema
+    }
+  )
+
+  /**
+   * Inspect pending entries of a group
+   * GET /api/redis/:connId/key/:key/stream/groups/:group/pending
+   */
+  .get(
+    '/:connId/key/:key/stream/groups/:group/pending',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await getStreamPending(redis, params.key, params.group, query as StreamPendingQueryDto)
+
+        return result as StreamPendingResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read pending entries'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamPendingResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String(),
+        group: t.String()
+      }),
+      query: streamPendingSchema
+    }
+  )
+
+  /**
+   * Create a consumer group (XGROUP CREATE)
+   * POST /api/redis/:connId/key/:key/stream/groups
+   */
+  .post(
+    '/:connId/key/:key/stream/groups',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can manage consumer groups
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to manage consumer groups'
+          } as StreamGroupResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as CreateStreamGroupRequestDto)?.db)
+        const result = await createStreamGroup(redis, params.key, body as CreateStreamGroupRequestDto)
+
+        // Log consumer group creation
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'key.stream_group_created',
+            resourceType: 'key',
+            resourceId: params.key,
+            resourceName: params.key,
+            details: JSON.stringify({
+              group: body.group,
+              id: body.id || '$',
+              mkStream: body.mkStream || false,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as StreamGroupResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to create consumer group'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamGroupResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      body: createStreamGroupSchema
+    }
+  )
+
+  /**
+   * Destroy a consumer group (XGROUP DESTROY)
+   * DELETE /api/redis/:connId/key/:key/stream/groups/:group
+   */
+  .delete(
+    '/:connId/key/:key/stream/groups/:group',
+    async ({ params, query, user, set, request }) => {
+      try {
+        // Check user permissions - only Editors and Admins can manage consumer groups
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to manage consumer groups'
+          } as StreamGroupResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await destroyStreamGroup(redis, params.key, params.group, query?.db)
+
+        // Log consumer group removal
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'key.stream_group_destroyed',
+            resourceType: 'key',
+            resourceId: params.key,
+            resourceName: params.key,
+            details: JSON.stringify({
+              group: params.group,
+              database: query?.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as StreamGroupResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to destroy consumer group'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamGroupResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String(),
+        group: t.String()
+      }),
+      query: databaseQuerySchema
+    }
+  )
+
+  /**
+   * Reset a group's last delivered ID (XGROUP SETID)
+   * POST /api/redis/:connId/key/:key/stream/groups/:group/setid
+   */
+  .post(
+    '/:connId/key/:key/stream/groups/:group/setid',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can manage consumer groups
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to manage consumer groups'
+          } as StreamGroupResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as SetStreamGroupIdRequestDto)?.db)
+        const result = await setStreamGroupId(redis, params.key, params.group, body as SetStreamGroupIdRequestDto)
+
+        // Log consumer group ID reset
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'key.stream_group_id_set',
+            resourceType: 'key',
+            resourceId: params.key,
+            resourceName: params.key,
+            details: JSON.stringify({
+              group: params.group,
+              id: body.id,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as StreamGroupResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to set consumer group ID'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamGroupResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String(),
+        group: t.String()
+      }),
+      body: setStreamGroupIdSchema
+    }
+  )
+
+  /**
+   * Acknowledge pending entries (XACK)
+   * POST /api/redis/:connId/key/:key/stream/groups/:group/ack
+   */
+  .post(
+    '/:connId/key/:key/stream/groups/:group/ack',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can manage consumer groups
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to manage consumer groups'
+          } as StreamAckResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as StreamAckRequestDto)?.db)
+        const result = await ackStreamEntries(redis, params.key, params.group, body as StreamAckRequestDto)
+
+        // Log acknowledgement
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'key.stream_entries_acked',
+            resourceType: 'key',
+            resourceId: params.key,
+            resourceName: params.key,
+            details: JSON.stringify({
+              group: params.group,
+              ids: body.ids,
+              acknowledged: result.acknowledged,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as StreamAckResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to acknowledge entries'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamAckResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String(),
+        group: t.String()
+      }),
+      body: streamAckSchema
+    }
+  )
+
+  /**
+   * Claim pending entries (XCLAIM / XAUTOCLAIM)
+   * POST /api/redis/:connId/key/:key/stream/groups/:group/claim
+   */
+  .post(
+    '/:connId/key/:key/stream/groups/:group/claim',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can manage consumer groups
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to manage consumer groups'
+          } as StreamClaimResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as StreamClaimRequestDto)?.db)
+        const result = await claimStreamEntries(redis, params.key, params.group, body as StreamClaimRequestDto)
+
+        // Log claim
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'key.stream_entries_claimed',
+            resourceType: 'key',
+            resourceId: params.key,
+            resourceName: params.key,
+            details: JSON.stringify({
+              group: params.group,
+              consumer: body.consumer,
+              minIdleTime: body.minIdleTime,
+              mode: body.ids?.length ? 'xclaim' : 'xautoclaim',
+              claimed: result.claimed,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as StreamClaimResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to claim entries'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as StreamClaimResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String(),
+        group: t.String()
+      }),
+      body: streamClaimSchema
+    }
+  )
+
+  /**
+   * Bulk delete keys
+   * POST /api/redis/:connId/keys/delete
+   */
+  .post(
+    '/:connId/keys/delete',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can delete keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to delete keys'
+          } as BulkDeleteResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (body as BulkDeleteRequestDto)?.db)
+        const result = await bulkDelete(redis, body as BulkDeleteRequestDto, (keys) =>
+          captureDeletedKeys(redis, keys, {
+            connectionId: params.connId,
+            database: body.db || 0,
+            userId: user!.id,
+            source: 'bulk'
+          })
+        )
+        
+        // Log bulk delete
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'bulk.keys_deleted',
+            resourceType: 'key',
+            resourceId: params.connId,
+            resourceName: `Bulk Delete (${result.deleted} keys)`,
+            details: JSON.stringify({
+              deleted: result.deleted,
+              failed: result.failed?.length || 0,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+        
+        return result as BulkDeleteResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to bulk delete keys'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as BulkDeleteResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: bulkDeleteSchema
+    }
+  )
+
+  /**
+   * Copy or move keys to another database or saved connection
+   * POST /api/redis/:connId/keys/copy
+   */
+  .post(
+    '/:connId/keys/copy',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can copy keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to copy keys'
+          } as CopyKeysResponseDto
+        }
+
+        const data = body as CopyKeysRequestDto
+        const sourceDb = data.db || 0
+        const targetDb = data.targetDb ?? sourceDb
+        const targetConnId = data.targetConnectionId || params.connId
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+        const redis = await getRedisConnection(connectionConfig, sourceDb)
+
+        // The target connection goes through the same access check as the source
+        let target: Redis | undefined
+        if (targetConnId !== params.connId) {
+          const targetConfig = await getConnectionConfig(targetConnId, user!.id, user!.role)
+          target = await getRedisConnection(targetConfig, targetDb)
+        }
+
+        const result = await copyKeys(redis, target, data)
+
+        // Partial runs still wrote to the target, so log whenever anything was copied
+        if (result.copied) {
+          const details = {
+            mode: data.mode || 'copy',
+            copied: result.copied,
+            skipped: result.skipped?.length || 0,
+            failed: result.failed?.length || 0,
+            keys: [...data.keys, ...(data.hexKeys ?? []).map(key => displayKeyName(toKeyName(key, 'hex')))],
+            newKey: data.newKey
+          }
+
+          await Promise.all([
+            logAudit({
+              userId: user!.id,
+              action: data.mode === 'move' ? 'bulk.keys_moved' : 'bulk.keys_copied',
+              resourceType: 'key',
+              resourceId: params.connId,
+              resourceName: `${data.mode === 'move' ? 'Move' : 'Copy'} (${result.copied} keys)`,
+              details: JSON.stringify({
+                ...details,
+                database: sourceDb,
+                connectionId: params.connId,
+                targetDatabase: targetDb,
+                targetConnectionId: targetConnId
+              }),
+              ipAddress: getClientIP(request),
+              userAgent: getUserAgent(request)
+            }),
+            logAudit({
+              userId: user!.id,
+              action: 'bulk.keys_received',
+              resourceType: 'key',
+              resourceId: targetConnId,
+              resourceName: `${data.mode === 'move' ? 'Move' : 'Copy'} target (${result.copied} keys)`,
+              details: JSON.stringify({
+                ...details,
+                database: targetDb,
+                connectionId: targetConnId,
+                sourceDatabase: sourceDb,
+                sourceConnectionId: params.connId
+              }),
+              ipAddress: getClientIP(request),
+              userAgent: getUserAgent(request)
+            })
+          ])
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to copy keys'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as CopyKeysResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: copyKeysSchema
+    }
+  )
+
+  /**
+   * Compare the keys matching a pattern with another database or saved connection
+   * POST /api/redis/:connId/compare
+   */
+  .post(
+    '/:connId/compare',
+    async ({ params, user, set, body }) => {
+      try {
+        const data = body as CompareKeyspacesRequestDto
+        const leftDb = data.db || 0
+        const rightDb = data.targetDb ?? leftDb
+        const rightConnId = data.targetConnectionId || params.connId
+
+        if (rightConnId === params.connId && rightDb === leftDb) {
+          set.status = 400
+          return {
+            success: false,
+            error: 'Pick another database or connection to compare against'
+          } as CompareKeyspacesResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+        // The right side goes through the same access check as the left
+        const rightConfig = rightConnId === params.connId
+          ? connectionConfig
+          : await getConnectionConfig(rightConnId, user!.id, user!.role)
+
+        const left = await getRedisConnection(connectionConfig, leftDb)
+        const right = await getRedisConnection(rightConfig, rightDb)
+
+        return await compareKeyspaces(left, right, data)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to compare keyspaces'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as CompareKeyspacesResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: compareKeyspacesSchema
+    }
+  )
+
+  /**
+   * Element-level diff of one key against another database or saved connection
+   * GET /api/redis/:connId/compare/key/:key
+   */
+  .get(
+    '/:connId/compare/key/:key',
+    async ({ params, query, user, set }) => {
+      try {
+        const diffQuery = query as KeyDiffQueryDto
+        const leftDb = diffQuery.db || 0
+        const rightConnId = diffQuery.targetConnectionId || params.connId
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+        const rightConfig = rightConnId === params.connId
+          ? connectionConfig
+          : await getConnectionConfig(rightConnId, user!.id, user!.role)
+
+        const left = await getRedisConnection(connectionConfig, leftDb)
+        const right = await getRedisConnection(rightConfig, diffQuery.targetDb ?? leftDb)
+        const result = await diffKey(left, right, params.key, diffQuery)
+
+        if (!result.success && result.error === 'Key not found on either side') {
+          set.status = 404
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to diff key'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as KeyDiffResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        key: t.String()
+      }),
+      query: keyDiffSchema
+    }
+  )
+
+  /**
+   * Sync selected keys from one side of a comparison to the other
+   * POST /api/redis/:connId/compare/sync
+   */
+  .post(
+    '/:connId/compare/sync',
+    async ({ params, user, set, request, body }) => {
+      try {
+        // Check user permissions - only Editors and Admins can sync keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to sync keys'
+          } as SyncKeysResponseDto
+        }
+
+        const data = body as SyncKeysRequestDto
+        const leftDb = data.db || 0
+        const rightDb = data.targetDb ?? leftDb
+        const rightConnId = data.targetConnectionId || params.connId
+
+        if (rightConnId === params.connId && rightDb === leftDb) {
+          set.status = 400
+          return {
+            success: false,
+            error: 'Pick another database or connection to sync with'
+          } as SyncKeysResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+        const rightConfig = rightConnId === params.connId
+          ? connectionConfig
+          : await getConnectionConfig(rightConnId, user!.id, user!.role)
+
+        const left = await getRedisConnection(connectionConfig, leftDb)
+        const right = await getRedisConnection(rightConfig, rightDb)
+        const toRight = data.direction === 'left_to_right'
+        // Destination keys go to that connection's recycle bin before they are replaced
+        const result = await syncKeys(left, right, data, (keys) =>
+          captureDeletedKeys(toRight ? right : left, keys, {
+            connectionId: toRight ? rightConnId : params.connId,
+            database: toRight ? rightDb : leftDb,
+            userId: user!.id,
+            source: 'bulk'
+          })
+        )
+
+        // Only the destination changes, log it there whenever a key was written or deleted
+        if (result.written || result.deleted) {
+          await logAudit({
+            userId: user!.id,
+            action: 'bulk.keys_synced',
+            resourceType: 'key',
+            resourceId: toRight ? rightConnId : params.connId,
+            resourceName: `Sync (${(result.written || 0) + (result.deleted || 0)} keys)`,
+            details: JSON.stringify({
+              written: result.written,
+              deleted: result.deleted,
+              failed: result.failed?.length || 0,
+              keys: [...data.keys, ...(data.hexKeys ?? []).map(key => displayKeyName(toKeyName(key, 'hex')))],
+              database: toRight ? rightDb : leftDb,
+              connectionId: toRight ? rightConnId : params.connId,
+              sourceDatabase: toRight ? leftDb : rightDb,
+              sourceConnectionId: toRight ? params.connId : rightConnId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to sync keys'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as SyncKeysResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: syncKeysSchema
+    }
+  )
+
+  /**
+   * List keys in the recycle bin
+   * GET /api/redis/:connId/recycle-bin
+   */
+  .get(
+    '/:connId/recycle-bin',
+    async ({ params, query, user, set }) => {
+      try {
+        // Resolves the connection first so access is checked like any other read
+        await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        return await listDeletedKeys(params.connId, query as ListDeletedKeysQueryDto)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to list deleted keys'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ListDeletedKeysResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      query: listDeletedKeysSchema
+    }
+  )
+
+  /**
+   * Restore a key from the recycle bin
+   * POST /api/redis/:connId/recycle-bin/:id/restore
+   */
+  .post(
+    '/:connId/recycle-bin/:id/restore',
+    async ({ params, body, user, set, request }) => {
+      try {
+        // Check user permissions - only Editors and Admins can restore keys
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to restore keys'
+          } as RestoreDeletedKeyResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const data = body as RestoreDeletedKeyRequestDto
+        const result = await restoreDeletedKey(connectionConfig, params.id, data)
+
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'key.restored',
+            resourceType: 'key',
+            resourceId: params.id,
+            resourceName: result.key,
+            details: JSON.stringify({
+              newKey: data.newKey,
+              replace: !!data.replace,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        } else if (result.error === 'Deleted key not found') {
+          set.status = 404
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to restore key'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as RestoreDeletedKeyResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        id: t.String()
+      }),
+      body: restoreDeletedKeySchema
+    }
+  )
+
+  /**
+   * Permanently remove a key from the recycle bin
+   * DELETE /api/redis/:connId/recycle-bin/:id
+   */
+  .delete(
+    '/:connId/recycle-bin/:id',
+    async ({ params, user, set, request }) => {
+      try {
+        // Check user permissions - only Editors and Admins can purge the recycle bin
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to purge deleted keys'
+          } as PurgeDeletedKeysResponseDto
+        }
+
+        await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const result = await purgeDeletedKeys(params.connId, params.id)
+
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'recycle_bin.purged',
+            resourceType: 'key',
+            resourceId: params.id,
+            resourceName: 'Recycle Bin Entry',
+            details: JSON.stringify({
+              purged: result.purged,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        } else if (result.error === 'Deleted key not found') {
+          set.status = 404
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to purge deleted keys'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as PurgeDeletedKeysResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        id: t.String()
+      })
+    }
+  )
+
+  /**
+   * Empty the recycle bin of a connection
+   * DELETE /api/redis/:connId/recycle-bin
+   */
+  .delete(
+    '/:connId/recycle-bin',
+    async ({ params, user, set, request }) => {
+      try {
+        // Check user permissions - only Editors and Admins can purge the recycle bin
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to purge deleted keys'
+          } as PurgeDeletedKeysResponseDto
+        }
+
+        await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const result = await purgeDeletedKeys(params.connId)
+
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'recycle_bin.emptied',
+            resourceType: 'connection',
+            resourceId: params.connId,
+            resourceName: `Recycle Bin (${result.purged} keys)`,
+            details: JSON.stringify({
+              purged: result.purged,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to purge deleted keys'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as PurgeDeletedKeysResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      })
+    }
+  )
+
+  /**
+   * Preview a change set operation by operation, without writing anything
+   * POST /api/redis/:connId/change-set/preview
+   */
+  .post(
+    '/:connId/change-set/preview',
+    async ({ params, body, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const data = body as ChangeSetRequestDto
+        const redis = await getRedisConnection(connectionConfig, data.db)
+
+        return await previewChangeSet(redis, data)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to preview change set'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as PreviewChangeSetResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: changeSetSchema
+    }
+  )
+
+  /**
+   * Apply a change set in one transaction, 409 when a touched key changed meanwhile
+   * POST /api/redis/:connId/change-set
+   */
+  .post(
+    '/:connId/change-set',
+    async ({ params, body, user, set, request }) => {
+      try {
+        // Check user permissions - only Editors and Admins can apply change sets
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to apply change sets'
+          } as ApplyChangeSetResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const data = body as ApplyChangeSetRequestDto
+        const redis = await getRedisConnection(connectionConfig, data.db)
+        const touched = changeSetKeys(data.operations)
+        const before: Array<KeySnapshot | null> = []
+        for (const key of touched) {
+          before.push(await readKeySnapshot(redis, key, data.db || 0))
+        }
+
+        const result = await applyChangeSet(redis, data, (keys) =>
+          prepareDeletedKeys(redis, keys, {
+            connectionId: params.connId,
+            database: data.db || 0,
+            userId: user!.id,
+            source: 'bulk'
+          })
+        )
+
+        // One record for the whole set, listing every operation, and a history entry per touched key
+        if (result.success) {
+          const auditLogId = await logAudit({
+            userId: user!.id,
+            action: 'change_set.applied',
+            resourceType: 'connection',
+            resourceId: params.connId,
+            resourceName: `Change set (${data.operations.length} operations)`,
+            details: JSON.stringify({
+              database: data.db || 0,
+              connectionId: params.connId,
+              operations: data.operations
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+          for (const [index, key] of touched.entries()) {
+            await recordKeyHistory(redis, {
+              connectionId: params.connId,
+              database: data.db || 0,
+              key,
+              operation: 'update',
+              before: before[index],
+              userId: user!.id,
+              auditLogId
+            })
+          }
+        } else if (result.conflict) {
+          set.status = 409
+        } else if (result.entries) {
+          set.status = 400
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to apply change set'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ApplyChangeSetResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: applyChangeSetSchema
+    }
+  )
+
+  /**
+   * List Pub/Sub channels with their subscriber counts
+   * GET /api/redis/:connId/pubsub/channels
+   */
+  .get(
+    '/:connId/pubsub/channels',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig)
+        return await listPubSubChannels(redis, query as ListPubSubChannelsQueryDto)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to list channels'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ListPubSubChannelsResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      query: listPubSubChannelsSchema
+    }
+  )
+
+  /**
+   * Subscribe to channels and patterns, messages arrive as server-sent events
+   * GET /api/redis/:connId/pubsub/subscribe
+   */
+  .get(
+    '/:connId/pubsub/subscribe',
+    async ({ params, query, user, set, request }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const data = query as PubSubSubscribeQueryDto
+        const result = await openPubSubStream(connectionConfig, data, request.signal)
+        if (!result.success || !result.stream) {
+          set.status = 400
+          return {
+            success: false,
+            error: result.error
+          }
+        }
+
+        await logAudit({
+          userId: user!.id,
+          action: 'pubsub.subscribed',
+          resourceType: 'connection',
+          resourceId: params.connId,
+          resourceName: [...(data.channels ?? []), ...(data.patterns ?? [])].join(', '),
+          details: JSON.stringify({
+            channels: data.channels,
+            patterns: data.patterns,
+            connectionId: params.connId
+          }),
+          ipAddress: getClientIP(request),
+          userAgent: getUserAgent(request)
+        })
+
+        return eventStreamResponse(result.stream)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to subscribe'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        }
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      query: pubSubSubscribeSchema
+    }
+  )
+
+  /**
+   * Publish a message to a channel
+   * POST /api/redis/:connId/pubsub/publish
+   */
+  .post(
+    '/:connId/pubsub/publish',
+    async ({ params, body, user, set, request }) => {
+      try {
+        // Check user permissions - only Editors and Admins can publish messages
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to publish messages'
+          } as PublishMessageResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const data = body as PublishMessageRequestDto
+        const redis = await getRedisConnection(connectionConfig)
+        const result = await publishMessage(redis, data)
+
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'pubsub.published',
+            resourceType: 'channel',
+            resourceId: data.channel,
+            resourceName: data.channel,
+            details: JSON.stringify({
+              receivers: result.receivers,
+              size: Buffer.byteLength(data.message),
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to publish message'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as PublishMessageResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: publishMessageSchema
+    }
+  )
+
+  /**
+   * Get the keyspace notification setting (notify-keyspace-events)
+   * GET /api/redis/:connId/keyspace-events/config
+   */
+  .get(
+    '/:connId/keyspace-events/config',
+    async ({ params, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig)
+        return await getKeyspaceNotifications(redis)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to read keyspace notification settings'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as KeyspaceNotificationsResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      })
+    }
+  )
+
+  /**
+   * Change the keyspace notification setting of the server (admin only)
+   * PUT /api/redis/:connId/keyspace-events/config
+   */
+  .put(
+    '/:connId/keyspace-events/config',
+    async ({ params, body, user, set, request }) => {
+      try {
+        // Check admin permissions
+        if (user?.role !== 'admin') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Admin privileges required to change keyspace notifications'
+          } as KeyspaceNotificationsResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const data = body as UpdateKeyspaceNotificationsRequestDto
+        const redis = await getRedisConnection(connectionConfig)
+        const previous = await getKeyspaceNotifications(redis)
+        const result = await updateKeyspaceNotifications(redis, data)
+
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'keyspace_events.configured',
+            resourceType: 'connection',
+            resourceId: params.connId,
+            resourceName: 'notify-keyspace-events',
+            details: JSON.stringify({
+              previous: previous.flags,
+              flags: result.flags,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        } else {
+          set.status = 400
+        }
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to update keyspace notification settings'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as KeyspaceNotificationsResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: updateKeyspaceNotificationsSchema
+    }
+  )
+
+  /**
+   * Watch key events of a database, they arrive as server-sent events
+   * GET /api/redis/:connId/keyspace-events/stream
+   */
+  .get(
+    '/:connId/keyspace-events/stream',
+    async ({ params, query, user, set, request }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const data = query as KeyspaceEventsQueryDto
+        const redis = await getRedisConnection(connectionConfig)
+        const result = await openKeyspaceEventStream(redis, connectionConfig, data, request.signal)
+        if (!result.success || !result.stream) {
+          set.status = 400
+          return {
+            success: false,
+            error: result.error
+          }
+        }
+
+        await logAudit({
+          userId: user!.id,
+          action: 'keyspace_events.subscribed',
+          resourceType: 'connection',
+          resourceId: params.connId,
+          resourceName: data.pattern ?? '*',
+          details: JSON.stringify({
+            pattern: data.pattern ?? '*',
+            database: data.db || 0,
+            connectionId: params.connId
+          }),
+          ipAddress: getClientIP(request),
+          userAgent: getUserAgent(request)
+        })
+
+        return eventStreamResponse(result.stream)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to watch key events'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        }
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      query: keyspaceEventsSchema
+    }
+  )
+
+  /**
+   * Run a raw command from the console, limited by the role of the user
+   * POST /api/redis/:connId/cli
+   */
+  .post(
+    '/:connId/cli',
+    async ({ params, body, user, set, request }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const data = body as ExecuteCommandRequestDto
+        const database = data.db ?? 0
+
+        let args: Buffer[]
+        try {
+          args = splitCommandLine(data.command)
+        } catch (error) {
+          set.status = 400
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Invalid command line'
+          } as ExecuteCommandResponseDto
+        }
+        if (args.length === 0) {
+          set.status = 400
+          return {
+            success: false,
+            error: 'Enter a command'
+          } as ExecuteCommandResponseDto
+        }
+
+        // The policy and the audit log work on readable arguments, Redis gets the bytes
+        const names = args.map(arg => describeBinary(arg).text)
+        const command = names[0].toUpperCase()
+        const denied = checkCommandPermission(user!.role, names)
+        if (denied) {
+          await logAudit({
+            userId: user!.id,
+            action: 'cli.command_denied',
+            resourceType: 'connection',
+            resourceId: params.connId,
+            resourceName: command,
+            details: JSON.stringify({
+              args: auditCommandArgs(names),
+              reason: denied,
+              database
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+
+          set.status = 403
+          return {
+            success: false,
+            error: denied
+          } as ExecuteCommandResponseDto
+        }
+
+        // Only permitted commands are remembered, and never the ones carrying a password
+        if (!hasSecretArgs(names)) {
+          await appendCliHistory(user!.id, params.connId, data.command.trim())
+        }
+
+        const redis = await getRedisConnection(connectionConfig, database)
+        const result = await executeCommand(redis, args, database)
+
+        await logAudit({
+          userId: user!.id,
+          action: 'cli.command_executed',
+          resourceType: 'connection',
+          resourceId: params.connId,
+          resourceName: command,
+          details: JSON.stringify({
+            args: auditCommandArgs(names),
+            reply: result.reply?.type,
+            error: result.error,
+            durationMs: result.durationMs,
+            database
+          }),
+          ipAddress: getClientIP(request),
+          userAgent: getUserAgent(request)
+        })
+
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to execute command'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ExecuteCommandResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: executeCommandSchema
+    }
+  )
+
+  /**
+   * Get the console command history of the current user
+   * GET /api/redis/:connId/cli/history
+   */
+  .get(
+    '/:connId/cli/history',
+    async ({ params, user, set }) => {
+      try {
+        await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        return await getCliHistory(user!.id, params.connId)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to get command history'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as CliHistoryResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      })
+    }
+  )
+
+  /**
+   * Clear the console command history of the current user
+   * DELETE /api/redis/:connId/cli/history
+   */
+  .delete(
+    '/:connId/cli/history',
+    async ({ params, user, set }) => {
+      try {
+        await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        return await clearCliHistory(user!.id, params.connId)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to clear command history'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as CliHistoryResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      })
+    }
+  )
+
+  /**
+   * Watch the commands the server runs with MONITOR (admin only), they arrive as server-sent events
+   * GET /api/redis/:connId/monitor
+   */
+  .get(
+    '/:connId/monitor',
+    async ({ params, query, user, set, request }) => {
+      try {
+        // Check admin permissions
+        if (user?.role !== 'admin') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Admin privileges required to run MONITOR'
+          }
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const data = query as MonitorQueryDto
+        const result = await openMonitorStream(connectionConfig, data, request.signal)
+        if (!result.success || !result.stream) {
+          set.status = 400
+          return {
+            success: false,
+            error: result.error
+          }
+        }
+
+        await logAudit({
+          userId: user!.id,
+          action: 'monitor.started',
+          resourceType: 'connection',
+          resourceId: params.connId,
+          resourceName: 'MONITOR',
+          details: JSON.stringify({
+            duration: data.duration ?? 60,
+            sample: data.sample ?? 1,
+            commands: data.commands,
+            pattern: data.pattern,
+            client: data.client,
+            database: data.db,
+            connectionId: params.connId
+          }),
+          ipAddress: getClientIP(request),
+          userAgent: getUserAgent(request)
+        })
+
+        return eventStreamResponse(result.stream)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to start MONITOR'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        }
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      query: monitorSchema
+    }
+  )
+
+  /**
+   * List one level of the namespace tree
+   * GET /api/redis/:connId/namespaces
+   */
+  .get(
+    '/:connId/namespaces',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, (query as NamespaceQueryDto)?.db)
+        const result = await getNamespace(redis, query as NamespaceQueryDto)
+
+        return result as NamespaceResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to load namespace'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as NamespaceResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      query: namespaceQuerySchema
+    }
+  )
+
+  /**
+   * Delete every key under a prefix
+   * POST /api/redis/:connId/namespaces/delete
+   */
+  .post(
+    '/:connId/namespaces/delete',
+    async ({ params, body, user, set, request }) => {
+      try {
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to delete keys'
+          } as PrefixBulkResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, body.db)
+        const result = await deleteKeysByPrefix(redis, body as PrefixBulkRequestDto, (keys) =>
+          captureDeletedKeys(redis, keys, {
+            connectionId: params.connId,
+            database: body.db || 0,
+            userId: user!.id,
+            source: 'prefix'
+          })
+        )
+
+        // One entry per batch that found keys, and for the first batch either way
+        if (result.success && (result.matched || !body.cursor)) {
+          await logAudit({
+            userId: user!.id,
+            action: 'bulk.prefix_deleted',
+            resourceType: 'key',
+            resourceId: params.connId,
+            resourceName: body.prefix,
+            details: JSON.stringify({
+              prefix: body.prefix,
+              prefixEncoding: body.prefixEncoding ?? 'utf8',
+              matched: result.matched,
+              deleted: result.affected,
+              hasMore: result.hasMore,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as PrefixBulkResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to delete keys by prefix'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as PrefixBulkResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: prefixBulkSchema
+    }
+  )
+
+  /**
+   * Set or remove the TTL of every key under a prefix
+   * POST /api/redis/:connId/namespaces/ttl
+   */
+  .post(
+    '/:connId/namespaces/ttl',
+    async ({ params, body, user, set, request }) => {
+      try {
+        if (user?.role === 'viewer') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Insufficient permissions to update keys'
+          } as PrefixBulkResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, body.db)
+        const result = await setTtlByPrefix(redis, body as PrefixTtlRequestDto)
+
+        // One entry per batch that found keys, and for the first batch either way
+        if (result.success && (result.matched || !body.cursor)) {
+          await logAudit({
+            userId: user!.id,
+            action: 'bulk.prefix_ttl_set',
+            resourceType: 'key',
+            resourceId: params.connId,
+            resourceName: body.prefix,
+            details: JSON.stringify({
+              prefix: body.prefix,
+              prefixEncoding: body.prefixEncoding ?? 'utf8',
+              ttl: body.ttl ?? null,
+              matched: result.matched,
+              updated: result.affected,
+              hasMore: result.hasMore,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as PrefixBulkResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to set TTL by prefix'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as PrefixBulkResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: prefixTtlSchema
+    }
+  )
+
+  /**
+   * Start an export job for every key under a prefix
+   * POST /api/redis/:connId/namespaces/export
+   */
+  .post(
+    '/:connId/namespaces/export',
+    async ({ params, body, user, set, request }) => {
+      try {
+        // Access check only; the export job opens its own connection
+        await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const result = await exportKeysByPrefix(
+          user!.id,
+          params.connId,
+          body as PrefixExportRequestDto,
+          getClientIP(request),
+          getUserAgent(request)
+        )
+
+        return result as PrefixBulkResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to start export'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as PrefixBulkResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: prefixExportSchema
+    }
+  )
+
+  /**
+   * List all databases with statistics
+   * GET /api/redis/:connId/databases
+   */
+  .get(
+    '/:connId/info',
+    async ({ params, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig)
+        const result = await getRedisInfo(redis)
+
+        return result as RedisInfoResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to get Redis info'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as RedisInfoResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      })
+    }
+  )
+
+  /**
+   * List search indexes
+   * GET /api/redis/:connId/search/indexes
+   */
+  .get(
+    '/:connId/search/indexes',
+    async ({ params, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig)
+        const result = await listSearchIndexes(redis)
+
+        return result as ListSearchIndexesResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to list search indexes'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ListSearchIndexesResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      })
+    }
+  )
+
+  /**
+   * Get search index details
+   * GET /api/redis/:connId/search/indexes/:index
+   */
+  .get(
+    '/:connId/search/indexes/:index',
+    async ({ params, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig)
+        const result = await getSearchIndex(redis, params.index)
+
+        return result as GetSearchIndexResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to get search index'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as GetSearchIndexResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        index: t.String()
+      })
+    }
+  )
+
+  /**
+   * Query a search index
+   * GET /api/redis/:connId/search/indexes/:index/search
+   */
+  .get(
+    '/:connId/search/indexes/:index/search',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await searchIndex(redis, params.index, query as SearchQueryDto)
+
+        return result as SearchResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to search index'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as SearchResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        index: t.String()
+      }),
+      query: searchQuerySchema
+    }
+  )
+
+  /**
+   * Run an aggregation on a search index
+   * GET /api/redis/:connId/search/indexes/:index/aggregate
+   */
+  .get(
+    '/:connId/search/indexes/:index/aggregate',
+    async ({ params, query, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await aggregateIndex(redis, params.index, query as AggregateQueryDto)
+
+        return result as AggregateResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to run aggregation'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as AggregateResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        index: t.String()
+      }),
+      query: aggregateQuerySchema
+    }
+  )
+
+  /**
+   * Create a search index (admin only)
+   * POST /api/redis/:connId/search/indexes
+   */
+  .post(
+    '/:connId/search/indexes',
+    async ({ params, body, user, set, request }) => {
+      try {
+        // Check admin permissions
+        if (user?.role !== 'admin') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Admin privileges required to create search indexes'
+          } as SearchIndexResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, body.db)
+        const result = await createSearchIndex(redis, body as CreateSearchIndexRequestDto)
+
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'search.index_created',
+            resourceType: 'search_index',
+            resourceId: params.connId,
+            resourceName: body.name,
+            details: JSON.stringify({
+              keyType: body.keyType,
+              prefixes: body.prefixes ?? [],
+              filter: body.filter,
+              fields: body.fields,
+              database: body.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as SearchIndexResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to create search index'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as SearchIndexResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String()
+      }),
+      body: createSearchIndexSchema
+    }
+  )
+
+  /**
+   * Drop a search index (admin only)
+   * DELETE /api/redis/:connId/search/indexes/:index
+   */
+  .delete(
+    '/:connId/search/indexes/:index',
+    async ({ params, query, user, set, request }) => {
+      try {
+        // Check admin permissions
+        if (user?.role !== 'admin') {
+          set.status = 403
+          return {
+            success: false,
+            error: 'Admin privileges required to drop search indexes'
+          } as SearchIndexResponseDto
+        }
+
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig, query?.db)
+        const result = await dropSearchIndex(redis, params.index, query as DropSearchIndexQueryDto)
+
+        if (result.success) {
+          await logAudit({
+            userId: user!.id,
+            action: 'search.index_dropped',
+            resourceType: 'search_index',
+            resourceId: params.connId,
+            resourceName: params.index,
+            details: JSON.stringify({
+              deleteDocuments: !!query?.deleteDocuments,
+              database: query?.db || 0,
+              connectionId: params.connId
+            }),
+            ipAddress: getClientIP(request),
+            userAgent: getUserAgent(request)
+          })
+        }
+
+        return result as SearchIndexResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to drop search index'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as SearchIndexResponseDto
+      }
+    },
+    {
+      params: t.Object({
+        connId: t.String(),
+        index: t.String()
+      }),
+      query: dropSearchIndexSchema
+    }
+  )
+
+  /**
+   * List loaded Redis modules
+   * GET /api/redis/:connId/modules
+   */
+  .get(
+    '/:connId/modules',
+    async ({ params, user, set }) => {
+      try {
+        const connectionConfig = await getConnectionConfig(
+          params.connId,
+          user!.id,
+          user!.role
+        )
+
+        const redis = await getRedisConnection(connectionConfig)
+        const result = await listModules(redis)
+
+        return result as ListModulesResponseDto
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to list modules'
+        applyRedisErrorStatus(set, message)
+        return {
+          success: false,
+          error: message
+        } as ListModulesResponseDto
       }
     },
     {
@@ -0,0 +1,86 @@
+/**
+ * Pattern Bulk Job DTOs
+ */
+
+
+/**
+ * Operation applied to every key matching the pattern: UNLINK, EXPIRE or PERSIST
+ */
+export type BulkJobOperation = 'delete' | 'expire' | 'persist'
+
+export type BulkJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * Start Bulk Job Request
+ */
+export interface StartBulkJobRequestDto {
+  connectionId: string
+  db?: number // Default: 0
+  pattern: string // MATCH pattern, e.g. "cache:v1:*"
+  operation: BulkJobOperation
+  ttl?: number // TTL in seconds, required for expire
+  dryRun?: boolean // Only count the matching keys
+  dryRunId?: string // Completed dry run of the same pattern, a small match then needs no confirmation
+  confirmation?: string // The pattern typed again, required for large or uncounted matches
+  captureAll?: boolean // Deletes only: keep every match in the recycle bin, otherwise only the first ones up to the capture limit
+  batchSize?: number // Keys per SCAN batch (default: 500)
+  delayMs?: number // Pause between batches to limit load on the server (default: 0)
+}
+
+/**
+ * Start Bulk Job Response
+ */
+export type StartBulkJobResponseDto = {
+  success: boolean
+  jobId?: string
+  message?: string
+  error?: string
+}
+
+/**
+ * Bulk Job Status Response
+ */
+export interface BulkJobStatusResponseDto {
+  success: boolean
+  jobId?: string
+  operation?: BulkJobOperation
+  dryRun?: boolean
+  status?: BulkJobStatus
+  progress?: number // 0-100, estimated from the share of the keyspace scanned
+  matched?: number // Keys matching the pattern so far
+  affected?: number // Keys deleted or updated, always 0 for dry runs
+  failed?: number
+  confirmationRequired?: boolean // Dry runs only: the match is large enough to ask for the typed pattern
+  captureLimited?: boolean // Dry runs only: a delete keeps only part of the match in the recycle bin without captureAll
+  startedAt?: string
+  completedAt?: string
+  error?: string
+}
+
+/**
+ * Cancel Bulk Job Response
+ */
+export type CancelBulkJobResponseDto = {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+/**
+ * Bulk Job (in-memory tracking)
+ */
+export interface BulkJob {
+  id: string
+  userId: string
+  request: StartBulkJobRequestDto
+  status: BulkJobStatus
+  progress: number // 0-100
+  matched: number
+  affected: number
+  failed: number
+  captured: number // Deleted keys handed to the recycle bin
+  cancelRequested: boolean
+  createdAt: Date
+  completedAt?: Date
+  error?: string
+}
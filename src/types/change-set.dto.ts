@@ -0,0 +1,75 @@
+/**
+ * Change Set DTOs
+ */
+
+import type { KeyEncoding } from './redis.dto'
+
+/**
+ * One staged edit, applied in order with the rest of its set
+ */
+export type ChangeSetOperation = (
+  | { op: 'set'; key: string; value: string } // Replace a string value, the TTL is kept
+  | { op: 'hset'; key: string; fields: Record<string, string> }
+  | { op: 'hdel'; key: string; fields: string[] }
+  | { op: 'expire'; key: string; ttl: number | null } // TTL in seconds, null removes the expiry
+  | { op: 'rename'; key: string; newKey: string; newKeyEncoding?: KeyEncoding } // Overwrites an existing target, like RENAME
+  | { op: 'delete'; key: string }
+) & {
+  keyEncoding?: KeyEncoding // Encoding of the key name (default: 'utf8')
+}
+
+export type ChangeSetOperationType = ChangeSetOperation['op']
+
+/**
+ * Change Set Request, for the preview and for applying it
+ */
+export interface ChangeSetRequestDto {
+  operations: ChangeSetOperation[]
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Apply Change Set Request
+ */
+export interface ApplyChangeSetRequestDto extends ChangeSetRequestDto {
+  versions: Record<string, string> // Versions from the preview, the set is rejected when a touched key changed since
+}
+
+/**
+ * What one operation changes, a missing side did not exist
+ */
+export interface ChangeSetDiffRow {
+  label: string // Field name, or Value / TTL / Name / Type
+  before?: string
+  after?: string
+}
+
+/**
+ * Preview of one operation, against the state the earlier operations leave behind
+ */
+export interface ChangeSetPreviewEntry {
+  index: number // Position in the request
+  op: ChangeSetOperationType
+  key: string // Key name, escaped (\xNN) when it is not valid UTF-8
+  type?: string // Key type before this operation, unset when the key does not exist at that point
+  changes: ChangeSetDiffRow[]
+  warning?: string
+  error?: string // The set cannot be applied while any operation has an error
+}
+
+export type PreviewChangeSetResponseDto = {
+  success: boolean
+  entries?: ChangeSetPreviewEntry[]
+  valid?: boolean // No operation has an error
+  versions?: Record<string, string> // Version of every touched key ('' when missing) by the hex of its name, sent back on apply
+  error?: string
+}
+
+export type ApplyChangeSetResponseDto = {
+  success: boolean
+  applied?: number // Operations run in the transaction
+  entries?: ChangeSetPreviewEntry[] // Set when operations turned out invalid, nothing was written
+  conflict?: boolean // A touched key changed since the preview, nothing was written
+  message?: string
+  error?: string
+}
@@ -0,0 +1,35 @@
+/**
+ * CLI Console DTOs
+ */
+
+/**
+ * A RESP reply as redis-cli shows it. Strings are escaped (\xNN) when not valid UTF-8.
+ */
+export type CliReply =
+  | { type: 'string'; value: string }
+  | { type: 'integer'; value: number }
+  | { type: 'nil' }
+  | { type: 'error'; value: string }
+  | { type: 'array'; items: CliReply[] }
+
+/**
+ * Execute Command Request
+ */
+export interface ExecuteCommandRequestDto {
+  command: string // One command line, split like redis-cli does
+  db?: number
+}
+
+export type ExecuteCommandResponseDto = {
+  success: boolean
+  reply?: CliReply // Also set when Redis answered with an error
+  durationMs?: number
+  error?: string // The command was not run
+}
+
+export type CliHistoryResponseDto = {
+  success: boolean
+  history?: string[] // Oldest first
+  message?: string
+  error?: string
+}
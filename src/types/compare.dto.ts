@@ -0,0 +1,108 @@
+/**
+ * Keyspace Compare DTOs
+ * The connection in the path is the left side, the target connection and database the right side
+ */
+
+import type { KeyEncoding } from './redis.dto'
+
+export type KeyspaceDifferenceKind = 'left_only' | 'right_only' | 'type_mismatch' | 'value_mismatch'
+
+export type KeyspaceSyncDirection = 'left_to_right' | 'right_to_left'
+
+/**
+ * Compare Keyspaces Request
+ */
+export interface CompareKeyspacesRequestDto {
+  db?: number // Left database (default: 0)
+  targetConnectionId?: string // Right connection (default: the left one)
+  targetDb?: number // Right database (default: the left database)
+  pattern?: string // MATCH pattern scanned on both sides (default: '*')
+  maxKeys?: number // Keys scanned per side before the result is truncated (default: 10000)
+}
+
+/**
+ * One key that differs between the two sides
+ */
+export interface KeyspaceDifference {
+  key: string // Key name, escaped (\xNN) when it is not valid UTF-8
+  keyHex?: string // Key bytes as hex, only set when the key is not valid UTF-8
+  kind: KeyspaceDifferenceKind
+  leftType?: string // TYPE reply on the left, unset when the key is missing there
+  rightType?: string // TYPE reply on the right, unset when the key is missing there
+  tooLarge?: boolean // value_mismatch only: the payloads differ and a side has too many elements to compare them
+}
+
+/**
+ * Compare Keyspaces Response
+ */
+export type CompareKeyspacesResponseDto = {
+  success: boolean
+  differences?: KeyspaceDifference[]
+  leftScanned?: number // Keys matching the pattern on the left
+  rightScanned?: number // Keys matching the pattern on the right
+  identical?: number // Keys present on both sides with equal values
+  truncated?: boolean // A side had more than maxKeys matches, only the first ones were compared
+  error?: string
+}
+
+/**
+ * Key Diff Query
+ */
+export interface KeyDiffQueryDto {
+  db?: number
+  targetConnectionId?: string
+  targetDb?: number
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+}
+
+/**
+ * One element that differs: a hash field, list index, set or sorted set member, stream entry ID.
+ * Unset sides mean the element is missing there.
+ */
+export interface KeyElementChange {
+  element: string // Empty for whole values (strings, JSON documents)
+  left?: string
+  right?: string
+}
+
+/**
+ * Key Diff Response
+ */
+export type KeyDiffResponseDto = {
+  success: boolean
+  key?: string
+  leftType?: string
+  rightType?: string
+  leftTtl?: number // -1 for no expiry, -2 when the key is missing
+  rightTtl?: number
+  changes?: KeyElementChange[]
+  comparable?: boolean // False for types compared by DUMP payload only, changes are then empty
+  tooLarge?: boolean // Not comparable because a side has too many elements to diff
+  truncated?: boolean // More changes than returned
+  error?: string
+}
+
+/**
+ * Sync Keys Request
+ * Keys missing on the source side are deleted on the destination side
+ */
+export interface SyncKeysRequestDto {
+  keys: string[]
+  hexKeys?: string[] // Keys that are not valid UTF-8, as hex
+  db?: number
+  targetConnectionId?: string
+  targetDb?: number
+  direction: KeyspaceSyncDirection
+}
+
+/**
+ * Sync Keys Response
+ */
+export type SyncKeysResponseDto = {
+  success: boolean
+  written?: number // Keys restored on the destination
+  deleted?: number // Keys removed from the destination because the source has none
+  failed?: string[]
+  message?: string
+  error?: string
+}
@@ -21,6 +21,7 @@ export interface Connection {
   database: number
   useTls: boolean
   isShared: boolean
+  keyDelimiter: string
   ownerId: string
   lastStatus: ConnectionStatus | null
   lastError: string | null
@@ -92,6 +93,7 @@ export interface CreateConnectionManualDto {
   database?: number
   useTls?: boolean
   isShared?: boolean
+  keyDelimiter?: string // Namespace separator for the key tree view (default: ':')
 }
 
 /**
@@ -2,6 +2,7 @@
  * Import/Export DTOs
  */
 
+import type { KeyEncoding } from './redis.dto'
 
 /**
  * Export Keys Request
@@ -10,6 +11,7 @@ export interface ExportKeysRequestDto {
   format: 'json' | 'csv'
   database?: number // 0-15, default: 0
   pattern?: string // Key pattern filter
+  patternEncoding?: KeyEncoding // Encoding of pattern, hex for patterns that are not valid UTF-8 (default: 'utf8')
   type?: string // Redis data type filter
   includeTTL?: boolean // Include TTL in export
   includeValues?: boolean // Include values in export
@@ -186,8 +188,10 @@ export interface ImportPreviewItem {
  */
 export interface ExportedKey {
   key: string
+  keyEncoding?: 'base64' // Set when the key is not valid UTF-8
   type: string
   value?: unknown
+  valueEncoding?: 'base64' // Set when the value holds bytes that are not valid UTF-8, every string in it is then base64
   ttl?: number
   database?: number
 }
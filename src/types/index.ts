@@ -14,6 +14,17 @@ export * from './redis.dto'
 export * from './audit.dto'
 export * from './settings.dto'
 export * from './import-export.dto'
+export * from './search.dto'
+export * from './migration.dto'
+export * from './compare.dto'
+export * from './bulk-job.dto'
+export * from './recycle-bin.dto'
+export * from './key-history.dto'
+export * from './change-set.dto'
+export * from './pubsub.dto'
+export * from './keyspace-events.dto'
+export * from './cli.dto'
+export * from './monitor.dto'
 export * from './system.dto'
 export * from './validation.dto'
 // Validation schemas
@@ -0,0 +1,65 @@
+/**
+ * Key History DTOs
+ */
+
+import type { KeyEncoding } from './redis.dto'
+
+/**
+ * Edit that produced a history entry
+ */
+export type KeyHistoryOperation = 'create' | 'update' | 'ttl' | 'rename' | 'rollback'
+
+/**
+ * State of a key at one point in time
+ */
+export interface KeySnapshot {
+  key: string // Key name at the time, escaped (\xNN) when it is not valid UTF-8
+  type: string // Data type, the raw TYPE reply for types the editors do not know
+  ttl?: number // Seconds left, unset for no expiry
+  value?: unknown // Same shape as an update request value, unset when omitted
+  valueHex?: unknown // Set when the value is not valid UTF-8: a string as hex, or `value`'s shape with every element as hex
+  omitted?: 'size' | 'type' // Why the value was not kept: over the size limit, or no whole-value form
+}
+
+/**
+ * One recorded edit of a key, newest first in the timeline
+ */
+export interface KeyHistoryEntry {
+  id: string
+  operation: KeyHistoryOperation
+  before: KeySnapshot | null // Null when the key did not exist before the edit
+  after: KeySnapshot | null // Null when the key did not exist after the edit
+  auditLogId?: string
+  changedBy?: string // Username
+  changedAt: string
+}
+
+/**
+ * Key History Query
+ */
+export interface KeyHistoryQueryDto {
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  db?: number // Database number (default: 0)
+  limit?: number // Default: 50
+}
+
+export type KeyHistoryResponseDto = {
+  success: boolean
+  entries?: KeyHistoryEntry[]
+  error?: string
+}
+
+/**
+ * Roll Back Key Request
+ */
+export interface RollbackKeyRequestDto {
+  version?: 'before' | 'after' // Snapshot of the entry to restore (default: 'before', undoing the edit)
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  db?: number // Database number (default: 0)
+}
+
+export type RollbackKeyResponseDto = {
+  success: boolean
+  message?: string
+  error?: string
+}
@@ -0,0 +1,40 @@
+/**
+ * Keyspace Notification DTOs
+ */
+
+/**
+ * notify-keyspace-events setting of the server
+ */
+export type KeyspaceNotificationsResponseDto = {
+  success: boolean
+  flags?: string // CONFIG GET notify-keyspace-events, empty when notifications are off
+  keyspace?: boolean // K, events published on __keyspace@<db>__:<key>
+  keyevent?: boolean // E, events published on __keyevent@<db>__:<event>
+  message?: string
+  error?: string
+}
+
+/**
+ * Update Keyspace Notifications Request
+ */
+export interface UpdateKeyspaceNotificationsRequestDto {
+  flags: string // CONFIG SET notify-keyspace-events, empty turns notifications off
+}
+
+/**
+ * Keyspace Events Query, the response is a server-sent event stream
+ */
+export interface KeyspaceEventsQueryDto {
+  db?: number
+  pattern?: string // Key pattern (default: all keys)
+}
+
+/**
+ * Data of a `message` event on the keyspace event stream
+ */
+export interface KeyspaceEvent {
+  key: string // Escaped (\xNN) when the name is not valid UTF-8
+  event: string // set, del, expired, evicted, ...
+  db: number
+  receivedAt: string
+}
@@ -0,0 +1,85 @@
+/**
+ * Keyspace Migration DTOs
+ */
+
+
+/**
+ * What to do with keys that already exist in the target
+ */
+export type MigrationConflictPolicy = 'skip' | 'replace' | 'rename'
+
+export type MigrationStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * Start Migration Request
+ */
+export interface StartMigrationRequestDto {
+  sourceConnectionId: string
+  sourceDb?: number // Default: 0
+  pattern: string // MATCH pattern on the source, e.g. "tenant:42:*"
+  targetConnectionId: string
+  targetDb?: number // Default: the source database
+  conflictPolicy?: MigrationConflictPolicy // Default: skip
+  renameSuffix?: string // Appended to conflicting keys with the rename policy (default: ':migrated')
+  batchSize?: number // Keys per SCAN batch (default: 100)
+  delayMs?: number // Pause between batches to limit load on both servers (default: 0)
+}
+
+/**
+ * Start Migration Response
+ */
+export type StartMigrationResponseDto = {
+  success: boolean
+  migrationId?: string
+  message?: string
+  error?: string
+}
+
+/**
+ * Migration Status Response
+ */
+export interface MigrationStatusResponseDto {
+  success: boolean
+  migrationId?: string
+  status?: MigrationStatus
+  progress?: number // 0-100, estimated from the share of the keyspace scanned
+  matched?: number // Keys matching the pattern so far
+  migrated?: number // Keys written to the target, including renamed ones
+  renamed?: number // Keys written under a new name because the original existed
+  skipped?: number // Keys left alone because they existed in the target
+  failed?: number
+  failedKeys?: string[] // First failed keys, with the reason
+  startedAt?: string
+  completedAt?: string
+  error?: string
+}
+
+/**
+ * Cancel Migration Response
+ */
+export type CancelMigrationResponseDto = {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+/**
+ * Migration Job (in-memory tracking)
+ */
+export interface MigrationJob {
+  id: string
+  userId: string
+  request: StartMigrationRequestDto
+  status: MigrationStatus
+  progress: number // 0-100
+  matched: number
+  migrated: number
+  renamed: number
+  skipped: number
+  failed: number
+  failedKeys: string[]
+  cancelRequested: boolean
+  createdAt: Date
+  completedAt?: Date
+  error?: string
+}
@@ -0,0 +1,56 @@
+/**
+ * MONITOR DTOs
+ */
+
+/**
+ * Monitor Query, the response is a server-sent event stream
+ */
+export interface MonitorQueryDto {
+  duration?: number // Seconds until the stream ends by itself (default: 60)
+  sample?: number // Share of the matching commands that is sent, 0 < sample <= 1 (default: 1)
+  commands?: string[] // Command names, case-insensitive (default: all)
+  pattern?: string // Glob matched against the first argument, the key of most commands
+  client?: string // Part of the client address, e.g. 10.0.0.5 or :6379
+  db?: number // Only commands run in this database
+}
+
+/**
+ * Data of the `started` event on the monitor stream
+ */
+export interface MonitorStarted {
+  startedAt: string
+  endsAt: string
+}
+
+/**
+ * Data of a `message` event on the monitor stream, one command the server ran
+ */
+export interface MonitorCommand {
+  time: string
+  db: number
+  client: string // Address of the client, or lua for commands run by scripts
+  command: string // Upper case
+  args: string[]
+}
+
+export interface MonitorCommandCount {
+  command: string
+  count: number
+}
+
+/**
+ * Data of the `summary` event, counted before sampling
+ */
+export interface MonitorSummary {
+  seen: number // Every command the server ran
+  matched: number // Commands that passed the filters
+  sent: number // Matching commands kept by sampling
+  commands: MonitorCommandCount[] // Most frequent matching commands
+}
+
+/**
+ * Data of the `ended` event, the server closes the stream right after it
+ */
+export interface MonitorEnded {
+  reason: string
+}
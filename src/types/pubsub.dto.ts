@@ -0,0 +1,58 @@
+/**
+ * Pub/Sub DTOs
+ */
+
+/**
+ * Channel with at least one subscriber
+ */
+export interface PubSubChannel {
+  channel: string // Escaped (\xNN) when the name is not valid UTF-8
+  subscribers: number // PUBSUB NUMSUB, pattern subscribers are not counted
+}
+
+/**
+ * List Pub/Sub Channels Query
+ */
+export interface ListPubSubChannelsQueryDto {
+  pattern?: string // PUBSUB CHANNELS pattern (default: all channels)
+}
+
+export type ListPubSubChannelsResponseDto = {
+  success: boolean
+  channels?: PubSubChannel[]
+  patternSubscriptions?: number // PUBSUB NUMPAT, patterns subscribed across all clients
+  error?: string
+}
+
+/**
+ * Subscribe Query, the response is a server-sent event stream
+ */
+export interface PubSubSubscribeQueryDto {
+  channels?: string[] // SUBSCRIBE
+  patterns?: string[] // PSUBSCRIBE
+}
+
+/**
+ * Data of a `message` event on the subscribe stream
+ */
+export interface PubSubMessage {
+  channel: string
+  pattern?: string // Set when the message matched a pattern subscription
+  message: string // Escaped (\xNN) when the payload is not valid UTF-8
+  receivedAt: string
+}
+
+/**
+ * Publish Request
+ */
+export interface PublishMessageRequestDto {
+  channel: string
+  message: string
+}
+
+export type PublishMessageResponseDto = {
+  success: boolean
+  receivers?: number // Clients that received the message
+  message?: string
+  error?: string
+}
@@ -0,0 +1,69 @@
+/**
+ * Recycle Bin DTOs
+ */
+
+
+/**
+ * Operation that deleted a key: single delete, selection delete, prefix delete or pattern job
+ */
+export type DeletedKeySource = 'key' | 'bulk' | 'prefix' | 'pattern'
+
+/**
+ * Deleted key kept in the recycle bin, without its payload
+ */
+export interface DeletedKeyEntry {
+  id: string
+  key: string // Key name, escaped (\xNN) when it is not valid UTF-8
+  keyHex?: string // Key bytes as hex, only set when the key is not valid UTF-8
+  database: number
+  type: string // TYPE reply at deletion
+  pttl: number // Remaining TTL in milliseconds at deletion, -1 for no expiry
+  size: number // DUMP payload size in bytes
+  source: DeletedKeySource
+  deletedBy?: string // Username
+  deletedAt: string
+}
+
+/**
+ * List Deleted Keys Query
+ */
+export interface ListDeletedKeysQueryDto {
+  db?: number // Only this database, all databases when omitted
+  search?: string // Substring of the key name
+  page?: number // Default: 1
+  limit?: number // Default: 50
+}
+
+export type ListDeletedKeysResponseDto = {
+  success: boolean
+  entries?: DeletedKeyEntry[]
+  total?: number
+  page?: number
+  limit?: number
+  error?: string
+}
+
+/**
+ * Restore Deleted Key Request
+ */
+export interface RestoreDeletedKeyRequestDto {
+  newKey?: string // Restore under another name, the original name when omitted
+  replace?: boolean // Overwrite an existing key of the same name (default: false)
+}
+
+export type RestoreDeletedKeyResponseDto = {
+  success: boolean
+  key?: string
+  message?: string
+  error?: string
+}
+
+/**
+ * Purge Deleted Keys Response
+ */
+export type PurgeDeletedKeysResponseDto = {
+  success: boolean
+  purged?: number
+  message?: string
+  error?: string
+}
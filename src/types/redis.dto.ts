@@ -4,15 +4,27 @@
 
 
 /**
- * Redis data types
+ * Redis data types, module types (RedisJSON, RedisTimeSeries, RedisBloom) included
  */
-export type RedisDataType = 'string' | 'hash' | 'list' | 'set' | 'zset' | 'stream'
+export type RedisDataType =
+  | 'string' | 'hash' | 'list' | 'set' | 'zset' | 'stream'
+  | 'json' | 'timeseries'
+  | ProbabilisticDataType
+
+// HyperLogLog (a string to TYPE) and the RedisBloom module types
+export type ProbabilisticDataType = 'hyperloglog' | 'bloom' | 'cuckoo' | 'cms' | 'topk'
+
+/**
+ * How a key name is sent in requests: as text, or as hex for keys that are not valid UTF-8
+ */
+export type KeyEncoding = 'utf8' | 'hex'
 
 /**
  * Key information
  */
 export interface RedisKey {
-  key: string
+  key: string // Key name, escaped (\xNN) when it is not valid UTF-8
+  keyHex?: string // Key bytes as hex, only set when the key is not valid UTF-8
   type: RedisDataType
   ttl?: number // -1 for no expiry, -2 for non-existent
   size?: number // memory usage in bytes
@@ -45,6 +57,23 @@ export type ListDatabasesResponseDto = {
   error?: string
 }
 
+/**
+ * Loaded Redis module (MODULE LIST)
+ */
+export interface RedisModule {
+  name: string // Module name, e.g. "ReJSON", "search", "timeseries"
+  version: number
+}
+
+/**
+ * List Modules Response
+ */
+export type ListModulesResponseDto = {
+  success: boolean
+  modules?: RedisModule[]
+  error?: string
+}
+
 /**
  * Redis Info Overview Response
  */
@@ -144,18 +173,17 @@ export type FlushAllResponseDto = {
 export interface ListKeysQueryDto {
   pattern?: string // Redis pattern (e.g., user:*, session:*)
   type?: RedisDataType[] // Filter by types
-  cursor?: string // SCAN cursor for pagination
-  count?: number // Number of keys per SCAN (default: 100)
-  page?: number // Page number (for frontend pagination)
-  limit?: number // Items per page (default: 25, max: 1000)
+  cursor?: string // Continuation token from the previous page (omit for the first page)
+  count?: number // COUNT hint passed to each SCAN call (default: 100)
+  limit?: number // Keys per page (default: 25, max: 1000)
   db?: number // Database number (default: 0)
 }
 
 export type ListKeysResponseDto = {
   success: boolean
   keys?: RedisKey[]
-  total?: number // Total estimated keys
-  cursor?: string // Next cursor for SCAN
+  total?: number // Approximate key count of the database (DBSIZE), ignores pattern and type filters
+  cursor?: string // Opaque continuation token for the next page
   hasMore?: boolean // Whether more keys are available
   error?: string
 }
@@ -165,13 +193,16 @@ export type ListKeysResponseDto = {
  */
 export interface GetKeyQueryDto {
   connectionId: string
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
   db?: number // Database number (default: 0)
 }
 
 export type GetKeyResponseDto = {
   success: boolean
   key?: RedisKey
-  value?: unknown // Type-specific value
+  value?: unknown // Type-specific value, escaped (\xNN) for string values that are not valid UTF-8
+  valueHex?: string // String value bytes as hex, only set when the value is not valid UTF-8
+  version?: string // Digest of the value (DUMP payload for non-string types), send it back with an update or element edit to detect concurrent edits
   error?: string
 }
 
@@ -197,12 +228,16 @@ export type CreateKeyResponseDto = {
  */
 export interface UpdateKeyRequestDto {
   value: unknown // Type-specific value
+  codecs?: ValueCodec[] // String keys: re-encode the value through this codec chain before writing
+  version?: string // Version from getKey, the update is rejected when the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
   db?: number // Database number (default: 0)
 }
 
 export type UpdateKeyResponseDto = {
   success: boolean
   message?: string
+  conflict?: boolean // The key no longer has the version the update was based on
   error?: string
 }
 
@@ -210,6 +245,7 @@ export type UpdateKeyResponseDto = {
  * Delete Key Request
  */
 export interface DeleteKeyRequestDto {
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
   db?: number // Database number (default: 0)
 }
 
@@ -224,6 +260,7 @@ export type DeleteKeyResponseDto = {
  */
 export interface SetTtlRequestDto {
   ttl?: number // TTL in seconds, undefined to remove
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
   db?: number // Database number (default: 0)
 }
 
@@ -239,6 +276,8 @@ export type SetTtlResponseDto = {
  */
 export interface RenameKeyRequestDto {
   newKey: string
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  newKeyEncoding?: KeyEncoding // Encoding of newKey (default: 'utf8')
   db?: number // Database number (default: 0)
   nx?: boolean // Don't overwrite if new key exists (RENAMENX)
 }
@@ -254,6 +293,7 @@ export type RenameKeyResponseDto = {
  */
 export interface BulkDeleteRequestDto {
   keys: string[]
+  hexKeys?: string[] // Additional keys given as hex, for names that are not valid UTF-8
   db?: number // Database number (default: 0)
 }
 
@@ -265,6 +305,90 @@ export type BulkDeleteResponseDto = {
   error?: string
 }
 
+/**
+ * Copy or move keys to another database or saved connection
+ */
+export interface CopyKeysRequestDto {
+  keys: string[]
+  hexKeys?: string[] // Additional keys given as hex, for names that are not valid UTF-8
+  db?: number // Source database number (default: 0)
+  mode?: 'copy' | 'move' // Default: copy
+  targetConnectionId?: string // Saved connection to copy to (default: the source connection)
+  targetDb?: number // Target database number (default: the source database)
+  newKey?: string // Target key name, only for a single key (default: the source name)
+  replace?: boolean // Overwrite keys that already exist in the target (default: false)
+}
+
+export type CopyKeysResponseDto = {
+  success: boolean
+  copied?: number // Keys written to the target
+  skipped?: string[] // Keys left alone because they exist in the target
+  failed?: string[] // Keys that failed to copy, or no longer exist
+  message?: string
+  error?: string
+}
+
+/**
+ * Namespace tree: one level of keys below a prefix
+ */
+export interface NamespaceQueryDto {
+  prefix?: string // Prefix of the level being expanded, including the trailing delimiter
+  prefixEncoding?: KeyEncoding // Encoding of prefix (default: 'utf8')
+  delimiter?: string // Namespace separator (default: ':')
+  cursor?: string // Continuation token when the previous scan ran out of budget
+  db?: number // Database number (default: 0)
+}
+
+export interface NamespaceNode {
+  name: string // Segment between the parent prefix and the next delimiter
+  prefix: string // Full prefix of the node, including the trailing delimiter
+  prefixHex?: string // Hex bytes of the prefix, set when it is not valid UTF-8
+  keyCount: number // Keys under the node seen by this scan
+  sampledKeys: number // Keys whose MEMORY USAGE was sampled
+  sampledBytes: number // Total memory of the sampled keys
+}
+
+export type NamespaceResponseDto = {
+  success: boolean
+  nodes?: NamespaceNode[] // Child prefixes, largest first (capped)
+  nodeCount?: number // Child prefixes seen by this scan, including those beyond the cap
+  keys?: RedisKey[] // Keys directly at this level (capped)
+  keyCount?: number // Keys directly at this level seen by this scan
+  scanned?: number // Keys examined by this scan
+  cursor?: string // Continuation token for the rest of the keyspace
+  hasMore?: boolean // Whether the scan stopped before covering the keyspace
+  error?: string
+}
+
+/**
+ * Bulk operations on every key under a prefix
+ */
+export interface PrefixBulkRequestDto {
+  prefix: string
+  prefixEncoding?: KeyEncoding // Encoding of prefix (default: 'utf8')
+  cursor?: string // Continuation token when the previous batch ran out of budget
+  db?: number // Database number (default: 0)
+}
+
+export interface PrefixTtlRequestDto extends PrefixBulkRequestDto {
+  ttl?: number // TTL in seconds, omit to remove expiration
+}
+
+export interface PrefixExportRequestDto extends Omit<PrefixBulkRequestDto, 'cursor'> {
+  format?: 'json' | 'csv' // Default: json
+}
+
+export type PrefixBulkResponseDto = {
+  success: boolean
+  matched?: number // Keys found under the prefix by this batch
+  affected?: number // Keys deleted or updated by this batch
+  cursor?: string // Continuation token for the next batch
+  hasMore?: boolean // Whether the batch stopped before covering the keyspace
+  exportId?: string // Export job to poll, for exports
+  message?: string
+  error?: string
+}
+
 /**
  * Type-specific value structures
  */
@@ -295,15 +419,582 @@ export interface ZSetValue {
   total: number
 }
 
-// Stream value
-export interface StreamValue {
-  entries: Array<{
-    id: string
-    fields: Record<string, string>
+/**
+ * Value Codecs
+ * A chain is listed outermost first, e.g. ['base64', 'gzip', 'json']
+ */
+export type ValueCodec = 'text' | 'json' | 'hex' | 'base64' | 'gzip' | 'zlib' | 'msgpack' | 'php' | 'java'
+
+export type ValueDecoder = 'auto' | 'raw' | ValueCodec
+
+/**
+ * Decode Value Query
+ * Decodes a string value, or a single hash field when field is set
+ */
+export interface DecodeValueQueryDto {
+  field?: string // Hash field to decode
+  fieldEncoding?: KeyEncoding // Encoding of field (default: 'utf8')
+  decoder?: ValueDecoder // Decoder to apply (default: 'auto')
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  db?: number // Database number (default: 0)
+}
+
+export type DecodedValueResponseDto = {
+  success: boolean
+  codecs?: ValueCodec[] // Codec chain applied, outermost first
+  text?: string // Decoded value, pretty-printed where the format allows
+  editable?: boolean // Whether the decoded text can be re-encoded and saved
+  size?: number // Stored size in bytes
+  error?: string
+}
+
+/**
+ * Collection Page Query
+ * Shared by the hash, list, set and sorted set paging endpoints
+ */
+export interface CollectionPageQueryDto {
+  cursor?: string // Opaque cursor from the previous page (default: '0', first page)
+  count?: number // Elements per page (default: 100, max: 1000)
+  match?: string // Glob-style filter on fields, members or list items
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  db?: number // Database number (default: 0)
+}
+
+type CollectionPageResponse = {
+  success: boolean
+  total?: number // Unfiltered number of elements (HLEN, LLEN, SCARD, ZCARD)
+  cursor?: string // Cursor of the next page, '0' when there are no more pages
+  hasMore?: boolean
+  error?: string
+}
+
+export type HashFieldsPageResponseDto = CollectionPageResponse & {
+  fields?: Array<{
+    field: string
+    fieldHex?: string // Field bytes as hex, only set when the field is not valid UTF-8
+    value: string
+    valueHex?: string // Value bytes as hex, only set when the value is not valid UTF-8
+    codecs?: ValueCodec[] // Detected encoding, only set when the value is not plain text
+  }>
+}
+
+export type ListItemsPageResponseDto = CollectionPageResponse & {
+  items?: Array<{
+    index: number
+    value: string
+    valueHex?: string // Item bytes as hex, only set when the item is not valid UTF-8
+  }>
+}
+
+export type SetMembersPageResponseDto = CollectionPageResponse & {
+  members?: Array<{
+    member: string
+    memberHex?: string // Member bytes as hex, only set when the member is not valid UTF-8
+  }>
+}
+
+export type ZSetMembersPageResponseDto = CollectionPageResponse & {
+  members?: Array<{
+    member: string
+    memberHex?: string // Member bytes as hex, only set when the member is not valid UTF-8
+    score: number
+  }>
+}
+
+/**
+ * Set Hash Fields Request (HSET, or HSETNX with onlyIfNew)
+ */
+export interface HashSetFieldsRequestDto {
+  fields: Record<string, string>
+  codecs?: ValueCodec[] // Re-encode every value through this codec chain before writing, values are then decoded text
+  onlyIfNew?: boolean // Leave existing fields untouched
+  expected?: Record<string, string> // Values the fields had when loaded, the edit is a conflict once one changed
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Delete Hash Fields Request (HDEL)
+ */
+export interface HashDeleteFieldsRequestDto {
+  fields: string[]
+  expected?: Record<string, string> // Values the fields had when loaded, the edit is a conflict once one changed
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Rename Hash Field Request
+ */
+export interface HashRenameFieldRequestDto {
+  field: string
+  newField: string
+  expected?: string // Value the field had when loaded, the rename is a conflict once it changed
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Set List Item Request (LSET)
+ */
+export interface ListSetItemRequestDto {
+  index: number // Negative indexes count from the tail
+  value: string
+  expected: string // Item at the index when loaded, the edit is a conflict once it changed
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Insert List Item Request (LINSERT)
+ */
+export interface ListInsertItemRequestDto {
+  pivot: string // First item equal to pivot is used as reference
+  position: 'BEFORE' | 'AFTER'
+  value: string
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Push List Items Request (LPUSH, RPUSH)
+ */
+export interface ListPushItemsRequestDto {
+  values: string[] // Kept in the given order at either end
+  position: 'head' | 'tail'
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Pop List Items Request (LPOP, RPOP)
+ */
+export interface ListPopItemsRequestDto {
+  position: 'head' | 'tail'
+  count?: number // Items to pop (default: 1)
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Remove List Items Request
+ * With index only the item at that position is removed, provided it still equals value.
+ * Without index behaves like LREM.
+ */
+export interface ListRemoveItemsRequestDto {
+  value: string
+  index?: number
+  count?: number // LREM count: 0 removes all, > 0 from head, < 0 from tail (default: 0)
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Add or Remove Set Members Request (SADD, SREM)
+ */
+export interface SetMembersRequestDto {
+  members: string[]
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Rename Set Member Request
+ */
+export interface SetRenameMemberRequestDto {
+  member: string
+  newMember: string
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Add Sorted Set Members Request (ZADD)
+ */
+export interface ZSetAddMembersRequestDto {
+  members: Array<{
+    member: string
+    score: number
+  }>
+  condition?: 'NX' | 'XX' | 'GT' | 'LT' // NX only adds, XX only updates, GT/LT only move scores up/down
+  expected?: Record<string, number> // Scores the members had when loaded, the edit is a conflict once one changed
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Increment Sorted Set Member Score Request (ZINCRBY)
+ */
+export interface ZSetIncrementRequestDto {
+  member: string
+  increment: number
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Remove Sorted Set Members Request (ZREM)
+ */
+export interface ZSetRemoveMembersRequestDto {
+  members: string[]
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Rename Sorted Set Member Request, keeps the score
+ */
+export interface ZSetRenameMemberRequestDto {
+  member: string
+  newMember: string
+  expectedScore?: number // Score the member had when loaded, the rename is a conflict once it changed
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  keyEncoding?: KeyEncoding // Encoding of the key in the path (default: 'utf8')
+  elementEncoding?: KeyEncoding // 'hex' when fields, members and items (expected ones too) are sent as hex
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Read a JSON document at a JSONPath (JSON.GET)
+ */
+export interface JsonPathQueryDto {
+  path?: string // JSONPath, defaults to the root ($)
+  db?: number // Database number (default: 0)
+}
+
+export type JsonValueResponseDto = {
+  success: boolean
+  path?: string
+  value?: unknown // First match of the path
+  matches?: number // Number of values the path matched
+  error?: string
+}
+
+/**
+ * Set a value at a JSONPath Request (JSON.SET)
+ */
+export interface JsonSetRequestDto {
+  path: string
+  value: string // JSON text
+  condition?: 'NX' | 'XX' // NX only creates the path, XX only replaces an existing value
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Append to the arrays at a JSONPath Request (JSON.ARRAPPEND)
+ */
+export interface JsonArrAppendRequestDto {
+  path: string
+  values: string[] // JSON text of each appended value
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Delete the values at a JSONPath Request (JSON.DEL)
+ */
+export interface JsonDeleteRequestDto {
+  path: string
+  version?: string // Version from getKey, the edit is a conflict once the key changed since
+  db?: number // Database number (default: 0)
+}
+
+// Compaction rule of a time series, samples are aggregated into destKey
+export interface TimeSeriesRule {
+  destKey: string
+  bucketDuration: number // Milliseconds
+  aggregation: string
+  alignTimestamp?: number
+}
+
+// Time series value (TS.INFO metadata only, samples are read through the range endpoint)
+export interface TimeSeriesValue {
+  totalSamples: number
+  memoryUsage?: number
+  firstTimestamp?: number
+  lastTimestamp?: number
+  retentionTime: number // Milliseconds, 0 keeps samples forever
+  chunkCount?: number
+  chunkSize?: number
+  duplicatePolicy?: string
+  labels: Record<string, string>
+  sourceKey?: string // Series this one is compacted from
+  rules: TimeSeriesRule[]
+}
+
+export type TimeSeriesAggregation =
+  | 'avg' | 'sum' | 'min' | 'max' | 'range' | 'count' | 'first' | 'last'
+  | 'std.p' | 'std.s' | 'var.p' | 'var.s' | 'twa'
+
+export interface TimeSeriesSample {
+  timestamp: number // Milliseconds since epoch
+  value: number
+}
+
+/**
+ * Time Series Range Query (TS.RANGE)
+ */
+export interface TimeSeriesRangeQueryDto {
+  from?: number // Milliseconds, the first sample when omitted
+  to?: number // Milliseconds, the last sample when omitted
+  aggregation?: TimeSeriesAggregation
+  bucketDuration?: number // Milliseconds, required with aggregation
+  count?: number // Maximum samples or buckets (default: 1000)
+  db?: number // Database number (default: 0)
+}
+
+export type TimeSeriesRangeResponseDto = {
+  success: boolean
+  samples?: TimeSeriesSample[]
+  error?: string
+}
+
+/**
+ * Multi Series Range Query (TS.MRANGE)
+ */
+export interface TimeSeriesMRangeQueryDto extends TimeSeriesRangeQueryDto {
+  filter: string // Label filters separated by spaces, e.g. sensor=temp area=(north,south)
+}
+
+export interface TimeSeriesData {
+  key: string
+  labels: Record<string, string>
+  samples: TimeSeriesSample[]
+}
+
+export type TimeSeriesMRangeResponseDto = {
+  success: boolean
+  series?: TimeSeriesData[]
+  error?: string
+}
+
+/**
+ * Add a sample Request (TS.ADD)
+ */
+export interface TimeSeriesAddRequestDto {
+  timestamp?: number // Milliseconds, the server time when omitted
+  value: number
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Delete samples in a time range Request (TS.DEL)
+ */
+export interface TimeSeriesDeleteRequestDto {
+  from: number
+  to: number
+  db?: number // Database number (default: 0)
+}
+
+// Probabilistic value: the INFO reply of the RedisBloom types, the PFCOUNT estimate of HyperLogLogs
+export interface ProbabilisticValue {
+  info: Record<string, number | string> // e.g. { Capacity: 1000, Size: 2048 } from BF.INFO, { Count: 42 } for HyperLogLogs
+  topItems?: Array<{ item: string; count: number }> // TOPK.LIST WITHCOUNT
+}
+
+/**
+ * Add items Request (PFADD, BF.MADD, CF.ADD, CMS.INCRBY, TOPK.ADD)
+ */
+export interface ProbabilisticAddRequestDto {
+  items: string[]
+  increments?: number[] // Count-Min Sketch only, 1 per item when omitted
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Look up items Query (BF.MEXISTS, CF.MEXISTS, CMS.QUERY, TOPK.QUERY)
+ */
+export interface ProbabilisticQueryDto {
+  items: string[]
+  db?: number // Database number (default: 0)
+}
+
+export interface ProbabilisticItemResult {
+  item: string
+  exists?: boolean // Bloom and Cuckoo: may be in the filter, Top-K: currently in the top list
+  count?: number // Count-Min Sketch estimate
+}
+
+export type ProbabilisticQueryResponseDto = {
+  success: boolean
+  results?: ProbabilisticItemResult[]
+  error?: string
+}
+
+/**
+ * Delete items from a Cuckoo filter Request (CF.DEL)
+ */
+export interface CuckooDeleteRequestDto {
+  items: string[]
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Merge other HyperLogLogs into this one Request (PFMERGE)
+ */
+export interface HyperLogLogMergeRequestDto {
+  sources: string[]
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Bitmap Page Query, bits of a string value
+ */
+export interface BitmapPageQueryDto {
+  offset?: number // First bit, rounded down to a whole byte (default: 0)
+  count?: number // Number of bits, rounded up to whole bytes (default: 1024)
+  db?: number // Database number (default: 0)
+}
+
+export type BitmapPageResponseDto = {
+  success: boolean
+  offset?: number // First bit of the page
+  bits?: string // "0" and "1" per bit, shorter than requested at the end of the value
+  length?: number // Total bits in the value (STRLEN * 8)
+  bitCount?: number // Set bits in the whole value (BITCOUNT)
+  error?: string
+}
+
+/**
+ * Bitmap Position Query (BITPOS)
+ */
+export interface BitmapPositionQueryDto {
+  bit: 0 | 1
+  from?: number // Bit offset to search from, rounded down to a whole byte (default: 0)
+  db?: number // Database number (default: 0)
+}
+
+export type BitmapPositionResponseDto = {
+  success: boolean
+  position?: number // -1 when no such bit exists
+  error?: string
+}
+
+/**
+ * Set a bit Request (SETBIT)
+ */
+export interface BitmapSetBitRequestDto {
+  offset: number
+  value: 0 | 1
+  db?: number // Database number (default: 0)
+}
+
+// Member of a sorted set used as a geo index, the score decoded by GEOPOS
+export interface GeoMember {
+  member: string
+  longitude: number
+  latitude: number
+  distance?: number // Distance from the search center in the search unit
+}
+
+/**
+ * Geo Members Page Query, members in rank order (ZRANGE + GEOPOS)
+ */
+export interface GeoPageQueryDto {
+  offset?: number // Rank of the first member (default: 0)
+  count?: number // Members per page (default: 100)
+  db?: number // Database number (default: 0)
+}
+
+export type GeoMembersPageResponseDto = {
+  success: boolean
+  members?: GeoMember[]
+  total?: number
+  offset?: number
+  error?: string
+}
+
+export type GeoUnit = 'm' | 'km' | 'mi' | 'ft'
+
+/**
+ * Geo Search Query (GEOSEARCH), centered on a member or a position
+ */
+export interface GeoSearchQueryDto {
+  member?: string // FROMMEMBER, takes precedence over longitude/latitude
+  longitude?: number // FROMLONLAT
+  latitude?: number
+  radius?: number // BYRADIUS
+  width?: number // BYBOX, used when radius is omitted
+  height?: number
+  unit?: GeoUnit // Default: km
+  count?: number // Nearest first (default: 100)
+  db?: number // Database number (default: 0)
+}
+
+export type GeoSearchResponseDto = {
+  success: boolean
+  members?: GeoMember[] // Nearest first
+  error?: string
+}
+
+/**
+ * Add or move geo members Request (GEOADD)
+ */
+export interface GeoAddRequestDto {
+  members: Array<{
+    member: string
+    longitude: number
+    latitude: number
   }>
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Response of the element level hash, list, set, sorted set and JSON edits
+ */
+export type ElementEditResponseDto = {
+  success: boolean
+  affected?: number // Elements added, changed or removed
+  length?: number // Collection length after the edit
+  values?: string[] // Popped list items, items a Top-K add expelled
+  score?: number // Member score after ZINCRBY
+  skipped?: string[] // Hash fields left untouched because they already exist (onlyIfNew)
+  conflict?: boolean // An element changed since the editor loaded it
+  message?: string
+  error?: string
+}
+
+// Stream entry
+export interface StreamEntry {
+  id: string
+  fields: Record<string, string>
+}
+
+// Stream value (first page of entries only, use the stream range endpoint for more)
+export interface StreamValue {
+  entries: StreamEntry[]
   total: number
   lastId?: string
   firstId?: string
+  nextId?: string // Start ID of the next page
+  hasMore?: boolean
+  groups?: number // Number of consumer groups
 }
 
 /**
@@ -396,3 +1087,211 @@ export type StreamOperationResponseDto = {
   message?: string
   error?: string
 }
+
+/**
+ * Stream Range Query
+ */
+export interface StreamRangeQueryDto {
+  start?: string // Inclusive start ID (default: '-', or '+' when reverse)
+  end?: string // Inclusive end ID (default: '+', or '-' when reverse)
+  count?: number // Entries per page (default: 50, max: 1000)
+  reverse?: boolean // Newest first (XREVRANGE)
+  db?: number // Database number (default: 0)
+}
+
+export type StreamRangeResponseDto = {
+  success: boolean
+  entries?: StreamEntry[]
+  total?: number // Stream length (XLEN)
+  firstId?: string
+  lastId?: string
+  nextId?: string // Start ID of the next page
+  hasMore?: boolean
+  error?: string
+}
+
+/**
+ * Stream Add Entry Request
+ */
+export interface StreamAddEntryRequestDto {
+  id?: string // Entry ID (default: '*' for auto-generated)
+  fields: Record<string, string>
+  maxLen?: number // Cap the stream length while adding (MAXLEN ~)
+  db?: number // Database number (default: 0)
+}
+
+export type StreamAddEntryResponseDto = {
+  success: boolean
+  id?: string // ID of the added entry
+  message?: string
+  error?: string
+}
+
+/**
+ * Stream Delete Entries Request
+ */
+export interface StreamDeleteEntriesRequestDto {
+  ids: string[]
+  db?: number // Database number (default: 0)
+}
+
+export type StreamDeleteEntriesResponseDto = {
+  success: boolean
+  deleted?: number // Number of entries deleted
+  message?: string
+  error?: string
+}
+
+/**
+ * Stream Trim Request
+ */
+export interface StreamTrimRequestDto {
+  strategy: 'MAXLEN' | 'MINID'
+  threshold: string // Max length for MAXLEN, lowest kept ID for MINID
+  approximate?: boolean // Use '~' for efficient, approximate trimming
+  db?: number // Database number (default: 0)
+}
+
+export type StreamTrimResponseDto = {
+  success: boolean
+  trimmed?: number // Number of entries evicted
+  total?: number // Stream length after trimming
+  message?: string
+  error?: string
+}
+
+/**
+ * Stream consumer group (XINFO GROUPS)
+ */
+export interface StreamConsumerGroup {
+  name: string
+  consumers: number
+  pending: number // Entries delivered but not yet acknowledged
+  lastDeliveredId: string
+  entriesRead?: number // Redis 7.0+
+  lag?: number // Entries not yet delivered, Redis 7.0+
+}
+
+/**
+ * Stream consumer (XINFO CONSUMERS)
+ */
+export interface StreamConsumer {
+  name: string
+  pending: number
+  idle: number // Milliseconds since the last attempted interaction
+  inactive?: number // Milliseconds since the last successful interaction, Redis 7.2+
+}
+
+/**
+ * Pending entry of a consumer group (XPENDING)
+ */
+export interface StreamPendingEntry {
+  id: string
+  consumer: string
+  idle: number // Milliseconds since last delivery
+  deliveries: number
+}
+
+export interface StreamPendingSummary {
+  count: number
+  minId?: string
+  maxId?: string
+  consumers: Array<{
+    name: string
+    pending: number
+  }>
+}
+
+export type ListStreamGroupsResponseDto = {
+  success: boolean
+  groups?: StreamConsumerGroup[]
+  error?: string
+}
+
+export type ListStreamConsumersResponseDto = {
+  success: boolean
+  consumers?: StreamConsumer[]
+  error?: string
+}
+
+/**
+ * Stream Pending Entries Query
+ */
+export interface StreamPendingQueryDto {
+  consumer?: string // Only entries owned by this consumer
+  start?: string // Inclusive start ID (default: '-')
+  end?: string // Inclusive end ID (default: '+')
+  count?: number // Entries per page (default: 50, max: 1000)
+  minIdle?: number // Minimum idle time in milliseconds
+  db?: number // Database number (default: 0)
+}
+
+export type StreamPendingResponseDto = {
+  success: boolean
+  summary?: StreamPendingSummary
+  entries?: StreamPendingEntry[]
+  nextId?: string // Start ID of the next page
+  hasMore?: boolean
+  error?: string
+}
+
+/**
+ * Create Consumer Group Request
+ */
+export interface CreateStreamGroupRequestDto {
+  group: string
+  id?: string // Last delivered ID to start from (default: '$', only new entries)
+  mkStream?: boolean // Create the stream if it does not exist
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Set Consumer Group Last-Delivered ID Request
+ */
+export interface SetStreamGroupIdRequestDto {
+  id: string // New last delivered ID ('$' for the end of the stream, '0' to replay everything)
+  db?: number // Database number (default: 0)
+}
+
+export type StreamGroupResponseDto = {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+/**
+ * Acknowledge Pending Entries Request
+ */
+export interface StreamAckRequestDto {
+  ids: string[]
+  db?: number // Database number (default: 0)
+}
+
+export type StreamAckResponseDto = {
+  success: boolean
+  acknowledged?: number
+  message?: string
+  error?: string
+}
+
+/**
+ * Claim Pending Entries Request
+ * With ids uses XCLAIM, without ids uses XAUTOCLAIM starting at `start`
+ */
+export interface StreamClaimRequestDto {
+  consumer: string // Consumer that takes ownership
+  minIdleTime: number // Only claim entries idle for at least this many milliseconds
+  ids?: string[] // Specific entries to claim (XCLAIM)
+  start?: string // XAUTOCLAIM start ID (default: '0-0')
+  count?: number // XAUTOCLAIM batch size (default: 100)
+  db?: number // Database number (default: 0)
+}
+
+export type StreamClaimResponseDto = {
+  success: boolean
+  claimed?: string[] // IDs now owned by the consumer
+  deleted?: string[] // Pending IDs whose entries no longer exist (XAUTOCLAIM, Redis 7.0+)
+  nextStart?: string // XAUTOCLAIM cursor, '0-0' when the scan is complete
+  message?: string
+  error?: string
+}
@@ -0,0 +1,45 @@
+/**
+ * Pattern Bulk Job Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+/**
+ * Start Bulk Job Schema
+ */
+export const startBulkJobSchema = t.Object({
+  connectionId: t.String({ minLength: 1 }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  })),
+  pattern: t.String({
+    minLength: 1,
+    maxLength: 512,
+    error: 'A key pattern is required'
+  }),
+  operation: t.Union([
+    t.Literal('delete'),
+    t.Literal('expire'),
+    t.Literal('persist')
+  ]),
+  ttl: t.Optional(t.Integer({
+    minimum: 1,
+    error: 'TTL must be a positive number of seconds'
+  })),
+  dryRun: t.Optional(t.Boolean({ default: false })),
+  dryRunId: t.Optional(t.String({ minLength: 1 })),
+  confirmation: t.Optional(t.String({ maxLength: 512 })),
+  captureAll: t.Optional(t.Boolean({ default: false })),
+  batchSize: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 5000,
+    default: 500
+  })),
+  delayMs: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 60000,
+    default: 0
+  }))
+})
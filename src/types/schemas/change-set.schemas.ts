@@ -0,0 +1,71 @@
+/**
+ * Change Set Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+const key = t.String({ minLength: 1 })
+
+const keyEncoding = t.Optional(t.Union([
+  t.Literal('utf8'),
+  t.Literal('hex')
+], { default: 'utf8' }))
+
+const changeSetFields = {
+  operations: t.Array(t.Union([
+    t.Object({
+      op: t.Literal('set'),
+      key,
+      keyEncoding,
+      value: t.String()
+    }),
+    t.Object({
+      op: t.Literal('hset'),
+      key,
+      keyEncoding,
+      fields: t.Record(t.String(), t.String(), { minProperties: 1 })
+    }),
+    t.Object({
+      op: t.Literal('hdel'),
+      key,
+      keyEncoding,
+      fields: t.Array(t.String(), { minItems: 1 })
+    }),
+    t.Object({
+      op: t.Literal('expire'),
+      key,
+      keyEncoding,
+      ttl: t.Union([t.Integer({ minimum: 1 }), t.Null()])
+    }),
+    t.Object({
+      op: t.Literal('rename'),
+      key,
+      keyEncoding,
+      newKey: key,
+      newKeyEncoding: keyEncoding
+    }),
+    t.Object({
+      op: t.Literal('delete'),
+      key,
+      keyEncoding
+    })
+  ]), { minItems: 1, maxItems: 500 }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+}
+
+/**
+ * Change Set Schema, for the preview
+ */
+export const changeSetSchema = t.Object(changeSetFields)
+
+/**
+ * Apply Change Set Schema, with the key versions the preview returned
+ */
+export const applyChangeSetSchema = t.Object({
+  ...changeSetFields,
+  versions: t.Record(t.String(), t.String())
+})
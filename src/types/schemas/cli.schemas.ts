@@ -0,0 +1,17 @@
+/**
+ * CLI Console Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+/**
+ * Execute Command Schema
+ */
+export const executeCommandSchema = t.Object({
+  command: t.String({ minLength: 1, maxLength: 65536 }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
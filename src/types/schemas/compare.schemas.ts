@@ -0,0 +1,69 @@
+/**
+ * Keyspace Compare Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+const database = t.Integer({
+  minimum: 0,
+  maximum: 15
+})
+
+const direction = t.Union([
+  t.Literal('left_to_right'),
+  t.Literal('right_to_left')
+])
+
+/**
+ * Compare Keyspaces Schema
+ */
+export const compareKeyspacesSchema = t.Object({
+  db: t.Optional(database),
+  targetConnectionId: t.Optional(t.String({ minLength: 1 })),
+  targetDb: t.Optional(database),
+  pattern: t.Optional(t.String({
+    minLength: 1,
+    maxLength: 512,
+    default: '*'
+  })),
+  maxKeys: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 100000,
+    default: 10000
+  }))
+})
+
+/**
+ * Key Diff Query Schema
+ */
+export const keyDiffSchema = t.Object({
+  db: t.Optional(database),
+  targetConnectionId: t.Optional(t.String({ minLength: 1 })),
+  targetDb: t.Optional(database),
+  keyEncoding: t.Optional(t.Union([
+    t.Literal('utf8'),
+    t.Literal('hex')
+  ], { default: 'utf8' }))
+})
+
+/**
+ * Sync Keys Schema
+ */
+export const syncKeysSchema = t.Object({
+  keys: t.Array(t.String({
+    minLength: 1,
+    maxLength: 512
+  }), {
+    maxItems: 1000,
+    error: 'Must provide at most 1000 keys to sync'
+  }),
+  hexKeys: t.Optional(t.Array(t.String({
+    minLength: 2,
+    maxLength: 1024,
+    pattern: '^([0-9a-fA-F]{2})+$'
+  }), { maxItems: 1000 })),
+  db: t.Optional(database),
+  targetConnectionId: t.Optional(t.String({ minLength: 1 })),
+  targetDb: t.Optional(database),
+  direction
+})
@@ -14,6 +14,7 @@ export const manualConnectionSchema = t.Object({
   database: t.Optional(t.Number({ minimum: 0, maximum: 15 })),
   useTls: t.Optional(t.Boolean()),
   isShared: t.Optional(t.Boolean()),
+  keyDelimiter: t.Optional(t.String({ minLength: 1, maxLength: 8 })),
 })
 
 export const connectionStringSchema = t.Object({
@@ -56,4 +57,5 @@ export const updateConnectionSchema = t.Object({
   database: t.Optional(t.Number({ minimum: 0, maximum: 15 })),
   useTls: t.Optional(t.Boolean()),
   isShared: t.Optional(t.Boolean()),
+  keyDelimiter: t.Optional(t.String({ minLength: 1, maxLength: 8 })),
 })
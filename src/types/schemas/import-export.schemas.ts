@@ -23,6 +23,10 @@ export const exportKeysSchema = t.Object({
     minLength: 1,
     maxLength: 1000
   })),
+  patternEncoding: t.Optional(t.Union([
+    t.Literal('utf8'),
+    t.Literal('hex')
+  ], { default: 'utf8' })),
   type: t.Optional(t.String({
     minLength: 1,
     maxLength: 50
@@ -9,3 +9,14 @@ export * from './redis.schemas'
 export * from './audit.schemas'
 export * from './settings.schemas'
 export * from './import-export.schemas'
+export * from './search.schemas'
+export * from './migration.schemas'
+export * from './compare.schemas'
+export * from './bulk-job.schemas'
+export * from './recycle-bin.schemas'
+export * from './key-history.schemas'
+export * from './change-set.schemas'
+export * from './pubsub.schemas'
+export * from './keyspace-events.schemas'
+export * from './cli.schemas'
+export * from './monitor.schemas'
@@ -0,0 +1,43 @@
+/**
+ * Key History Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+const keyEncoding = t.Optional(t.Union([
+  t.Literal('utf8'),
+  t.Literal('hex')
+], { default: 'utf8' }))
+
+/**
+ * Key History Query Schema
+ */
+export const keyHistoryQuerySchema = t.Object({
+  keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  })),
+  limit: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 200,
+    default: 50
+  }))
+})
+
+/**
+ * Roll Back Key Schema
+ */
+export const rollbackKeySchema = t.Object({
+  version: t.Optional(t.Union([
+    t.Literal('before'),
+    t.Literal('after')
+  ], { default: 'before' })),
+  keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
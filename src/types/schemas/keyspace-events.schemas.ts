@@ -0,0 +1,24 @@
+/**
+ * Keyspace Notification Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+/**
+ * Update Keyspace Notifications Schema, the notify-keyspace-events flag classes
+ */
+export const updateKeyspaceNotificationsSchema = t.Object({
+  flags: t.String({ pattern: '^[KEg$lshzxetmdnA]*$', maxLength: 32 })
+})
+
+/**
+ * Keyspace Events Query Schema
+ */
+export const keyspaceEventsSchema = t.Object({
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  })),
+  pattern: t.Optional(t.String({ minLength: 1, maxLength: 512 }))
+})
@@ -0,0 +1,44 @@
+/**
+ * Keyspace Migration Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+const database = t.Integer({
+  minimum: 0,
+  maximum: 15
+})
+
+/**
+ * Start Migration Schema
+ */
+export const startMigrationSchema = t.Object({
+  sourceConnectionId: t.String({ minLength: 1 }),
+  sourceDb: t.Optional(database),
+  pattern: t.String({
+    minLength: 1,
+    maxLength: 512,
+    error: 'A key pattern is required'
+  }),
+  targetConnectionId: t.String({ minLength: 1 }),
+  targetDb: t.Optional(database),
+  conflictPolicy: t.Optional(t.Union([
+    t.Literal('skip'),
+    t.Literal('replace'),
+    t.Literal('rename')
+  ])),
+  renameSuffix: t.Optional(t.String({
+    minLength: 1,
+    maxLength: 64
+  })),
+  batchSize: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 1000,
+    default: 100
+  })),
+  delayMs: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 60000,
+    default: 0
+  }))
+})
@@ -0,0 +1,28 @@
+/**
+ * MONITOR Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+/**
+ * Monitor Query Schema
+ */
+export const monitorSchema = t.Object({
+  duration: t.Optional(t.Integer({
+    minimum: 5,
+    maximum: 600,
+    default: 60
+  })),
+  sample: t.Optional(t.Number({
+    exclusiveMinimum: 0,
+    maximum: 1,
+    default: 1
+  })),
+  commands: t.Optional(t.Array(t.String({ minLength: 1, maxLength: 64 }), { maxItems: 50 })),
+  pattern: t.Optional(t.String({ minLength: 1, maxLength: 512 })),
+  client: t.Optional(t.String({ minLength: 1, maxLength: 128 })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15
+  }))
+})
@@ -0,0 +1,28 @@
+/**
+ * Pub/Sub Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+/**
+ * List Pub/Sub Channels Query Schema
+ */
+export const listPubSubChannelsSchema = t.Object({
+  pattern: t.Optional(t.String({ minLength: 1, maxLength: 512 }))
+})
+
+/**
+ * Subscribe Query Schema
+ */
+export const pubSubSubscribeSchema = t.Object({
+  channels: t.Optional(t.Array(t.String({ minLength: 1, maxLength: 512 }), { maxItems: 50 })),
+  patterns: t.Optional(t.Array(t.String({ minLength: 1, maxLength: 512 }), { maxItems: 50 }))
+})
+
+/**
+ * Publish Request Schema
+ */
+export const publishMessageSchema = t.Object({
+  channel: t.String({ minLength: 1, maxLength: 512 }),
+  message: t.String()
+})
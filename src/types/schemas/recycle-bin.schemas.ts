@@ -0,0 +1,38 @@
+/**
+ * Recycle Bin Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+/**
+ * List Deleted Keys Query Schema
+ */
+export const listDeletedKeysSchema = t.Object({
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15
+  })),
+  search: t.Optional(t.String({ maxLength: 512 })),
+  page: t.Optional(t.Integer({
+    minimum: 1,
+    default: 1
+  })),
+  limit: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 200,
+    default: 50
+  }))
+})
+
+/**
+ * Restore Deleted Key Schema
+ */
+export const restoreDeletedKeySchema = t.Object({
+  newKey: t.Optional(t.String({
+    minLength: 1,
+    maxLength: 512
+  })),
+  replace: t.Optional(t.Boolean({
+    default: false
+  }))
+})
@@ -13,9 +13,47 @@ const redisDataType = t.Union([
   t.Literal('list'),
   t.Literal('set'),
   t.Literal('zset'),
-  t.Literal('stream')
+  t.Literal('stream'),
+  t.Literal('json'),
+  t.Literal('timeseries'),
+  t.Literal('hyperloglog'),
+  t.Literal('bloom'),
+  t.Literal('cuckoo'),
+  t.Literal('cms'),
+  t.Literal('topk')
 ])
 
+/**
+ * Value codec enum, see ValueCodec
+ */
+const valueCodec = t.Union([
+  t.Literal('text'),
+  t.Literal('json'),
+  t.Literal('hex'),
+  t.Literal('base64'),
+  t.Literal('gzip'),
+  t.Literal('zlib'),
+  t.Literal('msgpack'),
+  t.Literal('php'),
+  t.Literal('java')
+])
+
+const valueCodecChain = t.Array(valueCodec, { minItems: 1, maxItems: 4 })
+
+/**
+ * Key name encoding, hex addresses keys that are not valid UTF-8
+ */
+const keyEncoding = t.Optional(t.Union([
+  t.Literal('utf8'),
+  t.Literal('hex')
+], { default: 'utf8' }))
+
+const hexKeyName = t.String({
+  minLength: 2,
+  maxLength: 1024,
+  pattern: '^([0-9a-fA-F]{2})+$'
+})
+
 /**
  * List Keys Query Schema
  */
@@ -31,16 +69,15 @@ export const listKeysSchema = t.Object({
     maximum: 15,
     default: 0
   })),
-  cursor: t.Optional(t.String()),
+  cursor: t.Optional(t.String({
+    maxLength: 256,
+    error: 'Invalid continuation token'
+  })),
   count: t.Optional(t.Integer({
     minimum: 1,
     maximum: 1000,
     default: 100
   })),
-  page: t.Optional(t.Integer({
-    minimum: 1,
-    default: 1
-  })),
   limit: t.Optional(t.Integer({
     minimum: 1,
     maximum: 1000,
@@ -48,10 +85,22 @@ export const listKeysSchema = t.Object({
   }))
 })
 
+/**
+ * Database Query Schema
+ */
+export const databaseQuerySchema = t.Object({
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
 /**
  * Get Key Query Schema
  */
 export const getKeySchema = t.Object({
+  keyEncoding,
   db: t.Optional(t.Integer({
     minimum: 0,
     maximum: 15,
@@ -87,6 +136,9 @@ export const createKeySchema = t.Object({
  */
 export const updateKeySchema = t.Object({
   value: t.Any(), // Will be validated based on key type
+  codecs: t.Optional(valueCodecChain),
+  version: t.Optional(t.String({ minLength: 1 })),
+  keyEncoding,
   db: t.Optional(t.Integer({
     minimum: 0,
     maximum: 15,
@@ -98,6 +150,7 @@ export const updateKeySchema = t.Object({
  * Delete Key Request Schema
  */
 export const deleteKeySchema = t.Object({
+  keyEncoding,
   db: t.Optional(t.Integer({
     minimum: 0,
     maximum: 15,
@@ -114,6 +167,7 @@ export const setTtlSchema = t.Object({
     maximum: 2147483647,
     error: 'TTL must be -1 (remove) or a positive number of seconds'
   })),
+  keyEncoding,
   db: t.Optional(t.Integer({
     minimum: 0,
     maximum: 15,
@@ -130,6 +184,8 @@ export const renameKeySchema = t.Object({
     maxLength: 512,
     error: 'New key name is required and must be 1-512 characters'
   }),
+  keyEncoding,
+  newKeyEncoding: keyEncoding,
   db: t.Optional(t.Integer({
     minimum: 0,
     maximum: 15,
@@ -148,15 +204,107 @@ export const bulkDeleteSchema = t.Object({
     minLength: 1,
     maxLength: 512
   }), {
-    minItems: 1,
     maxItems: 1000,
-    error: 'Must provide 1-1000 keys to delete'
+    error: 'Must provide at most 1000 keys to delete'
+  }),
+  hexKeys: t.Optional(t.Array(hexKeyName, { maxItems: 1000 })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Copy Keys Request Schema
+ */
+export const copyKeysSchema = t.Object({
+  keys: t.Array(t.String({
+    minLength: 1,
+    maxLength: 512
+  }), {
+    maxItems: 1000,
+    error: 'Must provide at most 1000 keys to copy'
+  }),
+  hexKeys: t.Optional(t.Array(hexKeyName, { maxItems: 1000 })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  })),
+  mode: t.Optional(t.Union([t.Literal('copy'), t.Literal('move')])),
+  targetConnectionId: t.Optional(t.String({ minLength: 1 })),
+  targetDb: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15
+  })),
+  newKey: t.Optional(t.String({
+    minLength: 1,
+    maxLength: 512
+  })),
+  replace: t.Optional(t.Boolean({
+    default: false
+  }))
+})
+
+/**
+ * Namespace Tree Query Schema
+ */
+export const namespaceQuerySchema = t.Object({
+  prefix: t.Optional(t.String({ maxLength: 1024 })),
+  prefixEncoding: keyEncoding,
+  delimiter: t.Optional(t.String({
+    minLength: 1,
+    maxLength: 8,
+    default: ':'
+  })),
+  cursor: t.Optional(t.String({
+    pattern: '^[0-9]+$',
+    maxLength: 32
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+const prefixBulkFields = {
+  prefix: t.String({
+    minLength: 1,
+    maxLength: 1024,
+    error: 'A non-empty prefix is required'
   }),
+  prefixEncoding: keyEncoding,
   db: t.Optional(t.Integer({
     minimum: 0,
     maximum: 15,
     default: 0
   }))
+}
+
+const prefixBatchCursor = t.Optional(t.String({
+  pattern: '^[0-9]+$',
+  maxLength: 32
+}))
+
+/**
+ * Prefix Bulk Operation Schemas
+ */
+export const prefixBulkSchema = t.Object({
+  ...prefixBulkFields,
+  cursor: prefixBatchCursor
+})
+
+export const prefixTtlSchema = t.Object({
+  ...prefixBulkFields,
+  cursor: prefixBatchCursor,
+  ttl: t.Optional(t.Integer({ minimum: 1 }))
+})
+
+export const prefixExportSchema = t.Object({
+  ...prefixBulkFields,
+  format: t.Optional(t.Union([t.Literal('json'), t.Literal('csv')]))
 })
 
 /**
@@ -256,6 +404,837 @@ export const streamOperationSchema = t.Object({
   }))
 })
 
+/**
+ * Collection Page Query Schema
+ */
+export const collectionPageSchema = t.Object({
+  cursor: t.Optional(t.String({
+    pattern: '^[0-9]+$',
+    maxLength: 32,
+    default: '0'
+  })),
+  count: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 1000,
+    default: 100
+  })),
+  match: t.Optional(t.String({ minLength: 1, maxLength: 512 })),
+  keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Decode Value Query Schema
+ */
+export const decodeValueSchema = t.Object({
+  field: t.Optional(t.String({ minLength: 1, maxLength: 1024 })),
+  fieldEncoding: keyEncoding,
+  decoder: t.Optional(t.Union([
+    t.Literal('auto'),
+    t.Literal('raw'),
+    valueCodec
+  ], { default: 'auto' })),
+  keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+const collectionElement = t.String({ maxLength: 512 * 1024 })
+
+const collectionElements = t.Array(collectionElement, {
+  minItems: 1,
+  maxItems: 1000
+})
+
+// Values elements had when the editor loaded them, checked before the edit
+const expectedHashValues = t.Optional(t.Record(t.String({ maxLength: 1024 }), collectionElement))
+
+// Key version from getKey, checked before the edit
+const elementVersion = t.Optional(t.String({ minLength: 1 }))
+
+const listPosition = t.Union([
+  t.Literal('head'),
+  t.Literal('tail')
+])
+
+/**
+ * Set Hash Fields Schema
+ */
+export const hashSetFieldsSchema = t.Object({
+  fields: t.Record(t.String({ minLength: 1, maxLength: 1024 }), collectionElement),
+  codecs: t.Optional(valueCodecChain),
+  onlyIfNew: t.Optional(t.Boolean({
+    default: false
+  })),
+  expected: expectedHashValues,
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Delete Hash Fields Schema
+ */
+export const hashDeleteFieldsSchema = t.Object({
+  fields: collectionElements,
+  expected: expectedHashValues,
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Rename Hash Field Schema
+ */
+export const hashRenameFieldSchema = t.Object({
+  field: t.String({ minLength: 1 }),
+  newField: t.String({
+    minLength: 1,
+    maxLength: 1024,
+    error: 'New field name is required'
+  }),
+  expected: t.Optional(collectionElement),
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Set List Item Schema
+ */
+export const listSetItemSchema = t.Object({
+  index: t.Integer(),
+  value: collectionElement,
+  expected: collectionElement,
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Insert List Item Schema
+ */
+export const listInsertItemSchema = t.Object({
+  pivot: collectionElement,
+  position: t.Union([
+    t.Literal('BEFORE'),
+    t.Literal('AFTER')
+  ]),
+  value: collectionElement,
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Push List Items Schema
+ */
+export const listPushItemsSchema = t.Object({
+  values: collectionElements,
+  position: listPosition,
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Pop List Items Schema
+ */
+export const listPopItemsSchema = t.Object({
+  position: listPosition,
+  count: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 1000,
+    default: 1
+  })),
+  version: elementVersion,
+  keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Remove List Items Schema
+ */
+export const listRemoveItemsSchema = t.Object({
+  value: collectionElement,
+  index: t.Optional(t.Integer()),
+  count: t.Optional(t.Integer({
+    default: 0
+  })),
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Set Members Schema (add and remove)
+ */
+export const setMembersSchema = t.Object({
+  members: collectionElements,
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Rename Set Member Schema
+ */
+export const setRenameMemberSchema = t.Object({
+  member: collectionElement,
+  newMember: collectionElement,
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Add Sorted Set Members Schema
+ */
+export const zsetAddMembersSchema = t.Object({
+  members: t.Array(t.Object({
+    member: collectionElement,
+    score: t.Number()
+  }), {
+    minItems: 1,
+    maxItems: 1000
+  }),
+  condition: t.Optional(t.Union([
+    t.Literal('NX'),
+    t.Literal('XX'),
+    t.Literal('GT'),
+    t.Literal('LT')
+  ])),
+  expected: t.Optional(t.Record(collectionElement, t.Number())),
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Increment Sorted Set Member Schema
+ */
+export const zsetIncrementSchema = t.Object({
+  member: collectionElement,
+  increment: t.Number(),
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Remove Sorted Set Members Schema
+ */
+export const zsetRemoveMembersSchema = t.Object({
+  members: collectionElements,
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Rename Sorted Set Member Schema
+ */
+export const zsetRenameMemberSchema = t.Object({
+  member: collectionElement,
+  newMember: collectionElement,
+  expectedScore: t.Optional(t.Number()),
+  version: elementVersion,
+  keyEncoding,
+  elementEncoding: keyEncoding,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * JSONPath, either the root or a path starting at it
+ */
+const jsonPath = t.String({ minLength: 1, maxLength: 1024, pattern: '^\\$' })
+
+/**
+ * JSON Path Query Schema
+ */
+export const jsonPathQuerySchema = t.Object({
+  path: t.Optional(jsonPath),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * JSON Set Schema
+ */
+export const jsonSetSchema = t.Object({
+  path: jsonPath,
+  value: collectionElement,
+  condition: t.Optional(t.Union([
+    t.Literal('NX'),
+    t.Literal('XX')
+  ])),
+  version: elementVersion,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * JSON Array Append Schema
+ */
+export const jsonArrAppendSchema = t.Object({
+  path: jsonPath,
+  values: collectionElements,
+  version: elementVersion,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * JSON Delete Schema
+ */
+export const jsonDeleteSchema = t.Object({
+  path: jsonPath,
+  version: elementVersion,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Time series aggregation type enum, see TimeSeriesAggregation
+ */
+const timeSeriesAggregation = t.Union([
+  t.Literal('avg'),
+  t.Literal('sum'),
+  t.Literal('min'),
+  t.Literal('max'),
+  t.Literal('range'),
+  t.Literal('count'),
+  t.Literal('first'),
+  t.Literal('last'),
+  t.Literal('std.p'),
+  t.Literal('std.s'),
+  t.Literal('var.p'),
+  t.Literal('var.s'),
+  t.Literal('twa')
+])
+
+const timeSeriesRange = {
+  from: t.Optional(t.Integer({ minimum: 0 })),
+  to: t.Optional(t.Integer({ minimum: 0 })),
+  aggregation: t.Optional(timeSeriesAggregation),
+  bucketDuration: t.Optional(t.Integer({ minimum: 1 })),
+  count: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 10000,
+    default: 1000
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+}
+
+/**
+ * Time Series Range Query Schema
+ */
+export const timeSeriesRangeSchema = t.Object(timeSeriesRange)
+
+/**
+ * Multi Series Range Query Schema
+ */
+export const timeSeriesMRangeSchema = t.Object({
+  filter: t.String({
+    minLength: 1,
+    maxLength: 2048,
+    error: 'At least one label filter is required'
+  }),
+  ...timeSeriesRange
+})
+
+/**
+ * Time Series Add Sample Schema
+ */
+export const timeSeriesAddSchema = t.Object({
+  timestamp: t.Optional(t.Integer({ minimum: 0 })),
+  value: t.Number(),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Time Series Delete Samples Schema
+ */
+export const timeSeriesDeleteSchema = t.Object({
+  from: t.Integer({ minimum: 0 }),
+  to: t.Integer({ minimum: 0 }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Probabilistic Add Items Schema
+ */
+export const probabilisticAddSchema = t.Object({
+  items: collectionElements,
+  increments: t.Optional(t.Array(t.Integer({ minimum: 1 }), {
+    maxItems: 1000
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Probabilistic Query Items Schema
+ */
+export const probabilisticQuerySchema = t.Object({
+  items: t.Array(t.String({ maxLength: 4096 }), {
+    minItems: 1,
+    maxItems: 100
+  }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Cuckoo Delete Items Schema
+ */
+export const cuckooDeleteSchema = t.Object({
+  items: collectionElements,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * HyperLogLog Merge Schema
+ */
+export const hyperLogLogMergeSchema = t.Object({
+  sources: t.Array(t.String({ minLength: 1, maxLength: 1024 }), {
+    minItems: 1,
+    maxItems: 100
+  }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Bitmap Page Query Schema
+ */
+export const bitmapPageSchema = t.Object({
+  offset: t.Optional(t.Integer({
+    minimum: 0,
+    default: 0
+  })),
+  count: t.Optional(t.Integer({
+    minimum: 8,
+    maximum: 65536,
+    default: 1024
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Bitmap Position Query Schema
+ */
+export const bitmapPositionSchema = t.Object({
+  bit: t.Union([t.Literal(0), t.Literal(1)]),
+  from: t.Optional(t.Integer({
+    minimum: 0,
+    default: 0
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Bitmap Set Bit Schema
+ */
+export const bitmapSetBitSchema = t.Object({
+  // Redis caps string values at 512 MB
+  offset: t.Integer({
+    minimum: 0,
+    maximum: 4294967295
+  }),
+  value: t.Union([t.Literal(0), t.Literal(1)]),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+const geoLongitude = t.Number({ minimum: -180, maximum: 180 })
+const geoLatitude = t.Number({ minimum: -85.05112878, maximum: 85.05112878 })
+const geoDistance = t.Number({ exclusiveMinimum: 0 })
+
+/**
+ * Geo Members Page Query Schema
+ */
+export const geoPageSchema = t.Object({
+  offset: t.Optional(t.Integer({
+    minimum: 0,
+    default: 0
+  })),
+  count: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 1000,
+    default: 100
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Geo Search Query Schema
+ */
+export const geoSearchSchema = t.Object({
+  member: t.Optional(t.String({ minLength: 1, maxLength: 4096 })),
+  longitude: t.Optional(geoLongitude),
+  latitude: t.Optional(geoLatitude),
+  radius: t.Optional(geoDistance),
+  width: t.Optional(geoDistance),
+  height: t.Optional(geoDistance),
+  unit: t.Optional(t.Union([
+    t.Literal('m'),
+    t.Literal('km'),
+    t.Literal('mi'),
+    t.Literal('ft')
+  ])),
+  count: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 1000,
+    default: 100
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Geo Add Members Schema
+ */
+export const geoAddSchema = t.Object({
+  members: t.Array(t.Object({
+    member: collectionElement,
+    longitude: geoLongitude,
+    latitude: geoLatitude
+  }), {
+    minItems: 1,
+    maxItems: 1000
+  }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Stream Range Query Schema
+ */
+export const streamRangeSchema = t.Object({
+  start: t.Optional(t.String({ minLength: 1, maxLength: 64 })),
+  end: t.Optional(t.String({ minLength: 1, maxLength: 64 })),
+  count: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 1000,
+    default: 50
+  })),
+  reverse: t.Optional(t.Boolean({
+    default: false
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Stream Add Entry Schema
+ */
+export const streamAddEntrySchema = t.Object({
+  id: t.Optional(t.String({
+    minLength: 1,
+    maxLength: 64,
+    error: 'Entry ID must be "*" or a valid stream ID'
+  })),
+  fields: t.Record(t.String({ minLength: 1, maxLength: 512 }), t.String()),
+  maxLen: t.Optional(t.Integer({
+    minimum: 0
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Stream Delete Entries Schema
+ */
+export const streamDeleteEntriesSchema = t.Object({
+  ids: t.Array(t.String({
+    minLength: 1,
+    maxLength: 64
+  }), {
+    minItems: 1,
+    maxItems: 1000,
+    error: 'Must provide 1-1000 entry IDs to delete'
+  }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Stream Trim Schema
+ */
+export const streamTrimSchema = t.Object({
+  strategy: t.Union([
+    t.Literal('MAXLEN'),
+    t.Literal('MINID')
+  ]),
+  threshold: t.String({
+    minLength: 1,
+    maxLength: 64,
+    error: 'Trim threshold is required'
+  }),
+  approximate: t.Optional(t.Boolean({
+    default: false
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+const streamGroupName = t.String({
+  minLength: 1,
+  maxLength: 256,
+  error: 'Consumer group name is required'
+})
+
+/**
+ * Stream Pending Entries Query Schema
+ */
+export const streamPendingSchema = t.Object({
+  consumer: t.Optional(t.String({ minLength: 1, maxLength: 256 })),
+  start: t.Optional(t.String({ minLength: 1, maxLength: 64 })),
+  end: t.Optional(t.String({ minLength: 1, maxLength: 64 })),
+  count: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 1000,
+    default: 50
+  })),
+  minIdle: t.Optional(t.Integer({
+    minimum: 0
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Create Consumer Group Schema
+ */
+export const createStreamGroupSchema = t.Object({
+  group: streamGroupName,
+  id: t.Optional(t.String({ minLength: 1, maxLength: 64 })),
+  mkStream: t.Optional(t.Boolean({
+    default: false
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Set Consumer Group ID Schema
+ */
+export const setStreamGroupIdSchema = t.Object({
+  id: t.String({
+    minLength: 1,
+    maxLength: 64,
+    error: 'Last delivered ID is required'
+  }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Acknowledge Pending Entries Schema
+ */
+export const streamAckSchema = t.Object({
+  ids: t.Array(t.String({
+    minLength: 1,
+    maxLength: 64
+  }), {
+    minItems: 1,
+    maxItems: 1000,
+    error: 'Must provide 1-1000 entry IDs to acknowledge'
+  }),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Claim Pending Entries Schema
+ */
+export const streamClaimSchema = t.Object({
+  consumer: t.String({
+    minLength: 1,
+    maxLength: 256,
+    error: 'Consumer name is required'
+  }),
+  minIdleTime: t.Integer({
+    minimum: 0
+  }),
+  ids: t.Optional(t.Array(t.String({
+    minLength: 1,
+    maxLength: 64
+  }), {
+    minItems: 1,
+    maxItems: 1000
+  })),
+  start: t.Optional(t.String({ minLength: 1, maxLength: 64 })),
+  count: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 1000,
+    default: 100
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
 /**
  * Response schemas for validation
  */
@@ -322,14 +1301,7 @@ export const databaseInfoSchema = t.Object({
   expires: t.Optional(t.Integer()),
   persistent: t.Optional(t.Integer()),
   keyDistribution: t.Optional(t.Record(
-    t.Union([
-      t.Literal('string'),
-      t.Literal('hash'),
-      t.Literal('list'),
-      t.Literal('set'),
-      t.Literal('zset'),
-      t.Literal('stream')
-    ]),
+    redisDataType,
     t.Integer()
   ))
 })
@@ -0,0 +1,111 @@
+/**
+ * RediSearch Validation Schemas
+ */
+
+import { t } from 'elysia'
+
+const indexName = t.String({
+  minLength: 1,
+  maxLength: 256,
+  error: 'Index name is required and must be 1-256 characters'
+})
+
+const searchPaging = {
+  offset: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 1000000,
+    default: 0
+  })),
+  limit: t.Optional(t.Integer({
+    minimum: 1,
+    maximum: 1000,
+    default: 20
+  }))
+}
+
+/**
+ * Create Search Index Schema
+ */
+export const createSearchIndexSchema = t.Object({
+  name: indexName,
+  keyType: t.Union([
+    t.Literal('HASH'),
+    t.Literal('JSON')
+  ]),
+  prefixes: t.Optional(t.Array(t.String({ minLength: 1, maxLength: 512 }), {
+    maxItems: 32
+  })),
+  filter: t.Optional(t.String({ minLength: 1, maxLength: 1024 })),
+  fields: t.Array(t.Object({
+    identifier: t.String({ minLength: 1, maxLength: 512 }),
+    attribute: t.Optional(t.String({ minLength: 1, maxLength: 256 })),
+    type: t.Union([
+      t.Literal('TEXT'),
+      t.Literal('TAG'),
+      t.Literal('NUMERIC'),
+      t.Literal('GEO')
+    ]),
+    sortable: t.Optional(t.Boolean())
+  }), {
+    minItems: 1,
+    maxItems: 128,
+    error: 'At least one schema field is required'
+  }),
+  skipInitialScan: t.Optional(t.Boolean({
+    default: false
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Drop Search Index Schema
+ */
+export const dropSearchIndexSchema = t.Object({
+  deleteDocuments: t.Optional(t.Boolean({
+    default: false
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Search Query Schema
+ */
+export const searchQuerySchema = t.Object({
+  query: t.String({ minLength: 1, maxLength: 4096 }),
+  ...searchPaging,
+  sortBy: t.Optional(t.String({ minLength: 1, maxLength: 256 })),
+  sortOrder: t.Optional(t.Union([
+    t.Literal('ASC'),
+    t.Literal('DESC')
+  ])),
+  noContent: t.Optional(t.Boolean({
+    default: false
+  })),
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
+
+/**
+ * Aggregate Query Schema
+ */
+export const aggregateQuerySchema = t.Object({
+  query: t.String({ minLength: 1, maxLength: 4096 }),
+  pipeline: t.Optional(t.String({ maxLength: 8192 })),
+  ...searchPaging,
+  db: t.Optional(t.Integer({
+    minimum: 0,
+    maximum: 15,
+    default: 0
+  }))
+})
@@ -162,6 +162,27 @@ export const redisSettingsSchema = t.Object({
   })
 })
 
+export const recycleBinSettingsSchema = t.Object({
+  'recycleBin.enabled': t.Boolean({
+    default: true
+  }),
+  'recycleBin.retentionDays': t.Integer({
+    minimum: 1,
+    maximum: 365,
+    default: 7
+  }),
+  'recycleBin.maxEntrySizeMb': t.Integer({
+    minimum: 1,
+    maximum: 512,
+    default: 10
+  }),
+  'recycleBin.maxTotalSizeMb': t.Integer({
+    minimum: 1,
+    maximum: 100000,
+    default: 500
+  })
+})
+
 export const appSettingsSchema = t.Object({
   'app.name': t.String({
     minLength: 1,
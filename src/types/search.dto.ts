@@ -0,0 +1,134 @@
+/**
+ * RediSearch DTOs
+ */
+
+
+/**
+ * Field types of a search index schema
+ */
+export type SearchFieldType = 'TEXT' | 'TAG' | 'NUMERIC' | 'GEO' | 'VECTOR' | 'GEOSHAPE'
+
+/**
+ * Field of a search index schema
+ */
+export interface SearchIndexField {
+  identifier: string // Hash field name or JSONPath
+  attribute: string // Name used in queries (AS)
+  type: SearchFieldType | string
+  options: string[] // Remaining flags, e.g. ["WEIGHT", "1", "SORTABLE"]
+}
+
+/**
+ * Search index details (FT.INFO)
+ */
+export interface SearchIndexInfo {
+  name: string
+  keyType: 'HASH' | 'JSON' | string
+  prefixes: string[]
+  filter?: string
+  fields: SearchIndexField[]
+  numDocs: number
+  numRecords?: number
+  numTerms?: number
+  indexing: boolean // Initial scan or reindex in progress
+  percentIndexed: number // 0..1
+  indexingFailures: number
+  invertedSizeMb?: number
+  totalIndexingTime?: number // Milliseconds
+}
+
+/**
+ * List Search Indexes Response (FT._LIST)
+ */
+export type ListSearchIndexesResponseDto = {
+  success: boolean
+  indexes?: string[]
+  error?: string
+}
+
+/**
+ * Get Search Index Response (FT.INFO)
+ */
+export type GetSearchIndexResponseDto = {
+  success: boolean
+  index?: SearchIndexInfo
+  error?: string
+}
+
+/**
+ * Create Search Index Request (FT.CREATE)
+ */
+export interface CreateSearchIndexRequestDto {
+  name: string
+  keyType: 'HASH' | 'JSON'
+  prefixes?: string[] // Key prefixes to index, all keys when empty
+  filter?: string // FILTER expression
+  fields: Array<{
+    identifier: string
+    attribute?: string // AS name, required for JSONPath identifiers to be usable in queries
+    type: 'TEXT' | 'TAG' | 'NUMERIC' | 'GEO'
+    sortable?: boolean
+  }>
+  skipInitialScan?: boolean // Only index keys written after creation
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Drop Search Index Query (FT.DROPINDEX)
+ */
+export interface DropSearchIndexQueryDto {
+  deleteDocuments?: boolean // DD, also delete the indexed keys
+  db?: number // Database number (default: 0)
+}
+
+export type SearchIndexResponseDto = {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+/**
+ * Search Query (FT.SEARCH)
+ */
+export interface SearchQueryDto {
+  query: string
+  offset?: number // LIMIT offset (default: 0)
+  limit?: number // LIMIT num (default: 20)
+  sortBy?: string // Sortable attribute
+  sortOrder?: 'ASC' | 'DESC'
+  noContent?: boolean // Only return document ids
+  db?: number // Database number (default: 0)
+}
+
+/**
+ * Document returned by FT.SEARCH
+ */
+export interface SearchDocument {
+  id: string // Key name of the document
+  fields: Record<string, string> // "$" holds the whole document for JSON indexes
+}
+
+export type SearchResponseDto = {
+  success: boolean
+  total?: number // Total matches, documents only holds the requested page
+  documents?: SearchDocument[]
+  error?: string
+}
+
+/**
+ * Aggregate Query (FT.AGGREGATE)
+ */
+export interface AggregateQueryDto {
+  query: string
+  pipeline?: string // Pipeline steps in command syntax, e.g. GROUPBY 1 @city REDUCE COUNT 0 AS n
+  offset?: number // LIMIT offset (default: 0)
+  limit?: number // LIMIT num (default: 20)
+  db?: number // Database number (default: 0)
+}
+
+export type AggregateResponseDto = {
+  success: boolean
+  total?: number // Approximate number of result rows
+  rows?: Array<Record<string, string>>
+  error?: string
+}
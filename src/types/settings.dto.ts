@@ -123,6 +123,12 @@ export interface DefaultSystemSettings {
   'redis.maxKeyPageSize': number
   'redis.connectionTimeout': number // milliseconds
 
+  // Recycle bin settings
+  'recycleBin.enabled': boolean
+  'recycleBin.retentionDays': number
+  'recycleBin.maxEntrySizeMb': number // Larger keys are deleted without a copy
+  'recycleBin.maxTotalSizeMb': number // Oldest entries are pruned past this size
+
   // Application settings
   'app.name': string
   'app.allowSignup': boolean